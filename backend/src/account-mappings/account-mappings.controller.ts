@@ -0,0 +1,137 @@
+import {
+  Controller,
+  Get,
+  Patch,
+  Body,
+  Param,
+  UseGuards,
+  applyDecorators,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { AccountMappingsService } from './account-mappings.service';
+import { TenantContextGuard } from '../common/guards/tenant-context.guard';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import { TenantContext } from '../common/decorators/tenant-context.decorator';
+import { UpdateAccountMappingsDto } from './dto/update-account-mappings.dto';
+import { SetOverrideAccountDto } from './dto/set-override-account.dto';
+
+// Custom decorator to apply guards to specific routes (not controller-level)
+function Protected() {
+  return applyDecorators(
+    ApiBearerAuth(),
+    UseGuards(TenantContextGuard, PermissionsGuard),
+  );
+}
+
+@ApiTags('account-mappings')
+@Controller('settings/account-mappings')
+export class AccountMappingsController {
+  constructor(
+    private readonly accountMappingsService: AccountMappingsService,
+  ) {}
+
+  @Get()
+  @Protected()
+  @ApiOperation({ summary: 'Get the default posting accounts' })
+  @ApiResponse({ status: 200, description: 'Account mappings' })
+  @RequirePermissions({ module: 'settings', action: 'view' })
+  findOne(@TenantContext('tenantId') tenantId: string) {
+    return this.accountMappingsService.findOne(tenantId);
+  }
+
+  @Patch()
+  @Protected()
+  @ApiOperation({ summary: 'Update the default posting accounts' })
+  @ApiResponse({ status: 200, description: 'Account mappings updated' })
+  @ApiResponse({ status: 400, description: 'Unsuitable or missing account' })
+  @RequirePermissions({
+    module: 'settings',
+    action: 'edit',
+    resource: 'accounts',
+  })
+  update(
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
+    @Body() updateDto: UpdateAccountMappingsDto,
+  ) {
+    return this.accountMappingsService.update(tenantId, updateDto, userId);
+  }
+
+  @Get('overrides')
+  @Protected()
+  @ApiOperation({
+    summary: 'List customers, vendors and VAT codes with their own accounts',
+  })
+  @ApiResponse({ status: 200, description: 'Account overrides' })
+  @RequirePermissions({ module: 'settings', action: 'view' })
+  findOverrides(@TenantContext('tenantId') tenantId: string) {
+    return this.accountMappingsService.findOverrides(tenantId);
+  }
+
+  @Patch('customers/:customerId')
+  @Protected()
+  @ApiOperation({ summary: "Set or clear a customer's receivable account" })
+  @ApiResponse({ status: 200, description: 'Customer updated' })
+  @RequirePermissions(
+    { module: 'settings', action: 'edit', resource: 'accounts' },
+    { module: 'customers', action: 'edit' },
+  )
+  setCustomerAccount(
+    @Param('customerId') customerId: string,
+    @TenantContext('tenantId') tenantId: string,
+    @Body() overrideDto: SetOverrideAccountDto,
+  ) {
+    return this.accountMappingsService.setCustomerAccount(
+      tenantId,
+      customerId,
+      overrideDto.accountId,
+    );
+  }
+
+  @Patch('vendors/:vendorId')
+  @Protected()
+  @ApiOperation({ summary: "Set or clear a vendor's payable account" })
+  @ApiResponse({ status: 200, description: 'Vendor updated' })
+  @RequirePermissions(
+    { module: 'settings', action: 'edit', resource: 'accounts' },
+    { module: 'vendors', action: 'edit' },
+  )
+  setVendorAccount(
+    @Param('vendorId') vendorId: string,
+    @TenantContext('tenantId') tenantId: string,
+    @Body() overrideDto: SetOverrideAccountDto,
+  ) {
+    return this.accountMappingsService.setVendorAccount(
+      tenantId,
+      vendorId,
+      overrideDto.accountId,
+    );
+  }
+
+  @Patch('vat-codes/:vatCodeId')
+  @Protected()
+  @ApiOperation({ summary: "Set or clear a VAT code's account" })
+  @ApiResponse({ status: 200, description: 'VAT code updated' })
+  @RequirePermissions({
+    module: 'settings',
+    action: 'edit',
+    resource: 'accounts',
+  })
+  setVatCodeAccount(
+    @Param('vatCodeId') vatCodeId: string,
+    @TenantContext('tenantId') tenantId: string,
+    @Body() overrideDto: SetOverrideAccountDto,
+  ) {
+    return this.accountMappingsService.setVatCodeAccount(
+      tenantId,
+      vatCodeId,
+      overrideDto.accountId,
+    );
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AccountMappingsService } from './account-mappings.service';
+import { AccountMappingsController } from './account-mappings.controller';
+import { SupabaseModule } from '../supabase/supabase.module';
+
+@Module({
+  imports: [SupabaseModule],
+  controllers: [AccountMappingsController],
+  providers: [AccountMappingsService],
+  exports: [AccountMappingsService],
+})
+export class AccountMappingsModule {}
@@ -0,0 +1,149 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { AccountMappingsService } from './account-mappings.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { AuditService } from '../audit/audit.service';
+import { queryResult } from '../../test/utils/query-result';
+
+describe('AccountMappingsService', () => {
+  let service: AccountMappingsService;
+  let tables: Record<string, any[]>;
+
+  const mockTenantId = 'test-tenant-id';
+  const mockUserId = 'test-user-id';
+
+  beforeEach(async () => {
+    tables = {};
+    const mockSupabaseClient = {
+      from: jest.fn((table: string) => tables[table].shift()),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountMappingsService,
+        {
+          provide: SupabaseService,
+          useValue: {
+            getClient: jest.fn().mockReturnValue(mockSupabaseClient),
+          },
+        },
+        { provide: AuditService, useValue: { logAction: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<AccountMappingsService>(AccountMappingsService);
+  });
+
+  describe('update', () => {
+    it('should reject an account of the wrong type', async () => {
+      tables.chart_of_accounts = [
+        queryResult({
+          data: [
+            {
+              id: 'sales-account',
+              code: '5110',
+              type: 'revenue',
+              is_active: true,
+              is_posting_allowed: true,
+            },
+          ],
+          error: null,
+        }),
+      ];
+
+      await expect(
+        service.update(
+          mockTenantId,
+          { receivableAccountId: 'sales-account' },
+          mockUserId,
+        ),
+      ).rejects.toThrow(
+        'Accounts receivable account 5110 must be a asset account',
+      );
+    });
+
+    it('should save mapped accounts and clear the ones set to null', async () => {
+      const upsert = queryResult({ data: { id: 'mapping-id' }, error: null });
+      tables.chart_of_accounts = [
+        queryResult({
+          data: [
+            {
+              id: 'ar-account',
+              code: '1210',
+              type: 'asset',
+              is_active: true,
+              is_posting_allowed: true,
+            },
+          ],
+          error: null,
+        }),
+      ];
+      tables.account_mappings = [
+        upsert,
+        queryResult({
+          data: [{ receivable_account_id: 'ar-account' }],
+          error: null,
+        }),
+      ];
+
+      const result = await service.update(
+        mockTenantId,
+        { receivableAccountId: 'ar-account', roundingAccountId: null },
+        mockUserId,
+      );
+
+      expect(upsert.upsert).toHaveBeenCalledWith(
+        {
+          tenant_id: mockTenantId,
+          receivable_account_id: 'ar-account',
+          rounding_account_id: null,
+          updated_by: mockUserId,
+        },
+        { onConflict: 'tenant_id' },
+      );
+      expect(result.receivable_account_id).toBe('ar-account');
+      expect(result.payable_account_id).toBeNull();
+    });
+  });
+
+  describe('resolve', () => {
+    it("should apply the customer's own receivable account", async () => {
+      tables.account_mappings = [
+        queryResult({
+          data: [
+            {
+              receivable_account_id: 'ar-account',
+              sales_account_id: 'sales-account',
+            },
+          ],
+          error: null,
+        }),
+      ];
+      tables.customers = [
+        queryResult({ data: { receivable_account_id: 'related-party-ar' } }),
+      ];
+
+      const mappings = await service.resolve(mockTenantId, {
+        customerId: 'customer-1',
+      });
+
+      expect(mappings.receivable).toBe('related-party-ar');
+      expect(mappings.sales).toBe('sales-account');
+    });
+  });
+
+  describe('requireAccount', () => {
+    it('should name the missing mapping', async () => {
+      tables.account_mappings = [queryResult({ data: [], error: null })];
+
+      const mappings = await service.resolve(mockTenantId);
+
+      expect(() => service.requireAccount(mappings, 'output_vat')).toThrow(
+        BadRequestException,
+      );
+      expect(() => service.requireAccount(mappings, 'output_vat')).toThrow(
+        'No output vat account is mapped',
+      );
+    });
+  });
+});
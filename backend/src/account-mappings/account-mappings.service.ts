@@ -0,0 +1,512 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { AuditService } from '../audit/audit.service';
+import { UpdateAccountMappingsDto } from './dto/update-account-mappings.dto';
+
+export type AccountMappingKey =
+  | 'receivable'
+  | 'payable'
+  | 'output_vat'
+  | 'input_vat'
+  | 'sales'
+  | 'purchases'
+  | 'sales_returns'
+  | 'purchase_returns'
+  | 'sales_discount'
+  | 'purchase_discount'
+  | 'customer_advances'
+  | 'employee_payable'
+  | 'bad_debts'
+  | 'rounding'
+  | 'fx_gain'
+  | 'fx_loss'
+  | 'retained_earnings';
+
+export type ResolvedAccountMappings = Record<AccountMappingKey, string | null>;
+
+type AccountMappingColumn = `${AccountMappingKey}_account_id`;
+
+interface AccountMappingDefinition {
+  label: string;
+  field: Exclude<keyof UpdateAccountMappingsDto, 'writeOffTolerance'>;
+  // Account types the mapped account may have
+  types: string[];
+}
+
+const ACCOUNT_MAPPINGS: Record<AccountMappingKey, AccountMappingDefinition> = {
+  receivable: {
+    label: 'Accounts receivable',
+    field: 'receivableAccountId',
+    types: ['asset'],
+  },
+  payable: {
+    label: 'Accounts payable',
+    field: 'payableAccountId',
+    types: ['liability'],
+  },
+  output_vat: {
+    label: 'Output VAT',
+    field: 'outputVatAccountId',
+    types: ['liability'],
+  },
+  input_vat: {
+    label: 'Input VAT',
+    field: 'inputVatAccountId',
+    types: ['asset'],
+  },
+  sales: {
+    label: 'Sales',
+    field: 'salesAccountId',
+    types: ['revenue'],
+  },
+  purchases: {
+    label: 'Purchases',
+    field: 'purchasesAccountId',
+    types: ['expense', 'asset'],
+  },
+  sales_returns: {
+    label: 'Sales returns',
+    field: 'salesReturnsAccountId',
+    types: ['revenue', 'expense'],
+  },
+  purchase_returns: {
+    label: 'Purchase returns',
+    field: 'purchaseReturnsAccountId',
+    types: ['expense', 'revenue', 'asset'],
+  },
+  sales_discount: {
+    label: 'Sales discount',
+    field: 'salesDiscountAccountId',
+    types: ['revenue', 'expense'],
+  },
+  purchase_discount: {
+    label: 'Purchase discount',
+    field: 'purchaseDiscountAccountId',
+    types: ['revenue', 'expense'],
+  },
+  customer_advances: {
+    label: 'Customer advances',
+    field: 'customerAdvancesAccountId',
+    types: ['liability'],
+  },
+  employee_payable: {
+    label: 'Employee payable',
+    field: 'employeePayableAccountId',
+    types: ['liability'],
+  },
+  bad_debts: {
+    label: 'Bad debts',
+    field: 'badDebtsAccountId',
+    types: ['expense'],
+  },
+  rounding: {
+    label: 'Rounding',
+    field: 'roundingAccountId',
+    types: ['revenue', 'expense'],
+  },
+  fx_gain: {
+    label: 'Exchange gain',
+    field: 'fxGainAccountId',
+    types: ['revenue'],
+  },
+  fx_loss: {
+    label: 'Exchange loss',
+    field: 'fxLossAccountId',
+    types: ['expense'],
+  },
+  retained_earnings: {
+    label: 'Retained earnings',
+    field: 'retainedEarningsAccountId',
+    types: ['equity'],
+  },
+};
+
+const MAPPING_KEYS = Object.keys(ACCOUNT_MAPPINGS) as AccountMappingKey[];
+
+/**
+ * Default posting accounts of a tenant
+ *
+ * Invoices, payments and the year-end close take their accounts from here.
+ * A customer's receivable account, a vendor's payable account and a VAT
+ * code's account override the tenant mapping when set.
+ */
+@Injectable()
+export class AccountMappingsService {
+  constructor(
+    private supabaseService: SupabaseService,
+    private auditService: AuditService,
+  ) {}
+
+  /**
+   * Get the tenant's mappings with every key present, mapped or not
+   */
+  async findOne(tenantId: string) {
+    const row = await this.findRow(tenantId);
+
+    const mappings = {} as Record<AccountMappingColumn, string | null>;
+    for (const key of MAPPING_KEYS) {
+      mappings[this.column(key)] = row?.[this.column(key)] ?? null;
+    }
+
+    return {
+      tenant_id: tenantId,
+      ...mappings,
+      write_off_tolerance: Number(row?.write_off_tolerance) || 0,
+      updated_by: row?.updated_by ?? null,
+      updated_at: row?.updated_at ?? null,
+    };
+  }
+
+  async update(
+    tenantId: string,
+    updateDto: UpdateAccountMappingsDto,
+    userId: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const updateData: any = {};
+    const accounts: Array<{ key: AccountMappingKey; accountId: string }> = [];
+
+    for (const key of MAPPING_KEYS) {
+      const value = updateDto[ACCOUNT_MAPPINGS[key].field];
+      if (value === undefined) continue;
+
+      updateData[this.column(key)] = value;
+      if (value) accounts.push({ key, accountId: value });
+    }
+
+    if (updateDto.writeOffTolerance !== undefined) {
+      updateData.write_off_tolerance = updateDto.writeOffTolerance;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return this.findOne(tenantId);
+    }
+
+    await this.assertAccounts(tenantId, accounts);
+
+    const { data, error } = await supabase
+      .from('account_mappings')
+      .upsert(
+        { tenant_id: tenantId, ...updateData, updated_by: userId },
+        { onConflict: 'tenant_id' },
+      )
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await this.auditService.logAction({
+      action: 'update',
+      entity: 'account_mappings',
+      entityId: data.id,
+      userId,
+      tenantId,
+      metadata: { changes: updateData },
+      timestamp: new Date(),
+      success: true,
+    });
+
+    return this.findOne(tenantId);
+  }
+
+  /**
+   * List the customers, vendors and VAT codes that override the mapping
+   */
+  async findOverrides(tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const [customers, vendors, vatCodes] = await Promise.all([
+      supabase
+        .from('customers')
+        .select('id, code, name_en, name_ar, receivable_account_id')
+        .eq('tenant_id', tenantId)
+        .not('receivable_account_id', 'is', null)
+        .order('code'),
+      supabase
+        .from('vendors')
+        .select('id, code, name_en, name_ar, payable_account_id')
+        .eq('tenant_id', tenantId)
+        .not('payable_account_id', 'is', null)
+        .order('code'),
+      supabase
+        .from('vat_codes')
+        .select('id, code, name_en, name_ar, type, account_id')
+        .eq('tenant_id', tenantId)
+        .not('account_id', 'is', null)
+        .order('code'),
+    ]);
+
+    for (const result of [customers, vendors, vatCodes]) {
+      if (result.error) throw result.error;
+    }
+
+    return {
+      customers: customers.data || [],
+      vendors: vendors.data || [],
+      vat_codes: vatCodes.data || [],
+    };
+  }
+
+  async setCustomerAccount(
+    tenantId: string,
+    customerId: string,
+    accountId: string | null | undefined,
+  ) {
+    return this.setOverride(
+      tenantId,
+      'customers',
+      customerId,
+      'receivable_account_id',
+      'receivable',
+      accountId,
+      'Customer not found',
+    );
+  }
+
+  async setVendorAccount(
+    tenantId: string,
+    vendorId: string,
+    accountId: string | null | undefined,
+  ) {
+    return this.setOverride(
+      tenantId,
+      'vendors',
+      vendorId,
+      'payable_account_id',
+      'payable',
+      accountId,
+      'Vendor not found',
+    );
+  }
+
+  async setVatCodeAccount(
+    tenantId: string,
+    vatCodeId: string,
+    accountId: string | null | undefined,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: vatCode } = await supabase
+      .from('vat_codes')
+      .select('id, type')
+      .eq('id', vatCodeId)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (!vatCode) {
+      throw new NotFoundException('VAT code not found');
+    }
+
+    return this.setOverride(
+      tenantId,
+      'vat_codes',
+      vatCodeId,
+      'account_id',
+      vatCode.type === 'input' ? 'input_vat' : 'output_vat',
+      accountId,
+      'VAT code not found',
+    );
+  }
+
+  /**
+   * Tenant mappings with the party's own receivable or payable account
+   * applied on top
+   */
+  async resolve(
+    tenantId: string,
+    party: { customerId?: string; vendorId?: string } = {},
+  ): Promise<ResolvedAccountMappings> {
+    const supabase = this.supabaseService.getClient();
+    const row = await this.findRow(tenantId);
+
+    const mappings = {} as ResolvedAccountMappings;
+    for (const key of MAPPING_KEYS) {
+      mappings[key] = row?.[this.column(key)] ?? null;
+    }
+
+    if (party.customerId) {
+      const { data: customer } = await supabase
+        .from('customers')
+        .select('receivable_account_id')
+        .eq('id', party.customerId)
+        .eq('tenant_id', tenantId)
+        .single();
+
+      if (customer?.receivable_account_id) {
+        mappings.receivable = customer.receivable_account_id;
+      }
+    }
+
+    if (party.vendorId) {
+      const { data: vendor } = await supabase
+        .from('vendors')
+        .select('payable_account_id')
+        .eq('id', party.vendorId)
+        .eq('tenant_id', tenantId)
+        .single();
+
+      if (vendor?.payable_account_id) {
+        mappings.payable = vendor.payable_account_id;
+      }
+    }
+
+    return mappings;
+  }
+
+  /**
+   * Largest difference left on an invoice by a payment allocation that is
+   * written off automatically; 0 when automatic write-offs are off
+   */
+  async getWriteOffTolerance(tenantId: string): Promise<number> {
+    const row = await this.findRow(tenantId);
+    return Number(row?.write_off_tolerance) || 0;
+  }
+
+  /**
+   * Own accounts of the given VAT codes, keyed by VAT code id. Codes without
+   * an override are left out.
+   */
+  async resolveVatAccounts(
+    tenantId: string,
+    vatCodeIds: string[],
+  ): Promise<Map<string, string>> {
+    const accounts = new Map<string, string>();
+    const ids = [...new Set(vatCodeIds.filter(Boolean))];
+
+    if (ids.length === 0) {
+      return accounts;
+    }
+
+    const supabase = this.supabaseService.getClient();
+    const { data, error } = await supabase
+      .from('vat_codes')
+      .select('id, account_id')
+      .eq('tenant_id', tenantId)
+      .in('id', ids);
+
+    if (error) throw error;
+
+    for (const vatCode of data || []) {
+      if (vatCode.account_id) accounts.set(vatCode.id, vatCode.account_id);
+    }
+
+    return accounts;
+  }
+
+  /**
+   * Return the mapped account or explain which mapping is missing
+   */
+  requireAccount(
+    mappings: ResolvedAccountMappings,
+    key: AccountMappingKey,
+  ): string {
+    const accountId = mappings[key];
+
+    if (!accountId) {
+      throw new BadRequestException(
+        `No ${ACCOUNT_MAPPINGS[key].label.toLowerCase()} account is mapped. Set it in Settings > Account mappings`,
+      );
+    }
+
+    return accountId;
+  }
+
+  private async setOverride(
+    tenantId: string,
+    table: 'customers' | 'vendors' | 'vat_codes',
+    id: string,
+    column: string,
+    key: AccountMappingKey,
+    accountId: string | null | undefined,
+    notFoundMessage: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    if (accountId) {
+      await this.assertAccounts(tenantId, [{ key, accountId }]);
+    }
+
+    const { data, error } = await supabase
+      .from(table)
+      .update({ [column]: accountId || null })
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new NotFoundException(notFoundMessage);
+    }
+
+    return data;
+  }
+
+  /**
+   * Every mapped account must belong to the tenant, accept postings and
+   * have a type that suits the mapping
+   */
+  private async assertAccounts(
+    tenantId: string,
+    accounts: Array<{ key: AccountMappingKey; accountId: string }>,
+  ) {
+    if (accounts.length === 0) return;
+
+    const supabase = this.supabaseService.getClient();
+    const { data, error } = await supabase
+      .from('chart_of_accounts')
+      .select('id, code, type, is_active, is_posting_allowed')
+      .eq('tenant_id', tenantId)
+      .in(
+        'id',
+        accounts.map((a) => a.accountId),
+      );
+
+    if (error) throw error;
+
+    const accountMap = new Map((data || []).map((a) => [a.id, a]));
+
+    for (const { key, accountId } of accounts) {
+      const { label, types } = ACCOUNT_MAPPINGS[key];
+      const account = accountMap.get(accountId);
+
+      if (!account) {
+        throw new BadRequestException(`${label} account not found`);
+      }
+
+      if (!account.is_active || !account.is_posting_allowed) {
+        throw new BadRequestException(
+          `${label} account ${account.code} must be active and allow posting`,
+        );
+      }
+
+      if (!types.includes(account.type)) {
+        throw new BadRequestException(
+          `${label} account ${account.code} must be a ${types.join(' or ')} account`,
+        );
+      }
+    }
+  }
+
+  private async findRow(tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('account_mappings')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .limit(1);
+
+    if (error) throw error;
+
+    return data?.[0] || null;
+  }
+
+  private column(key: AccountMappingKey): AccountMappingColumn {
+    return `${key}_account_id`;
+  }
+}
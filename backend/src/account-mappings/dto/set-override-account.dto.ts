@@ -0,0 +1,8 @@
+import { IsOptional, IsUUID } from 'class-validator';
+
+export class SetOverrideAccountDto {
+  // null removes the override so the tenant mapping applies again
+  @IsUUID()
+  @IsOptional()
+  accountId?: string | null;
+}
@@ -0,0 +1,79 @@
+import { IsNumber, IsOptional, IsUUID, Min } from 'class-validator';
+
+// null clears a mapping, an omitted field leaves it unchanged
+export class UpdateAccountMappingsDto {
+  @IsUUID()
+  @IsOptional()
+  receivableAccountId?: string | null;
+
+  @IsUUID()
+  @IsOptional()
+  payableAccountId?: string | null;
+
+  @IsUUID()
+  @IsOptional()
+  outputVatAccountId?: string | null;
+
+  @IsUUID()
+  @IsOptional()
+  inputVatAccountId?: string | null;
+
+  @IsUUID()
+  @IsOptional()
+  salesAccountId?: string | null;
+
+  @IsUUID()
+  @IsOptional()
+  purchasesAccountId?: string | null;
+
+  @IsUUID()
+  @IsOptional()
+  salesReturnsAccountId?: string | null;
+
+  @IsUUID()
+  @IsOptional()
+  purchaseReturnsAccountId?: string | null;
+
+  @IsUUID()
+  @IsOptional()
+  salesDiscountAccountId?: string | null;
+
+  @IsUUID()
+  @IsOptional()
+  purchaseDiscountAccountId?: string | null;
+
+  @IsUUID()
+  @IsOptional()
+  customerAdvancesAccountId?: string | null;
+
+  @IsUUID()
+  @IsOptional()
+  employeePayableAccountId?: string | null;
+
+  @IsUUID()
+  @IsOptional()
+  badDebtsAccountId?: string | null;
+
+  @IsUUID()
+  @IsOptional()
+  roundingAccountId?: string | null;
+
+  @IsUUID()
+  @IsOptional()
+  fxGainAccountId?: string | null;
+
+  @IsUUID()
+  @IsOptional()
+  fxLossAccountId?: string | null;
+
+  @IsUUID()
+  @IsOptional()
+  retainedEarningsAccountId?: string | null;
+
+  // Differences up to this amount left by a payment allocation are written
+  // off automatically; 0 turns it off
+  @IsNumber()
+  @IsOptional()
+  @Min(0)
+  writeOffTolerance?: number;
+}
@@ -6,10 +6,21 @@ import { UsersModule } from './users/users.module';
 import { RolesModule } from './roles/roles.module';
 import { CoaModule } from './coa/coa.module';
 import { JournalsModule } from './journals/journals.module';
+import { RecurringJournalsModule } from './recurring-journals/recurring-journals.module';
+import { OpeningBalancesModule } from './opening-balances/opening-balances.module';
+import { FiscalYearsModule } from './fiscal-years/fiscal-years.module';
+import { AccountMappingsModule } from './account-mappings/account-mappings.module';
+import { CurrenciesModule } from './currencies/currencies.module';
 import { FiscalPeriodsModule } from './fiscal-periods/fiscal-periods.module';
 import { CustomersModule } from './customers/customers.module';
 import { VendorsModule } from './vendors/vendors.module';
 import { InvoicesModule } from './invoices/invoices.module';
+import { QuotationsModule } from './quotations/quotations.module';
+import { PurchaseOrdersModule } from './purchase-orders/purchase-orders.module';
+import { GoodsReceiptsModule } from './goods-receipts/goods-receipts.module';
+import { RecurringInvoicesModule } from './recurring-invoices/recurring-invoices.module';
+import { DunningModule } from './dunning/dunning.module';
+import { PaymentTermsModule } from './payment-terms/payment-terms.module';
 import { PaymentsModule } from './payments/payments.module';
 import { BankingModule } from './banking/banking.module';
 import { ExpensesModule } from './expenses/expenses.module';
@@ -38,10 +49,21 @@ import { SecurityMiddleware, RequestLoggingMiddleware } from './common/middlewar
     RolesModule,
     CoaModule,
     JournalsModule,
+    RecurringJournalsModule,
+    OpeningBalancesModule,
+    FiscalYearsModule,
+    AccountMappingsModule,
+    CurrenciesModule,
     FiscalPeriodsModule,
     CustomersModule,
     VendorsModule,
+    PaymentTermsModule,
     InvoicesModule,
+    QuotationsModule,
+    PurchaseOrdersModule,
+    GoodsReceiptsModule,
+    RecurringInvoicesModule,
+    DunningModule,
     PaymentsModule,
     BankingModule,
     ExpensesModule,
@@ -4,9 +4,11 @@ import { AssetsController } from './assets.controller';
 import { DepreciationService } from './depreciation.service';
 import { DepreciationController } from './depreciation.controller';
 import { SupabaseModule } from '../supabase/supabase.module';
+import { PeriodGuardModule } from '../fiscal-periods/period-guard.module';
+import { JournalsModule } from '../journals/journals.module';
 
 @Module({
-  imports: [SupabaseModule],
+  imports: [SupabaseModule, PeriodGuardModule, JournalsModule],
   controllers: [AssetsController, DepreciationController],
   providers: [AssetsService, DepreciationService],
   exports: [AssetsService, DepreciationService],
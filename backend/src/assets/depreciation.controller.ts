@@ -16,6 +16,7 @@ import { DepreciationService } from './depreciation.service';
 import { TenantContextGuard } from '../common/guards/tenant-context.guard';
 import { TenantContext } from '../common/decorators/tenant-context.decorator';
 import { CalculateDepreciationDto } from './dto/calculate-depreciation.dto';
+import { PostDepreciationDto } from './dto/post-depreciation.dto';
 import type { Response } from 'express';
 
 @ApiTags('assets/depreciation')
@@ -52,15 +53,21 @@ export class DepreciationController {
   calculate(
     @Body() calculateDepreciationDto: CalculateDepreciationDto,
     @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
   ) {
-    return this.depreciationService.calculate(tenantId, calculateDepreciationDto);
+    return this.depreciationService.calculate(tenantId, calculateDepreciationDto, userId);
   }
 
   @Post(':id/post')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Post depreciation to journal' })
-  postToJournal(@Param('id') id: string, @TenantContext('tenantId') tenantId: string) {
-    return this.depreciationService.postToJournal(id, tenantId);
+  postToJournal(
+    @Param('id') id: string,
+    @Body() postDto: PostDepreciationDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
+  ) {
+    return this.depreciationService.postToJournal(id, tenantId, userId, postDto.override_code);
   }
 
   @Delete(':id')
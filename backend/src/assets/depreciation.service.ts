@@ -1,5 +1,7 @@
 import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
 import { SupabaseService } from '../supabase/supabase.service';
+import { PeriodGuardService } from '../fiscal-periods/period-guard.service';
+import { JournalsService, PreparedJournal } from '../journals/journals.service';
 import { CalculateDepreciationDto } from './dto/calculate-depreciation.dto';
 
 interface DepreciationFilters {
@@ -9,9 +11,24 @@ interface DepreciationFilters {
   end_date?: string;
 }
 
+// A run line with the accounts of its asset; the asset is a many-to-one
+// embed, so it comes back as one row rather than an array
+interface DepreciationRunLine {
+  depreciation_amount: number;
+  assets: {
+    asset_code: string;
+    depreciation_account_id: string | null;
+    accumulated_depreciation_account_id: string | null;
+  } | null;
+}
+
 @Injectable()
 export class DepreciationService {
-  constructor(private supabaseService: SupabaseService) {}
+  constructor(
+    private supabaseService: SupabaseService,
+    private periodGuard: PeriodGuardService,
+    private journalsService: JournalsService,
+  ) {}
 
   async findAll(tenantId: string, filters?: DepreciationFilters) {
     const supabase = this.supabaseService.getClient();
@@ -57,9 +74,16 @@ export class DepreciationService {
     return this.transformRunToFrontend(data);
   }
 
-  async calculate(tenantId: string, calculateDepreciationDto: CalculateDepreciationDto) {
+  async calculate(tenantId: string, calculateDepreciationDto: CalculateDepreciationDto, userId?: string) {
     const supabase = this.supabaseService.getClient();
 
+    await this.periodGuard.assertOpen(tenantId, calculateDepreciationDto.calculation_date, {
+      documentType: 'depreciation',
+      action: 'create',
+      userId,
+      overrideCode: calculateDepreciationDto.override_code,
+    });
+
     // Get active assets
     let assetsQuery = supabase
       .from('assets')
@@ -199,7 +223,7 @@ export class DepreciationService {
     }
   }
 
-  async postToJournal(id: string, tenantId: string) {
+  async postToJournal(id: string, tenantId: string, userId: string, overrideCode?: string) {
     const supabase = this.supabaseService.getClient();
 
     const run = await this.findOne(id, tenantId);
@@ -208,46 +232,128 @@ export class DepreciationService {
       throw new BadRequestException('Depreciation has already been posted');
     }
 
-    // Get accounts
-    const { data: accounts } = await supabase
-      .from('chart_of_accounts')
-      .select('*')
-      .eq('tenant_id', tenantId)
-      .limit(10);
+    if (run.status !== 'calculated') {
+      throw new BadRequestException('Can only post completed depreciation runs');
+    }
 
-    if (!accounts || accounts.length === 0) {
-      throw new BadRequestException('No accounts found');
+    await this.periodGuard.assertOpen(tenantId, run.calculation_date, {
+      documentType: 'depreciation',
+      action: 'post',
+      documentId: id,
+      userId,
+      overrideCode,
+    });
+
+    const journal = await this.prepareDepreciationJournal(run, tenantId, userId);
+
+    // The journal and the run status are written in one transaction
+    const { error } = await supabase.rpc('post_depreciation_run_with_journal', {
+      p_run_id: id,
+      p_tenant_id: tenantId,
+      p_user_id: userId,
+      p_journal: journal.journal,
+      p_lines: journal.lines,
+    });
+
+    if (error) {
+      throw new BadRequestException(`Failed to create journal entry: ${error.message}`);
     }
 
-    const expenseAccount = accounts[0];
-    const contraAccount = accounts[1] || accounts[0];
+    return this.findOne(id, tenantId);
+  }
 
-    // Create journal entry
-    const { data: journal } = await supabase
-      .from('journals')
-      .insert({
-        tenant_id: tenantId,
-        journal_date: run.calculation_date,
-        journal_number: run.depreciation_number,
-        description: `Depreciation Run ${run.depreciation_number}`,
-        status: 'posted',
-      })
-      .select()
-      .single();
+  /**
+   * Build the depreciation journal of a run
+   *
+   * - Debit: each asset's depreciation expense account
+   * - Credit: each asset's accumulated depreciation account
+   *
+   * Amounts are grouped by account, so a run over many assets gives one line
+   * per account.
+   */
+  private async prepareDepreciationJournal(
+    run: any,
+    tenantId: string,
+    userId: string,
+  ): Promise<PreparedJournal> {
+    const supabase = this.supabaseService.getClient();
 
-    // Update run
-    const { data: updatedRun } = await supabase
-      .from('asset_depreciation_runs')
-      .update({
-        status: 'posted',
-        journal_id: journal.id,
-        completed_at: new Date().toISOString(),
-      })
-      .eq('id', id)
-      .select()
-      .single();
+    const { data: runLines, error } = await supabase
+      .from('asset_depreciation_lines')
+      .select(
+        'depreciation_amount, assets(asset_code, depreciation_account_id, accumulated_depreciation_account_id)',
+      )
+      .eq('depreciation_run_id', run.id)
+      .eq('tenant_id', tenantId)
+      .overrideTypes<DepreciationRunLine[], { merge: false }>();
 
-    return this.transformRunToFrontend(updatedRun);
+    if (error) throw error;
+
+    const debits = new Map<string, number>();
+    const credits = new Map<string, number>();
+
+    for (const line of runLines || []) {
+      const amount = Number(line.depreciation_amount) || 0;
+      if (amount <= 0) continue;
+
+      const asset = line.assets;
+      if (!asset?.depreciation_account_id || !asset?.accumulated_depreciation_account_id) {
+        throw new BadRequestException(
+          `Asset ${asset?.asset_code} has no depreciation or accumulated depreciation account`,
+        );
+      }
+
+      debits.set(
+        asset.depreciation_account_id,
+        (debits.get(asset.depreciation_account_id) || 0) + amount,
+      );
+      credits.set(
+        asset.accumulated_depreciation_account_id,
+        (credits.get(asset.accumulated_depreciation_account_id) || 0) + amount,
+      );
+    }
+
+    if (debits.size === 0) {
+      throw new BadRequestException('Depreciation run has no amounts to post');
+    }
+
+    let lineNumber = 1;
+    const lines = [
+      ...[...debits].map(([accountId, amount]) => ({
+        lineNumber: lineNumber++,
+        accountId,
+        descriptionAr: 'مصروف الإهلاك',
+        descriptionEn: 'Depreciation expense',
+        debit: Math.round(amount * 100) / 100,
+        credit: 0,
+      })),
+      ...[...credits].map(([accountId, amount]) => ({
+        lineNumber: lineNumber++,
+        accountId,
+        descriptionAr: 'مجمع الإهلاك',
+        descriptionEn: 'Accumulated depreciation',
+        debit: 0,
+        credit: Math.round(amount * 100) / 100,
+      })),
+    ];
+
+    return this.journalsService.prepare(
+      {
+        journalType: 'depreciation',
+        referenceNumber: run.depreciation_number,
+        descriptionAr: `قيد إهلاك ${run.depreciation_number}`,
+        descriptionEn: `Depreciation Run ${run.depreciation_number}`,
+        transactionDate: new Date(run.calculation_date),
+        sourceModule: 'depreciation',
+        sourceId: run.id,
+        lines,
+      },
+      tenantId,
+      userId,
+      undefined,
+      // The run's own period check already ran in postToJournal()
+      { allowLockedPeriod: true },
+    );
   }
 
   async delete(id: string, tenantId: string) {
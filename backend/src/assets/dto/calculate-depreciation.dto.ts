@@ -1,4 +1,4 @@
-import { IsDateString, IsArray, IsOptional, IsString } from 'class-validator';
+import { IsDateString, IsArray, IsOptional, IsString, MaxLength } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class CalculateDepreciationDto {
@@ -18,4 +18,13 @@ export class CalculateDepreciationDto {
   @IsString({ each: true })
   @IsOptional()
   asset_ids?: string[];
+
+  @ApiProperty({
+    description: 'Override code of a locked fiscal period (requires settings:override:period)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  override_code?: string;
 }
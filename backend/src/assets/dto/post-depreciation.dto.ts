@@ -0,0 +1,14 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class PostDepreciationDto {
+  @ApiProperty({
+    description:
+      'Override code of a locked fiscal period (requires settings:override:period)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  override_code?: string;
+}
@@ -283,7 +283,7 @@ export class CoaService {
         .from('journals')
         .select('id')
         .eq('tenant_id', tenantId)
-        .eq('status', 'posted')
+        .in('status', ['posted', 'reversed'])
         .lte('transaction_date', asOfDate.toISOString());
 
       journalIds = journals?.map((j: any) => j.id);
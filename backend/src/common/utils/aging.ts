@@ -0,0 +1,77 @@
+export type AgingBasis = 'due_date' | 'invoice_date';
+
+export interface AgingBucket {
+  key: string;
+  label: string;
+  from_days: number | null;
+  to_days: number | null;
+}
+
+export const DEFAULT_AGING_BOUNDARIES = [30, 60, 90];
+
+/**
+ * Buckets for ascending day boundaries, e.g. [30, 60, 90] gives 1-30, 31-60,
+ * 61-90 and over 90. Aged by due date, amounts not yet due fall in 'current';
+ * aged by invoice date, the first bucket starts at day 0.
+ */
+export function buildAgingBuckets(
+  boundaries: number[],
+  basis: AgingBasis,
+): AgingBucket[] {
+  const buckets: AgingBucket[] = [];
+  let from = 1;
+
+  if (basis === 'due_date') {
+    buckets.push({
+      key: 'current',
+      label: 'Current',
+      from_days: null,
+      to_days: 0,
+    });
+  } else {
+    from = 0;
+  }
+
+  for (const to of boundaries) {
+    buckets.push({
+      key: `${from}_${to}`,
+      label: `${from}-${to} days`,
+      from_days: from,
+      to_days: to,
+    });
+    from = to + 1;
+  }
+
+  const last = boundaries[boundaries.length - 1];
+  buckets.push({
+    key: `over_${last}`,
+    label: `Over ${last} days`,
+    from_days: last + 1,
+    to_days: null,
+  });
+
+  return buckets;
+}
+
+export function findAgingBucket(
+  buckets: AgingBucket[],
+  days: number,
+): AgingBucket {
+  return (
+    buckets.find(
+      (bucket) =>
+        (bucket.from_days === null || days >= bucket.from_days) &&
+        (bucket.to_days === null || days <= bucket.to_days),
+    ) || buckets[0]
+  );
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) /
+      (24 * 60 * 60 * 1000),
+  );
+}
@@ -0,0 +1,43 @@
+import { addDays } from './recurrence';
+
+export type PaymentTermType = 'net' | 'end_of_month';
+
+export interface PaymentTermsRule {
+  term_type: PaymentTermType;
+  days: number;
+  discount_percentage?: number | null;
+  discount_days?: number | null;
+}
+
+export interface PaymentTermsDates {
+  dueDate: string;
+  discountDate: string | null;
+  discountPercentage: number | null;
+}
+
+/**
+ * Due date, and early-payment discount date, of an invoice dated `invoiceDate`
+ */
+export function calculatePaymentTermsDates(
+  terms: PaymentTermsRule,
+  invoiceDate: string,
+): PaymentTermsDates {
+  const baseDate =
+    terms.term_type === 'end_of_month' ? endOfMonth(invoiceDate) : invoiceDate;
+  const hasDiscount =
+    terms.discount_percentage != null && terms.discount_days != null;
+
+  return {
+    dueDate: addDays(baseDate, terms.days),
+    discountDate: hasDiscount
+      ? addDays(invoiceDate, terms.discount_days)
+      : null,
+    discountPercentage: hasDiscount ? Number(terms.discount_percentage) : null,
+  };
+}
+
+function endOfMonth(date: string): string {
+  const [year, month] = date.split('-').map(Number);
+  // Day 0 of the next month is the last day of this one
+  return new Date(Date.UTC(year, month, 0)).toISOString().split('T')[0];
+}
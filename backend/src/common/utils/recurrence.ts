@@ -0,0 +1,64 @@
+export type RecurrenceFrequency = 'monthly' | 'quarterly' | 'yearly';
+
+const FREQUENCY_MONTHS: Record<RecurrenceFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+/**
+ * First date on or after `fromDate` that falls on the day of month.
+ * Days past the end of a short month fall on its last day.
+ */
+export function getFirstOccurrence(
+  dayOfMonth: number,
+  fromDate: string,
+): string {
+  const [year, month] = fromDate.split('-').map(Number);
+  const candidate = occurrenceIn(year, month - 1, dayOfMonth);
+
+  if (candidate >= fromDate) {
+    return candidate;
+  }
+
+  return occurrenceIn(year, month, dayOfMonth);
+}
+
+/**
+ * Next scheduled date after an occurrence
+ */
+export function getNextOccurrence(
+  frequency: RecurrenceFrequency,
+  dayOfMonth: number,
+  fromDate: string,
+): string {
+  const [year, month] = fromDate.split('-').map(Number);
+  return occurrenceIn(
+    year,
+    month - 1 + FREQUENCY_MONTHS[frequency],
+    dayOfMonth,
+  );
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return toDateString(d);
+}
+
+export function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function occurrenceIn(
+  year: number,
+  monthIndex: number,
+  dayOfMonth: number,
+): string {
+  // Date.UTC normalises month overflow (e.g. month 13 -> January next year)
+  const daysInMonth = new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+  const date = new Date(
+    Date.UTC(year, monthIndex, Math.min(dayOfMonth, daysInMonth)),
+  );
+  return toDateString(date);
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { ExchangeRatesController } from './exchange-rates.controller';
+import { FxRevaluationService } from './fx-revaluation.service';
+import { FxRevaluationController } from './fx-revaluation.controller';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { JournalsModule } from '../journals/journals.module';
+import { PeriodGuardModule } from '../fiscal-periods/period-guard.module';
+import { AccountMappingsModule } from '../account-mappings/account-mappings.module';
+
+@Module({
+  imports: [
+    SupabaseModule,
+    JournalsModule,
+    PeriodGuardModule,
+    AccountMappingsModule,
+  ],
+  controllers: [ExchangeRatesController, FxRevaluationController],
+  providers: [ExchangeRatesService, FxRevaluationService],
+  exports: [ExchangeRatesService, FxRevaluationService],
+})
+export class CurrenciesModule {}
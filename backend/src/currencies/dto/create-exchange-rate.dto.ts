@@ -0,0 +1,27 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsNumber,
+  IsPositive,
+  IsDate,
+  Length,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class CreateExchangeRateDto {
+  // ISO 4217 code, e.g. USD
+  @IsString()
+  @IsNotEmpty()
+  @Length(3, 3)
+  currency: string;
+
+  @IsDate()
+  @IsNotEmpty()
+  @Type(() => Date)
+  rateDate: Date;
+
+  // Value of one unit of the currency in the base currency
+  @IsNumber({ maxDecimalPlaces: 6 })
+  @IsPositive()
+  rate: number;
+}
@@ -0,0 +1,21 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateFxRevaluationDto {
+  // Period revalued at its end date; the reversal is dated the next day
+  @IsUUID()
+  @IsNotEmpty()
+  fiscalPeriodId: string;
+
+  // Override code of a locked fiscal period; requires the
+  // settings:override:period permission
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  overrideCode?: string;
+}
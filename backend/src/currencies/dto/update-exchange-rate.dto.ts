@@ -0,0 +1,7 @@
+import { IsNumber, IsPositive } from 'class-validator';
+
+export class UpdateExchangeRateDto {
+  @IsNumber({ maxDecimalPlaces: 6 })
+  @IsPositive()
+  rate: number;
+}
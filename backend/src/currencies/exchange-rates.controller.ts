@@ -0,0 +1,167 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  ParseFilePipe,
+  MaxFileSizeValidator,
+  applyDecorators,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+  ApiConsumes,
+} from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { TenantContextGuard } from '../common/guards/tenant-context.guard';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import { TenantContext } from '../common/decorators/tenant-context.decorator';
+import { CreateExchangeRateDto } from './dto/create-exchange-rate.dto';
+import { UpdateExchangeRateDto } from './dto/update-exchange-rate.dto';
+
+// Custom decorator to apply guards to specific routes (not controller-level)
+function Protected() {
+  return applyDecorators(
+    ApiBearerAuth(),
+    UseGuards(TenantContextGuard, PermissionsGuard),
+  );
+}
+
+@ApiTags('exchange-rates')
+@Controller('settings/exchange-rates')
+export class ExchangeRatesController {
+  constructor(private readonly exchangeRatesService: ExchangeRatesService) {}
+
+  @Get()
+  @Protected()
+  @ApiOperation({ summary: 'Get exchange rates' })
+  @ApiQuery({ name: 'currency', required: false, type: String })
+  @ApiQuery({ name: 'startDate', required: false, type: String })
+  @ApiQuery({ name: 'endDate', required: false, type: String })
+  @ApiResponse({ status: 200, description: 'List of exchange rates' })
+  @RequirePermissions({ module: 'settings', action: 'view' })
+  findAll(
+    @TenantContext('tenantId') tenantId: string,
+    @Query('currency') currency?: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+  ) {
+    return this.exchangeRatesService.findAll(tenantId, {
+      currency,
+      startDate,
+      endDate,
+    });
+  }
+
+  @Get('rate')
+  @Protected()
+  @ApiOperation({
+    summary: 'Get the rate of a currency on a date (latest on or before it)',
+  })
+  @ApiQuery({ name: 'currency', required: true, type: String })
+  @ApiQuery({ name: 'date', required: false, type: String })
+  @ApiResponse({ status: 200, description: 'Exchange rate' })
+  @ApiResponse({ status: 400, description: 'No rate on or before the date' })
+  @RequirePermissions({ module: 'settings', action: 'view' })
+  getRate(
+    @TenantContext('tenantId') tenantId: string,
+    @Query('currency') currency: string,
+    @Query('date') date?: string,
+  ) {
+    return this.exchangeRatesService.getRate(
+      tenantId,
+      currency,
+      date || new Date(),
+    );
+  }
+
+  @Post()
+  @Protected()
+  @ApiOperation({ summary: 'Enter the rate of a currency for a date' })
+  @ApiResponse({ status: 201, description: 'Exchange rate saved' })
+  @RequirePermissions({
+    module: 'settings',
+    action: 'edit',
+    resource: 'currencies',
+  })
+  create(
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
+    @Body() createDto: CreateExchangeRateDto,
+  ) {
+    return this.exchangeRatesService.create(tenantId, createDto, userId);
+  }
+
+  @Post('import')
+  @Protected()
+  @ApiOperation({
+    summary: 'Import exchange rates from a CSV file (currency,rate_date,rate)',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiResponse({ status: 201, description: 'Exchange rates imported' })
+  @ApiResponse({ status: 400, description: 'Invalid rows; nothing imported' })
+  @RequirePermissions({
+    module: 'settings',
+    action: 'edit',
+    resource: 'currencies',
+  })
+  @UseInterceptors(FileInterceptor('file'))
+  importCsv(
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [new MaxFileSizeValidator({ maxSize: 1024 * 1024 })], // 1MB
+      }),
+    )
+    file: any,
+  ) {
+    return this.exchangeRatesService.importCsv(
+      tenantId,
+      file.buffer.toString('utf8'),
+      userId,
+    );
+  }
+
+  @Patch(':id')
+  @Protected()
+  @ApiOperation({ summary: 'Change an exchange rate' })
+  @ApiResponse({ status: 200, description: 'Exchange rate updated' })
+  @RequirePermissions({
+    module: 'settings',
+    action: 'edit',
+    resource: 'currencies',
+  })
+  update(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+    @Body() updateDto: UpdateExchangeRateDto,
+  ) {
+    return this.exchangeRatesService.update(id, tenantId, updateDto);
+  }
+
+  @Delete(':id')
+  @Protected()
+  @ApiOperation({ summary: 'Delete an exchange rate' })
+  @ApiResponse({ status: 200, description: 'Exchange rate deleted' })
+  @RequirePermissions({
+    module: 'settings',
+    action: 'edit',
+    resource: 'currencies',
+  })
+  remove(@Param('id') id: string, @TenantContext('tenantId') tenantId: string) {
+    return this.exchangeRatesService.remove(id, tenantId);
+  }
+}
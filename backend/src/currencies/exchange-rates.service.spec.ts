@@ -0,0 +1,93 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { queryResult } from '../../test/utils/query-result';
+
+describe('ExchangeRatesService', () => {
+  let service: ExchangeRatesService;
+  let tables: Record<string, any[]>;
+
+  const mockTenantId = 'test-tenant-id';
+  const mockUserId = 'test-user-id';
+
+  beforeEach(async () => {
+    tables = {
+      tenants: [queryResult({ data: { base_currency: 'QAR' }, error: null })],
+    };
+    const mockSupabaseClient = {
+      from: jest.fn((table: string) => tables[table].shift()),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExchangeRatesService,
+        {
+          provide: SupabaseService,
+          useValue: {
+            getClient: jest.fn().mockReturnValue(mockSupabaseClient),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ExchangeRatesService>(ExchangeRatesService);
+  });
+
+  describe('importCsv', () => {
+    it('should upsert every row of a file with a header', async () => {
+      const upsert = queryResult({ data: null, error: null });
+      tables.exchange_rates = [upsert];
+
+      const result = await service.importCsv(
+        mockTenantId,
+        'rate_date,currency,rate\n2026-09-30,usd,3.64\n2026-09-30,EUR,3.95\n',
+        mockUserId,
+      );
+
+      expect(result).toEqual({ imported: 2 });
+      expect(upsert.upsert).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            currency: 'USD',
+            rate_date: '2026-09-30',
+            rate: 3.64,
+            source: 'import',
+          }),
+          expect.objectContaining({ currency: 'EUR', rate: 3.95 }),
+        ],
+        { onConflict: 'tenant_id,currency,rate_date' },
+      );
+    });
+
+    it('should import nothing when a row is invalid', async () => {
+      tables.exchange_rates = [];
+
+      await expect(
+        service.importCsv(
+          mockTenantId,
+          'USD,2026-09-30,3.64\nEUR,2026-02-30,3.95\nQAR,2026-09-30,1\n',
+          mockUserId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(tables.exchange_rates).toHaveLength(0);
+    });
+  });
+
+  describe('getRate', () => {
+    it('should return 1 for the base currency', async () => {
+      const result = await service.getRate(mockTenantId, 'qar', '2026-09-30');
+
+      expect(result.rate).toBe(1);
+    });
+
+    it('should fail when no rate exists on or before the date', async () => {
+      tables.exchange_rates = [queryResult({ data: [], error: null })];
+
+      await expect(
+        service.getRate(mockTenantId, 'USD', '2026-09-30'),
+      ).rejects.toThrow('No USD exchange rate on or before 2026-09-30');
+    });
+  });
+});
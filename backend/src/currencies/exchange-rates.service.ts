@@ -0,0 +1,294 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { CreateExchangeRateDto } from './dto/create-exchange-rate.dto';
+import { UpdateExchangeRateDto } from './dto/update-exchange-rate.dto';
+
+interface ExchangeRateFilters {
+  currency?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+// Largest CSV accepted in one import
+const MAX_IMPORT_ROWS = 5000;
+
+const CSV_COLUMNS = ['currency', 'rate_date', 'rate'] as const;
+
+/**
+ * Dated exchange rates of a tenant
+ *
+ * A rate is the value of one unit of a foreign currency in the tenant's base
+ * currency. The rate used for a date is the latest one on or before it.
+ */
+@Injectable()
+export class ExchangeRatesService {
+  constructor(private supabaseService: SupabaseService) {}
+
+  async findAll(tenantId: string, filters: ExchangeRateFilters = {}) {
+    const supabase = this.supabaseService.getClient();
+
+    let query = supabase
+      .from('exchange_rates')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .order('rate_date', { ascending: false })
+      .order('currency');
+
+    if (filters.currency) {
+      query = query.eq('currency', filters.currency.toUpperCase());
+    }
+
+    if (filters.startDate) {
+      query = query.gte('rate_date', filters.startDate);
+    }
+
+    if (filters.endDate) {
+      query = query.lte('rate_date', filters.endDate);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    return data || [];
+  }
+
+  /**
+   * Save the rate of a currency for a date, replacing an existing rate of
+   * the same date
+   */
+  async create(
+    tenantId: string,
+    createDto: CreateExchangeRateDto,
+    userId: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+    const baseCurrency = await this.getBaseCurrency(tenantId);
+    const currency = createDto.currency.toUpperCase();
+
+    if (currency === baseCurrency) {
+      throw new BadRequestException(
+        `${currency} is the base currency and has no exchange rate`,
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .upsert(
+        {
+          tenant_id: tenantId,
+          currency,
+          rate_date: this.toDateString(createDto.rateDate),
+          rate: createDto.rate,
+          source: 'manual',
+          created_by: userId,
+        },
+        { onConflict: 'tenant_id,currency,rate_date' },
+      )
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return data;
+  }
+
+  async update(id: string, tenantId: string, updateDto: UpdateExchangeRateDto) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .update({ rate: updateDto.rate, source: 'manual' })
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new NotFoundException('Exchange rate not found');
+    }
+
+    return data;
+  }
+
+  async remove(id: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .delete()
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .select('id');
+
+    if (error) throw error;
+
+    if (!data || data.length === 0) {
+      throw new NotFoundException('Exchange rate not found');
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Import rates from CSV text with the columns currency, rate_date
+   * (YYYY-MM-DD) and rate. The header row is optional. Nothing is saved when
+   * any row is invalid.
+   */
+  async importCsv(tenantId: string, csv: string, userId: string) {
+    const supabase = this.supabaseService.getClient();
+    const baseCurrency = await this.getBaseCurrency(tenantId);
+
+    const rows = csv
+      .replace(/^\uFEFF/, '')
+      .split(/\r?\n/)
+      .map((line, index) => ({ line: index + 1, text: line.trim() }))
+      .filter((row) => row.text.length > 0);
+
+    let columns: readonly string[] = CSV_COLUMNS;
+    const header = rows[0]?.text
+      .toLowerCase()
+      .split(',')
+      .map((c) => c.trim());
+    if (header && CSV_COLUMNS.every((column) => header.includes(column))) {
+      columns = header;
+      rows.shift();
+    }
+
+    if (rows.length === 0) {
+      throw new BadRequestException('The file has no exchange rates');
+    }
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestException(
+        `A file can hold at most ${MAX_IMPORT_ROWS} exchange rates`,
+      );
+    }
+
+    const rates = new Map<string, any>();
+    const errors: string[] = [];
+
+    for (const row of rows) {
+      const values = row.text.split(',').map((v) => v.trim());
+      const value = (column: string) => values[columns.indexOf(column)] ?? '';
+
+      const currency = value('currency').toUpperCase();
+      const rateDate = value('rate_date');
+      const rate = Number(value('rate'));
+
+      if (!/^[A-Z]{3}$/.test(currency)) {
+        errors.push(
+          `Line ${row.line}: invalid currency "${value('currency')}"`,
+        );
+        continue;
+      }
+
+      if (currency === baseCurrency) {
+        errors.push(`Line ${row.line}: ${currency} is the base currency`);
+        continue;
+      }
+
+      if (!this.isValidDate(rateDate)) {
+        errors.push(`Line ${row.line}: invalid date "${rateDate}"`);
+        continue;
+      }
+
+      if (!Number.isFinite(rate) || rate <= 0) {
+        errors.push(`Line ${row.line}: invalid rate "${value('rate')}"`);
+        continue;
+      }
+
+      // A later line for the same currency and date wins
+      rates.set(`${currency}|${rateDate}`, {
+        tenant_id: tenantId,
+        currency,
+        rate_date: rateDate,
+        rate,
+        source: 'import',
+        created_by: userId,
+      });
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        message: 'The file has invalid rows; no rates were imported',
+        errors,
+      });
+    }
+
+    const { error } = await supabase
+      .from('exchange_rates')
+      .upsert([...rates.values()], {
+        onConflict: 'tenant_id,currency,rate_date',
+      });
+
+    if (error) throw error;
+
+    return { imported: rates.size };
+  }
+
+  /**
+   * The rate of a currency on a date: the latest rate on or before it. The
+   * base currency always has rate 1.
+   */
+  async getRate(tenantId: string, currency: string, date: Date | string) {
+    const baseCurrency = await this.getBaseCurrency(tenantId);
+    const code = currency.toUpperCase();
+    const rateDate = this.toDateString(date);
+
+    if (code === baseCurrency) {
+      return { currency: code, rate_date: rateDate, rate: 1 };
+    }
+
+    const supabase = this.supabaseService.getClient();
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .select('currency, rate_date, rate')
+      .eq('tenant_id', tenantId)
+      .eq('currency', code)
+      .lte('rate_date', rateDate)
+      .order('rate_date', { ascending: false })
+      .limit(1);
+
+    if (error) throw error;
+
+    if (!data || data.length === 0) {
+      throw new BadRequestException(
+        `No ${code} exchange rate on or before ${rateDate}`,
+      );
+    }
+
+    return { ...data[0], rate: Number(data[0].rate) };
+  }
+
+  async getBaseCurrency(tenantId: string): Promise<string> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('tenants')
+      .select('base_currency')
+      .eq('id', tenantId)
+      .single();
+
+    if (error) throw error;
+
+    return data?.base_currency || 'QAR';
+  }
+
+  private isValidDate(value: string): boolean {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+  }
+
+  private toDateString(date: Date | string): string {
+    return date instanceof Date
+      ? date.toISOString().split('T')[0]
+      : date.split('T')[0];
+  }
+}
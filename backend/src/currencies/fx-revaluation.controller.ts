@@ -0,0 +1,98 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  applyDecorators,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { FxRevaluationService } from './fx-revaluation.service';
+import { TenantContextGuard } from '../common/guards/tenant-context.guard';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import { TenantContext } from '../common/decorators/tenant-context.decorator';
+import { CreateFxRevaluationDto } from './dto/create-fx-revaluation.dto';
+
+// Custom decorator to apply guards to specific routes (not controller-level)
+function Protected() {
+  return applyDecorators(
+    ApiBearerAuth(),
+    UseGuards(TenantContextGuard, PermissionsGuard),
+  );
+}
+
+@ApiTags('fx-revaluations')
+@Controller('fx-revaluations')
+export class FxRevaluationController {
+  constructor(private readonly fxRevaluationService: FxRevaluationService) {}
+
+  @Get()
+  @Protected()
+  @ApiOperation({ summary: 'Get all FX revaluation runs' })
+  @ApiResponse({ status: 200, description: 'List of revaluation runs' })
+  @RequirePermissions({ module: 'journals', action: 'read' })
+  findAll(@TenantContext('tenantId') tenantId: string) {
+    return this.fxRevaluationService.findAll(tenantId);
+  }
+
+  @Get('preview')
+  @Protected()
+  @ApiOperation({
+    summary: 'Calculate the revaluation of a fiscal period without posting',
+  })
+  @ApiQuery({ name: 'fiscalPeriodId', required: true, type: String })
+  @ApiResponse({ status: 200, description: 'Revaluation preview' })
+  @ApiResponse({ status: 400, description: 'Missing exchange rate' })
+  @RequirePermissions({ module: 'journals', action: 'read' })
+  preview(
+    @TenantContext('tenantId') tenantId: string,
+    @Query('fiscalPeriodId') fiscalPeriodId: string,
+  ) {
+    return this.fxRevaluationService.preview(tenantId, fiscalPeriodId);
+  }
+
+  @Get(':id')
+  @Protected()
+  @ApiOperation({ summary: 'Get an FX revaluation run with its lines' })
+  @ApiResponse({ status: 200, description: 'Revaluation run details' })
+  @RequirePermissions({ module: 'journals', action: 'read' })
+  findOne(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.fxRevaluationService.findOne(id, tenantId);
+  }
+
+  @Post()
+  @Protected()
+  @ApiOperation({
+    summary:
+      'Revalue foreign currency balances at period end and post the auto-reversing journal',
+  })
+  @ApiResponse({ status: 201, description: 'Revaluation posted' })
+  @ApiResponse({
+    status: 400,
+    description: 'Already revalued, missing rate or account mapping',
+  })
+  @RequirePermissions({
+    module: 'journals',
+    action: 'revalue',
+    resource: 'currencies',
+  })
+  create(
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
+    @Body() createDto: CreateFxRevaluationDto,
+  ) {
+    return this.fxRevaluationService.create(tenantId, createDto, userId);
+  }
+}
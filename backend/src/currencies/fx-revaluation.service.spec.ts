@@ -0,0 +1,267 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { FxRevaluationService } from './fx-revaluation.service';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { AuditService } from '../audit/audit.service';
+import { JournalsService } from '../journals/journals.service';
+import { PeriodGuardService } from '../fiscal-periods/period-guard.service';
+import { AccountMappingsService } from '../account-mappings/account-mappings.service';
+import { queryResult } from '../../test/utils/query-result';
+
+describe('FxRevaluationService', () => {
+  let service: FxRevaluationService;
+  let tables: Record<string, any[]>;
+  let mockSupabaseClient: any;
+  let journalsService: { prepare: jest.Mock };
+
+  const mockTenantId = 'test-tenant-id';
+  const mockUserId = 'test-user-id';
+
+  const period = {
+    id: 'period-id',
+    name: 'September 2026',
+    start_date: '2026-09-01',
+    end_date: '2026-09-30',
+  };
+
+  beforeEach(async () => {
+    tables = {
+      fiscal_periods: [queryResult({ data: period, error: null })],
+      // USD 1,000 receivable booked at 3.60
+      invoices: [
+        queryResult({
+          data: [
+            {
+              id: 'invoice-id',
+              invoice_number: 'INV-001',
+              invoice_type: 'sales',
+              party_id: 'customer-id',
+              currency: 'USD',
+              exchange_rate: 3.6,
+              total_amount: 1000,
+            },
+          ],
+          error: null,
+        }),
+      ],
+      payment_allocations: [queryResult({ data: [], error: null })],
+      credit_note_allocations: [queryResult({ data: [], error: null })],
+      // USD 500 in the bank booked at 3.70
+      bank_accounts: [
+        queryResult({
+          data: [
+            {
+              id: 'bank-id',
+              code: 'USD-BANK',
+              currency: 'USD',
+              gl_account_id: 'bank-account',
+            },
+          ],
+          error: null,
+        }),
+      ],
+      journal_lines: [
+        queryResult({
+          data: [
+            { debit: 500, credit: 0, currency: 'USD', exchange_rate: 3.7 },
+          ],
+          error: null,
+        }),
+      ],
+    };
+
+    mockSupabaseClient = {
+      from: jest.fn((table: string) => tables[table].shift()),
+      rpc: jest.fn().mockResolvedValue({ data: 'run-id', error: null }),
+    };
+
+    journalsService = {
+      prepare: jest.fn((dto: any) =>
+        Promise.resolve({
+          journal: { journal_number: dto.journalNumber || 'AD000007' },
+          lines: dto.lines,
+        }),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FxRevaluationService,
+        {
+          provide: SupabaseService,
+          useValue: {
+            getClient: jest.fn().mockReturnValue(mockSupabaseClient),
+          },
+        },
+        { provide: AuditService, useValue: { logAction: jest.fn() } },
+        { provide: JournalsService, useValue: journalsService },
+        { provide: PeriodGuardService, useValue: { assertOpen: jest.fn() } },
+        {
+          provide: AccountMappingsService,
+          useValue: {
+            resolve: jest.fn().mockResolvedValue({
+              receivable: 'ar-account',
+              fx_gain: 'gain-account',
+              fx_loss: 'loss-account',
+            }),
+            requireAccount: jest.fn(
+              (mappings: any, key: string) => mappings[key],
+            ),
+          },
+        },
+        {
+          provide: ExchangeRatesService,
+          useValue: {
+            getBaseCurrency: jest.fn().mockResolvedValue('QAR'),
+            getRate: jest.fn().mockResolvedValue({ rate: 3.65 }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<FxRevaluationService>(FxRevaluationService);
+  });
+
+  describe('preview', () => {
+    it('should value receivables and bank balances at the period-end rate', async () => {
+      const result = await service.preview(mockTenantId, period.id);
+
+      expect(result.reversal_date).toBe('2026-10-01');
+      expect(result.total_gain).toBe(50);
+      expect(result.total_loss).toBe(25);
+      expect(result.lines).toEqual([
+        expect.objectContaining({
+          source_id: 'invoice-id',
+          booked_amount: 3600,
+          revalued_amount: 3650,
+          difference: 50,
+        }),
+        expect.objectContaining({
+          source_id: 'bank-id',
+          booked_amount: 1850,
+          revalued_amount: 1825,
+          difference: -25,
+        }),
+      ]);
+    });
+
+    it('should value an invoice at its balance on the revaluation date', async () => {
+      // USD 1,500 invoiced, USD 500 paid by the period end
+      tables.invoices = [
+        queryResult({
+          data: [
+            {
+              id: 'invoice-id',
+              invoice_number: 'INV-001',
+              invoice_type: 'sales',
+              party_id: 'customer-id',
+              currency: 'USD',
+              exchange_rate: 3.6,
+              total_amount: 1500,
+            },
+          ],
+          error: null,
+        }),
+      ];
+      const payments = queryResult({
+        data: [
+          {
+            invoice_id: 'invoice-id',
+            amount: 490,
+            discount_allowed: 10,
+            write_off: 0,
+          },
+        ],
+        error: null,
+      });
+      tables.payment_allocations = [payments];
+
+      const result = await service.preview(mockTenantId, period.id);
+
+      expect(payments.lte).toHaveBeenCalledWith(
+        'allocation_date',
+        '2026-09-30',
+      );
+      expect(result.lines[0]).toEqual(
+        expect.objectContaining({
+          source_id: 'invoice-id',
+          foreign_amount: 1000,
+          difference: 50,
+        }),
+      );
+    });
+  });
+
+  describe('create', () => {
+    it('should post the revaluation and its reversal on the next day', async () => {
+      tables.fx_revaluation_runs = [
+        queryResult({ data: [], error: null }),
+        queryResult({ data: { id: 'run-id' }, error: null }),
+      ];
+
+      await service.create(
+        mockTenantId,
+        { fiscalPeriodId: period.id },
+        mockUserId,
+      );
+
+      const [journalDto] = journalsService.prepare.mock.calls[0];
+      const [reversalDto] = journalsService.prepare.mock.calls[1];
+
+      expect(journalDto.lines).toEqual([
+        expect.objectContaining({
+          accountId: 'ar-account',
+          debit: 50,
+          credit: 0,
+        }),
+        expect.objectContaining({
+          accountId: 'bank-account',
+          debit: 0,
+          credit: 25,
+        }),
+        expect.objectContaining({
+          accountId: 'gain-account',
+          debit: 0,
+          credit: 50,
+        }),
+        expect.objectContaining({
+          accountId: 'loss-account',
+          debit: 25,
+          credit: 0,
+        }),
+      ]);
+      expect(reversalDto.journalNumber).toBe('AD000008');
+      expect(reversalDto.transactionDate).toEqual(new Date('2026-10-01'));
+      expect(reversalDto.lines[0]).toEqual(
+        expect.objectContaining({
+          accountId: 'ar-account',
+          debit: 0,
+          credit: 50,
+        }),
+      );
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        'post_fx_revaluation',
+        expect.objectContaining({
+          p_run: expect.objectContaining({
+            revaluation_date: '2026-09-30',
+            reversal_date: '2026-10-01',
+            total_gain: 50,
+            total_loss: 25,
+          }),
+        }),
+      );
+    });
+
+    it('should not revalue a period twice', async () => {
+      tables.fx_revaluation_runs = [
+        queryResult({ data: [{ id: 'run-id' }], error: null }),
+      ];
+
+      await expect(
+        service.create(mockTenantId, { fiscalPeriodId: period.id }, mockUserId),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockSupabaseClient.rpc).not.toHaveBeenCalled();
+    });
+  });
+});
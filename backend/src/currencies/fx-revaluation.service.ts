@@ -0,0 +1,638 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { AuditService } from '../audit/audit.service';
+import { JournalsService } from '../journals/journals.service';
+import { PeriodGuardService } from '../fiscal-periods/period-guard.service';
+import {
+  AccountMappingsService,
+  ResolvedAccountMappings,
+} from '../account-mappings/account-mappings.service';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { CreateFxRevaluationDto } from './dto/create-fx-revaluation.dto';
+
+// Invoices that have been posted, in any stage of settlement. One paid since
+// the revaluation date was still open on it.
+const POSTED_INVOICE_STATUSES = ['posted', 'partially_paid', 'paid', 'overdue'];
+
+// Invoice ids per allocation query, keeping the id filters within URL limits
+const ALLOCATION_QUERY_BATCH_SIZE = 100;
+
+// Side of the open balance: receivables and purchase returns are debit
+// balances, payables and sales returns credit balances
+const INVOICE_SIGN: Record<string, number> = {
+  sales: 1,
+  sales_return: -1,
+  purchase: -1,
+  purchase_return: 1,
+};
+
+interface RevaluationItem {
+  source_type: 'invoice' | 'bank_account';
+  source_id: string;
+  source_number: string;
+  account_id: string;
+  currency: string;
+  // Signed: positive for debit balances, negative for credit balances
+  foreign_amount: number;
+  booked_amount: number;
+  rate: number;
+  revalued_amount: number;
+  // Positive is a gain, negative a loss
+  difference: number;
+}
+
+/**
+ * Period-end revaluation of foreign-currency balances
+ *
+ * Open receivables and payables (from the invoices and what was allocated to
+ * them up to the revaluation date) and bank accounts
+ * held in a foreign currency (from their ledger account) are valued at the
+ * period-end rate. The unrealized difference is posted to the FX gain and
+ * loss accounts on the last day of the period and reversed on the first day
+ * of the next, so every period starts again from the booked amounts.
+ */
+@Injectable()
+export class FxRevaluationService {
+  constructor(
+    private supabaseService: SupabaseService,
+    private auditService: AuditService,
+    private journalsService: JournalsService,
+    private periodGuard: PeriodGuardService,
+    private accountMappingsService: AccountMappingsService,
+    private exchangeRatesService: ExchangeRatesService,
+  ) {}
+
+  async findAll(tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('fx_revaluation_runs')
+      .select('*, fiscal_periods(id, name, start_date, end_date)')
+      .eq('tenant_id', tenantId)
+      .order('revaluation_date', { ascending: false });
+
+    if (error) throw error;
+
+    return data || [];
+  }
+
+  async findOne(id: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('fx_revaluation_runs')
+      .select(
+        `
+        *,
+        fiscal_periods(id, name, start_date, end_date),
+        fx_revaluation_lines(
+          *,
+          chart_of_accounts(id, code, name_en, name_ar)
+        )
+      `,
+      )
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (error || !data) {
+      throw new NotFoundException('Revaluation run not found');
+    }
+
+    return data;
+  }
+
+  /**
+   * Calculate a period's revaluation without posting it
+   */
+  async preview(tenantId: string, fiscalPeriodId: string) {
+    const period = await this.findPeriod(tenantId, fiscalPeriodId);
+    const calculation = await this.calculate(tenantId, period.end_date);
+
+    return {
+      fiscal_period_id: period.id,
+      revaluation_date: period.end_date,
+      reversal_date: this.nextDay(period.end_date),
+      base_currency: calculation.baseCurrency,
+      total_gain: calculation.totalGain,
+      total_loss: calculation.totalLoss,
+      lines: calculation.items,
+    };
+  }
+
+  async create(
+    tenantId: string,
+    createDto: CreateFxRevaluationDto,
+    userId: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+    const period = await this.findPeriod(tenantId, createDto.fiscalPeriodId);
+    const revaluationDate = period.end_date;
+    const reversalDate = this.nextDay(period.end_date);
+
+    const { data: existing } = await supabase
+      .from('fx_revaluation_runs')
+      .select('id')
+      .eq('tenant_id', tenantId)
+      .eq('fiscal_period_id', period.id)
+      .limit(1);
+
+    if (existing && existing.length > 0) {
+      throw new BadRequestException(
+        `Fiscal period ${period.name} has already been revalued`,
+      );
+    }
+
+    await this.periodGuard.assertOpen(tenantId, revaluationDate, {
+      documentType: 'fx_revaluation',
+      action: 'post',
+      userId,
+      overrideCode: createDto.overrideCode,
+      requirePeriod: true,
+    });
+    await this.periodGuard.assertOpen(tenantId, reversalDate, {
+      documentType: 'fx_revaluation',
+      action: 'post',
+      userId,
+      overrideCode: createDto.overrideCode,
+      requirePeriod: true,
+    });
+
+    const calculation = await this.calculate(tenantId, revaluationDate);
+
+    if (calculation.items.length === 0) {
+      throw new BadRequestException(
+        'No foreign currency balances differ from the period-end rates',
+      );
+    }
+
+    const mappings = await this.accountMappingsService.resolve(tenantId);
+    const lines = this.buildJournalLines(calculation.items, mappings);
+
+    const journal = await this.journalsService.prepare(
+      {
+        journalType: 'adjustment',
+        referenceNumber: period.name,
+        descriptionAr: `إعادة تقييم العملات الأجنبية ${period.name}`,
+        descriptionEn: `Foreign currency revaluation ${period.name}`,
+        transactionDate: new Date(revaluationDate),
+        currency: calculation.baseCurrency,
+        exchangeRate: 1,
+        lines,
+      },
+      tenantId,
+      userId,
+      undefined,
+      { allowLockedPeriod: true },
+    );
+
+    const reversal = await this.journalsService.prepare(
+      {
+        // Both journals are numbered before either is saved
+        journalNumber: this.nextJournalNumber(journal.journal.journal_number),
+        journalType: 'adjustment',
+        referenceNumber: journal.journal.journal_number,
+        descriptionAr: `عكس إعادة تقييم العملات الأجنبية ${period.name}`,
+        descriptionEn: `Reversal of foreign currency revaluation ${period.name}`,
+        transactionDate: new Date(reversalDate),
+        currency: calculation.baseCurrency,
+        exchangeRate: 1,
+        lines: lines.map((line) => ({
+          ...line,
+          debit: line.credit,
+          credit: line.debit,
+        })),
+      },
+      tenantId,
+      userId,
+      undefined,
+      { allowLockedPeriod: true },
+    );
+
+    const { data: runId, error } = await supabase.rpc('post_fx_revaluation', {
+      p_tenant_id: tenantId,
+      p_user_id: userId,
+      p_run: {
+        fiscal_period_id: period.id,
+        revaluation_date: revaluationDate,
+        reversal_date: reversalDate,
+        base_currency: calculation.baseCurrency,
+        total_gain: calculation.totalGain,
+        total_loss: calculation.totalLoss,
+      },
+      p_run_lines: calculation.items,
+      p_journal: journal.journal,
+      p_lines: journal.lines,
+      p_reversal_journal: reversal.journal,
+      p_reversal_lines: reversal.lines,
+    });
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to post revaluation: ${error.message}`,
+      );
+    }
+
+    await this.auditService.logAction({
+      action: 'create',
+      entity: 'fx_revaluation',
+      entityId: runId,
+      userId,
+      tenantId,
+      metadata: {
+        fiscalPeriodId: period.id,
+        revaluationDate,
+        totalGain: calculation.totalGain,
+        totalLoss: calculation.totalLoss,
+      },
+      timestamp: new Date(),
+      success: true,
+    });
+
+    return this.findOne(runId, tenantId);
+  }
+
+  /**
+   * Value every open foreign-currency balance at the rate of the date
+   */
+  private async calculate(tenantId: string, revaluationDate: string) {
+    const baseCurrency =
+      await this.exchangeRatesService.getBaseCurrency(tenantId);
+    const rates = new Map<string, number>();
+
+    const rateOf = async (currency: string) => {
+      if (!rates.has(currency)) {
+        const { rate } = await this.exchangeRatesService.getRate(
+          tenantId,
+          currency,
+          revaluationDate,
+        );
+        rates.set(currency, rate);
+      }
+      return rates.get(currency);
+    };
+
+    const items: RevaluationItem[] = [];
+
+    for (const item of [
+      ...(await this.findOpenInvoices(tenantId, baseCurrency, revaluationDate)),
+      ...(await this.findBankBalances(tenantId, baseCurrency, revaluationDate)),
+    ]) {
+      const rate = await rateOf(item.currency);
+      const revalued = this.round(item.foreign_amount * rate);
+      const difference = this.round(revalued - item.booked_amount);
+
+      if (difference === 0) continue;
+
+      items.push({
+        ...item,
+        rate,
+        revalued_amount: revalued,
+        difference,
+      });
+    }
+
+    // Gains and losses are netted per ledger account, as they are posted
+    const byAccount = new Map<string, number>();
+    for (const item of items) {
+      byAccount.set(
+        item.account_id,
+        (byAccount.get(item.account_id) || 0) + item.difference,
+      );
+    }
+
+    let totalGain = 0;
+    let totalLoss = 0;
+    for (const amount of byAccount.values()) {
+      if (amount > 0) totalGain += amount;
+      if (amount < 0) totalLoss -= amount;
+    }
+
+    return {
+      baseCurrency,
+      items,
+      totalGain: this.round(totalGain),
+      totalLoss: this.round(totalLoss),
+    };
+  }
+
+  /**
+   * Foreign-currency invoices open on the revaluation date, booked at their
+   * own exchange rate. A later payment or credit does not change what was
+   * open then, so the balance is rebuilt from the allocations up to the date.
+   */
+  private async findOpenInvoices(
+    tenantId: string,
+    baseCurrency: string,
+    revaluationDate: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: invoices, error } = await supabase
+      .from('invoices')
+      .select(
+        'id, invoice_number, invoice_type, party_id, currency, exchange_rate, total_amount',
+      )
+      .eq('tenant_id', tenantId)
+      .neq('currency', baseCurrency)
+      .in('status', POSTED_INVOICE_STATUSES)
+      .lte('invoice_date', revaluationDate)
+      .is('deleted_at', null);
+
+    if (error) throw error;
+
+    const settled = await this.getSettledAmounts(
+      (invoices || []).map((invoice) => invoice.id),
+      revaluationDate,
+    );
+
+    const partyAccounts = new Map<string, string>();
+    const items: Array<
+      Omit<RevaluationItem, 'rate' | 'revalued_amount' | 'difference'>
+    > = [];
+
+    for (const invoice of invoices || []) {
+      const balance = this.round(
+        Number(invoice.total_amount) - (settled.get(invoice.id) || 0),
+      );
+      if (balance === 0) continue;
+
+      const isSales =
+        invoice.invoice_type === 'sales' ||
+        invoice.invoice_type === 'sales_return';
+      const partyKey = `${invoice.invoice_type}:${invoice.party_id}`;
+
+      if (!partyAccounts.has(partyKey)) {
+        const mappings = await this.accountMappingsService.resolve(
+          tenantId,
+          isSales
+            ? { customerId: invoice.party_id }
+            : { vendorId: invoice.party_id },
+        );
+        partyAccounts.set(
+          partyKey,
+          this.accountMappingsService.requireAccount(
+            mappings,
+            isSales ? 'receivable' : 'payable',
+          ),
+        );
+      }
+
+      const foreignAmount = balance * (INVOICE_SIGN[invoice.invoice_type] || 1);
+
+      items.push({
+        source_type: 'invoice',
+        source_id: invoice.id,
+        source_number: invoice.invoice_number,
+        account_id: partyAccounts.get(partyKey),
+        currency: invoice.currency,
+        foreign_amount: this.round(foreignAmount),
+        booked_amount: this.round(
+          foreignAmount * (Number(invoice.exchange_rate) || 1),
+        ),
+      });
+    }
+
+    return items;
+  }
+
+  /**
+   * Payments, early-payment discounts, write-offs and credit allocated to
+   * each invoice up to the date. A credit note's allocations count against
+   * both the invoice and the note.
+   */
+  private async getSettledAmounts(invoiceIds: string[], asOfDate: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const settled = new Map<string, number>();
+    const add = (id: string, amount: number) =>
+      settled.set(id, (settled.get(id) || 0) + Number(amount));
+    // A credit note allocation is loaded by the batch of its invoice and the
+    // batch of its credit note, which may differ
+    const countedCredits = new Set<string>();
+
+    for (
+      let start = 0;
+      start < invoiceIds.length;
+      start += ALLOCATION_QUERY_BATCH_SIZE
+    ) {
+      const batch = invoiceIds.slice(
+        start,
+        start + ALLOCATION_QUERY_BATCH_SIZE,
+      );
+
+      const { data: payments, error: paymentsError } = await supabase
+        .from('payment_allocations')
+        .select('invoice_id, amount, discount_allowed, write_off')
+        .in('invoice_id', batch)
+        .lte('allocation_date', asOfDate);
+
+      if (paymentsError) throw paymentsError;
+
+      for (const allocation of payments || []) {
+        add(
+          allocation.invoice_id,
+          Number(allocation.amount) +
+            Number(allocation.discount_allowed || 0) +
+            Number(allocation.write_off || 0),
+        );
+      }
+
+      const ids = batch.join(',');
+      const { data: credits, error: creditsError } = await supabase
+        .from('credit_note_allocations')
+        .select('id, invoice_id, credit_note_id, amount')
+        .or(`invoice_id.in.(${ids}),credit_note_id.in.(${ids})`)
+        .lte('allocation_date', asOfDate);
+
+      if (creditsError) throw creditsError;
+
+      for (const allocation of credits || []) {
+        if (countedCredits.has(allocation.id)) continue;
+        countedCredits.add(allocation.id);
+
+        add(allocation.invoice_id, allocation.amount);
+        add(allocation.credit_note_id, allocation.amount);
+      }
+    }
+
+    return settled;
+  }
+
+  /**
+   * Foreign-currency bank accounts, from the posted lines of their ledger
+   * account. Lines in the bank's currency give the foreign balance; all lines
+   * at their own rate (earlier revaluations included) give the booked one.
+   */
+  private async findBankBalances(
+    tenantId: string,
+    baseCurrency: string,
+    revaluationDate: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: bankAccounts, error } = await supabase
+      .from('bank_accounts')
+      .select('id, code, account_name, currency, gl_account_id')
+      .eq('tenant_id', tenantId)
+      .eq('is_active', true)
+      .neq('currency', baseCurrency)
+      .not('gl_account_id', 'is', null)
+      .is('deleted_at', null);
+
+    if (error) throw error;
+
+    const items: Array<
+      Omit<RevaluationItem, 'rate' | 'revalued_amount' | 'difference'>
+    > = [];
+
+    for (const bankAccount of bankAccounts || []) {
+      const { data: lines, error: linesError } = await supabase
+        .from('journal_lines')
+        .select(
+          'debit, credit, currency, exchange_rate, journals!inner(status, transaction_date)',
+        )
+        .eq('tenant_id', tenantId)
+        .eq('account_id', bankAccount.gl_account_id)
+        .eq('journals.status', 'posted')
+        .lte('journals.transaction_date', revaluationDate);
+
+      if (linesError) throw linesError;
+
+      let foreignAmount = 0;
+      let bookedAmount = 0;
+
+      for (const line of lines || []) {
+        const amount = (Number(line.debit) || 0) - (Number(line.credit) || 0);
+        if (line.currency === bankAccount.currency) foreignAmount += amount;
+        bookedAmount += amount * (Number(line.exchange_rate) || 1);
+      }
+
+      if (foreignAmount === 0 && bookedAmount === 0) continue;
+
+      items.push({
+        source_type: 'bank_account',
+        source_id: bankAccount.id,
+        source_number: bankAccount.code,
+        account_id: bankAccount.gl_account_id,
+        currency: bankAccount.currency,
+        foreign_amount: this.round(foreignAmount),
+        booked_amount: this.round(bookedAmount),
+      });
+    }
+
+    return items;
+  }
+
+  /**
+   * One line per revalued account, balanced by the FX gain and loss accounts
+   */
+  private buildJournalLines(
+    items: RevaluationItem[],
+    mappings: ResolvedAccountMappings,
+  ) {
+    const byAccount = new Map<string, number>();
+    for (const item of items) {
+      byAccount.set(
+        item.account_id,
+        (byAccount.get(item.account_id) || 0) + item.difference,
+      );
+    }
+
+    let lineNumber = 1;
+    let totalGain = 0;
+    let totalLoss = 0;
+    const lines: Array<{
+      lineNumber: number;
+      accountId: string;
+      descriptionAr?: string;
+      descriptionEn?: string;
+      debit: number;
+      credit: number;
+    }> = [];
+
+    for (const [accountId, total] of byAccount) {
+      const amount = this.round(total);
+      if (amount === 0) continue;
+
+      lines.push({
+        lineNumber: lineNumber++,
+        accountId,
+        descriptionAr: 'فروق إعادة تقييم العملات',
+        descriptionEn: 'Currency revaluation difference',
+        debit: amount > 0 ? amount : 0,
+        credit: amount < 0 ? -amount : 0,
+      });
+
+      if (amount > 0) totalGain += amount;
+      else totalLoss -= amount;
+    }
+
+    if (totalGain > 0) {
+      lines.push({
+        lineNumber: lineNumber++,
+        accountId: this.accountMappingsService.requireAccount(
+          mappings,
+          'fx_gain',
+        ),
+        descriptionAr: 'أرباح فروق عملة غير محققة',
+        descriptionEn: 'Unrealized exchange gain',
+        debit: 0,
+        credit: this.round(totalGain),
+      });
+    }
+
+    if (totalLoss > 0) {
+      lines.push({
+        lineNumber: lineNumber++,
+        accountId: this.accountMappingsService.requireAccount(
+          mappings,
+          'fx_loss',
+        ),
+        descriptionAr: 'خسائر فروق عملة غير محققة',
+        descriptionEn: 'Unrealized exchange loss',
+        debit: this.round(totalLoss),
+        credit: 0,
+      });
+    }
+
+    return lines;
+  }
+
+  private async findPeriod(tenantId: string, fiscalPeriodId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('fiscal_periods')
+      .select('id, name, start_date, end_date')
+      .eq('id', fiscalPeriodId)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (error || !data) {
+      throw new NotFoundException('Fiscal period not found');
+    }
+
+    return data;
+  }
+
+  private nextJournalNumber(journalNumber: string): string {
+    return journalNumber.replace(/\d+$/, (digits) =>
+      String(parseInt(digits, 10) + 1).padStart(digits.length, '0'),
+    );
+  }
+
+  private nextDay(date: string): string {
+    const next = new Date(`${date.split('T')[0]}T00:00:00Z`);
+    next.setUTCDate(next.getUTCDate() + 1);
+    return next.toISOString().split('T')[0];
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
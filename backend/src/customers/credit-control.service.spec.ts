@@ -0,0 +1,235 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { CreditControlService } from './credit-control.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { AuditService } from '../audit/audit.service';
+import { queryResult } from '../../test/utils/query-result';
+
+describe('CreditControlService', () => {
+  let service: CreditControlService;
+  let tables: Record<string, any[]>;
+  let mockSupabaseClient: any;
+  let checkPermission: jest.Mock;
+  let auditService: { logAction: jest.Mock };
+
+  const mockTenantId = 'test-tenant-id';
+  const mockUserId = 'test-user-id';
+
+  const draftInvoice = {
+    id: 'invoice-new',
+    invoice_type: 'sales',
+    party_type: 'customer',
+    party_id: 'customer-1',
+    total_amount: 3000,
+    exchange_rate: 1,
+  };
+
+  // 5,000 open, 1,000 unapplied credit note, 2,000 awaiting approval
+  const customerInvoices = [
+    {
+      id: 'invoice-1',
+      invoice_type: 'sales',
+      status: 'overdue',
+      total_amount: 6000,
+      balance_amount: 5000,
+      exchange_rate: 1,
+    },
+    {
+      id: 'credit-1',
+      invoice_type: 'sales_return',
+      status: 'posted',
+      total_amount: 1000,
+      balance_amount: 1000,
+      exchange_rate: 1,
+    },
+    {
+      id: 'invoice-2',
+      invoice_type: 'sales',
+      status: 'submitted',
+      total_amount: 2000,
+      balance_amount: 2000,
+      exchange_rate: 1,
+    },
+    {
+      id: 'invoice-new',
+      invoice_type: 'sales',
+      status: 'draft',
+      total_amount: 3000,
+      balance_amount: 3000,
+      exchange_rate: 1,
+    },
+  ];
+
+  beforeEach(async () => {
+    tables = {};
+    mockSupabaseClient = {
+      from: jest.fn((table: string) => tables[table].shift()),
+    };
+    checkPermission = jest.fn().mockResolvedValue(true);
+    auditService = { logAction: jest.fn().mockResolvedValue(undefined) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CreditControlService,
+        {
+          provide: SupabaseService,
+          useValue: {
+            getClient: jest.fn().mockReturnValue(mockSupabaseClient),
+            checkPermission,
+          },
+        },
+        { provide: AuditService, useValue: auditService },
+      ],
+    }).compile();
+
+    service = module.get<CreditControlService>(CreditControlService);
+  });
+
+  function givenCustomer(customer: any) {
+    const overrides = queryResult({ data: null, error: null });
+    tables.customers = [
+      queryResult({
+        data: {
+          id: 'customer-1',
+          credit_hold: false,
+          credit_hold_reason: null,
+          ...customer,
+        },
+        error: null,
+      }),
+    ];
+    tables.invoices = [queryResult({ data: customerInvoices, error: null })];
+    tables.credit_overrides = [overrides];
+    return { overrides };
+  }
+
+  describe('getExposure', () => {
+    it('should add open balances, pending invoices and the new invoice', async () => {
+      givenCustomer({ credit_limit: 10000 });
+
+      const result = await service.getExposure('customer-1', mockTenantId, {
+        invoiceAmount: 3000,
+        excludeInvoiceId: 'invoice-new',
+      });
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          credit_limit: 10000,
+          open_balance: 4000,
+          pending_amount: 2000,
+          invoice_amount: 3000,
+          exposure: 9000,
+          available_credit: 1000,
+          exceeds_limit: false,
+          blocked: false,
+        }),
+      );
+    });
+
+    it('should treat a zero credit limit as no limit', async () => {
+      givenCustomer({ credit_limit: 0 });
+
+      const result = await service.getExposure('customer-1', mockTenantId, {
+        invoiceAmount: 1000000,
+      });
+
+      expect(result.credit_limit).toBeNull();
+      expect(result.available_credit).toBeNull();
+      expect(result.blocked).toBe(false);
+    });
+  });
+
+  describe('assertInvoiceAllowed', () => {
+    it('should block an invoice past the credit limit without a reason', async () => {
+      givenCustomer({ credit_limit: 8000 });
+
+      await expect(
+        service.assertInvoiceAllowed(draftInvoice, mockTenantId, {
+          action: 'submit',
+          userId: mockUserId,
+        }),
+      ).rejects.toThrow(
+        'Credit limit of 8000.00 exceeded: exposure would be 9000.00',
+      );
+    });
+
+    it('should block a customer on credit hold within the limit', async () => {
+      givenCustomer({
+        credit_limit: 50000,
+        credit_hold: true,
+        credit_hold_reason: 'Disputed statement',
+      });
+
+      await expect(
+        service.assertInvoiceAllowed(draftInvoice, mockTenantId, {
+          action: 'approve',
+          userId: mockUserId,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should require the override permission to proceed with a reason', async () => {
+      givenCustomer({ credit_limit: 8000 });
+      checkPermission.mockResolvedValue(false);
+
+      await expect(
+        service.assertInvoiceAllowed(draftInvoice, mockTenantId, {
+          action: 'submit',
+          userId: mockUserId,
+          overrideReason: 'Payment promised this week',
+        }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(checkPermission).toHaveBeenCalledWith(
+        mockUserId,
+        'invoices',
+        'override',
+        'credit',
+      );
+    });
+
+    it('should record an override and return it for the invoice', async () => {
+      const { overrides } = givenCustomer({ credit_limit: 8000 });
+
+      const result = await service.assertInvoiceAllowed(
+        draftInvoice,
+        mockTenantId,
+        {
+          action: 'submit',
+          userId: mockUserId,
+          overrideReason: 'Payment promised this week',
+        },
+      );
+
+      expect(result).toEqual({
+        credit_override_by: mockUserId,
+        credit_override_reason: 'Payment promised this week',
+        credit_override_at: expect.any(String),
+      });
+      expect(overrides.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          invoice_id: 'invoice-new',
+          customer_id: 'customer-1',
+          action: 'submit',
+          credit_limit: 8000,
+          exposure: 9000,
+          on_hold: false,
+          user_id: mockUserId,
+        }),
+      );
+      expect(auditService.logAction).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'credit_override' }),
+      );
+    });
+
+    it('should not check purchase invoices', async () => {
+      const result = await service.assertInvoiceAllowed(
+        { ...draftInvoice, invoice_type: 'purchase', party_type: 'vendor' },
+        mockTenantId,
+        { action: 'submit', userId: mockUserId },
+      );
+
+      expect(result).toBeNull();
+      expect(mockSupabaseClient.from).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,294 @@
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { AuditService } from '../audit/audit.service';
+
+// Sales invoices that are posted and not yet settled
+const OPEN_INVOICE_STATUSES = ['posted', 'partially_paid', 'overdue'];
+
+// Sales invoices on their way to being posted
+const PENDING_INVOICE_STATUSES = ['submitted', 'approved'];
+
+export type CreditCheckAction = 'submit' | 'approve';
+
+export interface CreditCheckContext {
+  action: CreditCheckAction;
+  userId?: string;
+  // Reason given to proceed past the limit or hold; requires the
+  // invoices:override:credit permission
+  overrideReason?: string;
+}
+
+export interface CreditExposure {
+  customer_id: string;
+  // null when the customer has no limit
+  credit_limit: number | null;
+  credit_hold: boolean;
+  credit_hold_reason: string | null;
+  // Posted sales invoices less unapplied credit notes, in base currency
+  open_balance: number;
+  // Sales invoices submitted or approved but not yet posted
+  pending_amount: number;
+  invoice_amount: number;
+  exposure: number;
+  available_credit: number | null;
+  exceeds_limit: boolean;
+  blocked: boolean;
+}
+
+export interface CreditOverride {
+  credit_override_by: string;
+  credit_override_reason: string;
+  credit_override_at: string;
+}
+
+/**
+ * Customer credit limit and credit hold checks for sales invoices
+ *
+ * Exposure is what the customer owes on posted invoices plus invoices
+ * awaiting posting plus the invoice being checked. A sales invoice whose
+ * exposure exceeds the customer's credit limit, or whose customer is on
+ * credit hold, can be submitted or approved only by a user with the
+ * invoices:override:credit permission who gives a reason; every such
+ * override is recorded.
+ */
+@Injectable()
+export class CreditControlService {
+  constructor(
+    private supabaseService: SupabaseService,
+    private auditService: AuditService,
+  ) {}
+
+  /**
+   * Credit position of a customer, optionally with a new invoice amount (in
+   * base currency) added. Pass the invoice's own id to leave it out of the
+   * pending invoices.
+   */
+  async getExposure(
+    customerId: string,
+    tenantId: string,
+    options: { invoiceAmount?: number; excludeInvoiceId?: string } = {},
+  ): Promise<CreditExposure> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: customer, error: customerError } = await supabase
+      .from('customers')
+      .select('id, credit_limit, credit_hold, credit_hold_reason')
+      .eq('id', customerId)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (customerError || !customer) {
+      throw new NotFoundException('Customer not found');
+    }
+
+    const { data: invoices, error } = await supabase
+      .from('invoices')
+      .select(
+        'id, invoice_type, status, total_amount, balance_amount, exchange_rate',
+      )
+      .eq('tenant_id', tenantId)
+      .eq('party_type', 'customer')
+      .eq('party_id', customerId)
+      .in('invoice_type', ['sales', 'sales_return'])
+      .in('status', [...OPEN_INVOICE_STATUSES, ...PENDING_INVOICE_STATUSES]);
+
+    if (error) throw error;
+
+    let openBalance = 0;
+    let pendingAmount = 0;
+
+    for (const invoice of invoices || []) {
+      if (invoice.id === options.excludeInvoiceId) continue;
+
+      const rate = Number(invoice.exchange_rate) || 1;
+      const sign = invoice.invoice_type === 'sales_return' ? -1 : 1;
+
+      if (OPEN_INVOICE_STATUSES.includes(invoice.status)) {
+        openBalance +=
+          sign * Number(invoice.balance_amount ?? invoice.total_amount) * rate;
+      } else if (invoice.invoice_type === 'sales') {
+        pendingAmount += Number(invoice.total_amount) * rate;
+      }
+    }
+
+    const creditLimit =
+      Number(customer.credit_limit) > 0 ? Number(customer.credit_limit) : null;
+    const invoiceAmount = this.round(options.invoiceAmount || 0);
+    const exposure = this.round(openBalance + pendingAmount + invoiceAmount);
+    const exceedsLimit = creditLimit !== null && exposure > creditLimit;
+
+    return {
+      customer_id: customer.id,
+      credit_limit: creditLimit,
+      credit_hold: !!customer.credit_hold,
+      credit_hold_reason: customer.credit_hold_reason || null,
+      open_balance: this.round(openBalance),
+      pending_amount: this.round(pendingAmount),
+      invoice_amount: invoiceAmount,
+      exposure,
+      available_credit:
+        creditLimit === null ? null : this.round(creditLimit - exposure),
+      exceeds_limit: exceedsLimit,
+      blocked: exceedsLimit || !!customer.credit_hold,
+    };
+  }
+
+  /**
+   * Throw unless the sales invoice may be submitted or approved. Returns the
+   * override to store on the invoice when one was needed and given, or null.
+   */
+  async assertInvoiceAllowed(
+    invoice: any,
+    tenantId: string,
+    context: CreditCheckContext,
+  ): Promise<CreditOverride | null> {
+    if (invoice.invoice_type !== 'sales' || invoice.party_type !== 'customer') {
+      return null;
+    }
+
+    const exposure = await this.getExposure(invoice.party_id, tenantId, {
+      invoiceAmount:
+        Number(invoice.total_amount) * (Number(invoice.exchange_rate) || 1),
+      excludeInvoiceId: invoice.id,
+    });
+
+    if (!exposure.blocked) {
+      return null;
+    }
+
+    const problem = exposure.credit_hold
+      ? `Customer is on credit hold${exposure.credit_hold_reason ? ` (${exposure.credit_hold_reason})` : ''}`
+      : `Credit limit of ${exposure.credit_limit.toFixed(2)} exceeded: exposure would be ${exposure.exposure.toFixed(2)}`;
+
+    const reason = context.overrideReason?.trim();
+    if (!reason) {
+      throw new BadRequestException(
+        `${problem}. A user with the invoices:override:credit permission can proceed by giving a reason`,
+      );
+    }
+
+    const allowed =
+      !!context.userId &&
+      (await this.supabaseService.checkPermission(
+        context.userId,
+        'invoices',
+        'override',
+        'credit',
+      ));
+    if (!allowed) {
+      throw new ForbiddenException(
+        'Missing required permission: invoices:override:credit',
+      );
+    }
+
+    await this.recordOverride(tenantId, invoice, exposure, reason, context);
+
+    return {
+      credit_override_by: context.userId,
+      credit_override_reason: reason,
+      credit_override_at: new Date().toISOString(),
+    };
+  }
+
+  async placeOnHold(
+    customerId: string,
+    reason: string,
+    tenantId: string,
+    userId?: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('customers')
+      .update({
+        credit_hold: true,
+        credit_hold_reason: reason,
+        credit_hold_by: userId,
+        credit_hold_at: new Date().toISOString(),
+      })
+      .eq('id', customerId)
+      .eq('tenant_id', tenantId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new NotFoundException('Customer not found');
+    }
+
+    return data;
+  }
+
+  async releaseHold(customerId: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('customers')
+      .update({
+        credit_hold: false,
+        credit_hold_reason: null,
+        credit_hold_by: null,
+        credit_hold_at: null,
+      })
+      .eq('id', customerId)
+      .eq('tenant_id', tenantId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new NotFoundException('Customer not found');
+    }
+
+    return data;
+  }
+
+  private async recordOverride(
+    tenantId: string,
+    invoice: any,
+    exposure: CreditExposure,
+    reason: string,
+    context: CreditCheckContext,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const { error } = await supabase.from('credit_overrides').insert({
+      tenant_id: tenantId,
+      invoice_id: invoice.id,
+      customer_id: invoice.party_id,
+      action: context.action,
+      reason,
+      credit_limit: exposure.credit_limit,
+      exposure: exposure.exposure,
+      on_hold: exposure.credit_hold,
+      user_id: context.userId,
+    });
+
+    if (error) throw error;
+
+    await this.auditService.logAction({
+      action: 'credit_override',
+      entity: 'invoice',
+      entityId: invoice.id,
+      userId: context.userId,
+      tenantId,
+      metadata: {
+        customerId: invoice.party_id,
+        documentAction: context.action,
+        reason,
+        creditLimit: exposure.credit_limit,
+        exposure: exposure.exposure,
+        onHold: exposure.credit_hold,
+      },
+      timestamp: new Date(),
+      success: true,
+    });
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
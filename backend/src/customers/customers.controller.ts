@@ -16,10 +16,12 @@ import {
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
 import { type Response } from 'express';
 import { CustomersService } from './customers.service';
+import { CreditControlService } from './credit-control.service';
 import { PdfService } from '../pdf/pdf.service';
 import { ExportService } from '../export/export.service';
 import { CreateCustomerDto } from './dto/create-customer.dto';
 import { UpdateCustomerDto } from './dto/update-customer.dto';
+import { CreditHoldDto } from './dto/credit-hold.dto';
 import { TenantContextGuard } from '../common/guards/tenant-context.guard';
 import { TenantContext } from '../common/decorators/tenant-context.decorator';
 
@@ -36,6 +38,7 @@ function Protected() {
 export class CustomersController {
   constructor(
     private customersService: CustomersService,
+    private creditControlService: CreditControlService,
     private pdfService: PdfService,
     private exportService: ExportService,
   ) {}
@@ -102,6 +105,45 @@ export class CustomersController {
     return this.customersService.remove(id, tenantId);
   }
 
+  @Get(':id/credit')
+  @ApiOperation({ summary: 'Get the credit limit, hold and exposure of a customer' })
+  @ApiQuery({ name: 'invoiceAmount', required: false, type: Number, description: 'Amount of a new invoice in base currency' })
+  @ApiQuery({ name: 'excludeInvoiceId', required: false })
+  @Protected()
+  getCreditExposure(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+    @Query('invoiceAmount') invoiceAmount?: string,
+    @Query('excludeInvoiceId') excludeInvoiceId?: string,
+  ) {
+    return this.creditControlService.getExposure(id, tenantId, {
+      invoiceAmount: invoiceAmount ? Number(invoiceAmount) || 0 : 0,
+      excludeInvoiceId,
+    });
+  }
+
+  @Post(':id/credit-hold')
+  @ApiOperation({ summary: 'Put a customer on credit hold' })
+  @Protected()
+  placeCreditHold(
+    @Param('id') id: string,
+    @Body() holdDto: CreditHoldDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId?: string,
+  ) {
+    return this.creditControlService.placeOnHold(id, holdDto.reason, tenantId, userId);
+  }
+
+  @Delete(':id/credit-hold')
+  @ApiOperation({ summary: 'Release a customer from credit hold' })
+  @Protected()
+  releaseCreditHold(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.creditControlService.releaseHold(id, tenantId);
+  }
+
   @Get(':id/statement/pdf')
   @ApiOperation({ summary: 'Download customer statement PDF' })
   @Protected()
@@ -1,6 +1,7 @@
 import { Module } from '@nestjs/common';
 import { CustomersService } from './customers.service';
 import { CustomersController } from './customers.controller';
+import { CreditControlService } from './credit-control.service';
 import { SupabaseModule } from '../supabase/supabase.module';
 import { PdfModule } from '../pdf/pdf.module';
 import { AuditModule } from '../audit/audit.module';
@@ -9,7 +10,7 @@ import { ExportModule } from '../export/export.module';
 @Module({
   imports: [SupabaseModule, PdfModule, AuditModule, ExportModule],
   controllers: [CustomersController],
-  providers: [CustomersService],
-  exports: [CustomersService],
+  providers: [CustomersService, CreditControlService],
+  exports: [CustomersService, CreditControlService],
 })
 export class CustomersModule {}
@@ -106,8 +106,11 @@ export class CustomersService {
         country: createDto.country || 'QA',
         credit_limit: createDto.creditLimit || 0,
         payment_terms_days: createDto.paymentTermsDays || 30,
+        payment_terms_id: createDto.paymentTermsId,
         tax_number: createDto.taxNumber,
         is_active: createDto.isActive ?? true,
+        preferred_language: createDto.preferredLanguage || 'en',
+        exclude_from_dunning: createDto.excludeFromDunning ?? false,
         notes: createDto.notes,
         tenant_id: tenantId,
         created_by: createdBy,
@@ -156,9 +159,12 @@ export class CustomersService {
     if (updateDto.country !== undefined) updateData.country = updateDto.country;
     if (updateDto.creditLimit !== undefined) updateData.credit_limit = updateDto.creditLimit;
     if (updateDto.paymentTermsDays !== undefined) updateData.payment_terms_days = updateDto.paymentTermsDays;
+    if (updateDto.paymentTermsId !== undefined) updateData.payment_terms_id = updateDto.paymentTermsId;
     if (updateDto.taxNumber !== undefined) updateData.tax_number = updateDto.taxNumber;
     if (updateDto.isActive !== undefined) updateData.is_active = updateDto.isActive;
     if (updateDto.notes !== undefined) updateData.notes = updateDto.notes;
+    if (updateDto.preferredLanguage !== undefined) updateData.preferred_language = updateDto.preferredLanguage;
+    if (updateDto.excludeFromDunning !== undefined) updateData.exclude_from_dunning = updateDto.excludeFromDunning;
 
     const { data, error } = await supabase
       .from('customers')
@@ -9,6 +9,7 @@ import {
   MinLength,
   MaxLength,
   IsBoolean,
+  IsIn,
 } from 'class-validator';
 
 export class CreateCustomerDto {
@@ -95,6 +96,11 @@ export class CreateCustomerDto {
   @Min(0)
   paymentTermsDays?: number;
 
+  // Named payment terms; take precedence over paymentTermsDays
+  @IsUUID()
+  @IsOptional()
+  paymentTermsId?: string;
+
   @IsString()
   @IsOptional()
   @MaxLength(50)
@@ -111,4 +117,13 @@ export class CreateCustomerDto {
   @IsOptional()
   @IsBoolean()
   isActive?: boolean;
+
+  // Language of reminders and other emails sent to the customer
+  @IsIn(['ar', 'en'])
+  @IsOptional()
+  preferredLanguage?: 'ar' | 'en';
+
+  @IsOptional()
+  @IsBoolean()
+  excludeFromDunning?: boolean;
 }
@@ -8,6 +8,7 @@ import {
   MinLength,
   MaxLength,
   IsBoolean,
+  IsIn,
 } from 'class-validator';
 import { PartialType } from '@nestjs/mapped-types';
 import { CreateCustomerDto } from './create-customer.dto';
@@ -96,6 +97,11 @@ export class UpdateCustomerDto extends PartialType(CreateCustomerDto) {
   @Min(0)
   paymentTermsDays?: number;
 
+  // Named payment terms; take precedence over paymentTermsDays
+  @IsUUID()
+  @IsOptional()
+  paymentTermsId?: string;
+
   @IsString()
   @IsOptional()
   @MaxLength(50)
@@ -108,4 +114,13 @@ export class UpdateCustomerDto extends PartialType(CreateCustomerDto) {
   @IsOptional()
   @IsBoolean()
   isActive?: boolean;
+
+  // Language of reminders and other emails sent to the customer
+  @IsIn(['ar', 'en'])
+  @IsOptional()
+  preferredLanguage?: 'ar' | 'en';
+
+  @IsOptional()
+  @IsBoolean()
+  excludeFromDunning?: boolean;
 }
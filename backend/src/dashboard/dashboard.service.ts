@@ -1,6 +1,12 @@
 import { Injectable } from '@nestjs/common';
 import { SupabaseService } from '../supabase/supabase.service';
 
+// Posted invoices in any stage of settlement
+const POSTED_INVOICE_STATUSES = ['posted', 'partially_paid', 'paid', 'overdue'];
+
+// Posted invoices with a balance still to settle
+const OPEN_INVOICE_STATUSES = ['posted', 'partially_paid', 'overdue'];
+
 @Injectable()
 export class DashboardService {
   constructor(private supabaseService: SupabaseService) {}
@@ -55,6 +61,8 @@ export class DashboardService {
       currentExpensesResult,
       lastExpensesResult,
       cashBalanceResult,
+      receivablesResult,
+      payablesResult,
     ] = await Promise.all([
       // Current month revenue (sales invoices posted)
       supabase
@@ -62,7 +70,7 @@ export class DashboardService {
         .select('total_amount')
         .eq('tenant_id', tenantId)
         .eq('invoice_type', 'sales')
-        .eq('status', 'posted')
+        .in('status', POSTED_INVOICE_STATUSES)
         .gte('invoice_date', formatDate(currentMonthStart))
         .lte('invoice_date', formatDate(currentMonthEnd)),
       
@@ -72,7 +80,7 @@ export class DashboardService {
         .select('total_amount')
         .eq('tenant_id', tenantId)
         .eq('invoice_type', 'sales')
-        .eq('status', 'posted')
+        .in('status', POSTED_INVOICE_STATUSES)
         .gte('invoice_date', formatDate(lastMonthStart))
         .lte('invoice_date', formatDate(lastMonthEnd)),
       
@@ -82,7 +90,7 @@ export class DashboardService {
         .select('total_amount')
         .eq('tenant_id', tenantId)
         .eq('invoice_type', 'purchase')
-        .eq('status', 'posted')
+        .in('status', POSTED_INVOICE_STATUSES)
         .gte('invoice_date', formatDate(currentMonthStart))
         .lte('invoice_date', formatDate(currentMonthEnd)),
       
@@ -92,7 +100,7 @@ export class DashboardService {
         .select('total_amount')
         .eq('tenant_id', tenantId)
         .eq('invoice_type', 'purchase')
-        .eq('status', 'posted')
+        .in('status', POSTED_INVOICE_STATUSES)
         .gte('invoice_date', formatDate(lastMonthStart))
         .lte('invoice_date', formatDate(lastMonthEnd)),
       
@@ -102,6 +110,22 @@ export class DashboardService {
         .select('current_balance')
         .eq('tenant_id', tenantId)
         .eq('is_active', true),
+
+      // Outstanding receivables (overdue status is kept current by the daily job)
+      supabase
+        .from('invoices')
+        .select('balance_amount, status')
+        .eq('tenant_id', tenantId)
+        .eq('invoice_type', 'sales')
+        .in('status', OPEN_INVOICE_STATUSES),
+
+      // Outstanding payables
+      supabase
+        .from('invoices')
+        .select('balance_amount, status')
+        .eq('tenant_id', tenantId)
+        .eq('invoice_type', 'purchase')
+        .in('status', OPEN_INVOICE_STATUSES),
     ]);
 
     // Calculate totals
@@ -126,6 +150,9 @@ export class DashboardService {
       0
     );
 
+    const receivables = this.sumOutstanding(receivablesResult.data || []);
+    const payables = this.sumOutstanding(payablesResult.data || []);
+
     // Calculate changes (avoid division by zero)
     const revenueChange = lastRevenue > 0 
       ? Math.round(((currentRevenue - lastRevenue) / lastRevenue) * 100) 
@@ -149,9 +176,35 @@ export class DashboardService {
       expenseChange,
       profitChange,
       balanceChange: 0, // Would need historical data to calculate
+      accountsReceivable: receivables.total,
+      overdueReceivables: receivables.overdue,
+      overdueReceivablesCount: receivables.overdueCount,
+      accountsPayable: payables.total,
+      overduePayables: payables.overdue,
+      overduePayablesCount: payables.overdueCount,
     };
   }
 
+  /**
+   * Total and overdue balance of open invoices
+   */
+  private sumOutstanding(invoices: Array<{ balance_amount: any; status: string }>) {
+    let total = 0;
+    let overdue = 0;
+    let overdueCount = 0;
+
+    for (const invoice of invoices) {
+      const balance = parseFloat(invoice.balance_amount) || 0;
+      total += balance;
+      if (invoice.status === 'overdue') {
+        overdue += balance;
+        overdueCount++;
+      }
+    }
+
+    return { total, overdue, overdueCount };
+  }
+
   /**
    * Get revenue vs expenses chart data for the last 6 months
    * Uses efficient aggregation with GROUP BY
@@ -179,7 +232,7 @@ export class DashboardService {
             .select('total_amount')
             .eq('tenant_id', tenantId)
             .eq('invoice_type', 'sales')
-            .eq('status', 'posted')
+            .in('status', POSTED_INVOICE_STATUSES)
             .gte('invoice_date', formatDate(monthDate))
             .lte('invoice_date', formatDate(monthEnd)),
           
@@ -189,7 +242,7 @@ export class DashboardService {
             .select('total_amount')
             .eq('tenant_id', tenantId)
             .eq('invoice_type', 'purchase')
-            .eq('status', 'posted')
+            .in('status', POSTED_INVOICE_STATUSES)
             .gte('invoice_date', formatDate(monthDate))
             .lte('invoice_date', formatDate(monthEnd)),
         ]).then(([revenueResult, expenseResult]) => ({
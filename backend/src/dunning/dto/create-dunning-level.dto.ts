@@ -0,0 +1,49 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsInt,
+  Min,
+  Max,
+  IsBoolean,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateDunningLevelDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  // Days from the due date: negative before it falls due, positive once overdue
+  @IsInt()
+  @Min(-90)
+  @Max(365)
+  daysOffset: number;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  subjectEn: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  subjectAr: string;
+
+  @IsString()
+  @IsNotEmpty()
+  messageEn: string;
+
+  @IsString()
+  @IsNotEmpty()
+  messageAr: string;
+
+  @IsBoolean()
+  @IsOptional()
+  attachPdf?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateDunningLevelDto } from './create-dunning-level.dto';
+
+export class UpdateDunningLevelDto extends PartialType(CreateDunningLevelDto) {}
@@ -0,0 +1,115 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  applyDecorators,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { DunningService } from './dunning.service';
+import { TenantContextGuard } from '../common/guards/tenant-context.guard';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import { TenantContext } from '../common/decorators/tenant-context.decorator';
+import { CreateDunningLevelDto } from './dto/create-dunning-level.dto';
+import { UpdateDunningLevelDto } from './dto/update-dunning-level.dto';
+
+// Custom decorator to apply guards to specific routes (not controller-level)
+function Protected() {
+  return applyDecorators(
+    ApiBearerAuth(),
+    UseGuards(TenantContextGuard, PermissionsGuard),
+  );
+}
+
+@ApiTags('dunning')
+@Controller('dunning')
+export class DunningController {
+  constructor(private readonly dunningService: DunningService) {}
+
+  @Get('levels')
+  @Protected()
+  @ApiOperation({ summary: 'Get dunning levels' })
+  @ApiResponse({
+    status: 200,
+    description: 'Dunning levels ordered by days from the due date',
+  })
+  @RequirePermissions({ module: 'invoices', action: 'view' })
+  findLevels(@TenantContext('tenantId') tenantId: string) {
+    return this.dunningService.findLevels(tenantId);
+  }
+
+  @Post('levels')
+  @Protected()
+  @ApiOperation({ summary: 'Create a dunning level' })
+  @ApiResponse({ status: 201, description: 'Dunning level created' })
+  @RequirePermissions({ module: 'invoices', action: 'edit' })
+  createLevel(
+    @Body() createDto: CreateDunningLevelDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
+  ) {
+    return this.dunningService.createLevel(createDto, tenantId, userId);
+  }
+
+  @Post('levels/defaults')
+  @Protected()
+  @ApiOperation({
+    summary:
+      'Create the default levels (3 days before due, 7 and 30 days overdue)',
+  })
+  @ApiResponse({ status: 201, description: 'Default dunning levels created' })
+  @RequirePermissions({ module: 'invoices', action: 'edit' })
+  createDefaultLevels(
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
+  ) {
+    return this.dunningService.createDefaultLevels(tenantId, userId);
+  }
+
+  @Patch('levels/:id')
+  @Protected()
+  @ApiOperation({ summary: 'Update a dunning level' })
+  @ApiResponse({ status: 200, description: 'Dunning level updated' })
+  @RequirePermissions({ module: 'invoices', action: 'edit' })
+  updateLevel(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateDunningLevelDto,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.dunningService.updateLevel(id, updateDto, tenantId);
+  }
+
+  @Delete('levels/:id')
+  @Protected()
+  @ApiOperation({ summary: 'Delete a dunning level' })
+  @ApiResponse({ status: 200, description: 'Dunning level deleted' })
+  @RequirePermissions({ module: 'invoices', action: 'edit' })
+  removeLevel(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.dunningService.removeLevel(id, tenantId);
+  }
+
+  @Get('invoices/:invoiceId/reminders')
+  @Protected()
+  @ApiOperation({ summary: 'Get the reminders sent for an invoice' })
+  @ApiResponse({ status: 200, description: 'Invoice reminder log' })
+  @RequirePermissions({ module: 'invoices', action: 'view' })
+  getInvoiceReminders(
+    @Param('invoiceId') invoiceId: string,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.dunningService.getInvoiceReminders(invoiceId, tenantId);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { DunningService } from './dunning.service';
+import { DunningController } from './dunning.controller';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { EmailModule } from '../email/email.module';
+import { PdfModule } from '../pdf/pdf.module';
+
+@Module({
+  imports: [SupabaseModule, EmailModule, PdfModule],
+  controllers: [DunningController],
+  providers: [DunningService],
+  exports: [DunningService],
+})
+export class DunningModule {}
@@ -0,0 +1,267 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DunningService } from './dunning.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { EmailService } from '../email/email.service';
+import { PdfService } from '../pdf/pdf.service';
+import { queryResult } from '../../test/utils/query-result';
+
+describe('DunningService', () => {
+  let service: DunningService;
+  let tables: Record<string, any[]>;
+  let mockSupabaseClient: any;
+  let emailService: { sendPaymentReminderEmail: jest.Mock };
+  let pdfService: { generateInvoicePdf: jest.Mock };
+
+  const mockTenantId = 'test-tenant-id';
+
+  // Sorted the way sendDue loads them: latest offset first
+  const levels = [
+    {
+      id: 'level-30',
+      tenant_id: mockTenantId,
+      name: 'Final reminder',
+      days_offset: 30,
+      subject_en: 'Final reminder for {{invoiceNumber}}',
+      subject_ar: 'تذكير أخير للفاتورة {{invoiceNumber}}',
+      message_en: 'Invoice {{invoiceNumber}} is {{daysOverdue}} days overdue.',
+      message_ar: 'الفاتورة {{invoiceNumber}} متأخرة {{daysOverdue}} يوماً.',
+      attach_pdf: true,
+    },
+    {
+      id: 'level-7',
+      tenant_id: mockTenantId,
+      name: 'First reminder',
+      days_offset: 7,
+      subject_en: 'Invoice {{invoiceNumber}} is overdue',
+      subject_ar: 'الفاتورة {{invoiceNumber}} متأخرة السداد',
+      message_en:
+        'Dear {{customerName}}, {{amount}} {{currency}} was due on {{dueDate}}.',
+      message_ar: 'مبلغ {{amount}} {{currency}} كان مستحقاً في {{dueDate}}.',
+      attach_pdf: true,
+    },
+    {
+      id: 'level-pre',
+      tenant_id: mockTenantId,
+      name: 'Upcoming due date',
+      days_offset: -3,
+      subject_en: 'Invoice {{invoiceNumber}} is due soon',
+      subject_ar: 'الفاتورة {{invoiceNumber}} تستحق قريباً',
+      message_en: 'Invoice {{invoiceNumber}} falls due on {{dueDate}}.',
+      message_ar: 'الفاتورة {{invoiceNumber}} تستحق في {{dueDate}}.',
+      attach_pdf: false,
+    },
+  ];
+
+  const customer = {
+    id: 'customer-1',
+    name_en: 'Acme',
+    name_ar: 'أكمي',
+    email: 'ap@acme.test',
+    preferred_language: 'en',
+    exclude_from_dunning: false,
+  };
+
+  const overdueInvoice = {
+    id: 'invoice-1',
+    invoice_number: 'INV-2026-000010',
+    party_id: 'customer-1',
+    due_date: '2026-10-01',
+    currency: 'QAR',
+    total_amount: 2100,
+    balance_amount: 1500,
+  };
+
+  beforeEach(async () => {
+    tables = {};
+    mockSupabaseClient = {
+      from: jest.fn((table: string) => tables[table].shift()),
+    };
+    emailService = {
+      sendPaymentReminderEmail: jest.fn().mockResolvedValue({ success: true }),
+    };
+    pdfService = {
+      generateInvoicePdf: jest.fn().mockResolvedValue(Buffer.from('pdf')),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DunningService,
+        {
+          provide: SupabaseService,
+          useValue: {
+            getClient: jest.fn().mockReturnValue(mockSupabaseClient),
+            getServiceRoleClient: jest.fn().mockReturnValue(mockSupabaseClient),
+          },
+        },
+        { provide: EmailService, useValue: emailService },
+        { provide: PdfService, useValue: pdfService },
+      ],
+    }).compile();
+
+    service = module.get<DunningService>(DunningService);
+  });
+
+  function givenOpenInvoices(
+    invoices: any[],
+    customers: any[],
+    sentReminders: any[] = [],
+  ) {
+    const log = queryResult({ data: null, error: null });
+    tables.dunning_levels = [queryResult({ data: levels, error: null })];
+    tables.invoices = [queryResult({ data: invoices, error: null })];
+    tables.customers = [queryResult({ data: customers, error: null })];
+    tables.invoice_reminders = [
+      queryResult({ data: sentReminders, error: null }),
+      log,
+    ];
+    return { log };
+  }
+
+  describe('sendDue', () => {
+    it('should send the highest level reached with the invoice PDF and log it', async () => {
+      const { log } = givenOpenInvoices([overdueInvoice], [customer]);
+
+      const result = await service.sendDue(new Date('2026-10-12'));
+
+      expect(result).toEqual({
+        tenantsProcessed: 1,
+        remindersSent: 1,
+        failures: 0,
+      });
+      expect(pdfService.generateInvoicePdf).toHaveBeenCalledWith(
+        'invoice-1',
+        mockTenantId,
+        { language: 'en' },
+      );
+      expect(emailService.sendPaymentReminderEmail).toHaveBeenCalledWith(
+        [overdueInvoice],
+        'ap@acme.test',
+        mockTenantId,
+        'en',
+        {
+          subject: 'Invoice INV-2026-000010 is overdue',
+          message: 'Dear Acme, 1500.00 QAR was due on 2026-10-01.',
+          customerName: 'Acme',
+          attachments: [
+            {
+              filename: 'invoice-INV-2026-000010.pdf',
+              content: expect.any(Buffer),
+            },
+          ],
+        },
+      );
+      expect(log.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          invoice_id: 'invoice-1',
+          dunning_level_id: 'level-7',
+          days_offset: 7,
+          sent_to: 'ap@acme.test',
+          language: 'en',
+          status: 'sent',
+          error_message: null,
+        }),
+        { onConflict: 'invoice_id,dunning_level_id' },
+      );
+    });
+
+    it('should write in the customer preferred language', async () => {
+      givenOpenInvoices(
+        [overdueInvoice],
+        [{ ...customer, preferred_language: 'ar' }],
+      );
+
+      await service.sendDue(new Date('2026-11-05'));
+
+      expect(emailService.sendPaymentReminderEmail).toHaveBeenCalledWith(
+        expect.anything(),
+        'ap@acme.test',
+        mockTenantId,
+        'ar',
+        expect.objectContaining({
+          subject: 'تذكير أخير للفاتورة INV-2026-000010',
+          message: 'الفاتورة INV-2026-000010 متأخرة 35 يوماً.',
+          customerName: 'أكمي',
+        }),
+      );
+    });
+
+    it('should skip excluded customers and levels already sent', async () => {
+      const secondInvoice = {
+        ...overdueInvoice,
+        id: 'invoice-2',
+        party_id: 'customer-2',
+      };
+      givenOpenInvoices(
+        [overdueInvoice, secondInvoice],
+        [
+          customer,
+          { ...customer, id: 'customer-2', exclude_from_dunning: true },
+        ],
+        [{ invoice_id: 'invoice-1', days_offset: 7 }],
+      );
+
+      const result = await service.sendDue(new Date('2026-10-20'));
+
+      expect(result.remindersSent).toBe(0);
+      expect(emailService.sendPaymentReminderEmail).not.toHaveBeenCalled();
+    });
+
+    it('should not send a before-due reminder once the invoice is overdue', async () => {
+      givenOpenInvoices([overdueInvoice], [customer]);
+
+      const result = await service.sendDue(new Date('2026-10-03'));
+
+      expect(result.remindersSent).toBe(0);
+      expect(emailService.sendPaymentReminderEmail).not.toHaveBeenCalled();
+    });
+
+    it('should count a tenant that fails and go on with the other tenants', async () => {
+      givenOpenInvoices([overdueInvoice], [customer]);
+      tables.dunning_levels = [
+        queryResult({
+          data: [{ ...levels[0], tenant_id: 'other-tenant-id' }, ...levels],
+          error: null,
+        }),
+      ];
+      tables.invoices.unshift(
+        queryResult({ data: null, error: new Error('Connection lost') }),
+      );
+
+      const result = await service.sendDue(new Date('2026-10-12'));
+
+      expect(result).toEqual({
+        tenantsProcessed: 2,
+        remindersSent: 1,
+        failures: 1,
+      });
+      expect(emailService.sendPaymentReminderEmail).toHaveBeenCalledWith(
+        [overdueInvoice],
+        'ap@acme.test',
+        mockTenantId,
+        'en',
+        expect.anything(),
+      );
+    });
+
+    it('should log a failed reminder when the customer has no email', async () => {
+      const { log } = givenOpenInvoices(
+        [{ ...overdueInvoice, due_date: '2026-10-15' }],
+        [{ ...customer, email: null }],
+      );
+
+      const result = await service.sendDue(new Date('2026-10-12'));
+
+      expect(result.failures).toBe(1);
+      expect(emailService.sendPaymentReminderEmail).not.toHaveBeenCalled();
+      expect(log.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          dunning_level_id: 'level-pre',
+          status: 'failed',
+          error_message: 'Customer has no email address',
+          sent_at: null,
+        }),
+        expect.anything(),
+      );
+    });
+  });
+});
@@ -0,0 +1,533 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { EmailService } from '../email/email.service';
+import { PdfService } from '../pdf/pdf.service';
+import { CreateDunningLevelDto } from './dto/create-dunning-level.dto';
+import { UpdateDunningLevelDto } from './dto/update-dunning-level.dto';
+import { addDays, toDateString } from '../common/utils/recurrence';
+import { daysBetween } from '../common/utils/aging';
+
+// Invoices that still have an amount to collect
+const OPEN_STATUSES = ['posted', 'partially_paid', 'overdue'];
+
+const DEFAULT_LEVELS = [
+  {
+    name: 'Upcoming due date',
+    days_offset: -3,
+    subject_en: 'Invoice {{invoiceNumber}} is due on {{dueDate}}',
+    subject_ar: 'الفاتورة {{invoiceNumber}} مستحقة في {{dueDate}}',
+    message_en:
+      'This is a friendly reminder that invoice {{invoiceNumber}} for {{amount}} {{currency}} falls due on {{dueDate}}.',
+    message_ar:
+      'نود تذكيركم بأن الفاتورة {{invoiceNumber}} بمبلغ {{amount}} {{currency}} تستحق في {{dueDate}}.',
+  },
+  {
+    name: 'First reminder',
+    days_offset: 7,
+    subject_en: 'Invoice {{invoiceNumber}} is overdue',
+    subject_ar: 'الفاتورة {{invoiceNumber}} متأخرة السداد',
+    message_en:
+      'Our records show that invoice {{invoiceNumber}} for {{amount}} {{currency}} was due on {{dueDate}} and is now {{daysOverdue}} days overdue. Please arrange payment at your earliest convenience.',
+    message_ar:
+      'تشير سجلاتنا إلى أن الفاتورة {{invoiceNumber}} بمبلغ {{amount}} {{currency}} كانت مستحقة في {{dueDate}} وقد تأخر سدادها {{daysOverdue}} يوماً. يرجى ترتيب الدفع في أقرب وقت ممكن.',
+  },
+  {
+    name: 'Final reminder',
+    days_offset: 30,
+    subject_en:
+      'Final reminder: invoice {{invoiceNumber}} is {{daysOverdue}} days overdue',
+    subject_ar:
+      'تذكير أخير: الفاتورة {{invoiceNumber}} متأخرة {{daysOverdue}} يوماً',
+    message_en:
+      'Invoice {{invoiceNumber}} for {{amount}} {{currency}} remains unpaid {{daysOverdue}} days after its due date of {{dueDate}}. Please settle it immediately or contact us to discuss.',
+    message_ar:
+      'لا تزال الفاتورة {{invoiceNumber}} بمبلغ {{amount}} {{currency}} غير مسددة بعد {{daysOverdue}} يوماً من تاريخ استحقاقها في {{dueDate}}. يرجى السداد فوراً أو التواصل معنا.',
+  },
+];
+
+@Injectable()
+export class DunningService {
+  private readonly logger = new Logger(DunningService.name);
+
+  constructor(
+    private supabaseService: SupabaseService,
+    private emailService: EmailService,
+    private pdfService: PdfService,
+  ) {}
+
+  async findLevels(tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('dunning_levels')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .order('days_offset', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  async createLevel(
+    createDto: CreateDunningLevelDto,
+    tenantId: string,
+    userId: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    await this.assertOffsetFree(createDto.daysOffset, tenantId);
+
+    const { data, error } = await supabase
+      .from('dunning_levels')
+      .insert({
+        tenant_id: tenantId,
+        name: createDto.name,
+        days_offset: createDto.daysOffset,
+        subject_en: createDto.subjectEn,
+        subject_ar: createDto.subjectAr,
+        message_en: createDto.messageEn,
+        message_ar: createDto.messageAr,
+        attach_pdf: createDto.attachPdf ?? true,
+        is_active: createDto.isActive ?? true,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Adds the standard levels - 3 days before the due date, 7 and 30 days
+   * overdue - to a tenant that has none yet
+   */
+  async createDefaultLevels(tenantId: string, userId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const existing = await this.findLevels(tenantId);
+    if (existing.length > 0) {
+      throw new BadRequestException('Dunning levels are already configured');
+    }
+
+    const { data, error } = await supabase
+      .from('dunning_levels')
+      .insert(
+        DEFAULT_LEVELS.map((level) => ({
+          ...level,
+          tenant_id: tenantId,
+          created_by: userId,
+        })),
+      )
+      .select();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  async updateLevel(
+    id: string,
+    updateDto: UpdateDunningLevelDto,
+    tenantId: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const existing = await this.findLevel(id, tenantId);
+
+    if (
+      updateDto.daysOffset !== undefined &&
+      updateDto.daysOffset !== existing.days_offset
+    ) {
+      await this.assertOffsetFree(updateDto.daysOffset, tenantId);
+    }
+
+    const updateData: any = {};
+    if (updateDto.name !== undefined) updateData.name = updateDto.name;
+    if (updateDto.daysOffset !== undefined)
+      updateData.days_offset = updateDto.daysOffset;
+    if (updateDto.subjectEn !== undefined)
+      updateData.subject_en = updateDto.subjectEn;
+    if (updateDto.subjectAr !== undefined)
+      updateData.subject_ar = updateDto.subjectAr;
+    if (updateDto.messageEn !== undefined)
+      updateData.message_en = updateDto.messageEn;
+    if (updateDto.messageAr !== undefined)
+      updateData.message_ar = updateDto.messageAr;
+    if (updateDto.attachPdf !== undefined)
+      updateData.attach_pdf = updateDto.attachPdf;
+    if (updateDto.isActive !== undefined)
+      updateData.is_active = updateDto.isActive;
+
+    const { data, error } = await supabase
+      .from('dunning_levels')
+      .update(updateData)
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  async removeLevel(id: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    await this.findLevel(id, tenantId);
+
+    const { error } = await supabase
+      .from('dunning_levels')
+      .delete()
+      .eq('id', id)
+      .eq('tenant_id', tenantId);
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Reminders sent, or attempted, for an invoice
+   */
+  async getInvoiceReminders(invoiceId: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('invoice_reminders')
+      .select('*, dunning_levels(id, name, days_offset)')
+      .eq('invoice_id', invoiceId)
+      .eq('tenant_id', tenantId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Send the reminders that are due on the given date, for the given tenant
+   * or every tenant.
+   * Called daily by the dunning queue.
+   *
+   * Each open sales invoice gets the highest level its due date has reached,
+   * once. Lower levels it skipped over (e.g. while dunning was off) are not
+   * sent afterwards, and a reminder before the due date is never sent once
+   * the invoice is overdue.
+   */
+  async sendDue(asOfDate: Date = new Date(), tenantId?: string) {
+    const supabase = this.supabaseService.getServiceRoleClient();
+    const asOf = toDateString(asOfDate);
+
+    let query = supabase
+      .from('dunning_levels')
+      .select('*')
+      .eq('is_active', true);
+
+    if (tenantId) {
+      query = query.eq('tenant_id', tenantId);
+    }
+
+    const { data: levels, error } = await query.order('days_offset', {
+      ascending: false,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    const levelsByTenant = new Map<string, any[]>();
+    for (const level of levels || []) {
+      const tenantLevels = levelsByTenant.get(level.tenant_id) || [];
+      tenantLevels.push(level);
+      levelsByTenant.set(level.tenant_id, tenantLevels);
+    }
+
+    let remindersSent = 0;
+    let failures = 0;
+
+    for (const [levelsTenantId, tenantLevels] of levelsByTenant) {
+      // One tenant's failure (e.g. its invoices could not be loaded) must not
+      // stop the others
+      try {
+        const result = await this.sendDueForTenant(
+          levelsTenantId,
+          tenantLevels,
+          asOf,
+        );
+        remindersSent += result.sent;
+        failures += result.failed;
+      } catch (error) {
+        this.logger.error(
+          `Payment reminders for tenant ${levelsTenantId} failed: ${error.message}`,
+        );
+        failures++;
+      }
+    }
+
+    return {
+      tenantsProcessed: levelsByTenant.size,
+      remindersSent,
+      failures,
+    };
+  }
+
+  private async sendDueForTenant(
+    tenantId: string,
+    levels: any[],
+    asOf: string,
+  ) {
+    const supabase = this.supabaseService.getServiceRoleClient();
+
+    // Levels are sorted from the latest to the earliest offset
+    const earliestOffset = levels[levels.length - 1].days_offset;
+
+    const { data: invoices, error } = await supabase
+      .from('invoices')
+      .select(
+        'id, invoice_number, party_id, due_date, currency, total_amount, balance_amount',
+      )
+      .eq('tenant_id', tenantId)
+      .eq('invoice_type', 'sales')
+      .in('status', OPEN_STATUSES)
+      .gt('balance_amount', 0)
+      .lte('due_date', addDays(asOf, -earliestOffset));
+
+    if (error) {
+      throw error;
+    }
+
+    if (!invoices || invoices.length === 0) {
+      return { sent: 0, failed: 0 };
+    }
+
+    const customerIds = [...new Set(invoices.map((i) => i.party_id))];
+    const { data: customers, error: customersError } = await supabase
+      .from('customers')
+      .select(
+        'id, name_en, name_ar, email, preferred_language, exclude_from_dunning',
+      )
+      .eq('tenant_id', tenantId)
+      .in('id', customerIds);
+
+    if (customersError) {
+      throw customersError;
+    }
+
+    const { data: reminders, error: remindersError } = await supabase
+      .from('invoice_reminders')
+      .select('invoice_id, days_offset')
+      .eq('tenant_id', tenantId)
+      .eq('status', 'sent')
+      .in(
+        'invoice_id',
+        invoices.map((i) => i.id),
+      );
+
+    if (remindersError) {
+      throw remindersError;
+    }
+
+    const customersById = new Map<string, any>(
+      (customers || []).map((c) => [c.id, c]),
+    );
+    const latestSent = new Map<string, number>();
+    for (const reminder of reminders || []) {
+      latestSent.set(
+        reminder.invoice_id,
+        Math.max(
+          latestSent.get(reminder.invoice_id) ?? -Infinity,
+          reminder.days_offset,
+        ),
+      );
+    }
+
+    let sent = 0;
+    let failed = 0;
+
+    for (const invoice of invoices) {
+      const customer = customersById.get(invoice.party_id);
+      if (!customer || customer.exclude_from_dunning) {
+        continue;
+      }
+
+      const daysOverdue = daysBetween(invoice.due_date, asOf);
+      const level = levels.find((l) => l.days_offset <= daysOverdue);
+
+      if (
+        !level ||
+        (level.days_offset < 0 && daysOverdue >= 0) ||
+        (latestSent.get(invoice.id) ?? -Infinity) >= level.days_offset
+      ) {
+        continue;
+      }
+
+      const success = await this.sendReminder(
+        tenantId,
+        invoice,
+        customer,
+        level,
+        daysOverdue,
+      );
+      if (success) {
+        sent++;
+      } else {
+        failed++;
+      }
+    }
+
+    return { sent, failed };
+  }
+
+  private async sendReminder(
+    tenantId: string,
+    invoice: any,
+    customer: any,
+    level: any,
+    daysOverdue: number,
+  ): Promise<boolean> {
+    const language: 'ar' | 'en' =
+      customer.preferred_language === 'ar' ? 'ar' : 'en';
+    const values: Record<string, string> = {
+      customerName: language === 'ar' ? customer.name_ar : customer.name_en,
+      invoiceNumber: invoice.invoice_number,
+      amount: Number(invoice.balance_amount).toFixed(2),
+      currency: invoice.currency,
+      dueDate: invoice.due_date,
+      daysOverdue: String(Math.max(daysOverdue, 0)),
+    };
+
+    let result: { success: boolean; error?: string };
+
+    if (!customer.email) {
+      result = { success: false, error: 'Customer has no email address' };
+    } else {
+      try {
+        const attachments = level.attach_pdf
+          ? [
+              {
+                filename: `invoice-${invoice.invoice_number}.pdf`,
+                content: await this.pdfService.generateInvoicePdf(
+                  invoice.id,
+                  tenantId,
+                  { language },
+                ),
+              },
+            ]
+          : undefined;
+
+        result = await this.emailService.sendPaymentReminderEmail(
+          [invoice],
+          customer.email,
+          tenantId,
+          language,
+          {
+            subject: this.fillPlaceholders(
+              level[`subject_${language}`],
+              values,
+            ),
+            message: this.fillPlaceholders(
+              level[`message_${language}`],
+              values,
+            ),
+            customerName: values.customerName,
+            attachments,
+          },
+        );
+      } catch (error) {
+        result = { success: false, error: error.message };
+      }
+    }
+
+    if (!result.success) {
+      this.logger.warn(
+        `Reminder "${level.name}" for invoice ${invoice.invoice_number} failed: ${result.error}`,
+      );
+    }
+
+    const supabase = this.supabaseService.getServiceRoleClient();
+    const { error } = await supabase.from('invoice_reminders').upsert(
+      {
+        tenant_id: tenantId,
+        invoice_id: invoice.id,
+        dunning_level_id: level.id,
+        customer_id: customer.id,
+        days_offset: level.days_offset,
+        sent_to: customer.email,
+        language,
+        balance_amount: invoice.balance_amount,
+        status: result.success ? 'sent' : 'failed',
+        error_message: result.success ? null : result.error,
+        sent_at: result.success ? new Date().toISOString() : null,
+      },
+      { onConflict: 'invoice_id,dunning_level_id' },
+    );
+
+    if (error) {
+      throw error;
+    }
+
+    return result.success;
+  }
+
+  private async findLevel(id: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('dunning_levels')
+      .select('*')
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (error || !data) {
+      throw new NotFoundException('Dunning level not found');
+    }
+
+    return data;
+  }
+
+  private async assertOffsetFree(daysOffset: number, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: existing } = await supabase
+      .from('dunning_levels')
+      .select('id')
+      .eq('tenant_id', tenantId)
+      .eq('days_offset', daysOffset)
+      .maybeSingle();
+
+    if (existing) {
+      throw new BadRequestException(
+        `A dunning level already exists for ${daysOffset} days`,
+      );
+    }
+  }
+
+  // Replaces {{name}} placeholders; unknown placeholders are left as written
+  private fillPlaceholders(text: string, values: Record<string, string>) {
+    return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key: string) =>
+      values[key] !== undefined ? values[key] : placeholder,
+    );
+  }
+}
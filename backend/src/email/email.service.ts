@@ -137,8 +137,9 @@ export class EmailService {
     data: Record<string, any>,
   ): Promise<{ html: string; text: string }> {
     const language = data.language || 'en';
-    const htmlTemplateName = `${templateName}-${language}.hbs`;
-    const textTemplateName = `${templateName}-${language}-text.hbs`;
+    // Templates are keyed by file name without the .hbs extension
+    const htmlTemplateName = `${templateName}-${language}`;
+    const textTemplateName = `${templateName}-${language}-text`;
 
     const htmlTemplate = this.templates.get(htmlTemplateName);
     const textTemplate = this.templates.get(textTemplateName);
@@ -321,6 +322,82 @@ export class EmailService {
     });
   }
 
+  async sendQuotationEmail(
+    quotationId: string,
+    recipientEmail: string,
+    tenantId: string,
+    quotationData: any,
+    language: 'ar' | 'en' = 'en',
+    attachment?: Buffer,
+  ): Promise<EmailResult> {
+    const quotationUrl = `${this.configService.frontendUrl}/${language}/sales/quotations/${quotationId}`;
+
+    return this.sendEmail({
+      to: recipientEmail,
+      subject:
+        language === 'ar'
+          ? `عرض سعر #${quotationData.quotationNumber}`
+          : `Quotation #${quotationData.quotationNumber}`,
+      template: 'quotation',
+      data: {
+        quotationId,
+        quotationNumber: quotationData.quotationNumber,
+        quotationUrl,
+        amount: quotationData.totalAmount,
+        validUntil: quotationData.validUntil,
+        tenantId,
+        language,
+        appName: this.configService.appName,
+        ...quotationData,
+      },
+      language,
+      attachments: attachment
+        ? [
+            {
+              filename: `quotation-${quotationData.quotationNumber}.pdf`,
+              content: attachment,
+            },
+          ]
+        : undefined,
+    });
+  }
+
+  async sendPurchaseOrderEmail(
+    purchaseOrderId: string,
+    recipientEmail: string,
+    tenantId: string,
+    purchaseOrderData: any,
+    language: 'ar' | 'en' = 'en',
+    attachment?: Buffer,
+  ): Promise<EmailResult> {
+    return this.sendEmail({
+      to: recipientEmail,
+      subject:
+        language === 'ar'
+          ? `أمر شراء #${purchaseOrderData.poNumber}`
+          : `Purchase Order #${purchaseOrderData.poNumber}`,
+      template: 'purchase-order',
+      data: {
+        purchaseOrderId,
+        poNumber: purchaseOrderData.poNumber,
+        amount: purchaseOrderData.totalAmount,
+        tenantId,
+        language,
+        appName: this.configService.appName,
+        ...purchaseOrderData,
+      },
+      language,
+      attachments: attachment
+        ? [
+            {
+              filename: `purchase-order-${purchaseOrderData.poNumber}.pdf`,
+              content: attachment,
+            },
+          ]
+        : undefined,
+    });
+  }
+
   async sendPaymentReceiptEmail(
     paymentId: string,
     recipientEmail: string,
@@ -367,10 +444,18 @@ export class EmailService {
     recipientEmail: string,
     tenantId: string,
     language: 'ar' | 'en' = 'en',
+    options: {
+      subject?: string;
+      message?: string;
+      customerName?: string;
+      attachments?: Array<{ filename: string; content: Buffer }>;
+    } = {},
   ): Promise<EmailResult> {
+    // Reminders show what is still outstanding on each invoice
+    const outstanding = (inv: any) => inv.balance_amount ?? inv.total_amount;
     const invoicesList = invoices.map((inv) => ({
       invoiceNumber: inv.invoice_number,
-      amount: inv.total_amount,
+      amount: outstanding(inv),
       dueDate: inv.due_date,
       invoiceUrl: `${this.configService.frontendUrl}/${language}/accounting/invoices/${inv.id}`,
     }));
@@ -378,21 +463,25 @@ export class EmailService {
     return this.sendEmail({
       to: recipientEmail,
       subject:
-        language === 'ar'
+        options.subject ||
+        (language === 'ar'
           ? 'تذكير بالفواتير المستحقة'
-          : 'Payment Reminder - Overdue Invoices',
+          : 'Payment Reminder - Overdue Invoices'),
       template: 'payment-reminder',
       data: {
         invoices: invoicesList,
         totalAmount: invoices.reduce(
-          (sum, inv) => sum + parseFloat(inv.total_amount),
+          (sum, inv) => sum + parseFloat(outstanding(inv)),
           0,
         ),
+        message: options.message,
+        customerName: options.customerName,
         tenantId,
         language,
         appName: this.configService.appName,
       },
       language,
+      attachments: options.attachments,
     });
   }
 
@@ -0,0 +1,8 @@
+import { OmitType } from '@nestjs/mapped-types';
+import { CreateExpenseDto } from './create-expense.dto';
+
+// A claim is always the current user's and has no vendor
+export class CreateClaimDto extends OmitType(CreateExpenseDto, [
+  'employeeId',
+  'vendorId',
+] as const) {}
@@ -2,29 +2,19 @@ import {
   IsString,
   IsNotEmpty,
   IsOptional,
-  IsEnum,
   IsNumber,
   Min,
   IsUUID,
   IsDate,
+  IsArray,
+  ArrayNotEmpty,
+  ValidateNested,
   MaxLength,
 } from 'class-validator';
 import { Type } from 'class-transformer';
+import { ExpenseLineDto } from './expense-line.dto';
 
 export class CreateExpenseDto {
-  @IsUUID()
-  @IsNotEmpty()
-  tenantId: string;
-
-  @IsUUID()
-  @IsOptional()
-  branchId?: string;
-
-  @IsString()
-  @IsOptional()
-  @MaxLength(50)
-  expenseNumber?: string;
-
   @IsString()
   @IsNotEmpty()
   titleAr: string;
@@ -61,34 +51,13 @@ export class CreateExpenseDto {
   @Min(0)
   exchangeRate?: number;
 
-  @IsNumber()
-  @IsNotEmpty()
-  @Min(0)
-  totalAmount: number;
-
-  @IsNumber()
-  @IsOptional()
-  @Min(0)
-  taxAmount?: number;
-
-  @IsNumber()
-  @IsOptional()
-  @Min(0)
-  paidAmount?: number;
-
-  @IsEnum(['pending', 'approved', 'rejected', 'cancelled'])
-  @IsOptional()
-  approvalStatus?: 'pending' | 'approved' | 'rejected' | 'cancelled';
-
-  @IsString()
-  @IsOptional()
-  rejectionReason?: string;
-
   @IsString()
   @IsOptional()
   notes?: string;
 
-  @IsEnum(['draft', 'submitted', 'posted', 'paid'])
-  @IsOptional()
-  status?: 'draft' | 'submitted' | 'posted' | 'paid';
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => ExpenseLineDto)
+  lines: ExpenseLineDto[];
 }
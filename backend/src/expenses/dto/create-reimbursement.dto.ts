@@ -0,0 +1,47 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsNumber,
+  Min,
+  IsUUID,
+  IsDate,
+  IsArray,
+  ArrayNotEmpty,
+  ArrayUnique,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PeriodOverrideDto } from '../../fiscal-periods/dto/period-override.dto';
+
+export class CreateReimbursementDto extends PeriodOverrideDto {
+  @IsDate()
+  @IsNotEmpty()
+  @Type(() => Date)
+  paymentDate: Date;
+
+  // Cash or bank account in the chart of accounts the claims are paid from
+  @IsUUID()
+  bankAccountId: string;
+
+  // Posted expense claims to pay, all in the same currency
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  expenseIds: string[];
+
+  @IsNumber()
+  @IsOptional()
+  @Min(0)
+  exchangeRate?: number;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  reference?: string;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+}
@@ -0,0 +1,38 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsNumber,
+  Min,
+  IsUUID,
+} from 'class-validator';
+
+export class ExpenseLineDto {
+  @IsString()
+  @IsNotEmpty()
+  descriptionAr: string;
+
+  @IsString()
+  @IsOptional()
+  descriptionEn?: string;
+
+  // Expense account debited with the amount
+  @IsUUID()
+  @IsNotEmpty()
+  accountId: string;
+
+  // Amount before VAT
+  @IsNumber()
+  @IsNotEmpty()
+  @Min(0.01)
+  amount: number;
+
+  // Input VAT code; its rate gives the line's VAT
+  @IsUUID()
+  @IsOptional()
+  taxCodeId?: string;
+
+  @IsUUID()
+  @IsOptional()
+  costCenterId?: string;
+}
@@ -0,0 +1,5 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateClaimDto } from './create-claim.dto';
+
+// Lines, when given, replace all existing lines
+export class UpdateClaimDto extends PartialType(CreateClaimDto) {}
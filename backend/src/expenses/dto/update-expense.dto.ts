@@ -1,95 +1,5 @@
-import {
-  IsString,
-  IsOptional,
-  IsEnum,
-  IsNumber,
-  Min,
-  IsUUID,
-  IsDate,
-  MaxLength,
-} from 'class-validator';
-import { Type } from 'class-transformer';
 import { PartialType } from '@nestjs/mapped-types';
 import { CreateExpenseDto } from './create-expense.dto';
 
-export class UpdateExpenseDto extends PartialType(CreateExpenseDto) {
-  @IsUUID()
-  @IsOptional()
-  tenantId?: string;
-
-  @IsUUID()
-  @IsOptional()
-  branchId?: string;
-
-  @IsString()
-  @IsOptional()
-  @MaxLength(50)
-  expenseNumber?: string;
-
-  @IsString()
-  @IsOptional()
-  titleAr?: string;
-
-  @IsString()
-  @IsOptional()
-  titleEn?: string;
-
-  @IsDate()
-  @IsOptional()
-  @Type(() => Date)
-  expenseDate?: Date;
-
-  @IsUUID()
-  @IsOptional()
-  employeeId?: string;
-
-  @IsUUID()
-  @IsOptional()
-  vendorId?: string;
-
-  @IsString()
-  @IsOptional()
-  @MaxLength(100)
-  category?: string;
-
-  @IsString()
-  @IsOptional()
-  @MaxLength(3)
-  currency?: string;
-
-  @IsNumber()
-  @IsOptional()
-  @Min(0)
-  exchangeRate?: number;
-
-  @IsNumber()
-  @IsOptional()
-  @Min(0)
-  totalAmount?: number;
-
-  @IsNumber()
-  @IsOptional()
-  @Min(0)
-  taxAmount?: number;
-
-  @IsNumber()
-  @IsOptional()
-  @Min(0)
-  paidAmount?: number;
-
-  @IsEnum(['pending', 'approved', 'rejected', 'cancelled'])
-  @IsOptional()
-  approvalStatus?: 'pending' | 'approved' | 'rejected' | 'cancelled';
-
-  @IsString()
-  @IsOptional()
-  rejectionReason?: string;
-
-  @IsString()
-  @IsOptional()
-  notes?: string;
-
-  @IsEnum(['draft', 'submitted', 'posted', 'paid'])
-  @IsOptional()
-  status?: 'draft' | 'submitted' | 'posted' | 'paid';
-}
+// Lines, when given, replace all existing lines
+export class UpdateExpenseDto extends PartialType(CreateExpenseDto) {}
@@ -0,0 +1,10 @@
+import { IsNumber, IsOptional, Min } from 'class-validator';
+
+export class UpdateReceiptPolicyDto {
+  // Expenses whose total in the base currency is above this amount need a
+  // receipt attached before they are posted; null to not require receipts
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  requireReceiptAbove?: number | null;
+}
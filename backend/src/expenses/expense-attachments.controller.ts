@@ -0,0 +1,105 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  UploadedFiles,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiConsumes,
+} from '@nestjs/swagger';
+import { FilesInterceptor } from '@nestjs/platform-express';
+import {
+  ExpenseAttachmentsService,
+  MAX_RECEIPT_SIZE,
+  MAX_RECEIPTS_PER_UPLOAD,
+} from './expense-attachments.service';
+import { TenantContextGuard } from '../common/guards/tenant-context.guard';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import { TenantContext } from '../common/decorators/tenant-context.decorator';
+
+@ApiTags('expenses')
+@Controller('expenses/:id/attachments')
+@ApiBearerAuth()
+@UseGuards(TenantContextGuard, PermissionsGuard)
+export class ExpenseAttachmentsController {
+  constructor(private expenseAttachmentsService: ExpenseAttachmentsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get the receipts attached to an expense' })
+  @RequirePermissions({ module: 'expenses', action: 'view' })
+  findAll(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.expenseAttachmentsService.findAll(id, tenantId);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Upload receipts to an expense' })
+  @ApiConsumes('multipart/form-data')
+  @RequirePermissions({ module: 'expenses', action: 'edit' })
+  @UseInterceptors(
+    FilesInterceptor('files', MAX_RECEIPTS_PER_UPLOAD, {
+      limits: { fileSize: MAX_RECEIPT_SIZE },
+    }),
+  )
+  upload(
+    @Param('id') id: string,
+    @UploadedFiles() files: any[],
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId?: string,
+  ) {
+    return this.expenseAttachmentsService.upload(id, files, tenantId, userId);
+  }
+
+  @Get(':attachmentId/download')
+  @ApiOperation({ summary: 'Get a signed URL to download a receipt' })
+  @RequirePermissions({ module: 'expenses', action: 'view' })
+  download(
+    @Param('id') id: string,
+    @Param('attachmentId') attachmentId: string,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.expenseAttachmentsService.getSignedUrl(
+      id,
+      attachmentId,
+      tenantId,
+      'download',
+    );
+  }
+
+  @Get(':attachmentId/preview')
+  @ApiOperation({ summary: 'Get a signed URL to view a receipt inline' })
+  @RequirePermissions({ module: 'expenses', action: 'view' })
+  preview(
+    @Param('id') id: string,
+    @Param('attachmentId') attachmentId: string,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.expenseAttachmentsService.getSignedUrl(
+      id,
+      attachmentId,
+      tenantId,
+      'preview',
+    );
+  }
+
+  @Delete(':attachmentId')
+  @ApiOperation({ summary: 'Delete a receipt from an expense' })
+  @RequirePermissions({ module: 'expenses', action: 'edit' })
+  remove(
+    @Param('id') id: string,
+    @Param('attachmentId') attachmentId: string,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.expenseAttachmentsService.remove(id, attachmentId, tenantId);
+  }
+}
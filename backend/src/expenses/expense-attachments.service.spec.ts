@@ -0,0 +1,266 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ExpenseAttachmentsService } from './expense-attachments.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { AuditService } from '../audit/audit.service';
+import { queryResult } from '../../test/utils/query-result';
+
+describe('ExpenseAttachmentsService', () => {
+  let service: ExpenseAttachmentsService;
+  let tables: Record<string, any[]>;
+  let bucket: {
+    upload: jest.Mock;
+    remove: jest.Mock;
+    createSignedUrl: jest.Mock;
+  };
+  let mockSupabaseClient: any;
+
+  const mockTenantId = 'test-tenant-id';
+  const mockUserId = 'test-user-id';
+
+  const receipt = (overrides: any = {}) => ({
+    originalname: 'taxi.pdf',
+    mimetype: 'application/pdf',
+    size: 2048,
+    buffer: Buffer.from('receipt'),
+    ...overrides,
+  });
+
+  const draftExpense = () =>
+    queryResult({ data: { id: 'expense-1', status: 'draft' }, error: null });
+
+  beforeEach(async () => {
+    tables = {};
+    bucket = {
+      upload: jest.fn().mockResolvedValue({ data: {}, error: null }),
+      remove: jest.fn().mockResolvedValue({ data: [], error: null }),
+      createSignedUrl: jest.fn().mockResolvedValue({
+        data: { signedUrl: 'https://storage.example/signed' },
+        error: null,
+      }),
+    };
+    mockSupabaseClient = {
+      from: jest.fn((table: string) => tables[table].shift()),
+      storage: { from: jest.fn().mockReturnValue(bucket) },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExpenseAttachmentsService,
+        {
+          provide: SupabaseService,
+          useValue: {
+            getClient: jest.fn().mockReturnValue(mockSupabaseClient),
+          },
+        },
+        {
+          provide: AuditService,
+          useValue: { logAction: jest.fn().mockResolvedValue(undefined) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ExpenseAttachmentsService>(ExpenseAttachmentsService);
+  });
+
+  describe('upload', () => {
+    it('should store each file under the tenant and expense and record it', async () => {
+      const insert = queryResult({ data: [{}, {}], error: null });
+      tables.expenses = [draftExpense()];
+      tables.expense_attachments = [insert];
+
+      await service.upload(
+        'expense-1',
+        [
+          receipt(),
+          receipt({ originalname: 'Hotel.JPG', mimetype: 'image/jpeg' }),
+        ],
+        mockTenantId,
+        mockUserId,
+      );
+
+      expect(mockSupabaseClient.storage.from).toHaveBeenCalledWith(
+        'expense-receipts',
+      );
+      expect(bucket.upload).toHaveBeenCalledTimes(2);
+      const [firstPath] = bucket.upload.mock.calls[0];
+      const [secondPath] = bucket.upload.mock.calls[1];
+      expect(firstPath).toMatch(/^test-tenant-id\/expense-1\/[0-9a-f-]+\.pdf$/);
+      expect(secondPath).toMatch(
+        /^test-tenant-id\/expense-1\/[0-9a-f-]+\.jpg$/,
+      );
+      expect(insert.insert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          expense_id: 'expense-1',
+          tenant_id: mockTenantId,
+          file_name: 'taxi.pdf',
+          file_path: firstPath,
+          file_size: 2048,
+          file_type: 'application/pdf',
+          uploaded_by: mockUserId,
+        }),
+        expect.objectContaining({
+          file_name: 'Hotel.JPG',
+          file_path: secondPath,
+        }),
+      ]);
+    });
+
+    it('should reject the upload before storing anything when a file type is not allowed', async () => {
+      tables.expenses = [draftExpense()];
+
+      await expect(
+        service.upload(
+          'expense-1',
+          [
+            receipt(),
+            receipt({
+              originalname: 'notes.exe',
+              mimetype: 'application/x-msdownload',
+            }),
+          ],
+          mockTenantId,
+        ),
+      ).rejects.toThrow('Invalid file type for notes.exe');
+      expect(bucket.upload).not.toHaveBeenCalled();
+    });
+
+    it('should reject files over the size limit', async () => {
+      tables.expenses = [draftExpense()];
+
+      await expect(
+        service.upload(
+          'expense-1',
+          [receipt({ size: 11 * 1024 * 1024 })],
+          mockTenantId,
+        ),
+      ).rejects.toThrow('taxi.pdf exceeds the 10MB limit');
+    });
+
+    it('should remove the files already stored when an upload fails', async () => {
+      tables.expenses = [draftExpense()];
+      bucket.upload
+        .mockResolvedValueOnce({ data: {}, error: null })
+        .mockResolvedValueOnce({ data: null, error: { message: 'timeout' } });
+
+      await expect(
+        service.upload(
+          'expense-1',
+          [
+            receipt(),
+            receipt({ originalname: 'hotel.png', mimetype: 'image/png' }),
+          ],
+          mockTenantId,
+        ),
+      ).rejects.toThrow('Failed to upload hotel.png');
+      expect(bucket.remove).toHaveBeenCalledWith([
+        bucket.upload.mock.calls[0][0],
+      ]);
+    });
+  });
+
+  describe('getSignedUrl', () => {
+    it('should sign a download with the original file name', async () => {
+      tables.expense_attachments = [
+        queryResult({
+          data: {
+            id: 'attachment-1',
+            file_name: 'taxi.pdf',
+            file_path: 'test-tenant-id/expense-1/a.pdf',
+          },
+          error: null,
+        }),
+      ];
+
+      const result = await service.getSignedUrl(
+        'expense-1',
+        'attachment-1',
+        mockTenantId,
+        'download',
+      );
+
+      expect(bucket.createSignedUrl).toHaveBeenCalledWith(
+        'test-tenant-id/expense-1/a.pdf',
+        3600,
+        { download: 'taxi.pdf' },
+      );
+      expect(result.url).toBe('https://storage.example/signed');
+    });
+
+    it('should not find an attachment of another expense', async () => {
+      tables.expense_attachments = [queryResult({ data: null, error: null })];
+
+      await expect(
+        service.getSignedUrl(
+          'expense-2',
+          'attachment-1',
+          mockTenantId,
+          'preview',
+        ),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('remove', () => {
+    it('should not delete receipts of a posted expense', async () => {
+      tables.expenses = [
+        queryResult({
+          data: { id: 'expense-1', status: 'posted' },
+          error: null,
+        }),
+      ];
+
+      await expect(
+        service.remove('expense-1', 'attachment-1', mockTenantId),
+      ).rejects.toThrow('Receipts of a posted expense cannot be deleted');
+      expect(bucket.remove).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assertReceiptPolicy', () => {
+    const expense = {
+      id: 'expense-1',
+      total_amount: 200,
+      exchange_rate: 3.64,
+    };
+
+    it('should require a receipt above the threshold in the base currency', async () => {
+      tables.settings = [
+        queryResult({
+          data: { value: { require_receipt_above: 500 } },
+          error: null,
+        }),
+      ];
+      tables.expense_attachments = [queryResult({ count: 0, error: null })];
+
+      await expect(
+        service.assertReceiptPolicy(expense, mockTenantId),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should allow posting with a receipt attached', async () => {
+      tables.settings = [
+        queryResult({
+          data: { value: { require_receipt_above: 500 } },
+          error: null,
+        }),
+      ];
+      tables.expense_attachments = [queryResult({ count: 1, error: null })];
+
+      await expect(
+        service.assertReceiptPolicy(expense, mockTenantId),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should not require receipts when the tenant has no policy', async () => {
+      tables.settings = [queryResult({ data: null, error: null })];
+
+      await expect(
+        service.assertReceiptPolicy(expense, mockTenantId),
+      ).resolves.toBeUndefined();
+      expect(mockSupabaseClient.from).not.toHaveBeenCalledWith(
+        'expense_attachments',
+      );
+    });
+  });
+});
@@ -0,0 +1,372 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { SupabaseService } from '../supabase/supabase.service';
+import { AuditService } from '../audit/audit.service';
+import { UpdateReceiptPolicyDto } from './dto/update-receipt-policy.dto';
+
+// Private bucket; objects are stored as <tenant_id>/<expense_id>/<file>
+const RECEIPTS_BUCKET = 'expense-receipts';
+
+// Settings key holding the tenant's receipt policy
+const SETTINGS_KEY = 'expense_receipts';
+
+export const RECEIPT_MIME_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/heic',
+];
+export const MAX_RECEIPT_SIZE = 10 * 1024 * 1024; // 10MB
+export const MAX_RECEIPTS_PER_UPLOAD = 10;
+
+// Seconds a download or preview URL stays valid
+const SIGNED_URL_EXPIRY = 60 * 60;
+
+export interface ReceiptPolicy {
+  // Total in the base currency above which posting needs a receipt
+  require_receipt_above: number | null;
+}
+
+/**
+ * Receipts attached to expenses
+ *
+ * Files are kept in a private storage bucket under the tenant's folder and
+ * only served through signed URLs, either as a download or inline for a
+ * preview. Receipts of a posted expense are part of its audit trail and
+ * cannot be deleted. A tenant can require a receipt to post an expense
+ * above an amount.
+ */
+@Injectable()
+export class ExpenseAttachmentsService {
+  constructor(
+    private supabaseService: SupabaseService,
+    private auditService: AuditService,
+  ) {}
+
+  async findAll(expenseId: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+    await this.findExpense(expenseId, tenantId);
+
+    const { data, error } = await supabase
+      .from('expense_attachments')
+      .select('*')
+      .eq('expense_id', expenseId)
+      .eq('tenant_id', tenantId)
+      .order('uploaded_at', { ascending: true });
+
+    if (error) throw error;
+
+    return data || [];
+  }
+
+  /**
+   * Store the uploaded files and attach them to the expense. Every file is
+   * checked before any is stored, and the stored files are removed again if
+   * the upload fails part way. With claimantId, the expense must be that
+   * user's own claim.
+   */
+  async upload(
+    expenseId: string,
+    files: any[],
+    tenantId: string,
+    userId?: string,
+    claimantId?: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+    const expense = await this.findExpense(expenseId, tenantId);
+
+    if (
+      claimantId &&
+      (!expense.is_claim || expense.employee_id !== claimantId)
+    ) {
+      throw new NotFoundException('Expense claim not found');
+    }
+
+    if (!files || files.length === 0) {
+      throw new BadRequestException('No files were uploaded');
+    }
+
+    if (files.length > MAX_RECEIPTS_PER_UPLOAD) {
+      throw new BadRequestException(
+        `At most ${MAX_RECEIPTS_PER_UPLOAD} files can be uploaded at once`,
+      );
+    }
+
+    for (const file of files) {
+      if (!RECEIPT_MIME_TYPES.includes(file.mimetype)) {
+        throw new BadRequestException(
+          `Invalid file type for ${file.originalname}. Only PDF, JPEG, PNG, WebP and HEIC files are allowed.`,
+        );
+      }
+
+      if (file.size > MAX_RECEIPT_SIZE) {
+        throw new BadRequestException(
+          `${file.originalname} exceeds the 10MB limit`,
+        );
+      }
+    }
+
+    const stored: string[] = [];
+    const rows: any[] = [];
+
+    for (const file of files) {
+      const extension = (file.originalname.split('.').pop() || '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]/g, '');
+      const filePath = `${tenantId}/${expenseId}/${randomUUID()}${extension ? `.${extension}` : ''}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from(RECEIPTS_BUCKET)
+        .upload(filePath, file.buffer, { contentType: file.mimetype });
+
+      if (uploadError) {
+        await this.removeFiles(stored);
+        throw new BadRequestException(`Failed to upload ${file.originalname}`);
+      }
+
+      stored.push(filePath);
+      rows.push({
+        expense_id: expenseId,
+        tenant_id: tenantId,
+        file_name: file.originalname,
+        file_path: filePath,
+        file_size: file.size,
+        file_type: file.mimetype,
+        uploaded_by: userId,
+      });
+    }
+
+    const { data, error } = await supabase
+      .from('expense_attachments')
+      .insert(rows)
+      .select();
+
+    if (error) {
+      await this.removeFiles(stored);
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * A signed URL for an attachment, served as a download with its original
+   * file name or inline for a preview
+   */
+  async getSignedUrl(
+    expenseId: string,
+    attachmentId: string,
+    tenantId: string,
+    disposition: 'download' | 'preview',
+  ) {
+    const supabase = this.supabaseService.getClient();
+    const attachment = await this.findAttachment(
+      expenseId,
+      attachmentId,
+      tenantId,
+    );
+
+    const { data, error } = await supabase.storage
+      .from(RECEIPTS_BUCKET)
+      .createSignedUrl(
+        attachment.file_path,
+        SIGNED_URL_EXPIRY,
+        disposition === 'download'
+          ? { download: attachment.file_name }
+          : undefined,
+      );
+
+    if (error) {
+      throw new BadRequestException('Failed to create a link to the receipt');
+    }
+
+    return {
+      ...attachment,
+      url: data.signedUrl,
+      expires_in: SIGNED_URL_EXPIRY,
+    };
+  }
+
+  async remove(expenseId: string, attachmentId: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+    const expense = await this.findExpense(expenseId, tenantId);
+
+    if (['posted', 'paid'].includes(expense.status)) {
+      throw new BadRequestException(
+        'Receipts of a posted expense cannot be deleted',
+      );
+    }
+
+    const attachment = await this.findAttachment(
+      expenseId,
+      attachmentId,
+      tenantId,
+    );
+
+    const { error } = await supabase
+      .from('expense_attachments')
+      .delete()
+      .eq('id', attachmentId)
+      .eq('tenant_id', tenantId);
+
+    if (error) throw error;
+
+    await this.removeFiles([attachment.file_path]);
+
+    return { message: 'Attachment deleted successfully' };
+  }
+
+  async getPolicy(tenantId: string): Promise<ReceiptPolicy> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('settings')
+      .select('value')
+      .eq('tenant_id', tenantId)
+      .eq('key', SETTINGS_KEY)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const threshold = data?.value?.require_receipt_above;
+
+    return {
+      require_receipt_above:
+        threshold === null || threshold === undefined
+          ? null
+          : Number(threshold),
+    };
+  }
+
+  async updatePolicy(
+    tenantId: string,
+    updateDto: UpdateReceiptPolicyDto,
+    userId?: string,
+  ): Promise<ReceiptPolicy> {
+    const supabase = this.supabaseService.getClient();
+    const policy: ReceiptPolicy = {
+      require_receipt_above: updateDto.requireReceiptAbove ?? null,
+    };
+
+    const { error } = await supabase
+      .from('settings')
+      .upsert(
+        { tenant_id: tenantId, key: SETTINGS_KEY, value: policy },
+        { onConflict: 'tenant_id,key' },
+      );
+
+    if (error) throw error;
+
+    await this.auditService.logAction({
+      action: 'update',
+      entity: 'settings',
+      userId,
+      tenantId,
+      metadata: { key: SETTINGS_KEY, changes: policy },
+      timestamp: new Date(),
+      success: true,
+    });
+
+    return policy;
+  }
+
+  /**
+   * Throw when the tenant's policy requires a receipt for the expense being
+   * posted and none is attached
+   */
+  async assertReceiptPolicy(expense: any, tenantId: string) {
+    const { require_receipt_above: threshold } = await this.getPolicy(tenantId);
+
+    if (threshold === null) {
+      return;
+    }
+
+    const baseAmount = this.round(
+      Number(expense.total_amount) * Number(expense.exchange_rate || 1),
+    );
+
+    if (baseAmount <= threshold) {
+      return;
+    }
+
+    const supabase = this.supabaseService.getClient();
+
+    const { count, error } = await supabase
+      .from('expense_attachments')
+      .select('id', { count: 'exact', head: true })
+      .eq('expense_id', expense.id)
+      .eq('tenant_id', tenantId);
+
+    if (error) throw error;
+
+    if (!count) {
+      throw new BadRequestException(
+        `A receipt must be attached to post an expense over ${threshold.toFixed(2)}`,
+      );
+    }
+  }
+
+  private async findExpense(expenseId: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('expenses')
+      .select('id, status, is_claim, employee_id')
+      .eq('id', expenseId)
+      .eq('tenant_id', tenantId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!data) {
+      throw new NotFoundException('Expense not found');
+    }
+
+    return data;
+  }
+
+  private async findAttachment(
+    expenseId: string,
+    attachmentId: string,
+    tenantId: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('expense_attachments')
+      .select('*')
+      .eq('id', attachmentId)
+      .eq('expense_id', expenseId)
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!data) {
+      throw new NotFoundException('Attachment not found');
+    }
+
+    return data;
+  }
+
+  // Storage clean-up is best effort; an orphaned file is not referenced by
+  // any attachment and cannot be reached through the API
+  private async removeFiles(paths: string[]) {
+    if (paths.length === 0) {
+      return;
+    }
+
+    const supabase = this.supabaseService.getClient();
+    await supabase.storage.from(RECEIPTS_BUCKET).remove(paths);
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -0,0 +1,85 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { ExpenseReimbursementsService } from './expense-reimbursements.service';
+import { CreateReimbursementDto } from './dto/create-reimbursement.dto';
+import { TenantContextGuard } from '../common/guards/tenant-context.guard';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import { TenantContext } from '../common/decorators/tenant-context.decorator';
+
+@ApiTags('expenses')
+@Controller('expense-reimbursements')
+@ApiBearerAuth()
+@UseGuards(TenantContextGuard, PermissionsGuard)
+export class ExpenseReimbursementsController {
+  constructor(
+    private expenseReimbursementsService: ExpenseReimbursementsService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get all reimbursement runs' })
+  @ApiQuery({ name: 'start_date', required: false })
+  @ApiQuery({ name: 'end_date', required: false })
+  @RequirePermissions({ module: 'expenses', action: 'view' })
+  findAll(
+    @TenantContext('tenantId') tenantId: string,
+    @Query('start_date') startDate?: string,
+    @Query('end_date') endDate?: string,
+  ) {
+    return this.expenseReimbursementsService.findAll(tenantId, {
+      startDate,
+      endDate,
+    });
+  }
+
+  @Get('outstanding')
+  @ApiOperation({
+    summary: 'Posted expense claims awaiting reimbursement, by employee',
+  })
+  @RequirePermissions({ module: 'expenses', action: 'view' })
+  findOutstanding(@TenantContext('tenantId') tenantId: string) {
+    return this.expenseReimbursementsService.findOutstanding(tenantId);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a reimbursement run by ID' })
+  @RequirePermissions({ module: 'expenses', action: 'view' })
+  findOne(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.expenseReimbursementsService.findOne(id, tenantId);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Pay posted expense claims with one bank payment',
+  })
+  @RequirePermissions({ module: 'expenses', action: 'reimburse' })
+  create(
+    @Body() createDto: CreateReimbursementDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId?: string,
+    @TenantContext('branchId') branchId?: string,
+  ) {
+    return this.expenseReimbursementsService.create(
+      createDto,
+      tenantId,
+      userId,
+      branchId,
+    );
+  }
+}
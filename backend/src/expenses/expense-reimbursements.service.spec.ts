@@ -0,0 +1,241 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExpenseReimbursementsService } from './expense-reimbursements.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { JournalsService } from '../journals/journals.service';
+import { PeriodGuardService } from '../fiscal-periods/period-guard.service';
+import { AccountMappingsService } from '../account-mappings/account-mappings.service';
+import { queryResult } from '../../test/utils/query-result';
+
+describe('ExpenseReimbursementsService', () => {
+  let service: ExpenseReimbursementsService;
+  let tables: Record<string, any[]>;
+  let mockSupabaseClient: any;
+  let journalsService: { prepare: jest.Mock };
+
+  const mockTenantId = 'test-tenant-id';
+  const mockUserId = 'test-user-id';
+
+  const claim = (overrides: any = {}) => ({
+    id: 'expense-1',
+    expense_number: 'EXP-2026-000001',
+    employee_id: 'employee-1',
+    employee: { first_name_en: 'Sara', last_name_en: 'Ali' },
+    currency: 'QAR',
+    exchange_rate: 1,
+    total_amount: 100,
+    status: 'posted',
+    is_claim: true,
+    reimbursement_id: null,
+    ...overrides,
+  });
+
+  const bankAccount = () =>
+    queryResult({
+      data: {
+        id: 'bank',
+        type: 'asset',
+        is_active: true,
+        is_posting_allowed: true,
+      },
+      error: null,
+    });
+
+  const reimbursement = {
+    paymentDate: new Date('2026-10-15T00:00:00.000Z'),
+    bankAccountId: 'bank',
+    expenseIds: ['expense-1', 'expense-2', 'expense-3'],
+  };
+
+  beforeEach(async () => {
+    tables = {};
+    mockSupabaseClient = {
+      from: jest.fn((table: string) => tables[table].shift()),
+      rpc: jest.fn(),
+    };
+    journalsService = {
+      prepare: jest.fn().mockResolvedValue({ journal: {}, lines: [] }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExpenseReimbursementsService,
+        {
+          provide: SupabaseService,
+          useValue: {
+            getClient: jest.fn().mockReturnValue(mockSupabaseClient),
+          },
+        },
+        { provide: JournalsService, useValue: journalsService },
+        {
+          provide: PeriodGuardService,
+          useValue: { assertOpen: jest.fn().mockResolvedValue(null) },
+        },
+        {
+          provide: AccountMappingsService,
+          useValue: {
+            resolve: jest
+              .fn()
+              .mockResolvedValue({ employee_payable: 'employee-payable' }),
+            requireAccount: jest.fn((mappings, key) => mappings[key]),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ExpenseReimbursementsService>(
+      ExpenseReimbursementsService,
+    );
+  });
+
+  describe('create', () => {
+    it('should debit employee payable per employee and credit the bank with the total', async () => {
+      tables.expenses = [
+        queryResult({
+          data: [
+            claim(),
+            claim({
+              id: 'expense-2',
+              expense_number: 'EXP-2026-000002',
+              total_amount: 50.25,
+            }),
+            claim({
+              id: 'expense-3',
+              expense_number: 'EXP-2026-000003',
+              employee_id: 'employee-2',
+              employee: { first_name_en: 'Omar', last_name_en: null },
+              total_amount: 20,
+            }),
+          ],
+          error: null,
+        }),
+      ];
+      tables.chart_of_accounts = [bankAccount()];
+      tables.expense_reimbursements = [
+        queryResult({ data: { id: 'reimbursement-1' }, error: null }),
+      ];
+      mockSupabaseClient.rpc
+        .mockResolvedValueOnce({ data: 'RMB-2026-000001', error: null })
+        .mockResolvedValueOnce({ data: 'reimbursement-1', error: null });
+
+      await service.create(reimbursement, mockTenantId, mockUserId);
+
+      expect(journalsService.prepare).toHaveBeenCalledWith(
+        expect.objectContaining({
+          journalType: 'payment',
+          referenceNumber: 'RMB-2026-000001',
+          currency: 'QAR',
+          lines: [
+            expect.objectContaining({
+              accountId: 'employee-payable',
+              descriptionEn:
+                'Reimbursement to Sara Ali: EXP-2026-000001, EXP-2026-000002',
+              debit: 150.25,
+            }),
+            expect.objectContaining({
+              accountId: 'employee-payable',
+              descriptionEn: 'Reimbursement to Omar: EXP-2026-000003',
+              debit: 20,
+            }),
+            expect.objectContaining({ accountId: 'bank', credit: 170.25 }),
+          ],
+        }),
+        mockTenantId,
+        mockUserId,
+        undefined,
+        { allowLockedPeriod: true },
+      );
+      expect(mockSupabaseClient.rpc).toHaveBeenLastCalledWith(
+        'post_expense_reimbursement_with_journal',
+        expect.objectContaining({
+          p_expense_ids: ['expense-1', 'expense-2', 'expense-3'],
+          p_reimbursement: expect.objectContaining({
+            reimbursement_number: 'RMB-2026-000001',
+            payment_date: '2026-10-15',
+            total_amount: 170.25,
+          }),
+        }),
+      );
+    });
+
+    it('should not reimburse a claim that has not been posted', async () => {
+      tables.expenses = [
+        queryResult({
+          data: [
+            claim(),
+            claim({ id: 'expense-2', status: 'submitted' }),
+            claim({ id: 'expense-3' }),
+          ],
+          error: null,
+        }),
+      ];
+
+      await expect(
+        service.create(reimbursement, mockTenantId, mockUserId),
+      ).rejects.toThrow('must be posted before it is reimbursed');
+      expect(mockSupabaseClient.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should not reimburse an expense that is not a claim', async () => {
+      tables.expenses = [
+        queryResult({
+          data: [
+            claim({ is_claim: false }),
+            claim({ id: 'expense-2' }),
+            claim({ id: 'expense-3' }),
+          ],
+          error: null,
+        }),
+      ];
+
+      await expect(
+        service.create(reimbursement, mockTenantId, mockUserId),
+      ).rejects.toThrow('Expense EXP-2026-000001 is not an expense claim');
+    });
+
+    it('should not mix currencies in one run', async () => {
+      tables.expenses = [
+        queryResult({
+          data: [
+            claim(),
+            claim({ id: 'expense-2' }),
+            claim({ id: 'expense-3', currency: 'USD' }),
+          ],
+          error: null,
+        }),
+      ];
+
+      await expect(
+        service.create(reimbursement, mockTenantId, mockUserId),
+      ).rejects.toThrow(
+        'All claims in a reimbursement must be in the same currency',
+      );
+    });
+  });
+
+  describe('findOutstanding', () => {
+    it('should group posted claims by employee and currency', async () => {
+      tables.expenses = [
+        queryResult({
+          data: [
+            claim(),
+            claim({ id: 'expense-2', total_amount: 50.25 }),
+            claim({ id: 'expense-3', currency: 'USD', total_amount: 10 }),
+          ],
+          error: null,
+        }),
+      ];
+
+      const result = await service.findOutstanding(mockTenantId);
+
+      expect(result).toEqual([
+        expect.objectContaining({
+          employee_id: 'employee-1',
+          employee_name: 'Sara Ali',
+          currency: 'QAR',
+          total_amount: 150.25,
+        }),
+        expect.objectContaining({ currency: 'USD', total_amount: 10 }),
+      ]);
+    });
+  });
+});
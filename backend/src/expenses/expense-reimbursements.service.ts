@@ -0,0 +1,397 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { JournalsService } from '../journals/journals.service';
+import { AccountMappingsService } from '../account-mappings/account-mappings.service';
+import { PeriodGuardService } from '../fiscal-periods/period-guard.service';
+import { CreateReimbursementDto } from './dto/create-reimbursement.dto';
+
+export interface ReimbursementFilters {
+  startDate?: string;
+  endDate?: string;
+}
+
+const REIMBURSEMENT_SELECT = `
+  *,
+  expenses(id, expense_number, title_ar, title_en, expense_date, employee_id, total_amount, currency)
+`;
+
+const CLAIM_SELECT = `
+  id, expense_number, title_ar, title_en, expense_date, employee_id, currency,
+  exchange_rate, total_amount, status, is_claim, reimbursement_id,
+  employee:users!expenses_employee_id_fkey(id, first_name_en, last_name_en, first_name_ar, last_name_ar)
+`;
+
+interface ClaimEmployee {
+  id: string;
+  first_name_en: string | null;
+  last_name_en: string | null;
+  first_name_ar: string | null;
+  last_name_ar: string | null;
+}
+
+// A claim as selected by CLAIM_SELECT
+interface ClaimRow {
+  id: string;
+  expense_number: string;
+  title_ar: string | null;
+  title_en: string | null;
+  expense_date: string;
+  employee_id: string;
+  currency: string;
+  exchange_rate: number;
+  total_amount: number;
+  status: string;
+  is_claim: boolean;
+  reimbursement_id: string | null;
+  employee: ClaimEmployee | null;
+}
+
+// Outstanding claims of one employee in one currency
+interface OutstandingClaims {
+  employee_id: string;
+  employee_name: string;
+  currency: string;
+  total_amount: number;
+  claims: ClaimRow[];
+}
+
+/**
+ * Reimbursement runs
+ *
+ * A run pays employees the posted expense claims it settles with one bank or
+ * cash payment: its journal debits the employee payable account for each
+ * employee's claims and credits the bank account with the total. The claims
+ * are marked paid in the same transaction.
+ */
+@Injectable()
+export class ExpenseReimbursementsService {
+  constructor(
+    private supabaseService: SupabaseService,
+    private journalsService: JournalsService,
+    private periodGuard: PeriodGuardService,
+    private accountMappingsService: AccountMappingsService,
+  ) {}
+
+  async findAll(tenantId: string, filters: ReimbursementFilters = {}) {
+    const supabase = this.supabaseService.getClient();
+
+    let query = supabase
+      .from('expense_reimbursements')
+      .select(REIMBURSEMENT_SELECT)
+      .eq('tenant_id', tenantId)
+      .order('payment_date', { ascending: false })
+      .order('reimbursement_number', { ascending: false });
+
+    if (filters.startDate) {
+      query = query.gte('payment_date', filters.startDate);
+    }
+
+    if (filters.endDate) {
+      query = query.lte('payment_date', filters.endDate);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    return data || [];
+  }
+
+  async findOne(id: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('expense_reimbursements')
+      .select(REIMBURSEMENT_SELECT)
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!data) {
+      throw new NotFoundException('Reimbursement not found');
+    }
+
+    return data;
+  }
+
+  /**
+   * Posted claims not yet reimbursed, grouped by employee and currency
+   */
+  async findOutstanding(tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('expenses')
+      .select(CLAIM_SELECT)
+      .eq('tenant_id', tenantId)
+      .eq('is_claim', true)
+      .eq('status', 'posted')
+      .is('reimbursement_id', null)
+      .is('deleted_at', null)
+      .order('expense_date', { ascending: true })
+      .overrideTypes<ClaimRow[], { merge: false }>();
+
+    if (error) throw error;
+
+    const groups = new Map<string, OutstandingClaims>();
+
+    for (const claim of data || []) {
+      const key = `${claim.employee_id}:${claim.currency}`;
+      const group: OutstandingClaims = groups.get(key) || {
+        employee_id: claim.employee_id,
+        employee_name: this.employeeName(claim.employee),
+        currency: claim.currency,
+        total_amount: 0,
+        claims: [],
+      };
+      group.total_amount = this.round(
+        group.total_amount + Number(claim.total_amount),
+      );
+      group.claims.push(claim);
+      groups.set(key, group);
+    }
+
+    return [...groups.values()];
+  }
+
+  /**
+   * Pay the given posted claims from a bank or cash account and post the
+   * run's journal
+   */
+  async create(
+    createDto: CreateReimbursementDto,
+    tenantId: string,
+    userId?: string,
+    branchId?: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+    const claims = await this.findClaimsToPay(createDto.expenseIds, tenantId);
+    const currency = claims[0].currency;
+
+    if (claims.some((claim) => claim.currency !== currency)) {
+      throw new BadRequestException(
+        'All claims in a reimbursement must be in the same currency',
+      );
+    }
+
+    await this.assertBankAccount(createDto.bankAccountId, tenantId);
+
+    const paymentDate = createDto.paymentDate.toISOString().split('T')[0];
+
+    await this.periodGuard.assertOpen(tenantId, paymentDate, {
+      documentType: 'expense_reimbursement',
+      action: 'post',
+      userId,
+      overrideCode: createDto.overrideCode,
+    });
+
+    const mappings = await this.accountMappingsService.resolve(tenantId, {});
+    const employeePayableAccountId = this.accountMappingsService.requireAccount(
+      mappings,
+      'employee_payable',
+    );
+
+    const byEmployee = new Map<
+      string,
+      { name: string; amount: number; numbers: string[] }
+    >();
+    let total = 0;
+
+    for (const claim of claims) {
+      const group = byEmployee.get(claim.employee_id) || {
+        name: this.employeeName(claim.employee),
+        amount: 0,
+        numbers: [],
+      };
+      group.amount += Number(claim.total_amount);
+      group.numbers.push(claim.expense_number);
+      byEmployee.set(claim.employee_id, group);
+      total += Number(claim.total_amount);
+    }
+
+    total = this.round(total);
+
+    const { data: reimbursementNumber, error: numberError } =
+      await supabase.rpc('generate_reimbursement_number', {
+        p_tenant_id: tenantId,
+      });
+
+    if (numberError) throw numberError;
+
+    let lineNumber = 1;
+    const lines: Array<{
+      lineNumber: number;
+      accountId: string;
+      descriptionAr?: string;
+      descriptionEn?: string;
+      debit: number;
+      credit: number;
+    }> = [];
+
+    for (const group of byEmployee.values()) {
+      lines.push({
+        lineNumber: lineNumber++,
+        accountId: employeePayableAccountId,
+        descriptionAr: `تعويض ${group.name}: ${group.numbers.join(', ')}`,
+        descriptionEn: `Reimbursement to ${group.name}: ${group.numbers.join(', ')}`,
+        debit: this.round(group.amount),
+        credit: 0,
+      });
+    }
+
+    lines.push({
+      lineNumber: lineNumber++,
+      accountId: createDto.bankAccountId,
+      descriptionAr: `تعويض المصروفات رقم ${reimbursementNumber}`,
+      descriptionEn: `Expense reimbursement ${reimbursementNumber}`,
+      debit: 0,
+      credit: total,
+    });
+
+    let reimbursementId: string;
+
+    try {
+      const journal = await this.journalsService.prepare(
+        {
+          journalType: 'payment',
+          referenceNumber: reimbursementNumber,
+          descriptionAr: `تعويض المصروفات رقم ${reimbursementNumber}`,
+          descriptionEn: `Expense reimbursement ${reimbursementNumber}`,
+          transactionDate: createDto.paymentDate,
+          currency,
+          exchangeRate: createDto.exchangeRate || 1,
+          sourceModule: 'expense_reimbursements',
+          lines,
+        },
+        tenantId,
+        userId,
+        branchId,
+        // The run's own period check already ran above
+        { allowLockedPeriod: true },
+      );
+
+      // The journal, the run and the claims' status are written in one
+      // transaction
+      const { data, error } = await supabase.rpc(
+        'post_expense_reimbursement_with_journal',
+        {
+          p_tenant_id: tenantId,
+          p_user_id: userId,
+          p_reimbursement: {
+            branch_id: branchId,
+            reimbursement_number: reimbursementNumber,
+            payment_date: paymentDate,
+            bank_account_id: createDto.bankAccountId,
+            currency,
+            exchange_rate: createDto.exchangeRate || 1,
+            total_amount: total,
+            reference: createDto.reference,
+            notes: createDto.notes,
+          },
+          p_expense_ids: claims.map((claim) => claim.id),
+          p_journal: journal.journal,
+          p_lines: journal.lines,
+        },
+      );
+
+      if (error) throw error;
+
+      reimbursementId = data;
+    } catch (error) {
+      throw new BadRequestException(
+        `Failed to create journal entry: ${error.message}`,
+      );
+    }
+
+    return this.findOne(reimbursementId, tenantId);
+  }
+
+  private async findClaimsToPay(expenseIds: string[], tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('expenses')
+      .select(CLAIM_SELECT)
+      .eq('tenant_id', tenantId)
+      .in('id', expenseIds)
+      .is('deleted_at', null)
+      .overrideTypes<ClaimRow[], { merge: false }>();
+
+    if (error) throw error;
+
+    const claims = expenseIds.map((id) => {
+      const claim = (data || []).find((row) => row.id === id);
+
+      if (!claim) {
+        throw new BadRequestException(`Expense ${id} not found`);
+      }
+
+      if (!claim.is_claim) {
+        throw new BadRequestException(
+          `Expense ${claim.expense_number} is not an expense claim`,
+        );
+      }
+
+      if (claim.reimbursement_id || claim.status === 'paid') {
+        throw new BadRequestException(
+          `Expense claim ${claim.expense_number} has already been reimbursed`,
+        );
+      }
+
+      if (claim.status !== 'posted') {
+        throw new BadRequestException(
+          `Expense claim ${claim.expense_number} must be posted before it is reimbursed`,
+        );
+      }
+
+      return claim;
+    });
+
+    return claims;
+  }
+
+  private async assertBankAccount(accountId: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: account, error } = await supabase
+      .from('chart_of_accounts')
+      .select('id, type, is_active, is_posting_allowed')
+      .eq('id', accountId)
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!account) {
+      throw new BadRequestException('Bank account not found');
+    }
+
+    if (
+      account.type !== 'asset' ||
+      !account.is_active ||
+      !account.is_posting_allowed
+    ) {
+      throw new BadRequestException(
+        'The bank account must be an active asset account that allows posting',
+      );
+    }
+  }
+
+  private employeeName(employee: ClaimEmployee | null): string {
+    return employee
+      ? [employee.first_name_en, employee.last_name_en]
+          .filter(Boolean)
+          .join(' ')
+      : '';
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
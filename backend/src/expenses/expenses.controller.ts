@@ -1,19 +1,313 @@
-import { Controller, Get, UseGuards } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFiles,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiQuery,
+  ApiConsumes,
+} from '@nestjs/swagger';
+import { FilesInterceptor } from '@nestjs/platform-express';
 import { ExpensesService } from './expenses.service';
+import {
+  ExpenseAttachmentsService,
+  MAX_RECEIPT_SIZE,
+  MAX_RECEIPTS_PER_UPLOAD,
+} from './expense-attachments.service';
+import { CreateExpenseDto } from './dto/create-expense.dto';
+import { UpdateExpenseDto } from './dto/update-expense.dto';
+import { RejectExpenseDto } from './dto/reject-expense.dto';
+import { CreateClaimDto } from './dto/create-claim.dto';
+import { UpdateClaimDto } from './dto/update-claim.dto';
+import { UpdateReceiptPolicyDto } from './dto/update-receipt-policy.dto';
+import { PeriodOverrideDto } from '../fiscal-periods/dto/period-override.dto';
 import { TenantContextGuard } from '../common/guards/tenant-context.guard';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
 import { TenantContext } from '../common/decorators/tenant-context.decorator';
 
 @ApiTags('expenses')
 @Controller('expenses')
 @ApiBearerAuth()
-@UseGuards(TenantContextGuard)
+@UseGuards(TenantContextGuard, PermissionsGuard)
 export class ExpensesController {
-  constructor(private expensesService: ExpensesService) {}
+  constructor(
+    private expensesService: ExpensesService,
+    private expenseAttachmentsService: ExpenseAttachmentsService,
+  ) {}
 
   @Get()
   @ApiOperation({ summary: 'Get all expenses' })
-  findAll(@TenantContext('tenantId') tenantId: string) {
-    return this.expensesService.findAll(tenantId);
+  @ApiQuery({ name: 'status', required: false })
+  @ApiQuery({ name: 'approval_status', required: false })
+  @ApiQuery({ name: 'category', required: false })
+  @ApiQuery({ name: 'employee_id', required: false })
+  @ApiQuery({ name: 'vendor_id', required: false })
+  @ApiQuery({ name: 'is_claim', required: false, type: Boolean })
+  @ApiQuery({ name: 'start_date', required: false })
+  @ApiQuery({ name: 'end_date', required: false })
+  @ApiQuery({ name: 'search', required: false })
+  @RequirePermissions({ module: 'expenses', action: 'view' })
+  findAll(
+    @TenantContext('tenantId') tenantId: string,
+    @Query('status') status?: string,
+    @Query('approval_status') approvalStatus?: string,
+    @Query('category') category?: string,
+    @Query('employee_id') employeeId?: string,
+    @Query('vendor_id') vendorId?: string,
+    @Query('is_claim') isClaim?: string,
+    @Query('start_date') startDate?: string,
+    @Query('end_date') endDate?: string,
+    @Query('search') search?: string,
+  ) {
+    return this.expensesService.findAll(tenantId, {
+      status,
+      approvalStatus,
+      category,
+      employeeId,
+      vendorId,
+      isClaim: isClaim === undefined ? undefined : isClaim === 'true',
+      startDate,
+      endDate,
+      search,
+    });
+  }
+
+  @Get('summary')
+  @ApiOperation({
+    summary: 'Expense totals this month and week, and approvals pending',
+  })
+  @RequirePermissions({ module: 'expenses', action: 'view' })
+  getSummary(@TenantContext('tenantId') tenantId: string) {
+    return this.expensesService.getSummary(tenantId);
+  }
+
+  @Get('claims/mine')
+  @ApiOperation({
+    summary: "The current user's expense claims and their totals",
+  })
+  @ApiQuery({ name: 'status', required: false })
+  @ApiQuery({ name: 'start_date', required: false })
+  @ApiQuery({ name: 'end_date', required: false })
+  @RequirePermissions({ module: 'expenses', action: 'claim' })
+  findMyClaims(
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
+    @Query('status') status?: string,
+    @Query('start_date') startDate?: string,
+    @Query('end_date') endDate?: string,
+  ) {
+    return this.expensesService.findMyClaims(tenantId, userId, {
+      status,
+      startDate,
+      endDate,
+    });
+  }
+
+  @Post('claims')
+  @ApiOperation({ summary: 'Create a draft expense claim' })
+  @RequirePermissions({ module: 'expenses', action: 'claim' })
+  createClaim(
+    @Body() createDto: CreateClaimDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
+    @TenantContext('branchId') branchId?: string,
+  ) {
+    return this.expensesService.createClaim(
+      createDto,
+      tenantId,
+      userId,
+      branchId,
+    );
+  }
+
+  @Put('claims/:id')
+  @ApiOperation({ summary: 'Update an own draft expense claim' })
+  @RequirePermissions({ module: 'expenses', action: 'claim' })
+  updateClaim(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateClaimDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
+  ) {
+    return this.expensesService.update(id, updateDto, tenantId, userId);
+  }
+
+  @Delete('claims/:id')
+  @ApiOperation({ summary: 'Delete an own draft expense claim' })
+  @RequirePermissions({ module: 'expenses', action: 'claim' })
+  removeClaim(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
+  ) {
+    return this.expensesService.remove(id, tenantId, userId);
+  }
+
+  @Post('claims/:id/submit')
+  @ApiOperation({ summary: 'Submit an own expense claim for approval' })
+  @RequirePermissions({ module: 'expenses', action: 'claim' })
+  submitClaim(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
+  ) {
+    return this.expensesService.submit(id, tenantId, userId, userId);
+  }
+
+  @Post('claims/:id/attachments')
+  @ApiOperation({ summary: 'Upload receipts to an own expense claim' })
+  @ApiConsumes('multipart/form-data')
+  @RequirePermissions({ module: 'expenses', action: 'claim' })
+  @UseInterceptors(
+    FilesInterceptor('files', MAX_RECEIPTS_PER_UPLOAD, {
+      limits: { fileSize: MAX_RECEIPT_SIZE },
+    }),
+  )
+  uploadClaimReceipts(
+    @Param('id') id: string,
+    @UploadedFiles() files: any[],
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
+  ) {
+    return this.expenseAttachmentsService.upload(
+      id,
+      files,
+      tenantId,
+      userId,
+      userId,
+    );
+  }
+
+  @Get('receipt-policy')
+  @ApiOperation({
+    summary: 'Get the amount above which expenses need a receipt to be posted',
+  })
+  @RequirePermissions({ module: 'settings', action: 'view' })
+  getReceiptPolicy(@TenantContext('tenantId') tenantId: string) {
+    return this.expenseAttachmentsService.getPolicy(tenantId);
+  }
+
+  @Put('receipt-policy')
+  @ApiOperation({
+    summary:
+      'Update the amount above which expenses need a receipt to be posted',
+  })
+  @RequirePermissions({
+    module: 'settings',
+    action: 'edit',
+    resource: 'company',
+  })
+  updateReceiptPolicy(
+    @Body() updateDto: UpdateReceiptPolicyDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId?: string,
+  ) {
+    return this.expenseAttachmentsService.updatePolicy(
+      tenantId,
+      updateDto,
+      userId,
+    );
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an expense by ID' })
+  @RequirePermissions({ module: 'expenses', action: 'view' })
+  findOne(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.expensesService.findOne(id, tenantId);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a draft expense' })
+  @RequirePermissions({ module: 'expenses', action: 'create' })
+  create(
+    @Body() createDto: CreateExpenseDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId?: string,
+    @TenantContext('branchId') branchId?: string,
+  ) {
+    return this.expensesService.create(createDto, tenantId, userId, branchId);
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Update a draft expense' })
+  @RequirePermissions({ module: 'expenses', action: 'edit' })
+  update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateExpenseDto,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.expensesService.update(id, updateDto, tenantId);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a draft expense' })
+  @RequirePermissions({ module: 'expenses', action: 'delete' })
+  remove(@Param('id') id: string, @TenantContext('tenantId') tenantId: string) {
+    return this.expensesService.remove(id, tenantId);
+  }
+
+  @Post(':id/submit')
+  @ApiOperation({ summary: 'Submit a draft expense for approval' })
+  @RequirePermissions({ module: 'expenses', action: 'edit' })
+  submit(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId?: string,
+  ) {
+    return this.expensesService.submit(id, tenantId, userId);
+  }
+
+  @Post(':id/approve')
+  @ApiOperation({ summary: 'Approve a submitted expense' })
+  @RequirePermissions({ module: 'expenses', action: 'approve' })
+  approve(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId?: string,
+  ) {
+    return this.expensesService.approve(id, tenantId, userId);
+  }
+
+  @Post(':id/reject')
+  @ApiOperation({
+    summary: 'Reject a submitted expense, returning it to draft',
+  })
+  @RequirePermissions({ module: 'expenses', action: 'approve' })
+  reject(
+    @Param('id') id: string,
+    @Body() rejectDto: RejectExpenseDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId?: string,
+  ) {
+    return this.expensesService.reject(id, rejectDto.reason, tenantId, userId);
+  }
+
+  @Post(':id/post')
+  @ApiOperation({ summary: 'Post an approved expense to the ledger' })
+  @RequirePermissions({ module: 'expenses', action: 'post' })
+  post(
+    @Param('id') id: string,
+    @Body() overrideDto: PeriodOverrideDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId?: string,
+  ) {
+    return this.expensesService.post(id, tenantId, userId, {
+      overrideCode: overrideDto.overrideCode,
+    });
   }
 }
@@ -1,12 +1,38 @@
 import { Module } from '@nestjs/common';
 import { ExpensesService } from './expenses.service';
 import { ExpensesController } from './expenses.controller';
+import { ExpenseAttachmentsService } from './expense-attachments.service';
+import { ExpenseAttachmentsController } from './expense-attachments.controller';
+import { ExpenseReimbursementsService } from './expense-reimbursements.service';
+import { ExpenseReimbursementsController } from './expense-reimbursements.controller';
 import { SupabaseModule } from '../supabase/supabase.module';
+import { AuditModule } from '../audit/audit.module';
+import { JournalsModule } from '../journals/journals.module';
+import { PeriodGuardModule } from '../fiscal-periods/period-guard.module';
+import { AccountMappingsModule } from '../account-mappings/account-mappings.module';
 
 @Module({
-  imports: [SupabaseModule],
-  controllers: [ExpensesController],
-  providers: [ExpensesService],
-  exports: [ExpensesService],
+  imports: [
+    SupabaseModule,
+    AuditModule,
+    JournalsModule,
+    PeriodGuardModule,
+    AccountMappingsModule,
+  ],
+  controllers: [
+    ExpensesController,
+    ExpenseAttachmentsController,
+    ExpenseReimbursementsController,
+  ],
+  providers: [
+    ExpensesService,
+    ExpenseAttachmentsService,
+    ExpenseReimbursementsService,
+  ],
+  exports: [
+    ExpensesService,
+    ExpenseAttachmentsService,
+    ExpenseReimbursementsService,
+  ],
 })
 export class ExpensesModule {}
@@ -0,0 +1,506 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ExpensesService } from './expenses.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { JournalsService } from '../journals/journals.service';
+import { PeriodGuardService } from '../fiscal-periods/period-guard.service';
+import { AccountMappingsService } from '../account-mappings/account-mappings.service';
+import { ExpenseAttachmentsService } from './expense-attachments.service';
+import { queryResult } from '../../test/utils/query-result';
+
+describe('ExpensesService', () => {
+  let service: ExpensesService;
+  let tables: Record<string, any[]>;
+  let mockSupabaseClient: any;
+  let journalsService: { prepare: jest.Mock };
+  let periodGuard: { assertOpen: jest.Mock };
+  let expenseAttachmentsService: { assertReceiptPolicy: jest.Mock };
+
+  const mockTenantId = 'test-tenant-id';
+  const mockUserId = 'test-user-id';
+
+  // Travel of 1,000 + 5% VAT in two cost centers and 200 of meals without VAT
+  const approvedExpense = {
+    id: 'expense-1',
+    expense_number: 'EXP-2026-000001',
+    title_ar: 'رحلة عمل',
+    title_en: 'Business trip',
+    expense_date: '2026-10-12',
+    vendor_id: 'vendor-1',
+    currency: 'QAR',
+    exchange_rate: 1,
+    total_amount: 1250,
+    tax_amount: 50,
+    status: 'submitted',
+    approval_status: 'approved',
+    expense_lines: [
+      {
+        line_number: 3,
+        description_ar: 'وجبات',
+        account_id: 'meals',
+        amount: 200,
+        tax_code_id: null,
+        tax_amount: 0,
+        cost_center_id: 'cc-sales',
+      },
+      {
+        line_number: 1,
+        description_ar: 'طيران',
+        account_id: 'travel',
+        amount: 600,
+        tax_code_id: 'vat-in-5',
+        tax_amount: 30,
+        cost_center_id: 'cc-sales',
+      },
+      {
+        line_number: 2,
+        description_ar: 'فندق',
+        account_id: 'travel',
+        amount: 400,
+        tax_code_id: 'vat-in-5',
+        tax_amount: 20,
+        cost_center_id: 'cc-ops',
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    tables = {};
+    mockSupabaseClient = {
+      from: jest.fn((table: string) => tables[table].shift()),
+      rpc: jest.fn(),
+    };
+    journalsService = {
+      prepare: jest.fn().mockResolvedValue({ journal: {}, lines: [] }),
+    };
+    periodGuard = { assertOpen: jest.fn().mockResolvedValue(null) };
+    expenseAttachmentsService = {
+      assertReceiptPolicy: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExpensesService,
+        {
+          provide: SupabaseService,
+          useValue: {
+            getClient: jest.fn().mockReturnValue(mockSupabaseClient),
+          },
+        },
+        { provide: JournalsService, useValue: journalsService },
+        { provide: PeriodGuardService, useValue: periodGuard },
+        {
+          provide: AccountMappingsService,
+          useValue: {
+            resolve: jest.fn().mockResolvedValue({
+              payable: 'ap',
+              input_vat: 'input-vat',
+              employee_payable: 'employee-payable',
+            }),
+            resolveVatAccounts: jest.fn().mockResolvedValue(new Map()),
+            requireAccount: jest.fn((mappings, key) => mappings[key]),
+          },
+        },
+        {
+          provide: ExpenseAttachmentsService,
+          useValue: expenseAttachmentsService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ExpensesService>(ExpensesService);
+  });
+
+  describe('create', () => {
+    beforeEach(() => {
+      tables.chart_of_accounts = [
+        queryResult({
+          data: [{ id: 'travel', is_active: true, is_posting_allowed: true }],
+          error: null,
+        }),
+      ];
+      tables.cost_centers = [
+        queryResult({
+          data: [{ id: 'cc-sales', is_active: true }],
+          error: null,
+        }),
+      ];
+    });
+
+    it('should calculate line VAT from the input VAT code and the totals', async () => {
+      const insert = queryResult({ data: { id: 'expense-1' }, error: null });
+      const insertLines = queryResult({ data: null, error: null });
+      tables.vat_codes = [
+        queryResult({
+          data: [{ id: 'vat-in-5', type: 'input', rate: 5, is_active: true }],
+          error: null,
+        }),
+      ];
+      tables.expenses = [
+        insert,
+        queryResult({ data: approvedExpense, error: null }),
+      ];
+      tables.expense_lines = [insertLines];
+      mockSupabaseClient.rpc.mockResolvedValue({
+        data: 'EXP-2026-000001',
+        error: null,
+      });
+
+      await service.create(
+        {
+          titleAr: 'رحلة عمل',
+          expenseDate: new Date('2026-10-12T00:00:00.000Z'),
+          lines: [
+            {
+              descriptionAr: 'طيران',
+              accountId: 'travel',
+              amount: 600.5,
+              taxCodeId: 'vat-in-5',
+              costCenterId: 'cc-sales',
+            },
+          ],
+        },
+        mockTenantId,
+        mockUserId,
+      );
+
+      expect(insert.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          expense_number: 'EXP-2026-000001',
+          expense_date: '2026-10-12',
+          status: 'draft',
+          approval_status: 'pending',
+          tax_amount: 30.03,
+          total_amount: 630.53,
+        }),
+      );
+      expect(insertLines.insert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          expense_id: 'expense-1',
+          line_number: 1,
+          amount: 600.5,
+          tax_code_id: 'vat-in-5',
+          tax_percentage: 5,
+          tax_amount: 30.03,
+          cost_center_id: 'cc-sales',
+        }),
+      ]);
+    });
+
+    it('should reject an output VAT code on a line', async () => {
+      tables.vat_codes = [
+        queryResult({
+          data: [{ id: 'vat-out-5', type: 'output', rate: 5, is_active: true }],
+          error: null,
+        }),
+      ];
+
+      await expect(
+        service.create(
+          {
+            titleAr: 'رحلة عمل',
+            expenseDate: new Date('2026-10-12'),
+            lines: [
+              {
+                descriptionAr: 'طيران',
+                accountId: 'travel',
+                amount: 600,
+                taxCodeId: 'vat-out-5',
+              },
+            ],
+          },
+          mockTenantId,
+        ),
+      ).rejects.toThrow(
+        'Line 1: the VAT code must be an active input VAT code',
+      );
+    });
+  });
+
+  describe('approval', () => {
+    it('should not approve an expense that has not been submitted', async () => {
+      tables.expenses = [
+        queryResult({
+          data: {
+            ...approvedExpense,
+            status: 'draft',
+            approval_status: 'pending',
+          },
+          error: null,
+        }),
+      ];
+
+      await expect(
+        service.approve('expense-1', mockTenantId, mockUserId),
+      ).rejects.toThrow(
+        'The expense must be submitted before it is approved or rejected',
+      );
+    });
+
+    it('should return a rejected expense to draft with the reason', async () => {
+      const markRejected = queryResult({
+        data: [{ id: 'expense-1' }],
+        error: null,
+      });
+      tables.expenses = [
+        queryResult({
+          data: { ...approvedExpense, approval_status: 'pending' },
+          error: null,
+        }),
+        markRejected,
+        queryResult({ data: approvedExpense, error: null }),
+      ];
+
+      await service.reject(
+        'expense-1',
+        'Receipt missing',
+        mockTenantId,
+        mockUserId,
+      );
+
+      expect(markRejected.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 'draft',
+          approval_status: 'rejected',
+          rejected_by: mockUserId,
+          rejection_reason: 'Receipt missing',
+        }),
+      );
+      expect(markRejected.eq).toHaveBeenCalledWith(
+        'approval_status',
+        'pending',
+      );
+    });
+  });
+
+  describe('claims', () => {
+    const claim = {
+      ...approvedExpense,
+      vendor_id: null,
+      employee_id: mockUserId,
+      is_claim: true,
+      status: 'draft',
+      approval_status: 'pending',
+    };
+
+    it('should create a claim for the current user', async () => {
+      const insert = queryResult({ data: { id: 'expense-1' }, error: null });
+      tables.chart_of_accounts = [
+        queryResult({
+          data: [{ id: 'travel', is_active: true, is_posting_allowed: true }],
+          error: null,
+        }),
+      ];
+      tables.expenses = [insert, queryResult({ data: claim, error: null })];
+      tables.expense_lines = [queryResult({ data: null, error: null })];
+      mockSupabaseClient.rpc.mockResolvedValue({
+        data: 'EXP-2026-000001',
+        error: null,
+      });
+
+      await service.createClaim(
+        {
+          titleAr: 'تاكسي',
+          expenseDate: new Date('2026-10-12'),
+          lines: [{ descriptionAr: 'تاكسي', accountId: 'travel', amount: 45 }],
+        },
+        mockTenantId,
+        mockUserId,
+      );
+
+      expect(insert.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          employee_id: mockUserId,
+          is_claim: true,
+          total_amount: 45,
+        }),
+      );
+    });
+
+    it("should not let a claimant submit someone else's claim", async () => {
+      tables.expenses = [
+        queryResult({
+          data: { ...claim, employee_id: 'other-user' },
+          error: null,
+        }),
+      ];
+
+      await expect(
+        service.submit('expense-1', mockTenantId, mockUserId, mockUserId),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should not let a claimant approve their own claim', async () => {
+      tables.expenses = [
+        queryResult({
+          data: { ...claim, status: 'submitted' },
+          error: null,
+        }),
+      ];
+
+      await expect(
+        service.approve('expense-1', mockTenantId, mockUserId),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should credit the employee payable account when a claim is posted', async () => {
+      const approvedClaim = {
+        ...claim,
+        status: 'submitted',
+        approval_status: 'approved',
+      };
+      tables.expenses = [
+        queryResult({ data: approvedClaim, error: null }),
+        queryResult({ data: approvedClaim, error: null }),
+      ];
+      mockSupabaseClient.rpc.mockResolvedValue({
+        data: 'journal-1',
+        error: null,
+      });
+
+      await service.post('expense-1', mockTenantId, 'manager-id');
+
+      const [{ lines }] = journalsService.prepare.mock.calls[0];
+      expect(lines[lines.length - 1]).toEqual(
+        expect.objectContaining({
+          accountId: 'employee-payable',
+          credit: 1250,
+        }),
+      );
+    });
+  });
+
+  describe('post', () => {
+    it('should debit accounts by cost center and input VAT, and credit payables', async () => {
+      tables.expenses = [
+        queryResult({ data: approvedExpense, error: null }),
+        queryResult({ data: approvedExpense, error: null }),
+      ];
+      mockSupabaseClient.rpc.mockResolvedValue({
+        data: 'journal-1',
+        error: null,
+      });
+
+      await service.post('expense-1', mockTenantId, mockUserId);
+
+      expect(
+        expenseAttachmentsService.assertReceiptPolicy,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'expense-1' }),
+        mockTenantId,
+      );
+      expect(periodGuard.assertOpen).toHaveBeenCalledWith(
+        mockTenantId,
+        '2026-10-12',
+        expect.objectContaining({ documentType: 'expense', action: 'post' }),
+      );
+      expect(journalsService.prepare).toHaveBeenCalledWith(
+        expect.objectContaining({
+          journalType: 'expense',
+          referenceNumber: 'EXP-2026-000001',
+          sourceModule: 'expenses',
+          sourceId: 'expense-1',
+          lines: [
+            expect.objectContaining({
+              accountId: 'travel',
+              costCenterId: 'cc-sales',
+              debit: 600,
+            }),
+            expect.objectContaining({
+              accountId: 'travel',
+              costCenterId: 'cc-ops',
+              debit: 400,
+            }),
+            expect.objectContaining({
+              accountId: 'meals',
+              costCenterId: 'cc-sales',
+              debit: 200,
+            }),
+            expect.objectContaining({ accountId: 'input-vat', debit: 50 }),
+            expect.objectContaining({ accountId: 'ap', credit: 1250 }),
+          ],
+        }),
+        mockTenantId,
+        mockUserId,
+        undefined,
+        { allowLockedPeriod: true },
+      );
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        'post_expense_with_journal',
+        expect.objectContaining({ p_expense_id: 'expense-1' }),
+      );
+    });
+
+    it('should not post an expense missing a receipt the policy requires', async () => {
+      tables.expenses = [queryResult({ data: approvedExpense, error: null })];
+      expenseAttachmentsService.assertReceiptPolicy.mockRejectedValue(
+        new BadRequestException(
+          'A receipt must be attached to post an expense over 500.00',
+        ),
+      );
+
+      await expect(
+        service.post('expense-1', mockTenantId, mockUserId),
+      ).rejects.toThrow(
+        'A receipt must be attached to post an expense over 500.00',
+      );
+      expect(journalsService.prepare).not.toHaveBeenCalled();
+      expect(mockSupabaseClient.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should not post an expense that is not approved', async () => {
+      tables.expenses = [
+        queryResult({
+          data: { ...approvedExpense, approval_status: 'pending' },
+          error: null,
+        }),
+      ];
+
+      await expect(
+        service.post('expense-1', mockTenantId, mockUserId),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockSupabaseClient.rpc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSummary', () => {
+    it('should total this month and week in base currency by category', async () => {
+      tables.expenses = [
+        queryResult({
+          data: [
+            {
+              expense_date: '2026-10-01',
+              category: 'travel',
+              total_amount: 1000,
+              exchange_rate: 1,
+            },
+            {
+              expense_date: '2026-10-19',
+              category: 'meals',
+              total_amount: 100,
+              exchange_rate: 3.64,
+            },
+          ],
+          error: null,
+        }),
+        queryResult({ count: 2, error: null }),
+      ];
+
+      const result = await service.getSummary(
+        mockTenantId,
+        new Date('2026-10-19T10:00:00.000Z'),
+      );
+
+      expect(result).toEqual({
+        totalThisMonth: 1364,
+        pendingApproval: 2,
+        thisWeek: 364,
+        byCategory: { travel: 1000, meals: 364 },
+      });
+    });
+  });
+});
@@ -1,18 +1,980 @@
-import { Injectable } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
 import { SupabaseService } from '../supabase/supabase.service';
+import { JournalsService, PreparedJournal } from '../journals/journals.service';
+import { AccountMappingsService } from '../account-mappings/account-mappings.service';
+import {
+  PeriodGuardService,
+  PeriodOverrideOptions,
+} from '../fiscal-periods/period-guard.service';
+import { ExpenseAttachmentsService } from './expense-attachments.service';
+import { CreateExpenseDto } from './dto/create-expense.dto';
+import { UpdateExpenseDto } from './dto/update-expense.dto';
+import { CreateClaimDto } from './dto/create-claim.dto';
+import { ExpenseLineDto } from './dto/expense-line.dto';
 
+export interface ExpenseFilters {
+  status?: string;
+  approvalStatus?: string;
+  category?: string;
+  employeeId?: string;
+  vendorId?: string;
+  isClaim?: boolean;
+  startDate?: string;
+  endDate?: string;
+  search?: string;
+}
+
+// Rows looked up to validate expense lines
+interface LineAccount {
+  id: string;
+  is_active: boolean;
+  is_posting_allowed: boolean;
+}
+
+interface LineVatCode {
+  id: string;
+  type: string;
+  rate: number;
+  is_active: boolean;
+}
+
+interface LineCostCenter {
+  id: string;
+  is_active: boolean;
+}
+
+const EXPENSE_SELECT = `
+  *,
+  expense_lines(*),
+  vendor:vendors(id, name_en, name_ar),
+  employee:users!expenses_employee_id_fkey(id, first_name_en, last_name_en, first_name_ar, last_name_ar)
+`;
+
+/**
+ * Expenses
+ *
+ * An expense is created as a draft and submitted for approval. An approver
+ * approves it or rejects it with a reason, which returns it to draft to be
+ * corrected and submitted again. An approved expense is posted with an
+ * expense journal debiting each line's account, by cost center, and input
+ * VAT, and crediting accounts payable; its input VAT is recorded in
+ * vat_transactions. Only drafts can be edited or deleted. Posting needs a
+ * receipt attached when the tenant's receipt policy requires one.
+ *
+ * An expense claim is an expense an employee paid themselves and is owed
+ * back. Employees create, edit and submit their own claims; someone else
+ * approves them. A posted claim credits the employee payable account instead
+ * of accounts payable, and is settled by a reimbursement run (see
+ * ExpenseReimbursementsService).
+ */
 @Injectable()
 export class ExpensesService {
-  constructor(private supabaseService: SupabaseService) {}
+  constructor(
+    private supabaseService: SupabaseService,
+    private journalsService: JournalsService,
+    private periodGuard: PeriodGuardService,
+    private accountMappingsService: AccountMappingsService,
+    private expenseAttachmentsService: ExpenseAttachmentsService,
+  ) {}
+
+  async findAll(tenantId: string, filters: ExpenseFilters = {}) {
+    const supabase = this.supabaseService.getClient();
+
+    let query = supabase
+      .from('expenses')
+      .select(EXPENSE_SELECT)
+      .eq('tenant_id', tenantId)
+      .is('deleted_at', null)
+      .order('expense_date', { ascending: false })
+      .order('expense_number', { ascending: false });
+
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+
+    if (filters.approvalStatus) {
+      query = query.eq('approval_status', filters.approvalStatus);
+    }
+
+    if (filters.category) {
+      query = query.eq('category', filters.category);
+    }
+
+    if (filters.employeeId) {
+      query = query.eq('employee_id', filters.employeeId);
+    }
+
+    if (filters.vendorId) {
+      query = query.eq('vendor_id', filters.vendorId);
+    }
+
+    if (filters.isClaim !== undefined) {
+      query = query.eq('is_claim', filters.isClaim);
+    }
+
+    if (filters.startDate) {
+      query = query.gte('expense_date', filters.startDate);
+    }
+
+    if (filters.endDate) {
+      query = query.lte('expense_date', filters.endDate);
+    }
+
+    if (filters.search) {
+      const search = filters.search.replace(/[,()]/g, ' ');
+      query = query.or(
+        `expense_number.ilike.%${search}%,title_ar.ilike.%${search}%,title_en.ilike.%${search}%`,
+      );
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    return (data || []).map((expense) => this.toResponse(expense));
+  }
+
+  /**
+   * Totals in base currency of the expenses dated this month and this week
+   * (from Sunday), this month's totals by category, and the number of
+   * expenses awaiting approval. Rejected expenses are left out.
+   */
+  async getSummary(tenantId: string, today: Date = new Date()) {
+    const supabase = this.supabaseService.getClient();
+
+    const monthStart = new Date(
+      Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1),
+    );
+    const weekStart = new Date(
+      Date.UTC(
+        today.getUTCFullYear(),
+        today.getUTCMonth(),
+        today.getUTCDate() - today.getUTCDay(),
+      ),
+    );
+    const monthFrom = this.toDateString(monthStart);
+    const weekFrom = this.toDateString(weekStart);
+
+    const { data: expenses, error } = await supabase
+      .from('expenses')
+      .select('expense_date, category, total_amount, exchange_rate')
+      .eq('tenant_id', tenantId)
+      .is('deleted_at', null)
+      .neq('approval_status', 'rejected')
+      .gte('expense_date', monthFrom < weekFrom ? monthFrom : weekFrom)
+      .lte('expense_date', this.toDateString(today));
+
+    if (error) throw error;
+
+    const { count, error: countError } = await supabase
+      .from('expenses')
+      .select('id', { count: 'exact', head: true })
+      .eq('tenant_id', tenantId)
+      .is('deleted_at', null)
+      .eq('status', 'submitted')
+      .eq('approval_status', 'pending');
+
+    if (countError) throw countError;
+
+    let totalThisMonth = 0;
+    let thisWeek = 0;
+    const byCategory: Record<string, number> = {};
+
+    for (const expense of expenses || []) {
+      const amount =
+        Number(expense.total_amount) * (Number(expense.exchange_rate) || 1);
+
+      if (expense.expense_date >= weekFrom) {
+        thisWeek += amount;
+      }
+
+      if (expense.expense_date >= monthFrom) {
+        totalThisMonth += amount;
+        const category = expense.category || 'other';
+        byCategory[category] = (byCategory[category] || 0) + amount;
+      }
+    }
+
+    for (const category of Object.keys(byCategory)) {
+      byCategory[category] = this.round(byCategory[category]);
+    }
+
+    return {
+      totalThisMonth: this.round(totalThisMonth),
+      pendingApproval: count || 0,
+      thisWeek: this.round(thisWeek),
+      byCategory,
+    };
+  }
+
+  /**
+   * The user's own expense claims, with their totals in base currency by
+   * where they are in the approval and reimbursement process
+   */
+  async findMyClaims(
+    tenantId: string,
+    userId: string,
+    filters: Pick<ExpenseFilters, 'status' | 'startDate' | 'endDate'> = {},
+  ) {
+    const claims = await this.findAll(tenantId, {
+      ...filters,
+      employeeId: userId,
+      isClaim: true,
+    });
+
+    const summary = {
+      draft: 0,
+      awaitingApproval: 0,
+      awaitingReimbursement: 0,
+      reimbursed: 0,
+    };
+
+    for (const claim of claims) {
+      const amount =
+        Number(claim.total_amount) * (Number(claim.exchange_rate) || 1);
+
+      if (claim.status === 'paid') {
+        summary.reimbursed += amount;
+      } else if (
+        claim.status === 'posted' ||
+        claim.approval_status === 'approved'
+      ) {
+        summary.awaitingReimbursement += amount;
+      } else if (claim.status === 'submitted') {
+        summary.awaitingApproval += amount;
+      } else {
+        summary.draft += amount;
+      }
+    }
+
+    return {
+      data: claims,
+      summary: {
+        draft: this.round(summary.draft),
+        awaitingApproval: this.round(summary.awaitingApproval),
+        awaitingReimbursement: this.round(summary.awaitingReimbursement),
+        reimbursed: this.round(summary.reimbursed),
+      },
+    };
+  }
+
+  async findOne(id: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('expenses')
+      .select(EXPENSE_SELECT)
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!data) {
+      throw new NotFoundException('Expense not found');
+    }
+
+    return this.toResponse(data);
+  }
+
+  async create(
+    createDto: CreateExpenseDto,
+    tenantId: string,
+    userId?: string,
+    branchId?: string,
+  ) {
+    return this.insertExpense(createDto, false, tenantId, userId, branchId);
+  }
+
+  /**
+   * Create a draft expense claim of the current user
+   */
+  async createClaim(
+    createDto: CreateClaimDto,
+    tenantId: string,
+    userId: string,
+    branchId?: string,
+  ) {
+    return this.insertExpense(
+      { ...createDto, employeeId: userId },
+      true,
+      tenantId,
+      userId,
+      branchId,
+    );
+  }
+
+  /**
+   * Update a draft expense. Lines, when given, replace all existing lines.
+   * With claimantId, the expense must be that user's own claim.
+   */
+  async update(
+    id: string,
+    updateDto: UpdateExpenseDto,
+    tenantId: string,
+    claimantId?: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+    const expense = await this.findOne(id, tenantId);
+    this.assertClaimant(expense, claimantId);
+
+    if (expense.status !== 'draft') {
+      throw new BadRequestException('Only draft expenses can be updated');
+    }
+
+    const updates: Record<string, any> = {};
+
+    if (updateDto.titleAr !== undefined) updates.title_ar = updateDto.titleAr;
+    if (updateDto.titleEn !== undefined) updates.title_en = updateDto.titleEn;
+    if (updateDto.expenseDate !== undefined) {
+      updates.expense_date = this.toDateString(updateDto.expenseDate);
+    }
+    if (updateDto.employeeId !== undefined) {
+      if (expense.is_claim && updateDto.employeeId !== expense.employee_id) {
+        throw new BadRequestException(
+          'The employee of an expense claim cannot be changed',
+        );
+      }
+      updates.employee_id = updateDto.employeeId;
+    }
+    if (
+      updateDto.vendorId !== undefined &&
+      updateDto.vendorId !== expense.vendor_id
+    ) {
+      if (updateDto.vendorId) {
+        if (expense.is_claim) {
+          throw new BadRequestException(
+            'An expense claim cannot have a vendor',
+          );
+        }
+        await this.assertVendor(updateDto.vendorId, tenantId);
+      }
+      updates.vendor_id = updateDto.vendorId;
+    }
+    if (updateDto.category !== undefined) {
+      updates.category = updateDto.category;
+    }
+    if (updateDto.currency !== undefined) {
+      updates.currency = updateDto.currency.toUpperCase();
+    }
+    if (updateDto.exchangeRate !== undefined) {
+      updates.exchange_rate = updateDto.exchangeRate;
+    }
+    if (updateDto.notes !== undefined) updates.notes = updateDto.notes;
+
+    let lines: Record<string, any>[] | undefined;
+    if (updateDto.lines) {
+      const calculated = await this.calculateLines(updateDto.lines, tenantId);
+      lines = calculated.lines;
+      Object.assign(updates, calculated.totals);
+    }
+
+    if (Object.keys(updates).length > 0) {
+      await this.transition(id, tenantId, { status: 'draft' }, updates);
+    }
+
+    if (lines) {
+      const { error: deleteError } = await supabase
+        .from('expense_lines')
+        .delete()
+        .eq('expense_id', id);
+
+      if (deleteError) throw deleteError;
+
+      await this.insertLines(id, tenantId, lines);
+    }
+
+    return this.findOne(id, tenantId);
+  }
+
+  /**
+   * Delete a draft expense. It is kept with deleted_at set, so its number is
+   * not reused. With claimantId, the expense must be that user's own claim.
+   */
+  async remove(id: string, tenantId: string, claimantId?: string) {
+    const expense = await this.findOne(id, tenantId);
+    this.assertClaimant(expense, claimantId);
+
+    if (expense.status !== 'draft') {
+      throw new BadRequestException('Only draft expenses can be deleted');
+    }
+
+    const supabase = this.supabaseService.getClient();
+    const { error } = await supabase
+      .from('expenses')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .eq('status', 'draft');
+
+    if (error) throw error;
+
+    return { success: true };
+  }
+
+  /**
+   * Submit a draft expense for approval. With claimantId, the expense must be
+   * that user's own claim.
+   */
+  async submit(
+    id: string,
+    tenantId: string,
+    userId?: string,
+    claimantId?: string,
+  ) {
+    const expense = await this.findOne(id, tenantId);
+    this.assertClaimant(expense, claimantId);
+
+    if (expense.status !== 'draft') {
+      throw new BadRequestException('Can only submit draft expenses');
+    }
+
+    return this.transition(
+      id,
+      tenantId,
+      { status: 'draft' },
+      {
+        status: 'submitted',
+        approval_status: 'pending',
+        submitted_by: userId,
+        submitted_at: new Date().toISOString(),
+        rejected_by: null,
+        rejected_at: null,
+        rejection_reason: null,
+      },
+    );
+  }
+
+  async approve(id: string, tenantId: string, userId?: string) {
+    const expense = await this.findOne(id, tenantId);
+    this.assertAwaitingApproval(expense, userId);
+
+    return this.transition(
+      id,
+      tenantId,
+      { status: 'submitted', approval_status: 'pending' },
+      {
+        approval_status: 'approved',
+        approved_by: userId,
+        approved_at: new Date().toISOString(),
+      },
+    );
+  }
+
+  /**
+   * Reject a submitted expense. It returns to draft with the reason, to be
+   * corrected and submitted again.
+   */
+  async reject(id: string, reason: string, tenantId: string, userId?: string) {
+    const expense = await this.findOne(id, tenantId);
+    this.assertAwaitingApproval(expense, userId);
+
+    return this.transition(
+      id,
+      tenantId,
+      { status: 'submitted', approval_status: 'pending' },
+      {
+        status: 'draft',
+        approval_status: 'rejected',
+        rejected_by: userId,
+        rejected_at: new Date().toISOString(),
+        rejection_reason: reason,
+      },
+    );
+  }
+  async post(
+    id: string,
+    tenantId: string,
+    userId?: string,
+    options?: PeriodOverrideOptions,
+  ) {
+    const supabase = this.supabaseService.getClient();
+    const expense = await this.findOne(id, tenantId);
+
+    if (['posted', 'paid'].includes(expense.status)) {
+      throw new BadRequestException('Expense has already been posted');
+    }
+
+    if (
+      expense.status !== 'submitted' ||
+      expense.approval_status !== 'approved'
+    ) {
+      throw new BadRequestException('Can only post approved expenses');
+    }
+
+    await this.expenseAttachmentsService.assertReceiptPolicy(expense, tenantId);
+
+    await this.periodGuard.assertOpen(tenantId, expense.expense_date, {
+      documentType: 'expense',
+      action: 'post',
+      documentId: id,
+      userId,
+      overrideCode: options?.overrideCode,
+    });
+
+    try {
+      const journal = await this.prepareExpenseJournal(
+        expense,
+        tenantId,
+        userId,
+      );
+
+      // The journal, the expense status and its VAT transactions are written
+      // in one transaction
+      const { error } = await supabase.rpc('post_expense_with_journal', {
+        p_expense_id: id,
+        p_tenant_id: tenantId,
+        p_user_id: userId,
+        p_journal: journal.journal,
+        p_lines: journal.lines,
+      });
+
+      if (error) throw error;
+    } catch (error) {
+      throw new BadRequestException(
+        `Failed to create journal entry: ${error.message}`,
+      );
+    }
+
+    return this.findOne(id, tenantId);
+  }
+
+  private async insertExpense(
+    createDto: CreateExpenseDto,
+    isClaim: boolean,
+    tenantId: string,
+    userId?: string,
+    branchId?: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    if (createDto.vendorId) {
+      await this.assertVendor(createDto.vendorId, tenantId);
+    }
+
+    const { lines, totals } = await this.calculateLines(
+      createDto.lines,
+      tenantId,
+    );
+
+    const { data: expenseNumber, error: numberError } = await supabase.rpc(
+      'generate_expense_number',
+      { p_tenant_id: tenantId },
+    );
+
+    if (numberError) throw numberError;
+
+    const { data: expense, error } = await supabase
+      .from('expenses')
+      .insert({
+        tenant_id: tenantId,
+        branch_id: branchId,
+        expense_number: expenseNumber,
+        title_ar: createDto.titleAr,
+        title_en: createDto.titleEn,
+        expense_date: this.toDateString(createDto.expenseDate),
+        employee_id: createDto.employeeId,
+        vendor_id: createDto.vendorId,
+        is_claim: isClaim,
+        category: createDto.category,
+        currency: createDto.currency?.toUpperCase() || 'QAR',
+        exchange_rate: createDto.exchangeRate || 1,
+        notes: createDto.notes,
+        status: 'draft',
+        approval_status: 'pending',
+        created_by: userId,
+        ...totals,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await this.insertLines(expense.id, tenantId, lines);
+
+    return this.findOne(expense.id, tenantId);
+  }
+
+  /**
+   * A claimant may only act on their own claims. Other expenses are reported
+   * as not found rather than forbidden.
+   */
+  private assertClaimant(expense: any, claimantId?: string) {
+    if (
+      claimantId &&
+      (!expense.is_claim || expense.employee_id !== claimantId)
+    ) {
+      throw new NotFoundException('Expense claim not found');
+    }
+  }
+
+  private assertAwaitingApproval(expense: any, userId?: string) {
+    if (expense.is_claim && expense.employee_id === userId) {
+      throw new ForbiddenException(
+        'You cannot approve or reject your own expense claim',
+      );
+    }
+
+    if (
+      expense.status !== 'submitted' ||
+      expense.approval_status !== 'pending'
+    ) {
+      throw new BadRequestException(
+        expense.approval_status === 'approved'
+          ? 'The expense has already been approved'
+          : 'The expense must be submitted before it is approved or rejected',
+      );
+    }
+  }
+
+  /**
+   * Debit each line's account by cost center and input VAT by VAT account;
+   * credit the total to accounts payable, or the vendor's own payable
+   * account, or for a claim to the employee payable account
+   */
+  private async prepareExpenseJournal(
+    expense: any,
+    tenantId: string,
+    userId?: string,
+  ): Promise<PreparedJournal> {
+    const lines: any[] = expense.expense_lines;
+
+    const mappings = await this.accountMappingsService.resolve(
+      tenantId,
+      expense.vendor_id ? { vendorId: expense.vendor_id } : {},
+    );
+    const taxAccounts = await this.accountMappingsService.resolveVatAccounts(
+      tenantId,
+      lines.map((line) => line.tax_code_id),
+    );
+
+    const expenseGroups = new Map<
+      string,
+      {
+        accountId: string;
+        costCenterId?: string;
+        amount: number;
+        descriptions: string[];
+      }
+    >();
+    const taxGroups = new Map<string, number>();
+
+    for (const line of lines) {
+      const key = `${line.account_id}:${line.cost_center_id || ''}`;
+      const group = expenseGroups.get(key) || {
+        accountId: line.account_id,
+        costCenterId: line.cost_center_id || undefined,
+        amount: 0,
+        descriptions: [],
+      };
+      group.amount += Number(line.amount);
+      group.descriptions.push(line.description_ar);
+      expenseGroups.set(key, group);
+
+      const taxAmount = Number(line.tax_amount) || 0;
+      if (taxAmount > 0) {
+        const accountId =
+          taxAccounts.get(line.tax_code_id) ||
+          this.accountMappingsService.requireAccount(mappings, 'input_vat');
+        taxGroups.set(accountId, (taxGroups.get(accountId) || 0) + taxAmount);
+      }
+    }
+
+    const payableAccountId = this.accountMappingsService.requireAccount(
+      mappings,
+      expense.is_claim ? 'employee_payable' : 'payable',
+    );
+
+    let lineNumber = 1;
+    const journalLines: Array<{
+      lineNumber: number;
+      accountId: string;
+      descriptionAr?: string;
+      descriptionEn?: string;
+      costCenterId?: string;
+      debit: number;
+      credit: number;
+    }> = [];
+
+    for (const group of expenseGroups.values()) {
+      journalLines.push({
+        lineNumber: lineNumber++,
+        accountId: group.accountId,
+        descriptionAr: group.descriptions.join('; '),
+        costCenterId: group.costCenterId,
+        debit: this.round(group.amount),
+        credit: 0,
+      });
+    }
+
+    taxGroups.forEach((taxAmount, accountId) => {
+      journalLines.push({
+        lineNumber: lineNumber++,
+        accountId,
+        descriptionAr: 'ضريبة القيمة المضافة على المدخلات',
+        descriptionEn: 'Input VAT',
+        debit: this.round(taxAmount),
+        credit: 0,
+      });
+    });
+
+    journalLines.push({
+      lineNumber: lineNumber++,
+      accountId: payableAccountId,
+      descriptionAr: expense.title_ar,
+      descriptionEn: expense.title_en,
+      debit: 0,
+      credit: this.round(Number(expense.total_amount)),
+    });
+
+    return this.journalsService.prepare(
+      {
+        journalType: 'expense',
+        referenceNumber: expense.expense_number,
+        descriptionAr: `مصروف رقم ${expense.expense_number}`,
+        descriptionEn: `Expense ${expense.expense_number}`,
+        transactionDate: new Date(expense.expense_date),
+        currency: expense.currency,
+        exchangeRate: Number(expense.exchange_rate) || 1,
+        sourceModule: 'expenses',
+        sourceId: expense.id,
+        lines: journalLines,
+      },
+      tenantId,
+      userId || expense.created_by,
+      expense.branch_id,
+      // The expense's own period check already ran in post()
+      { allowLockedPeriod: true },
+    );
+  }
+
+  /**
+   * Line rows with VAT from each line's input VAT code, and the expense
+   * totals. Accounts, VAT codes and cost centers must belong to the tenant.
+   */
+  private async calculateLines(items: ExpenseLineDto[], tenantId: string) {
+    const [accounts, vatCodes, costCenters] = await Promise.all([
+      this.findByIds<LineAccount>(
+        'chart_of_accounts',
+        'id, is_active, is_posting_allowed',
+        items.map((item) => item.accountId),
+        tenantId,
+      ),
+      this.findByIds<LineVatCode>(
+        'vat_codes',
+        'id, type, rate, is_active',
+        items.map((item) => item.taxCodeId),
+        tenantId,
+      ),
+      this.findByIds<LineCostCenter>(
+        'cost_centers',
+        'id, is_active',
+        items.map((item) => item.costCenterId),
+        tenantId,
+      ),
+    ]);
+
+    let taxTotal = 0;
+    let total = 0;
+
+    const lines = items.map((item, index) => {
+      const lineNumber = index + 1;
+      const account = accounts.get(item.accountId);
+
+      if (!account) {
+        throw new BadRequestException(`Line ${lineNumber}: account not found`);
+      }
+
+      if (!account.is_active || !account.is_posting_allowed) {
+        throw new BadRequestException(
+          `Line ${lineNumber}: cannot post to an inactive or non-posting account`,
+        );
+      }
+
+      let taxPercentage = 0;
+      if (item.taxCodeId) {
+        const vatCode = vatCodes.get(item.taxCodeId);
+
+        if (!vatCode || vatCode.type !== 'input' || !vatCode.is_active) {
+          throw new BadRequestException(
+            `Line ${lineNumber}: the VAT code must be an active input VAT code`,
+          );
+        }
+
+        taxPercentage = Number(vatCode.rate);
+      }
+
+      if (item.costCenterId) {
+        const costCenter = costCenters.get(item.costCenterId);
+
+        if (!costCenter || !costCenter.is_active) {
+          throw new BadRequestException(
+            `Line ${lineNumber}: cost center not found or inactive`,
+          );
+        }
+      }
+
+      const amount = this.round(item.amount);
+      const taxAmount = this.round((amount * taxPercentage) / 100);
+      taxTotal += taxAmount;
+      total += amount + taxAmount;
+
+      return {
+        line_number: lineNumber,
+        description_ar: item.descriptionAr,
+        description_en: item.descriptionEn,
+        account_id: item.accountId,
+        amount,
+        tax_code_id: item.taxCodeId || null,
+        tax_percentage: taxPercentage,
+        tax_amount: taxAmount,
+        cost_center_id: item.costCenterId || null,
+      };
+    });
+
+    return {
+      lines,
+      totals: {
+        tax_amount: this.round(taxTotal),
+        total_amount: this.round(total),
+      },
+    };
+  }
+
+  private async findByIds<T extends { id: string }>(
+    table: 'chart_of_accounts' | 'vat_codes' | 'cost_centers',
+    columns: string,
+    ids: (string | undefined)[],
+    tenantId: string,
+  ): Promise<Map<string, T>> {
+    const rows = new Map<string, T>();
+    const uniqueIds = [...new Set(ids.filter(Boolean))];
+
+    if (uniqueIds.length === 0) {
+      return rows;
+    }
 
-  async findAll(tenantId: string) {
     const supabase = this.supabaseService.getClient();
     const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .eq('tenant_id', tenantId)
+      .in('id', uniqueIds)
+      .overrideTypes<T[], { merge: false }>();
+
+    if (error) throw error;
+
+    for (const row of data || []) {
+      rows.set(row.id, row);
+    }
+
+    return rows;
+  }
+
+  private async insertLines(
+    expenseId: string,
+    tenantId: string,
+    lines: Record<string, any>[],
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const { error } = await supabase.from('expense_lines').insert(
+      lines.map((line) => ({
+        ...line,
+        expense_id: expenseId,
+        tenant_id: tenantId,
+      })),
+    );
+
+    if (error) throw error;
+  }
+
+  /**
+   * Update an expense only if it is still in the given state, so two
+   * concurrent requests cannot both succeed
+   */
+  private async transition(
+    id: string,
+    tenantId: string,
+    from: { status: string; approval_status?: string },
+    updates: Record<string, any>,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    let query = supabase
       .from('expenses')
-      .select('*')
-      .eq('tenant_id', tenantId);
+      .update(updates)
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .is('deleted_at', null)
+      .eq('status', from.status);
+
+    if (from.approval_status) {
+      query = query.eq('approval_status', from.approval_status);
+    }
+
+    const { data, error } = await query.select('id');
+
+    if (error) throw error;
+
+    if (!data || data.length === 0) {
+      throw new BadRequestException(
+        'The expense was changed by another request; reload and try again',
+      );
+    }
+
+    return this.findOne(id, tenantId);
+  }
+
+  private async assertVendor(vendorId: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: vendor, error } = await supabase
+      .from('vendors')
+      .select('id')
+      .eq('id', vendorId)
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
 
     if (error) throw error;
-    return data;
+
+    if (!vendor) {
+      throw new BadRequestException('Vendor not found');
+    }
+  }
+
+  /**
+   * Shape an expense row like the frontend Expense type
+   */
+  private toResponse(expense: any) {
+    return {
+      ...expense,
+      expense_lines: [...(expense.expense_lines || [])].sort(
+        (a, b) => a.line_number - b.line_number,
+      ),
+      date: expense.expense_date,
+      description: expense.title_en || expense.title_ar,
+      amount: expense.total_amount,
+      vendor_name: expense.vendor?.name_en,
+      employee_name: expense.employee
+        ? [expense.employee.first_name_en, expense.employee.last_name_en]
+            .filter(Boolean)
+            .join(' ')
+        : undefined,
+    };
+  }
+
+  private toDateString(date: Date | string): string {
+    return (date instanceof Date ? date.toISOString() : date).split('T')[0];
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
   }
 }
@@ -1,6 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import * as ExcelJS from 'exceljs';
 import { Readable } from 'stream';
+import type { AgingReport } from '../reports/reports.service';
 
 export interface ExportFilters {
   startDate?: string;
@@ -721,4 +722,97 @@ export class ExportService {
 
     return workbook.xlsx.writeBuffer().then((buf) => Buffer.from(buf));
   }
+
+  // Aging Report Exports
+  async exportAgingReportToExcel(report: AgingReport): Promise<Buffer> {
+    const isReceivable = report.party_type === 'customer';
+    const headers = [
+      'Code / الكود',
+      isReceivable ? 'Customer / العميل' : 'Vendor / المورد',
+      'Currencies / العملات',
+      ...report.buckets.map((bucket) => bucket.label),
+      `Total (${report.currency}) / الإجمالي`,
+    ];
+
+    const data = report.parties.map((party) => [
+      party.code || '',
+      party.name_en || party.name_ar || '',
+      party.currencies.join(', '),
+      ...report.buckets.map((bucket) => party.balances[bucket.key] || 0),
+      party.total,
+    ]);
+
+    const buffer = await this.generateExcel(
+      isReceivable ? 'AR Aging' : 'AP Aging',
+      headers,
+      data,
+    );
+
+    // Add totals row
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer as any);
+    const worksheet = workbook.worksheets[0];
+
+    const totalsRow = worksheet.addRow([
+      '',
+      `TOTALS / الإجماليات (${report.as_of_date}):`,
+      '',
+      ...report.buckets.map((bucket) => report.totals.balances[bucket.key] || 0),
+      report.totals.total,
+    ]);
+
+    totalsRow.font = { bold: true, size: 12 };
+    totalsRow.fill = {
+      type: 'pattern',
+      pattern: 'solid',
+      fgColor: { argb: 'FFFFD700' },
+    };
+
+    // Invoice drilldown, when the report includes it
+    const invoices = report.parties.flatMap((party) =>
+      (party.invoices || []).map((inv) => ({ party, inv })),
+    );
+
+    if (invoices.length > 0) {
+      const detail = workbook.addWorksheet('Invoices');
+      const detailHeader = detail.addRow([
+        'Code / الكود',
+        isReceivable ? 'Customer / العميل' : 'Vendor / المورد',
+        'Invoice # / رقم الفاتورة',
+        'Date / التاريخ',
+        'Due Date / تاريخ الاستحقاق',
+        'Days / الأيام',
+        'Bucket / الفترة',
+        'Currency / العملة',
+        'Balance / الرصيد',
+        `Balance (${report.currency}) / الرصيد`,
+      ]);
+      detailHeader.font = { bold: true, size: 12 };
+
+      const labels = new Map(
+        report.buckets.map((bucket) => [bucket.key, bucket.label]),
+      );
+      invoices.forEach(({ party, inv }) => {
+        detail.addRow([
+          party.code || '',
+          party.name_en || party.name_ar || '',
+          inv.invoice_number,
+          inv.invoice_date,
+          inv.due_date || '',
+          inv.days,
+          labels.get(inv.bucket) || inv.bucket,
+          inv.currency,
+          inv.document_balance,
+          inv.balance,
+        ]);
+      });
+
+      detail.views = [{ state: 'frozen', ySplit: 1 }];
+      detail.columns.forEach((column) => {
+        column.width = 18;
+      });
+    }
+
+    return workbook.xlsx.writeBuffer().then((buf) => Buffer.from(buf));
+  }
 }
@@ -0,0 +1,11 @@
+import { IsOptional, IsUUID, IsString } from 'class-validator';
+
+export class CloseFiscalYearDto {
+  @IsUUID()
+  @IsOptional()
+  retainedEarningsAccountId?: string;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+}
@@ -36,7 +36,7 @@ export class CreateFiscalPeriodDto {
   @IsNumber()
   @IsNotEmpty()
   @Min(1)
-  @Max(12)
+  @Max(13)
   periodNumber: number;
 
   @IsDate()
@@ -0,0 +1,11 @@
+import { IsString, IsOptional, MinLength, MaxLength } from 'class-validator';
+
+export class LockFiscalPeriodDto {
+  // Code that lets users with override permission post into the period
+  // while it is locked. Without a code the lock cannot be overridden.
+  @IsString()
+  @IsOptional()
+  @MinLength(6)
+  @MaxLength(50)
+  overrideCode?: string;
+}
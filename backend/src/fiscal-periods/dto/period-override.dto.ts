@@ -0,0 +1,10 @@
+import { IsString, IsOptional, MaxLength } from 'class-validator';
+
+export class PeriodOverrideDto {
+  // Override code of a locked fiscal period; requires the
+  // settings:override:period permission
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  overrideCode?: string;
+}
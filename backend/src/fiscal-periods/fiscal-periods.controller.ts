@@ -16,7 +16,12 @@ import {
 } from '@nestjs/swagger';
 import { FiscalPeriodsService } from './fiscal-periods.service';
 import { TenantContextGuard } from '../common/guards/tenant-context.guard';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
 import { TenantContext } from '../common/decorators/tenant-context.decorator';
+import { CloseFiscalYearDto } from './dto/close-fiscal-year.dto';
+import { ReopenFiscalYearDto } from './dto/reopen-fiscal-year.dto';
+import { LockFiscalPeriodDto } from './dto/lock-fiscal-period.dto';
 
 @ApiTags('fiscal-periods')
 @Controller('fiscal-periods')
@@ -42,8 +47,13 @@ export class FiscalPeriodsController {
 
   @Post(':id/lock')
   @ApiOperation({ summary: 'Lock a fiscal period' })
-  lock(@Param('id') id: string, @TenantContext('tenantId') tenantId: string) {
-    return this.fiscalPeriodsService.lock(id, tenantId);
+  lock(
+    @Param('id') id: string,
+    @Body() lockDto: LockFiscalPeriodDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
+  ) {
+    return this.fiscalPeriodsService.lock(id, tenantId, userId, lockDto.overrideCode);
   }
 
   @Post(':id/unlock')
@@ -51,4 +61,32 @@ export class FiscalPeriodsController {
   unlock(@Param('id') id: string, @TenantContext('tenantId') tenantId: string) {
     return this.fiscalPeriodsService.unlock(id, tenantId);
   }
+
+  @Post('years/:id/close')
+  @UseGuards(PermissionsGuard)
+  @RequirePermissions({ module: 'settings', action: 'close', resource: 'fiscal_year' })
+  @ApiOperation({ summary: 'Close a fiscal year into retained earnings' })
+  @ApiResponse({ status: 201, description: 'Fiscal year closed' })
+  closeYear(
+    @Param('id') id: string,
+    @Body() closeDto: CloseFiscalYearDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
+  ) {
+    return this.fiscalPeriodsService.closeYear(id, closeDto, tenantId, userId);
+  }
+
+  @Post('years/:id/reopen')
+  @UseGuards(PermissionsGuard)
+  @RequirePermissions({ module: 'settings', action: 'reopen', resource: 'fiscal_year' })
+  @ApiOperation({ summary: 'Reopen a closed fiscal year and reverse its closing journal' })
+  @ApiResponse({ status: 201, description: 'Fiscal year reopened' })
+  reopenYear(
+    @Param('id') id: string,
+    @Body() reopenDto: ReopenFiscalYearDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
+  ) {
+    return this.fiscalPeriodsService.reopenYear(id, reopenDto.reason, tenantId, userId);
+  }
 }
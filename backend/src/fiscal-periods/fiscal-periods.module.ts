@@ -2,9 +2,11 @@ import { Module } from '@nestjs/common';
 import { FiscalPeriodsService } from './fiscal-periods.service';
 import { FiscalPeriodsController } from './fiscal-periods.controller';
 import { SupabaseModule } from '../supabase/supabase.module';
+import { JournalsModule } from '../journals/journals.module';
+import { AccountMappingsModule } from '../account-mappings/account-mappings.module';
 
 @Module({
-  imports: [SupabaseModule],
+  imports: [SupabaseModule, JournalsModule, AccountMappingsModule],
   controllers: [FiscalPeriodsController],
   providers: [FiscalPeriodsService],
   exports: [FiscalPeriodsService],
@@ -0,0 +1,219 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { FiscalPeriodsService } from './fiscal-periods.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { JournalsService } from '../journals/journals.service';
+import { AccountMappingsService } from '../account-mappings/account-mappings.service';
+import { queryResult } from '../../test/utils/query-result';
+
+describe('FiscalPeriodsService', () => {
+  let service: FiscalPeriodsService;
+  let journalsService: any;
+  let mockSupabaseClient: any;
+  let tables: Record<string, any[]>;
+
+  const mockTenantId = 'test-tenant-id';
+  const mockUserId = 'test-user-id';
+
+  const fiscalYear = {
+    id: 'fy-2025',
+    tenant_id: mockTenantId,
+    name: 'FY2025',
+    start_date: '2025-01-01',
+    end_date: '2025-12-31',
+    is_closed: false,
+  };
+
+  beforeEach(async () => {
+    tables = {};
+    mockSupabaseClient = {
+      from: jest.fn((table: string) => tables[table].shift()),
+      rpc: jest.fn(),
+    };
+
+    journalsService = {
+      prepare: jest.fn().mockResolvedValue({
+        journal: { journal_type: 'closing' },
+        lines: [{ line_number: 1 }],
+      }),
+      reverse: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FiscalPeriodsService,
+        {
+          provide: SupabaseService,
+          useValue: {
+            getClient: jest.fn().mockReturnValue(mockSupabaseClient),
+          },
+        },
+        {
+          provide: JournalsService,
+          useValue: journalsService,
+        },
+        {
+          provide: AccountMappingsService,
+          useValue: {
+            resolve: jest
+              .fn()
+              .mockResolvedValue({ retained_earnings: 're-account' }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<FiscalPeriodsService>(FiscalPeriodsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('closeYear', () => {
+    it('should refuse to close a year with unlocked periods', async () => {
+      tables.fiscal_years = [queryResult({ data: fiscalYear })];
+      tables.fiscal_periods = [
+        queryResult({
+          data: [
+            { id: 'p1', name: 'Jan 2025', is_locked: true },
+            { id: 'p12', name: 'Dec 2025', is_locked: false },
+          ],
+          error: null,
+        }),
+      ];
+
+      await expect(
+        service.closeYear(fiscalYear.id, {}, mockTenantId, mockUserId),
+      ).rejects.toThrow(BadRequestException);
+      expect(journalsService.prepare).not.toHaveBeenCalled();
+    });
+
+    // The open year with locked periods, no unposted journals and a valid
+    // retained earnings account
+    function givenClosableYear() {
+      tables.fiscal_years = [queryResult({ data: fiscalYear })];
+      tables.fiscal_periods = [
+        queryResult({
+          data: [{ id: 'p1', name: 'Jan 2025', is_locked: true }],
+          error: null,
+        }),
+      ];
+      tables.journals = [queryResult({ count: 0, error: null })];
+      tables.chart_of_accounts = [
+        queryResult({
+          data: [
+            {
+              id: 're-account',
+              type: 'equity',
+              is_active: true,
+              is_posting_allowed: true,
+            },
+          ],
+          error: null,
+        }),
+      ];
+      mockSupabaseClient.rpc.mockResolvedValueOnce({
+        data: [
+          { account_id: 'sales', account_type: 'revenue', balance: -10000 },
+          { account_id: 'rent', account_type: 'expense', balance: 4000 },
+        ],
+        error: null,
+      });
+    }
+
+    it('should close revenue and expense balances into retained earnings', async () => {
+      givenClosableYear();
+      mockSupabaseClient.rpc.mockResolvedValueOnce({
+        data: { ...fiscalYear, is_closed: true },
+        error: null,
+      });
+
+      const result = await service.closeYear(
+        fiscalYear.id,
+        {},
+        mockTenantId,
+        mockUserId,
+      );
+
+      expect(result.is_closed).toBe(true);
+
+      const [journalDto, , , , options] = journalsService.prepare.mock.calls[0];
+      expect(journalDto.journalType).toBe('closing');
+      expect(options).toEqual({ allowLockedPeriod: true });
+      expect(journalDto.lines).toEqual([
+        expect.objectContaining({
+          accountId: 'sales',
+          debit: 10000,
+          credit: 0,
+        }),
+        expect.objectContaining({ accountId: 'rent', debit: 0, credit: 4000 }),
+        expect.objectContaining({
+          accountId: 're-account',
+          debit: 0,
+          credit: 6000,
+        }),
+      ]);
+      expect(mockSupabaseClient.rpc).toHaveBeenLastCalledWith(
+        'close_fiscal_year_with_journal',
+        {
+          p_fiscal_year_id: fiscalYear.id,
+          p_tenant_id: mockTenantId,
+          p_user_id: mockUserId,
+          p_retained_earnings_account_id: 're-account',
+          p_journal: { journal_type: 'closing' },
+          p_lines: [{ line_number: 1 }],
+        },
+      );
+    });
+
+    it('should leave no closing journal behind when the year cannot be closed', async () => {
+      givenClosableYear();
+      mockSupabaseClient.rpc.mockResolvedValueOnce({
+        data: null,
+        error: { message: 'Fiscal year is already closed' },
+      });
+
+      await expect(
+        service.closeYear(fiscalYear.id, {}, mockTenantId, mockUserId),
+      ).rejects.toThrow(
+        'Failed to close fiscal year: Fiscal year is already closed',
+      );
+      expect(journalsService.reverse).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reopenYear', () => {
+    it('should reverse the closing journal on the last day of the year', async () => {
+      const closedYear = {
+        ...fiscalYear,
+        is_closed: true,
+        closing_journal_id: 'closing-journal-id',
+      };
+      tables.fiscal_years = [
+        queryResult({ data: closedYear }),
+        queryResult({ data: [] }),
+        queryResult({ data: { ...closedYear, is_closed: false }, error: null }),
+      ];
+
+      await service.reopenYear(
+        fiscalYear.id,
+        'Audit adjustment',
+        mockTenantId,
+        mockUserId,
+      );
+
+      expect(journalsService.reverse).toHaveBeenCalledWith(
+        'closing-journal-id',
+        {
+          reversalDate: new Date('2025-12-31'),
+          reason: 'Audit adjustment',
+          force: true,
+        },
+        mockTenantId,
+        mockUserId,
+        { allowLockedPeriod: true },
+      );
+    });
+  });
+});
@@ -1,9 +1,16 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
 import { SupabaseService } from '../supabase/supabase.service';
+import { JournalsService } from '../journals/journals.service';
+import { AccountMappingsService } from '../account-mappings/account-mappings.service';
+import { GuardedPeriod } from './period-guard.service';
 
 @Injectable()
 export class FiscalPeriodsService {
-  constructor(private supabaseService: SupabaseService) {}
+  constructor(
+    private supabaseService: SupabaseService,
+    private journalsService: JournalsService,
+    private accountMappingsService: AccountMappingsService,
+  ) {}
 
   async findAll(tenantId: string) {
     const supabase = this.supabaseService.getClient();
@@ -19,7 +26,7 @@ export class FiscalPeriodsService {
       .order('start_date');
 
     if (error) throw error;
-    return data;
+    return data.map((period) => this.withoutOverrideCode(period));
   }
 
   async findOne(id: string, tenantId: string) {
@@ -32,34 +39,364 @@ export class FiscalPeriodsService {
       .single();
 
     if (error) throw error;
-    return data;
+    return this.withoutOverrideCode(data);
   }
 
-  async lock(id: string, tenantId: string) {
+  /**
+   * Lock a period. An override code lets users with the override permission
+   * still post into it; it is never returned by the read endpoints.
+   */
+  async lock(
+    id: string,
+    tenantId: string,
+    userId: string,
+    overrideCode?: string,
+  ) {
     const supabase = this.supabaseService.getClient();
     const { data, error } = await supabase
       .from('fiscal_periods')
-      .update({ is_locked: true, locked_at: new Date().toISOString() })
+      .update({
+        is_locked: true,
+        locked_by: userId,
+        locked_at: new Date().toISOString(),
+        override_code: overrideCode || null,
+      })
       .eq('id', id)
       .eq('tenant_id', tenantId)
       .select()
       .single();
 
     if (error) throw error;
-    return data;
+    return this.withoutOverrideCode(data);
   }
 
   async unlock(id: string, tenantId: string) {
     const supabase = this.supabaseService.getClient();
+
+    const { data: period } = await supabase
+      .from('fiscal_periods')
+      .select('id, fiscal_years(is_closed)')
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .single()
+      .overrideTypes<
+        Pick<GuardedPeriod, 'id' | 'fiscal_years'>,
+        { merge: false }
+      >();
+
+    if (period?.fiscal_years?.is_closed) {
+      throw new BadRequestException('Cannot unlock a period of a closed fiscal year');
+    }
     const { data, error } = await supabase
       .from('fiscal_periods')
-      .update({ is_locked: false, locked_at: null })
+      .update({
+        is_locked: false,
+        locked_by: null,
+        locked_at: null,
+        override_code: null,
+      })
       .eq('id', id)
       .eq('tenant_id', tenantId)
       .select()
       .single();
 
     if (error) throw error;
+    return this.withoutOverrideCode(data);
+  }
+
+  /**
+   * Close a fiscal year
+   *
+   * Every period of the year must be locked and every journal in it posted.
+   * A closing journal dated on the last day of the year moves the net balance
+   * of each revenue and expense account into retained earnings.
+   */
+  async closeYear(
+    fiscalYearId: string,
+    closeDto: { retainedEarningsAccountId?: string; notes?: string },
+    tenantId: string,
+    userId: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const fiscalYear = await this.findYear(fiscalYearId, tenantId);
+
+    if (fiscalYear.is_closed) {
+      throw new BadRequestException('Fiscal year is already closed');
+    }
+
+    const { data: periods, error: periodsError } = await supabase
+      .from('fiscal_periods')
+      .select('id, name, is_locked')
+      .eq('fiscal_year_id', fiscalYearId)
+      .eq('tenant_id', tenantId);
+
+    if (periodsError) throw periodsError;
+
+    if (!periods || periods.length === 0) {
+      throw new BadRequestException('Fiscal year has no periods');
+    }
+
+    const openPeriods = periods.filter((p) => !p.is_locked);
+    if (openPeriods.length > 0) {
+      throw new BadRequestException(
+        `All periods must be locked before closing the year. Open periods: ${openPeriods.map((p) => p.name).join(', ')}`,
+      );
+    }
+
+    const { count: unpostedCount, error: unpostedError } = await supabase
+      .from('journals')
+      .select('id', { count: 'exact', head: true })
+      .eq('tenant_id', tenantId)
+      .in('status', ['draft', 'submitted', 'approved'])
+      .gte('transaction_date', fiscalYear.start_date)
+      .lte('transaction_date', fiscalYear.end_date);
+
+    if (unpostedError) throw unpostedError;
+
+    if (unpostedCount && unpostedCount > 0) {
+      throw new BadRequestException(
+        `Fiscal year has ${unpostedCount} unposted journal(s). Post or delete them before closing`,
+      );
+    }
+
+    const retainedEarningsAccount = await this.resolveRetainedEarningsAccount(
+      tenantId,
+      closeDto.retainedEarningsAccountId,
+    );
+
+    const { data: balances, error: balancesError } = await supabase.rpc(
+      'get_profit_and_loss_balances',
+      {
+        p_tenant_id: tenantId,
+        p_start_date: fiscalYear.start_date,
+        p_end_date: fiscalYear.end_date,
+      },
+    );
+
+    if (balancesError) throw balancesError;
+
+    const closingJournal =
+      balances && balances.length > 0
+        ? await this.prepareClosingJournal(
+            fiscalYear,
+            balances,
+            retainedEarningsAccount.id,
+            closeDto.notes,
+            tenantId,
+            userId,
+          )
+        : null;
+
+    // The closing journal is posted and the year marked closed in one transaction
+    const { data, error } = await supabase.rpc(
+      'close_fiscal_year_with_journal',
+      {
+        p_fiscal_year_id: fiscalYearId,
+        p_tenant_id: tenantId,
+        p_user_id: userId,
+        p_retained_earnings_account_id: retainedEarningsAccount.id,
+        p_journal: closingJournal?.journal ?? null,
+        p_lines: closingJournal?.lines ?? null,
+      },
+    );
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to close fiscal year: ${error.message}`,
+      );
+    }
+
     return data;
   }
+
+  /**
+   * Reopen a closed fiscal year
+   *
+   * Reverses the closing journal on the last day of the year, so revenue and
+   * expense balances are restored. Periods stay locked until unlocked one by one.
+   */
+  async reopenYear(
+    fiscalYearId: string,
+    reason: string,
+    tenantId: string,
+    userId: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const fiscalYear = await this.findYear(fiscalYearId, tenantId);
+
+    if (!fiscalYear.is_closed) {
+      throw new BadRequestException('Fiscal year is not closed');
+    }
+
+    // A later closed year was built on this year's retained earnings
+    const { data: laterClosedYears } = await supabase
+      .from('fiscal_years')
+      .select('id, name')
+      .eq('tenant_id', tenantId)
+      .eq('is_closed', true)
+      .gt('start_date', fiscalYear.end_date)
+      .limit(1);
+
+    if (laterClosedYears && laterClosedYears.length > 0) {
+      throw new BadRequestException(
+        `Reopen ${laterClosedYears[0].name} first; it was closed after this year`,
+      );
+    }
+
+    if (fiscalYear.closing_journal_id) {
+      await this.journalsService.reverse(
+        fiscalYear.closing_journal_id,
+        {
+          reversalDate: new Date(fiscalYear.end_date),
+          reason,
+          force: true,
+        },
+        tenantId,
+        userId,
+        { allowLockedPeriod: true },
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('fiscal_years')
+      .update({
+        is_closed: false,
+        closed_by: null,
+        closed_at: null,
+        closing_journal_id: null,
+        reopened_by: userId,
+        reopened_at: new Date().toISOString(),
+        reopen_reason: reason,
+      })
+      .eq('id', fiscalYearId)
+      .eq('tenant_id', tenantId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  private async findYear(fiscalYearId: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+    const { data, error } = await supabase
+      .from('fiscal_years')
+      .select('*')
+      .eq('id', fiscalYearId)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (error || !data) {
+      throw new NotFoundException('Fiscal year not found');
+    }
+    return data;
+  }
+
+  /**
+   * Use the requested account, otherwise the tenant's retained earnings
+   * account mapping
+   */
+  private async resolveRetainedEarningsAccount(tenantId: string, accountId?: string) {
+    const supabase = this.supabaseService.getClient();
+
+    let resolvedId = accountId;
+
+    if (!resolvedId) {
+      const mappings = await this.accountMappingsService.resolve(tenantId);
+      resolvedId = mappings.retained_earnings || undefined;
+    }
+
+    if (!resolvedId) {
+      throw new BadRequestException(
+        'No retained earnings account configured. Select an equity account to close the year into or set it in Settings > Account mappings',
+      );
+    }
+
+    const { data: accounts, error } = await supabase
+      .from('chart_of_accounts')
+      .select('id, code, type, is_active, is_posting_allowed')
+      .eq('tenant_id', tenantId)
+      .eq('id', resolvedId)
+      .limit(1);
+
+    if (error) throw error;
+
+    const account = accounts?.[0];
+
+    if (!account) {
+      throw new BadRequestException('Retained earnings account not found');
+    }
+
+    if (account.type !== 'equity') {
+      throw new BadRequestException('Retained earnings account must be an equity account');
+    }
+
+    if (!account.is_active || !account.is_posting_allowed) {
+      throw new BadRequestException('Retained earnings account must be active and allow posting');
+    }
+
+    return account;
+  }
+
+  private async prepareClosingJournal(
+    fiscalYear: any,
+    balances: Array<{ account_id: string; balance: number }>,
+    retainedEarningsAccountId: string,
+    notes: string | undefined,
+    tenantId: string,
+    userId: string,
+  ) {
+    // Post the opposite of each account's net balance
+    const lines = balances.map((b, index) => {
+      const balance = Math.round(Number(b.balance) * 100) / 100;
+      return {
+        lineNumber: index + 1,
+        accountId: b.account_id,
+        descriptionAr: `إقفال السنة المالية ${fiscalYear.name}`,
+        descriptionEn: `Close fiscal year ${fiscalYear.name}`,
+        debit: balance < 0 ? -balance : 0,
+        credit: balance > 0 ? balance : 0,
+      };
+    });
+
+    // Net debit balance is a loss, net credit balance is a profit
+    const netResult =
+      Math.round(balances.reduce((sum, b) => sum + Number(b.balance), 0) * 100) / 100;
+
+    if (netResult !== 0) {
+      lines.push({
+        lineNumber: lines.length + 1,
+        accountId: retainedEarningsAccountId,
+        descriptionAr: netResult < 0 ? 'صافي الربح المرحل' : 'صافي الخسارة المرحلة',
+        descriptionEn: netResult < 0 ? 'Net profit carried forward' : 'Net loss carried forward',
+        debit: netResult > 0 ? netResult : 0,
+        credit: netResult < 0 ? -netResult : 0,
+      });
+    }
+
+    return this.journalsService.prepare(
+      {
+        journalType: 'closing',
+        referenceNumber: fiscalYear.name,
+        descriptionAr: `قيد إقفال السنة المالية ${fiscalYear.name_ar || fiscalYear.name}`,
+        descriptionEn: `Closing entry for fiscal year ${fiscalYear.name}`,
+        transactionDate: new Date(fiscalYear.end_date),
+        notes,
+        sourceModule: 'fiscal_years',
+        sourceId: fiscalYear.id,
+        lines,
+      },
+      tenantId,
+      userId,
+      undefined,
+      { allowLockedPeriod: true },
+    );
+  }
+
+  private withoutOverrideCode(period: any) {
+    const { override_code, ...rest } = period;
+    return { ...rest, has_override_code: !!override_code };
+  }
 }
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { PeriodGuardService } from './period-guard.service';
+import { SupabaseModule } from '../supabase/supabase.module';
+
+@Module({
+  imports: [SupabaseModule],
+  providers: [PeriodGuardService],
+  exports: [PeriodGuardService],
+})
+export class PeriodGuardModule {}
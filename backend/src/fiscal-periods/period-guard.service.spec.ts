@@ -0,0 +1,122 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { PeriodGuardService } from './period-guard.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { AuditService } from '../audit/audit.service';
+import { queryResult } from '../../test/utils/query-result';
+
+describe('PeriodGuardService', () => {
+  let service: PeriodGuardService;
+  let tables: Record<string, any[]>;
+  let checkPermission: jest.Mock;
+  let auditService: { logAction: jest.Mock };
+
+  const mockTenantId = 'test-tenant-id';
+  const mockUserId = 'test-user-id';
+
+  const lockedPeriod = {
+    id: 'period-1',
+    name: 'January 2026',
+    is_locked: true,
+    override_code: 'SECRET1',
+    fiscal_year_id: 'fy-2026',
+    fiscal_years: { is_closed: false },
+  };
+
+  const context = {
+    documentType: 'invoice',
+    action: 'post' as const,
+    userId: mockUserId,
+    documentId: 'invoice-1',
+  };
+
+  beforeEach(async () => {
+    tables = {};
+    checkPermission = jest.fn().mockResolvedValue(true);
+    auditService = { logAction: jest.fn() };
+    const mockSupabaseClient = {
+      from: jest.fn((table: string) => tables[table].shift()),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PeriodGuardService,
+        {
+          provide: SupabaseService,
+          useValue: {
+            getClient: jest.fn().mockReturnValue(mockSupabaseClient),
+            checkPermission,
+          },
+        },
+        { provide: AuditService, useValue: auditService },
+      ],
+    }).compile();
+
+    service = module.get<PeriodGuardService>(PeriodGuardService);
+  });
+
+  describe('assertOpen', () => {
+    it('should reject a locked period without an override code', async () => {
+      tables.fiscal_periods = [
+        queryResult({ data: [lockedPeriod], error: null }),
+      ];
+
+      await expect(
+        service.assertOpen(mockTenantId, '2026-01-15', context),
+      ).rejects.toThrow('Fiscal period January 2026 is locked');
+    });
+
+    it('should require the override permission', async () => {
+      tables.fiscal_periods = [
+        queryResult({ data: [lockedPeriod], error: null }),
+      ];
+      checkPermission.mockResolvedValue(false);
+
+      await expect(
+        service.assertOpen(mockTenantId, '2026-01-15', {
+          ...context,
+          overrideCode: 'SECRET1',
+        }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should reject a wrong override code', async () => {
+      tables.fiscal_periods = [
+        queryResult({ data: [lockedPeriod], error: null }),
+      ];
+
+      await expect(
+        service.assertOpen(mockTenantId, '2026-01-15', {
+          ...context,
+          overrideCode: 'WRONG1',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should record an override made with the right code', async () => {
+      const overrides = queryResult({ error: null });
+      tables.fiscal_periods = [
+        queryResult({ data: [lockedPeriod], error: null }),
+      ];
+      tables.fiscal_period_overrides = [overrides];
+
+      await service.assertOpen(mockTenantId, '2026-01-15', {
+        ...context,
+        overrideCode: 'SECRET1',
+      });
+
+      expect(overrides.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          fiscal_period_id: 'period-1',
+          document_type: 'invoice',
+          document_id: 'invoice-1',
+          action: 'post',
+          user_id: mockUserId,
+        }),
+      );
+      expect(auditService.logAction).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'period_override' }),
+      );
+    });
+  });
+});
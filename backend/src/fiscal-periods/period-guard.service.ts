@@ -0,0 +1,208 @@
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { AuditService } from '../audit/audit.service';
+
+export type PeriodGuardAction = 'create' | 'update' | 'post';
+
+export interface PeriodGuardContext {
+  documentType: string;
+  action: PeriodGuardAction;
+  userId?: string;
+  documentId?: string;
+  overrideCode?: string;
+  // Fail when no period covers the date (journals always need one)
+  requirePeriod?: boolean;
+}
+
+// Period options accepted by document services on create, update and post
+export interface PeriodOverrideOptions {
+  // Skip the lock check because the caller already checked the period
+  // (journals created for a posted document, opening balances)
+  allowLockedPeriod?: boolean;
+  overrideCode?: string;
+}
+
+// The period covering a date, with the closed flag of its fiscal year. The
+// year is a many-to-one embed, so it comes back as one row rather than an array.
+export interface GuardedPeriod {
+  id: string;
+  name: string;
+  is_locked: boolean;
+  override_code: string | null;
+  fiscal_year_id: string;
+  fiscal_years: { is_closed: boolean } | null;
+}
+
+/**
+ * Central fiscal period check for every document that ends up in the ledger
+ *
+ * Document services call it on create, update (for both the old and the new
+ * date) and post, so a locked period is rejected up front rather than when
+ * the journal is finally created. A locked period can be written to only by
+ * a user with the settings:override:period permission who supplies the
+ * period's override code; every such override is recorded.
+ */
+@Injectable()
+export class PeriodGuardService {
+  constructor(
+    private supabaseService: SupabaseService,
+    private auditService: AuditService,
+  ) {}
+
+  /**
+   * Find the fiscal period covering a date
+   */
+  async findPeriod(
+    tenantId: string,
+    date: Date | string,
+  ): Promise<GuardedPeriod | null> {
+    const supabase = this.supabaseService.getClient();
+    const transactionDate = this.toDateString(date);
+
+    const { data, error } = await supabase
+      .from('fiscal_periods')
+      .select(
+        'id, name, is_locked, override_code, fiscal_year_id, fiscal_years(is_closed)',
+      )
+      .eq('tenant_id', tenantId)
+      .lte('start_date', transactionDate)
+      .gte('end_date', transactionDate)
+      .limit(1)
+      .overrideTypes<GuardedPeriod[], { merge: false }>();
+
+    if (error) throw error;
+
+    return data?.[0] || null;
+  }
+
+  /**
+   * Throw unless the period covering the date accepts the action
+   */
+  async assertOpen(
+    tenantId: string,
+    date: Date | string,
+    context: PeriodGuardContext,
+  ) {
+    const period = await this.findPeriod(tenantId, date);
+
+    if (!period) {
+      if (context.requirePeriod) {
+        throw new BadRequestException(
+          'No fiscal period found for transaction date',
+        );
+      }
+      return null;
+    }
+
+    if (!period.is_locked) {
+      return period;
+    }
+
+    if (!context.overrideCode) {
+      throw new BadRequestException(`Fiscal period ${period.name} is locked`);
+    }
+
+    if (period.fiscal_years?.is_closed) {
+      throw new BadRequestException(
+        `Fiscal period ${period.name} belongs to a closed fiscal year and cannot be overridden`,
+      );
+    }
+
+    const allowed =
+      !!context.userId &&
+      (await this.supabaseService.checkPermission(
+        context.userId,
+        'settings',
+        'override',
+        'period',
+      ));
+    if (!allowed) {
+      throw new ForbiddenException(
+        'Missing required permission: settings:override:period',
+      );
+    }
+
+    if (
+      !period.override_code ||
+      period.override_code !== context.overrideCode
+    ) {
+      throw new BadRequestException(
+        `Invalid override code for fiscal period ${period.name}`,
+      );
+    }
+
+    await this.recordOverride(tenantId, period, date, context);
+
+    return period;
+  }
+
+  /**
+   * Check several dates of one document, such as the current and the new
+   * date of an edit. Each period is checked (and overridden) once.
+   */
+  async assertDatesOpen(
+    tenantId: string,
+    dates: Array<Date | string | undefined>,
+    context: PeriodGuardContext,
+  ) {
+    const checkedPeriods = new Set<string>();
+
+    for (const date of dates) {
+      if (!date) continue;
+
+      const period = await this.findPeriod(tenantId, date);
+      if (period && checkedPeriods.has(period.id)) continue;
+
+      await this.assertOpen(tenantId, date, context);
+      if (period) checkedPeriods.add(period.id);
+    }
+  }
+
+  private async recordOverride(
+    tenantId: string,
+    period: { id: string; name: string },
+    date: Date | string,
+    context: PeriodGuardContext,
+  ) {
+    const supabase = this.supabaseService.getClient();
+    const transactionDate = this.toDateString(date);
+
+    const { error } = await supabase.from('fiscal_period_overrides').insert({
+      tenant_id: tenantId,
+      fiscal_period_id: period.id,
+      document_type: context.documentType,
+      document_id: context.documentId,
+      action: context.action,
+      transaction_date: transactionDate,
+      user_id: context.userId,
+    });
+
+    if (error) throw error;
+
+    await this.auditService.logAction({
+      action: 'period_override',
+      entity: context.documentType,
+      entityId: context.documentId,
+      userId: context.userId,
+      tenantId,
+      metadata: {
+        fiscalPeriodId: period.id,
+        fiscalPeriodName: period.name,
+        documentAction: context.action,
+        transactionDate,
+      },
+      timestamp: new Date(),
+      success: true,
+    });
+  }
+
+  private toDateString(date: Date | string): string {
+    return date instanceof Date
+      ? date.toISOString().split('T')[0]
+      : date.split('T')[0];
+  }
+}
@@ -0,0 +1,53 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsDate,
+  IsBoolean,
+  IsIn,
+  MinLength,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class CreateFiscalYearDto {
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(2)
+  @MaxLength(50)
+  name: string;
+
+  @IsString()
+  @IsOptional()
+  @MinLength(2)
+  @MaxLength(50)
+  nameAr?: string;
+
+  @IsDate()
+  @IsNotEmpty()
+  @Type(() => Date)
+  startDate: Date;
+
+  // Defaults to the end of the twelfth month (12 periods) or of the
+  // thirteenth four-week period (13 periods)
+  @IsDate()
+  @IsOptional()
+  @Type(() => Date)
+  endDate?: Date;
+
+  @IsIn([12, 13])
+  @IsOptional()
+  periodCount?: 12 | 13;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  isCurrent?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  isLocked?: boolean;
+}
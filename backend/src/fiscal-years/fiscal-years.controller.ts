@@ -0,0 +1,171 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  applyDecorators,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { FiscalYearsService } from './fiscal-years.service';
+import { TenantContextGuard } from '../common/guards/tenant-context.guard';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import { TenantContext } from '../common/decorators/tenant-context.decorator';
+import { CreateFiscalYearDto } from './dto/create-fiscal-year.dto';
+import { UpdateFiscalYearDto } from './dto/update-fiscal-year.dto';
+import { LockFiscalPeriodDto } from '../fiscal-periods/dto/lock-fiscal-period.dto';
+
+// Custom decorator to apply guards to specific routes (not controller-level)
+function Protected() {
+  return applyDecorators(
+    ApiBearerAuth(),
+    UseGuards(TenantContextGuard, PermissionsGuard),
+  );
+}
+
+@ApiTags('fiscal-years')
+@Controller('settings/fiscal-years')
+export class FiscalYearsController {
+  constructor(private readonly fiscalYearsService: FiscalYearsService) {}
+
+  @Get()
+  @Protected()
+  @ApiOperation({ summary: 'Get all fiscal years with their periods' })
+  @ApiQuery({ name: 'is_locked', required: false, type: Boolean })
+  @ApiQuery({ name: 'search', required: false, type: String })
+  @ApiResponse({ status: 200, description: 'List of fiscal years' })
+  @RequirePermissions({ module: 'settings', action: 'view' })
+  findAll(
+    @TenantContext('tenantId') tenantId: string,
+    @Query('is_locked') isLocked?: string,
+    @Query('search') search?: string,
+  ) {
+    return this.fiscalYearsService.findAll(tenantId, {
+      isLocked: isLocked === undefined ? undefined : isLocked === 'true',
+      search,
+    });
+  }
+
+  @Get(':id')
+  @Protected()
+  @ApiOperation({ summary: 'Get a fiscal year with its periods' })
+  @ApiResponse({ status: 200, description: 'Fiscal year details' })
+  @RequirePermissions({ module: 'settings', action: 'view' })
+  findOne(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.fiscalYearsService.findOne(id, tenantId);
+  }
+
+  @Post()
+  @Protected()
+  @ApiOperation({ summary: 'Create a fiscal year and generate its periods' })
+  @ApiResponse({ status: 201, description: 'Fiscal year created' })
+  @RequirePermissions({
+    module: 'settings',
+    action: 'edit',
+    resource: 'fiscal',
+  })
+  create(
+    @Body() createDto: CreateFiscalYearDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
+  ) {
+    return this.fiscalYearsService.create(createDto, tenantId, userId);
+  }
+
+  @Patch(':id')
+  @Protected()
+  @ApiOperation({ summary: 'Update a fiscal year' })
+  @ApiResponse({ status: 200, description: 'Fiscal year updated' })
+  @RequirePermissions({
+    module: 'settings',
+    action: 'edit',
+    resource: 'fiscal',
+  })
+  update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateFiscalYearDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
+  ) {
+    return this.fiscalYearsService.update(id, updateDto, tenantId, userId);
+  }
+
+  @Delete(':id')
+  @Protected()
+  @ApiOperation({ summary: 'Delete a fiscal year without journals' })
+  @ApiResponse({ status: 200, description: 'Fiscal year deleted' })
+  @RequirePermissions({
+    module: 'settings',
+    action: 'edit',
+    resource: 'fiscal',
+  })
+  remove(@Param('id') id: string, @TenantContext('tenantId') tenantId: string) {
+    return this.fiscalYearsService.remove(id, tenantId);
+  }
+
+  @Post(':id/lock')
+  @Protected()
+  @ApiOperation({ summary: 'Lock all periods of a fiscal year' })
+  @ApiResponse({ status: 201, description: 'Fiscal year locked' })
+  @RequirePermissions({
+    module: 'settings',
+    action: 'lock',
+    resource: 'period',
+  })
+  lock(
+    @Param('id') id: string,
+    @Body() lockDto: LockFiscalPeriodDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
+  ) {
+    return this.fiscalYearsService.lock(
+      id,
+      tenantId,
+      userId,
+      lockDto.overrideCode,
+    );
+  }
+
+  @Post(':id/unlock')
+  @Protected()
+  @ApiOperation({ summary: 'Unlock all periods of a fiscal year' })
+  @ApiResponse({ status: 201, description: 'Fiscal year unlocked' })
+  @RequirePermissions({
+    module: 'settings',
+    action: 'lock',
+    resource: 'period',
+  })
+  unlock(@Param('id') id: string, @TenantContext('tenantId') tenantId: string) {
+    return this.fiscalYearsService.unlock(id, tenantId);
+  }
+
+  @Post(':id/set-current')
+  @Protected()
+  @ApiOperation({ summary: 'Make a fiscal year the current year' })
+  @ApiResponse({ status: 201, description: 'Current fiscal year changed' })
+  @RequirePermissions({
+    module: 'settings',
+    action: 'edit',
+    resource: 'fiscal',
+  })
+  setCurrent(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.fiscalYearsService.setCurrent(id, tenantId);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { FiscalYearsService } from './fiscal-years.service';
+import { FiscalYearsController } from './fiscal-years.controller';
+import { SupabaseModule } from '../supabase/supabase.module';
+
+@Module({
+  imports: [SupabaseModule],
+  controllers: [FiscalYearsController],
+  providers: [FiscalYearsService],
+  exports: [FiscalYearsService],
+})
+export class FiscalYearsModule {}
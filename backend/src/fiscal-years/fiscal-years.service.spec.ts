@@ -0,0 +1,195 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { FiscalYearsService } from './fiscal-years.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { queryResult } from '../../test/utils/query-result';
+
+describe('FiscalYearsService', () => {
+  let service: FiscalYearsService;
+  let tables: Record<string, any[]>;
+  let rpc: jest.Mock;
+
+  const mockTenantId = 'test-tenant-id';
+  const mockUserId = 'test-user-id';
+
+  beforeEach(async () => {
+    tables = {};
+    rpc = jest.fn();
+    const mockSupabaseClient = {
+      from: jest.fn((table: string) => tables[table].shift()),
+      rpc,
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FiscalYearsService,
+        {
+          provide: SupabaseService,
+          useValue: {
+            getClient: jest.fn().mockReturnValue(mockSupabaseClient),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<FiscalYearsService>(FiscalYearsService);
+  });
+
+  describe('buildPeriods', () => {
+    it('should generate monthly periods for a non-calendar year', () => {
+      const periods = service.buildPeriods('2026-04-01', 12);
+
+      expect(periods).toHaveLength(12);
+      expect(periods[0]).toEqual(
+        expect.objectContaining({
+          name: 'April 2026',
+          startDate: '2026-04-01',
+          endDate: '2026-04-30',
+        }),
+      );
+      expect(periods[10].endDate).toBe('2027-02-28');
+      expect(periods[11].endDate).toBe('2027-03-31');
+    });
+
+    it('should reject a monthly year that does not start on the first', () => {
+      expect(() => service.buildPeriods('2026-04-15', 12)).toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should generate thirteen four-week periods', () => {
+      const periods = service.buildPeriods('2026-01-04', 13);
+
+      expect(periods).toHaveLength(13);
+      expect(periods[1].startDate).toBe('2026-02-01');
+      expect(periods[12].endDate).toBe('2027-01-02');
+    });
+
+    it('should extend the last period of a 53-week year', () => {
+      const periods = service.buildPeriods('2026-01-04', 13, '2027-01-09');
+
+      expect(periods[12].startDate).toBe('2026-12-06');
+      expect(periods[12].endDate).toBe('2027-01-09');
+    });
+  });
+
+  describe('create', () => {
+    it('should refuse a year that overlaps an existing one', async () => {
+      tables.fiscal_years = [
+        queryResult({
+          data: [
+            {
+              id: 'fy-2026',
+              name: 'FY2026',
+              start_date: '2026-01-01',
+              end_date: '2026-12-31',
+            },
+          ],
+          error: null,
+        }),
+      ];
+
+      await expect(
+        service.create(
+          { name: 'FY2026/27', startDate: new Date('2026-07-01') },
+          mockTenantId,
+          mockUserId,
+        ),
+      ).rejects.toThrow('Fiscal year overlaps FY2026');
+    });
+  });
+
+  describe('update', () => {
+    const fiscalYear = {
+      id: 'fy-2026',
+      start_date: '2026-01-01',
+      end_date: '2026-12-31',
+      period_count: 12,
+      is_closed: false,
+      fiscal_periods: [],
+    };
+
+    it('should save the new dates and regenerate the periods in one call', async () => {
+      tables.fiscal_years = [
+        queryResult({ data: fiscalYear }),
+        queryResult({ data: [], error: null }),
+        queryResult({ data: { ...fiscalYear, start_date: '2026-04-01' } }),
+      ];
+      tables.journals = [queryResult({ count: 0, error: null })];
+      rpc.mockResolvedValue({ data: null, error: null });
+
+      await service.update(
+        'fy-2026',
+        { startDate: new Date('2026-04-01') },
+        mockTenantId,
+        mockUserId,
+      );
+
+      expect(rpc).toHaveBeenCalledWith(
+        'reschedule_fiscal_year',
+        expect.objectContaining({
+          p_fiscal_year_id: 'fy-2026',
+          p_start_date: '2026-04-01',
+          p_end_date: '2027-03-31',
+          p_period_count: 12,
+          p_periods: expect.arrayContaining([
+            expect.objectContaining({
+              period_number: 1,
+              start_date: '2026-04-01',
+              end_date: '2026-04-30',
+            }),
+            expect.objectContaining({
+              period_number: 12,
+              start_date: '2027-03-01',
+              end_date: '2027-03-31',
+            }),
+          ]),
+        }),
+      );
+    });
+
+    it('should refuse the new dates when the year cannot be rescheduled', async () => {
+      tables.fiscal_years = [
+        queryResult({ data: fiscalYear }),
+        queryResult({ data: [], error: null }),
+      ];
+      tables.journals = [queryResult({ count: 0, error: null })];
+      rpc.mockResolvedValue({
+        data: null,
+        error: {
+          message: 'Cannot change the dates of a fiscal year that has journals',
+        },
+      });
+
+      await expect(
+        service.update(
+          'fy-2026',
+          { startDate: new Date('2026-04-01') },
+          mockTenantId,
+          mockUserId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('remove', () => {
+    it('should refuse to delete a year with journals', async () => {
+      tables.fiscal_years = [
+        queryResult({
+          data: {
+            id: 'fy-2026',
+            start_date: '2026-01-01',
+            end_date: '2026-12-31',
+            is_closed: false,
+            fiscal_periods: [],
+          },
+        }),
+      ];
+      tables.journals = [queryResult({ count: 3, error: null })];
+
+      await expect(service.remove('fy-2026', mockTenantId)).rejects.toThrow(
+        'Cannot delete a fiscal year that has 3 journal(s)',
+      );
+    });
+  });
+});
@@ -0,0 +1,569 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { CreateFiscalYearDto } from './dto/create-fiscal-year.dto';
+import { UpdateFiscalYearDto } from './dto/update-fiscal-year.dto';
+
+const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+const MONTH_NAMES_AR = [
+  'يناير',
+  'فبراير',
+  'مارس',
+  'أبريل',
+  'مايو',
+  'يونيو',
+  'يوليو',
+  'أغسطس',
+  'سبتمبر',
+  'أكتوبر',
+  'نوفمبر',
+  'ديسمبر',
+];
+
+// Thirteen-period years use four-week periods; the last period absorbs the
+// extra week of a 53-week year
+const FOUR_WEEKS = 28;
+const MAX_LAST_PERIOD_DAYS = 35;
+
+export interface FiscalPeriodRange {
+  periodNumber: number;
+  name: string;
+  nameAr: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface FiscalYearFilters {
+  isLocked?: boolean;
+  search?: string;
+}
+
+@Injectable()
+export class FiscalYearsService {
+  constructor(private supabaseService: SupabaseService) {}
+
+  async findAll(tenantId: string, filters?: FiscalYearFilters) {
+    const supabase = this.supabaseService.getClient();
+
+    let query = supabase
+      .from('fiscal_years')
+      .select('*, fiscal_periods(*)')
+      .eq('tenant_id', tenantId)
+      .order('start_date', { ascending: false });
+
+    if (filters?.search) {
+      query = query.or(
+        `name.ilike.%${filters.search}%,name_ar.ilike.%${filters.search}%,description.ilike.%${filters.search}%`,
+      );
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    const years = (data || []).map((year) => this.withStatus(year));
+
+    return filters?.isLocked === undefined
+      ? years
+      : years.filter((year) => year.is_locked === filters.isLocked);
+  }
+
+  async findOne(id: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('fiscal_years')
+      .select('*, fiscal_periods(*)')
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (error || !data) {
+      throw new NotFoundException(`Fiscal year with ID ${id} not found`);
+    }
+
+    return this.withStatus(data);
+  }
+
+  async create(dto: CreateFiscalYearDto, tenantId: string, userId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const periodCount = dto.periodCount || 12;
+    const startDate = this.toDateString(dto.startDate);
+    const periods = this.buildPeriods(
+      startDate,
+      periodCount,
+      dto.endDate ? this.toDateString(dto.endDate) : undefined,
+    );
+    const endDate = periods[periods.length - 1].endDate;
+
+    await this.assertNoOverlap(tenantId, startDate, endDate);
+
+    const { data: fiscalYear, error } = await supabase
+      .from('fiscal_years')
+      .insert({
+        tenant_id: tenantId,
+        name: dto.name,
+        name_ar: dto.nameAr,
+        start_date: startDate,
+        end_date: endDate,
+        period_count: periodCount,
+        description: dto.description,
+        is_closed: false,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    try {
+      await this.insertPeriods(fiscalYear.id, tenantId, periods);
+    } catch (periodError) {
+      await supabase.from('fiscal_years').delete().eq('id', fiscalYear.id);
+      throw periodError;
+    }
+
+    // The first year of a tenant becomes the current year automatically
+    const { count } = await supabase
+      .from('fiscal_years')
+      .select('id', { count: 'exact', head: true })
+      .eq('tenant_id', tenantId)
+      .eq('is_current', true);
+
+    if (dto.isCurrent || !count) {
+      await this.setCurrent(fiscalYear.id, tenantId);
+    }
+    if (dto.isLocked) {
+      await this.lock(fiscalYear.id, tenantId, userId);
+    }
+
+    return this.findOne(fiscalYear.id, tenantId);
+  }
+
+  /**
+   * Update a fiscal year. Changing the dates or the number of periods
+   * regenerates the periods, which is only allowed while the year has no
+   * journals.
+   */
+  async update(
+    id: string,
+    dto: UpdateFiscalYearDto,
+    tenantId: string,
+    userId: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const existing = await this.findOne(id, tenantId);
+
+    // Clients may send the unchanged dates back with every update
+    const changesSchedule =
+      (dto.startDate !== undefined &&
+        this.toDateString(dto.startDate) !== existing.start_date) ||
+      (dto.endDate !== undefined &&
+        this.toDateString(dto.endDate) !== existing.end_date) ||
+      (dto.periodCount !== undefined &&
+        dto.periodCount !== existing.period_count);
+
+    if (existing.is_closed && (changesSchedule || dto.isLocked === false)) {
+      throw new BadRequestException(
+        'Fiscal year is closed. Reopen it before changing its dates or locks',
+      );
+    }
+
+    const updateData: any = {};
+    if (dto.name !== undefined) updateData.name = dto.name;
+    if (dto.nameAr !== undefined) updateData.name_ar = dto.nameAr;
+    if (dto.description !== undefined) updateData.description = dto.description;
+
+    if (Object.keys(updateData).length > 0) {
+      const { error } = await supabase
+        .from('fiscal_years')
+        .update(updateData)
+        .eq('id', id)
+        .eq('tenant_id', tenantId);
+
+      if (error) throw error;
+    }
+
+    if (changesSchedule) {
+      const startDate = dto.startDate
+        ? this.toDateString(dto.startDate)
+        : existing.start_date;
+      const periodCount = dto.periodCount || existing.period_count || 12;
+      // A changed start or period count re-derives the end date unless a
+      // new one is given
+      const endDate =
+        dto.endDate && this.toDateString(dto.endDate) !== existing.end_date
+          ? this.toDateString(dto.endDate)
+          : undefined;
+
+      const periods = this.buildPeriods(startDate, periodCount, endDate);
+
+      await this.assertNoJournals(
+        tenantId,
+        existing.start_date,
+        existing.end_date,
+        'change the dates of',
+      );
+      await this.assertNoOverlap(
+        tenantId,
+        startDate,
+        periods[periods.length - 1].endDate,
+        id,
+      );
+
+      // The new dates and the regenerated periods are saved in one transaction
+      const { error } = await supabase.rpc('reschedule_fiscal_year', {
+        p_fiscal_year_id: id,
+        p_tenant_id: tenantId,
+        p_start_date: startDate,
+        p_end_date: periods[periods.length - 1].endDate,
+        p_period_count: periodCount,
+        p_periods: this.toPeriodRows(id, tenantId, periods),
+      });
+
+      if (error) {
+        throw new BadRequestException(
+          `Failed to change the fiscal year dates: ${error.message}`,
+        );
+      }
+    }
+
+    if (dto.isCurrent) {
+      await this.setCurrent(id, tenantId);
+    }
+    if (dto.isLocked === true) {
+      await this.lock(id, tenantId, userId);
+    } else if (dto.isLocked === false) {
+      await this.unlock(id, tenantId);
+    }
+
+    return this.findOne(id, tenantId);
+  }
+
+  async remove(id: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const existing = await this.findOne(id, tenantId);
+
+    if (existing.is_closed) {
+      throw new BadRequestException('Cannot delete a closed fiscal year');
+    }
+
+    await this.assertNoJournals(
+      tenantId,
+      existing.start_date,
+      existing.end_date,
+      'delete',
+    );
+
+    // Periods are removed by the cascade
+    const { error } = await supabase
+      .from('fiscal_years')
+      .delete()
+      .eq('id', id)
+      .eq('tenant_id', tenantId);
+
+    if (error) throw error;
+
+    return { success: true };
+  }
+
+  /**
+   * Lock every period of the year, optionally with an override code that
+   * lets users with the override permission still post into them
+   */
+  async lock(
+    id: string,
+    tenantId: string,
+    userId: string,
+    overrideCode?: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    await this.findOne(id, tenantId);
+
+    const { error } = await supabase
+      .from('fiscal_periods')
+      .update({
+        is_locked: true,
+        locked_by: userId,
+        locked_at: new Date().toISOString(),
+        override_code: overrideCode || null,
+      })
+      .eq('fiscal_year_id', id)
+      .eq('tenant_id', tenantId)
+      .eq('is_locked', false);
+
+    if (error) throw error;
+
+    return this.findOne(id, tenantId);
+  }
+
+  /**
+   * Unlock every period of the year
+   */
+  async unlock(id: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const existing = await this.findOne(id, tenantId);
+    if (existing.is_closed) {
+      throw new BadRequestException(
+        'Fiscal year is closed. Reopen it before unlocking its periods',
+      );
+    }
+
+    const { error } = await supabase
+      .from('fiscal_periods')
+      .update({
+        is_locked: false,
+        locked_by: null,
+        locked_at: null,
+        override_code: null,
+      })
+      .eq('fiscal_year_id', id)
+      .eq('tenant_id', tenantId)
+      .eq('is_locked', true);
+
+    if (error) throw error;
+
+    return this.findOne(id, tenantId);
+  }
+
+  async setCurrent(id: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    await this.findOne(id, tenantId);
+
+    const { error: clearError } = await supabase
+      .from('fiscal_years')
+      .update({ is_current: false })
+      .eq('tenant_id', tenantId)
+      .eq('is_current', true)
+      .neq('id', id);
+
+    if (clearError) throw clearError;
+
+    const { error } = await supabase
+      .from('fiscal_years')
+      .update({ is_current: true })
+      .eq('id', id)
+      .eq('tenant_id', tenantId);
+
+    if (error) throw error;
+
+    return this.findOne(id, tenantId);
+  }
+
+  /**
+   * Split a fiscal year into periods.
+   *
+   * 12 periods are calendar months, so the year must start on the first of
+   * a month and always runs twelve full months. 13 periods are four-week
+   * periods; the year ends after 52 weeks unless a later end date (up to a
+   * week more) is given, in which case the last period is longer.
+   */
+  buildPeriods(
+    startDate: string,
+    periodCount: number,
+    endDate?: string,
+  ): FiscalPeriodRange[] {
+    if (periodCount !== 12 && periodCount !== 13) {
+      throw new BadRequestException('A fiscal year has 12 or 13 periods');
+    }
+
+    const start = new Date(`${startDate}T00:00:00Z`);
+    const periods: FiscalPeriodRange[] = [];
+
+    if (periodCount === 12) {
+      if (start.getUTCDate() !== 1) {
+        throw new BadRequestException(
+          'A fiscal year with 12 periods must start on the first day of a month',
+        );
+      }
+
+      for (let i = 0; i < 12; i++) {
+        const periodStart = new Date(
+          Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + i, 1),
+        );
+        const periodEnd = new Date(
+          Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + i + 1, 0),
+        );
+        const month = periodStart.getUTCMonth();
+        const year = periodStart.getUTCFullYear();
+
+        periods.push({
+          periodNumber: i + 1,
+          name: `${MONTH_NAMES[month]} ${year}`,
+          nameAr: `${MONTH_NAMES_AR[month]} ${year}`,
+          startDate: this.toDateString(periodStart),
+          endDate: this.toDateString(periodEnd),
+        });
+      }
+
+      if (endDate && endDate !== periods[11].endDate) {
+        throw new BadRequestException(
+          `A fiscal year with 12 periods starting ${startDate} must end on ${periods[11].endDate}`,
+        );
+      }
+
+      return periods;
+    }
+
+    for (let i = 0; i < 13; i++) {
+      periods.push({
+        periodNumber: i + 1,
+        name: `Period ${i + 1}`,
+        nameAr: `الفترة ${i + 1}`,
+        startDate: this.addDays(startDate, i * FOUR_WEEKS),
+        endDate: this.addDays(startDate, (i + 1) * FOUR_WEEKS - 1),
+      });
+    }
+
+    if (endDate) {
+      const last = periods[12];
+      if (
+        endDate < last.endDate ||
+        endDate > this.addDays(last.startDate, MAX_LAST_PERIOD_DAYS - 1)
+      ) {
+        throw new BadRequestException(
+          `A fiscal year with 13 periods starting ${startDate} must end between ${last.endDate} and ${this.addDays(last.startDate, MAX_LAST_PERIOD_DAYS - 1)}`,
+        );
+      }
+      last.endDate = endDate;
+    }
+
+    return periods;
+  }
+
+  private async insertPeriods(
+    fiscalYearId: string,
+    tenantId: string,
+    periods: FiscalPeriodRange[],
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const { error } = await supabase
+      .from('fiscal_periods')
+      .insert(this.toPeriodRows(fiscalYearId, tenantId, periods));
+
+    if (error) throw error;
+  }
+
+  private toPeriodRows(
+    fiscalYearId: string,
+    tenantId: string,
+    periods: FiscalPeriodRange[],
+  ) {
+    return periods.map((period) => ({
+      fiscal_year_id: fiscalYearId,
+      tenant_id: tenantId,
+      name: period.name,
+      name_ar: period.nameAr,
+      period_number: period.periodNumber,
+      start_date: period.startDate,
+      end_date: period.endDate,
+      is_locked: false,
+    }));
+  }
+
+  private async assertNoOverlap(
+    tenantId: string,
+    startDate: string,
+    endDate: string,
+    excludeId?: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    let query = supabase
+      .from('fiscal_years')
+      .select('id, name, start_date, end_date')
+      .eq('tenant_id', tenantId)
+      .lte('start_date', endDate)
+      .gte('end_date', startDate);
+
+    if (excludeId) {
+      query = query.neq('id', excludeId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    if (data && data.length > 0) {
+      throw new BadRequestException(
+        `Fiscal year overlaps ${data[0].name} (${data[0].start_date} to ${data[0].end_date})`,
+      );
+    }
+  }
+
+  private async assertNoJournals(
+    tenantId: string,
+    startDate: string,
+    endDate: string,
+    action: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const { count, error } = await supabase
+      .from('journals')
+      .select('id', { count: 'exact', head: true })
+      .eq('tenant_id', tenantId)
+      .gte('transaction_date', startDate)
+      .lte('transaction_date', endDate)
+      .is('deleted_at', null);
+
+    if (error) throw error;
+
+    if (count && count > 0) {
+      throw new BadRequestException(
+        `Cannot ${action} a fiscal year that has ${count} journal(s)`,
+      );
+    }
+  }
+
+  private withStatus(fiscalYear: any) {
+    // Override codes are only handed out when a period is locked
+    const periods = [...(fiscalYear.fiscal_periods || [])]
+      .sort((a, b) => a.period_number - b.period_number)
+      .map(({ override_code, ...period }) => ({
+        ...period,
+        has_override_code: !!override_code,
+      }));
+
+    return {
+      ...fiscalYear,
+      year: Number(String(fiscalYear.end_date).slice(0, 4)),
+      is_locked: periods.length > 0 && periods.every((p) => p.is_locked),
+      fiscal_periods: periods,
+    };
+  }
+
+  private addDays(date: string, days: number): string {
+    const result = new Date(`${date}T00:00:00Z`);
+    result.setUTCDate(result.getUTCDate() + days);
+    return this.toDateString(result);
+  }
+
+  private toDateString(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+}
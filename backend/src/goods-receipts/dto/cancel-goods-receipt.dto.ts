@@ -0,0 +1,12 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CancelGoodsReceiptDto {
+  @ApiProperty({
+    description: 'Why the receipt is cancelled, e.g. recorded twice',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
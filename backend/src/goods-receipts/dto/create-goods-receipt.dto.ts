@@ -0,0 +1,72 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsUUID,
+  IsNumber,
+  IsDateString,
+  IsArray,
+  ArrayNotEmpty,
+  ValidateNested,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class GoodsReceiptLineDto {
+  @ApiProperty({ description: 'Purchase order line received' })
+  @IsUUID()
+  line_id: string;
+
+  @ApiProperty({ description: 'Quantity received', example: 4 })
+  @IsNumber()
+  @Min(0.01)
+  quantity: number;
+
+  @ApiProperty({
+    description: 'Condition of the goods, shortages, etc.',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  notes?: string;
+}
+
+export class CreateGoodsReceiptDto {
+  @ApiProperty({ description: 'Purchase order the goods were delivered for' })
+  @IsUUID()
+  @IsNotEmpty()
+  purchase_order_id: string;
+
+  @ApiProperty({ description: 'Receipt date', example: '2026-10-19' })
+  @IsDateString()
+  date: string;
+
+  @ApiProperty({
+    description: "Number of the vendor's delivery note",
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  delivery_note_number?: string;
+
+  @ApiProperty({ required: false })
+  @IsString()
+  @IsOptional()
+  notes?: string;
+
+  @ApiProperty({
+    type: [GoodsReceiptLineDto],
+    required: false,
+    description:
+      'Lines and quantities received; defaults to everything not yet received',
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => GoodsReceiptLineDto)
+  lines?: GoodsReceiptLineDto[];
+}
@@ -0,0 +1,28 @@
+import { IsNumber, IsOptional, Min, Max } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateMatchTolerancesDto {
+  @ApiProperty({
+    description:
+      'Percentage by which the quantity billed may exceed the quantity ordered or received',
+    required: false,
+    example: 5,
+  })
+  @IsNumber()
+  @IsOptional()
+  @Min(0)
+  @Max(100)
+  quantity_tolerance_percent?: number;
+
+  @ApiProperty({
+    description:
+      'Percentage by which the unit price billed may exceed the ordered price',
+    required: false,
+    example: 2,
+  })
+  @IsNumber()
+  @IsOptional()
+  @Min(0)
+  @Max(100)
+  price_tolerance_percent?: number;
+}
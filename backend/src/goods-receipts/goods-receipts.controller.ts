@@ -0,0 +1,118 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  applyDecorators,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { GoodsReceiptsService } from './goods-receipts.service';
+import { CreateGoodsReceiptDto } from './dto/create-goods-receipt.dto';
+import { CancelGoodsReceiptDto } from './dto/cancel-goods-receipt.dto';
+import { TenantContextGuard } from '../common/guards/tenant-context.guard';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import { TenantContext } from '../common/decorators/tenant-context.decorator';
+
+// Custom decorator to apply guards to specific routes
+function Protected() {
+  return applyDecorators(
+    ApiBearerAuth(),
+    UseGuards(TenantContextGuard, PermissionsGuard),
+  );
+}
+
+@ApiTags('goods-receipts')
+@Controller('purchases/goods-receipts')
+export class GoodsReceiptsController {
+  constructor(private goodsReceiptsService: GoodsReceiptsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get all goods receipts' })
+  @ApiQuery({ name: 'purchase_order_id', required: false })
+  @ApiQuery({ name: 'vendor_id', required: false })
+  @ApiQuery({ name: 'status', required: false })
+  @ApiQuery({ name: 'start_date', required: false })
+  @ApiQuery({ name: 'end_date', required: false })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @Protected()
+  @RequirePermissions({ module: 'goods_receipts', action: 'view' })
+  findAll(
+    @TenantContext('tenantId') tenantId: string,
+    @Query('purchase_order_id') purchaseOrderId?: string,
+    @Query('vendor_id') vendorId?: string,
+    @Query('status') status?: string,
+    @Query('start_date') startDate?: string,
+    @Query('end_date') endDate?: string,
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+  ) {
+    return this.goodsReceiptsService.findAll(tenantId, {
+      purchaseOrderId,
+      vendorId,
+      status,
+      startDate,
+      endDate,
+      page,
+      limit,
+    });
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a goods receipt by ID' })
+  @Protected()
+  @RequirePermissions({ module: 'goods_receipts', action: 'view' })
+  findOne(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.goodsReceiptsService.findOne(id, tenantId);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Record goods received against a purchase order',
+  })
+  @Protected()
+  @RequirePermissions({ module: 'goods_receipts', action: 'create' })
+  create(
+    @Body() createDto: CreateGoodsReceiptDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId?: string,
+    @TenantContext('branchId') branchId?: string,
+  ) {
+    return this.goodsReceiptsService.create(
+      createDto,
+      tenantId,
+      userId,
+      branchId,
+    );
+  }
+
+  @Post(':id/cancel')
+  @ApiOperation({ summary: 'Cancel a goods receipt recorded in error' })
+  @Protected()
+  @RequirePermissions({ module: 'goods_receipts', action: 'cancel' })
+  cancel(
+    @Param('id') id: string,
+    @Body() cancelDto: CancelGoodsReceiptDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId?: string,
+  ) {
+    return this.goodsReceiptsService.cancel(
+      id,
+      cancelDto.reason,
+      tenantId,
+      userId,
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { GoodsReceiptsService } from './goods-receipts.service';
+import { ThreeWayMatchService } from './three-way-match.service';
+import { GoodsReceiptsController } from './goods-receipts.controller';
+import { ThreeWayMatchController } from './three-way-match.controller';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [SupabaseModule, AuditModule],
+  controllers: [GoodsReceiptsController, ThreeWayMatchController],
+  providers: [GoodsReceiptsService, ThreeWayMatchService],
+  exports: [GoodsReceiptsService, ThreeWayMatchService],
+})
+export class GoodsReceiptsModule {}
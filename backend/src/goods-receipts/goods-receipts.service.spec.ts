@@ -0,0 +1,168 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { GoodsReceiptsService } from './goods-receipts.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { queryResult } from '../../test/utils/query-result';
+
+describe('GoodsReceiptsService', () => {
+  let service: GoodsReceiptsService;
+  let tables: Record<string, any[]>;
+  let mockSupabaseClient: any;
+
+  const mockTenantId = 'test-tenant-id';
+  const mockUserId = 'test-user-id';
+
+  // 10 chairs of which 4 are received, and 2 desks not received
+  const sentOrder = {
+    id: 'po-1',
+    po_number: 'PO-2026-000001',
+    vendor_id: 'vendor-1',
+    status: 'sent',
+    purchase_order_lines: [
+      { id: 'line-2', line_number: 2, quantity: 2, received_quantity: 0 },
+      { id: 'line-1', line_number: 1, quantity: 10, received_quantity: 4 },
+    ],
+  };
+
+  const receipt = {
+    id: 'grn-1',
+    grn_number: 'GRN-2026-000001',
+    status: 'received',
+    goods_receipt_lines: [],
+  };
+
+  beforeEach(async () => {
+    tables = {};
+    mockSupabaseClient = {
+      from: jest.fn((table: string) => tables[table].shift()),
+      rpc: jest.fn().mockResolvedValue({
+        data: 'GRN-2026-000001',
+        error: null,
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GoodsReceiptsService,
+        {
+          provide: SupabaseService,
+          useValue: {
+            getClient: jest.fn().mockReturnValue(mockSupabaseClient),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<GoodsReceiptsService>(GoodsReceiptsService);
+  });
+
+  describe('create', () => {
+    let insert: any;
+    let insertLines: any;
+
+    beforeEach(() => {
+      insert = queryResult({ data: { id: 'grn-1' }, error: null });
+      insertLines = queryResult({ data: null, error: null });
+      tables.purchase_orders = [queryResult({ data: sentOrder, error: null })];
+      tables.goods_receipts = [
+        insert,
+        queryResult({ data: receipt, error: null }),
+      ];
+      tables.goods_receipt_lines = [insertLines];
+    });
+
+    it('should receive everything not yet received', async () => {
+      await service.create(
+        {
+          purchase_order_id: 'po-1',
+          date: '2026-10-19T00:00:00.000Z',
+          delivery_note_number: 'DN-881',
+        },
+        mockTenantId,
+        mockUserId,
+      );
+
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        'generate_goods_receipt_number',
+        { p_tenant_id: mockTenantId },
+      );
+      expect(insert.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          grn_number: 'GRN-2026-000001',
+          purchase_order_id: 'po-1',
+          vendor_id: 'vendor-1',
+          receipt_date: '2026-10-19',
+          delivery_note_number: 'DN-881',
+          status: 'received',
+        }),
+      );
+      expect(insertLines.insert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          purchase_order_line_id: 'line-1',
+          line_number: 1,
+          quantity: 6,
+        }),
+        expect.objectContaining({
+          purchase_order_line_id: 'line-2',
+          line_number: 2,
+          quantity: 2,
+        }),
+      ]);
+    });
+
+    it('should not receive more than is left on a line', async () => {
+      await expect(
+        service.create(
+          {
+            purchase_order_id: 'po-1',
+            date: '2026-10-19',
+            lines: [{ line_id: 'line-1', quantity: 7 }],
+          },
+          mockTenantId,
+        ),
+      ).rejects.toThrow(
+        'Cannot receive 7 of line 1: only 6 of 10 ordered remain to be received',
+      );
+      expect(insert.insert).not.toHaveBeenCalled();
+    });
+
+    it('should not receive goods for a draft purchase order', async () => {
+      tables.purchase_orders = [
+        queryResult({ data: { ...sentOrder, status: 'draft' }, error: null }),
+      ];
+
+      await expect(
+        service.create(
+          { purchase_order_id: 'po-1', date: '2026-10-19' },
+          mockTenantId,
+        ),
+      ).rejects.toThrow(
+        'The purchase order must be approved before goods are received',
+      );
+    });
+  });
+
+  describe('cancel', () => {
+    it('should cancel a receipt with the reason', async () => {
+      const markCancelled = queryResult({
+        data: [{ id: 'grn-1' }],
+        error: null,
+      });
+      tables.goods_receipts = [
+        queryResult({ data: receipt, error: null }),
+        markCancelled,
+        queryResult({ data: { ...receipt, status: 'cancelled' }, error: null }),
+      ];
+
+      await service.cancel('grn-1', 'Recorded twice', mockTenantId, mockUserId);
+
+      expect(markCancelled.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 'cancelled',
+          cancelled_by: mockUserId,
+          cancellation_reason: 'Recorded twice',
+        }),
+      );
+      expect(markCancelled.eq).toHaveBeenCalledWith('status', 'received');
+    });
+  });
+});
@@ -0,0 +1,297 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import {
+  CreateGoodsReceiptDto,
+  GoodsReceiptLineDto,
+} from './dto/create-goods-receipt.dto';
+
+export interface GoodsReceiptFilters {
+  purchaseOrderId?: string;
+  vendorId?: string;
+  status?: string;
+  startDate?: string;
+  endDate?: string;
+  page?: number;
+  limit?: number;
+}
+
+const GOODS_RECEIPT_SELECT = `
+  *,
+  goods_receipt_lines(*, purchase_order_line:purchase_order_lines(line_number, description, quantity, unit_price)),
+  purchase_order:purchase_orders(id, po_number),
+  vendor:vendors(id, name_en, name_ar)
+`;
+
+// Purchase orders whose goods can be received; a closed order is fully
+// billed but may still be awaiting delivery
+const RECEIVABLE_STATUSES = ['approved', 'sent', 'partially_billed', 'closed'];
+
+/**
+ * Goods receipt notes (GRNs)
+ *
+ * A receipt records the quantities of a purchase order's lines delivered by
+ * the vendor. The database keeps the quantity received on each order line
+ * from the receipts that are not cancelled, and purchase invoices billed
+ * from the order are matched against it (see ThreeWayMatchService).
+ */
+@Injectable()
+export class GoodsReceiptsService {
+  constructor(private supabaseService: SupabaseService) {}
+
+  async findAll(tenantId: string, filters: GoodsReceiptFilters = {}) {
+    const supabase = this.supabaseService.getClient();
+    const page = Math.max(1, Number(filters.page) || 1);
+    const limit = Math.min(100, Math.max(1, Number(filters.limit) || 20));
+
+    let query = supabase
+      .from('goods_receipts')
+      .select(GOODS_RECEIPT_SELECT, { count: 'exact' })
+      .eq('tenant_id', tenantId)
+      .order('receipt_date', { ascending: false })
+      .order('grn_number', { ascending: false })
+      .range((page - 1) * limit, page * limit - 1);
+
+    if (filters.purchaseOrderId) {
+      query = query.eq('purchase_order_id', filters.purchaseOrderId);
+    }
+
+    if (filters.vendorId) {
+      query = query.eq('vendor_id', filters.vendorId);
+    }
+
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+
+    if (filters.startDate) {
+      query = query.gte('receipt_date', filters.startDate);
+    }
+
+    if (filters.endDate) {
+      query = query.lte('receipt_date', filters.endDate);
+    }
+
+    const { data, error, count } = await query;
+
+    if (error) throw error;
+
+    const total = count || 0;
+
+    return {
+      data: (data || []).map((receipt) => this.toResponse(receipt)),
+      total,
+      page,
+      limit,
+      total_pages: Math.ceil(total / limit),
+    };
+  }
+
+  async findOne(id: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('goods_receipts')
+      .select(GOODS_RECEIPT_SELECT)
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!data) {
+      throw new NotFoundException('Goods receipt not found');
+    }
+
+    return this.toResponse(data);
+  }
+
+  /**
+   * Record the delivery of the given quantities of a purchase order's lines,
+   * or of everything not yet received when no lines are given
+   */
+  async create(
+    createDto: CreateGoodsReceiptDto,
+    tenantId: string,
+    userId?: string,
+    branchId?: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: purchaseOrder, error: orderError } = await supabase
+      .from('purchase_orders')
+      .select('id, po_number, vendor_id, status, purchase_order_lines(*)')
+      .eq('id', createDto.purchase_order_id)
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+
+    if (orderError) throw orderError;
+
+    if (!purchaseOrder) {
+      throw new BadRequestException('Purchase order not found');
+    }
+
+    if (!RECEIVABLE_STATUSES.includes(purchaseOrder.status)) {
+      throw new BadRequestException(
+        purchaseOrder.status === 'draft'
+          ? 'The purchase order must be approved before goods are received'
+          : `Cannot receive goods for a purchase order with status ${purchaseOrder.status}`,
+      );
+    }
+
+    const toReceive = this.selectLinesToReceive(purchaseOrder, createDto.lines);
+
+    const { data: grnNumber, error: numberError } = await supabase.rpc(
+      'generate_goods_receipt_number',
+      { p_tenant_id: tenantId },
+    );
+
+    if (numberError) throw numberError;
+
+    const { data: receipt, error } = await supabase
+      .from('goods_receipts')
+      .insert({
+        tenant_id: tenantId,
+        branch_id: branchId,
+        grn_number: grnNumber,
+        purchase_order_id: purchaseOrder.id,
+        vendor_id: purchaseOrder.vendor_id,
+        receipt_date: createDto.date.split('T')[0],
+        delivery_note_number: createDto.delivery_note_number,
+        notes: createDto.notes,
+        status: 'received',
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    const { error: linesError } = await supabase
+      .from('goods_receipt_lines')
+      .insert(
+        toReceive.map(({ line, quantity, notes }, index) => ({
+          goods_receipt_id: receipt.id,
+          tenant_id: tenantId,
+          purchase_order_line_id: line.id,
+          line_number: index + 1,
+          quantity,
+          notes,
+        })),
+      );
+
+    if (linesError) throw linesError;
+
+    return this.findOne(receipt.id, tenantId);
+  }
+
+  /**
+   * Cancel a receipt recorded in error. Its quantities are no longer counted
+   * as received on the purchase order.
+   */
+  async cancel(id: string, reason: string, tenantId: string, userId?: string) {
+    const supabase = this.supabaseService.getClient();
+    const receipt = await this.findOne(id, tenantId);
+
+    if (receipt.status !== 'received') {
+      throw new BadRequestException('The goods receipt is already cancelled');
+    }
+
+    const { data, error } = await supabase
+      .from('goods_receipts')
+      .update({
+        status: 'cancelled',
+        cancelled_by: userId,
+        cancelled_at: new Date().toISOString(),
+        cancellation_reason: reason,
+      })
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .eq('status', 'received')
+      .select('id');
+
+    if (error) throw error;
+
+    if (!data || data.length === 0) {
+      throw new BadRequestException(
+        'The goods receipt was changed by another request; reload and try again',
+      );
+    }
+
+    return this.findOne(id, tenantId);
+  }
+
+  /**
+   * The order lines and quantities to receive, checked against what is left
+   * to receive on each line
+   */
+  private selectLinesToReceive(
+    purchaseOrder: any,
+    requested?: GoodsReceiptLineDto[],
+  ): { line: any; quantity: number; notes?: string }[] {
+    const lines: any[] = [...(purchaseOrder.purchase_order_lines || [])].sort(
+      (a, b) => a.line_number - b.line_number,
+    );
+    const remaining = (line: any) =>
+      this.round(Number(line.quantity) - Number(line.received_quantity || 0));
+
+    if (!requested) {
+      const toReceive = lines
+        .filter((line) => remaining(line) > 0)
+        .map((line) => ({ line, quantity: remaining(line) }));
+
+      if (toReceive.length === 0) {
+        throw new BadRequestException(
+          `Everything on purchase order ${purchaseOrder.po_number} has been received`,
+        );
+      }
+
+      return toReceive;
+    }
+
+    const seen = new Set<string>();
+
+    return requested.map((request) => {
+      const line = lines.find((candidate) => candidate.id === request.line_id);
+
+      if (!line) {
+        throw new BadRequestException(
+          `Line ${request.line_id} is not on purchase order ${purchaseOrder.po_number}`,
+        );
+      }
+
+      if (seen.has(line.id)) {
+        throw new BadRequestException(
+          `Line ${line.line_number} is listed more than once`,
+        );
+      }
+      seen.add(line.id);
+
+      if (request.quantity > remaining(line)) {
+        throw new BadRequestException(
+          `Cannot receive ${request.quantity} of line ${line.line_number}: only ${remaining(line)} of ${Number(line.quantity)} ordered remain to be received`,
+        );
+      }
+
+      return { line, quantity: request.quantity, notes: request.notes };
+    });
+  }
+
+  private toResponse(receipt: any) {
+    return {
+      ...receipt,
+      goods_receipt_lines: [...(receipt.goods_receipt_lines || [])].sort(
+        (a, b) => a.line_number - b.line_number,
+      ),
+      po_number: receipt.purchase_order?.po_number,
+      vendor_name: receipt.vendor?.name_en,
+    };
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -0,0 +1,72 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Body,
+  Param,
+  UseGuards,
+  applyDecorators,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { ThreeWayMatchService } from './three-way-match.service';
+import { UpdateMatchTolerancesDto } from './dto/update-match-tolerances.dto';
+import { TenantContextGuard } from '../common/guards/tenant-context.guard';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import { TenantContext } from '../common/decorators/tenant-context.decorator';
+
+// Custom decorator to apply guards to specific routes
+function Protected() {
+  return applyDecorators(
+    ApiBearerAuth(),
+    UseGuards(TenantContextGuard, PermissionsGuard),
+  );
+}
+
+@ApiTags('three-way-match')
+@Controller('purchases/three-way-match')
+export class ThreeWayMatchController {
+  constructor(private threeWayMatchService: ThreeWayMatchService) {}
+
+  @Get('tolerances')
+  @ApiOperation({ summary: 'Get the three-way match tolerances' })
+  @Protected()
+  @RequirePermissions({ module: 'settings', action: 'view' })
+  getTolerances(@TenantContext('tenantId') tenantId: string) {
+    return this.threeWayMatchService.getTolerances(tenantId);
+  }
+
+  @Put('tolerances')
+  @ApiOperation({ summary: 'Update the three-way match tolerances' })
+  @Protected()
+  @RequirePermissions({
+    module: 'settings',
+    action: 'edit',
+    resource: 'company',
+  })
+  updateTolerances(
+    @Body() updateDto: UpdateMatchTolerancesDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId?: string,
+  ) {
+    return this.threeWayMatchService.updateTolerances(
+      tenantId,
+      updateDto,
+      userId,
+    );
+  }
+
+  @Get('invoices/:invoiceId')
+  @ApiOperation({
+    summary:
+      'Match a purchase invoice against its purchase order and goods receipts',
+  })
+  @Protected()
+  @RequirePermissions({ module: 'goods_receipts', action: 'view' })
+  matchInvoice(
+    @Param('invoiceId') invoiceId: string,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.threeWayMatchService.getInvoiceMatch(invoiceId, tenantId);
+  }
+}
@@ -0,0 +1,234 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
+import { ThreeWayMatchService } from './three-way-match.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { AuditService } from '../audit/audit.service';
+import { queryResult } from '../../test/utils/query-result';
+
+describe('ThreeWayMatchService', () => {
+  let service: ThreeWayMatchService;
+  let tables: Record<string, any[]>;
+  let mockSupabaseClient: any;
+  let checkPermission: jest.Mock;
+  let auditService: { logAction: jest.Mock };
+
+  const mockTenantId = 'test-tenant-id';
+  const mockUserId = 'test-user-id';
+
+  // Bills 6 chairs at 250 and 2 desks at 1,050
+  const bill = {
+    id: 'bill-1',
+    invoice_type: 'purchase',
+    purchase_order_id: 'po-1',
+    invoice_lines: [
+      {
+        line_number: 2,
+        purchase_order_line_id: 'line-2',
+        quantity: 2,
+        unit_price: 1050,
+      },
+      {
+        line_number: 1,
+        purchase_order_line_id: 'line-1',
+        quantity: 6,
+        unit_price: 250,
+      },
+    ],
+  };
+
+  // 10 chairs ordered, 6 received and 6 billed; 2 desks ordered, received
+  // and billed
+  const orderLines = [
+    {
+      id: 'line-1',
+      line_number: 1,
+      quantity: 10,
+      unit_price: 250,
+      received_quantity: 6,
+      billed_quantity: 6,
+    },
+    {
+      id: 'line-2',
+      line_number: 2,
+      quantity: 2,
+      unit_price: 1000,
+      received_quantity: 2,
+      billed_quantity: 2,
+    },
+  ];
+
+  beforeEach(async () => {
+    tables = {};
+    mockSupabaseClient = {
+      from: jest.fn((table: string) => tables[table].shift()),
+    };
+    checkPermission = jest.fn().mockResolvedValue(true);
+    auditService = { logAction: jest.fn().mockResolvedValue(undefined) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ThreeWayMatchService,
+        {
+          provide: SupabaseService,
+          useValue: {
+            getClient: jest.fn().mockReturnValue(mockSupabaseClient),
+            checkPermission,
+          },
+        },
+        { provide: AuditService, useValue: auditService },
+      ],
+    }).compile();
+
+    service = module.get<ThreeWayMatchService>(ThreeWayMatchService);
+  });
+
+  function givenOrder(lines: any[], tolerances: any = null) {
+    const overrides = queryResult({ data: null, error: null });
+    tables.settings = [
+      queryResult({
+        data: tolerances ? { value: tolerances } : null,
+        error: null,
+      }),
+    ];
+    tables.purchase_order_lines = [queryResult({ data: lines, error: null })];
+    tables.match_overrides = [overrides];
+    return { overrides };
+  }
+
+  describe('matchInvoice', () => {
+    it('should report a price above the ordered price', async () => {
+      givenOrder(orderLines);
+
+      const result = await service.matchInvoice(bill, mockTenantId);
+
+      expect(result.status).toBe('mismatched');
+      expect(result.exceptions).toEqual([
+        expect.objectContaining({
+          type: 'price',
+          line_number: 2,
+          expected: 1000,
+          actual: 1050,
+          message: 'Bill line 2 is priced at 1050.00 against 1000.00 ordered',
+        }),
+      ]);
+    });
+
+    it('should accept a price within the price tolerance', async () => {
+      givenOrder(orderLines, { price_tolerance_percent: 5 });
+
+      const result = await service.matchInvoice(bill, mockTenantId);
+
+      expect(result.status).toBe('matched');
+      expect(result.exceptions).toEqual([]);
+    });
+
+    it('should report quantities billed beyond what was received and ordered', async () => {
+      givenOrder(
+        [
+          { ...orderLines[0], received_quantity: 4, billed_quantity: 11 },
+          orderLines[1],
+        ],
+        { price_tolerance_percent: 5, quantity_tolerance_percent: 5 },
+      );
+
+      const result = await service.matchInvoice(bill, mockTenantId);
+
+      expect(result.exceptions.map((exception) => exception.type)).toEqual([
+        'over_ordered',
+        'over_received',
+      ]);
+      expect(result.exceptions[1].message).toBe(
+        'Order line 1 is billed for 11 but 4 were received',
+      );
+    });
+
+    it('should not match invoices that were not billed from a purchase order', async () => {
+      const result = await service.matchInvoice(
+        { ...bill, purchase_order_id: null },
+        mockTenantId,
+      );
+
+      expect(result).toBeNull();
+      expect(mockSupabaseClient.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assertInvoiceAllowed', () => {
+    it('should record a mismatch on submit without blocking it', async () => {
+      givenOrder(orderLines);
+
+      const result = await service.assertInvoiceAllowed(bill, mockTenantId, {
+        action: 'submit',
+        userId: mockUserId,
+      });
+
+      expect(result).toEqual({
+        match_status: 'mismatched',
+        match_exceptions: [expect.objectContaining({ type: 'price' })],
+        match_checked_at: expect.any(String),
+      });
+    });
+
+    it('should block approval of a mismatched bill without a reason', async () => {
+      givenOrder(orderLines);
+
+      await expect(
+        service.assertInvoiceAllowed(bill, mockTenantId, {
+          action: 'approve',
+          userId: mockUserId,
+        }),
+      ).rejects.toThrow(
+        'The bill does not match its purchase order and goods receipts: Bill line 2 is priced at 1050.00 against 1000.00 ordered',
+      );
+    });
+
+    it('should require the override permission to approve with a reason', async () => {
+      givenOrder(orderLines);
+      checkPermission.mockResolvedValue(false);
+
+      await expect(
+        service.assertInvoiceAllowed(bill, mockTenantId, {
+          action: 'approve',
+          userId: mockUserId,
+          overrideReason: 'Price increase agreed by phone',
+        }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(checkPermission).toHaveBeenCalledWith(
+        mockUserId,
+        'invoices',
+        'override',
+        'match',
+      );
+    });
+
+    it('should record an override and return it for the invoice', async () => {
+      const { overrides } = givenOrder(orderLines);
+
+      const result = await service.assertInvoiceAllowed(bill, mockTenantId, {
+        action: 'approve',
+        userId: mockUserId,
+        overrideReason: 'Price increase agreed by phone',
+      });
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          match_status: 'mismatched',
+          match_override_by: mockUserId,
+          match_override_reason: 'Price increase agreed by phone',
+          match_override_at: expect.any(String),
+        }),
+      );
+      expect(overrides.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          invoice_id: 'bill-1',
+          purchase_order_id: 'po-1',
+          reason: 'Price increase agreed by phone',
+          user_id: mockUserId,
+        }),
+      );
+      expect(auditService.logAction).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'match_override' }),
+      );
+    });
+  });
+});
@@ -0,0 +1,383 @@
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { AuditService } from '../audit/audit.service';
+import { UpdateMatchTolerancesDto } from './dto/update-match-tolerances.dto';
+
+// Settings key holding the tenant's match tolerances
+const SETTINGS_KEY = 'three_way_match';
+
+export type MatchCheckAction = 'submit' | 'approve';
+
+export interface MatchCheckContext {
+  action: MatchCheckAction;
+  userId?: string;
+  // Reason given to approve a bill that does not match; requires the
+  // invoices:override:match permission
+  overrideReason?: string;
+}
+
+export interface MatchTolerances {
+  // Percentages by which a bill may exceed what was ordered or received, and
+  // the ordered unit price
+  quantity_tolerance_percent: number;
+  price_tolerance_percent: number;
+}
+
+export type MatchExceptionType =
+  | 'not_ordered'
+  | 'over_ordered'
+  | 'over_received'
+  | 'price';
+
+export interface MatchException {
+  type: MatchExceptionType;
+  // Bill line, or the order line for quantity exceptions
+  line_number: number;
+  purchase_order_line_id: string | null;
+  expected: number | null;
+  actual: number;
+  message: string;
+}
+
+export interface MatchResult {
+  invoice_id: string;
+  purchase_order_id: string;
+  status: 'matched' | 'mismatched';
+  exceptions: MatchException[];
+  tolerances: MatchTolerances;
+}
+
+// Match fields stored on the invoice
+export interface InvoiceMatchFields {
+  match_status: 'matched' | 'mismatched';
+  match_exceptions: MatchException[];
+  match_checked_at: string;
+  match_override_by?: string;
+  match_override_reason?: string;
+  match_override_at?: string;
+}
+
+/**
+ * Three-way matching of purchase invoices billed from a purchase order
+ *
+ * Each bill line is compared with the order line it bills: the quantity
+ * billed on the order line across all its bills may not exceed the quantity
+ * ordered or the quantity received on goods receipts, and the unit price may
+ * not exceed the ordered price, each within the tenant's tolerance. The
+ * result is stored on the bill when it is submitted and checked again on
+ * approval, where a mismatch blocks the bill unless a user with the
+ * invoices:override:match permission gives a reason; every such override is
+ * recorded.
+ */
+@Injectable()
+export class ThreeWayMatchService {
+  constructor(
+    private supabaseService: SupabaseService,
+    private auditService: AuditService,
+  ) {}
+
+  async getTolerances(tenantId: string): Promise<MatchTolerances> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('settings')
+      .select('value')
+      .eq('tenant_id', tenantId)
+      .eq('key', SETTINGS_KEY)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return {
+      quantity_tolerance_percent:
+        Number(data?.value?.quantity_tolerance_percent) || 0,
+      price_tolerance_percent:
+        Number(data?.value?.price_tolerance_percent) || 0,
+    };
+  }
+
+  async updateTolerances(
+    tenantId: string,
+    updateDto: UpdateMatchTolerancesDto,
+    userId?: string,
+  ): Promise<MatchTolerances> {
+    const supabase = this.supabaseService.getClient();
+    const tolerances = {
+      ...(await this.getTolerances(tenantId)),
+      ...Object.fromEntries(
+        Object.entries(updateDto).filter(([, value]) => value !== undefined),
+      ),
+    };
+
+    const { error } = await supabase
+      .from('settings')
+      .upsert(
+        { tenant_id: tenantId, key: SETTINGS_KEY, value: tolerances },
+        { onConflict: 'tenant_id,key' },
+      );
+
+    if (error) throw error;
+
+    await this.auditService.logAction({
+      action: 'update',
+      entity: 'settings',
+      userId,
+      tenantId,
+      metadata: { key: SETTINGS_KEY, changes: updateDto },
+      timestamp: new Date(),
+      success: true,
+    });
+
+    return tolerances;
+  }
+
+  /**
+   * Match a purchase invoice by id, e.g. to show a bill's exceptions before
+   * it is approved
+   */
+  async getInvoiceMatch(invoiceId: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: invoice, error } = await supabase
+      .from('invoices')
+      .select('*, invoice_lines(*)')
+      .eq('id', invoiceId)
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!invoice) {
+      throw new NotFoundException('Invoice not found');
+    }
+
+    const result = await this.matchInvoice(invoice, tenantId);
+
+    if (!result) {
+      throw new BadRequestException(
+        'Only purchase invoices billed from a purchase order are matched',
+      );
+    }
+
+    return {
+      ...result,
+      match_override_by: invoice.match_override_by,
+      match_override_reason: invoice.match_override_reason,
+      match_override_at: invoice.match_override_at,
+    };
+  }
+
+  /**
+   * Compare a purchase invoice, with its invoice_lines, with its purchase
+   * order and goods receipts. Returns null for invoices not billed from a
+   * purchase order.
+   */
+  async matchInvoice(
+    invoice: any,
+    tenantId: string,
+  ): Promise<MatchResult | null> {
+    if (invoice.invoice_type !== 'purchase' || !invoice.purchase_order_id) {
+      return null;
+    }
+
+    const supabase = this.supabaseService.getClient();
+    const tolerances = await this.getTolerances(tenantId);
+
+    const { data: orderLines, error } = await supabase
+      .from('purchase_order_lines')
+      .select(
+        'id, line_number, quantity, unit_price, received_quantity, billed_quantity',
+      )
+      .eq('purchase_order_id', invoice.purchase_order_id)
+      .eq('tenant_id', tenantId);
+
+    if (error) throw error;
+
+    const quantityFactor = 1 + tolerances.quantity_tolerance_percent / 100;
+    const priceFactor = 1 + tolerances.price_tolerance_percent / 100;
+    const exceptions: MatchException[] = [];
+    const billedLines = new Map<string, any>();
+
+    const lines = [...(invoice.invoice_lines || [])].sort(
+      (a, b) => a.line_number - b.line_number,
+    );
+
+    for (const line of lines) {
+      const orderLine = (orderLines || []).find(
+        (candidate) => candidate.id === line.purchase_order_line_id,
+      );
+
+      if (!orderLine) {
+        exceptions.push({
+          type: 'not_ordered',
+          line_number: line.line_number,
+          purchase_order_line_id: null,
+          expected: null,
+          actual: Number(line.quantity),
+          message: `Bill line ${line.line_number} is not on the purchase order`,
+        });
+        continue;
+      }
+
+      billedLines.set(orderLine.id, orderLine);
+
+      const orderedPrice = Number(orderLine.unit_price);
+      const billedPrice = Number(line.unit_price);
+      if (billedPrice > this.round(orderedPrice * priceFactor)) {
+        exceptions.push({
+          type: 'price',
+          line_number: line.line_number,
+          purchase_order_line_id: orderLine.id,
+          expected: orderedPrice,
+          actual: billedPrice,
+          message: `Bill line ${line.line_number} is priced at ${billedPrice.toFixed(2)} against ${orderedPrice.toFixed(2)} ordered`,
+        });
+      }
+    }
+
+    // billed_quantity counts every bill of the order line that is not
+    // cancelled, this one included
+    for (const orderLine of billedLines.values()) {
+      const ordered = Number(orderLine.quantity);
+      const received = Number(orderLine.received_quantity || 0);
+      const billed = Number(orderLine.billed_quantity || 0);
+
+      if (billed > this.round(ordered * quantityFactor)) {
+        exceptions.push({
+          type: 'over_ordered',
+          line_number: orderLine.line_number,
+          purchase_order_line_id: orderLine.id,
+          expected: ordered,
+          actual: billed,
+          message: `Order line ${orderLine.line_number} is billed for ${billed} but ${ordered} were ordered`,
+        });
+      }
+
+      if (billed > this.round(received * quantityFactor)) {
+        exceptions.push({
+          type: 'over_received',
+          line_number: orderLine.line_number,
+          purchase_order_line_id: orderLine.id,
+          expected: received,
+          actual: billed,
+          message: `Order line ${orderLine.line_number} is billed for ${billed} but ${received} were received`,
+        });
+      }
+    }
+
+    return {
+      invoice_id: invoice.id,
+      purchase_order_id: invoice.purchase_order_id,
+      status: exceptions.length === 0 ? 'matched' : 'mismatched',
+      exceptions,
+      tolerances,
+    };
+  }
+
+  /**
+   * Match the purchase invoice being submitted or approved. A mismatch is
+   * only recorded on submit; on approve it throws unless overridden. Returns
+   * the match fields to store on the invoice, or null for invoices not
+   * billed from a purchase order.
+   */
+  async assertInvoiceAllowed(
+    invoice: any,
+    tenantId: string,
+    context: MatchCheckContext,
+  ): Promise<InvoiceMatchFields | null> {
+    const result = await this.matchInvoice(invoice, tenantId);
+
+    if (!result) {
+      return null;
+    }
+
+    const fields: InvoiceMatchFields = {
+      match_status: result.status,
+      match_exceptions: result.exceptions,
+      match_checked_at: new Date().toISOString(),
+    };
+
+    if (result.status === 'matched' || context.action === 'submit') {
+      return fields;
+    }
+
+    const problem = `The bill does not match its purchase order and goods receipts: ${result.exceptions
+      .map((exception) => exception.message)
+      .join('; ')}`;
+
+    const reason = context.overrideReason?.trim();
+    if (!reason) {
+      throw new BadRequestException(
+        `${problem}. A user with the invoices:override:match permission can approve it by giving a reason`,
+      );
+    }
+
+    const allowed =
+      !!context.userId &&
+      (await this.supabaseService.checkPermission(
+        context.userId,
+        'invoices',
+        'override',
+        'match',
+      ));
+    if (!allowed) {
+      throw new ForbiddenException(
+        'Missing required permission: invoices:override:match',
+      );
+    }
+
+    await this.recordOverride(tenantId, invoice, result, reason, context);
+
+    return {
+      ...fields,
+      match_override_by: context.userId,
+      match_override_reason: reason,
+      match_override_at: new Date().toISOString(),
+    };
+  }
+
+  private async recordOverride(
+    tenantId: string,
+    invoice: any,
+    result: MatchResult,
+    reason: string,
+    context: MatchCheckContext,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const { error } = await supabase.from('match_overrides').insert({
+      tenant_id: tenantId,
+      invoice_id: invoice.id,
+      purchase_order_id: result.purchase_order_id,
+      reason,
+      exceptions: result.exceptions,
+      user_id: context.userId,
+    });
+
+    if (error) throw error;
+
+    await this.auditService.logAction({
+      action: 'match_override',
+      entity: 'invoice',
+      entityId: invoice.id,
+      userId: context.userId,
+      tenantId,
+      metadata: {
+        purchaseOrderId: result.purchase_order_id,
+        reason,
+        exceptions: result.exceptions.map((exception) => exception.message),
+      },
+      timestamp: new Date(),
+      success: true,
+    });
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -0,0 +1,244 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { CreditNotesService } from './credit-notes.service';
+import { InvoicesService } from './invoices.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { queryResult } from '../../test/utils/query-result';
+
+describe('CreditNotesService', () => {
+  let service: CreditNotesService;
+  let tables: Record<string, any[]>;
+  let mockSupabaseClient: any;
+  let invoicesService: { findOne: jest.Mock; create: jest.Mock };
+
+  const mockTenantId = 'test-tenant-id';
+  const mockUserId = 'test-user-id';
+
+  const postedInvoice = {
+    id: 'invoice-1',
+    invoice_number: 'INV-2026-000001',
+    invoice_type: 'sales',
+    party_id: 'customer-1',
+    party_type: 'customer',
+    currency: 'QAR',
+    exchange_rate: 1,
+    status: 'posted',
+    subtotal: 1000,
+    discount_amount: 0,
+    total_amount: 1050,
+    invoice_lines: [
+      {
+        id: 'line-1',
+        line_number: 1,
+        description_ar: 'استشارات',
+        quantity: 10,
+        unit_price: 100,
+        discount_amount: 0,
+        tax_percentage: 5,
+        tax_code_id: null,
+        account_id: 'revenue-1',
+      },
+    ],
+    invoice_taxes: [
+      {
+        tax_code_id: 'vat-5',
+        tax_name: 'VAT 5%',
+        tax_percentage: 5,
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    tables = {};
+    mockSupabaseClient = {
+      from: jest.fn((table: string) => tables[table].shift()),
+      rpc: jest.fn(),
+    };
+    invoicesService = { findOne: jest.fn(), create: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CreditNotesService,
+        {
+          provide: SupabaseService,
+          useValue: {
+            getClient: jest.fn().mockReturnValue(mockSupabaseClient),
+          },
+        },
+        { provide: InvoicesService, useValue: invoicesService },
+      ],
+    }).compile();
+
+    service = module.get<CreditNotesService>(CreditNotesService);
+  });
+
+  describe('createFromInvoice', () => {
+    it('should copy the requested lines into a draft sales return linked to the invoice', async () => {
+      invoicesService.findOne.mockResolvedValue(postedInvoice);
+      invoicesService.create.mockResolvedValue({ id: 'credit-note-1' });
+      tables.invoices = [queryResult({ data: [], error: null })];
+
+      await service.createFromInvoice(
+        'invoice-1',
+        { lines: [{ originalLineId: 'line-1', quantity: 2 }] },
+        mockTenantId,
+        mockUserId,
+      );
+
+      expect(invoicesService.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          invoiceType: 'sales_return',
+          partyId: 'customer-1',
+          partyType: 'customer',
+          totalAmount: 210,
+          lines: [
+            expect.objectContaining({
+              lineNumber: 1,
+              quantity: 2,
+              unitPrice: 100,
+              taxableAmount: 200,
+              taxCodeId: 'vat-5',
+              taxAmount: 10,
+              accountId: 'revenue-1',
+            }),
+          ],
+          taxes: [
+            {
+              taxCodeId: 'vat-5',
+              taxType: 'output',
+              taxName: 'VAT 5%',
+              taxPercentage: 5,
+              taxableAmount: 200,
+              taxAmount: 10,
+            },
+          ],
+        }),
+        mockTenantId,
+        mockUserId,
+        undefined,
+        { originalInvoiceId: 'invoice-1', originalLineIds: { 1: 'line-1' } },
+      );
+    });
+
+    it('should default to the quantities left after earlier credit notes', async () => {
+      invoicesService.findOne.mockResolvedValue(postedInvoice);
+      invoicesService.create.mockResolvedValue({ id: 'credit-note-2' });
+      tables.invoices = [
+        queryResult({
+          data: [
+            {
+              id: 'credit-note-1',
+              total_amount: 420,
+              invoice_lines: [{ original_line_id: 'line-1', quantity: 4 }],
+            },
+          ],
+          error: null,
+        }),
+      ];
+
+      await service.createFromInvoice('invoice-1', {}, mockTenantId);
+
+      expect(invoicesService.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          totalAmount: 630,
+          lines: [expect.objectContaining({ quantity: 6 })],
+        }),
+        mockTenantId,
+        undefined,
+        undefined,
+        expect.anything(),
+      );
+    });
+
+    it('should reject a quantity above what is left to credit', async () => {
+      invoicesService.findOne.mockResolvedValue(postedInvoice);
+      tables.invoices = [
+        queryResult({
+          data: [
+            {
+              id: 'credit-note-1',
+              total_amount: 840,
+              invoice_lines: [{ original_line_id: 'line-1', quantity: 8 }],
+            },
+          ],
+          error: null,
+        }),
+      ];
+
+      await expect(
+        service.createFromInvoice(
+          'invoice-1',
+          { lines: [{ originalLineId: 'line-1', quantity: 3 }] },
+          mockTenantId,
+        ),
+      ).rejects.toThrow('Line 1 has 2 left to credit');
+      expect(invoicesService.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a unit price above the invoiced price', async () => {
+      invoicesService.findOne.mockResolvedValue(postedInvoice);
+      tables.invoices = [queryResult({ data: [], error: null })];
+
+      await expect(
+        service.createFromInvoice(
+          'invoice-1',
+          {
+            lines: [{ originalLineId: 'line-1', quantity: 1, unitPrice: 150 }],
+          },
+          mockTenantId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should not credit a draft invoice', async () => {
+      invoicesService.findOne.mockResolvedValue({
+        ...postedInvoice,
+        status: 'draft',
+      });
+
+      await expect(
+        service.createFromInvoice('invoice-1', {}, mockTenantId),
+      ).rejects.toThrow(
+        'Credit notes can only be created from posted invoices',
+      );
+    });
+  });
+
+  describe('applyCredit', () => {
+    it('should allocate the credit through the database function', async () => {
+      mockSupabaseClient.rpc.mockResolvedValue({ data: null, error: null });
+      invoicesService.findOne.mockResolvedValue({ id: 'credit-note-1' });
+
+      await service.applyCredit(
+        'credit-note-1',
+        { allocations: [{ invoiceId: 'invoice-2', amount: 100 }] },
+        mockTenantId,
+        mockUserId,
+      );
+
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith('apply_credit_note', {
+        p_credit_note_id: 'credit-note-1',
+        p_tenant_id: mockTenantId,
+        p_user_id: mockUserId,
+        p_allocations: [
+          { invoice_id: 'invoice-2', amount: 100, notes: undefined },
+        ],
+      });
+    });
+
+    it('should surface allocation errors as bad requests', async () => {
+      mockSupabaseClient.rpc.mockResolvedValue({
+        data: null,
+        error: { message: 'Invoice INV-2026-000002 is not open' },
+      });
+
+      await expect(
+        service.applyCredit(
+          'credit-note-1',
+          { allocations: [{ invoiceId: 'invoice-2', amount: 100 }] },
+          mockTenantId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
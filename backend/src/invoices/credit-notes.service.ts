@@ -0,0 +1,334 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { InvoicesService } from './invoices.service';
+import {
+  CreateCreditNoteDto,
+  CreditNoteLineDto,
+} from './dto/create-credit-note.dto';
+import { ApplyCreditNoteDto } from './dto/apply-credit-note.dto';
+import { InvoiceLineDto } from './dto/invoice-line.dto';
+import { InvoiceTaxDto } from './dto/invoice-tax.dto';
+
+const CREDIT_NOTE_TYPES: Record<string, string> = {
+  sales: 'sales_return',
+  purchase: 'purchase_return',
+};
+
+// An invoice can be credited once it has been posted to the ledger
+const CREDITABLE_STATUSES = ['posted', 'partially_paid', 'paid', 'overdue'];
+
+@Injectable()
+export class CreditNotesService {
+  constructor(
+    private supabaseService: SupabaseService,
+    private invoicesService: InvoicesService,
+  ) {}
+
+  /**
+   * Creates a draft credit note from a posted invoice. Lines are copied from
+   * the invoice and may be reduced in quantity and unit price, but never past
+   * what the invoice and its earlier credit notes leave to credit.
+   */
+  async createFromInvoice(
+    invoiceId: string,
+    createDto: CreateCreditNoteDto,
+    tenantId: string,
+    userId?: string,
+    branchId?: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+    const original = await this.invoicesService.findOne(invoiceId, tenantId);
+
+    const creditNoteType = CREDIT_NOTE_TYPES[original.invoice_type];
+    if (!creditNoteType) {
+      throw new BadRequestException(
+        'Credit notes can only be created from sales or purchase invoices',
+      );
+    }
+
+    if (!CREDITABLE_STATUSES.includes(original.status)) {
+      throw new BadRequestException(
+        'Credit notes can only be created from posted invoices',
+      );
+    }
+
+    // Earlier credit notes of the invoice, except cancelled ones
+    const { data: creditNotes, error } = await supabase
+      .from('invoices')
+      .select('id, total_amount, invoice_lines(original_line_id, quantity)')
+      .eq('tenant_id', tenantId)
+      .eq('original_invoice_id', invoiceId)
+      .neq('status', 'cancelled');
+
+    if (error) {
+      throw error;
+    }
+
+    const creditedQuantities = new Map<string, number>();
+    let creditedTotal = 0;
+    for (const creditNote of creditNotes || []) {
+      creditedTotal += Number(creditNote.total_amount);
+      for (const line of creditNote.invoice_lines || []) {
+        if (line.original_line_id) {
+          creditedQuantities.set(
+            line.original_line_id,
+            (creditedQuantities.get(line.original_line_id) || 0) +
+              Number(line.quantity),
+          );
+        }
+      }
+    }
+
+    const originalLines = new Map<string, any>(
+      (original.invoice_lines || []).map((line: any) => [line.id, line]),
+    );
+    const remainingQuantity = (line: any) =>
+      Number(line.quantity) - (creditedQuantities.get(line.id) || 0);
+
+    const requested: CreditNoteLineDto[] =
+      createDto.lines ||
+      [...originalLines.values()]
+        .filter((line) => remainingQuantity(line) > 0)
+        .map((line) => ({
+          originalLineId: line.id,
+          quantity: remainingQuantity(line),
+        }));
+
+    if (requested.length === 0) {
+      throw new BadRequestException('The invoice has been fully credited');
+    }
+
+    const taxType = original.invoice_type === 'sales' ? 'output' : 'input';
+    const lines: InvoiceLineDto[] = [];
+    const originalLineIds: Record<number, string> = {};
+    const taxes = new Map<string, InvoiceTaxDto>();
+
+    requested.forEach((item, index) => {
+      const line = originalLines.get(item.originalLineId);
+      if (!line) {
+        throw new BadRequestException(
+          `Line ${item.originalLineId} does not belong to invoice ${original.invoice_number}`,
+        );
+      }
+
+      if (item.quantity > remainingQuantity(line)) {
+        throw new BadRequestException(
+          `Line ${line.line_number} has ${remainingQuantity(line)} left to credit`,
+        );
+      }
+
+      const unitPrice = item.unitPrice ?? Number(line.unit_price);
+      if (unitPrice > Number(line.unit_price)) {
+        throw new BadRequestException(
+          `Unit price of line ${line.line_number} cannot exceed the invoiced ${line.unit_price}`,
+        );
+      }
+
+      // Discount and tax follow the rates of the original line
+      const lineSubtotal = item.quantity * unitPrice;
+      const originalSubtotal = Number(line.quantity) * Number(line.unit_price);
+      const discountAmount = originalSubtotal
+        ? this.round(
+            (Number(line.discount_amount) * lineSubtotal) / originalSubtotal,
+          )
+        : 0;
+      const taxableAmount = this.round(lineSubtotal - discountAmount);
+      const taxPercentage = Number(line.tax_percentage) || 0;
+      const taxAmount = this.round((taxableAmount * taxPercentage) / 100);
+      const taxCodeId =
+        taxPercentage > 0 ? this.findTaxCode(original, line) : undefined;
+
+      const lineNumber = index + 1;
+      originalLineIds[lineNumber] = line.id;
+      lines.push({
+        lineNumber,
+        itemCode: line.item_code,
+        descriptionAr: item.descriptionAr || line.description_ar,
+        descriptionEn: item.descriptionEn ?? line.description_en,
+        quantity: item.quantity,
+        unitOfMeasure: line.unit_of_measure,
+        unitPrice,
+        discountAmount,
+        taxableAmount,
+        taxCodeId,
+        taxPercentage,
+        taxAmount,
+        lineTotal: this.round(taxableAmount + taxAmount),
+        accountId: line.account_id,
+        costCenterId: line.cost_center_id,
+      });
+
+      if (taxCodeId) {
+        const tax = taxes.get(taxCodeId) || {
+          taxCodeId,
+          taxType,
+          taxName:
+            (original.invoice_taxes || []).find(
+              (t: any) => t.tax_code_id === taxCodeId,
+            )?.tax_name || `VAT ${taxPercentage}%`,
+          taxPercentage,
+          taxableAmount: 0,
+          taxAmount: 0,
+        };
+        tax.taxableAmount = this.round(tax.taxableAmount + taxableAmount);
+        tax.taxAmount = this.round(tax.taxAmount + taxAmount);
+        taxes.set(taxCodeId, tax);
+      }
+    });
+
+    // The invoice-level discount is credited in proportion to the lines
+    const subtotal = lines.reduce((sum, line) => sum + line.taxableAmount, 0);
+    const headerDiscountRatio = Number(original.subtotal)
+      ? Number(original.discount_amount) / Number(original.subtotal)
+      : 0;
+    const discountAmount = this.round(subtotal * headerDiscountRatio);
+    for (const tax of taxes.values()) {
+      tax.taxableAmount = this.round(
+        tax.taxableAmount * (1 - headerDiscountRatio),
+      );
+      tax.taxAmount = this.round(tax.taxAmount * (1 - headerDiscountRatio));
+    }
+
+    const totalAmount = this.round(
+      subtotal -
+        discountAmount +
+        [...taxes.values()].reduce((sum, tax) => sum + tax.taxAmount, 0),
+    );
+    const creditable = this.round(
+      Number(original.total_amount) - creditedTotal,
+    );
+    if (totalAmount > creditable) {
+      throw new BadRequestException(
+        `Credit note total ${totalAmount} exceeds the ${creditable} left to credit on invoice ${original.invoice_number}`,
+      );
+    }
+
+    return this.invoicesService.create(
+      {
+        tenantId,
+        invoiceType: creditNoteType as 'sales_return' | 'purchase_return',
+        partyId: original.party_id,
+        partyType: original.party_type,
+        invoiceDate: createDto.invoiceDate || new Date(),
+        currency: original.currency,
+        exchangeRate: Number(original.exchange_rate) || 1,
+        discountAmount,
+        totalAmount,
+        notes:
+          createDto.notes ||
+          `Credit note for invoice ${original.invoice_number}`,
+        overrideCode: createDto.overrideCode,
+        lines,
+        taxes: [...taxes.values()],
+      },
+      tenantId,
+      userId,
+      branchId,
+      { originalInvoiceId: original.id, originalLineIds },
+    );
+  }
+
+  /**
+   * Applies the unapplied credit of a posted credit note to open invoices of
+   * the same party, reducing their balances.
+   */
+  async applyCredit(
+    creditNoteId: string,
+    applyDto: ApplyCreditNoteDto,
+    tenantId: string,
+    userId?: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const { error } = await supabase.rpc('apply_credit_note', {
+      p_credit_note_id: creditNoteId,
+      p_tenant_id: tenantId,
+      p_user_id: userId,
+      p_allocations: applyDto.allocations.map((allocation) => ({
+        invoice_id: allocation.invoiceId,
+        amount: allocation.amount,
+        notes: allocation.notes,
+      })),
+    });
+
+    if (error) {
+      throw new BadRequestException(error.message);
+    }
+
+    return this.invoicesService.findOne(creditNoteId, tenantId);
+  }
+
+  /**
+   * Lists the credit allocations of an invoice, whether it is the credit
+   * note or the invoice being credited.
+   */
+  async getAllocations(invoiceId: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('credit_note_allocations')
+      .select(
+        `
+        *,
+        credit_note:invoices!credit_note_id(id, invoice_number, invoice_date, total_amount),
+        invoice:invoices!invoice_id(id, invoice_number, invoice_date, total_amount)
+      `,
+      )
+      .eq('tenant_id', tenantId)
+      .or(`credit_note_id.eq.${invoiceId},invoice_id.eq.${invoiceId}`)
+      .order('allocation_date', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  async removeAllocation(allocationId: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('credit_note_allocations')
+      .delete()
+      .eq('id', allocationId)
+      .eq('tenant_id', tenantId)
+      .select();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data || data.length === 0) {
+      throw new NotFoundException('Credit allocation not found');
+    }
+
+    return { message: 'Credit allocation removed successfully' };
+  }
+
+  // Tax code of an original line, falling back to the invoice tax at its rate
+  private findTaxCode(invoice: any, line: any): string {
+    if (line.tax_code_id) {
+      return line.tax_code_id;
+    }
+
+    const tax = (invoice.invoice_taxes || []).find(
+      (t: any) => Number(t.tax_percentage) === Number(line.tax_percentage),
+    );
+    if (!tax?.tax_code_id) {
+      throw new BadRequestException(
+        `No tax code found for the ${line.tax_percentage}% tax of line ${line.line_number}`,
+      );
+    }
+
+    return tax.tax_code_id;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
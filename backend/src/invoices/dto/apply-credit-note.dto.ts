@@ -0,0 +1,35 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsNumber,
+  IsUUID,
+  IsArray,
+  ArrayNotEmpty,
+  ValidateNested,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class CreditAllocationDto {
+  @IsUUID()
+  @IsNotEmpty()
+  invoiceId: string;
+
+  @IsNumber()
+  @IsNotEmpty()
+  @Min(0.01)
+  amount: number;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+}
+
+export class ApplyCreditNoteDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => CreditAllocationDto)
+  allocations: CreditAllocationDto[];
+}
@@ -0,0 +1,11 @@
+import { IsString, IsOptional, MaxLength } from 'class-validator';
+import { CreditOverrideDto } from './credit-override.dto';
+
+export class ApproveInvoiceDto extends CreditOverrideDto {
+  // Reason for approving a purchase invoice that does not match its purchase
+  // order and goods receipts; requires the invoices:override:match permission
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  matchOverrideReason?: string;
+}
@@ -0,0 +1,22 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsDate,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PeriodOverrideDto } from '../../fiscal-periods/dto/period-override.dto';
+
+export class CancelInvoiceDto extends PeriodOverrideDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+
+  // Date of the reversal journal; defaults to today
+  @IsDate()
+  @IsOptional()
+  @Type(() => Date)
+  cancellationDate?: Date;
+}
@@ -0,0 +1,67 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsNumber,
+  IsUUID,
+  IsDate,
+  IsArray,
+  ArrayNotEmpty,
+  ValidateNested,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class CreditNoteLineDto {
+  // Line of the original invoice being credited
+  @IsUUID()
+  @IsNotEmpty()
+  originalLineId: string;
+
+  // At most the quantity of the original line not credited yet
+  @IsNumber()
+  @IsNotEmpty()
+  @Min(0.01)
+  quantity: number;
+
+  // At most the unit price of the original line; defaults to it
+  @IsNumber()
+  @IsOptional()
+  @Min(0)
+  unitPrice?: number;
+
+  @IsString()
+  @IsOptional()
+  descriptionAr?: string;
+
+  @IsString()
+  @IsOptional()
+  descriptionEn?: string;
+}
+
+export class CreateCreditNoteDto {
+  @IsDate()
+  @IsOptional()
+  @Type(() => Date)
+  invoiceDate?: Date;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+
+  // Override code of a locked fiscal period; requires the
+  // settings:override:period permission
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  overrideCode?: string;
+
+  // Lines to credit; all remaining quantities of the invoice when omitted
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => CreditNoteLineDto)
+  lines?: CreditNoteLineDto[];
+}
@@ -52,6 +52,11 @@ export class CreateInvoiceDto {
   @Type(() => Date)
   dueDate?: Date;
 
+  // Derives the due date and early-payment discount; the party's terms when omitted
+  @IsUUID()
+  @IsOptional()
+  paymentTermsId?: string;
+
   @IsString()
   @IsOptional()
   @MaxLength(3)
@@ -104,6 +109,13 @@ export class CreateInvoiceDto {
   @IsOptional()
   attachmentUrl?: string;
 
+  // Override code of a locked fiscal period; requires the
+  // settings:override:period permission
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  overrideCode?: string;
+
   @IsEnum([
     'draft',
     'submitted',
@@ -0,0 +1,10 @@
+import { IsString, IsOptional, MaxLength } from 'class-validator';
+
+export class CreditOverrideDto {
+  // Reason for submitting or approving past the customer's credit limit or
+  // hold; requires the invoices:override:credit permission
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  creditOverrideReason?: string;
+}
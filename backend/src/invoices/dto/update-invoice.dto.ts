@@ -52,6 +52,11 @@ export class UpdateInvoiceDto extends PartialType(CreateInvoiceDto) {
   @Type(() => Date)
   dueDate?: Date;
 
+  // Derives the due date and early-payment discount; the party's terms when omitted
+  @IsUUID()
+  @IsOptional()
+  paymentTermsId?: string;
+
   @IsString()
   @IsOptional()
   @MaxLength(3)
@@ -16,10 +16,17 @@ import {
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
 import { type Response } from 'express';
 import { InvoicesService } from './invoices.service';
+import { CreditNotesService } from './credit-notes.service';
 import { PdfService } from '../pdf/pdf.service';
 import { ExportService } from '../export/export.service';
 import { CreateInvoiceDto } from './dto/create-invoice.dto';
 import { UpdateInvoiceDto } from './dto/update-invoice.dto';
+import { CreateCreditNoteDto } from './dto/create-credit-note.dto';
+import { ApplyCreditNoteDto } from './dto/apply-credit-note.dto';
+import { PeriodOverrideDto } from '../fiscal-periods/dto/period-override.dto';
+import { CreditOverrideDto } from './dto/credit-override.dto';
+import { ApproveInvoiceDto } from './dto/approve-invoice.dto';
+import { CancelInvoiceDto } from './dto/cancel-invoice.dto';
 import { TenantContextGuard } from '../common/guards/tenant-context.guard';
 import { TenantContext } from '../common/decorators/tenant-context.decorator';
 
@@ -36,6 +43,7 @@ function Protected() {
 export class InvoicesController {
   constructor(
     private invoicesService: InvoicesService,
+    private creditNotesService: CreditNotesService,
     private pdfService: PdfService,
     private exportService: ExportService,
   ) {}
@@ -81,8 +89,9 @@ export class InvoicesController {
     @Param('id') id: string,
     @Body() updateDto: UpdateInvoiceDto,
     @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId?: string,
   ) {
-    return this.invoicesService.update(id, updateDto, tenantId);
+    return this.invoicesService.update(id, updateDto, tenantId, userId);
   }
 
   @Delete(':id')
@@ -100,10 +109,13 @@ export class InvoicesController {
   @Protected()
   submit(
     @Param('id') id: string,
+    @Body() overrideDto: CreditOverrideDto,
     @TenantContext('tenantId') tenantId: string,
     @TenantContext('userId') userId?: string,
   ) {
-    return this.invoicesService.submit(id, tenantId, userId);
+    return this.invoicesService.submit(id, tenantId, userId, {
+      creditOverrideReason: overrideDto.creditOverrideReason,
+    });
   }
 
   @Post(':id/approve')
@@ -111,10 +123,14 @@ export class InvoicesController {
   @Protected()
   approve(
     @Param('id') id: string,
+    @Body() approveDto: ApproveInvoiceDto,
     @TenantContext('tenantId') tenantId: string,
     @TenantContext('userId') userId?: string,
   ) {
-    return this.invoicesService.approve(id, tenantId, userId);
+    return this.invoicesService.approve(id, tenantId, userId, {
+      creditOverrideReason: approveDto.creditOverrideReason,
+      matchOverrideReason: approveDto.matchOverrideReason,
+    });
   }
 
   @Post(':id/post')
@@ -122,10 +138,73 @@ export class InvoicesController {
   @Protected()
   post(
     @Param('id') id: string,
+    @Body() overrideDto: PeriodOverrideDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId?: string,
+  ) {
+    return this.invoicesService.post(id, tenantId, userId, {
+      overrideCode: overrideDto.overrideCode,
+    });
+  }
+
+  @Post(':id/cancel')
+  @ApiOperation({ summary: 'Cancel a posted, unpaid invoice and reverse its journal' })
+  @Protected()
+  cancel(
+    @Param('id') id: string,
+    @Body() cancelDto: CancelInvoiceDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId?: string,
+  ) {
+    return this.invoicesService.cancel(id, cancelDto.reason, tenantId, userId, {
+      cancellationDate: cancelDto.cancellationDate,
+      overrideCode: cancelDto.overrideCode,
+    });
+  }
+
+  @Post(':id/credit-note')
+  @ApiOperation({ summary: 'Create a draft credit note from a posted invoice' })
+  @Protected()
+  createCreditNote(
+    @Param('id') id: string,
+    @Body() createDto: CreateCreditNoteDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId?: string,
+    @TenantContext('branchId') branchId?: string,
+  ) {
+    return this.creditNotesService.createFromInvoice(id, createDto, tenantId, userId, branchId);
+  }
+
+  @Post(':id/apply-credit')
+  @ApiOperation({ summary: 'Apply a posted credit note to open invoices' })
+  @Protected()
+  applyCredit(
+    @Param('id') id: string,
+    @Body() applyDto: ApplyCreditNoteDto,
     @TenantContext('tenantId') tenantId: string,
     @TenantContext('userId') userId?: string,
   ) {
-    return this.invoicesService.post(id, tenantId, userId);
+    return this.creditNotesService.applyCredit(id, applyDto, tenantId, userId);
+  }
+
+  @Get(':id/credit-allocations')
+  @ApiOperation({ summary: 'Get the credit allocations of an invoice or credit note' })
+  @Protected()
+  getCreditAllocations(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.creditNotesService.getAllocations(id, tenantId);
+  }
+
+  @Delete('credit-allocations/:allocationId')
+  @ApiOperation({ summary: 'Remove a credit allocation' })
+  @Protected()
+  removeCreditAllocation(
+    @Param('allocationId') allocationId: string,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.creditNotesService.removeAllocation(allocationId, tenantId);
   }
 
   @Get(':id/pdf')
@@ -1,15 +1,31 @@
 import { Module } from '@nestjs/common';
 import { InvoicesService } from './invoices.service';
+import { CreditNotesService } from './credit-notes.service';
 import { InvoicesController } from './invoices.controller';
 import { SupabaseModule } from '../supabase/supabase.module';
 import { JournalsModule } from '../journals/journals.module';
 import { PdfModule } from '../pdf/pdf.module';
 import { ExportModule } from '../export/export.module';
+import { PeriodGuardModule } from '../fiscal-periods/period-guard.module';
+import { AccountMappingsModule } from '../account-mappings/account-mappings.module';
+import { PaymentTermsModule } from '../payment-terms/payment-terms.module';
+import { CustomersModule } from '../customers/customers.module';
+import { GoodsReceiptsModule } from '../goods-receipts/goods-receipts.module';
 
 @Module({
-  imports: [SupabaseModule, JournalsModule, PdfModule, ExportModule],
+  imports: [
+    SupabaseModule,
+    JournalsModule,
+    PdfModule,
+    ExportModule,
+    PeriodGuardModule,
+    AccountMappingsModule,
+    PaymentTermsModule,
+    CustomersModule,
+    GoodsReceiptsModule,
+  ],
   controllers: [InvoicesController],
-  providers: [InvoicesService],
-  exports: [InvoicesService],
+  providers: [InvoicesService, CreditNotesService],
+  exports: [InvoicesService, CreditNotesService],
 })
 export class InvoicesModule {}
@@ -6,7 +6,12 @@ import {
 } from '@nestjs/common';
 import { InvoicesService } from './invoices.service';
 import { SupabaseService } from '../supabase/supabase.service';
+import { PeriodGuardService } from '../fiscal-periods/period-guard.service';
+import { AccountMappingsService } from '../account-mappings/account-mappings.service';
 import { JournalsService } from '../journals/journals.service';
+import { PaymentTermsService } from '../payment-terms/payment-terms.service';
+import { CreditControlService } from '../customers/credit-control.service';
+import { ThreeWayMatchService } from '../goods-receipts/three-way-match.service';
 
 describe('InvoicesService', () => {
   let service: InvoicesService;
@@ -50,6 +55,40 @@ describe('InvoicesService', () => {
           provide: JournalsService,
           useValue: mockJournalsService,
         },
+        {
+          provide: PeriodGuardService,
+          useValue: {
+            assertOpen: jest.fn(),
+            assertDatesOpen: jest.fn(),
+            findPeriod: jest.fn().mockResolvedValue({ id: 'period-id' }),
+          },
+        },
+        {
+          provide: AccountMappingsService,
+          useValue: {
+            resolve: jest.fn().mockResolvedValue({}),
+            resolveVatAccounts: jest.fn().mockResolvedValue(new Map()),
+            requireAccount: jest.fn((mappings, key) => `${key}-account-id`),
+          },
+        },
+        {
+          provide: PaymentTermsService,
+          useValue: {
+            resolveForInvoice: jest.fn().mockResolvedValue(null),
+          },
+        },
+        {
+          provide: CreditControlService,
+          useValue: {
+            assertInvoiceAllowed: jest.fn().mockResolvedValue(null),
+          },
+        },
+        {
+          provide: ThreeWayMatchService,
+          useValue: {
+            assertInvoiceAllowed: jest.fn().mockResolvedValue(null),
+          },
+        },
       ],
     }).compile();
 
@@ -635,6 +674,133 @@ describe('InvoicesService', () => {
     });
   });
 
+  describe('cancel', () => {
+    const postedInvoice = {
+      id: 'invoice-1',
+      invoice_number: 'INV-2026-000042',
+      invoice_type: 'sales',
+      invoice_date: '2026-10-01',
+      status: 'posted',
+      posted_journal_id: 'journal-1',
+      branch_id: 'branch-1',
+    };
+
+    const postedJournal = {
+      id: 'journal-1',
+      journal_type: 'sales',
+      currency: 'QAR',
+      exchange_rate: 1,
+      journal_lines: [
+        { line_number: 2, account_id: 'revenue', debit: 0, credit: 1000 },
+        { line_number: 1, account_id: 'receivable', debit: 1000, credit: 0 },
+      ],
+    };
+
+    beforeEach(() => {
+      mockSupabaseClient.or = jest.fn().mockReturnThis();
+      mockSupabaseClient.neq = jest.fn().mockReturnThis();
+      (journalsService as any).findOne = jest
+        .fn()
+        .mockResolvedValue(postedJournal);
+      (journalsService as any).prepare = jest
+        .fn()
+        .mockResolvedValue({ journal: { journal_number: 'JV-1' }, lines: [] });
+    });
+
+    it('should reverse the posted journal and cancel the invoice', async () => {
+      jest
+        .spyOn(service, 'findOne')
+        .mockResolvedValueOnce(postedInvoice)
+        .mockResolvedValueOnce({ ...postedInvoice, status: 'cancelled' });
+
+      const result = await service.cancel(
+        'invoice-1',
+        'Issued to the wrong customer',
+        mockTenantId,
+        mockUserId,
+        { cancellationDate: new Date('2026-10-19') },
+      );
+
+      expect(result.status).toBe('cancelled');
+      expect((journalsService as any).prepare).toHaveBeenCalledWith(
+        expect.objectContaining({
+          referenceNumber: 'INV-2026-000042',
+          sourceModule: 'invoice_cancellations',
+          sourceId: 'invoice-1',
+          lines: [
+            expect.objectContaining({
+              accountId: 'receivable',
+              debit: 0,
+              credit: 1000,
+            }),
+            expect.objectContaining({
+              accountId: 'revenue',
+              debit: 1000,
+              credit: 0,
+            }),
+          ],
+        }),
+        mockTenantId,
+        mockUserId,
+        'branch-1',
+        { allowLockedPeriod: true },
+      );
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        'cancel_invoice_with_reversal',
+        expect.objectContaining({
+          p_invoice_id: 'invoice-1',
+          p_reason: 'Issued to the wrong customer',
+        }),
+      );
+    });
+
+    it('should refuse an invoice with payments applied', async () => {
+      jest
+        .spyOn(service, 'findOne')
+        .mockResolvedValueOnce({ ...postedInvoice, status: 'overdue' });
+      mockSupabaseClient.limit.mockResolvedValueOnce({
+        data: [{ id: 'allocation-1' }],
+        error: null,
+      });
+
+      await expect(
+        service.cancel('invoice-1', 'Duplicate', mockTenantId, mockUserId),
+      ).rejects.toThrow('unapply them first');
+      expect(mockSupabaseClient.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a paid invoice', async () => {
+      jest
+        .spyOn(service, 'findOne')
+        .mockResolvedValueOnce({ ...postedInvoice, status: 'partially_paid' });
+
+      await expect(
+        service.cancel('invoice-1', 'Duplicate', mockTenantId, mockUserId),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should refuse an opening balance invoice', async () => {
+      jest
+        .spyOn(service, 'findOne')
+        .mockResolvedValueOnce({ ...postedInvoice, is_opening_balance: true });
+
+      await expect(
+        service.cancel('invoice-1', 'Duplicate', mockTenantId, mockUserId),
+      ).rejects.toThrow('Opening balance invoices cannot be cancelled');
+      expect(mockSupabaseClient.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a cancellation dated before the invoice', async () => {
+      jest.spyOn(service, 'findOne').mockResolvedValueOnce(postedInvoice);
+
+      await expect(
+        service.cancel('invoice-1', 'Duplicate', mockTenantId, mockUserId, {
+          cancellationDate: new Date('2026-09-30'),
+        }),
+      ).rejects.toThrow('Cancellation date cannot be before the invoice date');
+    });
+  });
+
   describe('workflow', () => {
     it('should follow complete workflow: draft -> approve -> post', async () => {
       const invoiceId = '1';
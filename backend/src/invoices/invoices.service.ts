@@ -1,6 +1,17 @@
 import { Injectable, BadRequestException, NotFoundException, ForbiddenException } from '@nestjs/common';
 import { SupabaseService } from '../supabase/supabase.service';
-import { JournalsService } from '../journals/journals.service';
+import { JournalsService, PreparedJournal } from '../journals/journals.service';
+import {
+  AccountMappingsService,
+  AccountMappingKey,
+} from '../account-mappings/account-mappings.service';
+import {
+  PeriodGuardService,
+  PeriodOverrideOptions,
+} from '../fiscal-periods/period-guard.service';
+import { PaymentTermsService } from '../payment-terms/payment-terms.service';
+import { CreditControlService } from '../customers/credit-control.service';
+import { ThreeWayMatchService } from '../goods-receipts/three-way-match.service';
 import { CreateInvoiceDto } from './dto/create-invoice.dto';
 import { UpdateInvoiceDto } from './dto/update-invoice.dto';
 import { InvoiceLineDto } from './dto/invoice-line.dto';
@@ -10,11 +21,39 @@ import { InvoiceTaxDto } from './dto/invoice-tax.dto';
 type InvoiceLine = InvoiceLineDto;
 type InvoiceTax = InvoiceTaxDto;
 
+export interface CreateInvoiceOptions extends PeriodOverrideOptions {
+  // Invoice corrected by a credit note, and the original line of each line number
+  originalInvoiceId?: string;
+  originalLineIds?: Record<number, string>;
+  // Purchase order billed by a purchase invoice, and the order line of each
+  // line number
+  purchaseOrderId?: string;
+  purchaseOrderLineIds?: Record<number, string>;
+}
+
+// Options accepted on submit and approve
+export interface CreditOverrideOptions {
+  // Reason for proceeding past the customer's credit limit or hold
+  creditOverrideReason?: string;
+}
+
+// Options accepted on approve
+export interface ApproveInvoiceOptions extends CreditOverrideOptions {
+  // Reason for approving a purchase invoice that does not match its purchase
+  // order and goods receipts
+  matchOverrideReason?: string;
+}
+
 @Injectable()
 export class InvoicesService {
   constructor(
     private supabaseService: SupabaseService,
     private journalsService: JournalsService,
+    private periodGuard: PeriodGuardService,
+    private accountMappingsService: AccountMappingsService,
+    private paymentTermsService: PaymentTermsService,
+    private creditControlService: CreditControlService,
+    private threeWayMatchService: ThreeWayMatchService,
   ) {}
 
   async findAll(tenantId: string, filters?: { invoiceType?: string; status?: string; partyType?: string }) {
@@ -170,7 +209,13 @@ export class InvoicesService {
     };
   }
 
-  async create(createDto: CreateInvoiceDto, tenantId: string, createdBy?: string, branchId?: string) {
+  async create(
+    createDto: CreateInvoiceDto,
+    tenantId: string,
+    createdBy?: string,
+    branchId?: string,
+    options?: CreateInvoiceOptions,
+  ) {
     const supabase = this.supabaseService.getClient();
 
     // Validate party type matches invoice type
@@ -189,6 +234,15 @@ export class InvoicesService {
       throw new BadRequestException('Invoice must have at least one line');
     }
 
+    if (!options?.allowLockedPeriod) {
+      await this.periodGuard.assertOpen(tenantId, createDto.invoiceDate, {
+        documentType: 'invoice',
+        action: 'create',
+        userId: createdBy,
+        overrideCode: createDto.overrideCode,
+      });
+    }
+
     // Calculate totals
     const totals = await this.calculateInvoiceTotals(
       createDto.lines,
@@ -200,6 +254,20 @@ export class InvoicesService {
     // Generate invoice number
     const invoiceNumber = await this.generateInvoiceNumber(tenantId, createDto.invoiceType);
 
+    // Due date and early-payment discount from payment terms; returns and
+    // credit notes have no terms
+    const invoiceDate = createDto.invoiceDate.toISOString().split('T')[0];
+    const terms =
+      (createDto.invoiceType === 'sales' || createDto.invoiceType === 'purchase') &&
+      (!createDto.dueDate || createDto.paymentTermsId)
+        ? await this.paymentTermsService.resolveForInvoice(
+            tenantId,
+            invoiceDate,
+            { partyType: createDto.partyType, partyId: createDto.partyId },
+            createDto.paymentTermsId,
+          )
+        : null;
+
     // Create invoice
     const { data: invoice, error: invoiceError } = await supabase
       .from('invoices')
@@ -210,8 +278,11 @@ export class InvoicesService {
         invoice_type: createDto.invoiceType,
         party_id: createDto.partyId,
         party_type: createDto.partyType,
-        invoice_date: createDto.invoiceDate.toISOString().split('T')[0],
-        due_date: createDto.dueDate?.toISOString().split('T')[0],
+        invoice_date: invoiceDate,
+        due_date: createDto.dueDate ? createDto.dueDate.toISOString().split('T')[0] : terms?.dueDate,
+        payment_terms_id: terms?.paymentTermsId,
+        early_payment_discount_percentage: terms?.discountPercentage,
+        early_payment_discount_date: terms?.discountDate,
         currency: createDto.currency || 'QAR',
         exchange_rate: createDto.exchangeRate || 1,
         subtotal: totals.subtotal,
@@ -226,6 +297,8 @@ export class InvoicesService {
         internal_notes: createDto.internalNotes,
         attachment_url: createDto.attachmentUrl,
         status: 'draft',
+        original_invoice_id: options?.originalInvoiceId,
+        purchase_order_id: options?.purchaseOrderId,
         created_by: createdBy,
       })
       .select()
@@ -256,6 +329,8 @@ export class InvoicesService {
         line_total: line.lineTotal,
         account_id: line.accountId,
         cost_center_id: line.costCenterId,
+        original_line_id: options?.originalLineIds?.[line.lineNumber],
+        purchase_order_line_id: options?.purchaseOrderLineIds?.[line.lineNumber],
       });
 
       if (lineError) {
@@ -286,7 +361,7 @@ export class InvoicesService {
     return this.findOne(invoice.id, tenantId);
   }
 
-  async update(id: string, updateDto: UpdateInvoiceDto, tenantId: string) {
+  async update(id: string, updateDto: UpdateInvoiceDto, tenantId: string, userId?: string) {
     const supabase = this.supabaseService.getClient();
 
     // Check if invoice exists and is in draft status
@@ -295,10 +370,38 @@ export class InvoicesService {
       throw new BadRequestException('Can only update draft invoices');
     }
 
+    // Credit note amounts are capped against the original invoice when created
+    if (
+      existing.original_invoice_id &&
+      (updateDto.lines || updateDto.taxes || updateDto.discountAmount !== undefined || updateDto.discountPercentage !== undefined)
+    ) {
+      throw new BadRequestException('Amounts of a credit note cannot be changed; delete it and create it again from the invoice');
+    }
+
+    await this.periodGuard.assertDatesOpen(tenantId, [existing.invoice_date, updateDto.invoiceDate], {
+      documentType: 'invoice',
+      action: 'update',
+      documentId: id,
+      userId,
+      overrideCode: updateDto.overrideCode,
+    });
+
     const updateData: any = {};
 
     if (updateDto.invoiceDate !== undefined) updateData.invoice_date = updateDto.invoiceDate.toISOString().split('T')[0];
     if (updateDto.dueDate !== undefined) updateData.due_date = updateDto.dueDate?.toISOString().split('T')[0];
+    if (updateDto.paymentTermsId !== undefined) {
+      const terms = await this.paymentTermsService.resolveForInvoice(
+        tenantId,
+        updateData.invoice_date || existing.invoice_date,
+        { partyType: existing.party_type, partyId: existing.party_id },
+        updateDto.paymentTermsId,
+      );
+      updateData.payment_terms_id = terms?.paymentTermsId;
+      updateData.early_payment_discount_percentage = terms?.discountPercentage;
+      updateData.early_payment_discount_date = terms?.discountDate;
+      if (updateDto.dueDate === undefined) updateData.due_date = terms?.dueDate;
+    }
     if (updateDto.currency !== undefined) updateData.currency = updateDto.currency;
     if (updateDto.exchangeRate !== undefined) updateData.exchange_rate = updateDto.exchangeRate;
     if (updateDto.notes !== undefined) updateData.notes = updateDto.notes;
@@ -338,6 +441,11 @@ export class InvoicesService {
 
     // Update lines if provided
     if (updateDto.lines) {
+      // Lines of a bill keep the purchase order line they bill, by line number
+      const purchaseOrderLineIds = new Map<number, string>(
+        (existing.invoice_lines || []).map((line: any) => [line.line_number, line.purchase_order_line_id]),
+      );
+
       // Delete existing lines
       await supabase.from('invoice_lines').delete().eq('invoice_id', id);
 
@@ -362,6 +470,7 @@ export class InvoicesService {
           line_total: line.lineTotal,
           account_id: line.accountId,
           cost_center_id: line.costCenterId,
+          purchase_order_line_id: purchaseOrderLineIds.get(line.lineNumber),
         });
 
         if (lineError) {
@@ -397,7 +506,7 @@ export class InvoicesService {
     return this.findOne(id, tenantId);
   }
 
-  async submit(id: string, tenantId: string, userId?: string) {
+  async submit(id: string, tenantId: string, userId?: string, options?: CreditOverrideOptions) {
     const supabase = this.supabaseService.getClient();
 
     const existing = await this.findOne(id, tenantId);
@@ -405,12 +514,27 @@ export class InvoicesService {
       throw new BadRequestException('Can only submit draft invoices');
     }
 
+    const creditOverride = await this.creditControlService.assertInvoiceAllowed(existing, tenantId, {
+      action: 'submit',
+      userId,
+      overrideReason: options?.creditOverrideReason,
+    });
+
+    // Purchase invoices billed from a purchase order are matched against it
+    // and its goods receipts; a mismatch is recorded but blocks only approval
+    const match = await this.threeWayMatchService.assertInvoiceAllowed(existing, tenantId, {
+      action: 'submit',
+      userId,
+    });
+
     const { data, error } = await supabase
       .from('invoices')
       .update({
         status: 'submitted',
         submitted_by: userId,
         submitted_at: new Date().toISOString(),
+        ...creditOverride,
+        ...match,
       })
       .eq('id', id)
       .eq('tenant_id', tenantId)
@@ -424,7 +548,7 @@ export class InvoicesService {
     return data;
   }
 
-  async approve(id: string, tenantId: string, userId?: string) {
+  async approve(id: string, tenantId: string, userId?: string, options?: ApproveInvoiceOptions) {
     const supabase = this.supabaseService.getClient();
 
     const existing = await this.findOne(id, tenantId);
@@ -432,12 +556,29 @@ export class InvoicesService {
       throw new BadRequestException('Can only approve submitted invoices');
     }
 
+    // Checked again: the customer's position may have changed since submission
+    const creditOverride = await this.creditControlService.assertInvoiceAllowed(existing, tenantId, {
+      action: 'approve',
+      userId,
+      overrideReason: options?.creditOverrideReason,
+    });
+
+    // Matched again: goods may have been received, or other bills of the
+    // order approved, since submission
+    const match = await this.threeWayMatchService.assertInvoiceAllowed(existing, tenantId, {
+      action: 'approve',
+      userId,
+      overrideReason: options?.matchOverrideReason,
+    });
+
     const { data, error } = await supabase
       .from('invoices')
       .update({
         status: 'approved',
         approved_by: userId,
         approved_at: new Date().toISOString(),
+        ...creditOverride,
+        ...match,
       })
       .eq('id', id)
       .eq('tenant_id', tenantId)
@@ -451,7 +592,7 @@ export class InvoicesService {
     return data;
   }
 
-  async post(id: string, tenantId: string, userId?: string) {
+  async post(id: string, tenantId: string, userId?: string, options?: PeriodOverrideOptions) {
     const supabase = this.supabaseService.getClient();
 
     const existing = await this.findOne(id, tenantId);
@@ -459,33 +600,156 @@ export class InvoicesService {
       throw new BadRequestException('Can only post approved invoices');
     }
 
+    await this.periodGuard.assertOpen(tenantId, existing.invoice_date, {
+      documentType: 'invoice',
+      action: 'post',
+      documentId: id,
+      userId,
+      overrideCode: options?.overrideCode,
+    });
+
     try {
-      // Create journal entry for the invoice
-      const journalId = await this.createInvoiceJournal(existing, tenantId, userId);
-
-      // Update invoice status and link to journal
-      const { data, error } = await supabase
-        .from('invoices')
-        .update({
-          status: 'posted',
-          posted_journal_id: journalId,
-          posted_by: userId,
-          posted_at: new Date().toISOString(),
-        })
-        .eq('id', id)
-        .eq('tenant_id', tenantId)
-        .select()
-        .single();
+      const journal = await this.prepareInvoiceJournal(existing, tenantId, userId);
+
+      // The journal and the invoice status are written in one transaction, so
+      // a failure leaves neither behind
+      const { error } = await supabase.rpc('post_invoice_with_journal', {
+        p_invoice_id: id,
+        p_tenant_id: tenantId,
+        p_user_id: userId,
+        p_journal: journal.journal,
+        p_lines: journal.lines,
+      });
 
       if (error) {
         throw error;
       }
-
-      return data;
     } catch (error) {
-      // If journal creation fails, don't post the invoice
       throw new BadRequestException(`Failed to create journal entry: ${error.message}`);
     }
+
+    const { data, error } = await supabase
+      .from('invoices')
+      .select()
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Cancel a posted invoice that nothing has been allocated to
+   *
+   * The invoice's journal is reversed on the cancellation date and its VAT
+   * transactions are removed. The invoice keeps its number and stays on file
+   * as cancelled, so the numbering has no gaps.
+   */
+  async cancel(
+    id: string,
+    reason: string,
+    tenantId: string,
+    userId?: string,
+    options?: PeriodOverrideOptions & { cancellationDate?: Date },
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const existing = await this.findOne(id, tenantId);
+    if (existing.status === 'cancelled') {
+      throw new BadRequestException('Invoice is already cancelled');
+    }
+    if (['paid', 'partially_paid'].includes(existing.status)) {
+      throw new BadRequestException('Invoice has payments or credits applied; unapply them first');
+    }
+    if (!['posted', 'overdue'].includes(existing.status)) {
+      throw new BadRequestException('Can only cancel posted invoices; delete unposted invoices instead');
+    }
+    // Its posted journal is the tenant's whole opening journal, not one of its own
+    if (existing.is_opening_balance) {
+      throw new BadRequestException('Opening balance invoices cannot be cancelled');
+    }
+
+    if (!reason?.trim()) {
+      throw new BadRequestException('A reason is required to cancel an invoice');
+    }
+
+    await this.assertNothingAllocated(existing, tenantId);
+
+    if (!existing.posted_journal_id) {
+      throw new BadRequestException('Invoice has no posted journal to reverse');
+    }
+
+    const cancellationDate = options?.cancellationDate || new Date();
+    if (cancellationDate.toISOString().split('T')[0] < existing.invoice_date) {
+      throw new BadRequestException('Cancellation date cannot be before the invoice date');
+    }
+
+    await this.periodGuard.assertOpen(tenantId, cancellationDate, {
+      documentType: 'invoice',
+      action: 'post',
+      documentId: id,
+      userId,
+      overrideCode: options?.overrideCode,
+    });
+
+    const journal = await this.journalsService.findOne(existing.posted_journal_id, tenantId);
+    const originalLines = [...(journal.journal_lines || [])].sort((a, b) => a.line_number - b.line_number);
+
+    const reversal = await this.journalsService.prepare(
+      {
+        journalType: journal.journal_type,
+        referenceNumber: existing.invoice_number,
+        descriptionAr: `إلغاء الفاتورة رقم ${existing.invoice_number}`,
+        descriptionEn: `Cancellation of invoice ${existing.invoice_number}`,
+        transactionDate: cancellationDate,
+        currency: journal.currency,
+        exchangeRate: journal.exchange_rate,
+        notes: reason.trim(),
+        // Referenced by the invoice's cancellation_journal_id, not posted_journal_id
+        sourceModule: 'invoice_cancellations',
+        sourceId: id,
+        lines: originalLines.map((line) => ({
+          lineNumber: line.line_number,
+          accountId: line.account_id,
+          descriptionAr: line.description_ar,
+          descriptionEn: line.description_en,
+          costCenterId: line.cost_center_id,
+          debit: line.credit,
+          credit: line.debit,
+          currency: line.currency,
+          exchangeRate: line.exchange_rate,
+          reference: line.reference,
+          referenceType: line.reference_type,
+          referenceId: line.reference_id,
+        })),
+      },
+      tenantId,
+      userId || existing.created_by,
+      existing.branch_id,
+      // The cancellation date was checked above
+      { allowLockedPeriod: true },
+    );
+
+    // The reversal, the VAT removal and the invoice status are written in one
+    // transaction, so a failure leaves none of them behind
+    const { error } = await supabase.rpc('cancel_invoice_with_reversal', {
+      p_invoice_id: id,
+      p_tenant_id: tenantId,
+      p_user_id: userId,
+      p_reason: reason.trim(),
+      p_journal: reversal.journal,
+      p_lines: reversal.lines,
+    });
+
+    if (error) {
+      throw new BadRequestException(`Failed to cancel invoice: ${error.message}`);
+    }
+
+    return this.findOne(id, tenantId);
   }
 
   async remove(id: string, tenantId: string) {
@@ -506,7 +770,72 @@ export class InvoicesService {
   }
 
   /**
-   * Create journal entry for invoice posting
+   * Move open sales and purchase invoices past their due date to 'overdue',
+   * and overdue invoices that were settled or rescheduled back, for the given
+   * tenant or every tenant. Run daily by the overdue-invoices queue.
+   */
+  async refreshOverdueStatuses(asOfDate: Date = new Date(), tenantId?: string) {
+    const supabase = this.supabaseService.getServiceRoleClient();
+
+    const { data, error } = await supabase.rpc('refresh_overdue_invoices', {
+      p_as_of: asOfDate.toISOString().split('T')[0],
+      p_tenant_id: tenantId || null,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    const [result] = data || [];
+    return {
+      markedOverdue: result?.marked_overdue || 0,
+      cleared: result?.cleared || 0,
+    };
+  }
+
+  /**
+   * Refuse to cancel an invoice with payments or credits applied to it, or
+   * one that credit notes were raised against
+   */
+  private async assertNothingAllocated(invoice: any, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: payments, error: paymentsError } = await supabase
+      .from('payment_allocations')
+      .select('id')
+      .eq('invoice_id', invoice.id)
+      .limit(1);
+    if (paymentsError) throw paymentsError;
+
+    const { data: credits, error: creditsError } = await supabase
+      .from('credit_note_allocations')
+      .select('id')
+      .or(`invoice_id.eq.${invoice.id},credit_note_id.eq.${invoice.id}`)
+      .limit(1);
+    if (creditsError) throw creditsError;
+
+    if (payments?.length || credits?.length) {
+      throw new BadRequestException('Invoice has payments or credits applied; unapply them first');
+    }
+
+    const { data: creditNotes, error: creditNotesError } = await supabase
+      .from('invoices')
+      .select('invoice_number')
+      .eq('tenant_id', tenantId)
+      .eq('original_invoice_id', invoice.id)
+      .neq('status', 'cancelled')
+      .limit(1);
+    if (creditNotesError) throw creditNotesError;
+
+    if (creditNotes?.length) {
+      throw new BadRequestException(
+        `Credit note ${creditNotes[0].invoice_number} was raised against this invoice; cancel or delete it first`,
+      );
+    }
+  }
+
+  /**
+   * Build the journal entry for invoice posting
    *
    * Accounting Logic:
    * -----------------
@@ -529,14 +858,15 @@ export class InvoicesService {
    * - Debit: Accounts Payable (total amount including tax)
    * - Credit: Purchase Returns Account (subtotal)
    * - Credit: Tax Recoverable Account (tax amount)
+   *
+   * Accounts come from the tenant's account mappings. An invoice-level
+   * discount is posted to the sales or purchase discount account.
    */
-  private async createInvoiceJournal(
+  private async prepareInvoiceJournal(
     invoice: any,
     tenantId: string,
     userId?: string,
-  ): Promise<string> {
-    const supabase = this.supabaseService.getClient();
-
+  ): Promise<PreparedJournal> {
     // Determine journal type based on invoice type
     const journalTypeMap: Record<string, 'sales' | 'purchase'> = {
       sales: 'sales',
@@ -550,14 +880,13 @@ export class InvoicesService {
       throw new BadRequestException(`Invalid invoice type: ${invoice.invoice_type}`);
     }
 
-    // Get or determine default accounts for this tenant
-    const defaultAccounts = await this.getDefaultAccounts(tenantId, invoice.invoice_type);
+    // Get the mapped accounts for this tenant and party
+    const defaultAccounts = await this.getDefaultAccounts(tenantId, invoice);
 
     // Build journal lines based on invoice type
     const journalLines = this.buildInvoiceJournalLines(invoice, defaultAccounts);
 
-    // Create journal entry
-    const journal = await this.journalsService.create(
+    return this.journalsService.prepare(
       {
         journalType,
         referenceNumber: invoice.invoice_number,
@@ -573,9 +902,9 @@ export class InvoicesService {
       tenantId,
       userId || invoice.created_by,
       invoice.branch_id,
+      // The invoice's own period check already ran in post()
+      { allowLockedPeriod: true },
     );
-
-    return journal.id;
   }
 
   /**
@@ -604,7 +933,7 @@ export class InvoicesService {
     const accountGroups = new Map<string, { subtotal: number; descriptions: string[] }>();
 
     for (const line of invoice.invoice_lines) {
-      const accountId = line.account_id || defaultAccounts.revenue_account_id;
+      const accountId = line.account_id || defaultAccounts.line_account_id;
       const taxableAmount = line.taxable_amount || (line.quantity * line.unit_price);
 
       if (!accountGroups.has(accountId)) {
@@ -618,6 +947,21 @@ export class InvoicesService {
       }
     }
 
+    // Group taxes by VAT account; a VAT code's own account wins over the mapping
+    const taxGroups = new Map<string, number>();
+    const invoiceTaxes = invoice.invoice_taxes || [];
+
+    if (invoiceTaxes.length > 0) {
+      for (const tax of invoiceTaxes) {
+        const accountId = defaultAccounts.tax_accounts.get(tax.tax_code_id) || defaultAccounts.tax_account_id;
+        taxGroups.set(accountId, (taxGroups.get(accountId) || 0) + Number(tax.tax_amount));
+      }
+    } else if (invoice.tax_amount > 0) {
+      taxGroups.set(defaultAccounts.tax_account_id, invoice.tax_amount);
+    }
+
+    const discountAmount = Number(invoice.discount_amount) || 0;
+
     // Build journal lines based on invoice type
     switch (invoice.invoice_type) {
       case 'sales':
@@ -643,17 +987,30 @@ export class InvoicesService {
           });
         });
 
-        // Credit: Tax Payable
-        if (invoice.tax_amount > 0) {
+        // Debit: Sales Discount
+        if (discountAmount > 0) {
+          lines.push({
+            lineNumber: lineNumber++,
+            accountId: defaultAccounts.discount_account_id,
+            descriptionAr: 'خصم مبيعات',
+            descriptionEn: 'Sales Discount',
+            debit: discountAmount,
+            credit: 0,
+          });
+        }
+
+        // Credit: Output VAT
+        taxGroups.forEach((taxAmount, accountId) => {
+          if (taxAmount <= 0) return;
           lines.push({
             lineNumber: lineNumber++,
-            accountId: defaultAccounts.tax_payable_account_id,
+            accountId,
             descriptionAr: 'ضريبة المبيعات',
             descriptionEn: 'Sales Tax',
             debit: 0,
-            credit: invoice.tax_amount,
+            credit: taxAmount,
           });
-        }
+        });
         break;
 
       case 'purchase':
@@ -669,16 +1026,29 @@ export class InvoicesService {
           });
         });
 
-        // Debit: Tax Recoverable
-        if (invoice.tax_amount > 0) {
+        // Debit: Input VAT
+        taxGroups.forEach((taxAmount, accountId) => {
+          if (taxAmount <= 0) return;
           lines.push({
             lineNumber: lineNumber++,
-            accountId: defaultAccounts.tax_recoverable_account_id,
+            accountId,
             descriptionAr: 'ضريبة قابلة للاسترداد',
             descriptionEn: 'Recoverable Tax',
-            debit: invoice.tax_amount,
+            debit: taxAmount,
             credit: 0,
           });
+        });
+
+        // Credit: Purchase Discount
+        if (discountAmount > 0) {
+          lines.push({
+            lineNumber: lineNumber++,
+            accountId: defaultAccounts.discount_account_id,
+            descriptionAr: 'خصم مشتريات',
+            descriptionEn: 'Purchase Discount',
+            debit: 0,
+            credit: discountAmount,
+          });
         }
 
         // Credit: Accounts Payable
@@ -706,16 +1076,29 @@ export class InvoicesService {
           });
         });
 
-        // Debit: Tax Payable (reduce tax liability)
-        if (invoice.tax_amount > 0) {
+        // Debit: Output VAT (reduce tax liability)
+        taxGroups.forEach((taxAmount, accountId) => {
+          if (taxAmount <= 0) return;
           lines.push({
             lineNumber: lineNumber++,
-            accountId: defaultAccounts.tax_payable_account_id,
+            accountId,
             descriptionAr: 'ضريبة المبيعات (مرتجع)',
             descriptionEn: 'Sales Tax (Return)',
-            debit: invoice.tax_amount,
+            debit: taxAmount,
             credit: 0,
           });
+        });
+
+        // Credit: Sales Discount (reverse the discount given)
+        if (discountAmount > 0) {
+          lines.push({
+            lineNumber: lineNumber++,
+            accountId: defaultAccounts.discount_account_id,
+            descriptionAr: 'خصم مبيعات (مرتجع)',
+            descriptionEn: 'Sales Discount (Return)',
+            debit: 0,
+            credit: discountAmount,
+          });
         }
 
         // Credit: Accounts Receivable
@@ -753,15 +1136,28 @@ export class InvoicesService {
           });
         });
 
-        // Credit: Tax Recoverable (reduce recoverable tax)
-        if (invoice.tax_amount > 0) {
+        // Credit: Input VAT (reduce recoverable tax)
+        taxGroups.forEach((taxAmount, accountId) => {
+          if (taxAmount <= 0) return;
           lines.push({
             lineNumber: lineNumber++,
-            accountId: defaultAccounts.tax_recoverable_account_id,
+            accountId,
             descriptionAr: 'ضريبة قابلة للاسترداد (مرتجع)',
             descriptionEn: 'Recoverable Tax (Return)',
             debit: 0,
-            credit: invoice.tax_amount,
+            credit: taxAmount,
+          });
+        });
+
+        // Debit: Purchase Discount (reverse the discount received)
+        if (discountAmount > 0) {
+          lines.push({
+            lineNumber: lineNumber++,
+            accountId: defaultAccounts.discount_account_id,
+            descriptionAr: 'خصم مشتريات (مرتجع)',
+            descriptionEn: 'Purchase Discount (Return)',
+            debit: discountAmount,
+            credit: 0,
           });
         }
         break;
@@ -774,99 +1170,42 @@ export class InvoicesService {
   }
 
   /**
-   * Get default accounts for invoice posting
-   * PERFORMANCE OPTIMIZED: Single query with filtering in code instead of 8 queries
+   * Get the posting accounts for an invoice from the tenant's account
+   * mappings, with the party's and the VAT codes' own accounts applied.
+   * Only the accounts the invoice actually needs are required.
    */
-  private async getDefaultAccounts(tenantId: string, invoiceType: string) {
-    const supabase = this.supabaseService.getClient();
+  private async getDefaultAccounts(tenantId: string, invoice: any) {
+    const isSales = invoice.invoice_type === 'sales' || invoice.invoice_type === 'sales_return';
+    const invoiceTaxes: any[] = invoice.invoice_taxes || [];
 
-    // PERFORMANCE: Single query to get all relevant accounts
-    const { data: accounts, error } = await supabase
-      .from('chart_of_accounts')
-      .select('id, name_en, type')
-      .eq('tenant_id', tenantId)
-      .eq('is_active', true)
-      .in('type', ['asset', 'liability', 'revenue', 'expense']);
+    const mappings = await this.accountMappingsService.resolve(
+      tenantId,
+      invoice.party_type === 'vendor' ? { vendorId: invoice.party_id } : { customerId: invoice.party_id },
+    );
+    const taxAccounts = await this.accountMappingsService.resolveVatAccounts(
+      tenantId,
+      invoiceTaxes.map((tax) => tax.tax_code_id),
+    );
 
-    if (error) {
-      throw error;
-    }
+    const requireAccount = (key: AccountMappingKey) => this.accountMappingsService.requireAccount(mappings, key);
 
-    const accountList = accounts || [];
-    const nameLower = (name: string) => (name || '').toLowerCase();
-
-    // Find accounts by pattern matching in code (O(n) single pass)
-    let arAccount: { id: string } | undefined;
-    let apAccount: { id: string } | undefined;
-    let taxPayableAccount: { id: string } | undefined;
-    let taxRecoverableAccount: { id: string } | undefined;
-    let revenueAccount: { id: string } | undefined;
-    let expenseAccount: { id: string } | undefined;
-    let salesReturnsAccount: { id: string } | undefined;
-    let purchaseReturnsAccount: { id: string } | undefined;
-
-    for (const acc of accountList) {
-      const name = nameLower(acc.name_en);
-      
-      // Accounts Receivable (asset with "receivable")
-      if (!arAccount && acc.type === 'asset' && name.includes('receivable')) {
-        arAccount = acc;
-      }
-      
-      // Accounts Payable (liability with "payable")
-      if (!apAccount && acc.type === 'liability' && name.includes('payable') && !name.includes('tax')) {
-        apAccount = acc;
-      }
-      
-      // Tax Payable (liability with "tax" and "payable")
-      if (!taxPayableAccount && acc.type === 'liability' && name.includes('tax') && name.includes('payable')) {
-        taxPayableAccount = acc;
-      }
-      
-      // Tax Recoverable (asset with "tax" and "recoverable" or "input")
-      if (!taxRecoverableAccount && acc.type === 'asset' && 
-          (name.includes('tax') && (name.includes('recoverable') || name.includes('input')))) {
-        taxRecoverableAccount = acc;
-      }
-      
-      // Sales Revenue (revenue with "sales")
-      if (!revenueAccount && acc.type === 'revenue' && name.includes('sales') && !name.includes('return')) {
-        revenueAccount = acc;
-      }
-      
-      // Purchase/Expense (expense with "purchase")
-      if (!expenseAccount && acc.type === 'expense' && name.includes('purchase') && !name.includes('return')) {
-        expenseAccount = acc;
-      }
-      
-      // Sales Returns
-      if (!salesReturnsAccount && name.includes('sales') && name.includes('return')) {
-        salesReturnsAccount = acc;
-      }
-      
-      // Purchase Returns
-      if (!purchaseReturnsAccount && name.includes('purchase') && name.includes('return')) {
-        purchaseReturnsAccount = acc;
-      }
-    }
-
-    // Validation
-    if (!arAccount?.id) {
-      throw new BadRequestException('Accounts Receivable account not found. Please create an asset account with "receivable" in the name.');
-    }
-    if (!apAccount?.id) {
-      throw new BadRequestException('Accounts Payable account not found. Please create a liability account with "payable" in the name.');
-    }
+    const needsLineAccount = (invoice.invoice_lines || []).some((line: any) => !line.account_id);
+    const needsTaxAccount =
+      invoice.tax_amount > 0 &&
+      (invoiceTaxes.length === 0 || invoiceTaxes.some((tax) => !taxAccounts.has(tax.tax_code_id)));
+    const needsDiscountAccount = Number(invoice.discount_amount) > 0;
 
     return {
-      receivable_account_id: arAccount.id,
-      payable_account_id: apAccount.id,
-      tax_payable_account_id: taxPayableAccount?.id || arAccount.id,
-      tax_recoverable_account_id: taxRecoverableAccount?.id || apAccount.id,
-      revenue_account_id: revenueAccount?.id,
-      expense_account_id: expenseAccount?.id,
-      sales_returns_account_id: salesReturnsAccount?.id,
-      purchase_returns_account_id: purchaseReturnsAccount?.id,
+      receivable_account_id: isSales ? requireAccount('receivable') : null,
+      payable_account_id: isSales ? null : requireAccount('payable'),
+      line_account_id: needsLineAccount ? requireAccount(isSales ? 'sales' : 'purchases') : null,
+      tax_account_id: needsTaxAccount ? requireAccount(isSales ? 'output_vat' : 'input_vat') : null,
+      tax_accounts: taxAccounts,
+      discount_account_id: needsDiscountAccount
+        ? requireAccount(isSales ? 'sales_discount' : 'purchase_discount')
+        : null,
+      sales_returns_account_id: mappings.sales_returns,
+      purchase_returns_account_id: mappings.purchase_returns,
     };
   }
 
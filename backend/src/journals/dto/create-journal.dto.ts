@@ -117,6 +117,13 @@ export class CreateJournalDto {
   @IsOptional()
   sourceId?: string;
 
+  // Override code of a locked fiscal period; requires the
+  // settings:override:period permission
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  overrideCode?: string;
+
   @IsArray()
   @IsNotEmpty()
   lines: JournalLineDto[];
@@ -0,0 +1,17 @@
+import { IsString, IsOptional, IsDate, IsBoolean } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class ReverseJournalDto {
+  @IsDate()
+  @IsOptional()
+  @Type(() => Date)
+  reversalDate?: Date;
+
+  @IsString()
+  @IsOptional()
+  reason?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  force?: boolean;
+}
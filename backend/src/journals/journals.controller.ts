@@ -22,6 +22,7 @@ import {
 } from '@nestjs/swagger';
 import { type Response } from 'express';
 import { JournalsService } from './journals.service';
+import { LedgerConsistencyService } from './ledger-consistency.service';
 import { ExportService } from '../export/export.service';
 import { TenantContextGuard } from '../common/guards/tenant-context.guard';
 import { PermissionsGuard } from '../common/guards/permissions.guard';
@@ -29,6 +30,9 @@ import { RequirePermissions } from '../common/decorators/permissions.decorator';
 import { TenantContext } from '../common/decorators/tenant-context.decorator';
 import { CreateJournalDto } from './dto/create-journal.dto';
 import { UpdateJournalDto } from './dto/update-journal.dto';
+import { PeriodOverrideDto } from '../fiscal-periods/dto/period-override.dto';
+import { ReverseJournalDto } from './dto/reverse-journal.dto';
+import { RejectJournalDto } from './dto/reject-journal.dto';
 
 // Custom decorator to apply guards to specific routes (not controller-level)
 function Protected() {
@@ -44,6 +48,7 @@ export class JournalsController {
   constructor(
     private journalsService: JournalsService,
     private exportService: ExportService,
+    private ledgerConsistencyService: LedgerConsistencyService,
   ) {}
 
   @Get()
@@ -69,6 +74,18 @@ export class JournalsController {
     return this.journalsService.findAll(tenantId, filters);
   }
 
+  @Get('consistency/orphans')
+  @Protected()
+  @ApiOperation({
+    summary:
+      'List journals without lines or documents, and posted documents without journals',
+  })
+  @ApiResponse({ status: 200, description: 'Posting orphans of the tenant' })
+  @RequirePermissions({ module: 'journals', action: 'read' })
+  findOrphans(@TenantContext('tenantId') tenantId: string) {
+    return this.ledgerConsistencyService.findOrphans(tenantId);
+  }
+
   @Get(':id')
   @Protected()
   @ApiOperation({ summary: 'Get a specific journal entry' })
@@ -81,6 +98,18 @@ export class JournalsController {
     return this.journalsService.findOne(id, tenantId);
   }
 
+  @Get(':id/history')
+  @Protected()
+  @ApiOperation({ summary: 'Get the workflow history of a journal' })
+  @ApiResponse({ status: 200, description: 'Journal workflow history' })
+  @RequirePermissions({ module: 'journals', action: 'read' })
+  getHistory(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.journalsService.getHistory(id, tenantId);
+  }
+
   @Post()
   @Protected()
   @ApiOperation({ summary: 'Create a new journal entry' })
@@ -92,7 +121,9 @@ export class JournalsController {
     @TenantContext('userId') userId: string,
     @TenantContext('branchId') branchId?: string,
   ) {
-    return this.journalsService.create(createJournalDto, tenantId, userId, branchId);
+    return this.journalsService.create(createJournalDto, tenantId, userId, branchId, {
+      overrideCode: createJournalDto.overrideCode,
+    });
   }
 
   @Put(':id/lines')
@@ -111,9 +142,11 @@ export class JournalsController {
       debit: number;
       credit: number;
     }>,
+    @Body('overrideCode') overrideCode: string | undefined,
     @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
   ) {
-    return this.journalsService.updateLines(id, lines, tenantId);
+    return this.journalsService.updateLines(id, lines, tenantId, userId, { overrideCode });
   }
 
   @Post(':id/submit')
@@ -142,6 +175,20 @@ export class JournalsController {
     return this.journalsService.approve(id, tenantId, userId);
   }
 
+  @Post(':id/reject')
+  @Protected()
+  @ApiOperation({ summary: 'Reject journal back to draft' })
+  @ApiResponse({ status: 200, description: 'Journal rejected' })
+  @RequirePermissions({ module: 'journals', action: 'approve' })
+  reject(
+    @Param('id') id: string,
+    @Body() rejectJournalDto: RejectJournalDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
+  ) {
+    return this.journalsService.reject(id, rejectJournalDto.reason, tenantId, userId);
+  }
+
   @Post(':id/post')
   @Protected()
   @ApiOperation({ summary: 'Post journal to General Ledger' })
@@ -149,10 +196,27 @@ export class JournalsController {
   @RequirePermissions({ module: 'journals', action: 'post' })
   post(
     @Param('id') id: string,
+    @Body() overrideDto: PeriodOverrideDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
+  ) {
+    return this.journalsService.post(id, tenantId, userId, {
+      overrideCode: overrideDto.overrideCode,
+    });
+  }
+
+  @Post(':id/reverse')
+  @Protected()
+  @ApiOperation({ summary: 'Reverse a posted journal' })
+  @ApiResponse({ status: 200, description: 'Reversal journal created and posted' })
+  @RequirePermissions({ module: 'journals', action: 'reverse' })
+  reverse(
+    @Param('id') id: string,
+    @Body() reverseJournalDto: ReverseJournalDto,
     @TenantContext('tenantId') tenantId: string,
     @TenantContext('userId') userId: string,
   ) {
-    return this.journalsService.post(id, tenantId, userId);
+    return this.journalsService.reverse(id, reverseJournalDto, tenantId, userId);
   }
 
   @Patch(':id')
@@ -164,8 +228,11 @@ export class JournalsController {
     @Param('id') id: string,
     @Body() updateJournalDto: UpdateJournalDto,
     @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
   ) {
-    return this.journalsService.update(id, updateJournalDto, tenantId);
+    return this.journalsService.update(id, updateJournalDto, tenantId, userId, {
+      overrideCode: updateJournalDto.overrideCode,
+    });
   }
 
   @Delete(':id')
@@ -1,13 +1,15 @@
 import { Module } from '@nestjs/common';
 import { JournalsService } from './journals.service';
+import { LedgerConsistencyService } from './ledger-consistency.service';
 import { JournalsController } from './journals.controller';
 import { SupabaseModule } from '../supabase/supabase.module';
 import { ExportModule } from '../export/export.module';
+import { PeriodGuardModule } from '../fiscal-periods/period-guard.module';
 
 @Module({
-  imports: [SupabaseModule, ExportModule],
+  imports: [SupabaseModule, ExportModule, PeriodGuardModule],
   controllers: [JournalsController],
-  providers: [JournalsService],
-  exports: [JournalsService],
+  providers: [JournalsService, LedgerConsistencyService],
+  exports: [JournalsService, LedgerConsistencyService],
 })
 export class JournalsModule {}
@@ -2,6 +2,7 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { BadRequestException } from '@nestjs/common';
 import { JournalsService } from './journals.service';
 import { SupabaseService } from '../supabase/supabase.service';
+import { PeriodGuardService } from '../fiscal-periods/period-guard.service';
 
 describe('JournalsService', () => {
   let service: JournalsService;
@@ -36,6 +37,14 @@ describe('JournalsService', () => {
             getClient: jest.fn().mockReturnValue(mockSupabaseClient),
           },
         },
+        {
+          provide: PeriodGuardService,
+          useValue: {
+            assertOpen: jest.fn(),
+            assertDatesOpen: jest.fn(),
+            findPeriod: jest.fn().mockResolvedValue({ id: 'period-id' }),
+          },
+        },
       ],
     }).compile();
 
@@ -864,4 +873,227 @@ describe('JournalsService', () => {
       );
     });
   });
+
+  describe('reverse', () => {
+    const postedJournal = {
+      id: 'journal-1',
+      journal_number: 'GN000010',
+      journal_type: 'general',
+      status: 'posted',
+      reversal_journal_id: null,
+      source_module: null,
+      currency: 'QAR',
+      exchange_rate: 1,
+      branch_id: 'branch-1',
+      journal_lines: [
+        { line_number: 2, account_id: 'revenue', debit: 0, credit: 1000 },
+        { line_number: 1, account_id: 'cash', debit: 1000, credit: 0 },
+      ],
+    };
+    const prepared = { journal: { journal_number: 'GN000011' }, lines: [] };
+    let prepare: jest.SpyInstance;
+
+    beforeEach(() => {
+      mockSupabaseClient.rpc = jest
+        .fn()
+        .mockResolvedValue({ data: 'reversal-1', error: null });
+      prepare = jest.spyOn(service, 'prepare').mockResolvedValue(prepared);
+    });
+
+    it('should post the mirror journal and reverse the original in one call', async () => {
+      const findOne = jest
+        .spyOn(service, 'findOne')
+        .mockResolvedValueOnce(postedJournal)
+        .mockResolvedValueOnce({ id: 'reversal-1', status: 'posted' });
+
+      const result = await service.reverse(
+        'journal-1',
+        { reason: 'Posted twice', reversalDate: new Date('2026-10-19') },
+        mockTenantId,
+        mockUserId,
+      );
+
+      expect(result).toEqual({ id: 'reversal-1', status: 'posted' });
+      expect(prepare).toHaveBeenCalledWith(
+        expect.objectContaining({
+          referenceNumber: 'GN000010',
+          sourceModule: 'journals',
+          sourceId: 'journal-1',
+          lines: [
+            expect.objectContaining({
+              accountId: 'cash',
+              debit: 0,
+              credit: 1000,
+            }),
+            expect.objectContaining({
+              accountId: 'revenue',
+              debit: 1000,
+              credit: 0,
+            }),
+          ],
+        }),
+        mockTenantId,
+        mockUserId,
+        'branch-1',
+        undefined,
+      );
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        'reverse_journal_with_mirror',
+        {
+          p_journal_id: 'journal-1',
+          p_tenant_id: mockTenantId,
+          p_user_id: mockUserId,
+          p_reason: 'Posted twice',
+          p_journal: prepared.journal,
+          p_lines: prepared.lines,
+        },
+      );
+      expect(findOne).toHaveBeenLastCalledWith('reversal-1', mockTenantId);
+    });
+
+    it('should refuse a journal that is not posted', async () => {
+      jest
+        .spyOn(service, 'findOne')
+        .mockResolvedValueOnce({ ...postedJournal, status: 'approved' });
+
+      await expect(
+        service.reverse('journal-1', {}, mockTenantId, mockUserId),
+      ).rejects.toThrow('Can only reverse posted journals');
+      expect(mockSupabaseClient.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a journal that has already been reversed', async () => {
+      jest
+        .spyOn(service, 'findOne')
+        .mockResolvedValueOnce({
+          ...postedJournal,
+          status: 'reversed',
+          reversal_journal_id: 'reversal-0',
+        });
+
+      await expect(
+        service.reverse('journal-1', {}, mockTenantId, mockUserId),
+      ).rejects.toThrow('Journal has already been reversed');
+      expect(mockSupabaseClient.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a generated journal unless forced', async () => {
+      jest
+        .spyOn(service, 'findOne')
+        .mockResolvedValueOnce({ ...postedJournal, source_module: 'invoices' });
+
+      await expect(
+        service.reverse('journal-1', {}, mockTenantId, mockUserId),
+      ).rejects.toThrow('Reverse it from the source document');
+      expect(mockSupabaseClient.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should leave nothing behind when the reversal cannot be written', async () => {
+      const findOne = jest
+        .spyOn(service, 'findOne')
+        .mockResolvedValueOnce(postedJournal);
+      mockSupabaseClient.rpc.mockResolvedValue({
+        data: null,
+        error: { message: 'Journal has already been reversed' },
+      });
+
+      await expect(
+        service.reverse(
+          'journal-1',
+          { reason: 'Posted twice' },
+          mockTenantId,
+          mockUserId,
+        ),
+      ).rejects.toThrow(
+        'Failed to reverse journal: Journal has already been reversed',
+      );
+      expect(mockSupabaseClient.delete).not.toHaveBeenCalled();
+      expect(findOne).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('workflow transitions', () => {
+    beforeEach(() => {
+      mockSupabaseClient.rpc = jest.fn().mockResolvedValue({
+        data: { id: 'journal-1', status: 'submitted' },
+        error: null,
+      });
+    });
+
+    it('should change the status and record the step in one call', async () => {
+      const result = await service.submit(
+        'journal-1',
+        mockTenantId,
+        mockUserId,
+      );
+
+      expect(result).toEqual({ id: 'journal-1', status: 'submitted' });
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        'transition_journal',
+        {
+          p_journal_id: 'journal-1',
+          p_tenant_id: mockTenantId,
+          p_user_id: mockUserId,
+          p_action: 'submitted',
+          p_from_status: 'draft',
+          p_to_status: 'submitted',
+          p_notes: undefined,
+        },
+      );
+      expect(mockSupabaseClient.from).not.toHaveBeenCalledWith(
+        'journal_workflow',
+      );
+    });
+
+    it('should keep the rejection reason on the step', async () => {
+      mockSupabaseClient.single.mockResolvedValueOnce({
+        data: { id: 'journal-1', status: 'approved' },
+        error: null,
+      });
+
+      await service.reject(
+        'journal-1',
+        ' Wrong account ',
+        mockTenantId,
+        mockUserId,
+      );
+
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        'transition_journal',
+        expect.objectContaining({
+          p_action: 'rejected',
+          p_from_status: 'approved',
+          p_to_status: 'draft',
+          p_notes: 'Wrong account',
+        }),
+      );
+    });
+
+    it('should fail the transition when its step cannot be recorded', async () => {
+      mockSupabaseClient.rpc.mockResolvedValue({
+        data: null,
+        error: {
+          message:
+            'new row violates row-level security policy for table "journal_workflow"',
+        },
+      });
+
+      await expect(
+        service.approve('journal-1', mockTenantId, mockUserId),
+      ).rejects.toThrow('new row violates row-level security policy');
+    });
+
+    it('should refuse a journal that is no longer in the expected status', async () => {
+      mockSupabaseClient.rpc.mockResolvedValue({
+        data: null,
+        error: { message: 'Journal not found or not in approved status' },
+      });
+
+      await expect(
+        service.post('journal-1', mockTenantId, mockUserId, {
+          allowLockedPeriod: true,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
 });
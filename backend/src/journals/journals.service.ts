@@ -1,5 +1,6 @@
 import { Injectable, BadRequestException } from '@nestjs/common';
 import { SupabaseService } from '../supabase/supabase.service';
+import { PeriodGuardService } from '../fiscal-periods/period-guard.service';
 
 interface CreateJournalDto {
   journalNumber?: string;
@@ -42,9 +43,35 @@ interface UpdateJournalDto {
   attachmentUrl?: string;
 }
 
+interface ReverseJournalDto {
+  reversalDate?: Date;
+  reason?: string;
+  force?: boolean;
+}
+
+interface CreateJournalOptions {
+  // Allow a journal dated in a locked period (year-end closing entries, or
+  // documents whose own period check already passed)
+  allowLockedPeriod?: boolean;
+  // Override code of the locked period, checked by the period guard
+  overrideCode?: string;
+}
+
+// Journal header and line rows, in column names, ready for the database
+// functions that create journals
+export interface PreparedJournal {
+  journal: Record<string, any>;
+  lines: Array<Record<string, any>>;
+}
+
+type JournalWorkflowAction = 'created' | 'submitted' | 'approved' | 'rejected' | 'posted' | 'reversed';
+
 @Injectable()
 export class JournalsService {
-  constructor(private supabaseService: SupabaseService) {}
+  constructor(
+    private supabaseService: SupabaseService,
+    private periodGuard: PeriodGuardService,
+  ) {}
 
   async findAll(tenantId: string, filters?: any) {
     const supabase = this.supabaseService.getClient();
@@ -117,9 +144,45 @@ export class JournalsService {
     tenantId: string,
     userId: string,
     branchId?: string,
+    options?: CreateJournalOptions,
   ) {
     const supabase = this.supabaseService.getClient();
 
+    const prepared = await this.prepare(
+      createJournalDto,
+      tenantId,
+      userId,
+      branchId,
+      options,
+    );
+
+    // Header, lines and workflow row are written in one transaction
+    const { data: journalId, error } = await supabase.rpc(
+      'create_journal_with_lines',
+      { p_journal: prepared.journal, p_lines: prepared.lines },
+    );
+
+    if (error) {
+      throw error;
+    }
+
+    return this.findOne(journalId, tenantId);
+  }
+
+  /**
+   * Validate a journal and build the header and line rows without saving
+   * them. Document services pass the result to their posting function so the
+   * journal and the document status are written together.
+   */
+  async prepare(
+    createJournalDto: CreateJournalDto,
+    tenantId: string,
+    userId: string,
+    branchId?: string,
+    options?: CreateJournalOptions,
+  ): Promise<PreparedJournal> {
+    const supabase = this.supabaseService.getClient();
+
     // Validate double-entry: debit must equal credit
     const totalDebit = createJournalDto.lines.reduce(
       (sum, l) => sum + l.debit,
@@ -149,24 +212,22 @@ export class JournalsService {
 
     // Get transaction date's fiscal period
     const transactionDate = createJournalDto.transactionDate;
-    const { data: fiscalPeriod } = await supabase
-      .from('fiscal_periods')
-      .select('id, is_locked')
-      .eq('tenant_id', tenantId)
-      .lte('start_date', transactionDate.toISOString())
-      .gte('end_date', transactionDate.toISOString())
-      .single();
+    const fiscalPeriod = options?.allowLockedPeriod
+      ? await this.periodGuard.findPeriod(tenantId, transactionDate)
+      : await this.periodGuard.assertOpen(tenantId, transactionDate, {
+          documentType: 'journal',
+          action: 'create',
+          userId,
+          overrideCode: options?.overrideCode,
+          requirePeriod: true,
+        });
 
     if (!fiscalPeriod) {
       throw new BadRequestException('No fiscal period found for transaction date');
     }
 
-    if (fiscalPeriod.is_locked) {
-      throw new BadRequestException('Fiscal period is locked');
-    }
-
     // Validate accounts exist and are active/posting allowed
-    const accountIds = createJournalDto.lines.map((l) => l.accountId);
+    const accountIds = [...new Set(createJournalDto.lines.map((l) => l.accountId))];
     const { data: accounts } = await supabase
       .from('chart_of_accounts')
       .select('id, code, name_en, is_active, is_posting_allowed')
@@ -191,41 +252,29 @@ export class JournalsService {
       journalNumber = await this.generateJournalNumber(tenantId, createJournalDto.journalType);
     }
 
-    // Create journal
-    const { data: journal, error: journalError } = await supabase
-      .from('journals')
-      .insert({
-        tenant_id: tenantId,
-        branch_id: branchId,
-        journal_number: journalNumber,
-        journal_type: createJournalDto.journalType,
-        reference_number: createJournalDto.referenceNumber,
-        description_ar: createJournalDto.descriptionAr,
-        description_en: createJournalDto.descriptionEn,
-        transaction_date: transactionDate.toISOString(),
-        posting_date: createJournalDto.postingDate?.toISOString(),
-        currency: createJournalDto.currency || 'QAR',
-        exchange_rate: createJournalDto.exchangeRate || 1,
-        total_debit: totalDebit,
-        total_credit: totalCredit,
-        status: 'draft',
-        notes: createJournalDto.notes,
-        attachment_url: createJournalDto.attachmentUrl,
-        source_module: createJournalDto.sourceModule,
-        source_id: createJournalDto.sourceId,
-        created_by: userId,
-      })
-      .select()
-      .single();
-
-    if (journalError) {
-      throw journalError;
-    }
-
-    // Create journal lines
-    const linesToInsert = createJournalDto.lines.map((line) => ({
-      journal_id: journal.id,
+    const journal = {
       tenant_id: tenantId,
+      branch_id: branchId,
+      journal_number: journalNumber,
+      journal_type: createJournalDto.journalType,
+      reference_number: createJournalDto.referenceNumber,
+      description_ar: createJournalDto.descriptionAr,
+      description_en: createJournalDto.descriptionEn,
+      transaction_date: transactionDate.toISOString(),
+      posting_date: createJournalDto.postingDate?.toISOString(),
+      currency: createJournalDto.currency || 'QAR',
+      exchange_rate: createJournalDto.exchangeRate || 1,
+      total_debit: totalDebit,
+      total_credit: totalCredit,
+      status: 'draft',
+      notes: createJournalDto.notes,
+      attachment_url: createJournalDto.attachmentUrl,
+      source_module: createJournalDto.sourceModule,
+      source_id: createJournalDto.sourceId,
+      created_by: userId,
+    };
+
+    const lines = createJournalDto.lines.map((line) => ({
       line_number: line.lineNumber,
       account_id: line.accountId,
       description_ar: line.descriptionAr,
@@ -240,26 +289,39 @@ export class JournalsService {
       reference_id: line.referenceId,
     }));
 
-    const { error: linesError } = await supabase
-      .from('journal_lines')
-      .insert(linesToInsert);
-
-    if (linesError) {
-      // Rollback journal creation
-      await supabase.from('journals').delete().eq('id', journal.id);
-      throw linesError;
-    }
-
-    return this.findOne(journal.id, tenantId);
+    return { journal, lines };
   }
 
   async update(
     id: string,
     updateJournalDto: UpdateJournalDto,
     tenantId: string,
+    userId?: string,
+    options?: CreateJournalOptions,
   ) {
     const supabase = this.supabaseService.getClient();
 
+    const { data: existing } = await supabase
+      .from('journals')
+      .select('id, transaction_date')
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (existing) {
+      await this.periodGuard.assertDatesOpen(
+        tenantId,
+        [existing.transaction_date, updateJournalDto.transactionDate],
+        {
+          documentType: 'journal',
+          action: 'update',
+          documentId: id,
+          userId,
+          overrideCode: options?.overrideCode,
+        },
+      );
+    }
+
     // Build update object with proper column names
     const updateData: any = {};
     if (updateJournalDto.descriptionAr !== undefined) updateData.description_ar = updateJournalDto.descriptionAr;
@@ -305,13 +367,15 @@ export class JournalsService {
       exchangeRate?: number;
     }>,
     tenantId: string,
+    userId?: string,
+    options?: CreateJournalOptions,
   ) {
     const supabase = this.supabaseService.getClient();
 
     // Validate journal is in draft status
     const { data: journal } = await supabase
       .from('journals')
-      .select('id, status')
+      .select('id, status, transaction_date')
       .eq('id', id)
       .eq('tenant_id', tenantId)
       .single();
@@ -324,6 +388,14 @@ export class JournalsService {
       throw new BadRequestException('Can only update draft journals');
     }
 
+    await this.periodGuard.assertOpen(tenantId, journal.transaction_date, {
+      documentType: 'journal',
+      action: 'update',
+      documentId: id,
+      userId,
+      overrideCode: options?.overrideCode,
+    });
+
     // Validate double-entry
     const totalDebit = lines.reduce((sum, l) => sum + l.debit, 0);
     const totalCredit = lines.reduce((sum, l) => sum + l.credit, 0);
@@ -371,84 +443,174 @@ export class JournalsService {
   }
 
   async submit(id: string, tenantId: string, userId: string) {
-    const supabase = this.supabaseService.getClient();
+    return this.transition(id, tenantId, userId, 'submitted', 'draft', 'submitted');
+  }
 
-    const { data, error } = await supabase
-      .from('journals')
-      .update({
-        status: 'submitted',
-        submitted_by: userId,
-        submitted_at: new Date().toISOString(),
-      })
-      .eq('id', id)
-      .eq('tenant_id', tenantId)
-      .eq('status', 'draft')
-      .select()
-      .single();
+  async approve(id: string, tenantId: string, userId: string) {
+    return this.transition(id, tenantId, userId, 'approved', 'submitted', 'approved');
+  }
 
-    if (error) {
-      throw error;
-    }
+  async post(
+    id: string,
+    tenantId: string,
+    userId: string,
+    options?: CreateJournalOptions,
+  ) {
+    const supabase = this.supabaseService.getClient();
 
-    if (!data) {
-      throw new BadRequestException('Journal not found or not in draft status');
+    if (!options?.allowLockedPeriod) {
+      const { data: journal } = await supabase
+        .from('journals')
+        .select('id, transaction_date')
+        .eq('id', id)
+        .eq('tenant_id', tenantId)
+        .single();
+
+      if (journal) {
+        await this.periodGuard.assertOpen(tenantId, journal.transaction_date, {
+          documentType: 'journal',
+          action: 'post',
+          documentId: id,
+          userId,
+          overrideCode: options?.overrideCode,
+        });
+      }
     }
 
-    return data;
+    return this.transition(id, tenantId, userId, 'posted', 'approved', 'posted');
   }
 
-  async approve(id: string, tenantId: string, userId: string) {
+  /**
+   * Reject a submitted or approved journal
+   *
+   * Sends the journal back to draft so it can be corrected and resubmitted.
+   * The reason is kept on the workflow row.
+   */
+  async reject(id: string, reason: string, tenantId: string, userId: string) {
     const supabase = this.supabaseService.getClient();
 
-    const { data, error } = await supabase
+    if (!reason || !reason.trim()) {
+      throw new BadRequestException('A rejection reason is required');
+    }
+
+    const { data: journal } = await supabase
       .from('journals')
-      .update({
-        status: 'approved',
-        approved_by: userId,
-        approved_at: new Date().toISOString(),
-      })
+      .select('id, status')
       .eq('id', id)
       .eq('tenant_id', tenantId)
-      .eq('status', 'submitted')
-      .select()
       .single();
 
-    if (error) {
-      throw error;
+    if (!journal) {
+      throw new BadRequestException('Journal not found');
     }
 
-    if (!data) {
-      throw new BadRequestException('Journal not found or not in submitted status');
+    if (!['submitted', 'approved'].includes(journal.status)) {
+      throw new BadRequestException('Can only reject submitted or approved journals');
     }
 
-    return data;
+    return this.transition(id, tenantId, userId, 'rejected', journal.status, 'draft', reason.trim());
   }
 
-  async post(id: string, tenantId: string, userId: string) {
+  /**
+   * Reverse a posted journal
+   *
+   * Creates and posts a mirror journal (debits and credits swapped) dated on
+   * the reversal date and marks the original as reversed, linked to the
+   * mirror, in one transaction. Both remain in the ledger so the net effect
+   * is zero.
+   *
+   * Journals generated by another module (invoices, payments, ...) should be
+   * reversed from their source document, so they are refused unless forced.
+   */
+  async reverse(
+    id: string,
+    reverseJournalDto: ReverseJournalDto,
+    tenantId: string,
+    userId: string,
+    options?: CreateJournalOptions,
+  ) {
     const supabase = this.supabaseService.getClient();
 
-    const { data, error } = await supabase
-      .from('journals')
-      .update({
-        status: 'posted',
-        posted_by: userId,
-        posted_at: new Date().toISOString(),
-      })
-      .eq('id', id)
-      .eq('tenant_id', tenantId)
-      .eq('status', 'approved')
-      .select()
-      .single();
+    const journal = await this.findOne(id, tenantId);
 
-    if (error) {
-      throw error;
+    if (!journal) {
+      throw new BadRequestException('Journal not found');
     }
 
-    if (!data) {
-      throw new BadRequestException('Journal not found or not in approved status');
+    if (journal.status === 'reversed' || journal.reversal_journal_id) {
+      throw new BadRequestException('Journal has already been reversed');
     }
 
-    return data;
+    if (journal.status !== 'posted') {
+      throw new BadRequestException('Can only reverse posted journals');
+    }
+
+    if (journal.source_module && !reverseJournalDto.force) {
+      throw new BadRequestException(
+        `Journal was generated by ${journal.source_module}. Reverse it from the source document or force the reversal`,
+      );
+    }
+
+    const reversalDate = reverseJournalDto.reversalDate || new Date();
+    const originalLines = [...(journal.journal_lines || [])].sort(
+      (a, b) => a.line_number - b.line_number,
+    );
+
+    // Build the mirror journal (period lock and account checks happen in prepare)
+    const reversal = await this.prepare(
+      {
+        journalType: journal.journal_type,
+        referenceNumber: journal.journal_number,
+        descriptionAr: `عكس القيد رقم ${journal.journal_number}`,
+        descriptionEn: `Reversal of journal ${journal.journal_number}`,
+        transactionDate: reversalDate,
+        currency: journal.currency,
+        exchangeRate: journal.exchange_rate,
+        notes: reverseJournalDto.reason,
+        sourceModule: 'journals',
+        sourceId: journal.id,
+        lines: originalLines.map((line) => ({
+          lineNumber: line.line_number,
+          accountId: line.account_id,
+          descriptionAr: line.description_ar,
+          descriptionEn: line.description_en,
+          costCenterId: line.cost_center_id,
+          debit: line.credit,
+          credit: line.debit,
+          currency: line.currency,
+          exchangeRate: line.exchange_rate,
+          reference: line.reference,
+          referenceType: line.reference_type,
+          referenceId: line.reference_id,
+        })),
+      },
+      tenantId,
+      userId,
+      journal.branch_id,
+      options,
+    );
+
+    // The mirror is posted and the original marked reversed in one transaction,
+    // which also rechecks that the original is still posted and unreversed
+    const { data: reversalId, error } = await supabase.rpc(
+      'reverse_journal_with_mirror',
+      {
+        p_journal_id: id,
+        p_tenant_id: tenantId,
+        p_user_id: userId,
+        p_reason: reverseJournalDto.reason,
+        p_journal: reversal.journal,
+        p_lines: reversal.lines,
+      },
+    );
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to reverse journal: ${error.message}`,
+      );
+    }
+
+    return this.findOne(reversalId, tenantId);
   }
 
   async remove(id: string, tenantId: string) {
@@ -479,6 +641,74 @@ export class JournalsService {
     return { success: true };
   }
 
+  /**
+   * Get the workflow history of a journal, oldest first
+   */
+  async getHistory(id: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: journal } = await supabase
+      .from('journals')
+      .select('id')
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (!journal) {
+      throw new BadRequestException('Journal not found');
+    }
+
+    const { data, error } = await supabase
+      .from('journal_workflow')
+      .select(
+        `
+        *,
+        users(id, email, first_name_ar, last_name_ar, first_name_en, last_name_en)
+      `,
+      )
+      .eq('journal_id', id)
+      .eq('tenant_id', tenantId)
+      .order('actioned_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Change a journal's workflow status and record the step in its workflow
+   * history in one transaction. The journal must still be in fromStatus.
+   */
+  private async transition(
+    journalId: string,
+    tenantId: string,
+    userId: string,
+    action: JournalWorkflowAction,
+    fromStatus: string,
+    toStatus: string,
+    notes?: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase.rpc('transition_journal', {
+      p_journal_id: journalId,
+      p_tenant_id: tenantId,
+      p_user_id: userId,
+      p_action: action,
+      p_from_status: fromStatus,
+      p_to_status: toStatus,
+      p_notes: notes,
+    });
+
+    if (error) {
+      throw new BadRequestException(error.message);
+    }
+
+    return data;
+  }
+
   private async generateJournalNumber(tenantId: string, journalType: string): Promise<string> {
     const supabase = this.supabaseService.getClient();
 
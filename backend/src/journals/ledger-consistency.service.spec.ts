@@ -0,0 +1,99 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { LedgerConsistencyService } from './ledger-consistency.service';
+import { SupabaseService } from '../supabase/supabase.service';
+
+describe('LedgerConsistencyService', () => {
+  let service: LedgerConsistencyService;
+  let mockClient: { rpc: jest.Mock };
+  let mockServiceRoleClient: { rpc: jest.Mock };
+
+  const mockTenantId = 'test-tenant-id';
+
+  const orphan = (tenantId: string, issue: string) => ({
+    tenant_id: tenantId,
+    issue,
+    document_type: 'invoices',
+    document_id: 'invoice-id',
+    document_number: 'INV-001',
+    journal_id: null,
+    journal_number: null,
+  });
+
+  beforeEach(async () => {
+    mockClient = { rpc: jest.fn() };
+    mockServiceRoleClient = { rpc: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LedgerConsistencyService,
+        {
+          provide: SupabaseService,
+          useValue: {
+            getClient: jest.fn().mockReturnValue(mockClient),
+            getServiceRoleClient: jest
+              .fn()
+              .mockReturnValue(mockServiceRoleClient),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LedgerConsistencyService>(LedgerConsistencyService);
+  });
+
+  describe('findOrphans', () => {
+    it('should count the tenant orphans by issue', async () => {
+      mockClient.rpc.mockResolvedValue({
+        data: [
+          orphan(mockTenantId, 'document_without_journal'),
+          orphan(mockTenantId, 'document_without_journal'),
+          orphan(mockTenantId, 'journal_without_lines'),
+        ],
+        error: null,
+      });
+
+      const result = await service.findOrphans(mockTenantId);
+
+      expect(mockClient.rpc).toHaveBeenCalledWith('find_posting_orphans', {
+        p_tenant_id: mockTenantId,
+      });
+      expect(result.total).toBe(3);
+      expect(result.by_issue).toEqual({
+        document_without_journal: 2,
+        journal_without_lines: 1,
+      });
+    });
+  });
+
+  describe('checkAll', () => {
+    it('should check every tenant and group the orphans by tenant', async () => {
+      mockServiceRoleClient.rpc.mockResolvedValue({
+        data: [
+          orphan('tenant-a', 'journal_without_document'),
+          orphan('tenant-b', 'journal_without_lines'),
+          orphan('tenant-b', 'document_without_journal'),
+        ],
+        error: null,
+      });
+
+      const result = await service.checkAll();
+
+      expect(mockServiceRoleClient.rpc).toHaveBeenCalledWith(
+        'find_posting_orphans',
+        { p_tenant_id: null },
+      );
+      expect(result).toEqual({ tenantsWithOrphans: 2, orphans: 3 });
+    });
+
+    it('should rethrow database errors', async () => {
+      mockServiceRoleClient.rpc.mockResolvedValue({
+        data: null,
+        error: new Error('function does not exist'),
+      });
+
+      await expect(service.checkAll()).rejects.toThrow(
+        'function does not exist',
+      );
+    });
+  });
+});
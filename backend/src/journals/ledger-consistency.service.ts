@@ -0,0 +1,98 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+
+export type PostingOrphanIssue =
+  | 'journal_without_lines'
+  | 'journal_without_document'
+  | 'document_without_journal';
+
+export interface PostingOrphan {
+  tenant_id: string;
+  issue: PostingOrphanIssue;
+  document_type: string;
+  document_id: string | null;
+  document_number: string | null;
+  journal_id: string | null;
+  journal_number: string | null;
+}
+
+/**
+ * Finds journals and documents left inconsistent by partial posting
+ *
+ * Documents are now posted together with their journal in one database
+ * transaction, but journals created before that (or edited by hand) can
+ * still lack lines, lack the document that generated them, or belong to a
+ * posted document that lost its journal. Nothing is repaired automatically;
+ * the orphans are reported so an accountant can correct them.
+ */
+@Injectable()
+export class LedgerConsistencyService {
+  private readonly logger = new Logger(LedgerConsistencyService.name);
+
+  constructor(private supabaseService: SupabaseService) {}
+
+  /**
+   * Orphans of one tenant
+   */
+  async findOrphans(tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase.rpc('find_posting_orphans', {
+      p_tenant_id: tenantId,
+    });
+
+    if (error) throw error;
+
+    const orphans = (data || []) as PostingOrphan[];
+
+    return {
+      total: orphans.length,
+      by_issue: this.countByIssue(orphans),
+      orphans,
+    };
+  }
+
+  /**
+   * Check the given tenant or every tenant and log a warning for each tenant
+   * with orphans. Run by the ledger-consistency queue.
+   */
+  async checkAll(tenantId?: string) {
+    const supabase = this.supabaseService.getServiceRoleClient();
+
+    const { data, error } = await supabase.rpc('find_posting_orphans', {
+      p_tenant_id: tenantId || null,
+    });
+
+    if (error) throw error;
+
+    const byTenant = new Map<string, PostingOrphan[]>();
+    for (const orphan of (data || []) as PostingOrphan[]) {
+      const orphans = byTenant.get(orphan.tenant_id) || [];
+      orphans.push(orphan);
+      byTenant.set(orphan.tenant_id, orphans);
+    }
+
+    for (const [tenantId, orphans] of byTenant) {
+      const counts = Object.entries(this.countByIssue(orphans))
+        .map(([issue, count]) => `${count} ${issue}`)
+        .join(', ');
+
+      this.logger.warn(`Tenant ${tenantId} has posting orphans: ${counts}`);
+    }
+
+    return {
+      tenantsWithOrphans: byTenant.size,
+      orphans: data?.length || 0,
+    };
+  }
+
+  private countByIssue(orphans: PostingOrphan[]) {
+    const counts: Partial<Record<PostingOrphanIssue, number>> = {};
+
+    for (const orphan of orphans) {
+      counts[orphan.issue] = (counts[orphan.issue] || 0) + 1;
+    }
+
+    return counts;
+  }
+}
@@ -0,0 +1,107 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsNumber,
+  Min,
+  IsUUID,
+  IsDate,
+  IsArray,
+  ArrayNotEmpty,
+  ValidateNested,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class OpeningBalanceAccountDto {
+  @IsUUID()
+  @IsNotEmpty()
+  accountId: string;
+
+  @IsUUID()
+  @IsOptional()
+  costCenterId?: string;
+
+  @IsNumber()
+  @IsNotEmpty()
+  @Min(0)
+  debit: number;
+
+  @IsNumber()
+  @IsNotEmpty()
+  @Min(0)
+  credit: number;
+}
+
+export class OpeningBalanceInvoiceDto {
+  @IsUUID()
+  @IsNotEmpty()
+  partyId: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  originalInvoiceNumber?: string;
+
+  @IsDate()
+  @IsNotEmpty()
+  @Type(() => Date)
+  invoiceDate: Date;
+
+  @IsDate()
+  @IsOptional()
+  @Type(() => Date)
+  dueDate?: Date;
+
+  @IsNumber()
+  @IsNotEmpty()
+  @Min(0.01)
+  amount: number;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(3)
+  currency?: string;
+
+  @IsNumber()
+  @IsOptional()
+  @Min(0)
+  exchangeRate?: number;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+}
+
+export class CreateOpeningBalanceDto {
+  @IsDate()
+  @IsNotEmpty()
+  @Type(() => Date)
+  cutoverDate: Date;
+
+  @IsUUID()
+  @IsOptional()
+  suspenseAccountId?: string;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => OpeningBalanceAccountDto)
+  accounts: OpeningBalanceAccountDto[];
+
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => OpeningBalanceInvoiceDto)
+  customerInvoices?: OpeningBalanceInvoiceDto[];
+
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => OpeningBalanceInvoiceDto)
+  vendorInvoices?: OpeningBalanceInvoiceDto[];
+}
@@ -0,0 +1,92 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  UseGuards,
+  applyDecorators,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { OpeningBalancesService } from './opening-balances.service';
+import { TenantContextGuard } from '../common/guards/tenant-context.guard';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import { TenantContext } from '../common/decorators/tenant-context.decorator';
+import { CreateOpeningBalanceDto } from './dto/create-opening-balance.dto';
+
+// Custom decorator to apply guards to specific routes (not controller-level)
+function Protected() {
+  return applyDecorators(
+    ApiBearerAuth(),
+    UseGuards(TenantContextGuard, PermissionsGuard),
+  );
+}
+
+@ApiTags('opening-balances')
+@Controller('opening-balances')
+export class OpeningBalancesController {
+  constructor(
+    private readonly openingBalancesService: OpeningBalancesService,
+  ) {}
+
+  @Get()
+  @Protected()
+  @ApiOperation({ summary: 'Get the opening journal and opening invoices' })
+  @ApiResponse({
+    status: 200,
+    description: 'Current opening balances',
+  })
+  @RequirePermissions({ module: 'journals', action: 'read' })
+  findCurrent(@TenantContext('tenantId') tenantId: string) {
+    return this.openingBalancesService.findCurrent(tenantId);
+  }
+
+  @Post('preview')
+  @Protected()
+  @ApiOperation({
+    summary: 'Validate opening balances and show totals without saving',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Opening balance totals and difference',
+  })
+  @RequirePermissions({ module: 'journals', action: 'create' })
+  preview(
+    @Body() createDto: CreateOpeningBalanceDto,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.openingBalancesService.preview(createDto, tenantId);
+  }
+
+  @Post()
+  @Protected()
+  @ApiOperation({
+    summary: 'Post the opening journal and create opening invoices',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Opening balances loaded',
+  })
+  @RequirePermissions(
+    { module: 'journals', action: 'create' },
+    { module: 'journals', action: 'post' },
+  )
+  create(
+    @Body() createDto: CreateOpeningBalanceDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
+    @TenantContext('branchId') branchId?: string,
+  ) {
+    return this.openingBalancesService.create(
+      createDto,
+      tenantId,
+      userId,
+      branchId,
+    );
+  }
+}
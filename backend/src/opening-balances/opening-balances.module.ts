@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { OpeningBalancesService } from './opening-balances.service';
+import { OpeningBalancesController } from './opening-balances.controller';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { JournalsModule } from '../journals/journals.module';
+import { PaymentTermsModule } from '../payment-terms/payment-terms.module';
+
+@Module({
+  imports: [SupabaseModule, JournalsModule, PaymentTermsModule],
+  controllers: [OpeningBalancesController],
+  providers: [OpeningBalancesService],
+  exports: [OpeningBalancesService],
+})
+export class OpeningBalancesModule {}
@@ -0,0 +1,232 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { OpeningBalancesService } from './opening-balances.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { JournalsService } from '../journals/journals.service';
+import { PaymentTermsService } from '../payment-terms/payment-terms.service';
+import { queryResult } from '../../test/utils/query-result';
+
+describe('OpeningBalancesService', () => {
+  let service: OpeningBalancesService;
+  let journalsService: any;
+  let paymentTermsService: any;
+  let tables: Record<string, any[]>;
+  let mockSupabaseClient: any;
+
+  const mockTenantId = 'test-tenant-id';
+  const mockUserId = 'test-user-id';
+
+  const accounts = [
+    { id: 'cash', code: '1101', is_active: true, is_posting_allowed: true },
+    { id: 'capital', code: '3101', is_active: true, is_posting_allowed: true },
+    { id: 'suspense', code: '1999', is_active: true, is_posting_allowed: true },
+  ];
+
+  beforeEach(async () => {
+    tables = {};
+    mockSupabaseClient = {
+      from: jest.fn((table: string) => tables[table].shift()),
+      rpc: jest
+        .fn()
+        .mockResolvedValue({ data: 'opening-journal-id', error: null }),
+    };
+
+    journalsService = {
+      prepare: jest.fn((dto) =>
+        Promise.resolve({
+          journal: { journal_number: 'OP000001' },
+          lines: dto.lines,
+        }),
+      ),
+      findOne: jest.fn().mockResolvedValue({ id: 'opening-journal-id' }),
+    };
+    paymentTermsService = {
+      resolveForInvoice: jest.fn().mockResolvedValue({
+        paymentTermsId: 'net-30',
+        dueDate: '2026-01-14',
+        discountPercentage: null,
+        discountDate: null,
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OpeningBalancesService,
+        {
+          provide: SupabaseService,
+          useValue: {
+            getClient: jest.fn().mockReturnValue(mockSupabaseClient),
+          },
+        },
+        { provide: JournalsService, useValue: journalsService },
+        { provide: PaymentTermsService, useValue: paymentTermsService },
+      ],
+    }).compile();
+
+    service = module.get<OpeningBalancesService>(OpeningBalancesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    const unbalancedDto = {
+      cutoverDate: new Date('2026-01-01'),
+      accounts: [
+        { accountId: 'cash', debit: 10000, credit: 0 },
+        { accountId: 'capital', debit: 0, credit: 9500 },
+      ],
+    };
+
+    it('should refuse to load twice', async () => {
+      tables.journals = [
+        queryResult({
+          data: [{ id: 'existing', journal_number: 'OP000001' }],
+          error: null,
+        }),
+      ];
+
+      await expect(
+        service.create(unbalancedDto, mockTenantId, mockUserId),
+      ).rejects.toThrow(BadRequestException);
+      expect(journalsService.prepare).not.toHaveBeenCalled();
+    });
+
+    it('should require a suspense account when out of balance', async () => {
+      tables.journals = [queryResult({ data: [], error: null })];
+
+      await expect(
+        service.create(unbalancedDto, mockTenantId, mockUserId),
+      ).rejects.toThrow('out of balance by 500');
+    });
+
+    it('should post the difference to suspense and the invoices as opening invoices', async () => {
+      tables.journals = [queryResult({ data: [], error: null })];
+      tables.chart_of_accounts = [queryResult({ data: accounts, error: null })];
+      tables.customers = [
+        queryResult({ data: [{ id: 'customer-1' }], error: null }),
+      ];
+
+      tables.vendors = [
+        queryResult({ data: [{ id: 'vendor-1' }], error: null }),
+      ];
+
+      const result = await service.create(
+        {
+          ...unbalancedDto,
+          suspenseAccountId: 'suspense',
+          customerInvoices: [
+            {
+              partyId: 'customer-1',
+              originalInvoiceNumber: 'INV-77',
+              invoiceDate: new Date('2025-12-10'),
+              dueDate: new Date('2026-01-09'),
+              amount: 2500,
+            },
+          ],
+          vendorInvoices: [
+            {
+              partyId: 'vendor-1',
+              invoiceDate: new Date('2025-12-15'),
+              amount: 800,
+            },
+          ],
+        },
+        mockTenantId,
+        mockUserId,
+      );
+
+      expect(result.difference).toBe(500);
+      expect(result.invoicesCreated).toBe(2);
+
+      const [journalDto] = journalsService.prepare.mock.calls[0];
+      expect(journalDto.journalType).toBe('opening');
+      expect(journalDto.lines[2]).toEqual(
+        expect.objectContaining({
+          accountId: 'suspense',
+          debit: 0,
+          credit: 500,
+        }),
+      );
+
+      const [, params] = mockSupabaseClient.rpc.mock.calls[0];
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        'post_opening_balances_with_journal',
+        expect.objectContaining({
+          p_tenant_id: mockTenantId,
+          p_user_id: mockUserId,
+          p_journal: { journal_number: 'OP000001' },
+        }),
+      );
+      expect(params.p_invoices).toEqual([
+        expect.objectContaining({
+          invoice_type: 'sales',
+          party_type: 'customer',
+          invoice_date: '2025-12-10',
+          due_date: '2026-01-09',
+          total_amount: 2500,
+          internal_notes: 'Opening balance INV-77',
+          lines: [
+            expect.objectContaining({
+              description_en: 'Opening balance INV-77',
+              line_total: 2500,
+            }),
+          ],
+        }),
+        expect.objectContaining({
+          invoice_type: 'purchase',
+          party_type: 'vendor',
+          due_date: '2026-01-14',
+          payment_terms_id: 'net-30',
+          total_amount: 800,
+        }),
+      ]);
+      expect(paymentTermsService.resolveForInvoice).toHaveBeenCalledTimes(1);
+      expect(paymentTermsService.resolveForInvoice).toHaveBeenCalledWith(
+        mockTenantId,
+        '2025-12-15',
+        { partyType: 'vendor', partyId: 'vendor-1' },
+      );
+      expect(journalsService.findOne).toHaveBeenCalledWith(
+        'opening-journal-id',
+        mockTenantId,
+      );
+    });
+
+    it('should leave nothing behind when the opening balances cannot be posted', async () => {
+      tables.journals = [queryResult({ data: [], error: null })];
+      tables.chart_of_accounts = [queryResult({ data: accounts, error: null })];
+      tables.customers = [
+        queryResult({ data: [{ id: 'customer-1' }], error: null }),
+      ];
+      mockSupabaseClient.rpc.mockResolvedValue({
+        data: null,
+        error: { message: 'Fiscal period is locked' },
+      });
+
+      await expect(
+        service.create(
+          {
+            ...unbalancedDto,
+            suspenseAccountId: 'suspense',
+            customerInvoices: [
+              {
+                partyId: 'customer-1',
+                invoiceDate: new Date('2025-12-10'),
+                dueDate: new Date('2026-01-09'),
+                amount: 2500,
+              },
+            ],
+          },
+          mockTenantId,
+          mockUserId,
+        ),
+      ).rejects.toThrow(
+        'Failed to load opening balances: Fiscal period is locked',
+      );
+      expect(mockSupabaseClient.from).not.toHaveBeenCalledWith('invoices');
+      expect(journalsService.findOne).not.toHaveBeenCalled();
+    });
+  });
+});
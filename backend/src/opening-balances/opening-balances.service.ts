@@ -0,0 +1,375 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { JournalsService } from '../journals/journals.service';
+import { PaymentTermsService } from '../payment-terms/payment-terms.service';
+import {
+  CreateOpeningBalanceDto,
+  OpeningBalanceInvoiceDto,
+} from './dto/create-opening-balance.dto';
+
+const SOURCE_MODULE = 'opening_balances';
+
+type PartyType = 'customer' | 'vendor';
+
+@Injectable()
+export class OpeningBalancesService {
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly journalsService: JournalsService,
+    private readonly paymentTermsService: PaymentTermsService,
+  ) {}
+
+  /**
+   * Get the tenant's current opening journal and opening invoices
+   */
+  async findCurrent(tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const journal = await this.findOpeningJournal(tenantId);
+
+    const { data: invoices, error } = await supabase
+      .from('invoices')
+      .select(
+        'id, invoice_number, invoice_type, party_id, party_type, invoice_date, due_date, currency, total_amount, balance_amount, status, notes',
+      )
+      .eq('tenant_id', tenantId)
+      .eq('is_opening_balance', true)
+      .neq('status', 'cancelled')
+      .order('invoice_date', { ascending: true });
+
+    if (error) throw error;
+
+    return {
+      journal: journal
+        ? await this.journalsService.findOne(journal.id, tenantId)
+        : null,
+      invoices: invoices || [],
+    };
+  }
+
+  /**
+   * Check the figures without writing anything
+   */
+  async preview(dto: CreateOpeningBalanceDto, tenantId: string) {
+    const summary = this.summarize(dto);
+
+    await this.validateAccounts(
+      dto.accounts.map((a) => a.accountId),
+      tenantId,
+    );
+    if (summary.difference !== 0 && dto.suspenseAccountId) {
+      await this.validateAccounts([dto.suspenseAccountId], tenantId);
+    }
+    await this.validateInvoices(dto, tenantId);
+
+    const existing = await this.findOpeningJournal(tenantId);
+
+    return {
+      ...summary,
+      suspenseRequired: summary.difference !== 0,
+      alreadyLoaded: !!existing,
+    };
+  }
+
+  /**
+   * Load opening balances as of the cut-over date
+   *
+   * Posts one opening journal with the trial balance (any difference goes to
+   * the suspense account) and records the open customer and vendor invoices
+   * as posted opening invoices so balances and aging start from the cut-over.
+   * The invoices carry no journal lines of their own: the receivable and
+   * payable balances are already part of the trial balance.
+   */
+  async create(
+    dto: CreateOpeningBalanceDto,
+    tenantId: string,
+    userId: string,
+    branchId?: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const existing = await this.findOpeningJournal(tenantId);
+    if (existing) {
+      throw new BadRequestException(
+        `Opening balances have already been loaded (journal ${existing.journal_number}). Reverse that journal, which also cancels its opening invoices, to load them again`,
+      );
+    }
+
+    const summary = this.summarize(dto);
+    if (summary.difference !== 0 && !dto.suspenseAccountId) {
+      throw new BadRequestException(
+        `Opening balances are out of balance by ${summary.difference}. Provide a suspense account for the difference`,
+      );
+    }
+
+    await this.validateAccounts(
+      [
+        ...dto.accounts.map((a) => a.accountId),
+        ...(summary.difference !== 0 ? [dto.suspenseAccountId] : []),
+      ],
+      tenantId,
+    );
+    await this.validateInvoices(dto, tenantId);
+
+    const lines = dto.accounts
+      .filter((a) => a.debit !== 0 || a.credit !== 0)
+      .map((a, index) => ({
+        lineNumber: index + 1,
+        accountId: a.accountId,
+        costCenterId: a.costCenterId,
+        descriptionAr: 'رصيد افتتاحي',
+        descriptionEn: 'Opening balance',
+        debit: a.debit,
+        credit: a.credit,
+      }));
+
+    if (summary.difference !== 0) {
+      lines.push({
+        lineNumber: lines.length + 1,
+        accountId: dto.suspenseAccountId,
+        costCenterId: undefined,
+        descriptionAr: 'فرق الأرصدة الافتتاحية',
+        descriptionEn: 'Opening balance difference',
+        debit: summary.difference < 0 ? -summary.difference : 0,
+        credit: summary.difference > 0 ? summary.difference : 0,
+      });
+    }
+
+    const journal = await this.journalsService.prepare(
+      {
+        journalType: 'opening',
+        descriptionAr: 'الأرصدة الافتتاحية',
+        descriptionEn: 'Opening balances',
+        transactionDate: dto.cutoverDate,
+        notes: dto.notes,
+        sourceModule: SOURCE_MODULE,
+        lines,
+      },
+      tenantId,
+      userId,
+      branchId,
+    );
+
+    const invoices = [];
+    for (const invoice of dto.customerInvoices || []) {
+      invoices.push(
+        await this.buildOpeningInvoice(invoice, 'customer', tenantId, branchId),
+      );
+    }
+    for (const invoice of dto.vendorInvoices || []) {
+      invoices.push(
+        await this.buildOpeningInvoice(invoice, 'vendor', tenantId, branchId),
+      );
+    }
+
+    // The journal is posted and the invoices created posted against it in
+    // one transaction
+    const { data: journalId, error } = await supabase.rpc(
+      'post_opening_balances_with_journal',
+      {
+        p_tenant_id: tenantId,
+        p_user_id: userId,
+        p_invoices: invoices,
+        p_journal: journal.journal,
+        p_lines: journal.lines,
+      },
+    );
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to load opening balances: ${error.message}`,
+      );
+    }
+
+    return {
+      ...summary,
+      journal: await this.journalsService.findOne(journalId, tenantId),
+      invoicesCreated: invoices.length,
+    };
+  }
+
+  private summarize(dto: CreateOpeningBalanceDto) {
+    const totalDebit = this.round(
+      dto.accounts.reduce((sum, a) => sum + a.debit, 0),
+    );
+    const totalCredit = this.round(
+      dto.accounts.reduce((sum, a) => sum + a.credit, 0),
+    );
+
+    const invoiceTotal = (invoices?: OpeningBalanceInvoiceDto[]) =>
+      this.round(
+        (invoices || []).reduce(
+          (sum, i) => sum + i.amount * (i.exchangeRate || 1),
+          0,
+        ),
+      );
+
+    return {
+      cutoverDate: dto.cutoverDate.toISOString().split('T')[0],
+      totalDebit,
+      totalCredit,
+      difference: this.round(totalDebit - totalCredit),
+      customerInvoicesTotal: invoiceTotal(dto.customerInvoices),
+      customerInvoicesCount: dto.customerInvoices?.length || 0,
+      vendorInvoicesTotal: invoiceTotal(dto.vendorInvoices),
+      vendorInvoicesCount: dto.vendorInvoices?.length || 0,
+    };
+  }
+
+  private async findOpeningJournal(tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('journals')
+      .select('id, journal_number, status, transaction_date')
+      .eq('tenant_id', tenantId)
+      .eq('source_module', SOURCE_MODULE)
+      .neq('status', 'reversed')
+      .is('deleted_at', null)
+      .limit(1);
+
+    if (error) throw error;
+
+    return data?.[0] || null;
+  }
+
+  private async validateAccounts(accountIds: string[], tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const uniqueIds = [...new Set(accountIds)];
+    if (uniqueIds.length !== accountIds.length) {
+      throw new BadRequestException(
+        'Each account may only appear once in the opening balances',
+      );
+    }
+
+    const { data: accounts, error } = await supabase
+      .from('chart_of_accounts')
+      .select('id, code, is_active, is_posting_allowed')
+      .eq('tenant_id', tenantId)
+      .in('id', uniqueIds);
+
+    if (error) throw error;
+
+    for (const id of uniqueIds) {
+      const account = accounts?.find((a) => a.id === id);
+      if (!account) {
+        throw new NotFoundException(`Account ${id} not found`);
+      }
+      if (!account.is_active || !account.is_posting_allowed) {
+        throw new BadRequestException(
+          `Account ${account.code} is inactive or does not allow posting`,
+        );
+      }
+    }
+  }
+
+  private async validateInvoices(
+    dto: CreateOpeningBalanceDto,
+    tenantId: string,
+  ) {
+    const cutover = dto.cutoverDate.toISOString().split('T')[0];
+
+    const groups: [PartyType, OpeningBalanceInvoiceDto[]][] = [
+      ['customer', dto.customerInvoices || []],
+      ['vendor', dto.vendorInvoices || []],
+    ];
+
+    for (const [partyType, invoices] of groups) {
+      for (const invoice of invoices) {
+        if (invoice.invoiceDate.toISOString().split('T')[0] > cutover) {
+          throw new BadRequestException(
+            `Opening invoice ${invoice.originalInvoiceNumber || invoice.partyId} is dated after the cut-over date`,
+          );
+        }
+      }
+
+      const partyIds = [...new Set(invoices.map((i) => i.partyId))];
+      if (partyIds.length === 0) continue;
+
+      const { data: parties, error } = await this.supabaseService
+        .getClient()
+        .from(partyType === 'customer' ? 'customers' : 'vendors')
+        .select('id')
+        .eq('tenant_id', tenantId)
+        .in('id', partyIds);
+
+      if (error) throw error;
+
+      const missing = partyIds.filter(
+        (id) => !parties?.some((p) => p.id === id),
+      );
+      if (missing.length > 0) {
+        throw new NotFoundException(
+          `${partyType === 'customer' ? 'Customer' : 'Vendor'} ${missing[0]} not found`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Invoice row, with its single line, for the posting function
+   */
+  private async buildOpeningInvoice(
+    invoice: OpeningBalanceInvoiceDto,
+    partyType: PartyType,
+    tenantId: string,
+    branchId?: string,
+  ) {
+    const reference = invoice.originalInvoiceNumber
+      ? ` ${invoice.originalInvoiceNumber}`
+      : '';
+    const invoiceDate = invoice.invoiceDate.toISOString().split('T')[0];
+
+    // Without a due date of its own, the due date comes from the party's
+    // payment terms
+    const terms = invoice.dueDate
+      ? null
+      : await this.paymentTermsService.resolveForInvoice(
+          tenantId,
+          invoiceDate,
+          {
+            partyType,
+            partyId: invoice.partyId,
+          },
+        );
+
+    return {
+      branch_id: branchId,
+      invoice_type: partyType === 'customer' ? 'sales' : 'purchase',
+      party_id: invoice.partyId,
+      party_type: partyType,
+      invoice_date: invoiceDate,
+      due_date: invoice.dueDate
+        ? invoice.dueDate.toISOString().split('T')[0]
+        : terms?.dueDate,
+      payment_terms_id: terms?.paymentTermsId,
+      early_payment_discount_percentage: terms?.discountPercentage,
+      early_payment_discount_date: terms?.discountDate,
+      currency: invoice.currency || 'QAR',
+      exchange_rate: invoice.exchangeRate || 1,
+      total_amount: invoice.amount,
+      notes: invoice.notes,
+      internal_notes: `Opening balance${reference}`,
+      lines: [
+        {
+          line_number: 1,
+          description_ar: `رصيد افتتاحي${reference}`,
+          description_en: `Opening balance${reference}`,
+          quantity: 1,
+          unit_price: invoice.amount,
+          taxable_amount: invoice.amount,
+          line_total: invoice.amount,
+        },
+      ],
+    };
+  }
+
+  private round(value: number) {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,60 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsInt,
+  IsIn,
+  IsNumber,
+  IsBoolean,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
+
+export class CreatePaymentTermsDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  code: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  nameEn: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  nameAr: string;
+
+  // 'net': days after the invoice date; 'end_of_month': days after the end of the invoice month
+  @IsIn(['net', 'end_of_month'])
+  @IsOptional()
+  termType?: 'net' | 'end_of_month';
+
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  days: number;
+
+  // Early-payment discount, e.g. 2% if paid within 10 days
+  @IsNumber()
+  @Min(0.01)
+  @Max(99.99)
+  @IsOptional()
+  discountPercentage?: number;
+
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  @IsOptional()
+  discountDays?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  isDefault?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
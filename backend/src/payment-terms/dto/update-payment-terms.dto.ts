@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreatePaymentTermsDto } from './create-payment-terms.dto';
+
+export class UpdatePaymentTermsDto extends PartialType(CreatePaymentTermsDto) {}
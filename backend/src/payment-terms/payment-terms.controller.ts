@@ -0,0 +1,103 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  applyDecorators,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { PaymentTermsService } from './payment-terms.service';
+import { TenantContextGuard } from '../common/guards/tenant-context.guard';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import { TenantContext } from '../common/decorators/tenant-context.decorator';
+import { CreatePaymentTermsDto } from './dto/create-payment-terms.dto';
+import { UpdatePaymentTermsDto } from './dto/update-payment-terms.dto';
+
+// Custom decorator to apply guards to specific routes (not controller-level)
+function Protected() {
+  return applyDecorators(
+    ApiBearerAuth(),
+    UseGuards(TenantContextGuard, PermissionsGuard),
+  );
+}
+
+@ApiTags('payment-terms')
+@Controller('payment-terms')
+export class PaymentTermsController {
+  constructor(private readonly paymentTermsService: PaymentTermsService) {}
+
+  @Get()
+  @Protected()
+  @ApiOperation({ summary: 'Get all payment terms' })
+  @ApiQuery({ name: 'includeInactive', required: false, type: Boolean })
+  @ApiResponse({ status: 200, description: 'List of payment terms' })
+  @RequirePermissions({ module: 'invoices', action: 'view' })
+  findAll(
+    @TenantContext('tenantId') tenantId: string,
+    @Query('includeInactive') includeInactive?: string,
+  ) {
+    return this.paymentTermsService.findAll(
+      tenantId,
+      includeInactive === 'true',
+    );
+  }
+
+  @Get(':id')
+  @Protected()
+  @ApiOperation({ summary: 'Get payment terms' })
+  @ApiResponse({ status: 200, description: 'Payment terms details' })
+  @RequirePermissions({ module: 'invoices', action: 'view' })
+  findOne(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.paymentTermsService.findOne(id, tenantId);
+  }
+
+  @Post()
+  @Protected()
+  @ApiOperation({ summary: 'Create payment terms' })
+  @ApiResponse({ status: 201, description: 'Payment terms created' })
+  @RequirePermissions({ module: 'invoices', action: 'edit' })
+  create(
+    @Body() createDto: CreatePaymentTermsDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
+  ) {
+    return this.paymentTermsService.create(createDto, tenantId, userId);
+  }
+
+  @Patch(':id')
+  @Protected()
+  @ApiOperation({ summary: 'Update payment terms' })
+  @ApiResponse({ status: 200, description: 'Payment terms updated' })
+  @RequirePermissions({ module: 'invoices', action: 'edit' })
+  update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdatePaymentTermsDto,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.paymentTermsService.update(id, updateDto, tenantId);
+  }
+
+  @Delete(':id')
+  @Protected()
+  @ApiOperation({ summary: 'Delete payment terms' })
+  @ApiResponse({ status: 200, description: 'Payment terms deleted' })
+  @RequirePermissions({ module: 'invoices', action: 'edit' })
+  remove(@Param('id') id: string, @TenantContext('tenantId') tenantId: string) {
+    return this.paymentTermsService.remove(id, tenantId);
+  }
+}
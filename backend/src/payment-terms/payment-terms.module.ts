@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PaymentTermsService } from './payment-terms.service';
+import { PaymentTermsController } from './payment-terms.controller';
+import { SupabaseModule } from '../supabase/supabase.module';
+
+@Module({
+  imports: [SupabaseModule],
+  controllers: [PaymentTermsController],
+  providers: [PaymentTermsService],
+  exports: [PaymentTermsService],
+})
+export class PaymentTermsModule {}
@@ -0,0 +1,190 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { PaymentTermsService } from './payment-terms.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { queryResult } from '../../test/utils/query-result';
+
+describe('PaymentTermsService', () => {
+  let service: PaymentTermsService;
+  let tables: Record<string, any[]>;
+  let mockSupabaseClient: any;
+
+  const mockTenantId = 'test-tenant-id';
+  const mockUserId = 'test-user-id';
+
+  const net30Discount = {
+    id: 'terms-2-10-net-30',
+    term_type: 'net',
+    days: 30,
+    discount_percentage: 2,
+    discount_days: 10,
+  };
+
+  beforeEach(async () => {
+    tables = {};
+    mockSupabaseClient = {
+      from: jest.fn((table: string) => tables[table].shift()),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentTermsService,
+        {
+          provide: SupabaseService,
+          useValue: {
+            getClient: jest.fn().mockReturnValue(mockSupabaseClient),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PaymentTermsService>(PaymentTermsService);
+  });
+
+  describe('resolveForInvoice', () => {
+    it('should use the given terms with their early-payment discount', async () => {
+      tables.payment_terms = [
+        queryResult({ data: net30Discount, error: null }),
+      ];
+
+      const result = await service.resolveForInvoice(
+        mockTenantId,
+        '2026-10-19',
+        { partyType: 'customer', partyId: 'customer-1' },
+        'terms-2-10-net-30',
+      );
+
+      expect(result).toEqual({
+        paymentTermsId: 'terms-2-10-net-30',
+        dueDate: '2026-11-18',
+        discountDate: '2026-10-29',
+        discountPercentage: 2,
+      });
+    });
+
+    it('should count end-of-month terms from the last day of the invoice month', async () => {
+      tables.customers = [
+        queryResult({
+          data: { payment_terms_id: 'terms-eom-15', payment_terms_days: 30 },
+          error: null,
+        }),
+      ];
+      tables.payment_terms = [
+        queryResult({
+          data: { id: 'terms-eom-15', term_type: 'end_of_month', days: 15 },
+          error: null,
+        }),
+      ];
+
+      const result = await service.resolveForInvoice(
+        mockTenantId,
+        '2026-02-10',
+        { partyType: 'customer', partyId: 'customer-1' },
+      );
+
+      expect(result).toEqual({
+        paymentTermsId: 'terms-eom-15',
+        dueDate: '2026-03-15',
+        discountDate: null,
+        discountPercentage: null,
+      });
+    });
+
+    it("should fall back to the party's payment terms days", async () => {
+      tables.vendors = [
+        queryResult({
+          data: { payment_terms_id: null, payment_terms_days: 45 },
+          error: null,
+        }),
+      ];
+
+      const result = await service.resolveForInvoice(
+        mockTenantId,
+        '2026-12-20',
+        { partyType: 'vendor', partyId: 'vendor-1' },
+      );
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          paymentTermsId: null,
+          dueDate: '2027-02-03',
+        }),
+      );
+    });
+
+    it('should use the tenant default when the party has no terms', async () => {
+      tables.customers = [
+        queryResult({
+          data: { payment_terms_id: null, payment_terms_days: null },
+          error: null,
+        }),
+      ];
+      tables.payment_terms = [
+        queryResult({
+          data: { id: 'terms-net-15', term_type: 'net', days: 15 },
+          error: null,
+        }),
+      ];
+
+      const result = await service.resolveForInvoice(
+        mockTenantId,
+        '2026-10-19',
+        { partyType: 'customer', partyId: 'customer-1' },
+      );
+
+      expect(result.paymentTermsId).toBe('terms-net-15');
+      expect(result.dueDate).toBe('2026-11-03');
+    });
+  });
+
+  describe('create', () => {
+    it('should reject a discount period longer than net terms', async () => {
+      await expect(
+        service.create(
+          {
+            code: '2/45N30',
+            nameEn: '2% 45 days, net 30',
+            nameAr: 'خصم 2% خلال 45 يوماً، صافي 30',
+            days: 30,
+            discountPercentage: 2,
+            discountDays: 45,
+          },
+          mockTenantId,
+          mockUserId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should clear the previous default when adding a default', async () => {
+      const clearDefault = queryResult({ data: null, error: null });
+      const insert = queryResult({ data: { id: 'terms-1' }, error: null });
+      tables.payment_terms = [
+        queryResult({ data: null, error: null }),
+        clearDefault,
+        insert,
+      ];
+
+      await service.create(
+        {
+          code: 'N30',
+          nameEn: 'Net 30',
+          nameAr: 'صافي 30',
+          days: 30,
+          isDefault: true,
+        },
+        mockTenantId,
+        mockUserId,
+      );
+
+      expect(clearDefault.update).toHaveBeenCalledWith({ is_default: false });
+      expect(insert.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: 'N30',
+          term_type: 'net',
+          days: 30,
+          is_default: true,
+        }),
+      );
+    });
+  });
+});
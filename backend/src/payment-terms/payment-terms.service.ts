@@ -0,0 +1,278 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { CreatePaymentTermsDto } from './dto/create-payment-terms.dto';
+import { UpdatePaymentTermsDto } from './dto/update-payment-terms.dto';
+import {
+  calculatePaymentTermsDates,
+  PaymentTermsDates,
+} from '../common/utils/payment-terms';
+
+export interface ResolvedPaymentTerms extends PaymentTermsDates {
+  paymentTermsId: string | null;
+}
+
+@Injectable()
+export class PaymentTermsService {
+  constructor(private supabaseService: SupabaseService) {}
+
+  async findAll(tenantId: string, includeInactive = false) {
+    const supabase = this.supabaseService.getClient();
+
+    let query = supabase
+      .from('payment_terms')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .order('code', { ascending: true });
+
+    if (!includeInactive) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  async findOne(id: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('payment_terms')
+      .select('*')
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (error || !data) {
+      throw new NotFoundException('Payment terms not found');
+    }
+
+    return data;
+  }
+
+  async create(
+    createDto: CreatePaymentTermsDto,
+    tenantId: string,
+    userId: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    this.validateDiscount(
+      createDto.termType || 'net',
+      createDto.days,
+      createDto.discountPercentage,
+      createDto.discountDays,
+    );
+
+    const { data: existing } = await supabase
+      .from('payment_terms')
+      .select('id')
+      .eq('tenant_id', tenantId)
+      .eq('code', createDto.code)
+      .maybeSingle();
+
+    if (existing) {
+      throw new BadRequestException('Payment terms code already exists');
+    }
+
+    if (createDto.isDefault) {
+      await this.clearDefault(tenantId);
+    }
+
+    const { data, error } = await supabase
+      .from('payment_terms')
+      .insert({
+        tenant_id: tenantId,
+        code: createDto.code,
+        name_en: createDto.nameEn,
+        name_ar: createDto.nameAr,
+        term_type: createDto.termType || 'net',
+        days: createDto.days,
+        discount_percentage: createDto.discountPercentage,
+        discount_days: createDto.discountDays,
+        is_default: createDto.isDefault ?? false,
+        is_active: createDto.isActive ?? true,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  async update(id: string, updateDto: UpdatePaymentTermsDto, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const existing = await this.findOne(id, tenantId);
+
+    this.validateDiscount(
+      updateDto.termType || existing.term_type,
+      updateDto.days !== undefined ? updateDto.days : existing.days,
+      updateDto.discountPercentage !== undefined
+        ? updateDto.discountPercentage
+        : existing.discount_percentage,
+      updateDto.discountDays !== undefined
+        ? updateDto.discountDays
+        : existing.discount_days,
+    );
+
+    if (updateDto.isDefault && !existing.is_default) {
+      await this.clearDefault(tenantId);
+    }
+
+    const updateData: any = {};
+    if (updateDto.code !== undefined) updateData.code = updateDto.code;
+    if (updateDto.nameEn !== undefined) updateData.name_en = updateDto.nameEn;
+    if (updateDto.nameAr !== undefined) updateData.name_ar = updateDto.nameAr;
+    if (updateDto.termType !== undefined)
+      updateData.term_type = updateDto.termType;
+    if (updateDto.days !== undefined) updateData.days = updateDto.days;
+    if (updateDto.discountPercentage !== undefined)
+      updateData.discount_percentage = updateDto.discountPercentage;
+    if (updateDto.discountDays !== undefined)
+      updateData.discount_days = updateDto.discountDays;
+    if (updateDto.isDefault !== undefined)
+      updateData.is_default = updateDto.isDefault;
+    if (updateDto.isActive !== undefined)
+      updateData.is_active = updateDto.isActive;
+
+    const { data, error } = await supabase
+      .from('payment_terms')
+      .update(updateData)
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  async remove(id: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    await this.findOne(id, tenantId);
+
+    const { error } = await supabase
+      .from('payment_terms')
+      .delete()
+      .eq('id', id)
+      .eq('tenant_id', tenantId);
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Due date and early-payment discount of a new invoice. Uses, in order:
+   * the given terms, the party's terms, the party's payment_terms_days as
+   * net days, and the tenant's default terms. Returns null when none apply.
+   */
+  async resolveForInvoice(
+    tenantId: string,
+    invoiceDate: string,
+    party: { partyType: 'customer' | 'vendor'; partyId: string },
+    paymentTermsId?: string,
+  ): Promise<ResolvedPaymentTerms | null> {
+    const supabase = this.supabaseService.getClient();
+
+    if (paymentTermsId) {
+      const terms = await this.findOne(paymentTermsId, tenantId);
+      return this.resolve(terms, invoiceDate);
+    }
+
+    const { data: partyRow } = await supabase
+      .from(party.partyType === 'customer' ? 'customers' : 'vendors')
+      .select('payment_terms_id, payment_terms_days')
+      .eq('id', party.partyId)
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+
+    if (partyRow?.payment_terms_id) {
+      const terms = await this.findOne(partyRow.payment_terms_id, tenantId);
+      return this.resolve(terms, invoiceDate);
+    }
+
+    if (partyRow?.payment_terms_days != null) {
+      return {
+        paymentTermsId: null,
+        ...calculatePaymentTermsDates(
+          { term_type: 'net', days: partyRow.payment_terms_days },
+          invoiceDate,
+        ),
+      };
+    }
+
+    const { data: defaultTerms, error } = await supabase
+      .from('payment_terms')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .eq('is_default', true)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return defaultTerms ? this.resolve(defaultTerms, invoiceDate) : null;
+  }
+
+  private resolve(terms: any, invoiceDate: string): ResolvedPaymentTerms {
+    return {
+      paymentTermsId: terms.id,
+      ...calculatePaymentTermsDates(terms, invoiceDate),
+    };
+  }
+
+  private validateDiscount(
+    termType: string,
+    days: number,
+    discountPercentage: number | null | undefined,
+    discountDays: number | null | undefined,
+  ) {
+    if ((discountPercentage == null) !== (discountDays == null)) {
+      throw new BadRequestException(
+        'An early-payment discount needs both a percentage and a number of days',
+      );
+    }
+
+    if (termType === 'net' && discountDays != null && discountDays > days) {
+      throw new BadRequestException(
+        'The discount period cannot be longer than the payment terms',
+      );
+    }
+  }
+
+  private async clearDefault(tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { error } = await supabase
+      .from('payment_terms')
+      .update({ is_default: false })
+      .eq('tenant_id', tenantId)
+      .eq('is_default', true);
+
+    if (error) {
+      throw error;
+    }
+  }
+}
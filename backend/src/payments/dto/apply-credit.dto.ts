@@ -0,0 +1,48 @@
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsNumber,
+  Min,
+  IsUUID,
+  IsDate,
+  IsArray,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PeriodOverrideDto } from '../../fiscal-periods/dto/period-override.dto';
+
+export class CreditSourceDto {
+  @IsEnum(['payment', 'credit_note'])
+  @IsNotEmpty()
+  sourceType: 'payment' | 'credit_note';
+
+  @IsUUID()
+  @IsNotEmpty()
+  sourceId: string;
+
+  // Defaults to all the credit available from the source, up to the invoice
+  // balance
+  @IsNumber()
+  @IsOptional()
+  @Min(0.01)
+  amount?: number;
+}
+
+export class ApplyCreditDto extends PeriodOverrideDto {
+  @IsUUID()
+  @IsNotEmpty()
+  invoiceId: string;
+
+  // Defaults to the party's available credit, oldest first
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => CreditSourceDto)
+  sources?: CreditSourceDto[];
+
+  @IsDate()
+  @IsOptional()
+  @Type(() => Date)
+  applicationDate?: Date;
+}
@@ -104,6 +104,13 @@ export class CreatePaymentDto {
   @IsOptional()
   attachmentUrl?: string;
 
+  // Override code of a locked fiscal period; requires the
+  // settings:override:period permission
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  overrideCode?: string;
+
   @IsEnum(['draft', 'submitted', 'approved', 'posted', 'cancelled'])
   @IsOptional()
   status?: 'draft' | 'submitted' | 'approved' | 'posted' | 'cancelled';
@@ -113,4 +120,11 @@ export class CreatePaymentDto {
   @ValidateNested({ each: true })
   @Type(() => PaymentAllocationDto)
   allocations?: PaymentAllocationDto[];
+
+  // Allocate to the party's open invoices instead of giving allocations:
+  // oldest due first, or to the invoices whose numbers appear in the
+  // reference number. Whatever is left stays unallocated.
+  @IsEnum(['oldest_due', 'reference'])
+  @IsOptional()
+  autoAllocate?: 'oldest_due' | 'reference';
 }
@@ -12,6 +12,7 @@ import {
   Res,
   StreamableFile,
   NotFoundException,
+  BadRequestException,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
 import { type Response } from 'express';
@@ -20,6 +21,8 @@ import { PdfService } from '../pdf/pdf.service';
 import { ExportService } from '../export/export.service';
 import { CreatePaymentDto } from './dto/create-payment.dto';
 import { UpdatePaymentDto } from './dto/update-payment.dto';
+import { ApplyCreditDto } from './dto/apply-credit.dto';
+import { PeriodOverrideDto } from '../fiscal-periods/dto/period-override.dto';
 import { TenantContextGuard } from '../common/guards/tenant-context.guard';
 import { TenantContext } from '../common/decorators/tenant-context.decorator';
 
@@ -52,6 +55,35 @@ export class PaymentsController {
     return this.paymentsService.findAll(tenantId, { paymentType, status, partyType });
   }
 
+  @Get('available-credit')
+  @ApiOperation({ summary: 'Get the unallocated payments and unapplied credit notes of a party' })
+  @ApiQuery({ name: 'partyType', enum: ['customer', 'vendor'] })
+  @ApiQuery({ name: 'partyId' })
+  @ApiQuery({ name: 'currency', required: false })
+  @Protected()
+  getAvailableCredit(
+    @TenantContext('tenantId') tenantId: string,
+    @Query('partyType') partyType: 'customer' | 'vendor',
+    @Query('partyId') partyId: string,
+    @Query('currency') currency?: string,
+  ) {
+    if (!['customer', 'vendor'].includes(partyType) || !partyId) {
+      throw new BadRequestException('partyType (customer or vendor) and partyId are required');
+    }
+    return this.paymentsService.getAvailableCredit(partyType, partyId, tenantId, currency);
+  }
+
+  @Post('apply-credit')
+  @ApiOperation({ summary: 'Settle an invoice from unallocated payments and credit notes' })
+  @Protected()
+  applyCredit(
+    @Body() applyDto: ApplyCreditDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId?: string,
+  ) {
+    return this.paymentsService.applyCredit(applyDto, tenantId, userId);
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get a payment by ID' })
   @Protected()
@@ -81,8 +113,9 @@ export class PaymentsController {
     @Param('id') id: string,
     @Body() updateDto: UpdatePaymentDto,
     @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId?: string,
   ) {
-    return this.paymentsService.update(id, updateDto, tenantId);
+    return this.paymentsService.update(id, updateDto, tenantId, userId);
   }
 
   @Delete(':id')
@@ -122,10 +155,13 @@ export class PaymentsController {
   @Protected()
   post(
     @Param('id') id: string,
+    @Body() overrideDto: PeriodOverrideDto,
     @TenantContext('tenantId') tenantId: string,
     @TenantContext('userId') userId?: string,
   ) {
-    return this.paymentsService.post(id, tenantId, userId);
+    return this.paymentsService.post(id, tenantId, userId, {
+      overrideCode: overrideDto.overrideCode,
+    });
   }
 
   @Post(':id/cancel')
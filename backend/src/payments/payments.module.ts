@@ -5,9 +5,18 @@ import { SupabaseModule } from '../supabase/supabase.module';
 import { JournalsModule } from '../journals/journals.module';
 import { PdfModule } from '../pdf/pdf.module';
 import { ExportModule } from '../export/export.module';
+import { PeriodGuardModule } from '../fiscal-periods/period-guard.module';
+import { AccountMappingsModule } from '../account-mappings/account-mappings.module';
 
 @Module({
-  imports: [SupabaseModule, JournalsModule, PdfModule, ExportModule],
+  imports: [
+    SupabaseModule,
+    JournalsModule,
+    PdfModule,
+    ExportModule,
+    PeriodGuardModule,
+    AccountMappingsModule,
+  ],
   controllers: [PaymentsController],
   providers: [PaymentsService],
   exports: [PaymentsService],
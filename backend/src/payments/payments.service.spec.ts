@@ -2,8 +2,11 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { BadRequestException, NotFoundException, ForbiddenException } from '@nestjs/common';
 import { PaymentsService } from './payments.service';
 import { SupabaseService } from '../supabase/supabase.service';
+import { PeriodGuardService } from '../fiscal-periods/period-guard.service';
+import { AccountMappingsService } from '../account-mappings/account-mappings.service';
 import { JournalsService } from '../journals/journals.service';
 import { InvoicesService } from '../invoices/invoices.service';
+import { queryResult } from '../../test/utils/query-result';
 
 describe('PaymentsService', () => {
   let service: PaymentsService;
@@ -57,6 +60,23 @@ describe('PaymentsService', () => {
           provide: InvoicesService,
           useValue: mockInvoicesService,
         },
+        {
+          provide: PeriodGuardService,
+          useValue: {
+            assertOpen: jest.fn(),
+            assertDatesOpen: jest.fn(),
+            findPeriod: jest.fn().mockResolvedValue({ id: 'period-id' }),
+          },
+        },
+        {
+          provide: AccountMappingsService,
+          useValue: {
+            resolve: jest.fn().mockResolvedValue({}),
+            getWriteOffTolerance: jest.fn().mockResolvedValue(0),
+            resolveVatAccounts: jest.fn().mockResolvedValue(new Map()),
+            requireAccount: jest.fn((mappings, key) => `${key}-account-id`),
+          },
+        },
       ],
     }).compile();
 
@@ -698,4 +718,370 @@ describe('PaymentsService', () => {
       expect(posted.status).toBe('posted');
     });
   });
+
+  describe('auto-allocation and customer advances', () => {
+    let tables: Record<string, any[]>;
+    let accountMappingsService: AccountMappingsService;
+    let updateInvoiceBalance: jest.SpyInstance;
+
+    const openInvoices = [
+      { id: 'inv-1', invoice_number: 'INV-2026-000001', party_id: 'customer-1', total_amount: 300, balance_amount: 300 },
+      { id: 'inv-2', invoice_number: 'INV-2026-000002', party_id: 'customer-1', total_amount: 500, balance_amount: 500 },
+    ];
+
+    const receiptDto: any = {
+      paymentType: 'receipt',
+      partyType: 'customer',
+      partyId: 'customer-1',
+      paymentDate: new Date('2026-10-01'),
+      paymentMethod: 'bank_transfer',
+      amount: 600,
+    };
+
+    beforeEach(() => {
+      tables = {};
+      mockSupabaseClient.from = jest.fn((table: string) => tables[table].shift());
+      mockSupabaseClient.rpc = jest.fn().mockResolvedValue({ data: 'RCT-1', error: null });
+      (journalsService as any).prepare = jest.fn((dto) =>
+        Promise.resolve({ journal: { reference_number: dto.referenceNumber }, lines: dto.lines }),
+      );
+      accountMappingsService = (service as any).accountMappingsService;
+      updateInvoiceBalance = jest.spyOn(service, 'updateInvoiceBalance').mockResolvedValue(undefined);
+    });
+
+    it('should allocate a receipt to the oldest due invoices first', async () => {
+      const payments = queryResult({ data: { id: 'pay-1' }, error: null });
+      const allocations = queryResult({ data: null, error: null });
+      tables.invoices = [
+        queryResult({ data: openInvoices, error: null }),
+        queryResult({ data: openInvoices, error: null }),
+      ];
+      tables.payments = [payments];
+      tables.payment_allocations = [allocations, queryResult({ data: null, error: null })];
+      jest.spyOn(service, 'findOne').mockResolvedValue({ id: 'pay-1' });
+
+      await service.create({ ...receiptDto, autoAllocate: 'oldest_due' }, mockTenantId, mockUserId);
+
+      expect(payments.insert).toHaveBeenCalledWith(expect.objectContaining({ unallocated_amount: 0 }));
+      expect(allocations.insert).toHaveBeenCalledWith(expect.objectContaining({ invoice_id: 'inv-1', amount: 300 }));
+      expect(tables.payment_allocations).toHaveLength(0);
+      expect(updateInvoiceBalance).toHaveBeenCalledWith('inv-2', mockTenantId);
+    });
+
+    it('should allocate only to the invoices named in the reference number', async () => {
+      const payments = queryResult({ data: { id: 'pay-1' }, error: null });
+      const allocations = queryResult({ data: null, error: null });
+      tables.invoices = [
+        queryResult({ data: openInvoices, error: null }),
+        queryResult({ data: openInvoices, error: null }),
+      ];
+      tables.payments = [payments];
+      tables.payment_allocations = [allocations];
+      jest.spyOn(service, 'findOne').mockResolvedValue({ id: 'pay-1' });
+
+      await service.create(
+        { ...receiptDto, autoAllocate: 'reference', referenceNumber: 'Settles inv-2026-000002' },
+        mockTenantId,
+        mockUserId,
+      );
+
+      expect(allocations.insert).toHaveBeenCalledWith(expect.objectContaining({ invoice_id: 'inv-2', amount: 500 }));
+      expect(payments.insert).toHaveBeenCalledWith(expect.objectContaining({ unallocated_amount: 100 }));
+    });
+
+    it('should not take an invoice number for part of a longer one', async () => {
+      const invoices = [
+        { ...openInvoices[0], id: 'inv-1', invoice_number: 'INV-1' },
+        { ...openInvoices[1], id: 'inv-10', invoice_number: 'INV-10' },
+      ];
+      const payments = queryResult({ data: { id: 'pay-1' }, error: null });
+      const allocations = queryResult({ data: null, error: null });
+      tables.invoices = [
+        queryResult({ data: invoices, error: null }),
+        queryResult({ data: invoices, error: null }),
+      ];
+      tables.payments = [payments];
+      tables.payment_allocations = [allocations];
+      jest.spyOn(service, 'findOne').mockResolvedValue({ id: 'pay-1' });
+
+      await service.create(
+        {
+          ...receiptDto,
+          autoAllocate: 'reference',
+          referenceNumber: 'Settles INV-10.',
+        },
+        mockTenantId,
+        mockUserId,
+      );
+
+      expect(allocations.insert).toHaveBeenCalledTimes(1);
+      expect(allocations.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ invoice_id: 'inv-10', amount: 500 }),
+      );
+    });
+
+    it('should post the unallocated part of a receipt to customer advances', async () => {
+      (accountMappingsService.resolve as jest.Mock).mockResolvedValue({ customer_advances: 'advances-account-id' });
+      tables.payments = [queryResult({ data: { id: 'pay-1', status: 'posted' }, error: null })];
+      jest.spyOn(service, 'findOne').mockResolvedValue({
+        id: 'pay-1',
+        status: 'approved',
+        payment_number: 'RCT-1',
+        payment_type: 'receipt',
+        party_type: 'customer',
+        party_id: 'customer-1',
+        payment_date: '2026-10-01',
+        bank_account_id: 'bank-account-id',
+        amount: 1000,
+        unallocated_amount: 400,
+      });
+      mockSupabaseClient.rpc.mockResolvedValue({ data: 'journal-1', error: null });
+
+      await service.post('pay-1', mockTenantId, mockUserId);
+
+      const lines = (journalsService as any).prepare.mock.calls[0][0].lines;
+      expect(lines.map((line) => [line.accountId, line.debit, line.credit])).toEqual([
+        ['bank-account-id', 1000, 0],
+        ['receivable-account-id', 0, 600],
+        ['advances-account-id', 0, 400],
+      ]);
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        'post_payment_with_journal',
+        expect.objectContaining({ p_advance_amount: 400 }),
+      );
+    });
+
+    it('should take the early payment discount when the rest is paid in time', async () => {
+      const discounted = {
+        ...openInvoices[0],
+        total_amount: 1000,
+        balance_amount: 1000,
+        early_payment_discount_percentage: 2,
+        early_payment_discount_date: '2026-10-10',
+      };
+      const payments = queryResult({ data: { id: 'pay-1' }, error: null });
+      const allocations = queryResult({ data: null, error: null });
+      tables.invoices = [queryResult({ data: [discounted], error: null }), queryResult({ data: [discounted], error: null })];
+      tables.payments = [payments];
+      tables.payment_allocations = [allocations];
+      jest.spyOn(service, 'findOne').mockResolvedValue({ id: 'pay-1' });
+
+      await service.create({ ...receiptDto, amount: 980, autoAllocate: 'oldest_due' }, mockTenantId, mockUserId);
+
+      expect(allocations.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ invoice_id: 'inv-1', amount: 980, discount_allowed: 20, write_off: 0 }),
+      );
+      expect(payments.insert).toHaveBeenCalledWith(expect.objectContaining({ unallocated_amount: 0 }));
+    });
+
+    it('should write off a short payment within the tolerance', async () => {
+      (accountMappingsService.getWriteOffTolerance as jest.Mock).mockResolvedValue(10);
+      const allocations = queryResult({ data: null, error: null });
+      tables.invoices = [queryResult({ data: [openInvoices[1]], error: null })];
+      tables.payments = [queryResult({ data: { id: 'pay-1' }, error: null })];
+      tables.payment_allocations = [allocations];
+      jest.spyOn(service, 'findOne').mockResolvedValue({ id: 'pay-1' });
+
+      await service.create(
+        { ...receiptDto, amount: 495, allocations: [{ invoiceId: 'inv-2', amount: 495 }] },
+        mockTenantId,
+        mockUserId,
+      );
+
+      expect(allocations.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ invoice_id: 'inv-2', amount: 495, discount_allowed: 0, write_off: 5 }),
+      );
+    });
+
+    it('should reject a discount and write-off beyond the invoice balance', async () => {
+      tables.invoices = [queryResult({ data: [openInvoices[0]], error: null })];
+
+      await expect(
+        service.create(
+          { ...receiptDto, amount: 290, allocations: [{ invoiceId: 'inv-1', amount: 290, discountAllowed: 6, writeOff: 5 }] },
+          mockTenantId,
+          mockUserId,
+        ),
+      ).rejects.toThrow('Amount, discount and write-off of 301.00 exceed the balance 300.00 of invoice INV-2026-000001');
+    });
+
+    it('should post discounts and write-offs against receivables', async () => {
+      (accountMappingsService.resolve as jest.Mock).mockResolvedValue({});
+      tables.payments = [queryResult({ data: { id: 'pay-1', status: 'posted' }, error: null })];
+      jest.spyOn(service, 'findOne').mockResolvedValue({
+        id: 'pay-1',
+        status: 'approved',
+        payment_number: 'RCT-1',
+        payment_type: 'receipt',
+        party_type: 'customer',
+        party_id: 'customer-1',
+        payment_date: '2026-10-01',
+        bank_account_id: 'bank-account-id',
+        amount: 975,
+        unallocated_amount: 0,
+        payment_allocations: [{ invoice_id: 'inv-1', amount: 975, discount_allowed: 20, write_off: 5 }],
+      });
+      mockSupabaseClient.rpc.mockResolvedValue({ data: 'journal-1', error: null });
+
+      await service.post('pay-1', mockTenantId, mockUserId);
+
+      const lines = (journalsService as any).prepare.mock.calls[0][0].lines;
+      expect(lines.map((line) => [line.accountId, line.debit, line.credit])).toEqual([
+        ['bank-account-id', 975, 0],
+        ['sales_discount-account-id', 20, 0],
+        ['bad_debts-account-id', 5, 0],
+        ['receivable-account-id', 0, 1000],
+      ]);
+    });
+
+    it('should settle an invoice from an advance and a credit note, oldest first', async () => {
+      tables.invoices = [
+        queryResult({
+          data: {
+            id: 'inv-3',
+            invoice_number: 'INV-2026-000003',
+            invoice_type: 'sales',
+            party_type: 'customer',
+            party_id: 'customer-1',
+            currency: 'QAR',
+            status: 'posted',
+            balance_amount: 500,
+          },
+          error: null,
+        }),
+        queryResult({
+          data: [
+            {
+              id: 'cn-1',
+              invoice_number: 'CN-2026-000001',
+              invoice_date: '2026-09-15',
+              currency: 'QAR',
+              balance_amount: 400,
+            },
+          ],
+          error: null,
+        }),
+        queryResult({ data: { id: 'inv-3', balance_amount: 0, status: 'paid' }, error: null }),
+      ];
+      tables.payments = [
+        queryResult({
+          data: [
+            {
+              id: 'pay-1',
+              payment_number: 'RCT-1',
+              payment_date: '2026-09-01',
+              currency: 'QAR',
+              unallocated_amount: 300,
+            },
+          ],
+          error: null,
+        }),
+      ];
+      jest.spyOn(service, 'findOne').mockResolvedValue({
+        id: 'pay-1',
+        payment_number: 'RCT-1',
+        party_id: 'customer-1',
+        currency: 'QAR',
+        advance_amount: 300,
+      });
+      mockSupabaseClient.rpc.mockResolvedValue({ data: null, error: null });
+
+      const result = await service.applyCredit({ invoiceId: 'inv-3' }, mockTenantId, mockUserId);
+
+      expect(result.applied).toEqual([
+        { source_type: 'payment', source_id: 'pay-1', number: 'RCT-1', amount: 300 },
+        { source_type: 'credit_note', source_id: 'cn-1', number: 'CN-2026-000001', amount: 200 },
+      ]);
+      const advanceLines = (journalsService as any).prepare.mock.calls[0][0].lines;
+      expect(advanceLines.map((line) => [line.accountId, line.debit, line.credit])).toEqual([
+        ['customer_advances-account-id', 300, 0],
+        ['receivable-account-id', 0, 300],
+      ]);
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledTimes(1);
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        'apply_credits_to_invoice',
+        expect.objectContaining({
+          p_invoice_id: 'inv-3',
+          p_sources: [
+            expect.objectContaining({ source_type: 'payment', source_id: 'pay-1', amount: 300, lines: advanceLines }),
+            { source_type: 'credit_note', source_id: 'cn-1', amount: 200, journal: null, lines: null },
+          ],
+        }),
+      );
+      expect(updateInvoiceBalance).toHaveBeenCalledWith('inv-3', mockTenantId);
+    });
+
+    it('should apply none of the credits when one cannot be applied', async () => {
+      tables.invoices = [
+        queryResult({
+          data: {
+            id: 'inv-3',
+            invoice_number: 'INV-2026-000003',
+            invoice_type: 'sales',
+            party_type: 'customer',
+            party_id: 'customer-1',
+            currency: 'QAR',
+            status: 'posted',
+            balance_amount: 500,
+          },
+          error: null,
+        }),
+        queryResult({
+          data: [{ id: 'cn-1', invoice_number: 'CN-2026-000001', invoice_date: '2026-09-15', currency: 'QAR', balance_amount: 400 }],
+          error: null,
+        }),
+      ];
+      tables.payments = [
+        queryResult({
+          data: [{ id: 'pay-1', payment_number: 'RCT-1', payment_date: '2026-09-01', currency: 'QAR', unallocated_amount: 300 }],
+          error: null,
+        }),
+      ];
+      jest.spyOn(service, 'findOne').mockResolvedValue({ id: 'pay-1', payment_number: 'RCT-1', advance_amount: 0 });
+      mockSupabaseClient.rpc.mockResolvedValue({
+        data: null,
+        error: { message: 'The allocations exceed the unapplied credit of 400.00' },
+      });
+
+      await expect(service.applyCredit({ invoiceId: 'inv-3' }, mockTenantId, mockUserId)).rejects.toThrow(
+        'Failed to apply credit to invoice INV-2026-000003: The allocations exceed the unapplied credit of 400.00',
+      );
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledTimes(1);
+      expect(updateInvoiceBalance).not.toHaveBeenCalled();
+    });
+
+    it('should reject credits that exceed the invoice balance', async () => {
+      tables.invoices = [
+        queryResult({
+          data: {
+            id: 'inv-3',
+            invoice_number: 'INV-2026-000003',
+            invoice_type: 'sales',
+            party_type: 'customer',
+            party_id: 'customer-1',
+            currency: 'QAR',
+            status: 'overdue',
+            balance_amount: 100,
+          },
+          error: null,
+        }),
+        queryResult({ data: [], error: null }),
+      ];
+      tables.payments = [
+        queryResult({
+          data: [{ id: 'pay-1', payment_number: 'RCT-1', payment_date: '2026-09-01', currency: 'QAR', unallocated_amount: 300 }],
+          error: null,
+        }),
+      ];
+
+      await expect(
+        service.applyCredit(
+          { invoiceId: 'inv-3', sources: [{ sourceType: 'payment', sourceId: 'pay-1', amount: 200 }] },
+          mockTenantId,
+          mockUserId,
+        ),
+      ).rejects.toThrow('The credits exceed the balance 100 of invoice INV-2026-000003');
+      expect(mockSupabaseClient.rpc).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,18 +1,51 @@
 import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
 import { SupabaseService } from '../supabase/supabase.service';
-import { JournalsService } from '../journals/journals.service';
+import { JournalsService, PreparedJournal } from '../journals/journals.service';
+import { AccountMappingsService } from '../account-mappings/account-mappings.service';
+import {
+  PeriodGuardService,
+  PeriodOverrideOptions,
+} from '../fiscal-periods/period-guard.service';
 import { CreatePaymentDto } from './dto/create-payment.dto';
 import { UpdatePaymentDto } from './dto/update-payment.dto';
 import { PaymentAllocationDto } from './dto/payment-allocation.dto';
+import { ApplyCreditDto } from './dto/apply-credit.dto';
 
 // Re-export types for backward compatibility
 type PaymentAllocation = PaymentAllocationDto;
 
+// Invoices that are posted and not yet settled
+const OPEN_INVOICE_STATUSES = ['posted', 'partially_paid', 'overdue'];
+
+type AllocationInput = Pick<PaymentAllocation, 'invoiceId' | 'amount'> & Partial<PaymentAllocation>;
+
+/**
+ * Unallocated amount of a posted payment, or unapplied credit of a posted
+ * credit note, that can settle an invoice of the same party
+ */
+export interface AvailableCredit {
+  source_type: 'payment' | 'credit_note';
+  source_id: string;
+  number: string;
+  date: string;
+  currency: string;
+  amount: number;
+}
+
+export interface AppliedCredit {
+  source_type: 'payment' | 'credit_note';
+  source_id: string;
+  number: string;
+  amount: number;
+}
+
 @Injectable()
 export class PaymentsService {
   constructor(
     private supabaseService: SupabaseService,
     private journalsService: JournalsService,
+    private periodGuard: PeriodGuardService,
+    private accountMappingsService: AccountMappingsService,
   ) {}
 
   async findAll(tenantId: string, filters?: { paymentType?: string; status?: string; partyType?: string }) {
@@ -122,7 +155,7 @@ export class PaymentsService {
     return data;
   }
 
-  async calculateAllocatedAmount(allocations: PaymentAllocation[]) {
+  async calculateAllocatedAmount(allocations: Array<{ amount: number }>) {
     let totalAllocated = 0;
     for (const allocation of allocations) {
       totalAllocated += allocation.amount;
@@ -154,9 +187,28 @@ export class PaymentsService {
       }
     }
 
+    await this.periodGuard.assertOpen(tenantId, createDto.paymentDate, {
+      documentType: 'payment',
+      action: 'create',
+      userId: createdBy,
+      overrideCode: createDto.overrideCode,
+    });
+
+    let allocations: AllocationInput[] = createDto.allocations;
+    if (createDto.autoAllocate) {
+      if (allocations && allocations.length > 0) {
+        throw new BadRequestException('Give either allocations or autoAllocate, not both');
+      }
+      allocations = await this.findAutoAllocations(createDto, tenantId);
+    }
+
+    if (allocations && allocations.length > 0) {
+      allocations = await this.settleAllocations(allocations, createDto.partyId, tenantId);
+    }
+
     // Calculate allocated amount
-    const allocatedAmount = createDto.allocations
-      ? await this.calculateAllocatedAmount(createDto.allocations)
+    const allocatedAmount = allocations
+      ? await this.calculateAllocatedAmount(allocations)
       : 0;
 
     // Validate allocated amount doesn't exceed payment amount
@@ -204,8 +256,8 @@ export class PaymentsService {
     }
 
     // Create payment allocations
-    if (createDto.allocations && createDto.allocations.length > 0) {
-      for (const allocation of createDto.allocations) {
+    if (allocations && allocations.length > 0) {
+      for (const allocation of allocations) {
         const { error: allocationError } = await supabase.from('payment_allocations').insert({
           payment_id: payment.id,
           tenant_id: tenantId,
@@ -229,7 +281,149 @@ export class PaymentsService {
     return this.findOne(payment.id, tenantId);
   }
 
-  async update(id: string, updateDto: UpdatePaymentDto, tenantId: string) {
+  /**
+   * Allocations of a new payment to the party's open invoices in its
+   * currency
+   *
+   * 'oldest_due' settles the invoices in order of due date, then invoice
+   * date. 'reference' settles, in the same order, only the invoices whose
+   * numbers appear in the payment's reference number. An invoice paid in
+   * full by its early payment discount date gets the discount.
+   */
+  private async findAutoAllocations(createDto: CreatePaymentDto, tenantId: string): Promise<AllocationInput[]> {
+    const supabase = this.supabaseService.getClient();
+
+    const reference = createDto.referenceNumber?.trim().toUpperCase();
+    if (createDto.autoAllocate === 'reference' && !reference) {
+      throw new BadRequestException('A reference number is required to allocate by reference');
+    }
+
+    const { data: invoices, error } = await supabase
+      .from('invoices')
+      .select(
+        'id, invoice_number, invoice_date, due_date, total_amount, balance_amount, early_payment_discount_percentage, early_payment_discount_date',
+      )
+      .eq('tenant_id', tenantId)
+      .eq('party_type', createDto.partyType)
+      .eq('party_id', createDto.partyId)
+      .eq('invoice_type', createDto.paymentType === 'receipt' ? 'sales' : 'purchase')
+      .eq('currency', createDto.currency || 'QAR')
+      .in('status', OPEN_INVOICE_STATUSES)
+      .gt('balance_amount', 0)
+      .order('due_date', { ascending: true, nullsFirst: false })
+      .order('invoice_date', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    const candidates = (invoices || []).filter(
+      (invoice) =>
+        createDto.autoAllocate !== 'reference' ||
+        this.referencesInvoice(reference, String(invoice.invoice_number)),
+    );
+
+    const allocations: AllocationInput[] = [];
+    const paymentDate = createDto.paymentDate.toISOString().split('T')[0];
+    let remaining = createDto.amount;
+
+    for (const invoice of candidates) {
+      if (remaining <= 0) break;
+
+      const balance = Number(invoice.balance_amount);
+      const discount =
+        Number(invoice.early_payment_discount_percentage) > 0 &&
+        invoice.early_payment_discount_date &&
+        paymentDate <= invoice.early_payment_discount_date
+          ? Math.min(this.round((Number(invoice.total_amount) * Number(invoice.early_payment_discount_percentage)) / 100), balance)
+          : 0;
+
+      // The discount applies only when the rest of the balance is paid
+      const discountAllowed = discount > 0 && remaining >= this.round(balance - discount) ? discount : 0;
+      const amount = this.round(Math.min(balance - discountAllowed, remaining));
+
+      allocations.push({
+        invoiceId: invoice.id,
+        amount,
+        discountAllowed,
+        notes: `Allocated automatically (${createDto.autoAllocate === 'reference' ? 'by reference' : 'oldest due first'})`,
+      });
+      remaining = this.round(remaining - amount);
+    }
+
+    return allocations;
+  }
+
+  /**
+   * Check allocations against the balances of their invoices and write off
+   * what is left on an invoice when it is within the tenant's tolerance
+   *
+   * The amount, discount allowed and write-off of an allocation together
+   * settle the invoice, so they may not exceed its balance. Allocations of
+   * the payment being replaced are given back to their invoices first.
+   */
+  private async settleAllocations(
+    allocations: AllocationInput[],
+    partyId: string,
+    tenantId: string,
+    replacedAllocations: any[] = [],
+  ): Promise<AllocationInput[]> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: invoices, error } = await supabase
+      .from('invoices')
+      .select('id, invoice_number, party_id, balance_amount')
+      .eq('tenant_id', tenantId)
+      .in('id', [...new Set(allocations.map((allocation) => allocation.invoiceId))]);
+
+    if (error) {
+      throw error;
+    }
+
+    const tolerance = await this.accountMappingsService.getWriteOffTolerance(tenantId);
+
+    const invoiceMap = new Map((invoices || []).map((invoice) => [invoice.id, invoice]));
+    const balances = new Map((invoices || []).map((invoice) => [invoice.id, Number(invoice.balance_amount)]));
+
+    for (const replaced of replacedAllocations) {
+      if (!balances.has(replaced.invoice_id)) continue;
+      balances.set(
+        replaced.invoice_id,
+        balances.get(replaced.invoice_id) +
+          Number(replaced.amount) +
+          (Number(replaced.discount_allowed) || 0) +
+          (Number(replaced.write_off) || 0),
+      );
+    }
+
+    return allocations.map((allocation) => {
+      const invoice = invoiceMap.get(allocation.invoiceId);
+      if (!invoice || invoice.party_id !== partyId) {
+        throw new BadRequestException(`Invoice ${allocation.invoiceId} not found for this party`);
+      }
+
+      const balance = this.round(balances.get(invoice.id));
+      const discountAllowed = this.round(allocation.discountAllowed || 0);
+      let writeOff = this.round(allocation.writeOff || 0);
+      let difference = this.round(balance - allocation.amount - discountAllowed - writeOff);
+
+      if (difference < 0) {
+        throw new BadRequestException(
+          `Amount, discount and write-off of ${(allocation.amount + discountAllowed + writeOff).toFixed(2)} exceed the balance ${balance.toFixed(2)} of invoice ${invoice.invoice_number}`,
+        );
+      }
+
+      if (difference > 0 && difference <= tolerance) {
+        writeOff = this.round(writeOff + difference);
+        difference = 0;
+      }
+
+      balances.set(invoice.id, difference);
+      return { ...allocation, discountAllowed, writeOff };
+    });
+  }
+
+  async update(id: string, updateDto: UpdatePaymentDto, tenantId: string, userId?: string) {
     const supabase = this.supabaseService.getClient();
 
     // Check if payment exists and is in draft status
@@ -238,6 +432,14 @@ export class PaymentsService {
       throw new BadRequestException('Can only update draft payments');
     }
 
+    await this.periodGuard.assertDatesOpen(tenantId, [existing.payment_date, updateDto.paymentDate], {
+      documentType: 'payment',
+      action: 'update',
+      documentId: id,
+      userId,
+      overrideCode: updateDto.overrideCode,
+    });
+
     const updateData: any = {};
 
     if (updateDto.paymentDate !== undefined) updateData.payment_date = updateDto.paymentDate.toISOString().split('T')[0];
@@ -254,9 +456,14 @@ export class PaymentsService {
     if (updateDto.checkDate !== undefined) updateData.check_date = updateDto.checkDate.toISOString().split('T')[0];
     if (updateDto.bankAccountId !== undefined) updateData.bank_account_id = updateDto.bankAccountId;
 
+    let allocations: AllocationInput[] = updateDto.allocations;
+    if (allocations && allocations.length > 0) {
+      allocations = await this.settleAllocations(allocations, existing.party_id, tenantId, existing.payment_allocations);
+    }
+
     // Recalculate allocations if changed
-    if (updateDto.allocations) {
-      const allocatedAmount = await this.calculateAllocatedAmount(updateDto.allocations);
+    if (allocations) {
+      const allocatedAmount = await this.calculateAllocatedAmount(allocations);
       const amount = updateDto.amount !== undefined ? updateDto.amount : existing.amount;
 
       if (allocatedAmount > amount) {
@@ -284,7 +491,7 @@ export class PaymentsService {
     }
 
     // Update allocations if provided
-    if (updateDto.allocations) {
+    if (allocations) {
       // Delete existing allocations and restore invoice balances
       for (const existingAllocation of existing.payment_allocations) {
         await supabase.from('payment_allocations').delete().eq('id', existingAllocation.id);
@@ -292,7 +499,7 @@ export class PaymentsService {
       }
 
       // Insert new allocations
-      for (const allocation of updateDto.allocations) {
+      for (const allocation of allocations) {
         const { error: allocationError } = await supabase.from('payment_allocations').insert({
           payment_id: id,
           tenant_id: tenantId,
@@ -322,7 +529,7 @@ export class PaymentsService {
     // Calculate total payments for this invoice
     const { data: allocations, error: allocError } = await supabase
       .from('payment_allocations')
-      .select('amount')
+      .select('amount, discount_allowed, write_off')
       .eq('invoice_id', invoiceId);
 
     if (allocError) {
@@ -331,10 +538,17 @@ export class PaymentsService {
 
     const totalPaid = allocations?.reduce((sum, alloc) => sum + alloc.amount, 0) || 0;
 
+    // Discounts allowed and amounts written off settle the invoice too
+    const totalDeducted =
+      allocations?.reduce(
+        (sum, alloc) => sum + (Number(alloc.discount_allowed) || 0) + (Number(alloc.write_off) || 0),
+        0,
+      ) || 0;
+
     // Get invoice details
     const { data: invoice, error: invError } = await supabase
       .from('invoices')
-      .select('total_amount')
+      .select('invoice_type, due_date, total_amount, credited_amount')
       .eq('id', invoiceId)
       .single();
 
@@ -342,18 +556,31 @@ export class PaymentsService {
       throw invError;
     }
 
-    const balanceAmount = invoice.total_amount - totalPaid;
+    // Credit notes applied to the invoice settle it like payments
+    const totalSettled = totalPaid + totalDeducted + (Number(invoice.credited_amount) || 0);
+    const balanceAmount = invoice.total_amount - totalSettled;
 
     // Update invoice balance and status
     let status = 'posted';
-    if (totalPaid === 0) {
+    if (totalSettled === 0) {
       status = 'posted';
-    } else if (totalPaid < invoice.total_amount) {
+    } else if (totalSettled < invoice.total_amount) {
       status = 'partially_paid';
-    } else if (totalPaid >= invoice.total_amount) {
+    } else if (totalSettled >= invoice.total_amount) {
       status = 'paid';
     }
 
+    // An unsettled invoice past its due date is overdue
+    const today = new Date().toISOString().split('T')[0];
+    if (
+      status !== 'paid' &&
+      ['sales', 'purchase'].includes(invoice.invoice_type) &&
+      invoice.due_date &&
+      invoice.due_date < today
+    ) {
+      status = 'overdue';
+    }
+
     await supabase
       .from('invoices')
       .update({
@@ -418,7 +645,7 @@ export class PaymentsService {
     return data;
   }
 
-  async post(id: string, tenantId: string, userId?: string) {
+  async post(id: string, tenantId: string, userId?: string, options?: PeriodOverrideOptions) {
     const supabase = this.supabaseService.getClient();
 
     const existing = await this.findOne(id, tenantId);
@@ -426,33 +653,311 @@ export class PaymentsService {
       throw new BadRequestException('Can only post approved payments');
     }
 
+    await this.periodGuard.assertOpen(tenantId, existing.payment_date, {
+      documentType: 'payment',
+      action: 'post',
+      documentId: id,
+      userId,
+      overrideCode: options?.overrideCode,
+    });
+
     try {
-      // Create journal entry for the payment
-      const journalId = await this.createPaymentJournal(existing, tenantId, userId);
-
-      // Update payment status and link to journal
-      const { data, error } = await supabase
-        .from('payments')
-        .update({
-          status: 'posted',
-          posted_journal_id: journalId,
-          posted_by: userId,
-          posted_at: new Date().toISOString(),
-        })
-        .eq('id', id)
-        .eq('tenant_id', tenantId)
-        .select()
-        .single();
+      const { journal, advanceAmount } = await this.preparePaymentJournal(existing, tenantId, userId);
+
+      // The journal and the payment status are written in one transaction, so
+      // a failure leaves neither behind
+      const { error } = await supabase.rpc('post_payment_with_journal', {
+        p_payment_id: id,
+        p_tenant_id: tenantId,
+        p_user_id: userId,
+        p_journal: journal.journal,
+        p_lines: journal.lines,
+        p_advance_amount: advanceAmount,
+      });
 
       if (error) {
         throw error;
       }
-
-      return data;
     } catch (error) {
-      // If journal creation fails, don't post the payment
       throw new BadRequestException(`Failed to create journal entry: ${error.message}`);
     }
+
+    const { data, error } = await supabase
+      .from('payments')
+      .select()
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Unallocated posted payments and unapplied posted credit notes of a
+   * party, oldest first
+   */
+  async getAvailableCredit(
+    partyType: 'customer' | 'vendor',
+    partyId: string,
+    tenantId: string,
+    currency?: string,
+  ): Promise<AvailableCredit[]> {
+    const supabase = this.supabaseService.getClient();
+
+    let paymentsQuery = supabase
+      .from('payments')
+      .select('id, payment_number, payment_date, currency, unallocated_amount')
+      .eq('tenant_id', tenantId)
+      .eq('party_type', partyType)
+      .eq('party_id', partyId)
+      .eq('status', 'posted')
+      .gt('unallocated_amount', 0);
+
+    let creditNotesQuery = supabase
+      .from('invoices')
+      .select('id, invoice_number, invoice_date, currency, balance_amount')
+      .eq('tenant_id', tenantId)
+      .eq('party_type', partyType)
+      .eq('party_id', partyId)
+      .eq('invoice_type', partyType === 'customer' ? 'sales_return' : 'purchase_return')
+      .in('status', ['posted', 'partially_paid'])
+      .gt('balance_amount', 0);
+
+    if (currency) {
+      paymentsQuery = paymentsQuery.eq('currency', currency);
+      creditNotesQuery = creditNotesQuery.eq('currency', currency);
+    }
+
+    const [payments, creditNotes] = await Promise.all([paymentsQuery, creditNotesQuery]);
+
+    for (const result of [payments, creditNotes]) {
+      if (result.error) throw result.error;
+    }
+
+    const credits: AvailableCredit[] = [
+      ...(payments.data || []).map((payment) => ({
+        source_type: 'payment' as const,
+        source_id: payment.id,
+        number: payment.payment_number,
+        date: payment.payment_date,
+        currency: payment.currency,
+        amount: Number(payment.unallocated_amount),
+      })),
+      ...(creditNotes.data || []).map((creditNote) => ({
+        source_type: 'credit_note' as const,
+        source_id: creditNote.id,
+        number: creditNote.invoice_number,
+        date: creditNote.invoice_date,
+        currency: creditNote.currency,
+        amount: Number(creditNote.balance_amount),
+      })),
+    ];
+
+    return credits.sort((a, b) => a.date.localeCompare(b.date) || a.number.localeCompare(b.number));
+  }
+
+  /**
+   * Settle an open invoice from the party's unallocated payments and
+   * unapplied credit notes
+   *
+   * Without sources, the available credit is used oldest first until the
+   * invoice is settled. A receipt that was posted to customer advances has
+   * the applied amount moved from advances to receivables by a journal dated
+   * the application date.
+   */
+  async applyCredit(applyDto: ApplyCreditDto, tenantId: string, userId?: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: invoice, error: invoiceError } = await supabase
+      .from('invoices')
+      .select('id, invoice_number, invoice_type, party_type, party_id, currency, status, balance_amount')
+      .eq('id', applyDto.invoiceId)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (invoiceError || !invoice) {
+      throw new NotFoundException('Invoice not found');
+    }
+
+    if (!['sales', 'purchase'].includes(invoice.invoice_type) || !OPEN_INVOICE_STATUSES.includes(invoice.status)) {
+      throw new BadRequestException('Credit can only be applied to open sales or purchase invoices');
+    }
+
+    const applicationDate = applyDto.applicationDate || new Date();
+
+    await this.periodGuard.assertOpen(tenantId, applicationDate, {
+      documentType: 'payment',
+      action: 'post',
+      documentId: invoice.id,
+      userId,
+      overrideCode: applyDto.overrideCode,
+    });
+
+    const available = await this.getAvailableCredit(invoice.party_type, invoice.party_id, tenantId, invoice.currency);
+    const balance = Number(invoice.balance_amount);
+
+    let sources: Array<{ credit: AvailableCredit; amount: number }>;
+    if (applyDto.sources && applyDto.sources.length > 0) {
+      sources = applyDto.sources.map((source) => {
+        const credit = available.find(
+          (candidate) => candidate.source_type === source.sourceType && candidate.source_id === source.sourceId,
+        );
+        if (!credit) {
+          throw new BadRequestException(
+            `${source.sourceType === 'payment' ? 'Payment' : 'Credit note'} ${source.sourceId} has no credit available for invoice ${invoice.invoice_number}`,
+          );
+        }
+        if (source.amount !== undefined && source.amount > credit.amount) {
+          throw new BadRequestException(`Amount ${source.amount} exceeds the available credit ${credit.amount} of ${credit.number}`);
+        }
+        return { credit, amount: source.amount ?? credit.amount };
+      });
+
+      const explicitTotal = applyDto.sources.reduce((sum, source) => sum + (source.amount ?? 0), 0);
+      if (this.round(explicitTotal) > balance) {
+        throw new BadRequestException(`The credits exceed the balance ${balance} of invoice ${invoice.invoice_number}`);
+      }
+    } else {
+      sources = available.map((credit) => ({ credit, amount: credit.amount }));
+    }
+
+    if (sources.length === 0) {
+      throw new BadRequestException('No unallocated payments or credit notes are available for this invoice');
+    }
+
+    const allocationDate = applicationDate.toISOString().split('T')[0];
+    const applied: AppliedCredit[] = [];
+    const toApply: any[] = [];
+    let remaining = balance;
+
+    for (const { credit, amount: requested } of sources) {
+      if (remaining <= 0) break;
+
+      const amount = this.round(Math.min(requested, remaining));
+      const journal =
+        credit.source_type === 'payment'
+          ? await this.preparePaymentApplication(credit.source_id, invoice, amount, allocationDate, tenantId, userId)
+          : null;
+
+      toApply.push({
+        source_type: credit.source_type,
+        source_id: credit.source_id,
+        amount,
+        journal: journal?.journal ?? null,
+        lines: journal?.lines ?? null,
+      });
+      applied.push({
+        source_type: credit.source_type,
+        source_id: credit.source_id,
+        number: credit.number,
+        amount,
+      });
+      remaining = this.round(remaining - amount);
+    }
+
+    // All credits are applied in one transaction: if one fails, none is
+    const { error: applyError } = await supabase.rpc('apply_credits_to_invoice', {
+      p_tenant_id: tenantId,
+      p_user_id: userId,
+      p_invoice_id: invoice.id,
+      p_allocation_date: allocationDate,
+      p_sources: toApply,
+    });
+
+    if (applyError) {
+      throw new BadRequestException(`Failed to apply credit to invoice ${invoice.invoice_number}: ${applyError.message}`);
+    }
+
+    await this.updateInvoiceBalance(invoice.id, tenantId);
+
+    const { data: updated, error } = await supabase
+      .from('invoices')
+      .select()
+      .eq('id', invoice.id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return { invoice: updated, applied };
+  }
+
+  /**
+   * The journal moving an applied payment out of customer advances, when the
+   * receipt was posted there
+   */
+  private async preparePaymentApplication(
+    paymentId: string,
+    invoice: any,
+    amount: number,
+    allocationDate: string,
+    tenantId: string,
+    userId?: string,
+  ): Promise<PreparedJournal | null> {
+    const payment = await this.findOne(paymentId, tenantId);
+
+    return Number(payment.advance_amount) > 0
+      ? this.prepareAdvanceJournal(payment, invoice, amount, allocationDate, tenantId, userId)
+      : null;
+  }
+
+  /**
+   * Journal moving an applied advance to receivables:
+   * - Debit: Customer Advances
+   * - Credit: Accounts Receivable
+   */
+  private async prepareAdvanceJournal(
+    payment: any,
+    invoice: any,
+    amount: number,
+    allocationDate: string,
+    tenantId: string,
+    userId?: string,
+  ): Promise<PreparedJournal> {
+    const mappings = await this.accountMappingsService.resolve(tenantId, { customerId: payment.party_id });
+
+    return this.journalsService.prepare(
+      {
+        journalType: 'receipt',
+        referenceNumber: payment.payment_number,
+        descriptionAr: `تسوية دفعة مقدمة ${payment.payment_number} مع فاتورة ${invoice.invoice_number}`,
+        descriptionEn: `Advance ${payment.payment_number} applied to invoice ${invoice.invoice_number}`,
+        transactionDate: new Date(allocationDate),
+        currency: payment.currency,
+        exchangeRate: payment.exchange_rate,
+        sourceModule: 'payments',
+        sourceId: payment.id,
+        lines: [
+          {
+            lineNumber: 1,
+            accountId: this.accountMappingsService.requireAccount(mappings, 'customer_advances'),
+            descriptionAr: 'دفعات مقدمة من العملاء',
+            descriptionEn: 'Customer advances',
+            debit: amount,
+            credit: 0,
+          },
+          {
+            lineNumber: 2,
+            accountId: this.accountMappingsService.requireAccount(mappings, 'receivable'),
+            descriptionAr: 'تحصيل حسابات مدينة',
+            descriptionEn: 'Accounts Receivable Collection',
+            debit: 0,
+            credit: amount,
+          },
+        ],
+      },
+      tenantId,
+      userId || payment.created_by,
+      payment.branch_id,
+      // The application date's period check already ran in applyCredit()
+      { allowLockedPeriod: true },
+    );
   }
 
   async cancel(id: string, tenantId: string, userId?: string) {
@@ -498,28 +1003,31 @@ export class PaymentsService {
   }
 
   /**
-   * Create journal entry for payment posting
+   * Build the journal entry for payment posting
    *
    * Accounting Logic:
    * -----------------
    * RECEIPT (Customer Payment):
    * - Debit: Bank/Cash Account (amount received)
    * - Credit: Accounts Receivable (reduce AR)
+   * - Credit: Customer Advances (unallocated amount, when the account is mapped)
+   * - Debit: Sales Discount / Bad Debts (discounts allowed and write-offs),
+   *   with the matching credit to Accounts Receivable
    *
    * PAYMENT (Vendor Payment):
    * - Debit: Accounts Payable (reduce AP)
    * - Credit: Bank/Cash Account (amount paid)
+   * - Credit: Purchase Discount / Bad Debts (discounts received and
+   *   write-offs), with the matching debit to Accounts Payable
    *
    * Payment allocations (if any) are already tracked in payment_allocations table
    * The journal entry records the actual cash/bank movement
    */
-  private async createPaymentJournal(
+  private async preparePaymentJournal(
     payment: any,
     tenantId: string,
     userId?: string,
-  ): Promise<string> {
-    const supabase = this.supabaseService.getClient();
-
+  ): Promise<{ journal: PreparedJournal; advanceAmount: number }> {
     // Determine journal type based on payment type
     const journalTypeMap: Record<string, 'receipt' | 'payment'> = {
       receipt: 'receipt',
@@ -534,11 +1042,16 @@ export class PaymentsService {
     // Get default accounts for this tenant
     const defaultAccounts = await this.getPaymentAccounts(tenantId, payment);
 
+    // A receipt not allocated to invoices is an advance from the customer
+    const advanceAmount =
+      payment.payment_type === 'receipt' && defaultAccounts.customer_advances_account_id
+        ? this.round(Number(payment.unallocated_amount) || 0)
+        : 0;
+
     // Build journal lines based on payment type
-    const journalLines = this.buildPaymentJournalLines(payment, defaultAccounts);
+    const journalLines = this.buildPaymentJournalLines(payment, defaultAccounts, advanceAmount);
 
-    // Create journal entry
-    const journal = await this.journalsService.create(
+    const journal = await this.journalsService.prepare(
       {
         journalType,
         referenceNumber: payment.payment_number,
@@ -554,15 +1067,17 @@ export class PaymentsService {
       tenantId,
       userId || payment.created_by,
       payment.branch_id,
+      // The payment's own period check already ran in post()
+      { allowLockedPeriod: true },
     );
 
-    return journal.id;
+    return { journal, advanceAmount };
   }
 
   /**
    * Build journal lines based on payment type
    */
-  private buildPaymentJournalLines(payment: any, defaultAccounts: any): Array<{
+  private buildPaymentJournalLines(payment: any, defaultAccounts: any, advanceAmount = 0): Array<{
     lineNumber: number;
     accountId: string;
     descriptionAr?: string;
@@ -580,6 +1095,7 @@ export class PaymentsService {
     }> = [];
 
     let lineNumber = 1;
+    const { discount, writeOff } = this.getSettlementDeductions(payment);
 
     // Build journal lines based on payment type
     switch (payment.payment_type) {
@@ -595,15 +1111,53 @@ export class PaymentsService {
           credit: 0,
         });
 
+        // Debit: Sales Discount
+        if (discount > 0) {
+          lines.push({
+            lineNumber: lineNumber++,
+            accountId: defaultAccounts.discount_account_id,
+            descriptionAr: 'خصم تعجيل دفع مسموح به',
+            descriptionEn: 'Early payment discount allowed',
+            debit: discount,
+            credit: 0,
+          });
+        }
+
+        // Debit: Bad Debts
+        if (writeOff > 0) {
+          lines.push({
+            lineNumber: lineNumber++,
+            accountId: defaultAccounts.bad_debts_account_id,
+            descriptionAr: 'شطب رصيد مدين',
+            descriptionEn: 'Receivable written off',
+            debit: writeOff,
+            credit: 0,
+          });
+        }
+
         // Credit: Accounts Receivable
-        lines.push({
-          lineNumber: lineNumber++,
-          accountId: defaultAccounts.receivable_account_id,
-          descriptionAr: `تحصيل حسابات مدينة`,
-          descriptionEn: 'Accounts Receivable Collection',
-          debit: 0,
-          credit: payment.amount,
-        });
+        if (payment.amount - advanceAmount + discount + writeOff > 0) {
+          lines.push({
+            lineNumber: lineNumber++,
+            accountId: defaultAccounts.receivable_account_id,
+            descriptionAr: `تحصيل حسابات مدينة`,
+            descriptionEn: 'Accounts Receivable Collection',
+            debit: 0,
+            credit: this.round(payment.amount - advanceAmount + discount + writeOff),
+          });
+        }
+
+        // Credit: Customer Advances
+        if (advanceAmount > 0) {
+          lines.push({
+            lineNumber: lineNumber++,
+            accountId: defaultAccounts.customer_advances_account_id,
+            descriptionAr: 'دفعات مقدمة من العملاء',
+            descriptionEn: 'Customer advances',
+            debit: 0,
+            credit: advanceAmount,
+          });
+        }
         break;
 
       case 'payment':
@@ -614,7 +1168,7 @@ export class PaymentsService {
           accountId: defaultAccounts.payable_account_id,
           descriptionAr: `دفع لمورد: ${payment.party_id}`,
           descriptionEn: `Payment to vendor: ${payment.party_id}`,
-          debit: payment.amount,
+          debit: this.round(payment.amount + discount + writeOff),
           credit: 0,
         });
 
@@ -627,6 +1181,30 @@ export class PaymentsService {
           debit: 0,
           credit: payment.amount,
         });
+
+        // Credit: Purchase Discount
+        if (discount > 0) {
+          lines.push({
+            lineNumber: lineNumber++,
+            accountId: defaultAccounts.discount_account_id,
+            descriptionAr: 'خصم تعجيل دفع مكتسب',
+            descriptionEn: 'Early payment discount received',
+            debit: 0,
+            credit: discount,
+          });
+        }
+
+        // Credit: Bad Debts
+        if (writeOff > 0) {
+          lines.push({
+            lineNumber: lineNumber++,
+            accountId: defaultAccounts.bad_debts_account_id,
+            descriptionAr: 'شطب رصيد دائن',
+            descriptionEn: 'Payable written off',
+            debit: 0,
+            credit: writeOff,
+          });
+        }
         break;
 
       default:
@@ -637,30 +1215,21 @@ export class PaymentsService {
   }
 
   /**
-   * Get default accounts for payment posting
+   * Get the posting accounts for a payment
+   *
+   * Receivable, payable, customer advances, discount and bad debts accounts
+   * come from the tenant's account mappings, with the party's own account
+   * applied. Discount and bad debts accounts are required only when the
+   * payment's allocations have discounts or write-offs. The bank side is the payment's
+   * bank account, otherwise the first cash or bank account of the chart.
    */
   private async getPaymentAccounts(tenantId: string, payment: any) {
     const supabase = this.supabaseService.getClient();
 
-    // Get Accounts Receivable account (asset)
-    const { data: arAccount } = await supabase
-      .from('chart_of_accounts')
-      .select('id')
-      .eq('tenant_id', tenantId)
-      .eq('type', 'asset')
-      .ilike('name_en', '%receivable%')
-      .limit(1)
-      .single();
-
-    // Get Accounts Payable account (liability)
-    const { data: apAccount } = await supabase
-      .from('chart_of_accounts')
-      .select('id')
-      .eq('tenant_id', tenantId)
-      .eq('type', 'liability')
-      .ilike('name_en', '%payable%')
-      .limit(1)
-      .single();
+    const mappings = await this.accountMappingsService.resolve(
+      tenantId,
+      payment.party_type === 'vendor' ? { vendorId: payment.party_id } : { customerId: payment.party_id },
+    );
 
     // Determine bank account based on payment method and bank_account_id
     let bankAccountId: string | null = null;
@@ -669,39 +1238,65 @@ export class PaymentsService {
     if (payment.bank_account_id) {
       bankAccountId = payment.bank_account_id;
     } else {
-      // Otherwise, try to find a default bank/cash account based on payment method
-      const accountTypeFilter = payment.payment_method === 'cash' ? 'cash' : 'bank';
+      // Otherwise, use the first cash or bank account of the chart
+      const accountSubtype = payment.payment_method === 'cash' ? 'cash' : 'bank';
 
-      const { data: bankAccount } = await supabase
+      const { data: bankAccounts } = await supabase
         .from('chart_of_accounts')
         .select('id')
         .eq('tenant_id', tenantId)
         .eq('type', 'asset')
-        .or(`name_en.ilike.%${accountTypeFilter}%,name_en.ilike.%current%asset%`)
-        .limit(1)
-        .single();
+        .eq('subtype', accountSubtype)
+        .eq('is_active', true)
+        .eq('is_posting_allowed', true)
+        .order('code')
+        .limit(1);
 
-      bankAccountId = bankAccount?.id || null;
+      bankAccountId = bankAccounts?.[0]?.id || null;
     }
 
-    // If required accounts don't exist, throw an error
-    if (payment.payment_type === 'receipt' && !arAccount?.id) {
-      throw new BadRequestException('Accounts Receivable account not found. Please create an asset account with "receivable" in the name.');
-    }
-    if (payment.payment_type === 'payment' && !apAccount?.id) {
-      throw new BadRequestException('Accounts Payable account not found. Please create a liability account with "payable" in the name.');
-    }
     if (!bankAccountId) {
-      throw new BadRequestException('Bank/Cash account not found. Please create an asset account with "bank" or "cash" in the name, or specify a bank account in the payment.');
+      throw new BadRequestException(
+        'Bank/Cash account not found. Specify a bank account in the payment or add an active cash or bank account to the chart of accounts.',
+      );
     }
 
+    const { discount, writeOff } = this.getSettlementDeductions(payment);
+
     return {
-      receivable_account_id: arAccount?.id,
-      payable_account_id: apAccount?.id,
+      receivable_account_id:
+        payment.payment_type === 'receipt' ? this.accountMappingsService.requireAccount(mappings, 'receivable') : null,
+      payable_account_id:
+        payment.payment_type === 'payment' ? this.accountMappingsService.requireAccount(mappings, 'payable') : null,
+      customer_advances_account_id: payment.payment_type === 'receipt' ? mappings.customer_advances : null,
+      discount_account_id:
+        discount > 0
+          ? this.accountMappingsService.requireAccount(
+              mappings,
+              payment.payment_type === 'receipt' ? 'sales_discount' : 'purchase_discount',
+            )
+          : null,
+      bad_debts_account_id: writeOff > 0 ? this.accountMappingsService.requireAccount(mappings, 'bad_debts') : null,
       bank_account_id: bankAccountId,
     };
   }
 
+  /**
+   * Discounts and write-offs on the payment's allocations; they settle
+   * invoices without moving cash
+   */
+  private getSettlementDeductions(payment: any): { discount: number; writeOff: number } {
+    let discount = 0;
+    let writeOff = 0;
+
+    for (const allocation of payment.payment_allocations || []) {
+      discount += Number(allocation.discount_allowed) || 0;
+      writeOff += Number(allocation.write_off) || 0;
+    }
+
+    return { discount: this.round(discount), writeOff: this.round(writeOff) };
+  }
+
   private getPaymentDescriptionAr(payment: any): string {
     const descriptions: Record<string, string> = {
       receipt: `سند قبض رقم ${payment.payment_number}`,
@@ -717,6 +1312,21 @@ export class PaymentsService {
     };
     return descriptions[payment.payment_type] || `Payment ${payment.payment_number}`;
   }
+
+  /**
+   * Whether the reference names the invoice number as a whole, so INV-1 is
+   * not found inside INV-10
+   */
+  private referencesInvoice(reference: string, invoiceNumber: string): boolean {
+    const escaped = invoiceNumber
+      .toUpperCase()
+      .replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(?<![A-Z0-9])${escaped}(?![A-Z0-9])`).test(reference);
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
 }
 
 export type { PaymentAllocation };
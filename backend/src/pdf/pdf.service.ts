@@ -2,6 +2,13 @@ import { Injectable, BadRequestException, NotFoundException } from '@nestjs/comm
 import { SupabaseService } from '../supabase/supabase.service';
 import PDFDocument from 'pdfkit';
 import { Readable } from 'stream';
+import type { AgingReport } from '../reports/reports.service';
+import {
+  DEFAULT_AGING_BOUNDARIES,
+  buildAgingBuckets,
+  findAgingBucket,
+  daysBetween,
+} from '../common/utils/aging';
 
 interface PdfOptions {
   language?: 'ar' | 'en' | 'both';
@@ -125,6 +132,75 @@ interface CustomerStatementData {
   };
 }
 
+// A priced line on a quotation or purchase order
+interface LineItem {
+  line_number: number;
+  description: string;
+  description_ar?: string;
+  quantity: number;
+  unit_price: number;
+  discount_percentage: number;
+  tax_percentage: number;
+  line_total: number;
+}
+
+interface LineItemTotals {
+  currency: string;
+  subtotal: number;
+  discount_amount: number;
+  taxable_amount: number;
+  tax_amount: number;
+  total_amount: number;
+}
+
+interface QuotationData {
+  id: string;
+  quotation_number: string;
+  quotation_date: string;
+  valid_until: string;
+  status: string;
+  currency: string;
+  subtotal: number;
+  discount_amount: number;
+  taxable_amount: number;
+  tax_amount: number;
+  total_amount: number;
+  reference_number?: string;
+  notes?: string;
+  customer?: {
+    name_en: string;
+    name_ar?: string;
+    email?: string;
+    phone?: string;
+  };
+  tenant?: InvoiceData['tenant'];
+  quotation_lines?: LineItem[];
+}
+
+interface PurchaseOrderData {
+  id: string;
+  po_number: string;
+  order_date: string;
+  expected_delivery_date?: string;
+  status: string;
+  currency: string;
+  subtotal: number;
+  discount_amount: number;
+  taxable_amount: number;
+  tax_amount: number;
+  total_amount: number;
+  reference_number?: string;
+  notes?: string;
+  vendor?: {
+    name_en: string;
+    name_ar?: string;
+    email?: string;
+    phone?: string;
+  };
+  tenant?: InvoiceData['tenant'];
+  purchase_order_lines?: LineItem[];
+}
+
 @Injectable()
 export class PdfService {
   constructor(private supabaseService: SupabaseService) {}
@@ -277,6 +353,7 @@ export class PdfService {
       .select('*')
       .eq('party_id', customerId)
       .eq('party_type', 'customer')
+      .not('status', 'in', '(draft,cancelled)')
       .gte('invoice_date', fromDate)
       .lte('invoice_date', toDate)
       .order('invoice_date', { ascending: true });
@@ -298,23 +375,22 @@ export class PdfService {
     const transactions: any[] = [];
     let runningBalance = openingBalance;
 
-    // Add invoices
+    // Add invoices; credit notes reduce what the customer owes
     invoices?.forEach((inv) => {
-      runningBalance += inv.total_amount;
+      const isCreditNote = inv.invoice_type === 'sales_return';
       transactions.push({
         date: inv.invoice_date,
-        type: 'invoice',
+        type: isCreditNote ? 'credit_note' : 'invoice',
         number: inv.invoice_number,
-        description: inv.invoice_type === 'sales' ? 'Sales Invoice' : 'Sales Return',
-        debit: inv.total_amount,
-        credit: 0,
-        balance: runningBalance,
+        description: isCreditNote ? 'Credit Note' : 'Sales Invoice',
+        debit: isCreditNote ? 0 : inv.total_amount,
+        credit: isCreditNote ? inv.total_amount : 0,
+        balance: 0,
       });
     });
 
     // Add payments
     payments?.forEach((pay) => {
-      runningBalance -= pay.amount;
       transactions.push({
         date: pay.payment_date,
         type: 'payment',
@@ -322,14 +398,18 @@ export class PdfService {
         description: 'Payment Received',
         debit: 0,
         credit: pay.amount,
-        balance: runningBalance,
+        balance: 0,
       });
     });
 
-    // Sort by date
+    // Sort by date and carry the running balance
     transactions.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    transactions.forEach((transaction) => {
+      runningBalance += Number(transaction.debit) - Number(transaction.credit);
+      transaction.balance = runningBalance;
+    });
 
-    // Calculate aging
+    // Age the open invoices by due date as of the statement end
     const aging = {
       current: 0,
       days_1_30: 0,
@@ -338,6 +418,22 @@ export class PdfService {
       over_90: 0,
     };
 
+    const { data: openInvoices } = await supabase
+      .from('invoices')
+      .select('invoice_date, due_date, balance_amount')
+      .eq('tenant_id', tenantId)
+      .eq('party_id', customerId)
+      .eq('invoice_type', 'sales')
+      .in('status', ['posted', 'partially_paid', 'overdue'])
+      .lte('invoice_date', toDate);
+
+    const agingBuckets = buildAgingBuckets(DEFAULT_AGING_BOUNDARIES, 'due_date');
+    openInvoices?.forEach((inv) => {
+      const bucket = findAgingBucket(agingBuckets, daysBetween(inv.due_date || inv.invoice_date, toDate));
+      const key = bucket.key === 'current' || bucket.key.startsWith('over_') ? bucket.key : `days_${bucket.key}`;
+      aging[key] += Number(inv.balance_amount) || 0;
+    });
+
     const statementData: CustomerStatementData = {
       customer,
       tenant,
@@ -354,6 +450,93 @@ export class PdfService {
     return this.generateCustomerStatementPdfDocument(statementData, options);
   }
 
+  /**
+   * Generate Quotation PDF
+   */
+  async generateQuotationPdf(quotationId: string, tenantId: string, options: PdfOptions = {}): Promise<Buffer> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: quotation, error } = await supabase
+      .from('quotations')
+      .select(
+        `
+        *,
+        quotation_lines(*),
+        customers(name_en, name_ar, email, phone),
+        tenants!inner(id, name_en, name_ar, vat_number, email, phone, address, city, country)
+        `
+      )
+      .eq('id', quotationId)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (error || !quotation) {
+      throw new NotFoundException('Quotation not found');
+    }
+
+    const quotationData: QuotationData = {
+      ...quotation,
+      quotation_lines: (quotation.quotation_lines || []).sort(
+        (a: any, b: any) => a.line_number - b.line_number,
+      ),
+      customer: quotation.customers,
+      tenant: quotation.tenants,
+    };
+
+    return this.generateQuotationPdfDocument(quotationData, options);
+  }
+
+  /**
+   * Generate Purchase Order PDF
+   */
+  async generatePurchaseOrderPdf(purchaseOrderId: string, tenantId: string, options: PdfOptions = {}): Promise<Buffer> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: purchaseOrder, error } = await supabase
+      .from('purchase_orders')
+      .select(
+        `
+        *,
+        purchase_order_lines(*),
+        vendors(name_en, name_ar, email, phone),
+        tenants!inner(id, name_en, name_ar, vat_number, email, phone, address, city, country)
+        `
+      )
+      .eq('id', purchaseOrderId)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (error || !purchaseOrder) {
+      throw new NotFoundException('Purchase order not found');
+    }
+
+    const purchaseOrderData: PurchaseOrderData = {
+      ...purchaseOrder,
+      purchase_order_lines: (purchaseOrder.purchase_order_lines || []).sort(
+        (a: any, b: any) => a.line_number - b.line_number,
+      ),
+      vendor: purchaseOrder.vendors,
+      tenant: purchaseOrder.tenants,
+    };
+
+    return this.generatePurchaseOrderPdfDocument(purchaseOrderData, options);
+  }
+
+  /**
+   * Generate AR or AP aging report PDF from a computed report
+   */
+  async generateAgingReportPdf(report: AgingReport, tenantId: string, options: PdfOptions = {}): Promise<Buffer> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: tenant } = await supabase
+      .from('tenants')
+      .select('name_en, name_ar, vat_number')
+      .eq('id', tenantId)
+      .single();
+
+    return this.generateAgingReportPdfDocument(report, tenant, options);
+  }
+
   /**
    * Generate the actual Invoice PDF document
    */
@@ -423,7 +606,7 @@ export class PdfService {
   /**
    * Draw company header section
    */
-  private drawCompanyHeader(doc: any, invoice: InvoiceData): void {
+  private drawCompanyHeader(doc: any, invoice: Pick<InvoiceData, 'tenant'>): void {
     const tenant = invoice.tenant;
     if (!tenant) return;
 
@@ -1298,6 +1481,523 @@ export class PdfService {
     }
   }
 
+  /**
+   * Generate the actual Quotation PDF document
+   */
+  private async generateQuotationPdfDocument(quotation: QuotationData, options: PdfOptions = {}): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      try {
+        const doc = new PDFDocument({
+          size: 'A4',
+          margins: {
+            top: options.marginTop || 50,
+            bottom: options.marginBottom || 50,
+            left: options.marginLeft || 50,
+            right: options.marginRight || 50,
+          },
+          bufferPages: true,
+        });
+
+        const chunks: Buffer[] = [];
+        doc.on('data', (chunk) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+
+        // Company header (shared with invoices)
+        this.drawCompanyHeader(doc, quotation);
+
+        // Quotation title, number and validity
+        this.drawQuotationTitle(doc, quotation);
+
+        // Customer info
+        this.drawQuotationCustomerInfo(doc, quotation);
+
+        // Quotation lines table
+        this.drawLineItemsTable(doc, quotation.quotation_lines || [], quotation.currency);
+
+        // Totals section
+        this.drawLineItemTotals(doc, quotation);
+
+        // Notes
+        if (quotation.notes) {
+          doc.moveDown(2);
+          this.drawNotes(doc, quotation.notes, options);
+        }
+
+        // Footer
+        this.drawQuotationFooter(doc, quotation);
+
+        doc.end();
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  /**
+   * Draw quotation title section
+   */
+  private drawQuotationTitle(doc: any, quotation: QuotationData): void {
+    doc.fontSize(24).font('Helvetica-Bold');
+    doc.text('QUOTATION', 400, 50, { align: 'right', width: 300 });
+
+    doc.fontSize(20).font('Helvetica');
+    doc.text('عرض سعر', 400, 80, { align: 'right', width: 300 });
+
+    doc.fontSize(11).font('Helvetica-Bold');
+    doc.text(`Quotation No: ${quotation.quotation_number}`, 400, 120, { align: 'right', width: 300 });
+    doc.text(`رقم العرض: ${quotation.quotation_number}`, 400, 133, { align: 'right', width: 300 });
+
+    doc.font('Helvetica');
+    doc.text(`Date: ${this.formatDate(quotation.quotation_date)}`, 400, 150, { align: 'right', width: 300 });
+    doc.text(`التاريخ: ${this.formatDate(quotation.quotation_date)}`, 400, 163, { align: 'right', width: 300 });
+    doc.text(`Valid Until: ${this.formatDate(quotation.valid_until)}`, 400, 178, { align: 'right', width: 300 });
+    doc.text(`صالح حتى: ${this.formatDate(quotation.valid_until)}`, 400, 191, { align: 'right', width: 300 });
+
+    if (quotation.reference_number) {
+      doc.text(`Reference: ${quotation.reference_number}`, 400, 206, { align: 'right', width: 300 });
+    }
+  }
+
+  /**
+   * Draw quotation customer information
+   */
+  private drawQuotationCustomerInfo(doc: any, quotation: QuotationData): void {
+    const customer = quotation.customer;
+    if (!customer) return;
+
+    const yPos = 230;
+
+    doc.fontSize(12).font('Helvetica-Bold');
+    doc.text('Quotation For:', 50, yPos);
+    doc.text('عرض مقدم إلى:', 50, yPos + 15);
+
+    doc.fontSize(11).font('Helvetica');
+    let nameY = yPos + 35;
+    doc.text(customer.name_en || '', 50, nameY);
+
+    if (customer.name_ar) {
+      doc.text(customer.name_ar, 50, nameY + 15);
+      nameY += 15;
+    }
+
+    if (customer.email) {
+      doc.fontSize(9);
+      doc.text(customer.email, 50, nameY + 18);
+    }
+
+    if (customer.phone) {
+      doc.text(customer.phone, 50, nameY + 31);
+    }
+  }
+
+  /**
+   * Draw the lines table of a quotation or purchase order
+   */
+  private drawLineItemsTable(doc: any, lines: LineItem[], currency: string): void {
+    const tableTop = 340;
+    const leftMargin = 50;
+    const columns = [
+      { en: 'Description', ar: 'الوصف', width: 200 },
+      { en: 'Qty', ar: 'الكمية', width: 60 },
+      { en: 'Unit Price', ar: 'سعر الوحدة', width: 80 },
+      { en: 'Discount %', ar: 'خصم %', width: 60 },
+      { en: 'Tax %', ar: 'ضريبة %', width: 60 },
+      { en: 'Total', ar: 'المجموع', width: 80 },
+    ];
+
+    // Table header
+    doc.fontSize(9).font('Helvetica-Bold');
+    doc.rect(leftMargin, tableTop, 500, 25).fillAndStroke('#f0f0f0', '#000000');
+
+    let xPos = leftMargin + 5;
+    columns.forEach((column) => {
+      doc.text(column.en, xPos, tableTop + 8);
+      doc.text(column.ar, xPos, tableTop + 16);
+      xPos += column.width;
+    });
+
+    // Table rows
+    doc.font('Helvetica');
+    let yPos = tableTop + 25;
+
+    lines.forEach((line) => {
+      doc.rect(leftMargin, yPos, 500, 40).stroke();
+
+      const description = line.description_ar && line.description_ar !== line.description
+        ? `${line.description}\n${line.description_ar}`
+        : line.description;
+      const values = [
+        line.quantity.toString(),
+        this.formatCurrency(line.unit_price, currency),
+        `${line.discount_percentage}%`,
+        `${line.tax_percentage}%`,
+        this.formatCurrency(line.line_total, currency),
+      ];
+
+      xPos = leftMargin + 5;
+      doc.fontSize(8).text(description, xPos, yPos + 5, { width: columns[0].width - 10 });
+      xPos += columns[0].width;
+
+      doc.fontSize(9);
+      values.forEach((value, index) => {
+        doc.text(value, xPos, yPos + 12);
+        xPos += columns[index + 1].width;
+      });
+
+      yPos += 40;
+
+      // Add new page if needed
+      if (yPos > 700) {
+        doc.addPage();
+        yPos = 50;
+      }
+    });
+
+    doc.y = yPos;
+  }
+
+  /**
+   * Draw the totals section of a quotation or purchase order
+   */
+  private drawLineItemTotals(doc: any, totals: LineItemTotals): void {
+    const totalsX = 350;
+    const labelWidth = 150;
+    const valueWidth = 100;
+    const lineHeight = 25;
+    let yPos = doc.y + 20;
+
+    if (yPos > 600) {
+      doc.addPage();
+      yPos = 50;
+    }
+
+    const rows = [
+      { en: 'Subtotal:', ar: 'المجموع الفرعي:', amount: totals.subtotal },
+      { en: 'Discount:', ar: 'الخصم:', amount: -totals.discount_amount },
+      { en: 'Taxable Amount:', ar: 'المبلغ الخاضع للضريبة:', amount: totals.taxable_amount },
+      { en: 'VAT:', ar: 'ضريبة القيمة المضافة:', amount: totals.tax_amount },
+    ].filter((row) => row.amount !== 0 || row.en === 'Subtotal:');
+
+    doc.fontSize(9).font('Helvetica');
+    rows.forEach((row) => {
+      doc.rect(totalsX, yPos, 250, lineHeight).stroke();
+      doc.text(row.en, totalsX + 5, yPos + 8);
+      doc.text(row.ar, totalsX + 5, yPos + 16);
+      const amount = this.formatCurrency(Math.abs(row.amount), totals.currency);
+      doc.text(row.amount < 0 ? `(${amount})` : amount, totalsX + labelWidth, yPos + 8, {
+        align: 'right',
+        width: valueWidth,
+      });
+      yPos += lineHeight;
+    });
+
+    doc.font('Helvetica-Bold');
+    doc.rect(totalsX, yPos, 250, lineHeight + 5).fillAndStroke('#e8e8e8', '#000000');
+    doc.fontSize(11).text('Total:', totalsX + 5, yPos + 10);
+    doc.fontSize(9).text('الإجمالي:', totalsX + 5, yPos + 20);
+    doc.fontSize(11).text(
+      this.formatCurrency(totals.total_amount, totals.currency),
+      totalsX + labelWidth,
+      yPos + 10,
+      { align: 'right', width: valueWidth },
+    );
+
+    doc.y = yPos + lineHeight + 15;
+  }
+
+  /**
+   * Draw quotation footer section
+   */
+  private drawQuotationFooter(doc: any, quotation: QuotationData): void {
+    const footerY = doc.page.height - 80;
+
+    doc.moveTo(50, footerY).lineTo(550, footerY).stroke();
+
+    doc.fontSize(8).font('Helvetica');
+    doc.text(`This quotation is valid until ${this.formatDate(quotation.valid_until)}.`, 50, footerY + 15);
+    doc.text(`هذا العرض صالح حتى ${this.formatDate(quotation.valid_until)}.`, 50, footerY + 25);
+    doc.text('Prices are subject to change after the validity date.', 50, footerY + 35);
+
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      doc.fontSize(8).text(`Page ${i + 1} of ${range.count}`, 50, doc.page.height - 30);
+    }
+  }
+
+  /**
+   * Generate the actual Purchase Order PDF document
+   */
+  private async generatePurchaseOrderPdfDocument(
+    purchaseOrder: PurchaseOrderData,
+    options: PdfOptions = {},
+  ): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      try {
+        const doc = new PDFDocument({
+          size: 'A4',
+          margins: {
+            top: options.marginTop || 50,
+            bottom: options.marginBottom || 50,
+            left: options.marginLeft || 50,
+            right: options.marginRight || 50,
+          },
+          bufferPages: true,
+        });
+
+        const chunks: Buffer[] = [];
+        doc.on('data', (chunk) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+
+        // Company header (shared with invoices)
+        this.drawCompanyHeader(doc, purchaseOrder);
+
+        // Purchase order title, number and delivery date
+        this.drawPurchaseOrderTitle(doc, purchaseOrder);
+
+        // Vendor info
+        this.drawPurchaseOrderVendorInfo(doc, purchaseOrder);
+
+        // Purchase order lines table
+        this.drawLineItemsTable(doc, purchaseOrder.purchase_order_lines || [], purchaseOrder.currency);
+
+        // Totals section
+        this.drawLineItemTotals(doc, purchaseOrder);
+
+        // Notes
+        if (purchaseOrder.notes) {
+          doc.moveDown(2);
+          this.drawNotes(doc, purchaseOrder.notes, options);
+        }
+
+        // Footer
+        this.drawPurchaseOrderFooter(doc, purchaseOrder);
+
+        doc.end();
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  /**
+   * Draw purchase order title section
+   */
+  private drawPurchaseOrderTitle(doc: any, purchaseOrder: PurchaseOrderData): void {
+    doc.fontSize(24).font('Helvetica-Bold');
+    doc.text('PURCHASE ORDER', 300, 50, { align: 'right', width: 400 });
+
+    doc.fontSize(20).font('Helvetica');
+    doc.text('أمر شراء', 400, 80, { align: 'right', width: 300 });
+
+    doc.fontSize(11).font('Helvetica-Bold');
+    doc.text(`PO No: ${purchaseOrder.po_number}`, 400, 120, { align: 'right', width: 300 });
+    doc.text(`رقم الأمر: ${purchaseOrder.po_number}`, 400, 133, { align: 'right', width: 300 });
+
+    doc.font('Helvetica');
+    doc.text(`Date: ${this.formatDate(purchaseOrder.order_date)}`, 400, 150, { align: 'right', width: 300 });
+    doc.text(`التاريخ: ${this.formatDate(purchaseOrder.order_date)}`, 400, 163, { align: 'right', width: 300 });
+
+    if (purchaseOrder.expected_delivery_date) {
+      doc.text(`Delivery By: ${this.formatDate(purchaseOrder.expected_delivery_date)}`, 400, 178, {
+        align: 'right',
+        width: 300,
+      });
+      doc.text(`التسليم قبل: ${this.formatDate(purchaseOrder.expected_delivery_date)}`, 400, 191, {
+        align: 'right',
+        width: 300,
+      });
+    }
+
+    if (purchaseOrder.reference_number) {
+      doc.text(`Reference: ${purchaseOrder.reference_number}`, 400, 206, { align: 'right', width: 300 });
+    }
+  }
+
+  /**
+   * Draw purchase order vendor information
+   */
+  private drawPurchaseOrderVendorInfo(doc: any, purchaseOrder: PurchaseOrderData): void {
+    const vendor = purchaseOrder.vendor;
+    if (!vendor) return;
+
+    const yPos = 230;
+
+    doc.fontSize(12).font('Helvetica-Bold');
+    doc.text('Vendor:', 50, yPos);
+    doc.text('المورد:', 50, yPos + 15);
+
+    doc.fontSize(11).font('Helvetica');
+    let nameY = yPos + 35;
+    doc.text(vendor.name_en || '', 50, nameY);
+
+    if (vendor.name_ar) {
+      doc.text(vendor.name_ar, 50, nameY + 15);
+      nameY += 15;
+    }
+
+    if (vendor.email) {
+      doc.fontSize(9);
+      doc.text(vendor.email, 50, nameY + 18);
+    }
+
+    if (vendor.phone) {
+      doc.text(vendor.phone, 50, nameY + 31);
+    }
+  }
+
+  /**
+   * Draw purchase order footer section
+   */
+  private drawPurchaseOrderFooter(doc: any, purchaseOrder: PurchaseOrderData): void {
+    const footerY = doc.page.height - 80;
+
+    doc.moveTo(50, footerY).lineTo(550, footerY).stroke();
+
+    doc.fontSize(8).font('Helvetica');
+    doc.text(`Please quote ${purchaseOrder.po_number} on all deliveries and invoices.`, 50, footerY + 15);
+    doc.text(`يرجى ذكر رقم الأمر ${purchaseOrder.po_number} في جميع الشحنات والفواتير.`, 50, footerY + 25);
+
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      doc.fontSize(8).text(`Page ${i + 1} of ${range.count}`, 50, doc.page.height - 30);
+    }
+  }
+
+  /**
+   * Generate the aging report document: one row per party, with its
+   * invoices beneath it when the report includes them
+   */
+  private async generateAgingReportPdfDocument(
+    report: AgingReport,
+    tenant: { name_en: string; name_ar: string; vat_number?: string },
+    options: PdfOptions = {},
+  ): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      try {
+        const doc = new PDFDocument({
+          size: 'A4',
+          layout: 'landscape',
+          margins: {
+            top: options.marginTop || 40,
+            bottom: options.marginBottom || 40,
+            left: options.marginLeft || 40,
+            right: options.marginRight || 40,
+          },
+          bufferPages: true,
+        });
+
+        const chunks: Buffer[] = [];
+        doc.on('data', (chunk) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+
+        const isReceivable = report.party_type === 'customer';
+
+        if (tenant) {
+          doc.fontSize(16).font('Helvetica-Bold');
+          doc.text(tenant.name_en, 40, 40);
+          doc.fontSize(12).font('Helvetica');
+          doc.text(tenant.name_ar, 40, 60);
+        }
+
+        doc.fontSize(18).font('Helvetica-Bold');
+        doc.text(isReceivable ? 'ACCOUNTS RECEIVABLE AGING' : 'ACCOUNTS PAYABLE AGING', 40, 90);
+        doc.fontSize(14).font('Helvetica');
+        doc.text(isReceivable ? 'أعمار الذمم المدينة' : 'أعمار الذمم الدائنة', 40, 112);
+
+        doc.fontSize(10);
+        doc.text(
+          `As of: ${this.formatDate(report.as_of_date)}   Aged by: ${report.aging_basis === 'due_date' ? 'Due date' : 'Invoice date'}   Currency: ${report.currency}`,
+          40,
+          135,
+        );
+
+        // Code and name, then one column per bucket and the total
+        const nameWidth = 200;
+        const amountWidth = (doc.page.width - 80 - 60 - nameWidth) / (report.buckets.length + 1);
+        const columnX = (index: number) => 40 + 60 + nameWidth + index * amountWidth;
+        const bottom = doc.page.height - 60;
+
+        const drawHeader = (y: number) => {
+          doc.rect(40, y, doc.page.width - 80, 20).fillAndStroke('#f0f0f0', '#000000');
+          doc.fillColor('#000000').fontSize(8).font('Helvetica-Bold');
+          doc.text('Code', 45, y + 6);
+          doc.text(isReceivable ? 'Customer / العميل' : 'Vendor / المورد', 100, y + 6);
+          report.buckets.forEach((bucket, index) => {
+            doc.text(bucket.label, columnX(index), y + 6, { width: amountWidth - 5, align: 'right' });
+          });
+          doc.text('Total', columnX(report.buckets.length), y + 6, { width: amountWidth - 5, align: 'right' });
+          return y + 24;
+        };
+
+        const drawAmounts = (y: number, balances: Record<string, number>, total: number) => {
+          report.buckets.forEach((bucket, index) => {
+            doc.text(this.formatAmount(balances[bucket.key] || 0), columnX(index), y, {
+              width: amountWidth - 5,
+              align: 'right',
+            });
+          });
+          doc.text(this.formatAmount(total), columnX(report.buckets.length), y, {
+            width: amountWidth - 5,
+            align: 'right',
+          });
+        };
+
+        let y = drawHeader(155);
+
+        const nextRow = (height: number) => {
+          if (y + height > bottom) {
+            doc.addPage();
+            y = drawHeader(40);
+          }
+        };
+
+        for (const party of report.parties) {
+          nextRow(14);
+          doc.fontSize(8).font('Helvetica-Bold');
+          doc.text(party.code, 45, y, { width: 55 });
+          doc.text(party.name_en || party.name_ar, 100, y, { width: nameWidth - 5, lineBreak: false, ellipsis: true });
+          drawAmounts(y, party.balances, party.total);
+          y += 14;
+
+          for (const invoice of party.invoices || []) {
+            nextRow(12);
+            doc.fontSize(7).font('Helvetica');
+            doc.text(
+              `${invoice.invoice_number}  ${this.formatDate(invoice.invoice_date)}  ${invoice.days} days  ${this.formatCurrency(invoice.document_balance, invoice.currency)}`,
+              110,
+              y,
+              { width: nameWidth + 40, lineBreak: false, ellipsis: true },
+            );
+            drawAmounts(y, { [invoice.bucket]: invoice.balance }, invoice.balance);
+            y += 12;
+          }
+        }
+
+        nextRow(20);
+        doc.moveTo(40, y).lineTo(doc.page.width - 40, y).stroke();
+        doc.fontSize(9).font('Helvetica-Bold');
+        doc.text('TOTAL / الإجمالي', 100, y + 5);
+        drawAmounts(y + 5, report.totals.balances, report.totals.total);
+
+        doc.end();
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  /**
+   * Helper: Format an amount without a currency code
+   */
+  private formatAmount(amount: number): string {
+    return amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  }
+
   /**
    * Helper: Format currency
    */
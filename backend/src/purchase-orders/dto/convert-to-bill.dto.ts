@@ -0,0 +1,55 @@
+import {
+  IsOptional,
+  IsUUID,
+  IsNumber,
+  IsDateString,
+  IsArray,
+  ArrayNotEmpty,
+  ValidateNested,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class BillLineDto {
+  @ApiProperty({ description: 'Purchase order line to bill' })
+  @IsUUID()
+  line_id: string;
+
+  @ApiProperty({ description: 'Quantity to bill', example: 4 })
+  @IsNumber()
+  @Min(0.01)
+  quantity: number;
+}
+
+export class ConvertToBillDto {
+  @ApiProperty({
+    description: 'Bill date; defaults to today',
+    required: false,
+    example: '2026-10-19',
+  })
+  @IsDateString()
+  @IsOptional()
+  date?: string;
+
+  @ApiProperty({
+    description: "Due date; defaults to the vendor's payment terms",
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  due_date?: string;
+
+  @ApiProperty({
+    type: [BillLineDto],
+    required: false,
+    description:
+      'Lines and quantities to bill; defaults to everything not yet billed',
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => BillLineDto)
+  lines?: BillLineDto[];
+}
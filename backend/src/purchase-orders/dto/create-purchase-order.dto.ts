@@ -0,0 +1,66 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsUUID,
+  IsDateString,
+  IsArray,
+  ArrayNotEmpty,
+  ValidateNested,
+  Length,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { PurchaseOrderItemDto } from './purchase-order-item.dto';
+
+export class CreatePurchaseOrderDto {
+  @ApiProperty({ description: 'Vendor the order is placed with' })
+  @IsUUID()
+  @IsNotEmpty()
+  vendor_id: string;
+
+  @ApiProperty({ description: 'Order date', example: '2026-10-19' })
+  @IsDateString()
+  date: string;
+
+  @ApiProperty({
+    description: 'Date the vendor is expected to deliver',
+    required: false,
+    example: '2026-11-02',
+  })
+  @IsDateString()
+  @IsOptional()
+  expected_delivery_date?: string;
+
+  @ApiProperty({
+    description: 'Currency code',
+    required: false,
+    example: 'QAR',
+  })
+  @IsString()
+  @IsOptional()
+  @Length(3, 3)
+  currency?: string;
+
+  @ApiProperty({ description: 'Internal or vendor reference', required: false })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  reference_number?: string;
+
+  @ApiProperty({
+    description: 'Notes printed on the purchase order',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  notes?: string;
+
+  @ApiProperty({ type: [PurchaseOrderItemDto] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => PurchaseOrderItemDto)
+  items: PurchaseOrderItemDto[];
+}
@@ -0,0 +1,63 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsNumber,
+  IsUUID,
+  Min,
+  Max,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class PurchaseOrderItemDto {
+  @ApiProperty({
+    description:
+      'ID of an existing line (ignored; lines are replaced on update)',
+    required: false,
+  })
+  @IsUUID()
+  @IsOptional()
+  id?: string;
+
+  @ApiProperty({
+    description: 'Line description',
+    example: 'Office chairs',
+  })
+  @IsString()
+  @IsNotEmpty()
+  description: string;
+
+  @ApiProperty({ description: 'Arabic description', required: false })
+  @IsString()
+  @IsOptional()
+  description_ar?: string;
+
+  @ApiProperty({ description: 'English description', required: false })
+  @IsString()
+  @IsOptional()
+  description_en?: string;
+
+  @ApiProperty({ description: 'Quantity ordered', example: 10 })
+  @IsNumber()
+  @Min(0.01)
+  quantity: number;
+
+  @ApiProperty({ description: 'Unit price', example: 250 })
+  @IsNumber()
+  @Min(0)
+  unit_price: number;
+
+  @ApiProperty({ description: 'Discount percentage of the line', example: 0 })
+  @IsNumber()
+  @IsOptional()
+  @Min(0)
+  @Max(100)
+  discount?: number;
+
+  @ApiProperty({ description: 'VAT percentage of the line', example: 5 })
+  @IsNumber()
+  @IsOptional()
+  @Min(0)
+  @Max(100)
+  tax_rate?: number;
+}
@@ -0,0 +1,6 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreatePurchaseOrderDto } from './create-purchase-order.dto';
+
+export class UpdatePurchaseOrderDto extends PartialType(
+  CreatePurchaseOrderDto,
+) {}
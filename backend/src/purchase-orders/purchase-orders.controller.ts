@@ -0,0 +1,229 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  applyDecorators,
+  Res,
+  StreamableFile,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { type Response } from 'express';
+import { PurchaseOrdersService } from './purchase-orders.service';
+import { PdfService } from '../pdf/pdf.service';
+import { CreatePurchaseOrderDto } from './dto/create-purchase-order.dto';
+import { UpdatePurchaseOrderDto } from './dto/update-purchase-order.dto';
+import { ConvertToBillDto } from './dto/convert-to-bill.dto';
+import { TenantContextGuard } from '../common/guards/tenant-context.guard';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import { TenantContext } from '../common/decorators/tenant-context.decorator';
+
+// Custom decorator to apply guards to specific routes
+function Protected() {
+  return applyDecorators(
+    ApiBearerAuth(),
+    UseGuards(TenantContextGuard, PermissionsGuard),
+  );
+}
+
+@ApiTags('purchase-orders')
+@Controller('purchases/purchase-orders')
+export class PurchaseOrdersController {
+  constructor(
+    private purchaseOrdersService: PurchaseOrdersService,
+    private pdfService: PdfService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get all purchase orders' })
+  @ApiQuery({ name: 'status', required: false })
+  @ApiQuery({ name: 'vendor_id', required: false })
+  @ApiQuery({ name: 'start_date', required: false })
+  @ApiQuery({ name: 'end_date', required: false })
+  @ApiQuery({ name: 'search', required: false })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @Protected()
+  @RequirePermissions({ module: 'purchase_orders', action: 'view' })
+  findAll(
+    @TenantContext('tenantId') tenantId: string,
+    @Query('status') status?: string,
+    @Query('vendor_id') vendorId?: string,
+    @Query('start_date') startDate?: string,
+    @Query('end_date') endDate?: string,
+    @Query('search') search?: string,
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+  ) {
+    return this.purchaseOrdersService.findAll(tenantId, {
+      status,
+      vendorId,
+      startDate,
+      endDate,
+      search,
+      page,
+      limit,
+    });
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a purchase order by ID' })
+  @Protected()
+  @RequirePermissions({ module: 'purchase_orders', action: 'view' })
+  findOne(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.purchaseOrdersService.findOne(id, tenantId);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a new purchase order' })
+  @Protected()
+  @RequirePermissions({ module: 'purchase_orders', action: 'create' })
+  create(
+    @Body() createDto: CreatePurchaseOrderDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId?: string,
+    @TenantContext('branchId') branchId?: string,
+  ) {
+    return this.purchaseOrdersService.create(
+      createDto,
+      tenantId,
+      userId,
+      branchId,
+    );
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a draft purchase order' })
+  @Protected()
+  @RequirePermissions({ module: 'purchase_orders', action: 'edit' })
+  update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdatePurchaseOrderDto,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.purchaseOrdersService.update(id, updateDto, tenantId);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a draft purchase order' })
+  @Protected()
+  @RequirePermissions({ module: 'purchase_orders', action: 'delete' })
+  remove(@Param('id') id: string, @TenantContext('tenantId') tenantId: string) {
+    return this.purchaseOrdersService.remove(id, tenantId);
+  }
+
+  @Post(':id/approve')
+  @ApiOperation({ summary: 'Approve a draft purchase order' })
+  @Protected()
+  @RequirePermissions({ module: 'purchase_orders', action: 'approve' })
+  approve(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId?: string,
+  ) {
+    return this.purchaseOrdersService.approve(id, tenantId, userId);
+  }
+
+  @Post(':id/send')
+  @ApiOperation({ summary: 'Email the purchase order PDF to the vendor' })
+  @ApiQuery({ name: 'language', required: false, enum: ['en', 'ar'] })
+  @Protected()
+  @RequirePermissions({ module: 'purchase_orders', action: 'edit' })
+  send(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId?: string,
+    @Query('language') language?: 'ar' | 'en',
+  ) {
+    return this.purchaseOrdersService.send(
+      id,
+      tenantId,
+      userId,
+      language || 'en',
+    );
+  }
+
+  @Post(':id/cancel')
+  @ApiOperation({ summary: 'Cancel a purchase order that has not been billed' })
+  @Protected()
+  @RequirePermissions({ module: 'purchase_orders', action: 'edit' })
+  cancel(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId?: string,
+  ) {
+    return this.purchaseOrdersService.cancel(id, tenantId, userId);
+  }
+
+  @Post(':id/convert-to-bill')
+  @ApiOperation({
+    summary:
+      'Create a draft purchase invoice for all or part of what is left to bill',
+  })
+  @Protected()
+  @RequirePermissions({ module: 'purchase_orders', action: 'edit' })
+  convertToBill(
+    @Param('id') id: string,
+    @Body() convertDto: ConvertToBillDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId?: string,
+    @TenantContext('branchId') branchId?: string,
+  ) {
+    return this.purchaseOrdersService.convertToBill(
+      id,
+      convertDto,
+      tenantId,
+      userId,
+      branchId,
+    );
+  }
+
+  @Get(':id/export/pdf')
+  @ApiOperation({ summary: 'Download purchase order PDF' })
+  @Protected()
+  @RequirePermissions({ module: 'purchase_orders', action: 'view' })
+  async getPdf(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+    @Query('language') language?: 'ar' | 'en' | 'both',
+    @Res({ passthrough: true }) res?: Response,
+  ) {
+    try {
+      const pdfBuffer = await this.pdfService.generatePurchaseOrderPdf(
+        id,
+        tenantId,
+        { language: language || 'both' },
+      );
+
+      if (res) {
+        res.set({
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename=purchase-order-${id}.pdf`,
+          'Content-Length': pdfBuffer.length.toString(),
+        });
+      }
+
+      return new StreamableFile(pdfBuffer);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new NotFoundException('Failed to generate purchase order PDF');
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { PurchaseOrdersService } from './purchase-orders.service';
+import { PurchaseOrdersController } from './purchase-orders.controller';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { InvoicesModule } from '../invoices/invoices.module';
+import { PdfModule } from '../pdf/pdf.module';
+import { EmailModule } from '../email/email.module';
+import { CurrenciesModule } from '../currencies/currencies.module';
+
+@Module({
+  imports: [
+    SupabaseModule,
+    InvoicesModule,
+    PdfModule,
+    EmailModule,
+    CurrenciesModule,
+  ],
+  controllers: [PurchaseOrdersController],
+  providers: [PurchaseOrdersService],
+  exports: [PurchaseOrdersService],
+})
+export class PurchaseOrdersModule {}
@@ -0,0 +1,366 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { PurchaseOrdersService } from './purchase-orders.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { InvoicesService } from '../invoices/invoices.service';
+import { PdfService } from '../pdf/pdf.service';
+import { EmailService } from '../email/email.service';
+import { ExchangeRatesService } from '../currencies/exchange-rates.service';
+import { queryResult } from '../../test/utils/query-result';
+
+describe('PurchaseOrdersService', () => {
+  let service: PurchaseOrdersService;
+  let tables: Record<string, any[]>;
+  let mockSupabaseClient: any;
+  let invoicesService: { create: jest.Mock };
+  let emailService: { sendPurchaseOrderEmail: jest.Mock };
+  let exchangeRatesService: { getRate: jest.Mock };
+
+  const mockTenantId = 'test-tenant-id';
+  const mockUserId = 'test-user-id';
+
+  // 10 chairs of which 4 are billed, and 2 desks not billed
+  const sentOrder = {
+    id: 'po-1',
+    po_number: 'PO-2026-000001',
+    vendor_id: 'vendor-1',
+    vendor: {
+      id: 'vendor-1',
+      name_en: 'Office Supply Co',
+      email: 'sales@osc.test',
+    },
+    order_date: '2026-10-01',
+    currency: 'QAR',
+    status: 'partially_billed',
+    total_amount: 4725,
+    purchase_order_lines: [
+      {
+        id: 'line-2',
+        line_number: 2,
+        description: 'Desk',
+        quantity: 2,
+        unit_price: 1000,
+        discount_percentage: 0,
+        tax_percentage: 0,
+        billed_quantity: 0,
+      },
+      {
+        id: 'line-1',
+        line_number: 1,
+        description: 'Chair',
+        quantity: 10,
+        unit_price: 250,
+        discount_percentage: 10,
+        tax_percentage: 5,
+        billed_quantity: 4,
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    tables = {};
+    mockSupabaseClient = {
+      from: jest.fn((table: string) => tables[table].shift()),
+      rpc: jest.fn(),
+    };
+    invoicesService = { create: jest.fn() };
+    emailService = { sendPurchaseOrderEmail: jest.fn() };
+    exchangeRatesService = {
+      getRate: jest.fn().mockResolvedValue({ currency: 'QAR', rate: 1 }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PurchaseOrdersService,
+        {
+          provide: SupabaseService,
+          useValue: {
+            getClient: jest.fn().mockReturnValue(mockSupabaseClient),
+          },
+        },
+        { provide: InvoicesService, useValue: invoicesService },
+        {
+          provide: PdfService,
+          useValue: {
+            generatePurchaseOrderPdf: jest
+              .fn()
+              .mockResolvedValue(Buffer.from('pdf')),
+          },
+        },
+        { provide: EmailService, useValue: emailService },
+        { provide: ExchangeRatesService, useValue: exchangeRatesService },
+      ],
+    }).compile();
+
+    service = module.get<PurchaseOrdersService>(PurchaseOrdersService);
+  });
+
+  describe('create', () => {
+    it('should number the purchase order and calculate line and header totals', async () => {
+      const insert = queryResult({ data: { id: 'po-1' }, error: null });
+      const insertLines = queryResult({ data: null, error: null });
+      tables.vendors = [queryResult({ data: { id: 'vendor-1' }, error: null })];
+      tables.purchase_orders = [
+        insert,
+        queryResult({ data: sentOrder, error: null }),
+      ];
+      tables.purchase_order_lines = [insertLines];
+      mockSupabaseClient.rpc.mockResolvedValue({
+        data: 'PO-2026-000001',
+        error: null,
+      });
+
+      await service.create(
+        {
+          vendor_id: 'vendor-1',
+          date: '2026-10-01T00:00:00.000Z',
+          expected_delivery_date: '2026-10-15',
+          items: [
+            {
+              description: 'Chair',
+              quantity: 10,
+              unit_price: 250,
+              discount: 10,
+              tax_rate: 5,
+            },
+          ],
+        },
+        mockTenantId,
+        mockUserId,
+      );
+
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        'generate_purchase_order_number',
+        { p_tenant_id: mockTenantId },
+      );
+      expect(insert.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          po_number: 'PO-2026-000001',
+          order_date: '2026-10-01',
+          expected_delivery_date: '2026-10-15',
+          status: 'draft',
+          subtotal: 2500,
+          discount_amount: 250,
+          taxable_amount: 2250,
+          tax_amount: 112.5,
+          total_amount: 2362.5,
+        }),
+      );
+      expect(insertLines.insert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          purchase_order_id: 'po-1',
+          line_number: 1,
+          line_total: 2362.5,
+        }),
+      ]);
+    });
+
+    it('should reject a delivery date before the order date', async () => {
+      await expect(
+        service.create(
+          {
+            vendor_id: 'vendor-1',
+            date: '2026-10-10',
+            expected_delivery_date: '2026-10-01',
+            items: [{ description: 'Chair', quantity: 1, unit_price: 1 }],
+          },
+          mockTenantId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('send', () => {
+    it('should not send a purchase order that is not approved', async () => {
+      tables.purchase_orders = [
+        queryResult({ data: { ...sentOrder, status: 'draft' }, error: null }),
+      ];
+
+      await expect(
+        service.send('po-1', mockTenantId, mockUserId),
+      ).rejects.toThrow(
+        'The purchase order must be approved before it is sent',
+      );
+      expect(emailService.sendPurchaseOrderEmail).not.toHaveBeenCalled();
+    });
+
+    it('should email the PDF to the vendor and mark the order sent', async () => {
+      const markSent = queryResult({ data: [{ id: 'po-1' }], error: null });
+      tables.purchase_orders = [
+        queryResult({
+          data: { ...sentOrder, status: 'approved' },
+          error: null,
+        }),
+        markSent,
+        queryResult({ data: { ...sentOrder, status: 'sent' }, error: null }),
+      ];
+      emailService.sendPurchaseOrderEmail.mockResolvedValue({ success: true });
+
+      await service.send('po-1', mockTenantId, mockUserId);
+
+      expect(emailService.sendPurchaseOrderEmail).toHaveBeenCalledWith(
+        'po-1',
+        'sales@osc.test',
+        mockTenantId,
+        expect.objectContaining({ poNumber: 'PO-2026-000001' }),
+        'en',
+        Buffer.from('pdf'),
+      );
+      expect(markSent.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'sent', sent_by: mockUserId }),
+      );
+      expect(markSent.in).toHaveBeenCalledWith('status', ['approved', 'sent']);
+    });
+  });
+
+  describe('convertToBill', () => {
+    beforeEach(() => {
+      tables.purchase_orders = [
+        queryResult({ data: sentOrder, error: null }),
+        queryResult({ data: sentOrder, error: null }),
+      ];
+      tables.vat_codes = [
+        queryResult({
+          data: [{ id: 'vat-in-5', name_en: 'Input VAT 5%', rate: 5 }],
+          error: null,
+        }),
+      ];
+      invoicesService.create.mockResolvedValue({
+        id: 'bill-1',
+        invoice_number: 'BILL-2026-000001',
+      });
+    });
+
+    it('should bill everything not yet billed and link the bill lines to the order lines', async () => {
+      const result = await service.convertToBill(
+        'po-1',
+        {},
+        mockTenantId,
+        mockUserId,
+      );
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          invoiceId: 'bill-1',
+          invoiceNumber: 'BILL-2026-000001',
+          poNumber: 'PO-2026-000001',
+        }),
+      );
+      expect(invoicesService.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          invoiceType: 'purchase',
+          partyType: 'vendor',
+          partyId: 'vendor-1',
+          totalAmount: 3417.5,
+          lines: [
+            expect.objectContaining({
+              lineNumber: 1,
+              descriptionEn: 'Chair',
+              quantity: 6,
+              discountAmount: 150,
+              taxCodeId: 'vat-in-5',
+              lineTotal: 1417.5,
+            }),
+            expect.objectContaining({
+              lineNumber: 2,
+              descriptionEn: 'Desk',
+              quantity: 2,
+              lineTotal: 2000,
+            }),
+          ],
+          taxes: [
+            {
+              taxCodeId: 'vat-in-5',
+              taxType: 'input',
+              taxName: 'Input VAT 5%',
+              taxPercentage: 5,
+              taxableAmount: 1350,
+              taxAmount: 67.5,
+            },
+          ],
+        }),
+        mockTenantId,
+        mockUserId,
+        undefined,
+        {
+          purchaseOrderId: 'po-1',
+          purchaseOrderLineIds: { 1: 'line-1', 2: 'line-2' },
+        },
+      );
+    });
+
+    it('should bill part of a line', async () => {
+      await service.convertToBill(
+        'po-1',
+        { lines: [{ line_id: 'line-1', quantity: 2 }] },
+        mockTenantId,
+        mockUserId,
+      );
+
+      expect(invoicesService.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          lines: [expect.objectContaining({ quantity: 2, lineTotal: 472.5 })],
+        }),
+        mockTenantId,
+        mockUserId,
+        undefined,
+        { purchaseOrderId: 'po-1', purchaseOrderLineIds: { 1: 'line-1' } },
+      );
+    });
+
+    it('should book a foreign-currency bill at the rate of the bill date', async () => {
+      tables.purchase_orders = [
+        queryResult({ data: { ...sentOrder, currency: 'USD' }, error: null }),
+        queryResult({ data: sentOrder, error: null }),
+      ];
+      exchangeRatesService.getRate.mockResolvedValue({
+        currency: 'USD',
+        rate: 3.64,
+      });
+
+      await service.convertToBill(
+        'po-1',
+        { date: '2026-10-15' },
+        mockTenantId,
+        mockUserId,
+      );
+
+      expect(exchangeRatesService.getRate).toHaveBeenCalledWith(
+        mockTenantId,
+        'USD',
+        new Date('2026-10-15'),
+      );
+      expect(invoicesService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ currency: 'USD', exchangeRate: 3.64 }),
+        mockTenantId,
+        mockUserId,
+        undefined,
+        expect.anything(),
+      );
+    });
+
+    it('should not bill more than is left on a line', async () => {
+      await expect(
+        service.convertToBill(
+          'po-1',
+          { lines: [{ line_id: 'line-1', quantity: 7 }] },
+          mockTenantId,
+        ),
+      ).rejects.toThrow(
+        'Cannot bill 7 of line 1: only 6 of 10 ordered remain to be billed',
+      );
+      expect(invoicesService.create).not.toHaveBeenCalled();
+    });
+
+    it('should not bill a closed purchase order', async () => {
+      tables.purchase_orders = [
+        queryResult({ data: { ...sentOrder, status: 'closed' }, error: null }),
+      ];
+
+      await expect(
+        service.convertToBill('po-1', {}, mockTenantId),
+      ).rejects.toThrow('The purchase order has already been fully billed');
+      expect(invoicesService.create).not.toHaveBeenCalled();
+    });
+  });
+});
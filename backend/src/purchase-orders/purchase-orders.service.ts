@@ -0,0 +1,758 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { InvoicesService } from '../invoices/invoices.service';
+import { PdfService } from '../pdf/pdf.service';
+import { EmailService } from '../email/email.service';
+import { ExchangeRatesService } from '../currencies/exchange-rates.service';
+import { CreatePurchaseOrderDto } from './dto/create-purchase-order.dto';
+import { UpdatePurchaseOrderDto } from './dto/update-purchase-order.dto';
+import { PurchaseOrderItemDto } from './dto/purchase-order-item.dto';
+import { ConvertToBillDto } from './dto/convert-to-bill.dto';
+import { InvoiceLineDto } from '../invoices/dto/invoice-line.dto';
+import { InvoiceTaxDto } from '../invoices/dto/invoice-tax.dto';
+
+export interface PurchaseOrderFilters {
+  status?: string;
+  vendorId?: string;
+  startDate?: string;
+  endDate?: string;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+const PURCHASE_ORDER_SELECT = `
+  *,
+  purchase_order_lines(*),
+  vendor:vendors(id, name_en, name_ar, email, phone),
+  bills:invoices(id, invoice_number, invoice_date, status, total_amount)
+`;
+
+// Purchase orders that can still be billed
+const BILLABLE_STATUSES = ['approved', 'sent', 'partially_billed'];
+
+/**
+ * Purchase orders to vendors
+ *
+ * A purchase order moves draft -> approved -> sent and is billed in one or
+ * more purchase invoices created from it. The database keeps the quantity
+ * billed on each line from the bills' lines: the order becomes
+ * partially_billed, then closed once every line is fully billed. An approved
+ * or sent order with nothing billed can be cancelled.
+ */
+@Injectable()
+export class PurchaseOrdersService {
+  constructor(
+    private supabaseService: SupabaseService,
+    private invoicesService: InvoicesService,
+    private pdfService: PdfService,
+    private emailService: EmailService,
+    private exchangeRatesService: ExchangeRatesService,
+  ) {}
+
+  async findAll(tenantId: string, filters: PurchaseOrderFilters = {}) {
+    const supabase = this.supabaseService.getClient();
+    const page = Math.max(1, Number(filters.page) || 1);
+    const limit = Math.min(100, Math.max(1, Number(filters.limit) || 20));
+
+    let query = supabase
+      .from('purchase_orders')
+      .select(PURCHASE_ORDER_SELECT, { count: 'exact' })
+      .eq('tenant_id', tenantId)
+      .order('order_date', { ascending: false })
+      .order('po_number', { ascending: false })
+      .range((page - 1) * limit, page * limit - 1);
+
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+
+    if (filters.vendorId) {
+      query = query.eq('vendor_id', filters.vendorId);
+    }
+
+    if (filters.startDate) {
+      query = query.gte('order_date', filters.startDate);
+    }
+
+    if (filters.endDate) {
+      query = query.lte('order_date', filters.endDate);
+    }
+
+    if (filters.search) {
+      const search = filters.search.replace(/[,()]/g, ' ');
+      query = query.or(
+        `po_number.ilike.%${search}%,reference_number.ilike.%${search}%`,
+      );
+    }
+
+    const { data, error, count } = await query;
+
+    if (error) throw error;
+
+    const total = count || 0;
+
+    return {
+      data: (data || []).map((purchaseOrder) => this.toResponse(purchaseOrder)),
+      total,
+      page,
+      limit,
+      total_pages: Math.ceil(total / limit),
+    };
+  }
+
+  async findOne(id: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('purchase_orders')
+      .select(PURCHASE_ORDER_SELECT)
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!data) {
+      throw new NotFoundException('Purchase order not found');
+    }
+
+    return this.toResponse(data);
+  }
+
+  async create(
+    createDto: CreatePurchaseOrderDto,
+    tenantId: string,
+    userId?: string,
+    branchId?: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+    const orderDate = this.toDateString(createDto.date);
+    const expectedDeliveryDate = createDto.expected_delivery_date
+      ? this.toDateString(createDto.expected_delivery_date)
+      : null;
+
+    this.assertDeliveryDate(orderDate, expectedDeliveryDate);
+    await this.assertVendor(createDto.vendor_id, tenantId);
+
+    const { lines, totals } = this.calculateLines(createDto.items);
+
+    const { data: poNumber, error: numberError } = await supabase.rpc(
+      'generate_purchase_order_number',
+      { p_tenant_id: tenantId },
+    );
+
+    if (numberError) throw numberError;
+
+    const { data: purchaseOrder, error } = await supabase
+      .from('purchase_orders')
+      .insert({
+        tenant_id: tenantId,
+        branch_id: branchId,
+        po_number: poNumber,
+        vendor_id: createDto.vendor_id,
+        order_date: orderDate,
+        expected_delivery_date: expectedDeliveryDate,
+        currency: createDto.currency?.toUpperCase() || 'QAR',
+        reference_number: createDto.reference_number,
+        notes: createDto.notes,
+        status: 'draft',
+        created_by: userId,
+        ...totals,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await this.insertLines(purchaseOrder.id, tenantId, lines);
+
+    return this.findOne(purchaseOrder.id, tenantId);
+  }
+
+  /**
+   * Update a draft purchase order. Items, when given, replace all existing
+   * lines.
+   */
+  async update(
+    id: string,
+    updateDto: UpdatePurchaseOrderDto,
+    tenantId: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+    const purchaseOrder = await this.findOne(id, tenantId);
+
+    if (purchaseOrder.status !== 'draft') {
+      throw new BadRequestException(
+        'Only draft purchase orders can be updated',
+      );
+    }
+
+    const orderDate = updateDto.date
+      ? this.toDateString(updateDto.date)
+      : purchaseOrder.order_date;
+    const expectedDeliveryDate =
+      updateDto.expected_delivery_date !== undefined
+        ? updateDto.expected_delivery_date &&
+          this.toDateString(updateDto.expected_delivery_date)
+        : purchaseOrder.expected_delivery_date;
+
+    this.assertDeliveryDate(orderDate, expectedDeliveryDate);
+
+    const updates: Record<string, any> = {
+      order_date: orderDate,
+      expected_delivery_date: expectedDeliveryDate || null,
+    };
+
+    if (
+      updateDto.vendor_id !== undefined &&
+      updateDto.vendor_id !== purchaseOrder.vendor_id
+    ) {
+      await this.assertVendor(updateDto.vendor_id, tenantId);
+      updates.vendor_id = updateDto.vendor_id;
+    }
+    if (updateDto.currency !== undefined) {
+      updates.currency = updateDto.currency.toUpperCase();
+    }
+    if (updateDto.reference_number !== undefined) {
+      updates.reference_number = updateDto.reference_number;
+    }
+    if (updateDto.notes !== undefined) {
+      updates.notes = updateDto.notes;
+    }
+
+    let lines: Record<string, any>[] | undefined;
+    if (updateDto.items) {
+      const calculated = this.calculateLines(updateDto.items);
+      lines = calculated.lines;
+      Object.assign(updates, calculated.totals);
+    }
+
+    const { error } = await supabase
+      .from('purchase_orders')
+      .update(updates)
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .eq('status', 'draft');
+
+    if (error) throw error;
+
+    if (lines) {
+      const { error: deleteError } = await supabase
+        .from('purchase_order_lines')
+        .delete()
+        .eq('purchase_order_id', id);
+
+      if (deleteError) throw deleteError;
+
+      await this.insertLines(id, tenantId, lines);
+    }
+
+    return this.findOne(id, tenantId);
+  }
+
+  async remove(id: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+    const purchaseOrder = await this.findOne(id, tenantId);
+
+    if (purchaseOrder.status !== 'draft') {
+      throw new BadRequestException(
+        'Only draft purchase orders can be deleted',
+      );
+    }
+
+    const { error } = await supabase
+      .from('purchase_orders')
+      .delete()
+      .eq('id', id)
+      .eq('tenant_id', tenantId);
+
+    if (error) throw error;
+
+    return { success: true };
+  }
+
+  async approve(id: string, tenantId: string, userId?: string) {
+    const purchaseOrder = await this.findOne(id, tenantId);
+
+    if (purchaseOrder.status !== 'draft') {
+      throw new BadRequestException(
+        'Only draft purchase orders can be approved',
+      );
+    }
+
+    return this.transition(id, tenantId, ['draft'], {
+      status: 'approved',
+      approved_by: userId,
+      approved_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Email the purchase order PDF to the vendor. A sent order can be sent
+   * again, e.g. after it was amended by phone.
+   */
+  async send(
+    id: string,
+    tenantId: string,
+    userId?: string,
+    language: 'ar' | 'en' = 'en',
+  ) {
+    const purchaseOrder = await this.findOne(id, tenantId);
+
+    if (!['approved', 'sent'].includes(purchaseOrder.status)) {
+      throw new BadRequestException(
+        purchaseOrder.status === 'draft'
+          ? 'The purchase order must be approved before it is sent'
+          : `Cannot send a purchase order with status ${purchaseOrder.status}`,
+      );
+    }
+
+    if (!purchaseOrder.vendor?.email) {
+      throw new BadRequestException('The vendor has no email address');
+    }
+
+    const pdf = await this.pdfService.generatePurchaseOrderPdf(id, tenantId, {
+      language: 'both',
+    });
+
+    const result = await this.emailService.sendPurchaseOrderEmail(
+      id,
+      purchaseOrder.vendor.email,
+      tenantId,
+      {
+        poNumber: purchaseOrder.po_number,
+        totalAmount: `${purchaseOrder.currency} ${Number(purchaseOrder.total_amount).toFixed(2)}`,
+        orderDate: purchaseOrder.order_date,
+        expectedDeliveryDate: purchaseOrder.expected_delivery_date,
+        vendorName:
+          language === 'ar'
+            ? purchaseOrder.vendor.name_ar || purchaseOrder.vendor.name_en
+            : purchaseOrder.vendor.name_en,
+      },
+      language,
+      pdf,
+    );
+
+    if (!result.success) {
+      throw new BadRequestException(
+        `Failed to send purchase order: ${result.error}`,
+      );
+    }
+
+    return this.transition(id, tenantId, ['approved', 'sent'], {
+      status: 'sent',
+      sent_by: userId,
+      sent_at: new Date().toISOString(),
+    });
+  }
+
+  async cancel(id: string, tenantId: string, userId?: string) {
+    const purchaseOrder = await this.findOne(id, tenantId);
+
+    if (!['approved', 'sent'].includes(purchaseOrder.status)) {
+      throw new BadRequestException(
+        purchaseOrder.status === 'draft'
+          ? 'Delete a draft purchase order instead of cancelling it'
+          : `Cannot cancel a purchase order with status ${purchaseOrder.status}`,
+      );
+    }
+
+    return this.transition(id, tenantId, ['approved', 'sent'], {
+      status: 'cancelled',
+      cancelled_by: userId,
+      cancelled_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Create a draft purchase invoice for the given quantities of the order's
+   * lines, or for everything not yet billed when no lines are given. Each
+   * bill line records the order line it bills, from which the database
+   * updates the billed quantities and the order's status.
+   */
+  async convertToBill(
+    id: string,
+    convertDto: ConvertToBillDto,
+    tenantId: string,
+    userId?: string,
+    branchId?: string,
+  ) {
+    const purchaseOrder = await this.findOne(id, tenantId);
+
+    if (purchaseOrder.status === 'closed') {
+      throw new BadRequestException(
+        'The purchase order has already been fully billed',
+      );
+    }
+
+    if (!BILLABLE_STATUSES.includes(purchaseOrder.status)) {
+      throw new BadRequestException(
+        `Cannot bill a purchase order with status ${purchaseOrder.status}`,
+      );
+    }
+
+    const toBill = this.selectLinesToBill(purchaseOrder, convertDto.lines);
+
+    const purchaseOrderLineIds: Record<number, string> = {};
+    const billLines = toBill.map(({ line, quantity }, index) => {
+      purchaseOrderLineIds[index + 1] = line.id;
+
+      return {
+        line_number: index + 1,
+        ...this.calculateLine({
+          description: line.description,
+          description_ar: line.description_ar,
+          description_en: line.description_en,
+          quantity,
+          unit_price: Number(line.unit_price),
+          discount: Number(line.discount_percentage),
+          tax_rate: Number(line.tax_percentage),
+        }),
+      };
+    });
+
+    const taxes = await this.buildInvoiceTaxes(tenantId, billLines);
+
+    // The bill is booked at the rate of its own date, not the order's
+    const invoiceDate = convertDto.date
+      ? new Date(convertDto.date)
+      : new Date();
+    const { rate: exchangeRate } = await this.exchangeRatesService.getRate(
+      tenantId,
+      purchaseOrder.currency,
+      invoiceDate,
+    );
+
+    const invoice = await this.invoicesService.create(
+      {
+        tenantId,
+        invoiceType: 'purchase',
+        partyId: purchaseOrder.vendor_id,
+        partyType: 'vendor',
+        invoiceDate,
+        dueDate: convertDto.due_date
+          ? new Date(convertDto.due_date)
+          : undefined,
+        currency: purchaseOrder.currency,
+        exchangeRate,
+        internalNotes: `Billed from purchase order ${purchaseOrder.po_number}`,
+        totalAmount: this.round(
+          billLines.reduce((sum, line) => sum + line.line_total, 0),
+        ),
+        lines: billLines.map(
+          (line): InvoiceLineDto => ({
+            lineNumber: line.line_number,
+            descriptionAr: line.description_ar || line.description,
+            descriptionEn: line.description_en || line.description,
+            quantity: line.quantity,
+            unitPrice: line.unit_price,
+            discountAmount: line.discount_amount,
+            discountPercentage: line.discount_percentage,
+            taxableAmount: line.taxable_amount,
+            taxCodeId: taxes.find(
+              (tax) => tax.taxPercentage === line.tax_percentage,
+            )?.taxCodeId,
+            taxPercentage: line.tax_percentage,
+            taxAmount: line.tax_amount,
+            lineTotal: line.line_total,
+          }),
+        ),
+        taxes,
+      },
+      tenantId,
+      userId,
+      branchId,
+      { purchaseOrderId: id, purchaseOrderLineIds },
+    );
+
+    return {
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoice_number,
+      poNumber: purchaseOrder.po_number,
+      purchaseOrder: await this.findOne(id, tenantId),
+    };
+  }
+
+  /**
+   * The order lines and quantities to bill, checked against what is left to
+   * bill on each line
+   */
+  private selectLinesToBill(
+    purchaseOrder: any,
+    requested?: { line_id: string; quantity: number }[],
+  ): { line: any; quantity: number }[] {
+    const lines: any[] = purchaseOrder.purchase_order_lines;
+    const remaining = (line: any) =>
+      this.round(Number(line.quantity) - Number(line.billed_quantity || 0));
+
+    if (!requested) {
+      const toBill = lines
+        .filter((line) => remaining(line) > 0)
+        .map((line) => ({ line, quantity: remaining(line) }));
+
+      if (toBill.length === 0) {
+        throw new BadRequestException(
+          `Nothing is left to bill on purchase order ${purchaseOrder.po_number}`,
+        );
+      }
+
+      return toBill;
+    }
+
+    const seen = new Set<string>();
+
+    return requested.map((request) => {
+      const line = lines.find((candidate) => candidate.id === request.line_id);
+
+      if (!line) {
+        throw new BadRequestException(
+          `Line ${request.line_id} is not on purchase order ${purchaseOrder.po_number}`,
+        );
+      }
+
+      if (seen.has(line.id)) {
+        throw new BadRequestException(
+          `Line ${line.line_number} is listed more than once`,
+        );
+      }
+      seen.add(line.id);
+
+      if (request.quantity > remaining(line)) {
+        throw new BadRequestException(
+          `Cannot bill ${request.quantity} of line ${line.line_number}: only ${remaining(line)} of ${Number(line.quantity)} ordered remain to be billed`,
+        );
+      }
+
+      return { line, quantity: request.quantity };
+    });
+  }
+
+  /**
+   * Change the status of a purchase order only if it is still in one of the
+   * given statuses, so two concurrent requests cannot both succeed
+   */
+  private async transition(
+    id: string,
+    tenantId: string,
+    fromStatuses: string[],
+    updates: Record<string, any>,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('purchase_orders')
+      .update(updates)
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .in('status', fromStatuses)
+      .select('id');
+
+    if (error) throw error;
+
+    if (!data || data.length === 0) {
+      throw new BadRequestException(
+        'The purchase order was changed by another request; reload and try again',
+      );
+    }
+
+    return this.findOne(id, tenantId);
+  }
+
+  private async assertVendor(vendorId: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: vendor, error } = await supabase
+      .from('vendors')
+      .select('id')
+      .eq('id', vendorId)
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!vendor) {
+      throw new BadRequestException('Vendor not found');
+    }
+  }
+
+  private calculateLines(items: PurchaseOrderItemDto[]) {
+    const totals = {
+      subtotal: 0,
+      discount_amount: 0,
+      taxable_amount: 0,
+      tax_amount: 0,
+      total_amount: 0,
+    };
+
+    const lines = items.map((item, index) => {
+      const line = this.calculateLine(item);
+
+      totals.subtotal += this.round(item.quantity * item.unit_price);
+      totals.discount_amount += line.discount_amount;
+      totals.taxable_amount += line.taxable_amount;
+      totals.tax_amount += line.tax_amount;
+      totals.total_amount += line.line_total;
+
+      return { line_number: index + 1, ...line };
+    });
+
+    for (const key of Object.keys(totals) as (keyof typeof totals)[]) {
+      totals[key] = this.round(totals[key]);
+    }
+
+    return { lines, totals };
+  }
+
+  private calculateLine(item: PurchaseOrderItemDto) {
+    const gross = this.round(item.quantity * item.unit_price);
+    const discountAmount = this.round((gross * (item.discount || 0)) / 100);
+    const taxableAmount = this.round(gross - discountAmount);
+    const taxAmount = this.round((taxableAmount * (item.tax_rate || 0)) / 100);
+
+    return {
+      description: item.description,
+      description_ar: item.description_ar,
+      description_en: item.description_en,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      discount_percentage: item.discount || 0,
+      discount_amount: discountAmount,
+      taxable_amount: taxableAmount,
+      tax_percentage: item.tax_rate || 0,
+      tax_amount: taxAmount,
+      line_total: this.round(taxableAmount + taxAmount),
+    };
+  }
+
+  private async insertLines(
+    purchaseOrderId: string,
+    tenantId: string,
+    lines: Record<string, any>[],
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const { error } = await supabase.from('purchase_order_lines').insert(
+      lines.map((line) => ({
+        ...line,
+        purchase_order_id: purchaseOrderId,
+        tenant_id: tenantId,
+      })),
+    );
+
+    if (error) throw error;
+  }
+
+  /**
+   * One input tax per VAT rate used on the bill, matched to the tenant's
+   * active input VAT code of that rate
+   */
+  private async buildInvoiceTaxes(
+    tenantId: string,
+    lines: any[],
+  ): Promise<InvoiceTaxDto[]> {
+    const byRate = new Map<number, { taxable: number; tax: number }>();
+
+    for (const line of lines) {
+      const rate = Number(line.tax_percentage);
+      if (rate === 0) continue;
+
+      const entry = byRate.get(rate) || { taxable: 0, tax: 0 };
+      entry.taxable += Number(line.taxable_amount);
+      entry.tax += Number(line.tax_amount);
+      byRate.set(rate, entry);
+    }
+
+    if (byRate.size === 0) {
+      return [];
+    }
+
+    const supabase = this.supabaseService.getClient();
+    const { data: vatCodes, error } = await supabase
+      .from('vat_codes')
+      .select('id, name_en, rate, is_default')
+      .eq('tenant_id', tenantId)
+      .eq('type', 'input')
+      .eq('is_active', true)
+      .order('is_default', { ascending: false });
+
+    if (error) throw error;
+
+    return [...byRate.entries()].map(([rate, amounts]) => {
+      const vatCode = (vatCodes || []).find(
+        (code) => Number(code.rate) === rate,
+      );
+
+      if (!vatCode) {
+        throw new BadRequestException(
+          `No active input VAT code with a rate of ${rate}%`,
+        );
+      }
+
+      return {
+        taxCodeId: vatCode.id,
+        taxType: 'input',
+        taxName: vatCode.name_en,
+        taxPercentage: rate,
+        taxableAmount: this.round(amounts.taxable),
+        taxAmount: this.round(amounts.tax),
+      };
+    });
+  }
+
+  /**
+   * Shape a purchase order row like the frontend PurchaseOrder type
+   */
+  private toResponse(purchaseOrder: any) {
+    const lines = [...(purchaseOrder.purchase_order_lines || [])].sort(
+      (a, b) => a.line_number - b.line_number,
+    );
+
+    return {
+      ...purchaseOrder,
+      purchase_order_lines: lines,
+      date: purchaseOrder.order_date,
+      vendor_name: purchaseOrder.vendor?.name_en,
+      total: purchaseOrder.total_amount,
+      items: lines.map((line) => ({
+        id: line.id,
+        description: line.description,
+        description_ar: line.description_ar,
+        description_en: line.description_en,
+        quantity: line.quantity,
+        unit_price: line.unit_price,
+        discount: line.discount_percentage,
+        tax_rate: line.tax_percentage,
+        total: line.line_total,
+        received_quantity: line.received_quantity,
+        billed_quantity: line.billed_quantity,
+        remaining_quantity: this.round(
+          Number(line.quantity) - Number(line.billed_quantity || 0),
+        ),
+      })),
+    };
+  }
+
+  private assertDeliveryDate(
+    orderDate: string,
+    expectedDeliveryDate?: string | null,
+  ) {
+    if (expectedDeliveryDate && expectedDeliveryDate < orderDate) {
+      throw new BadRequestException(
+        'The expected delivery date cannot be before the order date',
+      );
+    }
+  }
+
+  private toDateString(date: string): string {
+    return date.split('T')[0];
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -0,0 +1,42 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Job } from 'bullmq';
+import { Logger } from '@nestjs/common';
+import { DunningService } from '../../dunning/dunning.service';
+
+interface SendDunningRemindersDto {
+  asOfDate?: string;
+  // Only this tenant's reminders; every tenant's when omitted
+  tenantId?: string;
+}
+
+@Processor('dunning')
+export class DunningProcessor {
+  private readonly logger = new Logger(DunningProcessor.name);
+
+  constructor(private dunningService: DunningService) {}
+
+  @Process('send-due')
+  async handleSendDue(job: Job<SendDunningRemindersDto>) {
+    const asOfDate = job.data?.asOfDate
+      ? new Date(job.data.asOfDate)
+      : new Date();
+
+    try {
+      const result = await this.dunningService.sendDue(
+        asOfDate,
+        job.data?.tenantId,
+      );
+
+      if (result.remindersSent > 0 || result.failures > 0) {
+        this.logger.log(
+          `Payment reminders: ${result.remindersSent} sent, ${result.failures} failed`,
+        );
+      }
+
+      return { success: true, ...result };
+    } catch (error) {
+      this.logger.error(`Sending payment reminders failed: ${error.message}`);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Job } from 'bullmq';
+import { Logger } from '@nestjs/common';
+import { LedgerConsistencyService } from '../../journals/ledger-consistency.service';
+
+interface FindPostingOrphansDto {
+  // Only this tenant; every tenant when omitted
+  tenantId?: string;
+}
+
+@Processor('ledger-consistency')
+export class LedgerConsistencyProcessor {
+  private readonly logger = new Logger(LedgerConsistencyProcessor.name);
+
+  constructor(private ledgerConsistencyService: LedgerConsistencyService) {}
+
+  @Process('find-orphans')
+  async handleFindOrphans(job: Job<FindPostingOrphansDto>) {
+    try {
+      const result = await this.ledgerConsistencyService.checkAll(
+        job.data?.tenantId,
+      );
+
+      if (result.orphans > 0) {
+        this.logger.warn(
+          `Ledger consistency: ${result.orphans} orphans in ${result.tenantsWithOrphans} tenants`,
+        );
+      }
+
+      return { success: true, ...result };
+    } catch (error) {
+      this.logger.error(`Ledger consistency check failed: ${error.message}`);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Job } from 'bullmq';
+import { Logger } from '@nestjs/common';
+import { InvoicesService } from '../../invoices/invoices.service';
+
+interface RefreshOverdueInvoicesDto {
+  asOfDate?: string;
+  // Only this tenant's invoices; every tenant's when omitted
+  tenantId?: string;
+}
+
+@Processor('overdue-invoices')
+export class OverdueInvoicesProcessor {
+  private readonly logger = new Logger(OverdueInvoicesProcessor.name);
+
+  constructor(private invoicesService: InvoicesService) {}
+
+  @Process('refresh')
+  async handleRefresh(job: Job<RefreshOverdueInvoicesDto>) {
+    const asOfDate = job.data?.asOfDate
+      ? new Date(job.data.asOfDate)
+      : new Date();
+
+    try {
+      const result = await this.invoicesService.refreshOverdueStatuses(
+        asOfDate,
+        job.data?.tenantId,
+      );
+
+      if (result.markedOverdue > 0 || result.cleared > 0) {
+        this.logger.log(
+          `Overdue invoices: ${result.markedOverdue} marked overdue, ${result.cleared} cleared`,
+        );
+      }
+
+      return { success: true, ...result };
+    } catch (error) {
+      this.logger.error(`Overdue invoice refresh failed: ${error.message}`);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Job } from 'bullmq';
+import { Logger } from '@nestjs/common';
+import { RecurringInvoicesService } from '../../recurring-invoices/recurring-invoices.service';
+
+interface GenerateRecurringInvoicesDto {
+  asOfDate?: string;
+  // Only this tenant's profiles; every tenant's when omitted
+  tenantId?: string;
+}
+
+@Processor('recurring-invoices')
+export class RecurringInvoicesProcessor {
+  private readonly logger = new Logger(RecurringInvoicesProcessor.name);
+
+  constructor(private recurringInvoicesService: RecurringInvoicesService) {}
+
+  @Process('generate-due')
+  async handleGenerateDue(job: Job<GenerateRecurringInvoicesDto>) {
+    const asOfDate = job.data?.asOfDate
+      ? new Date(job.data.asOfDate)
+      : new Date();
+
+    try {
+      const result = await this.recurringInvoicesService.generateDue(
+        asOfDate,
+        job.data?.tenantId,
+      );
+
+      if (result.invoicesCreated > 0 || result.failures > 0) {
+        this.logger.log(
+          `Recurring invoices: ${result.invoicesCreated} created, ${result.failures} failed`,
+        );
+      }
+
+      return { success: true, ...result };
+    } catch (error) {
+      this.logger.error(
+        `Recurring invoice generation failed: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+}
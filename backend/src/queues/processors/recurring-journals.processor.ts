@@ -0,0 +1,44 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Job } from 'bullmq';
+import { Logger } from '@nestjs/common';
+import { RecurringJournalsService } from '../../recurring-journals/recurring-journals.service';
+
+interface GenerateRecurringJournalsDto {
+  asOfDate?: string;
+  // Only this tenant's templates; every tenant's when omitted
+  tenantId?: string;
+}
+
+@Processor('recurring-journals')
+export class RecurringJournalsProcessor {
+  private readonly logger = new Logger(RecurringJournalsProcessor.name);
+
+  constructor(private recurringJournalsService: RecurringJournalsService) {}
+
+  @Process('generate-due')
+  async handleGenerateDue(job: Job<GenerateRecurringJournalsDto>) {
+    const asOfDate = job.data?.asOfDate
+      ? new Date(job.data.asOfDate)
+      : new Date();
+
+    try {
+      const result = await this.recurringJournalsService.generateDue(
+        asOfDate,
+        job.data?.tenantId,
+      );
+
+      if (result.journalsCreated > 0 || result.failures > 0) {
+        this.logger.log(
+          `Recurring journals: ${result.journalsCreated} created, ${result.failures} failed`,
+        );
+      }
+
+      return { success: true, ...result };
+    } catch (error) {
+      this.logger.error(
+        `Recurring journal generation failed: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+}
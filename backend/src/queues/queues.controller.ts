@@ -2,6 +2,8 @@ import { Controller, Post, Get, Body, Query, Param, UseGuards } from '@nestjs/co
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { QueuesService } from './queues.service';
 import { TenantContextGuard } from '../common/guards/tenant-context.guard';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
 import { TenantContext } from '../common/decorators/tenant-context.decorator';
 
 class CalculateDepreciationDto {
@@ -12,7 +14,7 @@ class CalculateDepreciationDto {
 @ApiTags('queues')
 @Controller('queues')
 @ApiBearerAuth()
-@UseGuards(TenantContextGuard)
+@UseGuards(TenantContextGuard, PermissionsGuard)
 export class QueuesController {
   constructor(private queuesService: QueuesService) {}
 
@@ -54,6 +56,46 @@ export class QueuesController {
     return this.queuesService.getDepreciationJobs(tenantId);
   }
 
+  @Post('recurring-journals/generate')
+  @ApiOperation({ summary: "Generate the tenant's due recurring journals now" })
+  @ApiResponse({ status: 201, description: 'Recurring journals job created' })
+  @RequirePermissions({ module: 'journals', action: 'create' })
+  generateRecurringJournals(@TenantContext('tenantId') tenantId: string) {
+    return this.queuesService.generateRecurringJournals(tenantId);
+  }
+
+  @Post('recurring-invoices/generate')
+  @ApiOperation({ summary: "Generate the tenant's due recurring invoices now" })
+  @ApiResponse({ status: 201, description: 'Recurring invoices job created' })
+  @RequirePermissions({ module: 'invoices', action: 'create', resource: 'sales' })
+  generateRecurringInvoices(@TenantContext('tenantId') tenantId: string) {
+    return this.queuesService.generateRecurringInvoices(tenantId);
+  }
+
+  @Post('overdue-invoices/refresh')
+  @ApiOperation({ summary: "Refresh the tenant's overdue invoice statuses now" })
+  @ApiResponse({ status: 201, description: 'Overdue invoices job created' })
+  @RequirePermissions({ module: 'invoices', action: 'edit' })
+  refreshOverdueInvoices(@TenantContext('tenantId') tenantId: string) {
+    return this.queuesService.refreshOverdueInvoices(tenantId);
+  }
+
+  @Post('dunning/send')
+  @ApiOperation({ summary: "Send the tenant's due payment reminders now" })
+  @ApiResponse({ status: 201, description: 'Dunning job created' })
+  @RequirePermissions({ module: 'invoices', action: 'edit' })
+  sendDunningReminders(@TenantContext('tenantId') tenantId: string) {
+    return this.queuesService.sendDunningReminders(tenantId);
+  }
+
+  @Post('ledger-consistency/check')
+  @ApiOperation({ summary: 'Check the tenant for posting orphans now' })
+  @ApiResponse({ status: 201, description: 'Ledger consistency job created' })
+  @RequirePermissions({ module: 'journals', action: 'read' })
+  checkLedgerConsistency(@TenantContext('tenantId') tenantId: string) {
+    return this.queuesService.checkLedgerConsistency(tenantId);
+  }
+
   @Get('depreciation/jobs/:jobId')
   @ApiOperation({ summary: 'Get depreciation job status' })
   @ApiResponse({ status: 200, description: 'Job status details' })
@@ -2,8 +2,18 @@ import { Module } from '@nestjs/common';
 import { BullModule } from '@nestjs/bull';
 import { QueuesService } from './queues.service';
 import { DepreciationProcessor } from './processors/depreciation.processor';
+import { RecurringJournalsProcessor } from './processors/recurring-journals.processor';
+import { RecurringInvoicesProcessor } from './processors/recurring-invoices.processor';
+import { OverdueInvoicesProcessor } from './processors/overdue-invoices.processor';
+import { DunningProcessor } from './processors/dunning.processor';
+import { LedgerConsistencyProcessor } from './processors/ledger-consistency.processor';
 import { QueuesController } from './queues.controller';
 import { SupabaseModule } from '../supabase/supabase.module';
+import { RecurringJournalsModule } from '../recurring-journals/recurring-journals.module';
+import { RecurringInvoicesModule } from '../recurring-invoices/recurring-invoices.module';
+import { InvoicesModule } from '../invoices/invoices.module';
+import { DunningModule } from '../dunning/dunning.module';
+import { JournalsModule } from '../journals/journals.module';
 
 @Module({
   imports: [
@@ -24,10 +34,78 @@ import { SupabaseModule } from '../supabase/supabase.module';
         },
       },
     }),
+    BullModule.registerQueue({
+      name: 'recurring-journals',
+      defaultJobOptions: {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 2000,
+        },
+        removeOnComplete: 50,
+      },
+    }),
+    BullModule.registerQueue({
+      name: 'recurring-invoices',
+      defaultJobOptions: {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 2000,
+        },
+        removeOnComplete: 50,
+      },
+    }),
+    BullModule.registerQueue({
+      name: 'ledger-consistency',
+      defaultJobOptions: {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 2000,
+        },
+        removeOnComplete: 50,
+      },
+    }),
+    BullModule.registerQueue({
+      name: 'overdue-invoices',
+      defaultJobOptions: {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 2000,
+        },
+        removeOnComplete: 50,
+      },
+    }),
+    BullModule.registerQueue({
+      name: 'dunning',
+      defaultJobOptions: {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 2000,
+        },
+        removeOnComplete: 50,
+      },
+    }),
     SupabaseModule,
+    RecurringJournalsModule,
+    RecurringInvoicesModule,
+    InvoicesModule,
+    DunningModule,
+    JournalsModule,
   ],
   controllers: [QueuesController],
-  providers: [QueuesService, DepreciationProcessor],
+  providers: [
+    QueuesService,
+    DepreciationProcessor,
+    RecurringJournalsProcessor,
+    RecurringInvoicesProcessor,
+    OverdueInvoicesProcessor,
+    DunningProcessor,
+    LedgerConsistencyProcessor,
+  ],
   exports: [QueuesService],
 })
 export class QueuesModule {}
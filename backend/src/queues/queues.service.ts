@@ -1,4 +1,4 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bull';
 import { Queue } from 'bullmq';
 
@@ -15,12 +15,177 @@ interface GenerateFinancialStatementsDto {
   userId: string;
 }
 
+// Recurring journal templates are checked every hour; generation is idempotent per occurrence date
+const RECURRING_JOURNALS_INTERVAL = 60 * 60 * 1000;
+
+// Recurring invoice profiles are checked every hour; generation is idempotent per occurrence date
+const RECURRING_INVOICES_INTERVAL = 60 * 60 * 1000;
+
+// Journals and posted documents are checked for orphans once a day
+const LEDGER_CONSISTENCY_INTERVAL = 24 * 60 * 60 * 1000;
+
+// Invoice overdue statuses are refreshed once a day, ahead of payment reminders
+const OVERDUE_INVOICES_INTERVAL = 24 * 60 * 60 * 1000;
+
+// Payment reminders go out once a day; each invoice gets each level at most once
+const DUNNING_INTERVAL = 24 * 60 * 60 * 1000;
+
 @Injectable()
-export class QueuesService {
+export class QueuesService implements OnModuleInit {
+  private readonly logger = new Logger(QueuesService.name);
+
   constructor(
     @InjectQueue('depreciation') private depreciationQueue: Queue,
+    @InjectQueue('recurring-journals') private recurringJournalsQueue: Queue,
+    @InjectQueue('recurring-invoices') private recurringInvoicesQueue: Queue,
+    @InjectQueue('ledger-consistency') private ledgerConsistencyQueue: Queue,
+    @InjectQueue('overdue-invoices') private overdueInvoicesQueue: Queue,
+    @InjectQueue('dunning') private dunningQueue: Queue,
   ) {}
 
+  onModuleInit() {
+    this.scheduleRecurringJournals().catch((error) => {
+      this.logger.warn(`Could not schedule recurring journals: ${error.message}`);
+    });
+    this.scheduleRecurringInvoices().catch((error) => {
+      this.logger.warn(`Could not schedule recurring invoices: ${error.message}`);
+    });
+    this.scheduleLedgerConsistencyCheck().catch((error) => {
+      this.logger.warn(`Could not schedule ledger consistency check: ${error.message}`);
+    });
+    this.scheduleOverdueInvoices().catch((error) => {
+      this.logger.warn(`Could not schedule overdue invoice refresh: ${error.message}`);
+    });
+    this.scheduleDunning().catch((error) => {
+      this.logger.warn(`Could not schedule dunning reminders: ${error.message}`);
+    });
+  }
+
+  async scheduleRecurringJournals() {
+    return this.recurringJournalsQueue.add(
+      'generate-due',
+      {},
+      {
+        jobId: 'recurring-journals-generate-due',
+        repeat: { every: RECURRING_JOURNALS_INTERVAL },
+      },
+    );
+  }
+
+  /**
+   * Generate one tenant's due recurring journals now; the scheduled job
+   * covers every tenant
+   */
+  async generateRecurringJournals(tenantId: string) {
+    return this.recurringJournalsQueue.add(
+      'generate-due',
+      { tenantId },
+      {
+        jobId: `recurring-journals-${tenantId}-${Date.now()}`,
+      },
+    );
+  }
+
+  async scheduleRecurringInvoices() {
+    return this.recurringInvoicesQueue.add(
+      'generate-due',
+      {},
+      {
+        jobId: 'recurring-invoices-generate-due',
+        repeat: { every: RECURRING_INVOICES_INTERVAL },
+      },
+    );
+  }
+
+  /**
+   * Generate one tenant's due recurring invoices now; the scheduled job
+   * covers every tenant
+   */
+  async generateRecurringInvoices(tenantId: string) {
+    return this.recurringInvoicesQueue.add(
+      'generate-due',
+      { tenantId },
+      {
+        jobId: `recurring-invoices-${tenantId}-${Date.now()}`,
+      },
+    );
+  }
+
+  async scheduleOverdueInvoices() {
+    return this.overdueInvoicesQueue.add(
+      'refresh',
+      {},
+      {
+        jobId: 'overdue-invoices-refresh',
+        repeat: { every: OVERDUE_INVOICES_INTERVAL },
+      },
+    );
+  }
+
+  /**
+   * Refresh one tenant's overdue invoice statuses now; the scheduled job
+   * covers every tenant
+   */
+  async refreshOverdueInvoices(tenantId: string) {
+    return this.overdueInvoicesQueue.add(
+      'refresh',
+      { tenantId },
+      {
+        jobId: `overdue-invoices-${tenantId}-${Date.now()}`,
+      },
+    );
+  }
+
+  async scheduleDunning() {
+    return this.dunningQueue.add(
+      'send-due',
+      {},
+      {
+        jobId: 'dunning-send-due',
+        repeat: { every: DUNNING_INTERVAL },
+      },
+    );
+  }
+
+  /**
+   * Send one tenant's due payment reminders now; the scheduled job covers
+   * every tenant
+   */
+  async sendDunningReminders(tenantId: string) {
+    return this.dunningQueue.add(
+      'send-due',
+      { tenantId },
+      {
+        jobId: `dunning-${tenantId}-${Date.now()}`,
+      },
+    );
+  }
+
+  async scheduleLedgerConsistencyCheck() {
+    return this.ledgerConsistencyQueue.add(
+      'find-orphans',
+      {},
+      {
+        jobId: 'ledger-consistency-find-orphans',
+        repeat: { every: LEDGER_CONSISTENCY_INTERVAL },
+      },
+    );
+  }
+
+  /**
+   * Check one tenant for posting orphans now; the scheduled job covers every
+   * tenant
+   */
+  async checkLedgerConsistency(tenantId: string) {
+    return this.ledgerConsistencyQueue.add(
+      'find-orphans',
+      { tenantId },
+      {
+        jobId: `ledger-consistency-${tenantId}-${Date.now()}`,
+      },
+    );
+  }
+
   async calculateDepreciation(dto: CalculateDepreciationDto) {
     return this.depreciationQueue.add(
       'calculate-depreciation',
@@ -0,0 +1,64 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsUUID,
+  IsDateString,
+  IsArray,
+  ArrayNotEmpty,
+  ValidateNested,
+  Length,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { QuotationItemDto } from './quotation-item.dto';
+
+export class CreateQuotationDto {
+  @ApiProperty({ description: 'Customer the quotation is addressed to' })
+  @IsUUID()
+  @IsNotEmpty()
+  customer_id: string;
+
+  @ApiProperty({ description: 'Quotation date', example: '2026-10-19' })
+  @IsDateString()
+  date: string;
+
+  @ApiProperty({
+    description: 'Last day the quotation can be accepted',
+    example: '2026-11-18',
+  })
+  @IsDateString()
+  valid_until: string;
+
+  @ApiProperty({
+    description: 'Currency code',
+    required: false,
+    example: 'QAR',
+  })
+  @IsString()
+  @IsOptional()
+  @Length(3, 3)
+  currency?: string;
+
+  @ApiProperty({ description: 'Customer reference', required: false })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  reference_number?: string;
+
+  @ApiProperty({
+    description: 'Notes printed on the quotation',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  notes?: string;
+
+  @ApiProperty({ type: [QuotationItemDto] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => QuotationItemDto)
+  items: QuotationItemDto[];
+}
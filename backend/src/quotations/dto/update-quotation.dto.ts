@@ -0,0 +1,7 @@
+import { PartialType, OmitType } from '@nestjs/mapped-types';
+import { CreateQuotationDto } from './create-quotation.dto';
+
+// The customer of a quotation cannot change; create a new quotation instead
+export class UpdateQuotationDto extends PartialType(
+  OmitType(CreateQuotationDto, ['customer_id'] as const),
+) {}
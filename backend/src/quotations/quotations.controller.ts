@@ -0,0 +1,192 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  applyDecorators,
+  Res,
+  StreamableFile,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { type Response } from 'express';
+import { QuotationsService } from './quotations.service';
+import { PdfService } from '../pdf/pdf.service';
+import { CreateQuotationDto } from './dto/create-quotation.dto';
+import { UpdateQuotationDto } from './dto/update-quotation.dto';
+import { TenantContextGuard } from '../common/guards/tenant-context.guard';
+import { TenantContext } from '../common/decorators/tenant-context.decorator';
+
+// Custom decorator to apply guards to specific routes
+function Protected() {
+  return applyDecorators(ApiBearerAuth(), UseGuards(TenantContextGuard));
+}
+
+@ApiTags('quotations')
+@Controller('quotations')
+export class QuotationsController {
+  constructor(
+    private quotationsService: QuotationsService,
+    private pdfService: PdfService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get all quotations' })
+  @ApiQuery({ name: 'status', required: false })
+  @ApiQuery({ name: 'customer_id', required: false })
+  @ApiQuery({ name: 'start_date', required: false })
+  @ApiQuery({ name: 'end_date', required: false })
+  @ApiQuery({ name: 'search', required: false })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @Protected()
+  findAll(
+    @TenantContext('tenantId') tenantId: string,
+    @Query('status') status?: string,
+    @Query('customer_id') customerId?: string,
+    @Query('start_date') startDate?: string,
+    @Query('end_date') endDate?: string,
+    @Query('search') search?: string,
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+  ) {
+    return this.quotationsService.findAll(tenantId, {
+      status,
+      customerId,
+      startDate,
+      endDate,
+      search,
+      page,
+      limit,
+    });
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a quotation by ID' })
+  @Protected()
+  findOne(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.quotationsService.findOne(id, tenantId);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a new quotation' })
+  @Protected()
+  create(
+    @Body() createDto: CreateQuotationDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId?: string,
+    @TenantContext('branchId') branchId?: string,
+  ) {
+    return this.quotationsService.create(createDto, tenantId, userId, branchId);
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Update a draft quotation' })
+  @Protected()
+  update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateQuotationDto,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.quotationsService.update(id, updateDto, tenantId);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a draft quotation' })
+  @Protected()
+  remove(@Param('id') id: string, @TenantContext('tenantId') tenantId: string) {
+    return this.quotationsService.remove(id, tenantId);
+  }
+
+  @Post(':id/send')
+  @ApiOperation({ summary: 'Email the quotation PDF to the customer' })
+  @ApiQuery({ name: 'language', required: false, enum: ['en', 'ar'] })
+  @Protected()
+  send(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId?: string,
+    @Query('language') language?: 'ar' | 'en',
+  ) {
+    return this.quotationsService.send(id, tenantId, userId, language || 'en');
+  }
+
+  @Post(':id/accept')
+  @ApiOperation({ summary: 'Mark a sent quotation as accepted' })
+  @Protected()
+  accept(@Param('id') id: string, @TenantContext('tenantId') tenantId: string) {
+    return this.quotationsService.accept(id, tenantId);
+  }
+
+  @Post(':id/reject')
+  @ApiOperation({ summary: 'Mark a sent quotation as rejected' })
+  @Protected()
+  reject(@Param('id') id: string, @TenantContext('tenantId') tenantId: string) {
+    return this.quotationsService.reject(id, tenantId);
+  }
+
+  @Post(':id/convert-to-invoice')
+  @ApiOperation({
+    summary: 'Create a draft sales invoice from an accepted quotation',
+  })
+  @Protected()
+  convertToInvoice(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId?: string,
+    @TenantContext('branchId') branchId?: string,
+  ) {
+    return this.quotationsService.convertToInvoice(
+      id,
+      tenantId,
+      userId,
+      branchId,
+    );
+  }
+
+  @Get(':id/export/pdf')
+  @ApiOperation({ summary: 'Download quotation PDF' })
+  @Protected()
+  async getPdf(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+    @Query('language') language?: 'ar' | 'en' | 'both',
+    @Res({ passthrough: true }) res?: Response,
+  ) {
+    try {
+      const pdfBuffer = await this.pdfService.generateQuotationPdf(
+        id,
+        tenantId,
+        { language: language || 'both' },
+      );
+
+      if (res) {
+        res.set({
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename=quotation-${id}.pdf`,
+          'Content-Length': pdfBuffer.length.toString(),
+        });
+      }
+
+      return new StreamableFile(pdfBuffer);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      throw new NotFoundException('Failed to generate quotation PDF');
+    }
+  }
+}
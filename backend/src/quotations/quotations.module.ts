@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { QuotationsService } from './quotations.service';
+import { QuotationsController } from './quotations.controller';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { InvoicesModule } from '../invoices/invoices.module';
+import { PdfModule } from '../pdf/pdf.module';
+import { EmailModule } from '../email/email.module';
+import { CurrenciesModule } from '../currencies/currencies.module';
+
+@Module({
+  imports: [
+    SupabaseModule,
+    InvoicesModule,
+    PdfModule,
+    EmailModule,
+    CurrenciesModule,
+  ],
+  controllers: [QuotationsController],
+  providers: [QuotationsService],
+  exports: [QuotationsService],
+})
+export class QuotationsModule {}
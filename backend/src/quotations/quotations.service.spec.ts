@@ -0,0 +1,364 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { QuotationsService } from './quotations.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { InvoicesService } from '../invoices/invoices.service';
+import { PdfService } from '../pdf/pdf.service';
+import { EmailService } from '../email/email.service';
+import { ExchangeRatesService } from '../currencies/exchange-rates.service';
+import { queryResult } from '../../test/utils/query-result';
+
+describe('QuotationsService', () => {
+  let service: QuotationsService;
+  let tables: Record<string, any[]>;
+  let mockSupabaseClient: any;
+  let invoicesService: { create: jest.Mock };
+  let emailService: { sendQuotationEmail: jest.Mock };
+  let exchangeRatesService: { getRate: jest.Mock };
+
+  const mockTenantId = 'test-tenant-id';
+  const mockUserId = 'test-user-id';
+
+  const acceptedQuotation = {
+    id: 'quotation-1',
+    quotation_number: 'QUO-2026-000001',
+    customer_id: 'customer-1',
+    customer: { id: 'customer-1', name_en: 'Acme', email: 'ap@acme.test' },
+    quotation_date: '2026-10-01',
+    valid_until: '2026-10-31',
+    currency: 'QAR',
+    status: 'accepted',
+    total_amount: 1050,
+    quotation_lines: [
+      {
+        line_number: 1,
+        description: 'Consulting',
+        quantity: 2,
+        unit_price: 500,
+        discount_percentage: 0,
+        discount_amount: 0,
+        taxable_amount: 1000,
+        tax_percentage: 5,
+        tax_amount: 50,
+        line_total: 1050,
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    tables = {};
+    mockSupabaseClient = {
+      from: jest.fn((table: string) => tables[table].shift()),
+      rpc: jest.fn(),
+    };
+    invoicesService = { create: jest.fn() };
+    emailService = { sendQuotationEmail: jest.fn() };
+    exchangeRatesService = {
+      getRate: jest.fn().mockResolvedValue({ currency: 'QAR', rate: 1 }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuotationsService,
+        {
+          provide: SupabaseService,
+          useValue: {
+            getClient: jest.fn().mockReturnValue(mockSupabaseClient),
+            getServiceRoleClient: jest.fn().mockReturnValue({
+              from: jest.fn(() => queryResult({ data: [], error: null })),
+            }),
+          },
+        },
+        { provide: InvoicesService, useValue: invoicesService },
+        {
+          provide: PdfService,
+          useValue: {
+            generateQuotationPdf: jest
+              .fn()
+              .mockResolvedValue(Buffer.from('pdf')),
+          },
+        },
+        { provide: EmailService, useValue: emailService },
+        { provide: ExchangeRatesService, useValue: exchangeRatesService },
+      ],
+    }).compile();
+
+    service = module.get<QuotationsService>(QuotationsService);
+  });
+
+  describe('create', () => {
+    it('should number the quotation and calculate line and header totals', async () => {
+      const insert = queryResult({ data: { id: 'quotation-1' }, error: null });
+      const insertLines = queryResult({ data: null, error: null });
+      tables.customers = [
+        queryResult({ data: { id: 'customer-1' }, error: null }),
+      ];
+      tables.quotations = [
+        insert,
+        queryResult({ data: acceptedQuotation, error: null }),
+      ];
+      tables.quotation_lines = [insertLines];
+      mockSupabaseClient.rpc.mockResolvedValue({
+        data: 'QUO-2026-000001',
+        error: null,
+      });
+
+      await service.create(
+        {
+          customer_id: 'customer-1',
+          date: '2026-10-01T00:00:00.000Z',
+          valid_until: '2026-10-31',
+          items: [
+            {
+              description: 'Consulting',
+              quantity: 2,
+              unit_price: 500,
+              discount: 10,
+              tax_rate: 5,
+            },
+          ],
+        },
+        mockTenantId,
+        mockUserId,
+      );
+
+      expect(insert.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          quotation_number: 'QUO-2026-000001',
+          quotation_date: '2026-10-01',
+          status: 'draft',
+          subtotal: 1000,
+          discount_amount: 100,
+          taxable_amount: 900,
+          tax_amount: 45,
+          total_amount: 945,
+        }),
+      );
+      expect(insertLines.insert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          quotation_id: 'quotation-1',
+          line_number: 1,
+          discount_percentage: 10,
+          tax_percentage: 5,
+          line_total: 945,
+        }),
+      ]);
+    });
+
+    it('should reject a validity date before the quotation date', async () => {
+      await expect(
+        service.create(
+          {
+            customer_id: 'customer-1',
+            date: '2026-10-10',
+            valid_until: '2026-10-01',
+            items: [{ description: 'Consulting', quantity: 1, unit_price: 1 }],
+          },
+          mockTenantId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('send', () => {
+    it('should keep the quotation unsent when the email fails', async () => {
+      tables.quotations = [
+        queryResult({
+          data: { ...acceptedQuotation, status: 'draft' },
+          error: null,
+        }),
+      ];
+      emailService.sendQuotationEmail.mockResolvedValue({
+        success: false,
+        error: 'SMTP down',
+      });
+
+      await expect(
+        service.send('quotation-1', mockTenantId, mockUserId),
+      ).rejects.toThrow('Failed to send quotation: SMTP down');
+      expect(tables.quotations).toHaveLength(0);
+    });
+  });
+
+  describe('convertToInvoice', () => {
+    it('should create a draft sales invoice and link it to the quotation', async () => {
+      const claim = queryResult({ data: [{ id: 'quotation-1' }], error: null });
+      const link = queryResult({ data: null, error: null });
+      tables.quotations = [
+        queryResult({ data: acceptedQuotation, error: null }),
+        claim,
+        queryResult({
+          data: { ...acceptedQuotation, status: 'converted' },
+          error: null,
+        }),
+        link,
+      ];
+      tables.vat_codes = [
+        queryResult({
+          data: [{ id: 'vat-5', name_en: 'VAT 5%', rate: 5 }],
+          error: null,
+        }),
+      ];
+      invoicesService.create.mockResolvedValue({
+        id: 'invoice-1',
+        invoice_number: 'INV-2026-000001',
+      });
+
+      const result = await service.convertToInvoice(
+        'quotation-1',
+        mockTenantId,
+        mockUserId,
+      );
+
+      expect(result).toEqual({
+        invoiceId: 'invoice-1',
+        invoiceNumber: 'INV-2026-000001',
+        quotationNumber: 'QUO-2026-000001',
+      });
+      expect(claim.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'converted' }),
+      );
+      expect(claim.in).toHaveBeenCalledWith('status', ['accepted']);
+      expect(invoicesService.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          invoiceType: 'sales',
+          partyType: 'customer',
+          partyId: 'customer-1',
+          lines: [
+            expect.objectContaining({
+              descriptionAr: 'Consulting',
+              taxCodeId: 'vat-5',
+              lineTotal: 1050,
+            }),
+          ],
+          taxes: [
+            {
+              taxCodeId: 'vat-5',
+              taxType: 'output',
+              taxName: 'VAT 5%',
+              taxPercentage: 5,
+              taxableAmount: 1000,
+              taxAmount: 50,
+            },
+          ],
+        }),
+        mockTenantId,
+        mockUserId,
+        undefined,
+      );
+      // Left to the customer's payment terms
+      expect(invoicesService.create.mock.calls[0][0].dueDate).toBeUndefined();
+      expect(link.update).toHaveBeenCalledWith({ invoice_id: 'invoice-1' });
+    });
+
+    it('should release the quotation when the invoice cannot be created', async () => {
+      const release = queryResult({ data: null, error: null });
+      tables.quotations = [
+        queryResult({ data: acceptedQuotation, error: null }),
+        queryResult({ data: [{ id: 'quotation-1' }], error: null }),
+        queryResult({
+          data: { ...acceptedQuotation, status: 'converted' },
+          error: null,
+        }),
+        release,
+      ];
+      tables.vat_codes = [
+        queryResult({
+          data: [{ id: 'vat-5', name_en: 'VAT 5%', rate: 5 }],
+          error: null,
+        }),
+      ];
+      invoicesService.create.mockRejectedValue(
+        new BadRequestException('Period is locked'),
+      );
+
+      await expect(
+        service.convertToInvoice('quotation-1', mockTenantId, mockUserId),
+      ).rejects.toThrow('Period is locked');
+      expect(release.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'accepted' }),
+      );
+    });
+
+    it('should book a foreign-currency invoice at the rate of the invoice date', async () => {
+      tables.quotations = [
+        queryResult({
+          data: { ...acceptedQuotation, currency: 'USD' },
+          error: null,
+        }),
+        queryResult({ data: [{ id: 'quotation-1' }], error: null }),
+        queryResult({
+          data: { ...acceptedQuotation, status: 'converted' },
+          error: null,
+        }),
+        queryResult({ data: null, error: null }),
+      ];
+      tables.vat_codes = [
+        queryResult({
+          data: [{ id: 'vat-5', name_en: 'VAT 5%', rate: 5 }],
+          error: null,
+        }),
+      ];
+      exchangeRatesService.getRate.mockResolvedValue({
+        currency: 'USD',
+        rate: 3.64,
+      });
+      invoicesService.create.mockResolvedValue({
+        id: 'invoice-1',
+        invoice_number: 'INV-2026-000001',
+      });
+
+      await service.convertToInvoice('quotation-1', mockTenantId, mockUserId);
+
+      expect(exchangeRatesService.getRate).toHaveBeenCalledWith(
+        mockTenantId,
+        'USD',
+        expect.any(Date),
+      );
+      expect(invoicesService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ currency: 'USD', exchangeRate: 3.64 }),
+        mockTenantId,
+        mockUserId,
+        undefined,
+      );
+    });
+
+    it('should not claim the quotation when the currency has no rate', async () => {
+      tables.quotations = [
+        queryResult({
+          data: { ...acceptedQuotation, currency: 'USD' },
+          error: null,
+        }),
+      ];
+      tables.vat_codes = [
+        queryResult({
+          data: [{ id: 'vat-5', name_en: 'VAT 5%', rate: 5 }],
+          error: null,
+        }),
+      ];
+      exchangeRatesService.getRate.mockRejectedValue(
+        new BadRequestException('No USD exchange rate on or before 2026-10-19'),
+      );
+
+      await expect(
+        service.convertToInvoice('quotation-1', mockTenantId, mockUserId),
+      ).rejects.toThrow('No USD exchange rate');
+      expect(tables.quotations).toHaveLength(0);
+      expect(invoicesService.create).not.toHaveBeenCalled();
+    });
+
+    it('should not convert a quotation that is not accepted', async () => {
+      tables.quotations = [
+        queryResult({
+          data: { ...acceptedQuotation, status: 'sent' },
+          error: null,
+        }),
+      ];
+
+      await expect(
+        service.convertToInvoice('quotation-1', mockTenantId),
+      ).rejects.toThrow(BadRequestException);
+      expect(invoicesService.create).not.toHaveBeenCalled();
+    });
+  });
+});
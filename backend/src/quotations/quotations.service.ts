@@ -0,0 +1,680 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { InvoicesService } from '../invoices/invoices.service';
+import { PdfService } from '../pdf/pdf.service';
+import { EmailService } from '../email/email.service';
+import { ExchangeRatesService } from '../currencies/exchange-rates.service';
+import { CreateQuotationDto } from './dto/create-quotation.dto';
+import { UpdateQuotationDto } from './dto/update-quotation.dto';
+import { QuotationItemDto } from './dto/quotation-item.dto';
+import { InvoiceLineDto } from '../invoices/dto/invoice-line.dto';
+import { InvoiceTaxDto } from '../invoices/dto/invoice-tax.dto';
+
+export interface QuotationFilters {
+  status?: string;
+  customerId?: string;
+  startDate?: string;
+  endDate?: string;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+const QUOTATION_SELECT = `
+  *,
+  quotation_lines(*),
+  customer:customers(id, name_en, name_ar, email, phone)
+`;
+
+// Quotations that can still expire; later statuses are final
+const EXPIRABLE_STATUSES = ['draft', 'sent'];
+
+/**
+ * Sales quotations
+ *
+ * A quotation moves draft -> sent -> accepted | rejected, becomes expired when
+ * its validity date passes before it is accepted, and an accepted quotation is
+ * converted once into a draft sales invoice.
+ */
+@Injectable()
+export class QuotationsService {
+  constructor(
+    private supabaseService: SupabaseService,
+    private invoicesService: InvoicesService,
+    private pdfService: PdfService,
+    private emailService: EmailService,
+    private exchangeRatesService: ExchangeRatesService,
+  ) {}
+
+  async findAll(tenantId: string, filters: QuotationFilters = {}) {
+    const supabase = this.supabaseService.getClient();
+    const page = Math.max(1, Number(filters.page) || 1);
+    const limit = Math.min(100, Math.max(1, Number(filters.limit) || 20));
+
+    await this.expireQuotations(tenantId);
+
+    let query = supabase
+      .from('quotations')
+      .select(QUOTATION_SELECT, { count: 'exact' })
+      .eq('tenant_id', tenantId)
+      .order('quotation_date', { ascending: false })
+      .order('quotation_number', { ascending: false })
+      .range((page - 1) * limit, page * limit - 1);
+
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+
+    if (filters.customerId) {
+      query = query.eq('customer_id', filters.customerId);
+    }
+
+    if (filters.startDate) {
+      query = query.gte('quotation_date', filters.startDate);
+    }
+
+    if (filters.endDate) {
+      query = query.lte('quotation_date', filters.endDate);
+    }
+
+    if (filters.search) {
+      const search = filters.search.replace(/[,()]/g, ' ');
+      query = query.or(
+        `quotation_number.ilike.%${search}%,reference_number.ilike.%${search}%`,
+      );
+    }
+
+    const { data, error, count } = await query;
+
+    if (error) throw error;
+
+    const total = count || 0;
+
+    return {
+      data: (data || []).map((quotation) => this.toResponse(quotation)),
+      total,
+      page,
+      limit,
+      total_pages: Math.ceil(total / limit),
+    };
+  }
+
+  async findOne(id: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    await this.expireQuotations(tenantId);
+
+    const { data, error } = await supabase
+      .from('quotations')
+      .select(QUOTATION_SELECT)
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!data) {
+      throw new NotFoundException('Quotation not found');
+    }
+
+    return this.toResponse(data);
+  }
+
+  async create(
+    createDto: CreateQuotationDto,
+    tenantId: string,
+    userId?: string,
+    branchId?: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+    const quotationDate = this.toDateString(createDto.date);
+    const validUntil = this.toDateString(createDto.valid_until);
+
+    this.assertValidity(quotationDate, validUntil);
+
+    const { data: customer, error: customerError } = await supabase
+      .from('customers')
+      .select('id')
+      .eq('id', createDto.customer_id)
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+
+    if (customerError) throw customerError;
+
+    if (!customer) {
+      throw new BadRequestException('Customer not found');
+    }
+
+    const { lines, totals } = this.calculateLines(createDto.items);
+
+    const { data: quotationNumber, error: numberError } = await supabase.rpc(
+      'generate_quotation_number',
+      { p_tenant_id: tenantId },
+    );
+
+    if (numberError) throw numberError;
+
+    const { data: quotation, error } = await supabase
+      .from('quotations')
+      .insert({
+        tenant_id: tenantId,
+        branch_id: branchId,
+        quotation_number: quotationNumber,
+        customer_id: createDto.customer_id,
+        quotation_date: quotationDate,
+        valid_until: validUntil,
+        currency: createDto.currency?.toUpperCase() || 'QAR',
+        reference_number: createDto.reference_number,
+        notes: createDto.notes,
+        status: 'draft',
+        created_by: userId,
+        ...totals,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await this.insertLines(quotation.id, tenantId, lines);
+
+    return this.findOne(quotation.id, tenantId);
+  }
+
+  /**
+   * Update a draft quotation. Items, when given, replace all existing lines.
+   */
+  async update(id: string, updateDto: UpdateQuotationDto, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+    const quotation = await this.findOne(id, tenantId);
+
+    if (quotation.status !== 'draft') {
+      throw new BadRequestException('Only draft quotations can be updated');
+    }
+
+    const quotationDate = updateDto.date
+      ? this.toDateString(updateDto.date)
+      : quotation.quotation_date;
+    const validUntil = updateDto.valid_until
+      ? this.toDateString(updateDto.valid_until)
+      : quotation.valid_until;
+
+    this.assertValidity(quotationDate, validUntil);
+
+    const updates: Record<string, any> = {
+      quotation_date: quotationDate,
+      valid_until: validUntil,
+    };
+
+    if (updateDto.currency !== undefined) {
+      updates.currency = updateDto.currency.toUpperCase();
+    }
+    if (updateDto.reference_number !== undefined) {
+      updates.reference_number = updateDto.reference_number;
+    }
+    if (updateDto.notes !== undefined) {
+      updates.notes = updateDto.notes;
+    }
+
+    let lines: Record<string, any>[] | undefined;
+    if (updateDto.items) {
+      const calculated = this.calculateLines(updateDto.items);
+      lines = calculated.lines;
+      Object.assign(updates, calculated.totals);
+    }
+
+    const { error } = await supabase
+      .from('quotations')
+      .update(updates)
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .eq('status', 'draft');
+
+    if (error) throw error;
+
+    if (lines) {
+      const { error: deleteError } = await supabase
+        .from('quotation_lines')
+        .delete()
+        .eq('quotation_id', id);
+
+      if (deleteError) throw deleteError;
+
+      await this.insertLines(id, tenantId, lines);
+    }
+
+    return this.findOne(id, tenantId);
+  }
+
+  async remove(id: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+    const quotation = await this.findOne(id, tenantId);
+
+    if (quotation.status !== 'draft') {
+      throw new BadRequestException('Only draft quotations can be deleted');
+    }
+
+    const { error } = await supabase
+      .from('quotations')
+      .delete()
+      .eq('id', id)
+      .eq('tenant_id', tenantId);
+
+    if (error) throw error;
+
+    return { success: true };
+  }
+
+  /**
+   * Email the quotation PDF to the customer. A sent quotation can be sent
+   * again, e.g. after the customer lost it.
+   */
+  async send(
+    id: string,
+    tenantId: string,
+    userId?: string,
+    language: 'ar' | 'en' = 'en',
+  ) {
+    const quotation = await this.findOne(id, tenantId);
+
+    if (!['draft', 'sent'].includes(quotation.status)) {
+      throw new BadRequestException(
+        `Cannot send a quotation with status ${quotation.status}`,
+      );
+    }
+
+    if (!quotation.customer?.email) {
+      throw new BadRequestException('The customer has no email address');
+    }
+
+    const pdf = await this.pdfService.generateQuotationPdf(id, tenantId, {
+      language: 'both',
+    });
+
+    const result = await this.emailService.sendQuotationEmail(
+      id,
+      quotation.customer.email,
+      tenantId,
+      {
+        quotationNumber: quotation.quotation_number,
+        totalAmount: `${quotation.currency} ${Number(quotation.total_amount).toFixed(2)}`,
+        validUntil: quotation.valid_until,
+        customerName:
+          language === 'ar'
+            ? quotation.customer.name_ar
+            : quotation.customer.name_en,
+      },
+      language,
+      pdf,
+    );
+
+    if (!result.success) {
+      throw new BadRequestException(
+        `Failed to send quotation: ${result.error}`,
+      );
+    }
+
+    return this.transition(id, tenantId, ['draft', 'sent'], {
+      status: 'sent',
+      sent_by: userId,
+      sent_at: new Date().toISOString(),
+    });
+  }
+
+  async accept(id: string, tenantId: string) {
+    const quotation = await this.findOne(id, tenantId);
+
+    if (quotation.status !== 'sent') {
+      throw new BadRequestException('Only sent quotations can be accepted');
+    }
+
+    return this.transition(id, tenantId, ['sent'], {
+      status: 'accepted',
+      accepted_at: new Date().toISOString(),
+    });
+  }
+
+  async reject(id: string, tenantId: string) {
+    const quotation = await this.findOne(id, tenantId);
+
+    if (quotation.status !== 'sent') {
+      throw new BadRequestException('Only sent quotations can be rejected');
+    }
+
+    return this.transition(id, tenantId, ['sent'], {
+      status: 'rejected',
+      rejected_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Create a draft sales invoice from an accepted quotation and link it back.
+   * The quotation is claimed first so it cannot be converted twice.
+   */
+  async convertToInvoice(
+    id: string,
+    tenantId: string,
+    userId?: string,
+    branchId?: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+    const quotation = await this.findOne(id, tenantId);
+
+    if (quotation.status === 'converted') {
+      throw new BadRequestException(
+        'The quotation has already been converted to an invoice',
+      );
+    }
+
+    if (quotation.status !== 'accepted') {
+      throw new BadRequestException(
+        'Only accepted quotations can be converted to an invoice',
+      );
+    }
+
+    const taxes = await this.buildInvoiceTaxes(
+      tenantId,
+      quotation.quotation_lines,
+    );
+
+    // The invoice is booked at the rate of its own date, not the quotation's
+    const invoiceDate = new Date();
+    const { rate: exchangeRate } = await this.exchangeRatesService.getRate(
+      tenantId,
+      quotation.currency,
+      invoiceDate,
+    );
+
+    await this.transition(id, tenantId, ['accepted'], {
+      status: 'converted',
+      converted_by: userId,
+      converted_at: new Date().toISOString(),
+    });
+
+    let invoice;
+    try {
+      // The due date comes from the customer's payment terms
+      invoice = await this.invoicesService.create(
+        {
+          tenantId,
+          invoiceType: 'sales',
+          partyId: quotation.customer_id,
+          partyType: 'customer',
+          invoiceDate,
+          currency: quotation.currency,
+          exchangeRate,
+          notes: quotation.notes,
+          internalNotes: `Created from quotation ${quotation.quotation_number}`,
+          totalAmount: Number(quotation.total_amount),
+          lines: quotation.quotation_lines.map(
+            (line: any): InvoiceLineDto => ({
+              lineNumber: line.line_number,
+              descriptionAr: line.description_ar || line.description,
+              descriptionEn: line.description_en || line.description,
+              quantity: Number(line.quantity),
+              unitPrice: Number(line.unit_price),
+              discountAmount: Number(line.discount_amount),
+              discountPercentage: Number(line.discount_percentage),
+              taxCodeId: taxes.find(
+                (tax) => tax.taxPercentage === Number(line.tax_percentage),
+              )?.taxCodeId,
+              taxPercentage: Number(line.tax_percentage),
+              taxAmount: Number(line.tax_amount),
+              lineTotal: Number(line.line_total),
+            }),
+          ),
+          taxes,
+        },
+        tenantId,
+        userId,
+        branchId,
+      );
+    } catch (error) {
+      // Release the quotation so the conversion can be retried
+      await supabase
+        .from('quotations')
+        .update({ status: 'accepted', converted_by: null, converted_at: null })
+        .eq('id', id)
+        .eq('tenant_id', tenantId);
+
+      throw error;
+    }
+
+    const { error } = await supabase
+      .from('quotations')
+      .update({ invoice_id: invoice.id })
+      .eq('id', id)
+      .eq('tenant_id', tenantId);
+
+    if (error) throw error;
+
+    return {
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoice_number,
+      quotationNumber: quotation.quotation_number,
+    };
+  }
+
+  /**
+   * Mark draft and sent quotations whose validity date has passed as expired.
+   * Runs with the service role so that users who can only read quotations
+   * still see current statuses.
+   */
+  async expireQuotations(tenantId: string) {
+    const supabase = this.supabaseService.getServiceRoleClient();
+    const today = this.toDateString(new Date().toISOString());
+
+    const { data, error } = await supabase
+      .from('quotations')
+      .update({ status: 'expired' })
+      .eq('tenant_id', tenantId)
+      .in('status', EXPIRABLE_STATUSES)
+      .lt('valid_until', today)
+      .select('id');
+
+    if (error) throw error;
+
+    return { expired: data?.length || 0 };
+  }
+
+  /**
+   * Change the status of a quotation only if it is still in one of the given
+   * statuses, so two concurrent requests cannot both succeed
+   */
+  private async transition(
+    id: string,
+    tenantId: string,
+    fromStatuses: string[],
+    updates: Record<string, any>,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('quotations')
+      .update(updates)
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .in('status', fromStatuses)
+      .select('id');
+
+    if (error) throw error;
+
+    if (!data || data.length === 0) {
+      throw new BadRequestException(
+        'The quotation was changed by another request; reload and try again',
+      );
+    }
+
+    return this.findOne(id, tenantId);
+  }
+
+  private calculateLines(items: QuotationItemDto[]) {
+    const totals = {
+      subtotal: 0,
+      discount_amount: 0,
+      taxable_amount: 0,
+      tax_amount: 0,
+      total_amount: 0,
+    };
+
+    const lines = items.map((item, index) => {
+      const gross = this.round(item.quantity * item.unit_price);
+      const discountAmount = this.round((gross * (item.discount || 0)) / 100);
+      const taxableAmount = this.round(gross - discountAmount);
+      const taxAmount = this.round(
+        (taxableAmount * (item.tax_rate || 0)) / 100,
+      );
+      const lineTotal = this.round(taxableAmount + taxAmount);
+
+      totals.subtotal += gross;
+      totals.discount_amount += discountAmount;
+      totals.taxable_amount += taxableAmount;
+      totals.tax_amount += taxAmount;
+      totals.total_amount += lineTotal;
+
+      return {
+        line_number: index + 1,
+        description: item.description,
+        description_ar: item.description_ar,
+        description_en: item.description_en,
+        quantity: item.quantity,
+        unit_price: item.unit_price,
+        discount_percentage: item.discount || 0,
+        discount_amount: discountAmount,
+        taxable_amount: taxableAmount,
+        tax_percentage: item.tax_rate || 0,
+        tax_amount: taxAmount,
+        line_total: lineTotal,
+      };
+    });
+
+    for (const key of Object.keys(totals) as (keyof typeof totals)[]) {
+      totals[key] = this.round(totals[key]);
+    }
+
+    return { lines, totals };
+  }
+
+  private async insertLines(
+    quotationId: string,
+    tenantId: string,
+    lines: Record<string, any>[],
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const { error } = await supabase.from('quotation_lines').insert(
+      lines.map((line) => ({
+        ...line,
+        quotation_id: quotationId,
+        tenant_id: tenantId,
+      })),
+    );
+
+    if (error) throw error;
+  }
+
+  /**
+   * One output tax per VAT rate used on the quotation, matched to the
+   * tenant's active output VAT code of that rate
+   */
+  private async buildInvoiceTaxes(
+    tenantId: string,
+    lines: any[],
+  ): Promise<InvoiceTaxDto[]> {
+    const byRate = new Map<number, { taxable: number; tax: number }>();
+
+    for (const line of lines) {
+      const rate = Number(line.tax_percentage);
+      if (rate === 0) continue;
+
+      const entry = byRate.get(rate) || { taxable: 0, tax: 0 };
+      entry.taxable += Number(line.taxable_amount);
+      entry.tax += Number(line.tax_amount);
+      byRate.set(rate, entry);
+    }
+
+    if (byRate.size === 0) {
+      return [];
+    }
+
+    const supabase = this.supabaseService.getClient();
+    const { data: vatCodes, error } = await supabase
+      .from('vat_codes')
+      .select('id, name_en, rate, is_default')
+      .eq('tenant_id', tenantId)
+      .eq('type', 'output')
+      .eq('is_active', true)
+      .order('is_default', { ascending: false });
+
+    if (error) throw error;
+
+    return [...byRate.entries()].map(([rate, amounts]) => {
+      const vatCode = (vatCodes || []).find(
+        (code) => Number(code.rate) === rate,
+      );
+
+      if (!vatCode) {
+        throw new BadRequestException(
+          `No active output VAT code with a rate of ${rate}%`,
+        );
+      }
+
+      return {
+        taxCodeId: vatCode.id,
+        taxType: 'output',
+        taxName: vatCode.name_en,
+        taxPercentage: rate,
+        taxableAmount: this.round(amounts.taxable),
+        taxAmount: this.round(amounts.tax),
+      };
+    });
+  }
+
+  /**
+   * Shape a quotation row like the frontend Quotation type
+   */
+  private toResponse(quotation: any) {
+    const lines = [...(quotation.quotation_lines || [])].sort(
+      (a, b) => a.line_number - b.line_number,
+    );
+
+    return {
+      ...quotation,
+      quotation_lines: lines,
+      date: quotation.quotation_date,
+      customer_name: quotation.customer?.name_en,
+      total: quotation.total_amount,
+      converted_to_invoice: !!quotation.invoice_id,
+      items: lines.map((line) => ({
+        id: line.id,
+        description: line.description,
+        description_ar: line.description_ar,
+        description_en: line.description_en,
+        quantity: line.quantity,
+        unit_price: line.unit_price,
+        discount: line.discount_percentage,
+        tax_rate: line.tax_percentage,
+        total: line.line_total,
+      })),
+    };
+  }
+
+  private assertValidity(quotationDate: string, validUntil: string) {
+    if (validUntil < quotationDate) {
+      throw new BadRequestException(
+        'The validity date cannot be before the quotation date',
+      );
+    }
+  }
+
+  private toDateString(date: string): string {
+    return date.split('T')[0];
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
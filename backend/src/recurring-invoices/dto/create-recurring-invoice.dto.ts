@@ -0,0 +1,104 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsNumber,
+  Min,
+  Max,
+  IsUUID,
+  IsDate,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  ArrayNotEmpty,
+  ValidateNested,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { RecurringInvoiceLineDto } from './recurring-invoice-line.dto';
+
+export class CreateRecurringInvoiceDto {
+  @IsUUID()
+  @IsOptional()
+  branchId?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @IsUUID()
+  @IsNotEmpty()
+  customerId: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(3)
+  currency?: string;
+
+  @IsNumber()
+  @IsOptional()
+  @Min(0)
+  exchangeRate?: number;
+
+  // Days from the invoice date to its due date; defaults to the customer's terms
+  @IsInt()
+  @IsOptional()
+  @Min(0)
+  paymentTermsDays?: number;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+
+  @IsEnum(['monthly', 'quarterly', 'yearly'])
+  @IsNotEmpty()
+  frequency: 'monthly' | 'quarterly' | 'yearly';
+
+  @IsNumber()
+  @IsNotEmpty()
+  @Min(1)
+  @Max(31)
+  dayOfMonth: number;
+
+  @IsDate()
+  @IsNotEmpty()
+  @Type(() => Date)
+  startDate: Date;
+
+  @IsDate()
+  @IsOptional()
+  @Type(() => Date)
+  endDate?: Date;
+
+  @IsBoolean()
+  @IsOptional()
+  autoSubmit?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  autoApprove?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  autoPost?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  autoEmail?: boolean;
+
+  @IsEnum(['ar', 'en'])
+  @IsOptional()
+  emailLanguage?: 'ar' | 'en';
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => RecurringInvoiceLineDto)
+  lines: RecurringInvoiceLineDto[];
+}
@@ -0,0 +1,63 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsNumber,
+  Min,
+  Max,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+
+export class RecurringInvoiceLineDto {
+  @IsNumber()
+  @IsNotEmpty()
+  @Min(1)
+  lineNumber: number;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  itemCode?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  descriptionAr: string;
+
+  @IsString()
+  @IsOptional()
+  descriptionEn?: string;
+
+  @IsNumber()
+  @IsNotEmpty()
+  @Min(0.01)
+  quantity: number;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(20)
+  unitOfMeasure?: string;
+
+  @IsNumber()
+  @IsNotEmpty()
+  @Min(0)
+  unitPrice: number;
+
+  @IsNumber()
+  @IsOptional()
+  @Min(0)
+  @Max(100)
+  discountPercentage?: number;
+
+  @IsUUID()
+  @IsOptional()
+  vatCodeId?: string;
+
+  @IsUUID()
+  @IsOptional()
+  accountId?: string;
+
+  @IsUUID()
+  @IsOptional()
+  costCenterId?: string;
+}
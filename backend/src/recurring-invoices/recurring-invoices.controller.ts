@@ -0,0 +1,157 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  applyDecorators,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { RecurringInvoicesService } from './recurring-invoices.service';
+import { TenantContextGuard } from '../common/guards/tenant-context.guard';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import { TenantContext } from '../common/decorators/tenant-context.decorator';
+import { CreateRecurringInvoiceDto } from './dto/create-recurring-invoice.dto';
+import { UpdateRecurringInvoiceDto } from './dto/update-recurring-invoice.dto';
+
+// Custom decorator to apply guards to specific routes (not controller-level)
+function Protected() {
+  return applyDecorators(
+    ApiBearerAuth(),
+    UseGuards(TenantContextGuard, PermissionsGuard),
+  );
+}
+
+@ApiTags('recurring-invoices')
+@Controller('recurring-invoices')
+export class RecurringInvoicesController {
+  constructor(
+    private readonly recurringInvoicesService: RecurringInvoicesService,
+  ) {}
+
+  @Get()
+  @Protected()
+  @ApiOperation({ summary: 'Get all recurring invoice profiles' })
+  @ApiQuery({ name: 'isActive', required: false, type: Boolean })
+  @ApiQuery({ name: 'customerId', required: false })
+  @ApiResponse({
+    status: 200,
+    description: 'List of recurring invoice profiles',
+  })
+  @RequirePermissions({ module: 'invoices', action: 'view' })
+  findAll(
+    @TenantContext('tenantId') tenantId: string,
+    @Query('isActive') isActive?: string,
+    @Query('customerId') customerId?: string,
+  ) {
+    return this.recurringInvoicesService.findAll(tenantId, {
+      isActive: isActive === undefined ? undefined : isActive === 'true',
+      customerId,
+    });
+  }
+
+  @Get(':id')
+  @Protected()
+  @ApiOperation({ summary: 'Get a recurring invoice profile' })
+  @ApiResponse({
+    status: 200,
+    description: 'Recurring invoice profile details',
+  })
+  @RequirePermissions({ module: 'invoices', action: 'view' })
+  findOne(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.recurringInvoicesService.findOne(id, tenantId);
+  }
+
+  @Get(':id/occurrences')
+  @Protected()
+  @ApiOperation({
+    summary: 'Get upcoming dates, generation history and failures of a profile',
+  })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Upcoming dates, generated invoices and failures',
+  })
+  @RequirePermissions({ module: 'invoices', action: 'view' })
+  getOccurrences(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+    @Query('limit') limit?: number,
+  ) {
+    return this.recurringInvoicesService.getOccurrences(
+      id,
+      tenantId,
+      limit || 12,
+    );
+  }
+
+  @Post()
+  @Protected()
+  @ApiOperation({ summary: 'Create a recurring invoice profile' })
+  @ApiResponse({
+    status: 201,
+    description: 'Recurring invoice profile created',
+  })
+  @RequirePermissions({
+    module: 'invoices',
+    action: 'create',
+    resource: 'sales',
+  })
+  create(
+    @Body() createDto: CreateRecurringInvoiceDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
+  ) {
+    return this.recurringInvoicesService.create(createDto, tenantId, userId);
+  }
+
+  @Patch(':id')
+  @Protected()
+  @ApiOperation({ summary: 'Update a recurring invoice profile' })
+  @ApiResponse({
+    status: 200,
+    description: 'Recurring invoice profile updated',
+  })
+  @RequirePermissions({
+    module: 'invoices',
+    action: 'create',
+    resource: 'sales',
+  })
+  update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateRecurringInvoiceDto,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.recurringInvoicesService.update(id, updateDto, tenantId);
+  }
+
+  @Delete(':id')
+  @Protected()
+  @ApiOperation({ summary: 'Delete a recurring invoice profile' })
+  @ApiResponse({
+    status: 200,
+    description: 'Recurring invoice profile deleted',
+  })
+  @RequirePermissions({
+    module: 'invoices',
+    action: 'create',
+    resource: 'sales',
+  })
+  remove(@Param('id') id: string, @TenantContext('tenantId') tenantId: string) {
+    return this.recurringInvoicesService.remove(id, tenantId);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { RecurringInvoicesService } from './recurring-invoices.service';
+import { RecurringInvoicesController } from './recurring-invoices.controller';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { InvoicesModule } from '../invoices/invoices.module';
+import { EmailModule } from '../email/email.module';
+import { PdfModule } from '../pdf/pdf.module';
+
+@Module({
+  imports: [SupabaseModule, InvoicesModule, EmailModule, PdfModule],
+  controllers: [RecurringInvoicesController],
+  providers: [RecurringInvoicesService],
+  exports: [RecurringInvoicesService],
+})
+export class RecurringInvoicesModule {}
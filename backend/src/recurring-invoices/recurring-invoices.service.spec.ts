@@ -0,0 +1,448 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, Logger } from '@nestjs/common';
+import { RecurringInvoicesService } from './recurring-invoices.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { InvoicesService } from '../invoices/invoices.service';
+import { EmailService } from '../email/email.service';
+import { PdfService } from '../pdf/pdf.service';
+import { queryResult } from '../../test/utils/query-result';
+
+describe('RecurringInvoicesService', () => {
+  let service: RecurringInvoicesService;
+  let tables: Record<string, any[]>;
+  let mockSupabaseClient: any;
+  let invoicesService: Record<string, jest.Mock>;
+  let emailService: { sendInvoiceEmail: jest.Mock };
+
+  const mockTenantId = 'test-tenant-id';
+  const mockUserId = 'test-user-id';
+
+  const dueProfile = {
+    id: 'profile-1',
+    tenant_id: mockTenantId,
+    branch_id: null,
+    name: 'Monthly retainer',
+    customer_id: 'customer-1',
+    customer: {
+      id: 'customer-1',
+      name_en: 'Acme',
+      email: 'ap@acme.test',
+    },
+    currency: 'QAR',
+    exchange_rate: 1,
+    payment_terms_days: null,
+    frequency: 'monthly',
+    day_of_month: 1,
+    start_date: '2026-01-01',
+    end_date: null,
+    next_run_date: '2026-10-01',
+    last_run_date: '2026-09-01',
+    auto_submit: true,
+    auto_approve: true,
+    auto_post: true,
+    auto_email: true,
+    email_language: 'en',
+    occurrences_generated: 9,
+    created_by: mockUserId,
+    recurring_invoice_profile_lines: [
+      {
+        line_number: 1,
+        description_ar: 'أتعاب شهرية',
+        quantity: 1,
+        unit_price: 2000,
+        discount_percentage: 0,
+        vat_code_id: 'vat-5',
+        account_id: 'revenue-1',
+      },
+    ],
+  };
+
+  const createdInvoice = {
+    id: 'invoice-1',
+    invoice_number: 'INV-2026-000010',
+    total_amount: 2100,
+    due_date: '2026-10-31',
+    currency: 'QAR',
+  };
+
+  beforeEach(async () => {
+    tables = {};
+    mockSupabaseClient = {
+      from: jest.fn((table: string) => tables[table].shift()),
+    };
+    invoicesService = {
+      create: jest.fn().mockResolvedValue(createdInvoice),
+      submit: jest.fn().mockResolvedValue({}),
+      approve: jest.fn().mockResolvedValue({}),
+      post: jest.fn().mockResolvedValue({}),
+    };
+    emailService = {
+      sendInvoiceEmail: jest.fn().mockResolvedValue({ success: true }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RecurringInvoicesService,
+        {
+          provide: SupabaseService,
+          useValue: {
+            getClient: jest.fn().mockReturnValue(mockSupabaseClient),
+            getServiceRoleClient: jest.fn().mockReturnValue(mockSupabaseClient),
+          },
+        },
+        { provide: InvoicesService, useValue: invoicesService },
+        { provide: EmailService, useValue: emailService },
+        {
+          provide: PdfService,
+          useValue: {
+            generateInvoicePdf: jest.fn().mockResolvedValue(Buffer.from('pdf')),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RecurringInvoicesService>(RecurringInvoicesService);
+  });
+
+  function givenDueProfile(profile: any) {
+    const schedule = queryResult({ data: null, error: null });
+    const claim = queryResult({ data: null, error: null });
+    const run = queryResult({ data: null, error: null });
+    tables.recurring_invoice_profiles = [
+      queryResult({ data: [profile], error: null }),
+      schedule,
+    ];
+    tables.recurring_invoice_runs = [claim, run];
+    tables.vat_codes = [
+      queryResult({
+        data: [{ id: 'vat-5', name_en: 'VAT 5%', rate: 5 }],
+        error: null,
+      }),
+    ];
+    return { schedule, claim, run };
+  }
+
+  // The occurrence already has a run, which is not claimed back for a retry
+  function givenExistingRun(status: string) {
+    tables.recurring_invoice_runs = [
+      queryResult({ data: null, error: { code: '23505' } }),
+      queryResult({ data: [], error: null }),
+      queryResult({ data: { status }, error: null }),
+    ];
+  }
+
+  describe('generateDue', () => {
+    it('should create, post and email the due invoice and advance the schedule', async () => {
+      const { schedule, claim, run } = givenDueProfile(dueProfile);
+
+      const result = await service.generateDue(new Date('2026-10-15'));
+
+      expect(result).toEqual({
+        profilesProcessed: 1,
+        invoicesCreated: 1,
+        failures: 0,
+      });
+      expect(claim.insert).toHaveBeenCalledWith({
+        profile_id: dueProfile.id,
+        tenant_id: mockTenantId,
+        occurrence_date: '2026-10-01',
+        status: 'pending',
+      });
+      expect(invoicesService.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          invoiceType: 'sales',
+          partyId: 'customer-1',
+          invoiceDate: new Date('2026-10-01T00:00:00Z'),
+          // Left to the customer's payment terms
+          dueDate: undefined,
+          totalAmount: 2100,
+          taxes: [
+            {
+              taxCodeId: 'vat-5',
+              taxType: 'output',
+              taxName: 'VAT 5%',
+              taxPercentage: 5,
+              taxableAmount: 2000,
+              taxAmount: 100,
+            },
+          ],
+        }),
+        mockTenantId,
+        mockUserId,
+        null,
+      );
+      expect(invoicesService.post).toHaveBeenCalledWith(
+        'invoice-1',
+        mockTenantId,
+        mockUserId,
+      );
+      expect(emailService.sendInvoiceEmail).toHaveBeenCalledWith(
+        'invoice-1',
+        'ap@acme.test',
+        mockTenantId,
+        expect.objectContaining({ invoiceNumber: 'INV-2026-000010' }),
+        'en',
+        expect.any(Buffer),
+      );
+      expect(run.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          occurrence_date: '2026-10-01',
+          invoice_id: 'invoice-1',
+          status: 'emailed',
+          error_message: null,
+          emailed_to: 'ap@acme.test',
+        }),
+        { onConflict: 'profile_id,occurrence_date' },
+      );
+      expect(schedule.update).toHaveBeenCalledWith({
+        next_run_date: '2026-11-01',
+        last_run_date: '2026-10-01',
+        occurrences_generated: 10,
+      });
+    });
+
+    it("should use the profile's own payment terms for the due date", async () => {
+      givenDueProfile({ ...dueProfile, payment_terms_days: 15 });
+
+      await service.generateDue(new Date('2026-10-15'));
+
+      expect(invoicesService.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          dueDate: new Date('2026-10-16T00:00:00Z'),
+        }),
+        mockTenantId,
+        mockUserId,
+        null,
+      );
+    });
+
+    it('should keep a generated invoice and record the error when posting fails', async () => {
+      const { run } = givenDueProfile(dueProfile);
+      invoicesService.post.mockRejectedValue(new Error('Period is locked'));
+
+      await service.generateDue(new Date('2026-10-15'));
+
+      expect(run.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          invoice_id: 'invoice-1',
+          status: 'approved',
+          error_message: 'Auto-post failed: Period is locked',
+        }),
+        expect.anything(),
+      );
+      expect(emailService.sendInvoiceEmail).not.toHaveBeenCalled();
+    });
+
+    it('should record a failed occurrence and keep the profile on that date', async () => {
+      const { schedule, run } = givenDueProfile(dueProfile);
+      invoicesService.create.mockRejectedValue(
+        new BadRequestException('Customer is inactive'),
+      );
+
+      const result = await service.generateDue(new Date('2026-10-15'));
+
+      expect(result.failures).toBe(1);
+      expect(run.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 'failed',
+          invoice_id: null,
+          error_message: 'Customer is inactive',
+        }),
+        expect.anything(),
+      );
+      expect(schedule.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          next_run_date: '2026-10-01',
+          last_run_date: '2026-09-01',
+        }),
+      );
+    });
+    it('should skip an occurrence that was already generated', async () => {
+      const { schedule } = givenDueProfile(dueProfile);
+      givenExistingRun('posted');
+
+      const result = await service.generateDue(new Date('2026-10-15'));
+
+      expect(result.invoicesCreated).toBe(0);
+      expect(invoicesService.create).not.toHaveBeenCalled();
+      expect(schedule.update).toHaveBeenCalledWith(
+        expect.objectContaining({ next_run_date: '2026-11-01' }),
+      );
+    });
+
+    it('should leave an occurrence another run is generating to that run', async () => {
+      const { schedule } = givenDueProfile(dueProfile);
+      givenExistingRun('pending');
+
+      const result = await service.generateDue(new Date('2026-10-15'));
+
+      expect(result.invoicesCreated).toBe(0);
+      expect(invoicesService.create).not.toHaveBeenCalled();
+      expect(schedule.update).toHaveBeenCalledWith(
+        expect.objectContaining({ next_run_date: '2026-10-01' }),
+      );
+    });
+
+    it('should claim a failed occurrence back and retry it', async () => {
+      const { run } = givenDueProfile(dueProfile);
+      const retry = queryResult({ data: [{ id: 'run-1' }], error: null });
+      tables.recurring_invoice_runs = [
+        queryResult({ data: null, error: { code: '23505' } }),
+        retry,
+        run,
+      ];
+
+      const result = await service.generateDue(new Date('2026-10-15'));
+
+      expect(result.invoicesCreated).toBe(1);
+      expect(retry.update).toHaveBeenCalledWith({
+        status: 'pending',
+        error_message: null,
+      });
+      expect(retry.eq).toHaveBeenCalledWith('status', 'failed');
+    });
+
+    it('should move the schedule on when the run of a generated invoice cannot be saved', async () => {
+      const { schedule } = givenDueProfile(dueProfile);
+      tables.recurring_invoice_runs[1] = queryResult({
+        data: null,
+        error: new Error('Connection lost'),
+      });
+      const logError = jest
+        .spyOn(Logger.prototype, 'error')
+        .mockImplementation();
+
+      const result = await service.generateDue(new Date('2026-10-15'));
+
+      expect(result).toEqual({
+        profilesProcessed: 1,
+        invoicesCreated: 1,
+        failures: 0,
+      });
+      expect(schedule.update).toHaveBeenCalledWith(
+        expect.objectContaining({ next_run_date: '2026-11-01' }),
+      );
+      expect(logError).toHaveBeenCalledWith(
+        expect.stringContaining('INV-2026-000010 was generated'),
+      );
+      logError.mockRestore();
+    });
+
+    it('should count a profile whose schedule cannot be saved and go on with the others', async () => {
+      const { run } = givenDueProfile(dueProfile);
+      tables.recurring_invoice_profiles = [
+        queryResult({
+          data: [dueProfile, { ...dueProfile, id: 'profile-2' }],
+          error: null,
+        }),
+        queryResult({ data: null, error: new Error('Connection lost') }),
+        queryResult({ data: null, error: null }),
+      ];
+      tables.recurring_invoice_runs.push(
+        queryResult({ data: null, error: null }),
+        run,
+      );
+      tables.vat_codes.push(tables.vat_codes[0]);
+      const logError = jest
+        .spyOn(Logger.prototype, 'error')
+        .mockImplementation();
+
+      const result = await service.generateDue(new Date('2026-10-15'));
+
+      expect(result).toEqual({
+        profilesProcessed: 2,
+        invoicesCreated: 1,
+        failures: 1,
+      });
+      expect(invoicesService.create).toHaveBeenCalledTimes(2);
+      expect(logError).toHaveBeenCalledWith(
+        expect.stringContaining(
+          `profile ${dueProfile.id} could not be generated`,
+        ),
+      );
+      logError.mockRestore();
+    });
+  });
+
+  describe('create', () => {
+    it('should reject automatic email without automatic posting', async () => {
+      tables.customers = [
+        queryResult({
+          data: { id: 'customer-1', is_active: true },
+          error: null,
+        }),
+      ];
+
+      await expect(
+        service.create(
+          {
+            name: 'Monthly retainer',
+            customerId: 'customer-1',
+            frequency: 'monthly',
+            dayOfMonth: 1,
+            startDate: new Date('2026-11-01'),
+            autoEmail: true,
+            lines: [
+              {
+                lineNumber: 1,
+                descriptionAr: 'أتعاب شهرية',
+                quantity: 1,
+                unitPrice: 2000,
+              },
+            ],
+          },
+          mockTenantId,
+          mockUserId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should turn on the earlier steps when automatic posting is requested', async () => {
+      const insert = queryResult({ data: { id: 'profile-1' }, error: null });
+      tables.customers = [
+        queryResult({
+          data: { id: 'customer-1', is_active: true },
+          error: null,
+        }),
+      ];
+      tables.recurring_invoice_profiles = [
+        insert,
+        queryResult({ data: dueProfile, error: null }),
+      ];
+      tables.recurring_invoice_profile_lines = [
+        queryResult({ data: null, error: null }),
+      ];
+
+      await service.create(
+        {
+          name: 'Monthly retainer',
+          customerId: 'customer-1',
+          frequency: 'monthly',
+          dayOfMonth: 31,
+          startDate: new Date('2026-02-10'),
+          autoPost: true,
+          lines: [
+            {
+              lineNumber: 1,
+              descriptionAr: 'أتعاب شهرية',
+              quantity: 1,
+              unitPrice: 2000,
+            },
+          ],
+        },
+        mockTenantId,
+        mockUserId,
+      );
+
+      expect(insert.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          next_run_date: '2026-02-28',
+          auto_submit: true,
+          auto_approve: true,
+          auto_post: true,
+          auto_email: false,
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,916 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { InvoicesService } from '../invoices/invoices.service';
+import { EmailService } from '../email/email.service';
+import { PdfService } from '../pdf/pdf.service';
+import { CreateRecurringInvoiceDto } from './dto/create-recurring-invoice.dto';
+import { UpdateRecurringInvoiceDto } from './dto/update-recurring-invoice.dto';
+import { RecurringInvoiceLineDto } from './dto/recurring-invoice-line.dto';
+import {
+  getFirstOccurrence,
+  getNextOccurrence,
+  addDays,
+  toDateString,
+} from '../common/utils/recurrence';
+
+interface Automation {
+  auto_submit: boolean;
+  auto_approve: boolean;
+  auto_post: boolean;
+  auto_email: boolean;
+}
+
+@Injectable()
+export class RecurringInvoicesService {
+  private readonly logger = new Logger(RecurringInvoicesService.name);
+
+  constructor(
+    private supabaseService: SupabaseService,
+    private invoicesService: InvoicesService,
+    private emailService: EmailService,
+    private pdfService: PdfService,
+  ) {}
+
+  async findAll(
+    tenantId: string,
+    filters?: { isActive?: boolean; customerId?: string },
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    let query = supabase
+      .from('recurring_invoice_profiles')
+      .select(
+        `
+        *,
+        customer:customers(id, code, name_en, name_ar),
+        recurring_invoice_profile_lines(*)
+      `,
+      )
+      .eq('tenant_id', tenantId)
+      .order('name', { ascending: true });
+
+    if (filters?.isActive !== undefined) {
+      query = query.eq('is_active', filters.isActive);
+    }
+
+    if (filters?.customerId) {
+      query = query.eq('customer_id', filters.customerId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  async findOne(id: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('recurring_invoice_profiles')
+      .select(
+        `
+        *,
+        customer:customers(id, code, name_en, name_ar, email),
+        recurring_invoice_profile_lines(
+          *,
+          vat_codes(id, code, name_en, name_ar, rate),
+          chart_of_accounts(id, code, name_en, name_ar),
+          cost_centers(id, code, name_en, name_ar)
+        )
+      `,
+      )
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (error || !data) {
+      throw new NotFoundException('Recurring invoice profile not found');
+    }
+
+    return data;
+  }
+
+  async create(
+    createDto: CreateRecurringInvoiceDto,
+    tenantId: string,
+    userId: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const automation = this.resolveAutomation(createDto);
+    await this.validateCustomer(createDto.customerId, tenantId);
+    await this.validateLines(createDto.lines, tenantId);
+
+    const startDate = toDateString(createDto.startDate);
+    const endDate = createDto.endDate ? toDateString(createDto.endDate) : null;
+
+    if (endDate && endDate < startDate) {
+      throw new BadRequestException('End date must be on or after start date');
+    }
+
+    const nextRunDate = getFirstOccurrence(createDto.dayOfMonth, startDate);
+
+    const { data: profile, error: profileError } = await supabase
+      .from('recurring_invoice_profiles')
+      .insert({
+        tenant_id: tenantId,
+        branch_id: createDto.branchId,
+        name: createDto.name,
+        customer_id: createDto.customerId,
+        currency: createDto.currency || 'QAR',
+        exchange_rate: createDto.exchangeRate || 1,
+        payment_terms_days: createDto.paymentTermsDays,
+        notes: createDto.notes,
+        frequency: createDto.frequency,
+        day_of_month: createDto.dayOfMonth,
+        start_date: startDate,
+        end_date: endDate,
+        next_run_date: endDate && nextRunDate > endDate ? null : nextRunDate,
+        ...automation,
+        email_language: createDto.emailLanguage || 'en',
+        is_active: createDto.isActive ?? true,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (profileError) {
+      throw profileError;
+    }
+
+    const { error: linesError } = await supabase
+      .from('recurring_invoice_profile_lines')
+      .insert(this.mapLines(createDto.lines, profile.id, tenantId));
+
+    if (linesError) {
+      // Rollback profile creation
+      await supabase
+        .from('recurring_invoice_profiles')
+        .delete()
+        .eq('id', profile.id);
+      throw linesError;
+    }
+
+    return this.findOne(profile.id, tenantId);
+  }
+
+  async update(
+    id: string,
+    updateDto: UpdateRecurringInvoiceDto,
+    tenantId: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const existing = await this.findOne(id, tenantId);
+
+    if (updateDto.customerId) {
+      await this.validateCustomer(updateDto.customerId, tenantId);
+    }
+
+    if (updateDto.lines) {
+      await this.validateLines(updateDto.lines, tenantId);
+    }
+
+    const updateData: any = {};
+    if (updateDto.branchId !== undefined)
+      updateData.branch_id = updateDto.branchId;
+    if (updateDto.name !== undefined) updateData.name = updateDto.name;
+    if (updateDto.customerId !== undefined)
+      updateData.customer_id = updateDto.customerId;
+    if (updateDto.currency !== undefined)
+      updateData.currency = updateDto.currency;
+    if (updateDto.exchangeRate !== undefined)
+      updateData.exchange_rate = updateDto.exchangeRate;
+    if (updateDto.paymentTermsDays !== undefined)
+      updateData.payment_terms_days = updateDto.paymentTermsDays;
+    if (updateDto.notes !== undefined) updateData.notes = updateDto.notes;
+    if (updateDto.emailLanguage !== undefined)
+      updateData.email_language = updateDto.emailLanguage;
+    if (updateDto.isActive !== undefined)
+      updateData.is_active = updateDto.isActive;
+
+    const automationChanged =
+      updateDto.autoSubmit !== undefined ||
+      updateDto.autoApprove !== undefined ||
+      updateDto.autoPost !== undefined ||
+      updateDto.autoEmail !== undefined;
+
+    if (automationChanged) {
+      Object.assign(
+        updateData,
+        this.resolveAutomation({
+          autoSubmit: updateDto.autoSubmit ?? existing.auto_submit,
+          autoApprove: updateDto.autoApprove ?? existing.auto_approve,
+          autoPost: updateDto.autoPost ?? existing.auto_post,
+          autoEmail: updateDto.autoEmail ?? existing.auto_email,
+        }),
+      );
+    }
+
+    // Recompute the schedule when the recurrence rule changes
+    const ruleChanged =
+      updateDto.frequency !== undefined ||
+      updateDto.dayOfMonth !== undefined ||
+      updateDto.startDate !== undefined ||
+      updateDto.endDate !== undefined;
+
+    if (ruleChanged) {
+      const frequency = updateDto.frequency ?? existing.frequency;
+      const dayOfMonth = updateDto.dayOfMonth ?? existing.day_of_month;
+      const startDate = updateDto.startDate
+        ? toDateString(updateDto.startDate)
+        : existing.start_date;
+      const endDate = updateDto.endDate
+        ? toDateString(updateDto.endDate)
+        : existing.end_date;
+
+      if (endDate && endDate < startDate) {
+        throw new BadRequestException(
+          'End date must be on or after start date',
+        );
+      }
+
+      // Never schedule an occurrence on or before the last generated one
+      let from = startDate;
+      if (existing.last_run_date && existing.last_run_date >= from) {
+        from = addDays(existing.last_run_date, 1);
+      }
+
+      const nextRunDate = getFirstOccurrence(dayOfMonth, from);
+
+      updateData.frequency = frequency;
+      updateData.day_of_month = dayOfMonth;
+      updateData.start_date = startDate;
+      updateData.end_date = endDate;
+      updateData.next_run_date =
+        endDate && nextRunDate > endDate ? null : nextRunDate;
+    }
+
+    if (Object.keys(updateData).length > 0) {
+      const { error } = await supabase
+        .from('recurring_invoice_profiles')
+        .update(updateData)
+        .eq('id', id)
+        .eq('tenant_id', tenantId);
+
+      if (error) {
+        throw error;
+      }
+    }
+
+    if (updateDto.lines) {
+      await supabase
+        .from('recurring_invoice_profile_lines')
+        .delete()
+        .eq('profile_id', id);
+
+      const { error: linesError } = await supabase
+        .from('recurring_invoice_profile_lines')
+        .insert(this.mapLines(updateDto.lines, id, tenantId));
+
+      if (linesError) {
+        throw linesError;
+      }
+    }
+
+    return this.findOne(id, tenantId);
+  }
+
+  async remove(id: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    await this.findOne(id, tenantId);
+
+    const { error } = await supabase
+      .from('recurring_invoice_profiles')
+      .delete()
+      .eq('id', id)
+      .eq('tenant_id', tenantId);
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Get upcoming scheduled dates, the invoices generated so far and the
+   * occurrences that failed or only partly completed
+   */
+  async getOccurrences(id: string, tenantId: string, limit = 12) {
+    const supabase = this.supabaseService.getClient();
+
+    const profile = await this.findOne(id, tenantId);
+
+    const upcoming: string[] = [];
+    let next: string | null = profile.is_active ? profile.next_run_date : null;
+
+    while (next && upcoming.length < limit) {
+      if (profile.end_date && next > profile.end_date) {
+        break;
+      }
+      upcoming.push(next);
+      next = getNextOccurrence(profile.frequency, profile.day_of_month, next);
+    }
+
+    const { data: generated, error } = await supabase
+      .from('recurring_invoice_runs')
+      .select(
+        `
+        *,
+        invoices(id, invoice_number, status, total_amount, balance_amount)
+      `,
+      )
+      .eq('profile_id', id)
+      .eq('tenant_id', tenantId)
+      .order('occurrence_date', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    // A run left pending was claimed but never finished
+    const failures = (generated || []).filter(
+      (run) => run.error_message || run.status === 'pending',
+    );
+
+    return { upcoming, generated, failures };
+  }
+
+  /**
+   * Generate all invoices that are due on or before the given date, for
+   * the given tenant or every tenant. Called by the recurring-invoices queue.
+   *
+   * Like recurring journals, a profile that missed several dates catches up
+   * one occurrence at a time and stays on a date whose invoice could not be
+   * created so it is retried on the next run.
+   */
+  async generateDue(asOfDate: Date = new Date(), tenantId?: string) {
+    const supabase = this.supabaseService.getServiceRoleClient();
+    const asOf = toDateString(asOfDate);
+
+    let query = supabase
+      .from('recurring_invoice_profiles')
+      .select(
+        '*, customer:customers(id, name_en, name_ar, email), recurring_invoice_profile_lines(*)',
+      )
+      .eq('is_active', true)
+      .not('next_run_date', 'is', null)
+      .lte('next_run_date', asOf);
+
+    if (tenantId) {
+      query = query.eq('tenant_id', tenantId);
+    }
+
+    const { data: profiles, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    let invoicesCreated = 0;
+    let failures = 0;
+
+    for (const profile of profiles || []) {
+      // One profile's failure (e.g. its schedule could not be saved) must not
+      // stop the others
+      try {
+        const result = await this.generateForProfile(profile, asOf);
+        invoicesCreated += result.created;
+        failures += result.failed;
+      } catch (error) {
+        this.logger.error(
+          `Recurring invoice profile ${profile.id} could not be generated: ${error.message}`,
+        );
+        failures++;
+      }
+    }
+
+    return {
+      profilesProcessed: profiles?.length || 0,
+      invoicesCreated,
+      failures,
+    };
+  }
+
+  private async generateForProfile(profile: any, asOf: string) {
+    const supabase = this.supabaseService.getServiceRoleClient();
+
+    let created = 0;
+    let failed = 0;
+    let nextRunDate: string | null = profile.next_run_date;
+    let lastRunDate: string | null = profile.last_run_date;
+
+    while (nextRunDate && nextRunDate <= asOf) {
+      if (profile.end_date && nextRunDate > profile.end_date) {
+        nextRunDate = null;
+        break;
+      }
+
+      const occurrenceDate = nextRunDate;
+
+      const claim = await this.claimOccurrence(profile, occurrenceDate);
+
+      if (claim === 'busy') {
+        // Another run is generating this occurrence and moves the schedule on
+        break;
+      }
+
+      if (claim === 'claimed') {
+        let invoice: any;
+
+        try {
+          invoice = await this.createInvoice(profile, occurrenceDate);
+        } catch (error) {
+          this.logger.warn(
+            `Recurring invoice profile ${profile.id} failed for ${occurrenceDate}: ${error.message}`,
+          );
+          await this.saveRun(profile, occurrenceDate, {
+            status: 'failed',
+            invoice_id: null,
+            error_message: error.message,
+          });
+          failed++;
+          break;
+        }
+
+        // The invoice exists from here on - a failed step leaves it for
+        // manual processing rather than generating it again, and the claimed
+        // occurrence is not generated again even if its run cannot be saved
+        const run = await this.processInvoice(profile, invoice);
+        try {
+          await this.saveRun(profile, occurrenceDate, {
+            invoice_id: invoice.id,
+            ...run,
+          });
+        } catch (error) {
+          this.logger.error(
+            `Recurring invoice ${invoice.invoice_number} was generated but its run could not be saved: ${error.message}`,
+          );
+        }
+        created++;
+      }
+
+      lastRunDate = occurrenceDate;
+      nextRunDate = getNextOccurrence(
+        profile.frequency,
+        profile.day_of_month,
+        occurrenceDate,
+      );
+
+      if (profile.end_date && nextRunDate > profile.end_date) {
+        nextRunDate = null;
+      }
+    }
+
+    const { error } = await supabase
+      .from('recurring_invoice_profiles')
+      .update({
+        next_run_date: nextRunDate,
+        last_run_date: lastRunDate,
+        occurrences_generated: (profile.occurrences_generated || 0) + created,
+      })
+      .eq('id', profile.id);
+
+    if (error) {
+      throw error;
+    }
+
+    return { created, failed };
+  }
+
+  /**
+   * Claim an occurrence by inserting its pending run; the unique
+   * profile/occurrence date key lets only one run generate it. A failed
+   * occurrence is claimed back for a retry. Returns 'done' when the
+   * occurrence was already generated and 'busy' while another run holds it.
+   */
+  private async claimOccurrence(
+    profile: any,
+    occurrenceDate: string,
+  ): Promise<'claimed' | 'done' | 'busy'> {
+    const supabase = this.supabaseService.getServiceRoleClient();
+
+    const { error } = await supabase.from('recurring_invoice_runs').insert({
+      profile_id: profile.id,
+      tenant_id: profile.tenant_id,
+      occurrence_date: occurrenceDate,
+      status: 'pending',
+    });
+
+    if (!error) {
+      return 'claimed';
+    }
+
+    // 23505 = unique violation: the occurrence already has a run
+    if (error.code !== '23505') {
+      throw error;
+    }
+
+    const { data: retried, error: retryError } = await supabase
+      .from('recurring_invoice_runs')
+      .update({ status: 'pending', error_message: null })
+      .eq('profile_id', profile.id)
+      .eq('occurrence_date', occurrenceDate)
+      .eq('status', 'failed')
+      .select('id');
+
+    if (retryError) {
+      throw retryError;
+    }
+
+    if (retried && retried.length > 0) {
+      return 'claimed';
+    }
+
+    const { data: existingRun, error: runError } = await supabase
+      .from('recurring_invoice_runs')
+      .select('status')
+      .eq('profile_id', profile.id)
+      .eq('occurrence_date', occurrenceDate)
+      .single();
+
+    if (runError) {
+      throw runError;
+    }
+
+    return existingRun.status === 'pending' ? 'busy' : 'done';
+  }
+
+  private async createInvoice(profile: any, occurrenceDate: string) {
+    const supabase = this.supabaseService.getServiceRoleClient();
+
+    const lines = [...profile.recurring_invoice_profile_lines].sort(
+      (a, b) => a.line_number - b.line_number,
+    );
+
+    // Current rates of the VAT codes on the profile
+    const vatCodeIds = [
+      ...new Set(lines.map((l) => l.vat_code_id).filter(Boolean)),
+    ];
+    const vatCodes = new Map<string, any>();
+    if (vatCodeIds.length > 0) {
+      const { data, error } = await supabase
+        .from('vat_codes')
+        .select('id, name_en, rate')
+        .eq('tenant_id', profile.tenant_id)
+        .in('id', vatCodeIds);
+
+      if (error) {
+        throw error;
+      }
+
+      for (const vatCode of data || []) {
+        vatCodes.set(vatCode.id, vatCode);
+      }
+    }
+
+    const taxes = new Map<string, any>();
+    const invoiceLines = lines.map((line) => {
+      const vatCode = line.vat_code_id ? vatCodes.get(line.vat_code_id) : null;
+      if (line.vat_code_id && !vatCode) {
+        throw new BadRequestException(
+          `VAT code of line ${line.line_number} no longer exists`,
+        );
+      }
+
+      const subtotal = Number(line.quantity) * Number(line.unit_price);
+      const discountAmount = this.round(
+        (subtotal * Number(line.discount_percentage || 0)) / 100,
+      );
+      const taxableAmount = this.round(subtotal - discountAmount);
+      const taxPercentage = vatCode ? Number(vatCode.rate) : 0;
+      const taxAmount = this.round((taxableAmount * taxPercentage) / 100);
+
+      if (vatCode) {
+        const tax = taxes.get(vatCode.id) || {
+          taxCodeId: vatCode.id,
+          taxType: 'output' as const,
+          taxName: vatCode.name_en,
+          taxPercentage,
+          taxableAmount: 0,
+          taxAmount: 0,
+        };
+        tax.taxableAmount = this.round(tax.taxableAmount + taxableAmount);
+        tax.taxAmount = this.round(tax.taxAmount + taxAmount);
+        taxes.set(vatCode.id, tax);
+      }
+
+      return {
+        lineNumber: line.line_number,
+        itemCode: line.item_code,
+        descriptionAr: line.description_ar,
+        descriptionEn: line.description_en,
+        quantity: Number(line.quantity),
+        unitOfMeasure: line.unit_of_measure,
+        unitPrice: Number(line.unit_price),
+        discountAmount,
+        discountPercentage: Number(line.discount_percentage || 0),
+        taxableAmount,
+        taxCodeId: vatCode?.id,
+        taxPercentage,
+        taxAmount,
+        lineTotal: this.round(taxableAmount + taxAmount),
+        accountId: line.account_id,
+        costCenterId: line.cost_center_id,
+      };
+    });
+
+    // Without terms of its own on the profile, the due date comes from the
+    // customer's payment terms
+    const paymentTermsDays = profile.payment_terms_days;
+
+    return this.invoicesService.create(
+      {
+        tenantId: profile.tenant_id,
+        invoiceType: 'sales',
+        partyId: profile.customer_id,
+        partyType: 'customer',
+        invoiceDate: new Date(`${occurrenceDate}T00:00:00Z`),
+        dueDate:
+          paymentTermsDays != null
+            ? new Date(
+                `${addDays(occurrenceDate, Number(paymentTermsDays))}T00:00:00Z`,
+              )
+            : undefined,
+        currency: profile.currency,
+        exchangeRate: Number(profile.exchange_rate) || 1,
+        totalAmount: this.round(
+          invoiceLines.reduce((sum, line) => sum + line.lineTotal, 0),
+        ),
+        notes: profile.notes,
+        internalNotes: `Generated from recurring invoice profile ${profile.name}`,
+        lines: invoiceLines,
+        taxes: [...taxes.values()],
+      },
+      profile.tenant_id,
+      profile.created_by,
+      profile.branch_id,
+    );
+  }
+
+  /**
+   * Runs the automatic steps of a profile on a generated invoice and returns
+   * the last step reached with the error that stopped it, if any
+   */
+  private async processInvoice(profile: any, invoice: any) {
+    const steps: Array<{
+      enabled: boolean;
+      action: string;
+      status: string;
+      run: () => Promise<unknown>;
+    }> = [
+      {
+        enabled: profile.auto_submit,
+        action: 'submit',
+        status: 'submitted',
+        run: () =>
+          this.invoicesService.submit(
+            invoice.id,
+            profile.tenant_id,
+            profile.created_by,
+          ),
+      },
+      {
+        enabled: profile.auto_approve,
+        action: 'approve',
+        status: 'approved',
+        run: () =>
+          this.invoicesService.approve(
+            invoice.id,
+            profile.tenant_id,
+            profile.created_by,
+          ),
+      },
+      {
+        enabled: profile.auto_post,
+        action: 'post',
+        status: 'posted',
+        run: () =>
+          this.invoicesService.post(
+            invoice.id,
+            profile.tenant_id,
+            profile.created_by,
+          ),
+      },
+    ];
+
+    let status = 'generated';
+
+    for (const step of steps) {
+      if (!step.enabled) {
+        break;
+      }
+
+      try {
+        await step.run();
+        status = step.status;
+      } catch (error) {
+        this.logger.warn(
+          `Recurring invoice ${invoice.invoice_number} could not be ${step.status}: ${error.message}`,
+        );
+        return {
+          status,
+          error_message: `Auto-${step.action} failed: ${error.message}`,
+        };
+      }
+    }
+
+    if (!profile.auto_email || status !== 'posted') {
+      return { status, error_message: null };
+    }
+
+    const recipient = profile.customer?.email;
+    if (!recipient) {
+      return {
+        status,
+        error_message: 'Email not sent: the customer has no email address',
+      };
+    }
+
+    const language = profile.email_language || 'en';
+    let result: { success: boolean; error?: string };
+
+    try {
+      const pdf = await this.pdfService.generateInvoicePdf(
+        invoice.id,
+        profile.tenant_id,
+        { language },
+      );
+      result = await this.emailService.sendInvoiceEmail(
+        invoice.id,
+        recipient,
+        profile.tenant_id,
+        {
+          invoiceNumber: invoice.invoice_number,
+          totalAmount: invoice.total_amount,
+          dueDate: invoice.due_date,
+          currency: invoice.currency,
+          customerName:
+            language === 'ar'
+              ? profile.customer.name_ar
+              : profile.customer.name_en,
+        },
+        language,
+        pdf,
+      );
+    } catch (error) {
+      result = { success: false, error: error.message };
+    }
+
+    if (!result.success) {
+      this.logger.warn(
+        `Recurring invoice ${invoice.invoice_number} could not be emailed: ${result.error}`,
+      );
+      return { status, error_message: `Email failed: ${result.error}` };
+    }
+
+    return {
+      status: 'emailed',
+      error_message: null,
+      emailed_to: recipient,
+      emailed_at: new Date().toISOString(),
+    };
+  }
+
+  private async saveRun(
+    profile: any,
+    occurrenceDate: string,
+    run: {
+      status: string;
+      invoice_id: string | null;
+      error_message: string | null;
+      emailed_to?: string;
+      emailed_at?: string;
+    },
+  ) {
+    const supabase = this.supabaseService.getServiceRoleClient();
+
+    const { error } = await supabase.from('recurring_invoice_runs').upsert(
+      {
+        profile_id: profile.id,
+        tenant_id: profile.tenant_id,
+        occurrence_date: occurrenceDate,
+        ...run,
+      },
+      { onConflict: 'profile_id,occurrence_date' },
+    );
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Each automatic step implies the ones before it; emailing needs a posted
+   * invoice
+   */
+  private resolveAutomation(dto: {
+    autoSubmit?: boolean;
+    autoApprove?: boolean;
+    autoPost?: boolean;
+    autoEmail?: boolean;
+  }): Automation {
+    if (dto.autoEmail && !dto.autoPost) {
+      throw new BadRequestException(
+        'Invoices can only be emailed automatically when they are also posted automatically',
+      );
+    }
+
+    const autoPost = dto.autoPost ?? false;
+    const autoApprove = autoPost || (dto.autoApprove ?? false);
+    const autoSubmit = autoApprove || (dto.autoSubmit ?? false);
+
+    return {
+      auto_submit: autoSubmit,
+      auto_approve: autoApprove,
+      auto_post: autoPost,
+      auto_email: dto.autoEmail ?? false,
+    };
+  }
+
+  private async validateCustomer(customerId: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: customer } = await supabase
+      .from('customers')
+      .select('id, is_active')
+      .eq('id', customerId)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (!customer) {
+      throw new BadRequestException('Customer not found');
+    }
+
+    if (!customer.is_active) {
+      throw new BadRequestException('Cannot bill an inactive customer');
+    }
+  }
+
+  private async validateLines(
+    lines: RecurringInvoiceLineDto[],
+    tenantId: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const vatCodeIds = [
+      ...new Set(lines.map((l) => l.vatCodeId).filter(Boolean)),
+    ];
+    if (vatCodeIds.length === 0) {
+      return;
+    }
+
+    const { data: vatCodes } = await supabase
+      .from('vat_codes')
+      .select('id, type, is_active')
+      .eq('tenant_id', tenantId)
+      .in('id', vatCodeIds);
+
+    if (!vatCodes || vatCodes.length !== vatCodeIds.length) {
+      throw new BadRequestException('One or more VAT codes not found');
+    }
+
+    if (vatCodes.some((v) => !v.is_active || v.type !== 'output')) {
+      throw new BadRequestException(
+        'Recurring invoices can only use active output VAT codes',
+      );
+    }
+  }
+
+  private mapLines(
+    lines: RecurringInvoiceLineDto[],
+    profileId: string,
+    tenantId: string,
+  ) {
+    return lines.map((line) => ({
+      profile_id: profileId,
+      tenant_id: tenantId,
+      line_number: line.lineNumber,
+      item_code: line.itemCode,
+      description_ar: line.descriptionAr,
+      description_en: line.descriptionEn,
+      quantity: line.quantity,
+      unit_of_measure: line.unitOfMeasure,
+      unit_price: line.unitPrice,
+      discount_percentage: line.discountPercentage || 0,
+      vat_code_id: line.vatCodeId,
+      account_id: line.accountId,
+      cost_center_id: line.costCenterId,
+    }));
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,111 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsNumber,
+  Min,
+  Max,
+  IsUUID,
+  IsDate,
+  IsArray,
+  IsBoolean,
+  ArrayNotEmpty,
+  ValidateNested,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { RecurringJournalLineDto } from './recurring-journal-line.dto';
+
+export class CreateRecurringJournalDto {
+  @IsUUID()
+  @IsOptional()
+  branchId?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @IsEnum([
+    'general',
+    'sales',
+    'purchase',
+    'receipt',
+    'payment',
+    'expense',
+    'depreciation',
+    'adjustment',
+  ])
+  @IsOptional()
+  journalType?:
+    | 'general'
+    | 'sales'
+    | 'purchase'
+    | 'receipt'
+    | 'payment'
+    | 'expense'
+    | 'depreciation'
+    | 'adjustment';
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  referenceNumber?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  descriptionAr: string;
+
+  @IsString()
+  @IsOptional()
+  descriptionEn?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(3)
+  currency?: string;
+
+  @IsNumber()
+  @IsOptional()
+  @Min(0)
+  exchangeRate?: number;
+
+  @IsString()
+  @IsOptional()
+  notes?: string;
+
+  @IsEnum(['monthly', 'quarterly', 'yearly'])
+  @IsNotEmpty()
+  frequency: 'monthly' | 'quarterly' | 'yearly';
+
+  @IsNumber()
+  @IsNotEmpty()
+  @Min(1)
+  @Max(31)
+  dayOfMonth: number;
+
+  @IsDate()
+  @IsNotEmpty()
+  @Type(() => Date)
+  startDate: Date;
+
+  @IsDate()
+  @IsOptional()
+  @Type(() => Date)
+  endDate?: Date;
+
+  @IsBoolean()
+  @IsOptional()
+  autoPost?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => RecurringJournalLineDto)
+  lines: RecurringJournalLineDto[];
+}
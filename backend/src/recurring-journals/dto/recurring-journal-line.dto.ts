@@ -0,0 +1,41 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsNumber,
+  Min,
+  IsUUID,
+} from 'class-validator';
+
+export class RecurringJournalLineDto {
+  @IsNumber()
+  @IsNotEmpty()
+  @Min(1)
+  lineNumber: number;
+
+  @IsUUID()
+  @IsNotEmpty()
+  accountId: string;
+
+  @IsString()
+  @IsOptional()
+  descriptionAr?: string;
+
+  @IsString()
+  @IsOptional()
+  descriptionEn?: string;
+
+  @IsUUID()
+  @IsOptional()
+  costCenterId?: string;
+
+  @IsNumber()
+  @IsNotEmpty()
+  @Min(0)
+  debit: number;
+
+  @IsNumber()
+  @IsNotEmpty()
+  @Min(0)
+  credit: number;
+}
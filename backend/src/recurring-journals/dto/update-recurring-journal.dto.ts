@@ -0,0 +1,6 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateRecurringJournalDto } from './create-recurring-journal.dto';
+
+export class UpdateRecurringJournalDto extends PartialType(
+  CreateRecurringJournalDto,
+) {}
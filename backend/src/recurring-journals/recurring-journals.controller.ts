@@ -0,0 +1,142 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  applyDecorators,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { RecurringJournalsService } from './recurring-journals.service';
+import { TenantContextGuard } from '../common/guards/tenant-context.guard';
+import { PermissionsGuard } from '../common/guards/permissions.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import { TenantContext } from '../common/decorators/tenant-context.decorator';
+import { CreateRecurringJournalDto } from './dto/create-recurring-journal.dto';
+import { UpdateRecurringJournalDto } from './dto/update-recurring-journal.dto';
+
+// Custom decorator to apply guards to specific routes (not controller-level)
+function Protected() {
+  return applyDecorators(
+    ApiBearerAuth(),
+    UseGuards(TenantContextGuard, PermissionsGuard),
+  );
+}
+
+@ApiTags('recurring-journals')
+@Controller('recurring-journals')
+export class RecurringJournalsController {
+  constructor(
+    private readonly recurringJournalsService: RecurringJournalsService,
+  ) {}
+
+  @Get()
+  @Protected()
+  @ApiOperation({ summary: 'Get all recurring journal templates' })
+  @ApiQuery({ name: 'isActive', required: false, type: Boolean })
+  @ApiResponse({
+    status: 200,
+    description: 'List of recurring journal templates',
+  })
+  @RequirePermissions({ module: 'journals', action: 'read' })
+  findAll(
+    @TenantContext('tenantId') tenantId: string,
+    @Query('isActive') isActive?: string,
+  ) {
+    return this.recurringJournalsService.findAll(tenantId, {
+      isActive: isActive === undefined ? undefined : isActive === 'true',
+    });
+  }
+
+  @Get(':id')
+  @Protected()
+  @ApiOperation({ summary: 'Get a recurring journal template' })
+  @ApiResponse({
+    status: 200,
+    description: 'Recurring journal template details',
+  })
+  @RequirePermissions({ module: 'journals', action: 'read' })
+  findOne(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.recurringJournalsService.findOne(id, tenantId);
+  }
+
+  @Get(':id/occurrences')
+  @Protected()
+  @ApiOperation({
+    summary: 'Get upcoming and generated occurrences of a template',
+  })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Upcoming dates and generated journals',
+  })
+  @RequirePermissions({ module: 'journals', action: 'read' })
+  getOccurrences(
+    @Param('id') id: string,
+    @TenantContext('tenantId') tenantId: string,
+    @Query('limit') limit?: number,
+  ) {
+    return this.recurringJournalsService.getOccurrences(
+      id,
+      tenantId,
+      limit || 12,
+    );
+  }
+
+  @Post()
+  @Protected()
+  @ApiOperation({ summary: 'Create a recurring journal template' })
+  @ApiResponse({
+    status: 201,
+    description: 'Recurring journal template created',
+  })
+  @RequirePermissions({ module: 'journals', action: 'create' })
+  create(
+    @Body() createDto: CreateRecurringJournalDto,
+    @TenantContext('tenantId') tenantId: string,
+    @TenantContext('userId') userId: string,
+  ) {
+    return this.recurringJournalsService.create(createDto, tenantId, userId);
+  }
+
+  @Patch(':id')
+  @Protected()
+  @ApiOperation({ summary: 'Update a recurring journal template' })
+  @ApiResponse({
+    status: 200,
+    description: 'Recurring journal template updated',
+  })
+  @RequirePermissions({ module: 'journals', action: 'update' })
+  update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateRecurringJournalDto,
+    @TenantContext('tenantId') tenantId: string,
+  ) {
+    return this.recurringJournalsService.update(id, updateDto, tenantId);
+  }
+
+  @Delete(':id')
+  @Protected()
+  @ApiOperation({ summary: 'Delete a recurring journal template' })
+  @ApiResponse({
+    status: 200,
+    description: 'Recurring journal template deleted',
+  })
+  @RequirePermissions({ module: 'journals', action: 'delete' })
+  remove(@Param('id') id: string, @TenantContext('tenantId') tenantId: string) {
+    return this.recurringJournalsService.remove(id, tenantId);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { RecurringJournalsService } from './recurring-journals.service';
+import { RecurringJournalsController } from './recurring-journals.controller';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { JournalsModule } from '../journals/journals.module';
+
+@Module({
+  imports: [SupabaseModule, JournalsModule],
+  controllers: [RecurringJournalsController],
+  providers: [RecurringJournalsService],
+  exports: [RecurringJournalsService],
+})
+export class RecurringJournalsModule {}
@@ -0,0 +1,347 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { RecurringJournalsService } from './recurring-journals.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { JournalsService } from '../journals/journals.service';
+
+describe('RecurringJournalsService', () => {
+  let service: RecurringJournalsService;
+  let journalsService: any;
+  let mockSupabaseClient: any;
+
+  const mockTenantId = 'test-tenant-id';
+  const mockUserId = 'test-user-id';
+
+  beforeEach(async () => {
+    mockSupabaseClient = {
+      from: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      insert: jest.fn().mockReturnThis(),
+      update: jest.fn().mockReturnThis(),
+      upsert: jest.fn().mockReturnThis(),
+      delete: jest.fn().mockReturnThis(),
+      eq: jest.fn().mockReturnThis(),
+      not: jest.fn().mockReturnThis(),
+      in: jest.fn().mockReturnThis(),
+      lte: jest.fn().mockReturnThis(),
+      order: jest.fn().mockReturnThis(),
+      single: jest.fn().mockReturnThis(),
+    };
+
+    journalsService = {
+      create: jest.fn(),
+      submit: jest.fn(),
+      approve: jest.fn(),
+      post: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RecurringJournalsService,
+        {
+          provide: SupabaseService,
+          useValue: {
+            getClient: jest.fn().mockReturnValue(mockSupabaseClient),
+            getServiceRoleClient: jest.fn().mockReturnValue(mockSupabaseClient),
+          },
+        },
+        {
+          provide: JournalsService,
+          useValue: journalsService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<RecurringJournalsService>(RecurringJournalsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getFirstOccurrence', () => {
+    it('should use the start month when the day has not passed', () => {
+      expect(service.getFirstOccurrence(25, '2026-01-10')).toBe('2026-01-25');
+    });
+
+    it('should move to the next month when the day has passed', () => {
+      expect(service.getFirstOccurrence(5, '2026-01-10')).toBe('2026-02-05');
+    });
+
+    it('should clamp to the last day of short months', () => {
+      expect(service.getFirstOccurrence(31, '2026-02-01')).toBe('2026-02-28');
+    });
+  });
+
+  describe('getNextOccurrence', () => {
+    it('should step monthly, keeping the day of month after a short month', () => {
+      expect(service.getNextOccurrence('monthly', 31, '2026-02-28')).toBe(
+        '2026-03-31',
+      );
+    });
+
+    it('should step quarterly across the year end', () => {
+      expect(service.getNextOccurrence('quarterly', 15, '2026-11-15')).toBe(
+        '2027-02-15',
+      );
+    });
+
+    it('should step yearly and handle leap years', () => {
+      expect(service.getNextOccurrence('yearly', 29, '2027-02-28')).toBe(
+        '2028-02-29',
+      );
+    });
+  });
+
+  describe('create', () => {
+    const baseDto = {
+      name: 'Monthly rent accrual',
+      descriptionAr: 'استحقاق الإيجار',
+      frequency: 'monthly' as const,
+      dayOfMonth: 1,
+      startDate: new Date('2026-01-01'),
+    };
+
+    it('should reject unbalanced lines', async () => {
+      await expect(
+        service.create(
+          {
+            ...baseDto,
+            lines: [
+              { lineNumber: 1, accountId: 'acc-1', debit: 1000, credit: 0 },
+              { lineNumber: 2, accountId: 'acc-2', debit: 0, credit: 900 },
+            ],
+          },
+          mockTenantId,
+          mockUserId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject an end date before the start date', async () => {
+      mockSupabaseClient.in.mockResolvedValueOnce({
+        data: [
+          { id: 'acc-1', is_active: true, is_posting_allowed: true },
+          { id: 'acc-2', is_active: true, is_posting_allowed: true },
+        ],
+      });
+
+      await expect(
+        service.create(
+          {
+            ...baseDto,
+            endDate: new Date('2025-12-31'),
+            lines: [
+              { lineNumber: 1, accountId: 'acc-1', debit: 1000, credit: 0 },
+              { lineNumber: 2, accountId: 'acc-2', debit: 0, credit: 1000 },
+            ],
+          },
+          mockTenantId,
+          mockUserId,
+        ),
+      ).rejects.toThrow('End date must be on or after start date');
+    });
+  });
+
+  describe('generateDue', () => {
+    const template = {
+      id: 'template-1',
+      tenant_id: mockTenantId,
+      branch_id: null,
+      journal_type: 'general',
+      description_ar: 'استحقاق الإيجار',
+      currency: 'QAR',
+      exchange_rate: 1,
+      frequency: 'monthly',
+      day_of_month: 1,
+      start_date: '2026-01-01',
+      end_date: null,
+      next_run_date: '2026-02-01',
+      last_run_date: '2026-01-01',
+      auto_post: true,
+      occurrences_generated: 1,
+      created_by: mockUserId,
+      recurring_journal_template_lines: [
+        { line_number: 2, account_id: 'acc-2', debit: 0, credit: 1000 },
+        { line_number: 1, account_id: 'acc-1', debit: 1000, credit: 0 },
+      ],
+    };
+
+    it('should create and post each due occurrence and advance the schedule', async () => {
+      mockSupabaseClient.lte.mockResolvedValueOnce({
+        data: [template],
+        error: null,
+      });
+      // The occurrences are claimed and their runs saved
+      mockSupabaseClient.upsert.mockResolvedValue({ error: null });
+      journalsService.create.mockResolvedValue({
+        id: 'journal-1',
+        journal_number: 'GN000010',
+      });
+
+      const result = await service.generateDue(new Date('2026-03-15'));
+
+      expect(result).toEqual({
+        templatesProcessed: 1,
+        journalsCreated: 2,
+        failures: 0,
+      });
+      expect(journalsService.create).toHaveBeenCalledTimes(2);
+      expect(journalsService.create.mock.calls[0][0].lines[0].accountId).toBe(
+        'acc-1',
+      );
+      expect(journalsService.post).toHaveBeenCalledTimes(2);
+      expect(mockSupabaseClient.insert).toHaveBeenCalledWith({
+        template_id: 'template-1',
+        tenant_id: mockTenantId,
+        occurrence_date: '2026-02-01',
+        status: 'pending',
+      });
+      expect(mockSupabaseClient.update).toHaveBeenCalledWith({
+        next_run_date: '2026-04-01',
+        last_run_date: '2026-03-01',
+        occurrences_generated: 3,
+      });
+    });
+
+    it('should record a failed occurrence and keep the template on that date', async () => {
+      mockSupabaseClient.lte.mockResolvedValueOnce({
+        data: [template],
+        error: null,
+      });
+      mockSupabaseClient.upsert.mockResolvedValue({ error: null });
+      journalsService.create.mockRejectedValue(
+        new BadRequestException('Fiscal period is locked'),
+      );
+
+      const result = await service.generateDue(new Date('2026-03-15'));
+
+      expect(result.failures).toBe(1);
+      expect(mockSupabaseClient.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          occurrence_date: '2026-02-01',
+          status: 'failed',
+          error_message: 'Fiscal period is locked',
+        }),
+        { onConflict: 'template_id,occurrence_date' },
+      );
+      expect(mockSupabaseClient.update).toHaveBeenCalledWith({
+        next_run_date: '2026-02-01',
+        last_run_date: '2026-01-01',
+        occurrences_generated: 1,
+      });
+    });
+
+    it('should skip an occurrence that was already generated', async () => {
+      mockSupabaseClient.lte.mockResolvedValueOnce({
+        data: [template],
+        error: null,
+      });
+      mockSupabaseClient.insert.mockResolvedValueOnce({
+        error: { code: '23505' },
+      });
+      mockSupabaseClient.single.mockResolvedValueOnce({
+        data: { status: 'posted' },
+        error: null,
+      });
+
+      const result = await service.generateDue(new Date('2026-02-15'));
+
+      expect(result.journalsCreated).toBe(0);
+      expect(journalsService.create).not.toHaveBeenCalled();
+      expect(mockSupabaseClient.update).toHaveBeenLastCalledWith({
+        next_run_date: '2026-03-01',
+        last_run_date: '2026-02-01',
+        occurrences_generated: 1,
+      });
+    });
+
+    it('should leave an occurrence another run is generating to that run', async () => {
+      mockSupabaseClient.lte.mockResolvedValueOnce({
+        data: [template],
+        error: null,
+      });
+      mockSupabaseClient.insert.mockResolvedValueOnce({
+        error: { code: '23505' },
+      });
+      mockSupabaseClient.single.mockResolvedValueOnce({
+        data: { status: 'pending' },
+        error: null,
+      });
+
+      const result = await service.generateDue(new Date('2026-03-15'));
+
+      expect(result.journalsCreated).toBe(0);
+      expect(journalsService.create).not.toHaveBeenCalled();
+      expect(mockSupabaseClient.update).toHaveBeenLastCalledWith({
+        next_run_date: '2026-02-01',
+        last_run_date: '2026-01-01',
+        occurrences_generated: 1,
+      });
+    });
+
+    it('should move the schedule on when the run of a generated journal cannot be saved', async () => {
+      mockSupabaseClient.lte.mockResolvedValueOnce({
+        data: [template],
+        error: null,
+      });
+      mockSupabaseClient.upsert.mockResolvedValueOnce({
+        error: new Error('Connection lost'),
+      });
+      journalsService.create.mockResolvedValue({
+        id: 'journal-1',
+        journal_number: 'GN000010',
+      });
+
+      const result = await service.generateDue(new Date('2026-02-15'));
+
+      expect(result).toEqual({
+        templatesProcessed: 1,
+        journalsCreated: 1,
+        failures: 0,
+      });
+      expect(mockSupabaseClient.update).toHaveBeenCalledWith({
+        next_run_date: '2026-03-01',
+        last_run_date: '2026-02-01',
+        occurrences_generated: 2,
+      });
+    });
+
+    it('should count a template whose schedule cannot be saved and go on with the others', async () => {
+      mockSupabaseClient.lte.mockResolvedValueOnce({
+        data: [
+          template,
+          { ...template, id: 'template-2', next_run_date: '2026-03-01' },
+        ],
+        error: null,
+      });
+      mockSupabaseClient.upsert.mockResolvedValue({ error: null });
+      // The first template's schedule cannot be saved
+      mockSupabaseClient.update.mockReturnValueOnce({
+        eq: jest
+          .fn()
+          .mockResolvedValue({ error: new Error('Connection lost') }),
+      });
+      journalsService.create.mockResolvedValue({
+        id: 'journal-1',
+        journal_number: 'GN000010',
+      });
+
+      const result = await service.generateDue(new Date('2026-03-15'));
+
+      expect(result).toEqual({
+        templatesProcessed: 2,
+        journalsCreated: 1,
+        failures: 1,
+      });
+      expect(mockSupabaseClient.upsert).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          template_id: 'template-2',
+          occurrence_date: '2026-03-01',
+          status: 'posted',
+        }),
+        { onConflict: 'template_id,occurrence_date' },
+      );
+    });
+  });
+});
@@ -0,0 +1,675 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { JournalsService } from '../journals/journals.service';
+import { CreateRecurringJournalDto } from './dto/create-recurring-journal.dto';
+import { UpdateRecurringJournalDto } from './dto/update-recurring-journal.dto';
+import { RecurringJournalLineDto } from './dto/recurring-journal-line.dto';
+import {
+  RecurrenceFrequency,
+  getFirstOccurrence,
+  getNextOccurrence,
+  addDays,
+  toDateString,
+} from '../common/utils/recurrence';
+
+@Injectable()
+export class RecurringJournalsService {
+  private readonly logger = new Logger(RecurringJournalsService.name);
+
+  constructor(
+    private supabaseService: SupabaseService,
+    private journalsService: JournalsService,
+  ) {}
+
+  async findAll(tenantId: string, filters?: { isActive?: boolean }) {
+    const supabase = this.supabaseService.getClient();
+
+    let query = supabase
+      .from('recurring_journal_templates')
+      .select(
+        `
+        *,
+        recurring_journal_template_lines(*)
+      `,
+      )
+      .eq('tenant_id', tenantId)
+      .order('name', { ascending: true });
+
+    if (filters?.isActive !== undefined) {
+      query = query.eq('is_active', filters.isActive);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  async findOne(id: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data, error } = await supabase
+      .from('recurring_journal_templates')
+      .select(
+        `
+        *,
+        recurring_journal_template_lines(
+          *,
+          chart_of_accounts(id, code, name_en, name_ar, type),
+          cost_centers(id, code, name_en, name_ar)
+        )
+      `,
+      )
+      .eq('id', id)
+      .eq('tenant_id', tenantId)
+      .single();
+
+    if (error || !data) {
+      throw new NotFoundException('Recurring journal template not found');
+    }
+
+    return data;
+  }
+
+  async create(
+    createDto: CreateRecurringJournalDto,
+    tenantId: string,
+    userId: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    await this.validateLines(createDto.lines, tenantId);
+
+    const startDate = toDateString(createDto.startDate);
+    const endDate = createDto.endDate ? toDateString(createDto.endDate) : null;
+
+    if (endDate && endDate < startDate) {
+      throw new BadRequestException('End date must be on or after start date');
+    }
+
+    const nextRunDate = this.getFirstOccurrence(
+      createDto.dayOfMonth,
+      startDate,
+    );
+
+    const { data: template, error: templateError } = await supabase
+      .from('recurring_journal_templates')
+      .insert({
+        tenant_id: tenantId,
+        branch_id: createDto.branchId,
+        name: createDto.name,
+        journal_type: createDto.journalType || 'general',
+        reference_number: createDto.referenceNumber,
+        description_ar: createDto.descriptionAr,
+        description_en: createDto.descriptionEn,
+        currency: createDto.currency || 'QAR',
+        exchange_rate: createDto.exchangeRate || 1,
+        notes: createDto.notes,
+        frequency: createDto.frequency,
+        day_of_month: createDto.dayOfMonth,
+        start_date: startDate,
+        end_date: endDate,
+        next_run_date: endDate && nextRunDate > endDate ? null : nextRunDate,
+        auto_post: createDto.autoPost ?? false,
+        is_active: createDto.isActive ?? true,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (templateError) {
+      throw templateError;
+    }
+
+    const { error: linesError } = await supabase
+      .from('recurring_journal_template_lines')
+      .insert(this.mapLines(createDto.lines, template.id, tenantId));
+
+    if (linesError) {
+      // Rollback template creation
+      await supabase
+        .from('recurring_journal_templates')
+        .delete()
+        .eq('id', template.id);
+      throw linesError;
+    }
+
+    return this.findOne(template.id, tenantId);
+  }
+
+  async update(
+    id: string,
+    updateDto: UpdateRecurringJournalDto,
+    tenantId: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const existing = await this.findOne(id, tenantId);
+
+    if (updateDto.lines) {
+      await this.validateLines(updateDto.lines, tenantId);
+    }
+
+    const updateData: any = {};
+    if (updateDto.branchId !== undefined)
+      updateData.branch_id = updateDto.branchId;
+    if (updateDto.name !== undefined) updateData.name = updateDto.name;
+    if (updateDto.journalType !== undefined)
+      updateData.journal_type = updateDto.journalType;
+    if (updateDto.referenceNumber !== undefined)
+      updateData.reference_number = updateDto.referenceNumber;
+    if (updateDto.descriptionAr !== undefined)
+      updateData.description_ar = updateDto.descriptionAr;
+    if (updateDto.descriptionEn !== undefined)
+      updateData.description_en = updateDto.descriptionEn;
+    if (updateDto.currency !== undefined)
+      updateData.currency = updateDto.currency;
+    if (updateDto.exchangeRate !== undefined)
+      updateData.exchange_rate = updateDto.exchangeRate;
+    if (updateDto.notes !== undefined) updateData.notes = updateDto.notes;
+    if (updateDto.autoPost !== undefined)
+      updateData.auto_post = updateDto.autoPost;
+    if (updateDto.isActive !== undefined)
+      updateData.is_active = updateDto.isActive;
+
+    // Recompute the schedule when the recurrence rule changes
+    const ruleChanged =
+      updateDto.frequency !== undefined ||
+      updateDto.dayOfMonth !== undefined ||
+      updateDto.startDate !== undefined ||
+      updateDto.endDate !== undefined;
+
+    if (ruleChanged) {
+      const frequency = updateDto.frequency ?? existing.frequency;
+      const dayOfMonth = updateDto.dayOfMonth ?? existing.day_of_month;
+      const startDate = updateDto.startDate
+        ? toDateString(updateDto.startDate)
+        : existing.start_date;
+      const endDate = updateDto.endDate
+        ? toDateString(updateDto.endDate)
+        : existing.end_date;
+
+      if (endDate && endDate < startDate) {
+        throw new BadRequestException(
+          'End date must be on or after start date',
+        );
+      }
+
+      // Never schedule an occurrence on or before the last generated one
+      let from = startDate;
+      if (existing.last_run_date && existing.last_run_date >= from) {
+        from = addDays(existing.last_run_date, 1);
+      }
+
+      const nextRunDate = this.getFirstOccurrence(dayOfMonth, from);
+
+      updateData.frequency = frequency;
+      updateData.day_of_month = dayOfMonth;
+      updateData.start_date = startDate;
+      updateData.end_date = endDate;
+      updateData.next_run_date =
+        endDate && nextRunDate > endDate ? null : nextRunDate;
+    }
+
+    if (Object.keys(updateData).length > 0) {
+      const { error } = await supabase
+        .from('recurring_journal_templates')
+        .update(updateData)
+        .eq('id', id)
+        .eq('tenant_id', tenantId);
+
+      if (error) {
+        throw error;
+      }
+    }
+
+    if (updateDto.lines) {
+      await supabase
+        .from('recurring_journal_template_lines')
+        .delete()
+        .eq('template_id', id);
+
+      const { error: linesError } = await supabase
+        .from('recurring_journal_template_lines')
+        .insert(this.mapLines(updateDto.lines, id, tenantId));
+
+      if (linesError) {
+        throw linesError;
+      }
+    }
+
+    return this.findOne(id, tenantId);
+  }
+
+  async remove(id: string, tenantId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    await this.findOne(id, tenantId);
+
+    const { error } = await supabase
+      .from('recurring_journal_templates')
+      .delete()
+      .eq('id', id)
+      .eq('tenant_id', tenantId);
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Get upcoming scheduled dates and the occurrences generated so far
+   */
+  async getOccurrences(id: string, tenantId: string, limit = 12) {
+    const supabase = this.supabaseService.getClient();
+
+    const template = await this.findOne(id, tenantId);
+
+    const upcoming: string[] = [];
+    let next: string | null = template.is_active
+      ? template.next_run_date
+      : null;
+
+    while (next && upcoming.length < limit) {
+      if (template.end_date && next > template.end_date) {
+        break;
+      }
+      upcoming.push(next);
+      next = this.getNextOccurrence(
+        template.frequency,
+        template.day_of_month,
+        next,
+      );
+    }
+
+    const { data: generated, error } = await supabase
+      .from('recurring_journal_runs')
+      .select(
+        `
+        *,
+        journals(id, journal_number, status, total_debit, total_credit)
+      `,
+      )
+      .eq('template_id', id)
+      .eq('tenant_id', tenantId)
+      .order('occurrence_date', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return { upcoming, generated };
+  }
+
+  /**
+   * Generate all occurrences that are due on or before the given date, for
+   * the given tenant or every tenant. Called by the recurring-journals queue.
+   *
+   * A template that missed several dates (e.g. the worker was down) catches
+   * up one occurrence at a time. If a journal cannot be created the failure
+   * is recorded and the template stays on that date so it is retried on the
+   * next run.
+   */
+  async generateDue(asOfDate: Date = new Date(), tenantId?: string) {
+    const supabase = this.supabaseService.getServiceRoleClient();
+    const asOf = toDateString(asOfDate);
+
+    let query = supabase
+      .from('recurring_journal_templates')
+      .select('*, recurring_journal_template_lines(*)')
+      .eq('is_active', true)
+      .not('next_run_date', 'is', null)
+      .lte('next_run_date', asOf);
+
+    if (tenantId) {
+      query = query.eq('tenant_id', tenantId);
+    }
+
+    const { data: templates, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    let journalsCreated = 0;
+    let failures = 0;
+
+    for (const template of templates || []) {
+      // One template's failure (e.g. its schedule could not be saved) must not
+      // stop the others
+      try {
+        const result = await this.generateForTemplate(template, asOf);
+        journalsCreated += result.created;
+        failures += result.failed;
+      } catch (error) {
+        this.logger.error(
+          `Recurring journal template ${template.id} could not be generated: ${error.message}`,
+        );
+        failures++;
+      }
+    }
+
+    return {
+      templatesProcessed: templates?.length || 0,
+      journalsCreated,
+      failures,
+    };
+  }
+
+  /**
+   * First date on or after `fromDate` that falls on the day of month.
+   * Days past the end of a short month fall on its last day.
+   */
+  getFirstOccurrence(dayOfMonth: number, fromDate: string): string {
+    return getFirstOccurrence(dayOfMonth, fromDate);
+  }
+
+  /**
+   * Next scheduled date after an occurrence
+   */
+  getNextOccurrence(
+    frequency: RecurrenceFrequency,
+    dayOfMonth: number,
+    fromDate: string,
+  ): string {
+    return getNextOccurrence(frequency, dayOfMonth, fromDate);
+  }
+
+  private async generateForTemplate(template: any, asOf: string) {
+    const supabase = this.supabaseService.getServiceRoleClient();
+
+    let created = 0;
+    let failed = 0;
+    let nextRunDate: string | null = template.next_run_date;
+    let lastRunDate: string | null = template.last_run_date;
+
+    while (nextRunDate && nextRunDate <= asOf) {
+      if (template.end_date && nextRunDate > template.end_date) {
+        nextRunDate = null;
+        break;
+      }
+
+      const occurrenceDate = nextRunDate;
+
+      const claim = await this.claimOccurrence(template, occurrenceDate);
+
+      if (claim === 'busy') {
+        // Another run is generating this occurrence and moves the schedule on
+        break;
+      }
+
+      if (claim === 'claimed') {
+        let journal: any;
+
+        try {
+          journal = await this.journalsService.create(
+            {
+              journalType: template.journal_type,
+              referenceNumber: template.reference_number,
+              descriptionAr: template.description_ar,
+              descriptionEn: template.description_en,
+              transactionDate: new Date(`${occurrenceDate}T00:00:00Z`),
+              currency: template.currency,
+              exchangeRate: template.exchange_rate,
+              notes: template.notes,
+              lines: [...template.recurring_journal_template_lines]
+                .sort((a, b) => a.line_number - b.line_number)
+                .map((line) => ({
+                  lineNumber: line.line_number,
+                  accountId: line.account_id,
+                  descriptionAr: line.description_ar,
+                  descriptionEn: line.description_en,
+                  costCenterId: line.cost_center_id,
+                  debit: Number(line.debit),
+                  credit: Number(line.credit),
+                })),
+            },
+            template.tenant_id,
+            template.created_by,
+            template.branch_id,
+          );
+        } catch (error) {
+          this.logger.warn(
+            `Recurring journal template ${template.id} failed for ${occurrenceDate}: ${error.message}`,
+          );
+          await this.saveRun(template, occurrenceDate, {
+            status: 'failed',
+            journal_id: null,
+            error_message: error.message,
+          });
+          failed++;
+          break;
+        }
+
+        let status = 'generated';
+        let postingError: string | null = null;
+
+        if (template.auto_post) {
+          try {
+            await this.journalsService.submit(
+              journal.id,
+              template.tenant_id,
+              template.created_by,
+            );
+            await this.journalsService.approve(
+              journal.id,
+              template.tenant_id,
+              template.created_by,
+            );
+            await this.journalsService.post(
+              journal.id,
+              template.tenant_id,
+              template.created_by,
+            );
+            status = 'posted';
+          } catch (error) {
+            // The journal exists - keep it for manual posting rather than generating it again
+            postingError = `Auto-post failed: ${error.message}`;
+            this.logger.warn(
+              `Recurring journal ${journal.journal_number} could not be posted: ${error.message}`,
+            );
+          }
+        }
+
+        // The claimed occurrence is not generated again even if its run
+        // cannot be saved
+        try {
+          await this.saveRun(template, occurrenceDate, {
+            status,
+            journal_id: journal.id,
+            error_message: postingError,
+          });
+        } catch (error) {
+          this.logger.error(
+            `Recurring journal ${journal.journal_number} was generated but its run could not be saved: ${error.message}`,
+          );
+        }
+        created++;
+      }
+
+      lastRunDate = occurrenceDate;
+      nextRunDate = this.getNextOccurrence(
+        template.frequency,
+        template.day_of_month,
+        occurrenceDate,
+      );
+
+      if (template.end_date && nextRunDate > template.end_date) {
+        nextRunDate = null;
+      }
+    }
+
+    const { error } = await supabase
+      .from('recurring_journal_templates')
+      .update({
+        next_run_date: nextRunDate,
+        last_run_date: lastRunDate,
+        occurrences_generated: (template.occurrences_generated || 0) + created,
+      })
+      .eq('id', template.id);
+
+    if (error) {
+      throw error;
+    }
+
+    return { created, failed };
+  }
+
+  /**
+   * Claim an occurrence by inserting its pending run; the unique
+   * template/occurrence date key lets only one run generate it. A failed
+   * occurrence is claimed back for a retry. Returns 'done' when the
+   * occurrence was already generated and 'busy' while another run holds it.
+   */
+  private async claimOccurrence(
+    template: any,
+    occurrenceDate: string,
+  ): Promise<'claimed' | 'done' | 'busy'> {
+    const supabase = this.supabaseService.getServiceRoleClient();
+
+    const { error } = await supabase.from('recurring_journal_runs').insert({
+      template_id: template.id,
+      tenant_id: template.tenant_id,
+      occurrence_date: occurrenceDate,
+      status: 'pending',
+    });
+
+    if (!error) {
+      return 'claimed';
+    }
+
+    // 23505 = unique violation: the occurrence already has a run
+    if (error.code !== '23505') {
+      throw error;
+    }
+
+    const { data: retried, error: retryError } = await supabase
+      .from('recurring_journal_runs')
+      .update({ status: 'pending', error_message: null })
+      .eq('template_id', template.id)
+      .eq('occurrence_date', occurrenceDate)
+      .eq('status', 'failed')
+      .select('id');
+
+    if (retryError) {
+      throw retryError;
+    }
+
+    if (retried && retried.length > 0) {
+      return 'claimed';
+    }
+
+    const { data: existingRun, error: runError } = await supabase
+      .from('recurring_journal_runs')
+      .select('status')
+      .eq('template_id', template.id)
+      .eq('occurrence_date', occurrenceDate)
+      .single();
+
+    if (runError) {
+      throw runError;
+    }
+
+    return existingRun.status === 'pending' ? 'busy' : 'done';
+  }
+
+  private async saveRun(
+    template: any,
+    occurrenceDate: string,
+    run: {
+      status: string;
+      journal_id: string | null;
+      error_message: string | null;
+    },
+  ) {
+    const supabase = this.supabaseService.getServiceRoleClient();
+
+    const { error } = await supabase.from('recurring_journal_runs').upsert(
+      {
+        template_id: template.id,
+        tenant_id: template.tenant_id,
+        occurrence_date: occurrenceDate,
+        ...run,
+      },
+      { onConflict: 'template_id,occurrence_date' },
+    );
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  private async validateLines(
+    lines: RecurringJournalLineDto[],
+    tenantId: string,
+  ) {
+    const supabase = this.supabaseService.getClient();
+
+    const totalDebit = lines.reduce((sum, l) => sum + l.debit, 0);
+    const totalCredit = lines.reduce((sum, l) => sum + l.credit, 0);
+
+    if (Math.abs(totalDebit - totalCredit) > 0.01) {
+      throw new BadRequestException('Debit must equal credit');
+    }
+
+    if (totalDebit === 0) {
+      throw new BadRequestException('Template must have non-zero amounts');
+    }
+
+    for (const line of lines) {
+      if (
+        (line.debit > 0 && line.credit > 0) ||
+        (line.debit === 0 && line.credit === 0)
+      ) {
+        throw new BadRequestException(
+          'Each line must have either a debit or credit amount (not both, not neither)',
+        );
+      }
+    }
+
+    const accountIds = [...new Set(lines.map((l) => l.accountId))];
+    const { data: accounts } = await supabase
+      .from('chart_of_accounts')
+      .select('id, is_active, is_posting_allowed')
+      .eq('tenant_id', tenantId)
+      .in('id', accountIds);
+
+    if (!accounts || accounts.length !== accountIds.length) {
+      throw new BadRequestException('One or more accounts not found');
+    }
+
+    if (accounts.some((a) => !a.is_active || !a.is_posting_allowed)) {
+      throw new BadRequestException(
+        'Cannot use inactive or non-posting accounts',
+      );
+    }
+  }
+
+  private mapLines(
+    lines: RecurringJournalLineDto[],
+    templateId: string,
+    tenantId: string,
+  ) {
+    return lines.map((line) => ({
+      template_id: templateId,
+      tenant_id: tenantId,
+      line_number: line.lineNumber,
+      account_id: line.accountId,
+      description_ar: line.descriptionAr,
+      description_en: line.descriptionEn,
+      cost_center_id: line.costCenterId,
+      debit: line.debit,
+      credit: line.credit,
+    }));
+  }
+}
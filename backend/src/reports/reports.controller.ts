@@ -1,6 +1,21 @@
-import { Controller, Get, Query, UseGuards } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
-import { ReportsService } from './reports.service';
+import {
+  Controller,
+  Get,
+  Query,
+  Res,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { type Response } from 'express';
+import { ReportsService, AgingReportOptions } from './reports.service';
+import { ExportService } from '../export/export.service';
+import { PdfService } from '../pdf/pdf.service';
 import { TenantContextGuard } from '../common/guards/tenant-context.guard';
 import { TenantContext } from '../common/decorators/tenant-context.decorator';
 
@@ -9,7 +24,11 @@ import { TenantContext } from '../common/decorators/tenant-context.decorator';
 @ApiBearerAuth()
 @UseGuards(TenantContextGuard)
 export class ReportsController {
-  constructor(private reportsService: ReportsService) {}
+  constructor(
+    private reportsService: ReportsService,
+    private exportService: ExportService,
+    private pdfService: PdfService,
+  ) {}
 
   @Get('trial-balance')
   @ApiOperation({ summary: 'Get Trial Balance' })
@@ -65,4 +84,320 @@ export class ReportsController {
   getVendorBalance(@TenantContext('tenantId') tenantId: string) {
     return this.reportsService.getVendorBalance(tenantId);
   }
+
+  @Get('ar-aging')
+  @ApiOperation({ summary: 'Get Accounts Receivable Aging' })
+  @ApiQuery({
+    name: 'asOfDate',
+    required: false,
+    description: 'YYYY-MM-DD, defaults to today',
+  })
+  @ApiQuery({
+    name: 'agingBasis',
+    required: false,
+    enum: ['due_date', 'invoice_date'],
+  })
+  @ApiQuery({
+    name: 'buckets',
+    required: false,
+    description: 'Bucket boundaries in days, e.g. 30,60,90',
+  })
+  @ApiQuery({ name: 'currency', required: false })
+  @ApiQuery({ name: 'customerId', required: false })
+  @ApiQuery({ name: 'includeInvoices', required: false, type: Boolean })
+  getArAging(
+    @TenantContext('tenantId') tenantId: string,
+    @Query('asOfDate') asOfDate?: string,
+    @Query('agingBasis') agingBasis?: string,
+    @Query('buckets') buckets?: string,
+    @Query('currency') currency?: string,
+    @Query('customerId') customerId?: string,
+    @Query('includeInvoices') includeInvoices?: string,
+  ) {
+    return this.reportsService.getAgingReport(
+      tenantId,
+      'customer',
+      this.toAgingOptions(
+        asOfDate,
+        agingBasis,
+        buckets,
+        currency,
+        customerId,
+        includeInvoices,
+      ),
+    );
+  }
+
+  @Get('ar-aging/export/excel')
+  @ApiOperation({ summary: 'Export Accounts Receivable Aging as Excel' })
+  @ApiQuery({
+    name: 'asOfDate',
+    required: false,
+    description: 'YYYY-MM-DD, defaults to today',
+  })
+  @ApiQuery({
+    name: 'agingBasis',
+    required: false,
+    enum: ['due_date', 'invoice_date'],
+  })
+  @ApiQuery({
+    name: 'buckets',
+    required: false,
+    description: 'Bucket boundaries in days, e.g. 30,60,90',
+  })
+  @ApiQuery({ name: 'currency', required: false })
+  exportArAgingExcel(
+    @TenantContext('tenantId') tenantId: string,
+    @Query('asOfDate') asOfDate?: string,
+    @Query('agingBasis') agingBasis?: string,
+    @Query('buckets') buckets?: string,
+    @Query('currency') currency?: string,
+    @Query('customerId') customerId?: string,
+    @Query('includeInvoices') includeInvoices?: string,
+    @Res({ passthrough: true }) res?: Response,
+  ) {
+    return this.exportAging(
+      tenantId,
+      'customer',
+      'excel',
+      this.toAgingOptions(
+        asOfDate,
+        agingBasis,
+        buckets,
+        currency,
+        customerId,
+        includeInvoices,
+      ),
+      res,
+    );
+  }
+
+  @Get('ar-aging/export/pdf')
+  @ApiOperation({ summary: 'Export Accounts Receivable Aging as PDF' })
+  @ApiQuery({
+    name: 'asOfDate',
+    required: false,
+    description: 'YYYY-MM-DD, defaults to today',
+  })
+  @ApiQuery({
+    name: 'agingBasis',
+    required: false,
+    enum: ['due_date', 'invoice_date'],
+  })
+  @ApiQuery({
+    name: 'buckets',
+    required: false,
+    description: 'Bucket boundaries in days, e.g. 30,60,90',
+  })
+  @ApiQuery({ name: 'currency', required: false })
+  exportArAgingPdf(
+    @TenantContext('tenantId') tenantId: string,
+    @Query('asOfDate') asOfDate?: string,
+    @Query('agingBasis') agingBasis?: string,
+    @Query('buckets') buckets?: string,
+    @Query('currency') currency?: string,
+    @Query('customerId') customerId?: string,
+    @Query('includeInvoices') includeInvoices?: string,
+    @Res({ passthrough: true }) res?: Response,
+  ) {
+    return this.exportAging(
+      tenantId,
+      'customer',
+      'pdf',
+      this.toAgingOptions(
+        asOfDate,
+        agingBasis,
+        buckets,
+        currency,
+        customerId,
+        includeInvoices,
+      ),
+      res,
+    );
+  }
+
+  @Get('ap-aging')
+  @ApiOperation({ summary: 'Get Accounts Payable Aging' })
+  @ApiQuery({
+    name: 'asOfDate',
+    required: false,
+    description: 'YYYY-MM-DD, defaults to today',
+  })
+  @ApiQuery({
+    name: 'agingBasis',
+    required: false,
+    enum: ['due_date', 'invoice_date'],
+  })
+  @ApiQuery({
+    name: 'buckets',
+    required: false,
+    description: 'Bucket boundaries in days, e.g. 30,60,90',
+  })
+  @ApiQuery({ name: 'currency', required: false })
+  @ApiQuery({ name: 'vendorId', required: false })
+  @ApiQuery({ name: 'includeInvoices', required: false, type: Boolean })
+  getApAging(
+    @TenantContext('tenantId') tenantId: string,
+    @Query('asOfDate') asOfDate?: string,
+    @Query('agingBasis') agingBasis?: string,
+    @Query('buckets') buckets?: string,
+    @Query('currency') currency?: string,
+    @Query('vendorId') vendorId?: string,
+    @Query('includeInvoices') includeInvoices?: string,
+  ) {
+    return this.reportsService.getAgingReport(
+      tenantId,
+      'vendor',
+      this.toAgingOptions(
+        asOfDate,
+        agingBasis,
+        buckets,
+        currency,
+        vendorId,
+        includeInvoices,
+      ),
+    );
+  }
+
+  @Get('ap-aging/export/excel')
+  @ApiOperation({ summary: 'Export Accounts Payable Aging as Excel' })
+  @ApiQuery({
+    name: 'asOfDate',
+    required: false,
+    description: 'YYYY-MM-DD, defaults to today',
+  })
+  @ApiQuery({
+    name: 'agingBasis',
+    required: false,
+    enum: ['due_date', 'invoice_date'],
+  })
+  @ApiQuery({
+    name: 'buckets',
+    required: false,
+    description: 'Bucket boundaries in days, e.g. 30,60,90',
+  })
+  @ApiQuery({ name: 'currency', required: false })
+  exportApAgingExcel(
+    @TenantContext('tenantId') tenantId: string,
+    @Query('asOfDate') asOfDate?: string,
+    @Query('agingBasis') agingBasis?: string,
+    @Query('buckets') buckets?: string,
+    @Query('currency') currency?: string,
+    @Query('vendorId') vendorId?: string,
+    @Query('includeInvoices') includeInvoices?: string,
+    @Res({ passthrough: true }) res?: Response,
+  ) {
+    return this.exportAging(
+      tenantId,
+      'vendor',
+      'excel',
+      this.toAgingOptions(
+        asOfDate,
+        agingBasis,
+        buckets,
+        currency,
+        vendorId,
+        includeInvoices,
+      ),
+      res,
+    );
+  }
+
+  @Get('ap-aging/export/pdf')
+  @ApiOperation({ summary: 'Export Accounts Payable Aging as PDF' })
+  @ApiQuery({
+    name: 'asOfDate',
+    required: false,
+    description: 'YYYY-MM-DD, defaults to today',
+  })
+  @ApiQuery({
+    name: 'agingBasis',
+    required: false,
+    enum: ['due_date', 'invoice_date'],
+  })
+  @ApiQuery({
+    name: 'buckets',
+    required: false,
+    description: 'Bucket boundaries in days, e.g. 30,60,90',
+  })
+  @ApiQuery({ name: 'currency', required: false })
+  exportApAgingPdf(
+    @TenantContext('tenantId') tenantId: string,
+    @Query('asOfDate') asOfDate?: string,
+    @Query('agingBasis') agingBasis?: string,
+    @Query('buckets') buckets?: string,
+    @Query('currency') currency?: string,
+    @Query('vendorId') vendorId?: string,
+    @Query('includeInvoices') includeInvoices?: string,
+    @Res({ passthrough: true }) res?: Response,
+  ) {
+    return this.exportAging(
+      tenantId,
+      'vendor',
+      'pdf',
+      this.toAgingOptions(
+        asOfDate,
+        agingBasis,
+        buckets,
+        currency,
+        vendorId,
+        includeInvoices,
+      ),
+      res,
+    );
+  }
+
+  private toAgingOptions(
+    asOfDate?: string,
+    agingBasis?: string,
+    buckets?: string,
+    currency?: string,
+    partyId?: string,
+    includeInvoices?: string,
+  ): AgingReportOptions {
+    const options: AgingReportOptions = {};
+    if (asOfDate) options.asOfDate = asOfDate;
+    if (agingBasis)
+      options.agingBasis = agingBasis as AgingReportOptions['agingBasis'];
+    if (buckets)
+      options.boundaries = buckets
+        .split(',')
+        .map((days) => Number(days.trim()));
+    if (currency) options.currency = currency;
+    if (partyId) options.partyId = partyId;
+    if (includeInvoices) options.includeInvoices = includeInvoices === 'true';
+    return options;
+  }
+
+  private async exportAging(
+    tenantId: string,
+    partyType: 'customer' | 'vendor',
+    format: 'excel' | 'pdf',
+    options: AgingReportOptions,
+    res?: Response,
+  ) {
+    const report = await this.reportsService.getAgingReport(
+      tenantId,
+      partyType,
+      options,
+    );
+    const buffer =
+      format === 'excel'
+        ? await this.exportService.exportAgingReportToExcel(report)
+        : await this.pdfService.generateAgingReportPdf(report, tenantId);
+    const filename = `${partyType === 'customer' ? 'ar' : 'ap'}_aging_${report.as_of_date}.${format === 'excel' ? 'xlsx' : 'pdf'}`;
+
+    if (res) {
+      res.set({
+        'Content-Type':
+          format === 'excel'
+            ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+            : 'application/pdf',
+        'Content-Disposition': `attachment; filename=${filename}`,
+        'Content-Length': buffer.length.toString(),
+      });
+    }
+
+    return new StreamableFile(buffer);
+  }
 }
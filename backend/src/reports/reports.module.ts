@@ -2,9 +2,11 @@ import { Module } from '@nestjs/common';
 import { ReportsService } from './reports.service';
 import { ReportsController } from './reports.controller';
 import { SupabaseModule } from '../supabase/supabase.module';
+import { ExportModule } from '../export/export.module';
+import { PdfModule } from '../pdf/pdf.module';
 
 @Module({
-  imports: [SupabaseModule],
+  imports: [SupabaseModule, ExportModule, PdfModule],
   controllers: [ReportsController],
   providers: [ReportsService],
   exports: [ReportsService],
@@ -0,0 +1,290 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ReportsService } from './reports.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { queryResult } from '../../test/utils/query-result';
+
+describe('ReportsService', () => {
+  let service: ReportsService;
+  let tables: Record<string, any[]>;
+  let mockSupabaseClient: any;
+
+  const mockTenantId = 'test-tenant-id';
+
+  const invoice = (overrides: any) => ({
+    invoice_type: 'sales',
+    party_id: 'customer-1',
+    currency: 'QAR',
+    exchange_rate: 1,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    tables = {};
+    mockSupabaseClient = {
+      from: jest.fn((table: string) => tables[table].shift()),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReportsService,
+        {
+          provide: SupabaseService,
+          useValue: {
+            getClient: jest.fn().mockReturnValue(mockSupabaseClient),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ReportsService>(ReportsService);
+  });
+
+  function givenInvoices(
+    invoices: any[],
+    payments: any[] = [],
+    credits: any[] = [],
+  ) {
+    const invoiceQuery = queryResult({ data: invoices, error: null });
+    const paymentQuery = queryResult({ data: payments, error: null });
+    tables.invoices = [invoiceQuery];
+    tables.payment_allocations = [paymentQuery];
+    tables.credit_note_allocations = [
+      queryResult({ data: credits, error: null }),
+    ];
+    tables.tenants = [
+      queryResult({ data: { base_currency: 'QAR' }, error: null }),
+    ];
+    tables.customers = [
+      queryResult({
+        data: [
+          { id: 'customer-1', code: 'C001', name_en: 'Acme', name_ar: 'أكمي' },
+          { id: 'customer-2', code: 'C002', name_en: 'Beta', name_ar: 'بيتا' },
+        ],
+        error: null,
+      }),
+    ];
+    return { invoiceQuery, paymentQuery };
+  }
+
+  describe('getAgingReport', () => {
+    it('should age open balances by due date into the default buckets', async () => {
+      givenInvoices([
+        invoice({
+          id: 'inv-1',
+          invoice_date: '2026-10-01',
+          due_date: '2026-10-31',
+          total_amount: 1000,
+        }),
+        invoice({
+          id: 'inv-2',
+          invoice_date: '2026-08-01',
+          due_date: '2026-08-31',
+          total_amount: 500,
+        }),
+        invoice({
+          id: 'inv-3',
+          party_id: 'customer-2',
+          invoice_date: '2026-05-01',
+          due_date: '2026-05-31',
+          total_amount: 300,
+        }),
+      ]);
+
+      const report = await service.getAgingReport(mockTenantId, 'customer', {
+        asOfDate: '2026-10-19',
+      });
+
+      expect(report.buckets.map((bucket) => bucket.key)).toEqual([
+        'current',
+        '1_30',
+        '31_60',
+        '61_90',
+        'over_90',
+      ]);
+      expect(report.parties).toHaveLength(2);
+      expect(report.parties[0]).toEqual(
+        expect.objectContaining({
+          code: 'C001',
+          name_en: 'Acme',
+          balances: {
+            current: 1000,
+            '1_30': 0,
+            '31_60': 500,
+            '61_90': 0,
+            over_90: 0,
+          },
+          total: 1500,
+        }),
+      );
+      expect(report.parties[1].balances.over_90).toBe(300);
+      expect(report.totals.total).toBe(1800);
+      expect(report.parties[0].invoices).toBeUndefined();
+    });
+
+    it('should only count allocations up to the as-of date', async () => {
+      const { paymentQuery } = givenInvoices(
+        [
+          invoice({
+            id: 'inv-1',
+            invoice_date: '2026-09-01',
+            due_date: '2026-10-01',
+            total_amount: 1000,
+          }),
+        ],
+        [{ invoice_id: 'inv-1', amount: 400 }],
+        [
+          {
+            id: 'cna-1',
+            invoice_id: 'inv-1',
+            credit_note_id: 'cn-1',
+            amount: 100,
+          },
+        ],
+      );
+
+      const report = await service.getAgingReport(mockTenantId, 'customer', {
+        asOfDate: '2026-10-19',
+      });
+
+      expect(paymentQuery.lte).toHaveBeenCalledWith(
+        'allocation_date',
+        '2026-10-19',
+      );
+      expect(report.parties[0].balances['1_30']).toBe(500);
+    });
+
+    it('should count early-payment discounts and write-offs as settled', async () => {
+      givenInvoices(
+        [
+          invoice({
+            id: 'inv-1',
+            invoice_date: '2026-09-01',
+            due_date: '2026-10-01',
+            total_amount: 1000,
+          }),
+        ],
+        [
+          {
+            invoice_id: 'inv-1',
+            amount: 970,
+            discount_allowed: 20,
+            write_off: 0.5,
+          },
+        ],
+      );
+
+      const report = await service.getAgingReport(mockTenantId, 'customer', {
+        asOfDate: '2026-10-19',
+      });
+
+      expect(report.totals.total).toBe(9.5);
+    });
+
+    it('should load allocations in batches and count each credit allocation once', async () => {
+      const invoices = Array.from({ length: 150 }, (_, index) =>
+        invoice({
+          id: `inv-${index}`,
+          invoice_date: '2026-09-01',
+          due_date: '2026-10-01',
+          total_amount: 100,
+        }),
+      );
+      invoices[149] = invoice({
+        id: 'cn-1',
+        invoice_type: 'sales_return',
+        invoice_date: '2026-09-15',
+        due_date: null,
+        total_amount: 50,
+      });
+      // Loaded by the first batch for the invoice and the second for the note
+      const credit = {
+        id: 'cna-1',
+        invoice_id: 'inv-0',
+        credit_note_id: 'cn-1',
+        amount: 50,
+      };
+      const { paymentQuery } = givenInvoices(invoices);
+      const secondPaymentQuery = queryResult({ data: [], error: null });
+      tables.payment_allocations.push(secondPaymentQuery);
+      tables.credit_note_allocations = [
+        queryResult({ data: [credit], error: null }),
+        queryResult({ data: [credit], error: null }),
+      ];
+
+      const report = await service.getAgingReport(mockTenantId, 'customer', {
+        asOfDate: '2026-10-19',
+      });
+
+      expect(paymentQuery.in.mock.calls[0][1]).toHaveLength(100);
+      expect(secondPaymentQuery.in.mock.calls[0][1]).toHaveLength(50);
+      expect(report.totals.total).toBe(14850);
+    });
+
+    it('should report unapplied credit notes as negative balances', async () => {
+      givenInvoices([
+        invoice({
+          id: 'inv-1',
+          invoice_date: '2026-10-01',
+          due_date: '2026-10-31',
+          total_amount: 1000,
+        }),
+        invoice({
+          id: 'cn-1',
+          invoice_type: 'sales_return',
+          invoice_date: '2026-10-10',
+          due_date: null,
+          total_amount: 200,
+        }),
+      ]);
+
+      const report = await service.getAgingReport(mockTenantId, 'customer', {
+        asOfDate: '2026-10-19',
+        agingBasis: 'invoice_date',
+        includeInvoices: true,
+      });
+
+      expect(report.parties[0].balances['0_30']).toBe(800);
+      expect(report.parties[0].invoices).toEqual([
+        expect.objectContaining({ invoice_id: 'inv-1', days: 18 }),
+        expect.objectContaining({ invoice_id: 'cn-1', balance: -200 }),
+      ]);
+    });
+
+    it('should convert to base currency unless a currency is given', async () => {
+      const usdInvoice = invoice({
+        id: 'inv-1',
+        invoice_date: '2026-10-01',
+        due_date: '2026-10-31',
+        currency: 'USD',
+        exchange_rate: 3.64,
+        total_amount: 100,
+      });
+
+      givenInvoices([usdInvoice]);
+      const base = await service.getAgingReport(mockTenantId, 'customer', {
+        asOfDate: '2026-10-19',
+      });
+
+      const { invoiceQuery } = givenInvoices([usdInvoice]);
+      const usd = await service.getAgingReport(mockTenantId, 'customer', {
+        asOfDate: '2026-10-19',
+        currency: 'USD',
+      });
+
+      expect(base.currency).toBe('QAR');
+      expect(base.totals.total).toBe(364);
+      expect(usd.currency).toBe('USD');
+      expect(usd.totals.total).toBe(100);
+      expect(invoiceQuery.eq).toHaveBeenCalledWith('currency', 'USD');
+    });
+
+    it('should reject bucket boundaries that are not ascending', async () => {
+      await expect(
+        service.getAgingReport(mockTenantId, 'vendor', {
+          boundaries: [60, 30],
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
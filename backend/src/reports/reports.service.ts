@@ -1,5 +1,68 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, BadRequestException } from '@nestjs/common';
 import { SupabaseService } from '../supabase/supabase.service';
+import {
+  AgingBasis,
+  AgingBucket,
+  DEFAULT_AGING_BOUNDARIES,
+  buildAgingBuckets,
+  findAgingBucket,
+  daysBetween,
+} from '../common/utils/aging';
+
+// Invoices that have been posted, in any stage of settlement
+const POSTED_INVOICE_STATUSES = ['posted', 'partially_paid', 'paid', 'overdue'];
+
+// Document ids per allocation query, keeping the id filters within URL limits
+const ALLOCATION_QUERY_BATCH_SIZE = 100;
+
+export interface AgingReportOptions {
+  asOfDate?: string;
+  agingBasis?: AgingBasis;
+  // Ascending day boundaries of the buckets, e.g. [30, 60, 90]
+  boundaries?: number[];
+  // Only documents in this currency, reported in it; otherwise amounts are in base currency
+  currency?: string;
+  partyId?: string;
+  includeInvoices?: boolean;
+}
+
+export interface AgingInvoice {
+  invoice_id: string;
+  invoice_number: string;
+  invoice_type: string;
+  invoice_date: string;
+  due_date: string | null;
+  currency: string;
+  exchange_rate: number;
+  days: number;
+  bucket: string;
+  document_balance: number;
+  balance: number;
+}
+
+export interface AgingParty {
+  party_id: string;
+  code: string;
+  name_en: string;
+  name_ar: string;
+  currencies: string[];
+  balances: Record<string, number>;
+  total: number;
+  invoices?: AgingInvoice[];
+}
+
+export interface AgingReport {
+  party_type: 'customer' | 'vendor';
+  as_of_date: string;
+  aging_basis: AgingBasis;
+  currency: string;
+  buckets: AgingBucket[];
+  parties: AgingParty[];
+  totals: {
+    balances: Record<string, number>;
+    total: number;
+  };
+}
 
 @Injectable()
 export class ReportsService {
@@ -84,4 +147,269 @@ export class ReportsService {
     if (error) throw error;
     return data;
   }
+
+  /**
+   * Outstanding receivables (customer) or payables (vendor) as of a date,
+   * per party and bucket. Credit and debit notes not yet applied reduce the
+   * balance in the bucket of their own date.
+   */
+  async getAgingReport(
+    tenantId: string,
+    partyType: 'customer' | 'vendor',
+    options: AgingReportOptions = {},
+  ): Promise<AgingReport> {
+    const supabase = this.supabaseService.getClient();
+
+    const asOfDate = options.asOfDate || new Date().toISOString().split('T')[0];
+    const agingBasis = options.agingBasis || 'due_date';
+    const boundaries = options.boundaries || DEFAULT_AGING_BOUNDARIES;
+    this.validateAgingOptions(asOfDate, agingBasis, boundaries);
+
+    const buckets = buildAgingBuckets(boundaries, agingBasis);
+    const invoiceTypes =
+      partyType === 'customer'
+        ? ['sales', 'sales_return']
+        : ['purchase', 'purchase_return'];
+
+    let query = supabase
+      .from('invoices')
+      .select(
+        'id, invoice_number, invoice_type, party_id, invoice_date, due_date, currency, exchange_rate, total_amount',
+      )
+      .eq('tenant_id', tenantId)
+      .eq('party_type', partyType)
+      .in('invoice_type', invoiceTypes)
+      .in('status', POSTED_INVOICE_STATUSES)
+      .lte('invoice_date', asOfDate)
+      .order('invoice_date', { ascending: true });
+
+    if (options.partyId) {
+      query = query.eq('party_id', options.partyId);
+    }
+    if (options.currency) {
+      query = query.eq('currency', options.currency);
+    }
+
+    const { data: invoices, error } = await query;
+    if (error) throw error;
+
+    const settled = await this.getSettledAmounts(
+      (invoices || []).map((inv) => inv.id),
+      asOfDate,
+    );
+
+    const { data: tenant } = await supabase
+      .from('tenants')
+      .select('base_currency')
+      .eq('id', tenantId)
+      .single();
+
+    const parties = new Map<string, AgingParty>();
+    const totals = {
+      balances: this.emptyBalances(buckets),
+      total: 0,
+    };
+
+    for (const invoice of invoices || []) {
+      const isNote = invoice.invoice_type.endsWith('_return');
+      const documentBalance = this.round(
+        (Number(invoice.total_amount) - (settled.get(invoice.id) || 0)) *
+          (isNote ? -1 : 1),
+      );
+      if (documentBalance === 0) continue;
+
+      const balance = options.currency
+        ? documentBalance
+        : this.round(documentBalance * (Number(invoice.exchange_rate) || 1));
+      const agedFrom =
+        agingBasis === 'due_date' && invoice.due_date
+          ? invoice.due_date
+          : invoice.invoice_date;
+      const days = daysBetween(agedFrom, asOfDate);
+      const bucket = findAgingBucket(buckets, days);
+
+      let party = parties.get(invoice.party_id);
+      if (!party) {
+        party = {
+          party_id: invoice.party_id,
+          code: '',
+          name_en: '',
+          name_ar: '',
+          currencies: [],
+          balances: this.emptyBalances(buckets),
+          total: 0,
+          invoices: options.includeInvoices || options.partyId ? [] : undefined,
+        };
+        parties.set(invoice.party_id, party);
+      }
+
+      if (!party.currencies.includes(invoice.currency)) {
+        party.currencies.push(invoice.currency);
+      }
+      party.balances[bucket.key] = this.round(
+        party.balances[bucket.key] + balance,
+      );
+      party.total = this.round(party.total + balance);
+      totals.balances[bucket.key] = this.round(
+        totals.balances[bucket.key] + balance,
+      );
+      totals.total = this.round(totals.total + balance);
+
+      party.invoices?.push({
+        invoice_id: invoice.id,
+        invoice_number: invoice.invoice_number,
+        invoice_type: invoice.invoice_type,
+        invoice_date: invoice.invoice_date,
+        due_date: invoice.due_date,
+        currency: invoice.currency,
+        exchange_rate: Number(invoice.exchange_rate) || 1,
+        days,
+        bucket: bucket.key,
+        document_balance: documentBalance,
+        balance,
+      });
+    }
+
+    await this.attachPartyNames(tenantId, partyType, parties);
+
+    return {
+      party_type: partyType,
+      as_of_date: asOfDate,
+      aging_basis: agingBasis,
+      currency: options.currency || tenant?.base_currency || 'QAR',
+      buckets,
+      parties: [...parties.values()].sort((a, b) =>
+        a.code.localeCompare(b.code),
+      ),
+      totals,
+    };
+  }
+
+  /**
+   * Payments, early-payment discounts, write-offs and credit allocated to
+   * each document up to the as-of date. A credit note's allocations count
+   * against both the invoice and the note.
+   */
+  private async getSettledAmounts(invoiceIds: string[], asOfDate: string) {
+    const settled = new Map<string, number>();
+    const add = (id: string, amount: number) =>
+      settled.set(id, (settled.get(id) || 0) + Number(amount));
+    // A credit note allocation is loaded by the batch of its invoice and the
+    // batch of its credit note, which may differ
+    const countedCredits = new Set<string>();
+
+    for (
+      let start = 0;
+      start < invoiceIds.length;
+      start += ALLOCATION_QUERY_BATCH_SIZE
+    ) {
+      const batch = invoiceIds.slice(
+        start,
+        start + ALLOCATION_QUERY_BATCH_SIZE,
+      );
+      const { payments, credits } = await this.getAllocations(batch, asOfDate);
+
+      for (const allocation of payments) {
+        add(
+          allocation.invoice_id,
+          Number(allocation.amount) +
+            Number(allocation.discount_allowed || 0) +
+            Number(allocation.write_off || 0),
+        );
+      }
+      for (const allocation of credits) {
+        if (countedCredits.has(allocation.id)) continue;
+        countedCredits.add(allocation.id);
+
+        add(allocation.invoice_id, allocation.amount);
+        add(allocation.credit_note_id, allocation.amount);
+      }
+    }
+
+    return settled;
+  }
+
+  private async getAllocations(invoiceIds: string[], asOfDate: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: payments, error: paymentsError } = await supabase
+      .from('payment_allocations')
+      .select('invoice_id, amount, discount_allowed, write_off')
+      .in('invoice_id', invoiceIds)
+      .lte('allocation_date', asOfDate);
+    if (paymentsError) throw paymentsError;
+
+    const ids = invoiceIds.join(',');
+    const { data: credits, error: creditsError } = await supabase
+      .from('credit_note_allocations')
+      .select('id, invoice_id, credit_note_id, amount')
+      .or(`invoice_id.in.(${ids}),credit_note_id.in.(${ids})`)
+      .lte('allocation_date', asOfDate);
+    if (creditsError) throw creditsError;
+
+    return { payments: payments || [], credits: credits || [] };
+  }
+
+  private async attachPartyNames(
+    tenantId: string,
+    partyType: 'customer' | 'vendor',
+    parties: Map<string, AgingParty>,
+  ) {
+    if (parties.size === 0) return;
+
+    const supabase = this.supabaseService.getClient();
+    const { data, error } = await supabase
+      .from(partyType === 'customer' ? 'customers' : 'vendors')
+      .select('id, code, name_en, name_ar')
+      .eq('tenant_id', tenantId)
+      .in('id', [...parties.keys()]);
+
+    if (error) throw error;
+
+    for (const row of data || []) {
+      const party = parties.get(row.id);
+      if (!party) continue;
+      party.code = row.code || '';
+      party.name_en = row.name_en || '';
+      party.name_ar = row.name_ar || '';
+    }
+  }
+
+  private validateAgingOptions(
+    asOfDate: string,
+    agingBasis: string,
+    boundaries: number[],
+  ) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(asOfDate) || isNaN(Date.parse(asOfDate))) {
+      throw new BadRequestException('asOfDate must be a date (YYYY-MM-DD)');
+    }
+
+    if (!['due_date', 'invoice_date'].includes(agingBasis)) {
+      throw new BadRequestException(
+        'agingBasis must be due_date or invoice_date',
+      );
+    }
+
+    if (
+      boundaries.length === 0 ||
+      boundaries.some(
+        (days, i) =>
+          !Number.isInteger(days) ||
+          days < 1 ||
+          (i > 0 && days <= boundaries[i - 1]),
+      )
+    ) {
+      throw new BadRequestException(
+        'buckets must be ascending whole numbers of days, e.g. 30,60,90',
+      );
+    }
+  }
+
+  private emptyBalances(buckets: AgingBucket[]): Record<string, number> {
+    return Object.fromEntries(buckets.map((bucket) => [bucket.key, 0]));
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
 }
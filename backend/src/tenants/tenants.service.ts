@@ -281,6 +281,7 @@ export class TenantsService {
         start_date: startDate.toISOString().split('T')[0],
         end_date: endDate.toISOString().split('T')[0],
         is_closed: false,
+        is_current: true,
       })
       .select()
       .single();
@@ -465,6 +466,12 @@ export class TenantsService {
       try {
         const copiedAccounts = await this.copyCoaTemplate(tenant.id);
         console.log(`Copied ${copiedAccounts} accounts from template`);
+
+        // Map the default posting accounts to the copied accounts
+        const { error: mappingError } = await supabase.rpc('seed_account_mappings', {
+          p_tenant_id: tenant.id,
+        });
+        if (mappingError) throw mappingError;
       } catch (coaError) {
         // Rollback everything
         await supabase.from('user_roles').delete().eq('user_id', authData.user.id);
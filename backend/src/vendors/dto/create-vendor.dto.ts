@@ -90,6 +90,11 @@ export class CreateVendorDto {
   @Min(0)
   paymentTermsDays?: number;
 
+  // Named payment terms; take precedence over paymentTermsDays
+  @IsUUID()
+  @IsOptional()
+  paymentTermsId?: string;
+
   @IsString()
   @IsOptional()
   @MaxLength(255)
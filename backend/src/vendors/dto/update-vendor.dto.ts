@@ -91,6 +91,11 @@ export class UpdateVendorDto extends PartialType(CreateVendorDto) {
   @Min(0)
   paymentTermsDays?: number;
 
+  // Named payment terms; take precedence over paymentTermsDays
+  @IsUUID()
+  @IsOptional()
+  paymentTermsId?: string;
+
   @IsString()
   @IsOptional()
   @MaxLength(255)
@@ -78,6 +78,7 @@ export class VendorsService {
         city_en: createDto.cityEn,
         country: createDto.country || 'QA',
         payment_terms_days: createDto.paymentTermsDays || 30,
+        payment_terms_id: createDto.paymentTermsId,
         bank_name: createDto.bankName,
         bank_account_number: createDto.bankAccountNumber,
         iban: createDto.iban,
@@ -115,6 +116,7 @@ export class VendorsService {
     if (updateDto.cityEn !== undefined) updateData.city_en = updateDto.cityEn;
     if (updateDto.country !== undefined) updateData.country = updateDto.country;
     if (updateDto.paymentTermsDays !== undefined) updateData.payment_terms_days = updateDto.paymentTermsDays;
+    if (updateDto.paymentTermsId !== undefined) updateData.payment_terms_id = updateDto.paymentTermsId;
     if (updateDto.bankName !== undefined) updateData.bank_name = updateDto.bankName;
     if (updateDto.bankAccountNumber !== undefined) updateData.bank_account_number = updateDto.bankAccountNumber;
     if (updateDto.iban !== undefined) updateData.iban = updateDto.iban;
@@ -0,0 +1,39 @@
+/**
+ * Chainable Supabase query builder that resolves to the given result when
+ * awaited, also after single() or maybeSingle()
+ *
+ * Services under test get one builder per query, e.g. from a mocked
+ * `from: jest.fn((table) => tables[table].shift())`, and the filters it was
+ * called with can be asserted on the builder.
+ */
+export function queryResult(result: any) {
+  const builder: any = {};
+  for (const method of [
+    'select',
+    'insert',
+    'update',
+    'upsert',
+    'delete',
+    'eq',
+    'neq',
+    'gt',
+    'gte',
+    'lt',
+    'lte',
+    'in',
+    'is',
+    'not',
+    'or',
+    'limit',
+    'order',
+    'overrideTypes',
+  ]) {
+    builder[method] = jest.fn().mockReturnValue(builder);
+  }
+  // Still chainable, e.g. for overrideTypes() after single()
+  builder.single = jest.fn().mockReturnValue(builder);
+  builder.maybeSingle = jest.fn().mockReturnValue(builder);
+  builder.then = (resolve: any, reject: any) =>
+    Promise.resolve(result).then(resolve, reject);
+  return builder;
+}
@@ -0,0 +1,99 @@
+-- Migration: Journal reversal support
+-- Date: 2026-10-19
+-- Description: Keeps reversed journals in the general ledger alongside their reversal entries
+-- Related Issue: POST /journals/:id/reverse
+
+-- ============================================================================
+-- 1. General ledger view
+-- ============================================================================
+-- Problem: The view only included 'posted' journals. Once a journal is reversed
+-- its own lines would disappear while the mirror reversal journal stays, leaving
+-- the ledger off by the original amount. It also filtered on jl.deleted_at,
+-- which does not exist on journal_lines.
+-- Solution: Include 'reversed' journals and filter soft-deleted journal headers.
+
+CREATE OR REPLACE VIEW public.v_general_ledger AS
+SELECT
+    jl.id,
+    jl.tenant_id,
+    jl.journal_id,
+    j.journal_number,
+    j.journal_type,
+    j.transaction_date,
+    j.posting_date,
+    coa.code AS account_code,
+    coa.name_ar AS account_name_ar,
+    coa.name_en AS account_name_en,
+    coa.type AS account_type,
+    jl.line_number,
+    jl.description_ar,
+    jl.description_en,
+    jl.debit,
+    jl.credit,
+    jl.cost_center_id,
+    cc.code AS cost_center_code,
+    cc.name_ar AS cost_center_name_ar,
+    cc.name_en AS cost_center_name_en,
+    jl.reference,
+    jl.reference_type,
+    jl.reference_id,
+    b.name_ar AS branch_name_ar,
+    b.name_en AS branch_name_en,
+    j.currency,
+    j.exchange_rate,
+    jl.created_at
+FROM public.journal_lines jl
+JOIN public.journals j ON jl.journal_id = j.id
+JOIN public.chart_of_accounts coa ON jl.account_id = coa.id
+LEFT JOIN public.cost_centers cc ON jl.cost_center_id = cc.id
+LEFT JOIN public.branches b ON j.branch_id = b.id
+WHERE j.status IN ('posted', 'reversed')
+  AND jl.tenant_id = j.tenant_id
+  AND j.deleted_at IS NULL;
+
+-- ============================================================================
+-- 2. Fiscal period status view
+-- ============================================================================
+-- Reversed journals were counted as drafts, which blocked locking the period.
+
+CREATE OR REPLACE VIEW public.v_fiscal_period_status AS
+SELECT
+    fp.tenant_id,
+    fp.fiscal_year_id,
+    fy.name AS fiscal_year_name,
+    fp.id AS fiscal_period_id,
+    fp.name AS fiscal_period_name,
+    fp.period_number,
+    fp.start_date,
+    fp.end_date,
+    fp.is_locked,
+    -- Count transactions in period
+    COUNT(DISTINCT j.id) FILTER (WHERE j.status IN ('posted', 'reversed')) AS posted_journal_count,
+    COUNT(DISTINCT j.id) FILTER (WHERE j.status NOT IN ('posted', 'reversed')) AS draft_journal_count,
+    -- Sum of posted amounts
+    SUM(j.total_debit) FILTER (WHERE j.status IN ('posted', 'reversed')) AS total_debit,
+    SUM(j.total_credit) FILTER (WHERE j.status IN ('posted', 'reversed')) AS total_credit,
+    -- Check if period can be locked
+    CASE
+        WHEN fp.is_locked THEN 'locked'
+        WHEN COUNT(DISTINCT j.id) FILTER (WHERE j.status NOT IN ('posted', 'reversed')) > 0 THEN 'has_drafts'
+        ELSE 'can_lock'
+    END AS lock_status
+FROM public.fiscal_periods fp
+JOIN public.fiscal_years fy ON fp.fiscal_year_id = fy.id
+LEFT JOIN public.journals j ON
+    j.tenant_id = fp.tenant_id
+    AND j.transaction_date BETWEEN fp.start_date AND fp.end_date
+GROUP BY
+    fp.tenant_id,
+    fp.fiscal_year_id,
+    fy.name,
+    fp.id,
+    fp.name,
+    fp.period_number,
+    fp.start_date,
+    fp.end_date,
+    fp.is_locked
+ORDER BY
+    fy.start_date DESC,
+    fp.period_number;
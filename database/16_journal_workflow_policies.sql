@@ -0,0 +1,31 @@
+-- Migration: Journal workflow history
+-- Date: 2026-10-19
+-- Description: Allows the journals API to record workflow transitions (created, submitted,
+--              approved, rejected, posted, reversed) in journal_workflow
+-- Related Issue: POST /journals/:id/reject, GET /journals/:id/history
+
+-- ============================================================================
+-- 1. Journal workflow insert policy
+-- ============================================================================
+-- Problem: journal_workflow only had a SELECT policy, so rows could only be
+-- written by post_journal() and never by the API transitions.
+-- Solution: Let tenant users insert workflow rows for their own journals.
+
+DROP POLICY IF EXISTS "Users can insert tenant journal workflow" ON public.journal_workflow;
+CREATE POLICY "Users can insert tenant journal workflow"
+ON public.journal_workflow FOR INSERT
+WITH CHECK (
+    tenant_id = public.get_current_user_tenant()
+    AND EXISTS (
+        SELECT 1 FROM public.journals j
+        WHERE j.id = journal_workflow.journal_id
+        AND j.tenant_id = journal_workflow.tenant_id
+    )
+);
+
+-- ============================================================================
+-- 2. History lookup index
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_journal_workflow_journal_actioned_at
+ON public.journal_workflow(journal_id, actioned_at);
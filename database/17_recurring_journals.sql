@@ -0,0 +1,149 @@
+-- Migration: Recurring journal templates
+-- Date: 2026-10-19
+-- Description: Saved journal templates with a recurrence rule and a log of generated occurrences.
+--              Occurrences are generated by the 'recurring-journals' Bull queue.
+
+-- ============================================================================
+-- 1. Recurring journal templates
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.recurring_journal_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    branch_id UUID REFERENCES public.branches(id),
+    name VARCHAR(255) NOT NULL,
+    journal_type VARCHAR(50) NOT NULL DEFAULT 'general' CHECK (journal_type IN (
+        'general', 'sales', 'purchase', 'receipt', 'payment', 'expense',
+        'depreciation', 'adjustment', 'opening', 'closing'
+    )),
+    reference_number VARCHAR(50),
+    description_ar TEXT NOT NULL,
+    description_en TEXT,
+    currency VARCHAR(3) NOT NULL DEFAULT 'QAR',
+    exchange_rate DECIMAL(18,6) DEFAULT 1,
+    notes TEXT,
+    -- Recurrence rule
+    frequency VARCHAR(20) NOT NULL CHECK (frequency IN ('monthly', 'quarterly', 'yearly')),
+    day_of_month INTEGER NOT NULL CHECK (day_of_month BETWEEN 1 AND 31),
+    start_date DATE NOT NULL,
+    end_date DATE,
+    next_run_date DATE,
+    last_run_date DATE,
+    auto_post BOOLEAN NOT NULL DEFAULT false,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    occurrences_generated INTEGER NOT NULL DEFAULT 0,
+    created_by UUID REFERENCES public.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_journal_templates_tenant_id
+ON public.recurring_journal_templates(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_journal_templates_next_run
+ON public.recurring_journal_templates(is_active, next_run_date);
+
+-- ============================================================================
+-- 2. Template lines
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.recurring_journal_template_lines (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    template_id UUID NOT NULL REFERENCES public.recurring_journal_templates(id) ON DELETE CASCADE,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    line_number INTEGER NOT NULL,
+    account_id UUID NOT NULL REFERENCES public.chart_of_accounts(id),
+    description_ar TEXT,
+    description_en TEXT,
+    cost_center_id UUID REFERENCES public.cost_centers(id),
+    debit DECIMAL(18,2) NOT NULL DEFAULT 0,
+    credit DECIMAL(18,2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(template_id, line_number),
+    CHECK ((debit > 0 AND credit = 0) OR (credit > 0 AND debit = 0))
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_journal_template_lines_template_id
+ON public.recurring_journal_template_lines(template_id);
+
+-- ============================================================================
+-- 3. Generated occurrences
+-- ============================================================================
+-- One row per scheduled date. A run claims its date by inserting the row as
+-- pending before creating the journal, so the unique key lets only one run
+-- generate it when the job is retried or runs more than once a day.
+
+CREATE TABLE IF NOT EXISTS public.recurring_journal_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    template_id UUID NOT NULL REFERENCES public.recurring_journal_templates(id) ON DELETE CASCADE,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    occurrence_date DATE NOT NULL,
+    journal_id UUID REFERENCES public.journals(id) ON DELETE SET NULL,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('pending', 'generated', 'posted', 'failed')),
+    error_message TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(template_id, occurrence_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_journal_runs_template_id
+ON public.recurring_journal_runs(template_id, occurrence_date);
+
+-- ============================================================================
+-- 4. Triggers
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS recurring_journal_templates_update_timestamp ON public.recurring_journal_templates;
+CREATE TRIGGER recurring_journal_templates_update_timestamp
+BEFORE UPDATE ON public.recurring_journal_templates
+FOR EACH ROW EXECUTE FUNCTION public.update_timestamp();
+
+DROP TRIGGER IF EXISTS recurring_journal_runs_update_timestamp ON public.recurring_journal_runs;
+CREATE TRIGGER recurring_journal_runs_update_timestamp
+BEFORE UPDATE ON public.recurring_journal_runs
+FOR EACH ROW EXECUTE FUNCTION public.update_timestamp();
+
+-- ============================================================================
+-- 5. RLS
+-- ============================================================================
+
+ALTER TABLE public.recurring_journal_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_journal_template_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_journal_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read tenant recurring journal templates" ON public.recurring_journal_templates;
+CREATE POLICY "Users can read tenant recurring journal templates"
+ON public.recurring_journal_templates FOR SELECT
+USING (
+    tenant_id = public.get_current_user_tenant()
+);
+
+DROP POLICY IF EXISTS "Users with permissions can manage recurring journal templates" ON public.recurring_journal_templates;
+CREATE POLICY "Users with permissions can manage recurring journal templates"
+ON public.recurring_journal_templates FOR ALL
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'journals', 'create', '*')
+);
+
+DROP POLICY IF EXISTS "Users can read tenant recurring journal template lines" ON public.recurring_journal_template_lines;
+CREATE POLICY "Users can read tenant recurring journal template lines"
+ON public.recurring_journal_template_lines FOR SELECT
+USING (
+    tenant_id = public.get_current_user_tenant()
+);
+
+DROP POLICY IF EXISTS "Users with permissions can manage recurring journal template lines" ON public.recurring_journal_template_lines;
+CREATE POLICY "Users with permissions can manage recurring journal template lines"
+ON public.recurring_journal_template_lines FOR ALL
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'journals', 'create', '*')
+);
+
+DROP POLICY IF EXISTS "Users can read tenant recurring journal runs" ON public.recurring_journal_runs;
+CREATE POLICY "Users can read tenant recurring journal runs"
+ON public.recurring_journal_runs FOR SELECT
+USING (
+    tenant_id = public.get_current_user_tenant()
+);
@@ -0,0 +1,84 @@
+-- Migration: Fiscal year-end closing
+-- Date: 2026-10-19
+-- Description: Tracks the closing journal of a fiscal year, adds the profit and loss balance
+--              function used to build it, and the permissions to close and reopen a year
+
+-- ============================================================================
+-- 1. Fiscal year closing columns
+-- ============================================================================
+
+ALTER TABLE public.fiscal_years
+    ADD COLUMN IF NOT EXISTS closing_journal_id UUID REFERENCES public.journals(id),
+    ADD COLUMN IF NOT EXISTS retained_earnings_account_id UUID REFERENCES public.chart_of_accounts(id),
+    ADD COLUMN IF NOT EXISTS reopened_by UUID REFERENCES public.users(id),
+    ADD COLUMN IF NOT EXISTS reopened_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS reopen_reason TEXT;
+
+-- ============================================================================
+-- 2. Profit and loss balances for a date range
+-- ============================================================================
+-- Net debit balance (debit - credit) of every revenue and expense account over
+-- the range. Aggregated in the database so the closing entry is never built
+-- from a truncated page of journal lines.
+
+CREATE OR REPLACE FUNCTION public.get_profit_and_loss_balances(
+    p_tenant_id UUID,
+    p_start_date DATE,
+    p_end_date DATE
+)
+RETURNS TABLE(
+    account_id UUID,
+    account_code VARCHAR,
+    account_type VARCHAR,
+    balance DECIMAL(18,2)
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        coa.id,
+        coa.code,
+        coa.type,
+        SUM(jl.debit - jl.credit)::DECIMAL(18,2)
+    FROM public.journal_lines jl
+    JOIN public.journals j ON jl.journal_id = j.id
+    JOIN public.chart_of_accounts coa ON jl.account_id = coa.id
+    WHERE j.tenant_id = p_tenant_id
+      AND j.status IN ('posted', 'reversed')
+      AND j.deleted_at IS NULL
+      AND j.transaction_date BETWEEN p_start_date AND p_end_date
+      AND coa.type IN ('revenue', 'expense')
+    GROUP BY coa.id, coa.code, coa.type
+    HAVING SUM(jl.debit - jl.credit) <> 0
+    ORDER BY coa.code;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================================================
+-- 3. Permissions
+-- ============================================================================
+
+INSERT INTO public.permissions (module, action, resource, description) VALUES
+('settings', 'close', 'fiscal_year', 'Close fiscal years'),
+('settings', 'reopen', 'fiscal_year', 'Reopen closed fiscal years')
+ON CONFLICT (module, action, resource) DO UPDATE
+SET description = EXCLUDED.description;
+
+-- Closing goes to company admins and finance managers; reopening only to company admins
+DO $$
+BEGIN
+    INSERT INTO public.role_permissions (role_id, permission_id)
+    SELECT r.id, p.id
+    FROM public.roles r
+    CROSS JOIN public.permissions p
+    WHERE r.name IN ('COMPANY_ADMIN', 'FINANCE_MANAGER')
+      AND p.module = 'settings' AND p.action = 'close' AND p.resource = 'fiscal_year'
+    ON CONFLICT (role_id, permission_id) DO NOTHING;
+
+    INSERT INTO public.role_permissions (role_id, permission_id)
+    SELECT r.id, p.id
+    FROM public.roles r
+    CROSS JOIN public.permissions p
+    WHERE r.name = 'COMPANY_ADMIN'
+      AND p.module = 'settings' AND p.action = 'reopen' AND p.resource = 'fiscal_year'
+    ON CONFLICT (role_id, permission_id) DO NOTHING;
+END $$;
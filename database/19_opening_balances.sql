@@ -0,0 +1,19 @@
+-- Migration: Opening balances
+-- Date: 2026-10-19
+-- Description: Flags the historical customer/vendor invoices loaded with the opening balances
+--              so they can be told apart from invoices raised in the system
+
+-- ============================================================================
+-- 1. Opening balance invoices
+-- ============================================================================
+-- Opening invoices carry the outstanding balance of an invoice raised in the
+-- previous system. They are posted against the opening journal, have no tax
+-- lines (VAT was reported in the old system) and start aging from their
+-- original due date.
+
+ALTER TABLE public.invoices
+    ADD COLUMN IF NOT EXISTS is_opening_balance BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_is_opening_balance
+ON public.invoices(tenant_id)
+WHERE is_opening_balance = true;
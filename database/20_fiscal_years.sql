@@ -0,0 +1,103 @@
+-- Migration: Fiscal years management
+-- Date: 2026-10-19
+-- Description: Adds the fiscal year settings used by the fiscal years API (current year,
+--              description, 12 or 13 periods), blocks overlapping years and lets users with
+--              fiscal settings permission maintain years and periods
+
+-- ============================================================================
+-- 1. Fiscal year columns
+-- ============================================================================
+
+ALTER TABLE public.fiscal_years
+    ADD COLUMN IF NOT EXISTS description TEXT,
+    ADD COLUMN IF NOT EXISTS is_current BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS period_count INTEGER NOT NULL DEFAULT 12;
+
+ALTER TABLE public.fiscal_years
+    DROP CONSTRAINT IF EXISTS fiscal_years_period_count_check;
+ALTER TABLE public.fiscal_years
+    ADD CONSTRAINT fiscal_years_period_count_check CHECK (period_count IN (12, 13));
+
+-- Only one current fiscal year per tenant
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fiscal_years_tenant_current
+ON public.fiscal_years(tenant_id)
+WHERE is_current = true;
+
+-- Existing single-year tenants: mark their only year as current
+UPDATE public.fiscal_years fy
+SET is_current = true
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.fiscal_years other
+    WHERE other.tenant_id = fy.tenant_id
+      AND other.id <> fy.id
+);
+
+-- ============================================================================
+-- 2. Non-overlapping fiscal years
+-- ============================================================================
+-- The API checks for overlaps before writing; the exclusion constraint keeps
+-- concurrent requests from slipping two overlapping years in.
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+ALTER TABLE public.fiscal_years
+    DROP CONSTRAINT IF EXISTS fiscal_years_no_overlap;
+ALTER TABLE public.fiscal_years
+    ADD CONSTRAINT fiscal_years_no_overlap
+    EXCLUDE USING gist (
+        tenant_id WITH =,
+        daterange(start_date, end_date, '[]') WITH &&
+    );
+
+-- ============================================================================
+-- 3. Thirteen-period years
+-- ============================================================================
+
+ALTER TABLE public.fiscal_periods
+    DROP CONSTRAINT IF EXISTS fiscal_periods_period_number_check;
+ALTER TABLE public.fiscal_periods
+    ADD CONSTRAINT fiscal_periods_period_number_check CHECK (period_number BETWEEN 1 AND 13);
+
+-- ============================================================================
+-- 4. RLS policies
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users with permissions can insert fiscal years" ON public.fiscal_years;
+CREATE POLICY "Users with permissions can insert fiscal years"
+ON public.fiscal_years FOR INSERT
+WITH CHECK (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'settings', 'edit', 'fiscal')
+);
+
+DROP POLICY IF EXISTS "Users with permissions can update fiscal years" ON public.fiscal_years;
+CREATE POLICY "Users with permissions can update fiscal years"
+ON public.fiscal_years FOR UPDATE
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'settings', 'edit', 'fiscal')
+);
+
+DROP POLICY IF EXISTS "Users with permissions can delete fiscal years" ON public.fiscal_years;
+CREATE POLICY "Users with permissions can delete fiscal years"
+ON public.fiscal_years FOR DELETE
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'settings', 'edit', 'fiscal')
+);
+
+DROP POLICY IF EXISTS "Users with permissions can insert fiscal periods" ON public.fiscal_periods;
+CREATE POLICY "Users with permissions can insert fiscal periods"
+ON public.fiscal_periods FOR INSERT
+WITH CHECK (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'settings', 'edit', 'fiscal')
+);
+
+DROP POLICY IF EXISTS "Users with permissions can delete fiscal periods" ON public.fiscal_periods;
+CREATE POLICY "Users with permissions can delete fiscal periods"
+ON public.fiscal_periods FOR DELETE
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'settings', 'edit', 'fiscal')
+);
@@ -0,0 +1,65 @@
+-- Migration: Fiscal period guard
+-- Date: 2026-10-19
+-- Description: Records every posting into a locked fiscal period made with an override code,
+--              and adds the permission that allows those overrides
+
+-- ============================================================================
+-- 1. Locked period overrides
+-- ============================================================================
+-- One row per document created, updated or posted into a locked period with
+-- the period's override code. The code itself is never stored here.
+
+CREATE TABLE IF NOT EXISTS public.fiscal_period_overrides (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    fiscal_period_id UUID NOT NULL REFERENCES public.fiscal_periods(id) ON DELETE CASCADE,
+    document_type VARCHAR(50) NOT NULL,
+    document_id UUID,
+    action VARCHAR(20) NOT NULL CHECK (action IN ('create', 'update', 'post')),
+    transaction_date DATE NOT NULL,
+    user_id UUID NOT NULL REFERENCES public.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fiscal_period_overrides_tenant_id
+ON public.fiscal_period_overrides(tenant_id);
+
+CREATE INDEX IF NOT EXISTS idx_fiscal_period_overrides_period
+ON public.fiscal_period_overrides(fiscal_period_id, created_at);
+
+ALTER TABLE public.fiscal_period_overrides ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read tenant fiscal period overrides" ON public.fiscal_period_overrides;
+CREATE POLICY "Users can read tenant fiscal period overrides"
+ON public.fiscal_period_overrides FOR SELECT
+USING (
+    tenant_id = public.get_current_user_tenant()
+);
+
+DROP POLICY IF EXISTS "Users can insert tenant fiscal period overrides" ON public.fiscal_period_overrides;
+CREATE POLICY "Users can insert tenant fiscal period overrides"
+ON public.fiscal_period_overrides FOR INSERT
+WITH CHECK (
+    tenant_id = public.get_current_user_tenant()
+    AND user_id = auth.uid()
+);
+
+-- ============================================================================
+-- 2. Permissions
+-- ============================================================================
+
+INSERT INTO public.permissions (module, action, resource, description) VALUES
+('settings', 'override', 'period', 'Post into locked fiscal periods with the override code')
+ON CONFLICT (module, action, resource) DO UPDATE
+SET description = EXCLUDED.description;
+
+DO $$
+BEGIN
+    INSERT INTO public.role_permissions (role_id, permission_id)
+    SELECT r.id, p.id
+    FROM public.roles r
+    CROSS JOIN public.permissions p
+    WHERE r.name = 'COMPANY_ADMIN'
+      AND p.module = 'settings' AND p.action = 'override' AND p.resource = 'period'
+    ON CONFLICT (role_id, permission_id) DO NOTHING;
+END $$;
@@ -0,0 +1,154 @@
+-- Migration: Default account mappings
+-- Date: 2026-10-19
+-- Description: Tenant-level default posting accounts used by invoices, payments and the
+--              fiscal year-end close, with per customer, vendor and VAT code overrides
+
+-- ============================================================================
+-- 1. Tenant account mappings
+-- ============================================================================
+-- One row per tenant. Posting code reads its accounts from here instead of
+-- guessing them from account names.
+
+CREATE TABLE IF NOT EXISTS public.account_mappings (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL UNIQUE REFERENCES public.tenants(id) ON DELETE CASCADE,
+    receivable_account_id UUID REFERENCES public.chart_of_accounts(id),
+    payable_account_id UUID REFERENCES public.chart_of_accounts(id),
+    output_vat_account_id UUID REFERENCES public.chart_of_accounts(id),
+    input_vat_account_id UUID REFERENCES public.chart_of_accounts(id),
+    sales_account_id UUID REFERENCES public.chart_of_accounts(id),
+    purchases_account_id UUID REFERENCES public.chart_of_accounts(id),
+    sales_returns_account_id UUID REFERENCES public.chart_of_accounts(id),
+    purchase_returns_account_id UUID REFERENCES public.chart_of_accounts(id),
+    sales_discount_account_id UUID REFERENCES public.chart_of_accounts(id),
+    purchase_discount_account_id UUID REFERENCES public.chart_of_accounts(id),
+    rounding_account_id UUID REFERENCES public.chart_of_accounts(id),
+    fx_gain_account_id UUID REFERENCES public.chart_of_accounts(id),
+    fx_loss_account_id UUID REFERENCES public.chart_of_accounts(id),
+    retained_earnings_account_id UUID REFERENCES public.chart_of_accounts(id),
+    updated_by UUID REFERENCES public.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS account_mappings_update_timestamp ON public.account_mappings;
+CREATE TRIGGER account_mappings_update_timestamp
+BEFORE UPDATE ON public.account_mappings
+FOR EACH ROW EXECUTE FUNCTION public.update_timestamp();
+
+ALTER TABLE public.account_mappings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read tenant account mappings" ON public.account_mappings;
+CREATE POLICY "Users can read tenant account mappings"
+ON public.account_mappings FOR SELECT
+USING (
+    tenant_id = public.get_current_user_tenant()
+);
+
+DROP POLICY IF EXISTS "Users with permissions can insert account mappings" ON public.account_mappings;
+CREATE POLICY "Users with permissions can insert account mappings"
+ON public.account_mappings FOR INSERT
+WITH CHECK (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'settings', 'edit', 'accounts')
+);
+
+DROP POLICY IF EXISTS "Users with permissions can update account mappings" ON public.account_mappings;
+CREATE POLICY "Users with permissions can update account mappings"
+ON public.account_mappings FOR UPDATE
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'settings', 'edit', 'accounts')
+);
+
+-- ============================================================================
+-- 2. Overrides
+-- ============================================================================
+-- A customer can post to its own receivable account, a vendor to its own
+-- payable account and a VAT code to its own VAT account.
+
+ALTER TABLE public.customers
+    ADD COLUMN IF NOT EXISTS receivable_account_id UUID REFERENCES public.chart_of_accounts(id);
+
+ALTER TABLE public.vendors
+    ADD COLUMN IF NOT EXISTS payable_account_id UUID REFERENCES public.chart_of_accounts(id);
+
+ALTER TABLE public.vat_codes
+    ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES public.chart_of_accounts(id);
+
+DROP POLICY IF EXISTS "Users with permissions can update vat codes" ON public.vat_codes;
+CREATE POLICY "Users with permissions can update vat codes"
+ON public.vat_codes FOR UPDATE
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'settings', 'edit', 'accounts')
+);
+
+-- ============================================================================
+-- 3. Default mappings from the seeded chart of accounts
+-- ============================================================================
+-- Matches the account subtypes of the chart of accounts template, never the
+-- account names, so renamed or Arabic-only accounts are still found. Existing
+-- mappings are left untouched.
+
+CREATE OR REPLACE FUNCTION public.seed_account_mappings(p_tenant_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    INSERT INTO public.account_mappings (
+        tenant_id,
+        receivable_account_id,
+        payable_account_id,
+        output_vat_account_id,
+        input_vat_account_id,
+        sales_account_id,
+        purchases_account_id,
+        sales_returns_account_id,
+        fx_loss_account_id,
+        retained_earnings_account_id
+    )
+    SELECT
+        p_tenant_id,
+        (SELECT id FROM public.chart_of_accounts WHERE tenant_id = p_tenant_id AND subtype = 'customers' AND is_posting_allowed ORDER BY code LIMIT 1),
+        (SELECT id FROM public.chart_of_accounts WHERE tenant_id = p_tenant_id AND subtype = 'local_suppliers' AND is_posting_allowed ORDER BY code LIMIT 1),
+        (SELECT id FROM public.chart_of_accounts WHERE tenant_id = p_tenant_id AND subtype = 'vat_payable' AND is_posting_allowed ORDER BY code LIMIT 1),
+        (SELECT id FROM public.chart_of_accounts WHERE tenant_id = p_tenant_id AND subtype = 'vat_recoverable' AND is_posting_allowed ORDER BY code LIMIT 1),
+        (SELECT id FROM public.chart_of_accounts WHERE tenant_id = p_tenant_id AND subtype = 'goods_sales' AND is_posting_allowed ORDER BY code LIMIT 1),
+        (SELECT id FROM public.chart_of_accounts WHERE tenant_id = p_tenant_id AND subtype = 'merchandise_cogs' AND is_posting_allowed ORDER BY code LIMIT 1),
+        (SELECT id FROM public.chart_of_accounts WHERE tenant_id = p_tenant_id AND type = 'revenue' AND subtype = 'returns' AND is_posting_allowed ORDER BY code LIMIT 1),
+        (SELECT id FROM public.chart_of_accounts WHERE tenant_id = p_tenant_id AND subtype = 'forex_loss' AND is_posting_allowed ORDER BY code LIMIT 1),
+        COALESCE(
+            (SELECT (s.value #>> '{}')::UUID FROM public.settings s WHERE s.tenant_id = p_tenant_id AND s.key = 'retained_earnings_account_id'),
+            (SELECT id FROM public.chart_of_accounts WHERE tenant_id = p_tenant_id AND type = 'equity' AND subtype = 'retained' AND is_posting_allowed ORDER BY code LIMIT 1)
+        )
+    ON CONFLICT (tenant_id) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DO $$
+DECLARE
+    v_tenant RECORD;
+BEGIN
+    FOR v_tenant IN SELECT id FROM public.tenants LOOP
+        PERFORM public.seed_account_mappings(v_tenant.id);
+    END LOOP;
+END $$;
+
+-- ============================================================================
+-- 4. Permissions
+-- ============================================================================
+
+INSERT INTO public.permissions (module, action, resource, description) VALUES
+('settings', 'edit', 'accounts', 'Manage default posting accounts')
+ON CONFLICT (module, action, resource) DO UPDATE
+SET description = EXCLUDED.description;
+
+DO $$
+BEGIN
+    INSERT INTO public.role_permissions (role_id, permission_id)
+    SELECT r.id, p.id
+    FROM public.roles r
+    CROSS JOIN public.permissions p
+    WHERE r.name = 'COMPANY_ADMIN'
+      AND p.module = 'settings' AND p.action = 'edit' AND p.resource = 'accounts'
+    ON CONFLICT (role_id, permission_id) DO NOTHING;
+END $$;
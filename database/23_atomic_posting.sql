@@ -0,0 +1,426 @@
+-- Migration: Atomic document posting
+-- Date: 2026-10-19
+-- Description: Creates journals with their lines, and posts invoices, payments, expenses and
+--              depreciation runs together with their journal, in single database transactions.
+--              Adds a check that reports journals and documents left behind by partial posts.
+
+-- ============================================================================
+-- 1. Journal with lines
+-- ============================================================================
+-- The header, the lines and the workflow row are written by one function call,
+-- so a failed line insert can no longer leave a journal without lines.
+-- p_journal and p_lines use the column names of journals and journal_lines.
+
+CREATE OR REPLACE FUNCTION public.create_journal_with_lines(
+    p_journal JSONB,
+    p_lines JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+    v_journal public.journals;
+    v_journal_id UUID;
+BEGIN
+    IF p_lines IS NULL OR jsonb_array_length(p_lines) = 0 THEN
+        RAISE EXCEPTION 'Journal must have at least one line';
+    END IF;
+
+    v_journal := jsonb_populate_record(NULL::public.journals, p_journal);
+
+    INSERT INTO public.journals (
+        tenant_id,
+        branch_id,
+        journal_number,
+        journal_type,
+        reference_number,
+        description_ar,
+        description_en,
+        transaction_date,
+        posting_date,
+        currency,
+        exchange_rate,
+        total_debit,
+        total_credit,
+        status,
+        notes,
+        attachment_url,
+        source_module,
+        source_id,
+        created_by,
+        posted_by,
+        posted_at
+    )
+    VALUES (
+        v_journal.tenant_id,
+        v_journal.branch_id,
+        v_journal.journal_number,
+        v_journal.journal_type,
+        v_journal.reference_number,
+        v_journal.description_ar,
+        v_journal.description_en,
+        v_journal.transaction_date,
+        v_journal.posting_date,
+        COALESCE(v_journal.currency, 'QAR'),
+        COALESCE(v_journal.exchange_rate, 1),
+        v_journal.total_debit,
+        v_journal.total_credit,
+        COALESCE(v_journal.status, 'draft'),
+        v_journal.notes,
+        v_journal.attachment_url,
+        v_journal.source_module,
+        v_journal.source_id,
+        v_journal.created_by,
+        v_journal.posted_by,
+        v_journal.posted_at
+    )
+    RETURNING id INTO v_journal_id;
+
+    INSERT INTO public.journal_lines (
+        journal_id,
+        tenant_id,
+        line_number,
+        account_id,
+        description_ar,
+        description_en,
+        cost_center_id,
+        debit,
+        credit,
+        currency,
+        exchange_rate,
+        reference,
+        reference_type,
+        reference_id
+    )
+    SELECT
+        v_journal_id,
+        v_journal.tenant_id,
+        l.line_number,
+        l.account_id,
+        l.description_ar,
+        l.description_en,
+        l.cost_center_id,
+        l.debit,
+        l.credit,
+        l.currency,
+        COALESCE(l.exchange_rate, 1),
+        l.reference,
+        l.reference_type,
+        l.reference_id
+    FROM jsonb_populate_recordset(NULL::public.journal_lines, p_lines) l;
+
+    INSERT INTO public.journal_workflow (
+        journal_id, tenant_id, action, from_status, to_status, actioned_by, notes
+    )
+    VALUES (
+        v_journal_id,
+        v_journal.tenant_id,
+        CASE WHEN COALESCE(v_journal.status, 'draft') = 'posted' THEN 'posted' ELSE 'created' END,
+        NULL,
+        COALESCE(v_journal.status, 'draft'),
+        COALESCE(v_journal.posted_by, v_journal.created_by),
+        CASE WHEN v_journal.source_module IS NOT NULL
+            THEN 'Generated by ' || v_journal.source_module
+        END
+    );
+
+    RETURN v_journal_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 2. Document posting
+-- ============================================================================
+-- Each function locks the document, checks its status, creates its posted
+-- journal and marks the document posted. Any failure rolls back all of it.
+
+CREATE OR REPLACE FUNCTION public.post_invoice_with_journal(
+    p_invoice_id UUID,
+    p_tenant_id UUID,
+    p_user_id UUID,
+    p_journal JSONB,
+    p_lines JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+    v_status VARCHAR;
+    v_journal_id UUID;
+BEGIN
+    SELECT status INTO v_status
+    FROM public.invoices
+    WHERE id = p_invoice_id AND tenant_id = p_tenant_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invoice not found';
+    END IF;
+
+    IF v_status <> 'approved' THEN
+        RAISE EXCEPTION 'Can only post approved invoices';
+    END IF;
+
+    v_journal_id := public.create_journal_with_lines(
+        p_journal || jsonb_build_object(
+            'tenant_id', p_tenant_id,
+            'status', 'posted',
+            'posting_date', p_journal->>'transaction_date',
+            'posted_by', p_user_id,
+            'posted_at', NOW(),
+            'source_module', 'invoices',
+            'source_id', p_invoice_id
+        ),
+        p_lines
+    );
+
+    UPDATE public.invoices
+    SET status = 'posted',
+        posted_journal_id = v_journal_id,
+        posted_by = p_user_id,
+        posted_at = NOW()
+    WHERE id = p_invoice_id;
+
+    RETURN v_journal_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.post_payment_with_journal(
+    p_payment_id UUID,
+    p_tenant_id UUID,
+    p_user_id UUID,
+    p_journal JSONB,
+    p_lines JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+    v_status VARCHAR;
+    v_journal_id UUID;
+BEGIN
+    SELECT status INTO v_status
+    FROM public.payments
+    WHERE id = p_payment_id AND tenant_id = p_tenant_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Payment not found';
+    END IF;
+
+    IF v_status <> 'approved' THEN
+        RAISE EXCEPTION 'Can only post approved payments';
+    END IF;
+
+    v_journal_id := public.create_journal_with_lines(
+        p_journal || jsonb_build_object(
+            'tenant_id', p_tenant_id,
+            'status', 'posted',
+            'posting_date', p_journal->>'transaction_date',
+            'posted_by', p_user_id,
+            'posted_at', NOW(),
+            'source_module', 'payments',
+            'source_id', p_payment_id
+        ),
+        p_lines
+    );
+
+    UPDATE public.payments
+    SET status = 'posted',
+        posted_journal_id = v_journal_id,
+        posted_by = p_user_id,
+        posted_at = NOW()
+    WHERE id = p_payment_id;
+
+    RETURN v_journal_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.post_expense_with_journal(
+    p_expense_id UUID,
+    p_tenant_id UUID,
+    p_user_id UUID,
+    p_journal JSONB,
+    p_lines JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+    v_status VARCHAR;
+    v_approval_status VARCHAR;
+    v_journal_id UUID;
+BEGIN
+    SELECT status, approval_status INTO v_status, v_approval_status
+    FROM public.expenses
+    WHERE id = p_expense_id AND tenant_id = p_tenant_id AND deleted_at IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Expense not found';
+    END IF;
+
+    IF v_status IN ('posted', 'paid') THEN
+        RAISE EXCEPTION 'Expense has already been posted';
+    END IF;
+
+    IF v_approval_status <> 'approved' THEN
+        RAISE EXCEPTION 'Can only post approved expenses';
+    END IF;
+
+    v_journal_id := public.create_journal_with_lines(
+        p_journal || jsonb_build_object(
+            'tenant_id', p_tenant_id,
+            'status', 'posted',
+            'posting_date', p_journal->>'transaction_date',
+            'posted_by', p_user_id,
+            'posted_at', NOW(),
+            'source_module', 'expenses',
+            'source_id', p_expense_id
+        ),
+        p_lines
+    );
+
+    UPDATE public.expenses
+    SET status = 'posted',
+        posted_journal_id = v_journal_id,
+        posted_by = p_user_id,
+        posted_at = NOW()
+    WHERE id = p_expense_id;
+
+    RETURN v_journal_id;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE public.asset_depreciation_runs
+    DROP CONSTRAINT IF EXISTS asset_depreciation_runs_status_check;
+
+ALTER TABLE public.asset_depreciation_runs
+    ADD CONSTRAINT asset_depreciation_runs_status_check
+    CHECK (status IN ('in_progress', 'completed', 'posted', 'failed'));
+
+CREATE OR REPLACE FUNCTION public.post_depreciation_run_with_journal(
+    p_run_id UUID,
+    p_tenant_id UUID,
+    p_user_id UUID,
+    p_journal JSONB,
+    p_lines JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+    v_status VARCHAR;
+    v_existing_journal_id UUID;
+    v_journal_id UUID;
+BEGIN
+    SELECT status, journal_id INTO v_status, v_existing_journal_id
+    FROM public.asset_depreciation_runs
+    WHERE id = p_run_id AND tenant_id = p_tenant_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Depreciation run not found';
+    END IF;
+
+    IF v_status = 'posted' OR v_existing_journal_id IS NOT NULL THEN
+        RAISE EXCEPTION 'Depreciation has already been posted';
+    END IF;
+
+    IF v_status <> 'completed' THEN
+        RAISE EXCEPTION 'Can only post completed depreciation runs';
+    END IF;
+
+    v_journal_id := public.create_journal_with_lines(
+        p_journal || jsonb_build_object(
+            'tenant_id', p_tenant_id,
+            'status', 'posted',
+            'posting_date', p_journal->>'transaction_date',
+            'posted_by', p_user_id,
+            'posted_at', NOW(),
+            'source_module', 'depreciation',
+            'source_id', p_run_id
+        ),
+        p_lines
+    );
+
+    UPDATE public.asset_depreciation_runs
+    SET status = 'posted',
+        journal_id = v_journal_id,
+        completed_by = p_user_id,
+        completed_at = NOW()
+    WHERE id = p_run_id;
+
+    RETURN v_journal_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 3. Orphan detection
+-- ============================================================================
+-- Reports what earlier non-atomic posting could leave behind:
+--   journal_without_lines    - a journal header whose lines were never written
+--   journal_without_document - a document journal no document points to
+--   document_without_journal - a posted document with no (or a missing) journal
+-- Pass NULL to check every tenant (used by the scheduled job).
+
+CREATE OR REPLACE FUNCTION public.find_posting_orphans(p_tenant_id UUID DEFAULT NULL)
+RETURNS TABLE(
+    tenant_id UUID,
+    issue VARCHAR,
+    document_type VARCHAR,
+    document_id UUID,
+    document_number VARCHAR,
+    journal_id UUID,
+    journal_number VARCHAR
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT j.tenant_id, 'journal_without_lines'::VARCHAR, 'journal'::VARCHAR,
+           j.id, j.journal_number, j.id, j.journal_number
+    FROM public.journals j
+    WHERE (p_tenant_id IS NULL OR j.tenant_id = p_tenant_id)
+      AND j.deleted_at IS NULL
+      AND NOT EXISTS (SELECT 1 FROM public.journal_lines jl WHERE jl.journal_id = j.id);
+
+    RETURN QUERY
+    SELECT j.tenant_id, 'journal_without_document'::VARCHAR, j.source_module,
+           j.source_id, NULL::VARCHAR, j.id, j.journal_number
+    FROM public.journals j
+    WHERE (p_tenant_id IS NULL OR j.tenant_id = p_tenant_id)
+      AND j.deleted_at IS NULL
+      AND (
+          (j.source_module = 'invoices' AND NOT EXISTS (
+              SELECT 1 FROM public.invoices i WHERE i.posted_journal_id = j.id))
+          OR (j.source_module = 'payments' AND NOT EXISTS (
+              SELECT 1 FROM public.payments p WHERE p.posted_journal_id = j.id))
+          OR (j.source_module = 'expenses' AND NOT EXISTS (
+              SELECT 1 FROM public.expenses e WHERE e.posted_journal_id = j.id))
+          OR (j.source_module = 'depreciation' AND NOT EXISTS (
+              SELECT 1 FROM public.asset_depreciation_runs r WHERE r.journal_id = j.id))
+      );
+
+    RETURN QUERY
+    SELECT i.tenant_id, 'document_without_journal'::VARCHAR, 'invoices'::VARCHAR,
+           i.id, i.invoice_number, i.posted_journal_id, NULL::VARCHAR
+    FROM public.invoices i
+    WHERE (p_tenant_id IS NULL OR i.tenant_id = p_tenant_id)
+      AND i.status IN ('posted', 'partially_paid', 'paid', 'overdue')
+      AND NOT EXISTS (SELECT 1 FROM public.journals j WHERE j.id = i.posted_journal_id);
+
+    RETURN QUERY
+    SELECT p.tenant_id, 'document_without_journal'::VARCHAR, 'payments'::VARCHAR,
+           p.id, p.payment_number, p.posted_journal_id, NULL::VARCHAR
+    FROM public.payments p
+    WHERE (p_tenant_id IS NULL OR p.tenant_id = p_tenant_id)
+      AND p.status = 'posted'
+      AND NOT EXISTS (SELECT 1 FROM public.journals j WHERE j.id = p.posted_journal_id);
+
+    RETURN QUERY
+    SELECT e.tenant_id, 'document_without_journal'::VARCHAR, 'expenses'::VARCHAR,
+           e.id, e.expense_number, e.posted_journal_id, NULL::VARCHAR
+    FROM public.expenses e
+    WHERE (p_tenant_id IS NULL OR e.tenant_id = p_tenant_id)
+      AND e.deleted_at IS NULL
+      AND e.status IN ('posted', 'paid')
+      AND NOT EXISTS (SELECT 1 FROM public.journals j WHERE j.id = e.posted_journal_id);
+
+    RETURN QUERY
+    SELECT r.tenant_id, 'document_without_journal'::VARCHAR, 'depreciation'::VARCHAR,
+           r.id, r.run_number, r.journal_id, NULL::VARCHAR
+    FROM public.asset_depreciation_runs r
+    WHERE (p_tenant_id IS NULL OR r.tenant_id = p_tenant_id)
+      AND r.status = 'posted'
+      AND NOT EXISTS (SELECT 1 FROM public.journals j WHERE j.id = r.journal_id);
+END;
+$$ LANGUAGE plpgsql STABLE;
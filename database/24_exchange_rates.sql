@@ -0,0 +1,270 @@
+-- Migration: Exchange rates and FX revaluation
+-- Date: 2026-10-19
+-- Description: Per-tenant dated exchange rates to the base currency, and period-end
+--              revaluation runs of open foreign-currency receivables, payables and bank
+--              balances with an unrealized gain/loss journal that reverses on the first
+--              day of the next period
+
+-- ============================================================================
+-- 1. Exchange rates
+-- ============================================================================
+-- One rate per currency and date. A rate is the value of one unit of the
+-- currency in the tenant's base currency; the rate of a date is the latest
+-- rate on or before it.
+
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    currency VARCHAR(3) NOT NULL,
+    rate_date DATE NOT NULL,
+    rate DECIMAL(18,6) NOT NULL CHECK (rate > 0),
+    source VARCHAR(20) NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'import')),
+    created_by UUID REFERENCES public.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(tenant_id, currency, rate_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_lookup
+ON public.exchange_rates(tenant_id, currency, rate_date DESC);
+
+DROP TRIGGER IF EXISTS exchange_rates_update_timestamp ON public.exchange_rates;
+CREATE TRIGGER exchange_rates_update_timestamp
+BEFORE UPDATE ON public.exchange_rates
+FOR EACH ROW EXECUTE FUNCTION public.update_timestamp();
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read tenant exchange rates" ON public.exchange_rates;
+CREATE POLICY "Users can read tenant exchange rates"
+ON public.exchange_rates FOR SELECT
+USING (
+    tenant_id = public.get_current_user_tenant()
+);
+
+DROP POLICY IF EXISTS "Users with permissions can manage exchange rates" ON public.exchange_rates;
+CREATE POLICY "Users with permissions can manage exchange rates"
+ON public.exchange_rates FOR ALL
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'settings', 'edit', 'currencies')
+);
+
+-- ============================================================================
+-- 2. Revaluation runs
+-- ============================================================================
+-- One run per fiscal period. The run keeps the revalued items so the gain or
+-- loss of every invoice and bank account can be traced.
+
+CREATE TABLE IF NOT EXISTS public.fx_revaluation_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    fiscal_period_id UUID NOT NULL REFERENCES public.fiscal_periods(id),
+    revaluation_date DATE NOT NULL,
+    reversal_date DATE NOT NULL,
+    base_currency VARCHAR(3) NOT NULL,
+    total_gain DECIMAL(18,2) NOT NULL DEFAULT 0,
+    total_loss DECIMAL(18,2) NOT NULL DEFAULT 0,
+    journal_id UUID REFERENCES public.journals(id),
+    reversal_journal_id UUID REFERENCES public.journals(id),
+    created_by UUID REFERENCES public.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(tenant_id, fiscal_period_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fx_revaluation_runs_tenant_id ON public.fx_revaluation_runs(tenant_id);
+
+CREATE TABLE IF NOT EXISTS public.fx_revaluation_lines (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    run_id UUID NOT NULL REFERENCES public.fx_revaluation_runs(id) ON DELETE CASCADE,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    source_type VARCHAR(20) NOT NULL CHECK (source_type IN ('invoice', 'bank_account')),
+    source_id UUID NOT NULL,
+    source_number VARCHAR(100),
+    account_id UUID NOT NULL REFERENCES public.chart_of_accounts(id),
+    currency VARCHAR(3) NOT NULL,
+    foreign_amount DECIMAL(18,2) NOT NULL,
+    booked_amount DECIMAL(18,2) NOT NULL,
+    rate DECIMAL(18,6) NOT NULL,
+    revalued_amount DECIMAL(18,2) NOT NULL,
+    difference DECIMAL(18,2) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_fx_revaluation_lines_run_id ON public.fx_revaluation_lines(run_id);
+
+ALTER TABLE public.fx_revaluation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fx_revaluation_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read tenant revaluation runs" ON public.fx_revaluation_runs;
+CREATE POLICY "Users can read tenant revaluation runs"
+ON public.fx_revaluation_runs FOR SELECT
+USING (
+    tenant_id = public.get_current_user_tenant()
+);
+
+DROP POLICY IF EXISTS "Users with permissions can create revaluation runs" ON public.fx_revaluation_runs;
+CREATE POLICY "Users with permissions can create revaluation runs"
+ON public.fx_revaluation_runs FOR INSERT
+WITH CHECK (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'journals', 'revalue', 'currencies')
+);
+
+DROP POLICY IF EXISTS "Users with permissions can update revaluation runs" ON public.fx_revaluation_runs;
+CREATE POLICY "Users with permissions can update revaluation runs"
+ON public.fx_revaluation_runs FOR UPDATE
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'journals', 'revalue', 'currencies')
+);
+
+DROP POLICY IF EXISTS "Users can read tenant revaluation lines" ON public.fx_revaluation_lines;
+CREATE POLICY "Users can read tenant revaluation lines"
+ON public.fx_revaluation_lines FOR SELECT
+USING (
+    tenant_id = public.get_current_user_tenant()
+);
+
+DROP POLICY IF EXISTS "Users with permissions can create revaluation lines" ON public.fx_revaluation_lines;
+CREATE POLICY "Users with permissions can create revaluation lines"
+ON public.fx_revaluation_lines FOR INSERT
+WITH CHECK (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'journals', 'revalue', 'currencies')
+);
+
+-- ============================================================================
+-- 3. Posting
+-- ============================================================================
+-- Writes the run, its lines, the revaluation journal and its reversal in one
+-- transaction. Both journals are posted; the reversal is dated the first day
+-- of the next period so the unrealized difference lives for one period only.
+
+CREATE OR REPLACE FUNCTION public.post_fx_revaluation(
+    p_tenant_id UUID,
+    p_user_id UUID,
+    p_run JSONB,
+    p_run_lines JSONB,
+    p_journal JSONB,
+    p_lines JSONB,
+    p_reversal_journal JSONB,
+    p_reversal_lines JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+    v_run public.fx_revaluation_runs;
+    v_run_id UUID;
+    v_journal_id UUID;
+    v_reversal_journal_id UUID;
+BEGIN
+    v_run := jsonb_populate_record(NULL::public.fx_revaluation_runs, p_run);
+
+    INSERT INTO public.fx_revaluation_runs (
+        tenant_id,
+        fiscal_period_id,
+        revaluation_date,
+        reversal_date,
+        base_currency,
+        total_gain,
+        total_loss,
+        created_by
+    )
+    VALUES (
+        p_tenant_id,
+        v_run.fiscal_period_id,
+        v_run.revaluation_date,
+        v_run.reversal_date,
+        v_run.base_currency,
+        COALESCE(v_run.total_gain, 0),
+        COALESCE(v_run.total_loss, 0),
+        p_user_id
+    )
+    RETURNING id INTO v_run_id;
+
+    INSERT INTO public.fx_revaluation_lines (
+        run_id,
+        tenant_id,
+        source_type,
+        source_id,
+        source_number,
+        account_id,
+        currency,
+        foreign_amount,
+        booked_amount,
+        rate,
+        revalued_amount,
+        difference
+    )
+    SELECT
+        v_run_id,
+        p_tenant_id,
+        l.source_type,
+        l.source_id,
+        l.source_number,
+        l.account_id,
+        l.currency,
+        l.foreign_amount,
+        l.booked_amount,
+        l.rate,
+        l.revalued_amount,
+        l.difference
+    FROM jsonb_populate_recordset(NULL::public.fx_revaluation_lines, p_run_lines) l;
+
+    v_journal_id := public.create_journal_with_lines(
+        p_journal || jsonb_build_object(
+            'tenant_id', p_tenant_id,
+            'status', 'posted',
+            'posting_date', p_journal->>'transaction_date',
+            'posted_by', p_user_id,
+            'posted_at', NOW(),
+            'source_module', 'fx_revaluation',
+            'source_id', v_run_id
+        ),
+        p_lines
+    );
+
+    v_reversal_journal_id := public.create_journal_with_lines(
+        p_reversal_journal || jsonb_build_object(
+            'tenant_id', p_tenant_id,
+            'status', 'posted',
+            'posting_date', p_reversal_journal->>'transaction_date',
+            'posted_by', p_user_id,
+            'posted_at', NOW(),
+            'source_module', 'fx_revaluation',
+            'source_id', v_run_id
+        ),
+        p_reversal_lines
+    );
+
+    UPDATE public.fx_revaluation_runs
+    SET journal_id = v_journal_id,
+        reversal_journal_id = v_reversal_journal_id
+    WHERE id = v_run_id;
+
+    RETURN v_run_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 4. Permissions
+-- ============================================================================
+
+INSERT INTO public.permissions (module, action, resource, description) VALUES
+('settings', 'edit', 'currencies', 'Maintain exchange rates'),
+('journals', 'revalue', 'currencies', 'Run period-end foreign currency revaluation')
+ON CONFLICT (module, action, resource) DO UPDATE
+SET description = EXCLUDED.description;
+
+DO $$
+BEGIN
+    INSERT INTO public.role_permissions (role_id, permission_id)
+    SELECT r.id, p.id
+    FROM public.roles r
+    CROSS JOIN public.permissions p
+    WHERE r.name = 'COMPANY_ADMIN'
+      AND (
+          (p.module = 'settings' AND p.action = 'edit' AND p.resource = 'currencies')
+          OR (p.module = 'journals' AND p.action = 'revalue' AND p.resource = 'currencies')
+      )
+    ON CONFLICT (role_id, permission_id) DO NOTHING;
+END $$;
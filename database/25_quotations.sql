@@ -0,0 +1,199 @@
+-- Migration: Sales quotations
+-- Date: 2026-10-19
+-- Description: Quotations to customers with their own numbering and validity dates.
+--              A quotation is sent, then accepted or rejected by the customer, expires
+--              once its validity date passes, and an accepted quotation is converted
+--              into a draft sales invoice that is linked back to it
+
+-- ============================================================================
+-- 1. Quotations
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.quotations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    branch_id UUID REFERENCES public.branches(id),
+    quotation_number VARCHAR(50) NOT NULL,
+    customer_id UUID NOT NULL REFERENCES public.customers(id),
+    quotation_date DATE NOT NULL,
+    valid_until DATE NOT NULL,
+    currency VARCHAR(3) NOT NULL DEFAULT 'QAR',
+    subtotal DECIMAL(18,2) NOT NULL DEFAULT 0,
+    discount_amount DECIMAL(18,2) NOT NULL DEFAULT 0,
+    taxable_amount DECIMAL(18,2) NOT NULL DEFAULT 0,
+    tax_amount DECIMAL(18,2) NOT NULL DEFAULT 0,
+    total_amount DECIMAL(18,2) NOT NULL DEFAULT 0,
+    notes TEXT,
+    reference_number VARCHAR(100),
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN (
+        'draft', 'sent', 'accepted', 'rejected', 'expired', 'converted'
+    )),
+    invoice_id UUID REFERENCES public.invoices(id),
+    sent_by UUID REFERENCES public.users(id),
+    sent_at TIMESTAMP WITH TIME ZONE,
+    accepted_at TIMESTAMP WITH TIME ZONE,
+    rejected_at TIMESTAMP WITH TIME ZONE,
+    converted_by UUID REFERENCES public.users(id),
+    converted_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES public.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(tenant_id, quotation_number),
+    CHECK (valid_until >= quotation_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quotations_tenant_id ON public.quotations(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_quotations_customer_id ON public.quotations(customer_id);
+CREATE INDEX IF NOT EXISTS idx_quotations_status ON public.quotations(tenant_id, status);
+CREATE INDEX IF NOT EXISTS idx_quotations_valid_until ON public.quotations(valid_until);
+
+DROP TRIGGER IF EXISTS quotations_update_timestamp ON public.quotations;
+CREATE TRIGGER quotations_update_timestamp
+BEFORE UPDATE ON public.quotations
+FOR EACH ROW EXECUTE FUNCTION public.update_timestamp();
+
+-- ============================================================================
+-- 2. Quotation lines
+-- ============================================================================
+-- Discount and tax are percentages of the line; the amounts are calculated
+-- when the quotation is saved.
+
+CREATE TABLE IF NOT EXISTS public.quotation_lines (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    quotation_id UUID NOT NULL REFERENCES public.quotations(id) ON DELETE CASCADE,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    line_number INTEGER NOT NULL,
+    description TEXT NOT NULL,
+    description_ar TEXT,
+    description_en TEXT,
+    quantity DECIMAL(18,2) NOT NULL DEFAULT 1,
+    unit_price DECIMAL(18,2) NOT NULL DEFAULT 0,
+    discount_percentage DECIMAL(5,2) NOT NULL DEFAULT 0,
+    discount_amount DECIMAL(18,2) NOT NULL DEFAULT 0,
+    taxable_amount DECIMAL(18,2) NOT NULL DEFAULT 0,
+    tax_percentage DECIMAL(5,2) NOT NULL DEFAULT 0,
+    tax_amount DECIMAL(18,2) NOT NULL DEFAULT 0,
+    line_total DECIMAL(18,2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(quotation_id, line_number),
+    CHECK (quantity > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quotation_lines_quotation_id ON public.quotation_lines(quotation_id);
+
+-- ============================================================================
+-- 3. Row level security
+-- ============================================================================
+
+ALTER TABLE public.quotations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quotation_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read tenant quotations" ON public.quotations;
+CREATE POLICY "Users can read tenant quotations"
+ON public.quotations FOR SELECT
+USING (
+    tenant_id = public.get_current_user_tenant()
+);
+
+DROP POLICY IF EXISTS "Users with permissions can insert quotations" ON public.quotations;
+CREATE POLICY "Users with permissions can insert quotations"
+ON public.quotations FOR INSERT
+WITH CHECK (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'quotations', 'create', '*')
+);
+
+DROP POLICY IF EXISTS "Users with permissions can update quotations" ON public.quotations;
+CREATE POLICY "Users with permissions can update quotations"
+ON public.quotations FOR UPDATE
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'quotations', 'edit', '*')
+);
+
+DROP POLICY IF EXISTS "Users with permissions can delete draft quotations" ON public.quotations;
+CREATE POLICY "Users with permissions can delete draft quotations"
+ON public.quotations FOR DELETE
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'quotations', 'delete', '*')
+    AND status = 'draft'
+);
+
+DROP POLICY IF EXISTS "Users can read tenant quotation lines" ON public.quotation_lines;
+CREATE POLICY "Users can read tenant quotation lines"
+ON public.quotation_lines FOR SELECT
+USING (
+    tenant_id = public.get_current_user_tenant()
+);
+
+DROP POLICY IF EXISTS "Users with permissions can manage quotation lines" ON public.quotation_lines;
+CREATE POLICY "Users with permissions can manage quotation lines"
+ON public.quotation_lines FOR ALL
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'quotations', 'edit', '*')
+);
+
+-- ============================================================================
+-- 4. Numbering
+-- ============================================================================
+-- QUO-<year>-<sequence>, with the sequence kept in settings like invoice
+-- numbers.
+
+CREATE OR REPLACE FUNCTION public.generate_quotation_number(
+    p_tenant_id UUID
+)
+RETURNS VARCHAR AS $$
+DECLARE
+    v_sequence BIGINT;
+    v_year VARCHAR(4);
+BEGIN
+    v_year := EXTRACT(YEAR FROM CURRENT_DATE)::VARCHAR;
+
+    v_sequence := COALESCE(
+        (SELECT (value->>'sequence')::BIGINT FROM public.settings
+         WHERE tenant_id = p_tenant_id AND key = 'quotation_sequence'),
+        0
+    ) + 1;
+
+    INSERT INTO public.settings (tenant_id, key, value)
+    VALUES (p_tenant_id, 'quotation_sequence', jsonb_build_object('sequence', v_sequence))
+    ON CONFLICT (tenant_id, key)
+    DO UPDATE SET value = jsonb_build_object('sequence', v_sequence), updated_at = NOW();
+
+    RETURN 'QUO-' || v_year || '-' || LPAD(v_sequence::VARCHAR, 6, '0');
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 5. Permissions
+-- ============================================================================
+
+INSERT INTO public.permissions (module, action, resource, description) VALUES
+('quotations', 'view', '*', 'View quotations'),
+('quotations', 'create', '*', 'Create quotations'),
+('quotations', 'edit', '*', 'Edit, send, accept and reject quotations'),
+('quotations', 'delete', '*', 'Delete draft quotations')
+ON CONFLICT (module, action, resource) DO UPDATE
+SET description = EXCLUDED.description;
+
+DO $$
+BEGIN
+    INSERT INTO public.role_permissions (role_id, permission_id)
+    SELECT r.id, p.id
+    FROM public.roles r
+    CROSS JOIN public.permissions p
+    WHERE r.name IN ('COMPANY_ADMIN', 'FINANCE_MANAGER')
+      AND p.module = 'quotations'
+    ON CONFLICT (role_id, permission_id) DO NOTHING;
+
+    INSERT INTO public.role_permissions (role_id, permission_id)
+    SELECT r.id, p.id
+    FROM public.roles r
+    CROSS JOIN public.permissions p
+    WHERE r.name = 'ACCOUNTANT'
+      AND p.module = 'quotations'
+      AND p.action IN ('view', 'create', 'edit')
+    ON CONFLICT (role_id, permission_id) DO NOTHING;
+END $$;
@@ -0,0 +1,337 @@
+-- Migration: Credit notes applied against invoices
+-- Date: 2026-10-19
+-- Description: Links credit and debit notes (sales_return / purchase_return invoices) to
+--              the invoice they correct and line by line to its lines, and lets the
+--              credit of a posted note be applied to one or more open invoices of the
+--              same party, reducing their balance like a payment does
+
+-- ============================================================================
+-- 1. Links to the original invoice
+-- ============================================================================
+
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS original_invoice_id UUID REFERENCES public.invoices(id);
+
+-- Credit applied to this invoice, or applied from this credit note
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS credited_amount DECIMAL(18,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.invoice_lines
+ADD COLUMN IF NOT EXISTS original_line_id UUID REFERENCES public.invoice_lines(id);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_original_invoice_id
+ON public.invoices(original_invoice_id)
+WHERE original_invoice_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_invoice_lines_original_line_id
+ON public.invoice_lines(original_line_id)
+WHERE original_line_id IS NOT NULL;
+
+-- ============================================================================
+-- 2. Credit note allocations
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.credit_note_allocations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    credit_note_id UUID NOT NULL REFERENCES public.invoices(id),
+    invoice_id UUID NOT NULL REFERENCES public.invoices(id),
+    allocation_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    amount DECIMAL(18,2) NOT NULL CHECK (amount > 0),
+    notes TEXT,
+    created_by UUID REFERENCES public.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (credit_note_id <> invoice_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_note_allocations_credit_note_id
+ON public.credit_note_allocations(credit_note_id);
+
+CREATE INDEX IF NOT EXISTS idx_credit_note_allocations_invoice_id
+ON public.credit_note_allocations(invoice_id);
+
+ALTER TABLE public.credit_note_allocations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read tenant credit note allocations" ON public.credit_note_allocations;
+CREATE POLICY "Users can read tenant credit note allocations"
+ON public.credit_note_allocations FOR SELECT
+USING (
+    tenant_id = public.get_current_user_tenant()
+);
+
+DROP POLICY IF EXISTS "Users with permissions can insert credit note allocations" ON public.credit_note_allocations;
+CREATE POLICY "Users with permissions can insert credit note allocations"
+ON public.credit_note_allocations FOR INSERT
+WITH CHECK (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'invoices', 'edit', '*')
+);
+
+DROP POLICY IF EXISTS "Users with permissions can delete credit note allocations" ON public.credit_note_allocations;
+CREATE POLICY "Users with permissions can delete credit note allocations"
+ON public.credit_note_allocations FOR DELETE
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'invoices', 'edit', '*')
+);
+
+-- ============================================================================
+-- 3. Invoice balances
+-- ============================================================================
+-- The balance of an invoice is its total less payments and credit applied.
+-- For a credit note the same formula gives the credit still unapplied. Runs as
+-- definer because it maintains derived columns of posted invoices, which the
+-- invoice update policy does not let users change.
+
+CREATE OR REPLACE FUNCTION public.refresh_invoice_balance(p_invoice_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_total DECIMAL(18,2);
+    v_paid DECIMAL(18,2);
+    v_credited DECIMAL(18,2);
+BEGIN
+    SELECT total_amount INTO v_total
+    FROM public.invoices
+    WHERE id = p_invoice_id;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    SELECT COALESCE(SUM(amount), 0) INTO v_paid
+    FROM public.payment_allocations
+    WHERE invoice_id = p_invoice_id;
+
+    SELECT COALESCE(SUM(amount), 0) INTO v_credited
+    FROM public.credit_note_allocations
+    WHERE invoice_id = p_invoice_id OR credit_note_id = p_invoice_id;
+
+    UPDATE public.invoices
+    SET paid_amount = v_paid,
+        credited_amount = v_credited,
+        balance_amount = v_total - v_paid - v_credited,
+        status = CASE
+            WHEN status NOT IN ('posted', 'partially_paid', 'paid', 'overdue') THEN status
+            WHEN v_paid + v_credited >= v_total THEN 'paid'
+            WHEN v_paid + v_credited > 0 THEN 'partially_paid'
+            WHEN status = 'overdue' THEN 'overdue'
+            ELSE 'posted'
+        END
+    WHERE id = p_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Payment allocations keep using the same trigger, now through the shared
+-- balance function so applied credit is not lost
+CREATE OR REPLACE FUNCTION public.update_invoice_payment_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        PERFORM public.refresh_invoice_balance(OLD.invoice_id);
+    END IF;
+
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        PERFORM public.refresh_invoice_balance(NEW.invoice_id);
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    ELSE
+        RETURN NEW;
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.update_invoice_credit_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        PERFORM public.refresh_invoice_balance(OLD.invoice_id);
+        PERFORM public.refresh_invoice_balance(OLD.credit_note_id);
+        RETURN OLD;
+    END IF;
+
+    PERFORM public.refresh_invoice_balance(NEW.invoice_id);
+    PERFORM public.refresh_invoice_balance(NEW.credit_note_id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_invoice_credit_status_trigger ON public.credit_note_allocations;
+CREATE TRIGGER update_invoice_credit_status_trigger
+AFTER INSERT OR DELETE ON public.credit_note_allocations
+FOR EACH ROW EXECUTE FUNCTION public.update_invoice_credit_status();
+
+-- ============================================================================
+-- 4. Applying credit
+-- ============================================================================
+-- Locks the credit note and the invoices, checks that every amount fits both
+-- the remaining credit and the invoice balance, and writes the allocations in
+-- one transaction.
+
+CREATE OR REPLACE FUNCTION public.apply_credit_note(
+    p_credit_note_id UUID,
+    p_tenant_id UUID,
+    p_user_id UUID,
+    p_allocations JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+    v_credit_note public.invoices;
+    v_invoice public.invoices;
+    v_allocation RECORD;
+    v_remaining DECIMAL(18,2);
+    v_invoice_type VARCHAR(20);
+BEGIN
+    SELECT * INTO v_credit_note
+    FROM public.invoices
+    WHERE id = p_credit_note_id AND tenant_id = p_tenant_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Credit note not found';
+    END IF;
+
+    IF v_credit_note.invoice_type NOT IN ('sales_return', 'purchase_return') THEN
+        RAISE EXCEPTION 'Invoice % is not a credit note', v_credit_note.invoice_number;
+    END IF;
+
+    IF v_credit_note.status NOT IN ('posted', 'partially_paid') THEN
+        RAISE EXCEPTION 'Credit can only be applied from a posted credit note with unapplied credit';
+    END IF;
+
+    v_invoice_type := CASE v_credit_note.invoice_type
+        WHEN 'sales_return' THEN 'sales'
+        ELSE 'purchase'
+    END;
+    v_remaining := v_credit_note.balance_amount;
+
+    FOR v_allocation IN
+        SELECT (a->>'invoice_id')::UUID AS invoice_id,
+               (a->>'amount')::DECIMAL(18,2) AS amount,
+               a->>'notes' AS notes
+        FROM jsonb_array_elements(p_allocations) a
+    LOOP
+        SELECT * INTO v_invoice
+        FROM public.invoices
+        WHERE id = v_allocation.invoice_id AND tenant_id = p_tenant_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Invoice % not found', v_allocation.invoice_id;
+        END IF;
+
+        IF v_invoice.invoice_type <> v_invoice_type
+           OR v_invoice.party_id <> v_credit_note.party_id THEN
+            RAISE EXCEPTION 'Invoice % does not belong to the party of the credit note', v_invoice.invoice_number;
+        END IF;
+
+        IF v_invoice.status NOT IN ('posted', 'partially_paid', 'overdue') THEN
+            RAISE EXCEPTION 'Invoice % is not open', v_invoice.invoice_number;
+        END IF;
+
+        IF v_invoice.currency <> v_credit_note.currency THEN
+            RAISE EXCEPTION 'Invoice % is in % but the credit note is in %',
+                v_invoice.invoice_number, v_invoice.currency, v_credit_note.currency;
+        END IF;
+
+        IF v_allocation.amount > v_invoice.balance_amount THEN
+            RAISE EXCEPTION 'Amount % exceeds the balance % of invoice %',
+                v_allocation.amount, v_invoice.balance_amount, v_invoice.invoice_number;
+        END IF;
+
+        IF v_allocation.amount > v_remaining THEN
+            RAISE EXCEPTION 'The allocations exceed the unapplied credit of %', v_credit_note.balance_amount;
+        END IF;
+
+        INSERT INTO public.credit_note_allocations (
+            tenant_id,
+            credit_note_id,
+            invoice_id,
+            amount,
+            notes,
+            created_by
+        )
+        VALUES (
+            p_tenant_id,
+            p_credit_note_id,
+            v_allocation.invoice_id,
+            v_allocation.amount,
+            v_allocation.notes,
+            p_user_id
+        );
+
+        v_remaining := v_remaining - v_allocation.amount;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 5. Customer balance
+-- ============================================================================
+-- Adds the credit notes of a customer and their unapplied credit, and stops
+-- counting credit notes as overdue receivables.
+
+CREATE OR REPLACE VIEW public.v_customer_balance AS
+WITH customer_invoices AS (
+    SELECT
+        i.tenant_id,
+        i.party_id AS customer_id,
+        c.code AS customer_code,
+        c.name_ar AS customer_name_ar,
+        c.name_en AS customer_name_en,
+        c.vat_number,
+        CASE WHEN i.invoice_type IN ('sales', 'purchase_return') THEN i.total_amount ELSE 0 END AS debit_amount,
+        CASE WHEN i.invoice_type IN ('sales_return', 'purchase') THEN i.total_amount ELSE 0 END AS credit_amount,
+        i.paid_amount,
+        i.invoice_date,
+        i.due_date,
+        i.balance_amount AS invoice_balance,
+        CASE
+            WHEN i.invoice_type = 'sales' AND i.due_date < CURRENT_DATE AND i.balance_amount > 0 THEN true
+            ELSE false
+        END AS is_overdue,
+        EXTRACT(DAY FROM (CURRENT_DATE - i.due_date))::INTEGER AS days_overdue,
+        CASE WHEN i.invoice_type = 'sales_return' THEN i.total_amount ELSE 0 END AS credit_note_amount,
+        CASE WHEN i.invoice_type = 'sales_return' THEN i.balance_amount ELSE 0 END AS unapplied_credit
+    FROM public.invoices i
+    JOIN public.customers c ON i.party_id = c.id
+    WHERE i.party_type = 'customer'
+    AND i.status NOT IN ('draft', 'cancelled')
+)
+SELECT
+    ci.tenant_id,
+    ci.customer_id,
+    ci.customer_code,
+    ci.customer_name_ar,
+    ci.customer_name_en,
+    ci.vat_number,
+    SUM(ci.debit_amount - ci.credit_amount) AS invoice_balance,
+    SUM(CASE WHEN ci.is_overdue THEN ci.invoice_balance ELSE 0 END) AS overdue_amount,
+    SUM(CASE
+        WHEN ci.days_overdue BETWEEN 0 AND 30 AND ci.is_overdue THEN ci.invoice_balance
+        ELSE 0
+    END) AS overdue_0_30,
+    SUM(CASE
+        WHEN ci.days_overdue BETWEEN 31 AND 60 AND ci.is_overdue THEN ci.invoice_balance
+        ELSE 0
+    END) AS overdue_31_60,
+    SUM(CASE
+        WHEN ci.days_overdue BETWEEN 61 AND 90 AND ci.is_overdue THEN ci.invoice_balance
+        ELSE 0
+    END) AS overdue_61_90,
+    SUM(CASE
+        WHEN ci.days_overdue > 90 AND ci.is_overdue THEN ci.invoice_balance
+        ELSE 0
+    END) AS overdue_90_plus,
+    SUM(ci.credit_note_amount) AS credit_note_amount,
+    SUM(ci.unapplied_credit) AS unapplied_credit
+FROM customer_invoices ci
+GROUP BY
+    ci.tenant_id,
+    ci.customer_id,
+    ci.customer_code,
+    ci.customer_name_ar,
+    ci.customer_name_en,
+    ci.vat_number
+HAVING SUM(ci.debit_amount - ci.credit_amount) != 0;
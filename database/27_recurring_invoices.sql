@@ -0,0 +1,168 @@
+-- Migration: Recurring invoice profiles
+-- Date: 2026-10-19
+-- Description: Sales invoice profiles billed to a customer on a recurrence rule, with a log
+--              of generated invoices and failures. Invoices are generated, optionally
+--              submitted, approved, posted and emailed by the 'recurring-invoices' Bull queue.
+
+-- ============================================================================
+-- 1. Recurring invoice profiles
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.recurring_invoice_profiles (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    branch_id UUID REFERENCES public.branches(id),
+    name VARCHAR(255) NOT NULL,
+    customer_id UUID NOT NULL REFERENCES public.customers(id),
+    currency VARCHAR(3) NOT NULL DEFAULT 'QAR',
+    exchange_rate DECIMAL(18,6) DEFAULT 1,
+    -- Days from the invoice date to its due date; the customer's payment terms when null
+    payment_terms_days INTEGER CHECK (payment_terms_days >= 0),
+    notes TEXT,
+    -- Recurrence rule
+    frequency VARCHAR(20) NOT NULL CHECK (frequency IN ('monthly', 'quarterly', 'yearly')),
+    day_of_month INTEGER NOT NULL CHECK (day_of_month BETWEEN 1 AND 31),
+    start_date DATE NOT NULL,
+    end_date DATE,
+    next_run_date DATE,
+    last_run_date DATE,
+    -- Each automatic step requires the previous one
+    auto_submit BOOLEAN NOT NULL DEFAULT false,
+    auto_approve BOOLEAN NOT NULL DEFAULT false,
+    auto_post BOOLEAN NOT NULL DEFAULT false,
+    auto_email BOOLEAN NOT NULL DEFAULT false,
+    email_language VARCHAR(2) NOT NULL DEFAULT 'en' CHECK (email_language IN ('ar', 'en')),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    occurrences_generated INTEGER NOT NULL DEFAULT 0,
+    created_by UUID REFERENCES public.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (end_date IS NULL OR end_date >= start_date),
+    CHECK (NOT auto_approve OR auto_submit),
+    CHECK (NOT auto_post OR auto_approve),
+    CHECK (NOT auto_email OR auto_post)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_invoice_profiles_tenant_id
+ON public.recurring_invoice_profiles(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_invoice_profiles_customer_id
+ON public.recurring_invoice_profiles(customer_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_invoice_profiles_next_run
+ON public.recurring_invoice_profiles(is_active, next_run_date);
+
+-- ============================================================================
+-- 2. Profile lines
+-- ============================================================================
+-- The VAT code is resolved to its current rate each time an invoice is
+-- generated.
+
+CREATE TABLE IF NOT EXISTS public.recurring_invoice_profile_lines (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    profile_id UUID NOT NULL REFERENCES public.recurring_invoice_profiles(id) ON DELETE CASCADE,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    line_number INTEGER NOT NULL,
+    item_code VARCHAR(50),
+    description_ar TEXT NOT NULL,
+    description_en TEXT,
+    quantity DECIMAL(18,2) NOT NULL DEFAULT 1,
+    unit_of_measure VARCHAR(20),
+    unit_price DECIMAL(18,2) NOT NULL DEFAULT 0,
+    discount_percentage DECIMAL(5,2) NOT NULL DEFAULT 0,
+    vat_code_id UUID REFERENCES public.vat_codes(id),
+    account_id UUID REFERENCES public.chart_of_accounts(id),
+    cost_center_id UUID REFERENCES public.cost_centers(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(profile_id, line_number),
+    CHECK (quantity > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_invoice_profile_lines_profile_id
+ON public.recurring_invoice_profile_lines(profile_id);
+
+-- ============================================================================
+-- 3. Generation history
+-- ============================================================================
+-- One row per scheduled date. A run claims its date by inserting the row as
+-- pending before creating the invoice, so only one run generates it. The
+-- status is then the last step reached; a failed creation has no invoice and
+-- is retried on the next run, while a failed automatic step or email keeps
+-- the invoice and records the error.
+
+CREATE TABLE IF NOT EXISTS public.recurring_invoice_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    profile_id UUID NOT NULL REFERENCES public.recurring_invoice_profiles(id) ON DELETE CASCADE,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    occurrence_date DATE NOT NULL,
+    invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL,
+    status VARCHAR(20) NOT NULL CHECK (status IN (
+        'pending', 'generated', 'submitted', 'approved', 'posted', 'emailed', 'failed'
+    )),
+    error_message TEXT,
+    emailed_to VARCHAR(255),
+    emailed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(profile_id, occurrence_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_invoice_runs_profile_id
+ON public.recurring_invoice_runs(profile_id, occurrence_date);
+
+-- ============================================================================
+-- 4. Triggers
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS recurring_invoice_profiles_update_timestamp ON public.recurring_invoice_profiles;
+CREATE TRIGGER recurring_invoice_profiles_update_timestamp
+BEFORE UPDATE ON public.recurring_invoice_profiles
+FOR EACH ROW EXECUTE FUNCTION public.update_timestamp();
+
+DROP TRIGGER IF EXISTS recurring_invoice_runs_update_timestamp ON public.recurring_invoice_runs;
+CREATE TRIGGER recurring_invoice_runs_update_timestamp
+BEFORE UPDATE ON public.recurring_invoice_runs
+FOR EACH ROW EXECUTE FUNCTION public.update_timestamp();
+
+-- ============================================================================
+-- 5. RLS
+-- ============================================================================
+
+ALTER TABLE public.recurring_invoice_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_invoice_profile_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_invoice_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read tenant recurring invoice profiles" ON public.recurring_invoice_profiles;
+CREATE POLICY "Users can read tenant recurring invoice profiles"
+ON public.recurring_invoice_profiles FOR SELECT
+USING (
+    tenant_id = public.get_current_user_tenant()
+);
+
+DROP POLICY IF EXISTS "Users with permissions can manage recurring invoice profiles" ON public.recurring_invoice_profiles;
+CREATE POLICY "Users with permissions can manage recurring invoice profiles"
+ON public.recurring_invoice_profiles FOR ALL
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'invoices', 'create', 'sales')
+);
+
+DROP POLICY IF EXISTS "Users can read tenant recurring invoice profile lines" ON public.recurring_invoice_profile_lines;
+CREATE POLICY "Users can read tenant recurring invoice profile lines"
+ON public.recurring_invoice_profile_lines FOR SELECT
+USING (
+    tenant_id = public.get_current_user_tenant()
+);
+
+DROP POLICY IF EXISTS "Users with permissions can manage recurring invoice profile lines" ON public.recurring_invoice_profile_lines;
+CREATE POLICY "Users with permissions can manage recurring invoice profile lines"
+ON public.recurring_invoice_profile_lines FOR ALL
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'invoices', 'create', 'sales')
+);
+
+DROP POLICY IF EXISTS "Users can read tenant recurring invoice runs" ON public.recurring_invoice_runs;
+CREATE POLICY "Users can read tenant recurring invoice runs"
+ON public.recurring_invoice_runs FOR SELECT
+USING (
+    tenant_id = public.get_current_user_tenant()
+);
@@ -0,0 +1,117 @@
+-- Migration: Dunning levels and invoice reminders
+-- Date: 2026-10-19
+-- Description: Tenant-configurable reminder levels relative to the invoice due date, each
+--              with its own subject and message, and a log of the reminders sent for each
+--              invoice. Reminders are sent daily by the 'dunning' Bull queue in the
+--              customer's preferred language; customers can be excluded.
+
+-- ============================================================================
+-- 1. Customer preferences
+-- ============================================================================
+
+ALTER TABLE public.customers
+ADD COLUMN IF NOT EXISTS preferred_language VARCHAR(2) NOT NULL DEFAULT 'en'
+    CHECK (preferred_language IN ('ar', 'en'));
+
+ALTER TABLE public.customers
+ADD COLUMN IF NOT EXISTS exclude_from_dunning BOOLEAN NOT NULL DEFAULT false;
+
+-- ============================================================================
+-- 2. Dunning levels
+-- ============================================================================
+-- days_offset is counted from the due date: -3 is three days before the
+-- invoice falls due, 7 is seven days overdue. The message text may use the
+-- placeholders {{customerName}}, {{invoiceNumber}}, {{amount}}, {{currency}},
+-- {{dueDate}} and {{daysOverdue}}.
+
+CREATE TABLE IF NOT EXISTS public.dunning_levels (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    days_offset INTEGER NOT NULL,
+    subject_en VARCHAR(255) NOT NULL,
+    subject_ar VARCHAR(255) NOT NULL,
+    message_en TEXT NOT NULL,
+    message_ar TEXT NOT NULL,
+    attach_pdf BOOLEAN NOT NULL DEFAULT true,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES public.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(tenant_id, days_offset)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dunning_levels_tenant_id
+ON public.dunning_levels(tenant_id, is_active);
+
+-- ============================================================================
+-- 3. Invoice reminders
+-- ============================================================================
+-- One row per invoice and level. A failed reminder is retried by the next run
+-- and its row updated.
+
+CREATE TABLE IF NOT EXISTS public.invoice_reminders (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+    dunning_level_id UUID REFERENCES public.dunning_levels(id) ON DELETE SET NULL,
+    customer_id UUID NOT NULL REFERENCES public.customers(id),
+    days_offset INTEGER NOT NULL,
+    sent_to VARCHAR(255),
+    language VARCHAR(2) NOT NULL,
+    balance_amount DECIMAL(18,2) NOT NULL,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('sent', 'failed')),
+    error_message TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(invoice_id, dunning_level_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_reminders_invoice_id
+ON public.invoice_reminders(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_reminders_tenant_id
+ON public.invoice_reminders(tenant_id, created_at);
+
+-- ============================================================================
+-- 4. Triggers
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS dunning_levels_update_timestamp ON public.dunning_levels;
+CREATE TRIGGER dunning_levels_update_timestamp
+BEFORE UPDATE ON public.dunning_levels
+FOR EACH ROW EXECUTE FUNCTION public.update_timestamp();
+
+DROP TRIGGER IF EXISTS invoice_reminders_update_timestamp ON public.invoice_reminders;
+CREATE TRIGGER invoice_reminders_update_timestamp
+BEFORE UPDATE ON public.invoice_reminders
+FOR EACH ROW EXECUTE FUNCTION public.update_timestamp();
+
+-- ============================================================================
+-- 5. RLS
+-- ============================================================================
+
+ALTER TABLE public.dunning_levels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_reminders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read tenant dunning levels" ON public.dunning_levels;
+CREATE POLICY "Users can read tenant dunning levels"
+ON public.dunning_levels FOR SELECT
+USING (
+    tenant_id = public.get_current_user_tenant()
+);
+
+DROP POLICY IF EXISTS "Users with permissions can manage dunning levels" ON public.dunning_levels;
+CREATE POLICY "Users with permissions can manage dunning levels"
+ON public.dunning_levels FOR ALL
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'invoices', 'edit', '*')
+);
+
+DROP POLICY IF EXISTS "Users can read tenant invoice reminders" ON public.invoice_reminders;
+CREATE POLICY "Users can read tenant invoice reminders"
+ON public.invoice_reminders FOR SELECT
+USING (
+    tenant_id = public.get_current_user_tenant()
+);
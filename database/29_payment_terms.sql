@@ -0,0 +1,187 @@
+-- Migration: Payment terms and overdue invoices
+-- Date: 2026-10-19
+-- Description: Named payment terms (net N days, end of month + N days, optional early-payment
+--              discount) assignable to customers, vendors and invoices. Due dates are derived
+--              from the terms when an invoice is created without one, and the
+--              'overdue-invoices' Bull queue moves open invoices past their due date to
+--              'overdue' and back once settled or rescheduled.
+
+-- ============================================================================
+-- 1. Payment terms
+-- ============================================================================
+-- term_type 'net' is due days after the invoice date; 'end_of_month' is due
+-- days after the last day of the invoice month. A discount of
+-- discount_percentage applies when paid within discount_days of the invoice
+-- date (e.g. 2/10 net 30).
+
+CREATE TABLE IF NOT EXISTS public.payment_terms (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    code VARCHAR(20) NOT NULL,
+    name_en VARCHAR(100) NOT NULL,
+    name_ar VARCHAR(100) NOT NULL,
+    term_type VARCHAR(20) NOT NULL DEFAULT 'net' CHECK (term_type IN ('net', 'end_of_month')),
+    days INTEGER NOT NULL DEFAULT 0 CHECK (days >= 0),
+    discount_percentage DECIMAL(5,2) CHECK (discount_percentage > 0 AND discount_percentage < 100),
+    discount_days INTEGER CHECK (discount_days >= 0),
+    is_default BOOLEAN NOT NULL DEFAULT false,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES public.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(tenant_id, code),
+    CHECK ((discount_percentage IS NULL) = (discount_days IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_terms_tenant_id
+ON public.payment_terms(tenant_id, is_active);
+
+-- At most one default per tenant
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_terms_default
+ON public.payment_terms(tenant_id) WHERE is_default;
+
+-- ============================================================================
+-- 2. Terms on parties and invoices
+-- ============================================================================
+-- Party terms take precedence over payment_terms_days, which stays as the
+-- simple net-days setting.
+
+ALTER TABLE public.customers
+ADD COLUMN IF NOT EXISTS payment_terms_id UUID REFERENCES public.payment_terms(id) ON DELETE SET NULL;
+
+ALTER TABLE public.vendors
+ADD COLUMN IF NOT EXISTS payment_terms_id UUID REFERENCES public.payment_terms(id) ON DELETE SET NULL;
+
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS payment_terms_id UUID REFERENCES public.payment_terms(id) ON DELETE SET NULL;
+
+-- Early-payment discount offered by the terms, fixed when the invoice is created
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS early_payment_discount_percentage DECIMAL(5,2);
+
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS early_payment_discount_date DATE;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_open_due_date
+ON public.invoices(status, due_date)
+WHERE status IN ('posted', 'partially_paid', 'overdue');
+
+-- ============================================================================
+-- 3. Balance refresh keeps overdue invoices overdue
+-- ============================================================================
+-- A partial payment or credit on an overdue invoice leaves it overdue rather
+-- than partially paid.
+
+CREATE OR REPLACE FUNCTION public.refresh_invoice_balance(p_invoice_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_total DECIMAL(18,2);
+    v_paid DECIMAL(18,2);
+    v_credited DECIMAL(18,2);
+BEGIN
+    SELECT total_amount INTO v_total
+    FROM public.invoices
+    WHERE id = p_invoice_id;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    SELECT COALESCE(SUM(amount), 0) INTO v_paid
+    FROM public.payment_allocations
+    WHERE invoice_id = p_invoice_id;
+
+    SELECT COALESCE(SUM(amount), 0) INTO v_credited
+    FROM public.credit_note_allocations
+    WHERE invoice_id = p_invoice_id OR credit_note_id = p_invoice_id;
+
+    UPDATE public.invoices
+    SET paid_amount = v_paid,
+        credited_amount = v_credited,
+        balance_amount = v_total - v_paid - v_credited,
+        status = CASE
+            WHEN status NOT IN ('posted', 'partially_paid', 'paid', 'overdue') THEN status
+            WHEN v_paid + v_credited >= v_total THEN 'paid'
+            WHEN invoice_type IN ('sales', 'purchase') AND due_date < CURRENT_DATE THEN 'overdue'
+            WHEN v_paid + v_credited > 0 THEN 'partially_paid'
+            ELSE 'posted'
+        END
+    WHERE id = p_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 4. Overdue refresh
+-- ============================================================================
+-- Marks open sales and purchase invoices past their due date as overdue, and
+-- returns overdue invoices that were settled or whose due date moved to the
+-- status their balance implies. Pass NULL to refresh every tenant (used by
+-- the scheduled job).
+
+CREATE OR REPLACE FUNCTION public.refresh_overdue_invoices(
+    p_as_of DATE DEFAULT CURRENT_DATE,
+    p_tenant_id UUID DEFAULT NULL
+)
+RETURNS TABLE(
+    marked_overdue INTEGER,
+    cleared INTEGER
+) AS $$
+DECLARE
+    v_marked INTEGER;
+    v_cleared INTEGER;
+BEGIN
+    UPDATE public.invoices
+    SET status = 'overdue'
+    WHERE (p_tenant_id IS NULL OR tenant_id = p_tenant_id)
+      AND invoice_type IN ('sales', 'purchase')
+      AND status IN ('posted', 'partially_paid')
+      AND due_date < p_as_of
+      AND balance_amount > 0;
+
+    GET DIAGNOSTICS v_marked = ROW_COUNT;
+
+    UPDATE public.invoices
+    SET status = CASE
+            WHEN balance_amount <= 0 THEN 'paid'
+            WHEN paid_amount + COALESCE(credited_amount, 0) > 0 THEN 'partially_paid'
+            ELSE 'posted'
+        END
+    WHERE (p_tenant_id IS NULL OR tenant_id = p_tenant_id)
+      AND status = 'overdue'
+      AND (balance_amount <= 0 OR due_date IS NULL OR due_date >= p_as_of);
+
+    GET DIAGNOSTICS v_cleared = ROW_COUNT;
+
+    RETURN QUERY SELECT v_marked, v_cleared;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 5. Triggers
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS payment_terms_update_timestamp ON public.payment_terms;
+CREATE TRIGGER payment_terms_update_timestamp
+BEFORE UPDATE ON public.payment_terms
+FOR EACH ROW EXECUTE FUNCTION public.update_timestamp();
+
+-- ============================================================================
+-- 6. RLS
+-- ============================================================================
+
+ALTER TABLE public.payment_terms ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read tenant payment terms" ON public.payment_terms;
+CREATE POLICY "Users can read tenant payment terms"
+ON public.payment_terms FOR SELECT
+USING (
+    tenant_id = public.get_current_user_tenant()
+);
+
+DROP POLICY IF EXISTS "Users with permissions can manage payment terms" ON public.payment_terms;
+CREATE POLICY "Users with permissions can manage payment terms"
+ON public.payment_terms FOR ALL
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'invoices', 'edit', '*')
+);
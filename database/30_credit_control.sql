@@ -0,0 +1,96 @@
+-- Migration: Customer credit control
+-- Date: 2026-10-19
+-- Description: Manual credit holds on customers and a record of every sales invoice submitted
+--              or approved past the customer's credit limit or hold, and adds the permission
+--              that allows those overrides
+
+-- ============================================================================
+-- 1. Credit holds
+-- ============================================================================
+-- A customer on hold cannot have sales invoices submitted or approved without
+-- an override, whatever the credit limit. A credit_limit of 0 (the default)
+-- means no limit.
+
+ALTER TABLE public.customers
+ADD COLUMN IF NOT EXISTS credit_hold BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.customers
+ADD COLUMN IF NOT EXISTS credit_hold_reason TEXT;
+
+ALTER TABLE public.customers
+ADD COLUMN IF NOT EXISTS credit_hold_by UUID REFERENCES public.users(id);
+
+ALTER TABLE public.customers
+ADD COLUMN IF NOT EXISTS credit_hold_at TIMESTAMP WITH TIME ZONE;
+
+-- ============================================================================
+-- 2. Credit overrides
+-- ============================================================================
+-- The latest override is kept on the invoice; every override, with the
+-- exposure it allowed, is kept in credit_overrides.
+
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS credit_override_by UUID REFERENCES public.users(id);
+
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS credit_override_reason TEXT;
+
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS credit_override_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS public.credit_overrides (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+    action VARCHAR(20) NOT NULL CHECK (action IN ('submit', 'approve')),
+    reason TEXT NOT NULL,
+    credit_limit DECIMAL(18,2),
+    exposure DECIMAL(18,2) NOT NULL,
+    on_hold BOOLEAN NOT NULL DEFAULT false,
+    user_id UUID NOT NULL REFERENCES public.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_overrides_tenant_id
+ON public.credit_overrides(tenant_id);
+
+CREATE INDEX IF NOT EXISTS idx_credit_overrides_customer
+ON public.credit_overrides(customer_id, created_at);
+
+ALTER TABLE public.credit_overrides ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read tenant credit overrides" ON public.credit_overrides;
+CREATE POLICY "Users can read tenant credit overrides"
+ON public.credit_overrides FOR SELECT
+USING (
+    tenant_id = public.get_current_user_tenant()
+);
+
+DROP POLICY IF EXISTS "Users can insert tenant credit overrides" ON public.credit_overrides;
+CREATE POLICY "Users can insert tenant credit overrides"
+ON public.credit_overrides FOR INSERT
+WITH CHECK (
+    tenant_id = public.get_current_user_tenant()
+    AND user_id = auth.uid()
+);
+
+-- ============================================================================
+-- 3. Permissions
+-- ============================================================================
+
+INSERT INTO public.permissions (module, action, resource, description) VALUES
+('invoices', 'override', 'credit', 'Submit and approve sales invoices past a customer credit limit or hold')
+ON CONFLICT (module, action, resource) DO UPDATE
+SET description = EXCLUDED.description;
+
+DO $$
+BEGIN
+    INSERT INTO public.role_permissions (role_id, permission_id)
+    SELECT r.id, p.id
+    FROM public.roles r
+    CROSS JOIN public.permissions p
+    WHERE r.name = 'COMPANY_ADMIN'
+      AND p.module = 'invoices' AND p.action = 'override' AND p.resource = 'credit'
+    ON CONFLICT (role_id, permission_id) DO NOTHING;
+END $$;
@@ -0,0 +1,123 @@
+-- Migration: Invoice cancellation
+-- Date: 2026-10-19
+-- Description: Cancels posted, unsettled invoices by reversing their posted journal and removing
+--              their VAT transactions in one transaction. The invoice keeps its number, so the
+--              numbering has no gaps; it stays on file as cancelled with the reason.
+
+-- ============================================================================
+-- 1. Cancellation details
+-- ============================================================================
+
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS cancelled_by UUID REFERENCES public.users(id);
+
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS cancellation_reason TEXT;
+
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS cancellation_journal_id UUID REFERENCES public.journals(id);
+
+-- ============================================================================
+-- 2. Cancellation with journal reversal
+-- ============================================================================
+-- Locks the invoice and rechecks that nothing was allocated to it since the
+-- service checked, posts the reversal journal, marks the original journal
+-- reversed, removes the invoice's VAT transactions and marks it cancelled.
+-- Any failure rolls back all of it.
+
+CREATE OR REPLACE FUNCTION public.cancel_invoice_with_reversal(
+    p_invoice_id UUID,
+    p_tenant_id UUID,
+    p_user_id UUID,
+    p_reason TEXT,
+    p_journal JSONB,
+    p_lines JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+    v_invoice public.invoices;
+    v_journal_id UUID;
+BEGIN
+    SELECT * INTO v_invoice
+    FROM public.invoices
+    WHERE id = p_invoice_id AND tenant_id = p_tenant_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invoice not found';
+    END IF;
+
+    IF v_invoice.status NOT IN ('posted', 'overdue') THEN
+        RAISE EXCEPTION 'Can only cancel posted invoices that have not been paid';
+    END IF;
+
+    -- Its posted journal is the tenant's whole opening journal
+    IF v_invoice.is_opening_balance THEN
+        RAISE EXCEPTION 'Opening balance invoices cannot be cancelled';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.payment_allocations WHERE invoice_id = p_invoice_id
+    ) OR EXISTS (
+        SELECT 1 FROM public.credit_note_allocations
+        WHERE invoice_id = p_invoice_id OR credit_note_id = p_invoice_id
+    ) THEN
+        RAISE EXCEPTION 'Invoice has payments or credits applied; unapply them first';
+    END IF;
+
+    v_journal_id := public.create_journal_with_lines(
+        p_journal || jsonb_build_object(
+            'tenant_id', p_tenant_id,
+            'status', 'posted',
+            'posting_date', p_journal->>'transaction_date',
+            'posted_by', p_user_id,
+            'posted_at', NOW(),
+            'source_module', 'invoice_cancellations',
+            'source_id', p_invoice_id
+        ),
+        p_lines
+    );
+
+    IF v_invoice.posted_journal_id IS NOT NULL THEN
+        UPDATE public.journals
+        SET status = 'reversed',
+            reversed_by = p_user_id,
+            reversed_at = NOW(),
+            reversal_journal_id = v_journal_id,
+            reversal_reason = p_reason
+        WHERE id = v_invoice.posted_journal_id;
+
+        INSERT INTO public.journal_workflow (
+            journal_id, tenant_id, action, from_status, to_status, actioned_by, notes, metadata
+        )
+        VALUES (
+            v_invoice.posted_journal_id,
+            p_tenant_id,
+            'reversed',
+            'posted',
+            'reversed',
+            p_user_id,
+            p_reason,
+            jsonb_build_object('reversal_journal_id', v_journal_id)
+        );
+    END IF;
+
+    DELETE FROM public.vat_transactions
+    WHERE source_type = 'invoice'
+      AND source_id = p_invoice_id;
+
+    UPDATE public.invoices
+    SET status = 'cancelled',
+        balance_amount = 0,
+        cancelled_by = p_user_id,
+        cancelled_at = NOW(),
+        cancellation_reason = p_reason,
+        cancellation_journal_id = v_journal_id
+    WHERE id = p_invoice_id;
+
+    RETURN v_journal_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,201 @@
+-- Migration: Payment allocation and customer advances
+-- Date: 2026-10-19
+-- Description: Posts the unallocated part of a customer receipt to a customer advances liability
+--              account instead of receivables, and applies unallocated payments to invoices
+--              after posting, moving applied advances back to receivables in the same transaction
+
+-- ============================================================================
+-- 1. Customer advances account
+-- ============================================================================
+-- Optional. Without it, receipts credit receivables in full as before and
+-- applying them later needs no journal.
+
+ALTER TABLE public.account_mappings
+ADD COLUMN IF NOT EXISTS customer_advances_account_id UUID REFERENCES public.chart_of_accounts(id);
+
+-- ============================================================================
+-- 2. Advances on payments
+-- ============================================================================
+-- advance_amount is the part of a receipt posted to customer advances: its
+-- unallocated amount when it was posted. Allocations made after posting
+-- record the journal that moved their amount from advances to receivables.
+
+ALTER TABLE public.payments
+ADD COLUMN IF NOT EXISTS advance_amount DECIMAL(18,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.payment_allocations
+ADD COLUMN IF NOT EXISTS journal_id UUID REFERENCES public.journals(id);
+
+-- ============================================================================
+-- 3. Payment posting
+-- ============================================================================
+-- Same as in 23_atomic_posting.sql, but also stores the advance posted.
+
+DROP FUNCTION IF EXISTS public.post_payment_with_journal(UUID, UUID, UUID, JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION public.post_payment_with_journal(
+    p_payment_id UUID,
+    p_tenant_id UUID,
+    p_user_id UUID,
+    p_journal JSONB,
+    p_lines JSONB,
+    p_advance_amount DECIMAL(18,2) DEFAULT 0
+)
+RETURNS UUID AS $$
+DECLARE
+    v_status VARCHAR;
+    v_journal_id UUID;
+BEGIN
+    SELECT status INTO v_status
+    FROM public.payments
+    WHERE id = p_payment_id AND tenant_id = p_tenant_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Payment not found';
+    END IF;
+
+    IF v_status <> 'approved' THEN
+        RAISE EXCEPTION 'Can only post approved payments';
+    END IF;
+
+    v_journal_id := public.create_journal_with_lines(
+        p_journal || jsonb_build_object(
+            'tenant_id', p_tenant_id,
+            'status', 'posted',
+            'posting_date', p_journal->>'transaction_date',
+            'posted_by', p_user_id,
+            'posted_at', NOW(),
+            'source_module', 'payments',
+            'source_id', p_payment_id
+        ),
+        p_lines
+    );
+
+    UPDATE public.payments
+    SET status = 'posted',
+        posted_journal_id = v_journal_id,
+        posted_by = p_user_id,
+        posted_at = NOW(),
+        advance_amount = COALESCE(p_advance_amount, 0)
+    WHERE id = p_payment_id;
+
+    RETURN v_journal_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 4. Applying a posted payment
+-- ============================================================================
+-- Locks the payment and the invoice, checks the amount against both, adds the
+-- allocation and reduces the payment's unallocated amount. When p_journal is
+-- given (the payment was posted as an advance) the journal moving the amount
+-- from advances to receivables is posted with it. The service recomputes the
+-- invoice balance afterwards, as for allocations made on create.
+
+CREATE OR REPLACE FUNCTION public.apply_payment_to_invoice(
+    p_payment_id UUID,
+    p_tenant_id UUID,
+    p_user_id UUID,
+    p_invoice_id UUID,
+    p_amount DECIMAL(18,2),
+    p_allocation_date DATE,
+    p_journal JSONB DEFAULT NULL,
+    p_lines JSONB DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    v_payment public.payments;
+    v_invoice public.invoices;
+    v_journal_id UUID;
+    v_allocation_id UUID;
+BEGIN
+    SELECT * INTO v_payment
+    FROM public.payments
+    WHERE id = p_payment_id AND tenant_id = p_tenant_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Payment not found';
+    END IF;
+
+    IF v_payment.status <> 'posted' THEN
+        RAISE EXCEPTION 'Only posted payments can be applied';
+    END IF;
+
+    IF p_amount <= 0 OR p_amount > v_payment.unallocated_amount THEN
+        RAISE EXCEPTION 'Amount % exceeds the unallocated % of payment %',
+            p_amount, v_payment.unallocated_amount, v_payment.payment_number;
+    END IF;
+
+    SELECT * INTO v_invoice
+    FROM public.invoices
+    WHERE id = p_invoice_id AND tenant_id = p_tenant_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invoice not found';
+    END IF;
+
+    IF v_invoice.party_id <> v_payment.party_id
+       OR v_invoice.invoice_type <> CASE v_payment.payment_type WHEN 'receipt' THEN 'sales' ELSE 'purchase' END THEN
+        RAISE EXCEPTION 'Invoice % does not belong to the party of payment %',
+            v_invoice.invoice_number, v_payment.payment_number;
+    END IF;
+
+    IF v_invoice.status NOT IN ('posted', 'partially_paid', 'overdue') THEN
+        RAISE EXCEPTION 'Invoice % is not open', v_invoice.invoice_number;
+    END IF;
+
+    IF v_invoice.currency <> v_payment.currency THEN
+        RAISE EXCEPTION 'Invoice % is in % but payment % is in %',
+            v_invoice.invoice_number, v_invoice.currency, v_payment.payment_number, v_payment.currency;
+    END IF;
+
+    IF p_amount > v_invoice.balance_amount THEN
+        RAISE EXCEPTION 'Amount % exceeds the balance % of invoice %',
+            p_amount, v_invoice.balance_amount, v_invoice.invoice_number;
+    END IF;
+
+    IF p_journal IS NOT NULL THEN
+        v_journal_id := public.create_journal_with_lines(
+            p_journal || jsonb_build_object(
+                'tenant_id', p_tenant_id,
+                'status', 'posted',
+                'posting_date', p_journal->>'transaction_date',
+                'posted_by', p_user_id,
+                'posted_at', NOW(),
+                'source_module', 'payments',
+                'source_id', p_payment_id
+            ),
+            p_lines
+        );
+    END IF;
+
+    INSERT INTO public.payment_allocations (
+        payment_id,
+        tenant_id,
+        invoice_id,
+        allocation_date,
+        amount,
+        journal_id,
+        created_by
+    )
+    VALUES (
+        p_payment_id,
+        p_tenant_id,
+        p_invoice_id,
+        p_allocation_date,
+        p_amount,
+        v_journal_id,
+        p_user_id
+    )
+    RETURNING id INTO v_allocation_id;
+
+    UPDATE public.payments
+    SET unallocated_amount = unallocated_amount - p_amount
+    WHERE id = p_payment_id;
+
+    RETURN v_allocation_id;
+END;
+$$ LANGUAGE plpgsql;
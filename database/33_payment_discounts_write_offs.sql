@@ -0,0 +1,68 @@
+-- Migration: Payment discounts and write-offs
+-- Date: 2026-10-19
+-- Description: Counts the discount allowed and the amount written off on payment allocations
+--              toward settling invoices, adds the bad debts account they post to and a tolerance
+--              below which a short payment is written off automatically
+
+-- ============================================================================
+-- 1. Bad debts account and write-off tolerance
+-- ============================================================================
+-- Discounts post to the sales and purchase discount accounts already mapped;
+-- write-offs post to bad debts. A difference left on an invoice by an
+-- allocation that is no larger than write_off_tolerance is written off with
+-- it. 0 turns automatic write-offs off.
+
+ALTER TABLE public.account_mappings
+ADD COLUMN IF NOT EXISTS bad_debts_account_id UUID REFERENCES public.chart_of_accounts(id);
+
+ALTER TABLE public.account_mappings
+ADD COLUMN IF NOT EXISTS write_off_tolerance DECIMAL(18,2) NOT NULL DEFAULT 0
+CHECK (write_off_tolerance >= 0);
+
+-- ============================================================================
+-- 2. Invoice balances
+-- ============================================================================
+-- Same as in 29_payment_terms.sql, but a discount or write-off on an
+-- allocation settles the invoice like the amount paid. paid_amount stays the
+-- amount actually received or paid.
+
+CREATE OR REPLACE FUNCTION public.refresh_invoice_balance(p_invoice_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_total DECIMAL(18,2);
+    v_paid DECIMAL(18,2);
+    v_settled DECIMAL(18,2);
+    v_credited DECIMAL(18,2);
+BEGIN
+    SELECT total_amount INTO v_total
+    FROM public.invoices
+    WHERE id = p_invoice_id;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    SELECT COALESCE(SUM(amount), 0),
+           COALESCE(SUM(amount + COALESCE(discount_allowed, 0) + COALESCE(write_off, 0)), 0)
+    INTO v_paid, v_settled
+    FROM public.payment_allocations
+    WHERE invoice_id = p_invoice_id;
+
+    SELECT COALESCE(SUM(amount), 0) INTO v_credited
+    FROM public.credit_note_allocations
+    WHERE invoice_id = p_invoice_id OR credit_note_id = p_invoice_id;
+
+    UPDATE public.invoices
+    SET paid_amount = v_paid,
+        credited_amount = v_credited,
+        balance_amount = v_total - v_settled - v_credited,
+        status = CASE
+            WHEN status NOT IN ('posted', 'partially_paid', 'paid', 'overdue') THEN status
+            WHEN v_settled + v_credited >= v_total THEN 'paid'
+            WHEN invoice_type IN ('sales', 'purchase') AND due_date < CURRENT_DATE THEN 'overdue'
+            WHEN v_settled + v_credited > 0 THEN 'partially_paid'
+            ELSE 'posted'
+        END
+    WHERE id = p_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,317 @@
+-- Migration: Purchase orders
+-- Date: 2026-10-19
+-- Description: Purchase orders to vendors with their own numbering. A purchase order is approved,
+--              sent to the vendor and billed in one or more purchase invoices created from it.
+--              Each bill line records the order line it bills, so the quantity billed on every
+--              order line is kept up to date and the order closes once it is fully billed
+
+-- ============================================================================
+-- 1. Purchase orders
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.purchase_orders (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    branch_id UUID REFERENCES public.branches(id),
+    po_number VARCHAR(50) NOT NULL,
+    vendor_id UUID NOT NULL REFERENCES public.vendors(id),
+    order_date DATE NOT NULL,
+    expected_delivery_date DATE,
+    currency VARCHAR(3) NOT NULL DEFAULT 'QAR',
+    subtotal DECIMAL(18,2) NOT NULL DEFAULT 0,
+    discount_amount DECIMAL(18,2) NOT NULL DEFAULT 0,
+    taxable_amount DECIMAL(18,2) NOT NULL DEFAULT 0,
+    tax_amount DECIMAL(18,2) NOT NULL DEFAULT 0,
+    total_amount DECIMAL(18,2) NOT NULL DEFAULT 0,
+    notes TEXT,
+    reference_number VARCHAR(100),
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN (
+        'draft', 'approved', 'sent', 'partially_billed', 'closed', 'cancelled'
+    )),
+    approved_by UUID REFERENCES public.users(id),
+    approved_at TIMESTAMP WITH TIME ZONE,
+    sent_by UUID REFERENCES public.users(id),
+    sent_at TIMESTAMP WITH TIME ZONE,
+    closed_at TIMESTAMP WITH TIME ZONE,
+    cancelled_by UUID REFERENCES public.users(id),
+    cancelled_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES public.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(tenant_id, po_number),
+    CHECK (expected_delivery_date IS NULL OR expected_delivery_date >= order_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_tenant_id ON public.purchase_orders(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_vendor_id ON public.purchase_orders(vendor_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON public.purchase_orders(tenant_id, status);
+
+DROP TRIGGER IF EXISTS purchase_orders_update_timestamp ON public.purchase_orders;
+CREATE TRIGGER purchase_orders_update_timestamp
+BEFORE UPDATE ON public.purchase_orders
+FOR EACH ROW EXECUTE FUNCTION public.update_timestamp();
+
+-- ============================================================================
+-- 2. Purchase order lines
+-- ============================================================================
+-- Discount and tax are percentages of the line, as on quotations.
+-- billed_quantity is maintained by refresh_purchase_order_billing below.
+
+CREATE TABLE IF NOT EXISTS public.purchase_order_lines (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    purchase_order_id UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    line_number INTEGER NOT NULL,
+    description TEXT NOT NULL,
+    description_ar TEXT,
+    description_en TEXT,
+    quantity DECIMAL(18,2) NOT NULL DEFAULT 1,
+    unit_price DECIMAL(18,2) NOT NULL DEFAULT 0,
+    discount_percentage DECIMAL(5,2) NOT NULL DEFAULT 0,
+    discount_amount DECIMAL(18,2) NOT NULL DEFAULT 0,
+    taxable_amount DECIMAL(18,2) NOT NULL DEFAULT 0,
+    tax_percentage DECIMAL(5,2) NOT NULL DEFAULT 0,
+    tax_amount DECIMAL(18,2) NOT NULL DEFAULT 0,
+    line_total DECIMAL(18,2) NOT NULL DEFAULT 0,
+    billed_quantity DECIMAL(18,2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(purchase_order_id, line_number),
+    CHECK (quantity > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_purchase_order_id ON public.purchase_order_lines(purchase_order_id);
+
+-- ============================================================================
+-- 3. Bills created from purchase orders
+-- ============================================================================
+
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS purchase_order_id UUID REFERENCES public.purchase_orders(id);
+
+ALTER TABLE public.invoice_lines
+ADD COLUMN IF NOT EXISTS purchase_order_line_id UUID REFERENCES public.purchase_order_lines(id);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_purchase_order_id ON public.invoices(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_lines_purchase_order_line_id ON public.invoice_lines(purchase_order_line_id);
+
+-- ============================================================================
+-- 4. Billed quantities
+-- ============================================================================
+-- Recomputes the quantity billed on each line of a purchase order from the
+-- lines of its bills that are not cancelled, drafts included so that the same
+-- quantity cannot be converted twice. The order becomes partially_billed or
+-- closed accordingly, and goes back to sent or approved when its bills are
+-- cancelled or deleted. Draft and cancelled orders keep their status.
+
+CREATE OR REPLACE FUNCTION public.refresh_purchase_order_billing(p_purchase_order_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_ordered DECIMAL(18,2);
+    v_billed DECIMAL(18,2);
+    v_fully_billed BOOLEAN;
+BEGIN
+    UPDATE public.purchase_order_lines pol
+    SET billed_quantity = COALESCE((
+        SELECT SUM(il.quantity)
+        FROM public.invoice_lines il
+        JOIN public.invoices i ON i.id = il.invoice_id
+        WHERE il.purchase_order_line_id = pol.id
+          AND i.status <> 'cancelled'
+    ), 0)
+    WHERE pol.purchase_order_id = p_purchase_order_id;
+
+    SELECT COALESCE(SUM(quantity), 0),
+           COALESCE(SUM(billed_quantity), 0),
+           COALESCE(BOOL_AND(billed_quantity >= quantity), FALSE)
+    INTO v_ordered, v_billed, v_fully_billed
+    FROM public.purchase_order_lines
+    WHERE purchase_order_id = p_purchase_order_id;
+
+    UPDATE public.purchase_orders
+    SET status = CASE
+            WHEN status IN ('draft', 'cancelled') THEN status
+            WHEN v_fully_billed THEN 'closed'
+            WHEN v_billed > 0 THEN 'partially_billed'
+            WHEN sent_at IS NOT NULL THEN 'sent'
+            ELSE 'approved'
+        END,
+        closed_at = CASE
+            WHEN status IN ('draft', 'cancelled') THEN closed_at
+            WHEN v_fully_billed THEN COALESCE(closed_at, NOW())
+            ELSE NULL
+        END
+    WHERE id = p_purchase_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.refresh_purchase_order_billing_from_line()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_line_id UUID;
+    v_purchase_order_id UUID;
+BEGIN
+    FOREACH v_line_id IN ARRAY ARRAY[
+        CASE WHEN TG_OP <> 'INSERT' THEN OLD.purchase_order_line_id END,
+        CASE WHEN TG_OP <> 'DELETE' THEN NEW.purchase_order_line_id END
+    ] LOOP
+        IF v_line_id IS NOT NULL THEN
+            SELECT purchase_order_id INTO v_purchase_order_id
+            FROM public.purchase_order_lines
+            WHERE id = v_line_id;
+
+            IF FOUND THEN
+                PERFORM public.refresh_purchase_order_billing(v_purchase_order_id);
+            END IF;
+        END IF;
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.refresh_purchase_order_billing_from_invoice()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        PERFORM public.refresh_purchase_order_billing(OLD.purchase_order_id);
+    ELSE
+        PERFORM public.refresh_purchase_order_billing(NEW.purchase_order_id);
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS invoice_lines_refresh_purchase_order ON public.invoice_lines;
+CREATE TRIGGER invoice_lines_refresh_purchase_order
+AFTER INSERT OR UPDATE OF quantity, purchase_order_line_id OR DELETE ON public.invoice_lines
+FOR EACH ROW EXECUTE FUNCTION public.refresh_purchase_order_billing_from_line();
+
+-- Cancelling or deleting a bill releases its quantities
+DROP TRIGGER IF EXISTS invoices_refresh_purchase_order ON public.invoices;
+CREATE TRIGGER invoices_refresh_purchase_order
+AFTER UPDATE OF status OR DELETE ON public.invoices
+FOR EACH ROW
+WHEN (OLD.purchase_order_id IS NOT NULL)
+EXECUTE FUNCTION public.refresh_purchase_order_billing_from_invoice();
+
+-- ============================================================================
+-- 5. Row level security
+-- ============================================================================
+
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read tenant purchase orders" ON public.purchase_orders;
+CREATE POLICY "Users can read tenant purchase orders"
+ON public.purchase_orders FOR SELECT
+USING (
+    tenant_id = public.get_current_user_tenant()
+);
+
+DROP POLICY IF EXISTS "Users with permissions can insert purchase orders" ON public.purchase_orders;
+CREATE POLICY "Users with permissions can insert purchase orders"
+ON public.purchase_orders FOR INSERT
+WITH CHECK (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'purchase_orders', 'create', '*')
+);
+
+DROP POLICY IF EXISTS "Users with permissions can update purchase orders" ON public.purchase_orders;
+CREATE POLICY "Users with permissions can update purchase orders"
+ON public.purchase_orders FOR UPDATE
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND (
+        public.user_has_permission(auth.uid(), 'purchase_orders', 'edit', '*')
+        OR public.user_has_permission(auth.uid(), 'purchase_orders', 'approve', '*')
+    )
+);
+
+DROP POLICY IF EXISTS "Users with permissions can delete draft purchase orders" ON public.purchase_orders;
+CREATE POLICY "Users with permissions can delete draft purchase orders"
+ON public.purchase_orders FOR DELETE
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'purchase_orders', 'delete', '*')
+    AND status = 'draft'
+);
+
+DROP POLICY IF EXISTS "Users can read tenant purchase order lines" ON public.purchase_order_lines;
+CREATE POLICY "Users can read tenant purchase order lines"
+ON public.purchase_order_lines FOR SELECT
+USING (
+    tenant_id = public.get_current_user_tenant()
+);
+
+DROP POLICY IF EXISTS "Users with permissions can manage purchase order lines" ON public.purchase_order_lines;
+CREATE POLICY "Users with permissions can manage purchase order lines"
+ON public.purchase_order_lines FOR ALL
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'purchase_orders', 'edit', '*')
+);
+
+-- ============================================================================
+-- 6. Numbering
+-- ============================================================================
+-- PO-<year>-<sequence>, with the sequence kept in settings like quotation
+-- numbers.
+
+CREATE OR REPLACE FUNCTION public.generate_purchase_order_number(
+    p_tenant_id UUID
+)
+RETURNS VARCHAR AS $$
+DECLARE
+    v_sequence BIGINT;
+    v_year VARCHAR(4);
+BEGIN
+    v_year := EXTRACT(YEAR FROM CURRENT_DATE)::VARCHAR;
+
+    v_sequence := COALESCE(
+        (SELECT (value->>'sequence')::BIGINT FROM public.settings
+         WHERE tenant_id = p_tenant_id AND key = 'purchase_order_sequence'),
+        0
+    ) + 1;
+
+    INSERT INTO public.settings (tenant_id, key, value)
+    VALUES (p_tenant_id, 'purchase_order_sequence', jsonb_build_object('sequence', v_sequence))
+    ON CONFLICT (tenant_id, key)
+    DO UPDATE SET value = jsonb_build_object('sequence', v_sequence), updated_at = NOW();
+
+    RETURN 'PO-' || v_year || '-' || LPAD(v_sequence::VARCHAR, 6, '0');
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 7. Permissions
+-- ============================================================================
+
+INSERT INTO public.permissions (module, action, resource, description) VALUES
+('purchase_orders', 'view', '*', 'View purchase orders'),
+('purchase_orders', 'create', '*', 'Create purchase orders'),
+('purchase_orders', 'edit', '*', 'Edit, send, cancel and bill purchase orders'),
+('purchase_orders', 'delete', '*', 'Delete draft purchase orders'),
+('purchase_orders', 'approve', '*', 'Approve purchase orders')
+ON CONFLICT (module, action, resource) DO UPDATE
+SET description = EXCLUDED.description;
+
+DO $$
+BEGIN
+    INSERT INTO public.role_permissions (role_id, permission_id)
+    SELECT r.id, p.id
+    FROM public.roles r
+    CROSS JOIN public.permissions p
+    WHERE r.name IN ('COMPANY_ADMIN', 'FINANCE_MANAGER')
+      AND p.module = 'purchase_orders'
+    ON CONFLICT (role_id, permission_id) DO NOTHING;
+
+    INSERT INTO public.role_permissions (role_id, permission_id)
+    SELECT r.id, p.id
+    FROM public.roles r
+    CROSS JOIN public.permissions p
+    WHERE r.name = 'ACCOUNTANT'
+      AND p.module = 'purchase_orders'
+      AND p.action IN ('view', 'create', 'edit')
+    ON CONFLICT (role_id, permission_id) DO NOTHING;
+END $$;
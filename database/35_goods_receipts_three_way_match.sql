@@ -0,0 +1,302 @@
+-- Migration: Goods receipts and three-way matching
+-- Date: 2026-10-19
+-- Description: Goods receipt notes recorded against purchase order lines, and the result of
+--              matching each purchase invoice billed from a purchase order against what was
+--              ordered and received. A bill that does not match within the tenant's tolerances
+--              can only be approved by a user who overrides the mismatch with a reason
+
+-- ============================================================================
+-- 1. Goods receipts
+-- ============================================================================
+-- A receipt is recorded as received; cancelling it releases its quantities.
+
+CREATE TABLE IF NOT EXISTS public.goods_receipts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    branch_id UUID REFERENCES public.branches(id),
+    grn_number VARCHAR(50) NOT NULL,
+    purchase_order_id UUID NOT NULL REFERENCES public.purchase_orders(id),
+    vendor_id UUID NOT NULL REFERENCES public.vendors(id),
+    receipt_date DATE NOT NULL,
+    delivery_note_number VARCHAR(100),
+    notes TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'cancelled')),
+    cancelled_by UUID REFERENCES public.users(id),
+    cancelled_at TIMESTAMP WITH TIME ZONE,
+    cancellation_reason TEXT,
+    created_by UUID REFERENCES public.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(tenant_id, grn_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_goods_receipts_tenant_id ON public.goods_receipts(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_goods_receipts_purchase_order_id ON public.goods_receipts(purchase_order_id);
+
+DROP TRIGGER IF EXISTS goods_receipts_update_timestamp ON public.goods_receipts;
+CREATE TRIGGER goods_receipts_update_timestamp
+BEFORE UPDATE ON public.goods_receipts
+FOR EACH ROW EXECUTE FUNCTION public.update_timestamp();
+
+CREATE TABLE IF NOT EXISTS public.goods_receipt_lines (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    goods_receipt_id UUID NOT NULL REFERENCES public.goods_receipts(id) ON DELETE CASCADE,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    purchase_order_line_id UUID NOT NULL REFERENCES public.purchase_order_lines(id),
+    line_number INTEGER NOT NULL,
+    quantity DECIMAL(18,2) NOT NULL,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(goods_receipt_id, line_number),
+    CHECK (quantity > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_goods_receipt_lines_goods_receipt_id ON public.goods_receipt_lines(goods_receipt_id);
+CREATE INDEX IF NOT EXISTS idx_goods_receipt_lines_purchase_order_line_id ON public.goods_receipt_lines(purchase_order_line_id);
+
+-- ============================================================================
+-- 2. Received quantities
+-- ============================================================================
+-- Kept on each purchase order line from the receipts that are not cancelled,
+-- like billed_quantity in 34_purchase_orders.sql.
+
+ALTER TABLE public.purchase_order_lines
+ADD COLUMN IF NOT EXISTS received_quantity DECIMAL(18,2) NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.refresh_purchase_order_receipts(p_purchase_order_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE public.purchase_order_lines pol
+    SET received_quantity = COALESCE((
+        SELECT SUM(grl.quantity)
+        FROM public.goods_receipt_lines grl
+        JOIN public.goods_receipts gr ON gr.id = grl.goods_receipt_id
+        WHERE grl.purchase_order_line_id = pol.id
+          AND gr.status = 'received'
+    ), 0)
+    WHERE pol.purchase_order_id = p_purchase_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.refresh_purchase_order_receipts_from_line()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_purchase_order_id UUID;
+BEGIN
+    SELECT purchase_order_id INTO v_purchase_order_id
+    FROM public.purchase_order_lines
+    WHERE id = CASE WHEN TG_OP = 'DELETE' THEN OLD.purchase_order_line_id ELSE NEW.purchase_order_line_id END;
+
+    IF FOUND THEN
+        PERFORM public.refresh_purchase_order_receipts(v_purchase_order_id);
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.refresh_purchase_order_receipts_from_receipt()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM public.refresh_purchase_order_receipts(NEW.purchase_order_id);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS goods_receipt_lines_refresh_purchase_order ON public.goods_receipt_lines;
+CREATE TRIGGER goods_receipt_lines_refresh_purchase_order
+AFTER INSERT OR DELETE ON public.goods_receipt_lines
+FOR EACH ROW EXECUTE FUNCTION public.refresh_purchase_order_receipts_from_line();
+
+DROP TRIGGER IF EXISTS goods_receipts_refresh_purchase_order ON public.goods_receipts;
+CREATE TRIGGER goods_receipts_refresh_purchase_order
+AFTER UPDATE OF status ON public.goods_receipts
+FOR EACH ROW EXECUTE FUNCTION public.refresh_purchase_order_receipts_from_receipt();
+
+-- ============================================================================
+-- 3. Match results and overrides
+-- ============================================================================
+-- The latest match of a bill is kept on the invoice with the exceptions found;
+-- every override, with the exceptions it allowed, is kept in match_overrides.
+
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS match_status VARCHAR(20) CHECK (match_status IN ('matched', 'mismatched'));
+
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS match_exceptions JSONB;
+
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS match_checked_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS match_override_by UUID REFERENCES public.users(id);
+
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS match_override_reason TEXT;
+
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS match_override_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS public.match_overrides (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+    purchase_order_id UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL,
+    exceptions JSONB NOT NULL,
+    user_id UUID NOT NULL REFERENCES public.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_match_overrides_tenant_id
+ON public.match_overrides(tenant_id);
+
+CREATE INDEX IF NOT EXISTS idx_match_overrides_invoice_id
+ON public.match_overrides(invoice_id);
+
+-- ============================================================================
+-- 4. Row level security
+-- ============================================================================
+
+ALTER TABLE public.goods_receipts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.goods_receipt_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.match_overrides ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read tenant goods receipts" ON public.goods_receipts;
+CREATE POLICY "Users can read tenant goods receipts"
+ON public.goods_receipts FOR SELECT
+USING (
+    tenant_id = public.get_current_user_tenant()
+);
+
+DROP POLICY IF EXISTS "Users with permissions can insert goods receipts" ON public.goods_receipts;
+CREATE POLICY "Users with permissions can insert goods receipts"
+ON public.goods_receipts FOR INSERT
+WITH CHECK (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'goods_receipts', 'create', '*')
+);
+
+DROP POLICY IF EXISTS "Users with permissions can cancel goods receipts" ON public.goods_receipts;
+CREATE POLICY "Users with permissions can cancel goods receipts"
+ON public.goods_receipts FOR UPDATE
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'goods_receipts', 'cancel', '*')
+);
+
+DROP POLICY IF EXISTS "Users can read tenant goods receipt lines" ON public.goods_receipt_lines;
+CREATE POLICY "Users can read tenant goods receipt lines"
+ON public.goods_receipt_lines FOR SELECT
+USING (
+    tenant_id = public.get_current_user_tenant()
+);
+
+DROP POLICY IF EXISTS "Users with permissions can insert goods receipt lines" ON public.goods_receipt_lines;
+CREATE POLICY "Users with permissions can insert goods receipt lines"
+ON public.goods_receipt_lines FOR INSERT
+WITH CHECK (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'goods_receipts', 'create', '*')
+);
+
+DROP POLICY IF EXISTS "Users can read tenant match overrides" ON public.match_overrides;
+CREATE POLICY "Users can read tenant match overrides"
+ON public.match_overrides FOR SELECT
+USING (
+    tenant_id = public.get_current_user_tenant()
+);
+
+DROP POLICY IF EXISTS "Users can insert tenant match overrides" ON public.match_overrides;
+CREATE POLICY "Users can insert tenant match overrides"
+ON public.match_overrides FOR INSERT
+WITH CHECK (
+    tenant_id = public.get_current_user_tenant()
+    AND user_id = auth.uid()
+);
+
+-- Match tolerances are kept in settings under the key three_way_match
+DROP POLICY IF EXISTS "Users with permissions can manage match tolerances" ON public.settings;
+CREATE POLICY "Users with permissions can manage match tolerances"
+ON public.settings FOR ALL
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND key = 'three_way_match'
+    AND public.user_has_permission(auth.uid(), 'settings', 'edit', 'company')
+)
+WITH CHECK (
+    tenant_id = public.get_current_user_tenant()
+    AND key = 'three_way_match'
+    AND public.user_has_permission(auth.uid(), 'settings', 'edit', 'company')
+);
+
+-- ============================================================================
+-- 5. Numbering
+-- ============================================================================
+-- GRN-<year>-<sequence>, with the sequence kept in settings like purchase
+-- order numbers.
+
+CREATE OR REPLACE FUNCTION public.generate_goods_receipt_number(
+    p_tenant_id UUID
+)
+RETURNS VARCHAR AS $$
+DECLARE
+    v_sequence BIGINT;
+    v_year VARCHAR(4);
+BEGIN
+    v_year := EXTRACT(YEAR FROM CURRENT_DATE)::VARCHAR;
+
+    v_sequence := COALESCE(
+        (SELECT (value->>'sequence')::BIGINT FROM public.settings
+         WHERE tenant_id = p_tenant_id AND key = 'goods_receipt_sequence'),
+        0
+    ) + 1;
+
+    INSERT INTO public.settings (tenant_id, key, value)
+    VALUES (p_tenant_id, 'goods_receipt_sequence', jsonb_build_object('sequence', v_sequence))
+    ON CONFLICT (tenant_id, key)
+    DO UPDATE SET value = jsonb_build_object('sequence', v_sequence), updated_at = NOW();
+
+    RETURN 'GRN-' || v_year || '-' || LPAD(v_sequence::VARCHAR, 6, '0');
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 6. Permissions
+-- ============================================================================
+
+INSERT INTO public.permissions (module, action, resource, description) VALUES
+('goods_receipts', 'view', '*', 'View goods receipts'),
+('goods_receipts', 'create', '*', 'Record goods receipts'),
+('goods_receipts', 'cancel', '*', 'Cancel goods receipts'),
+('invoices', 'override', 'match', 'Approve purchase invoices that do not match their purchase order and receipts')
+ON CONFLICT (module, action, resource) DO UPDATE
+SET description = EXCLUDED.description;
+
+DO $$
+BEGIN
+    INSERT INTO public.role_permissions (role_id, permission_id)
+    SELECT r.id, p.id
+    FROM public.roles r
+    CROSS JOIN public.permissions p
+    WHERE r.name IN ('COMPANY_ADMIN', 'FINANCE_MANAGER')
+      AND p.module = 'goods_receipts'
+    ON CONFLICT (role_id, permission_id) DO NOTHING;
+
+    INSERT INTO public.role_permissions (role_id, permission_id)
+    SELECT r.id, p.id
+    FROM public.roles r
+    CROSS JOIN public.permissions p
+    WHERE r.name = 'ACCOUNTANT'
+      AND p.module = 'goods_receipts'
+      AND p.action IN ('view', 'create')
+    ON CONFLICT (role_id, permission_id) DO NOTHING;
+
+    INSERT INTO public.role_permissions (role_id, permission_id)
+    SELECT r.id, p.id
+    FROM public.roles r
+    CROSS JOIN public.permissions p
+    WHERE r.name = 'COMPANY_ADMIN'
+      AND p.module = 'invoices' AND p.action = 'override' AND p.resource = 'match'
+    ON CONFLICT (role_id, permission_id) DO NOTHING;
+END $$;
@@ -0,0 +1,190 @@
+-- Migration: Expense lifecycle and posting
+-- Date: 2026-10-19
+-- Description: Permissions and row level security for editing, approving and posting expenses
+--              and their lines, and records the input VAT of an expense in vat_transactions
+--              when it is posted with its journal
+
+-- ============================================================================
+-- 1. Permissions
+-- ============================================================================
+
+INSERT INTO public.permissions (module, action, resource, description) VALUES
+('expenses', 'edit', '*', 'Edit and submit expenses'),
+('expenses', 'delete', '*', 'Delete expenses'),
+('expenses', 'post', '*', 'Post approved expenses to the ledger')
+ON CONFLICT (module, action, resource) DO UPDATE
+SET description = EXCLUDED.description;
+
+DO $$
+BEGIN
+    INSERT INTO public.role_permissions (role_id, permission_id)
+    SELECT r.id, p.id
+    FROM public.roles r
+    CROSS JOIN public.permissions p
+    WHERE r.name IN ('COMPANY_ADMIN', 'FINANCE_MANAGER')
+      AND p.module = 'expenses'
+    ON CONFLICT (role_id, permission_id) DO NOTHING;
+
+    INSERT INTO public.role_permissions (role_id, permission_id)
+    SELECT r.id, p.id
+    FROM public.roles r
+    CROSS JOIN public.permissions p
+    WHERE r.name = 'ACCOUNTANT'
+      AND p.module = 'expenses'
+      AND p.action IN ('edit', 'delete', 'post')
+    ON CONFLICT (role_id, permission_id) DO NOTHING;
+END $$;
+
+-- ============================================================================
+-- 2. Row level security
+-- ============================================================================
+-- Only employees could update their own draft expenses. Approving, rejecting,
+-- posting and deleting (deleted_at is set) are updates too.
+
+DROP POLICY IF EXISTS "Users with permissions can update expenses" ON public.expenses;
+CREATE POLICY "Users with permissions can update expenses"
+ON public.expenses FOR UPDATE
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND (
+        public.user_has_permission(auth.uid(), 'expenses', 'edit', '*')
+        OR public.user_has_permission(auth.uid(), 'expenses', 'approve', '*')
+        OR public.user_has_permission(auth.uid(), 'expenses', 'post', '*')
+        OR public.user_has_permission(auth.uid(), 'expenses', 'delete', '*')
+    )
+);
+
+DROP POLICY IF EXISTS "Users with permissions can insert expense lines" ON public.expense_lines;
+CREATE POLICY "Users with permissions can insert expense lines"
+ON public.expense_lines FOR INSERT
+WITH CHECK (
+    tenant_id = public.get_current_user_tenant()
+    AND (
+        public.user_has_permission(auth.uid(), 'expenses', 'create', '*')
+        OR public.user_has_permission(auth.uid(), 'expenses', 'edit', '*')
+    )
+);
+
+DROP POLICY IF EXISTS "Users with permissions can delete expense lines" ON public.expense_lines;
+CREATE POLICY "Users with permissions can delete expense lines"
+ON public.expense_lines FOR DELETE
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'expenses', 'edit', '*')
+);
+
+-- ============================================================================
+-- 3. Input VAT
+-- ============================================================================
+-- One VAT transaction per VAT code and rate on the expense's lines, like the
+-- VAT transactions created for posted invoices in 07_triggers.sql.
+
+CREATE OR REPLACE FUNCTION public.record_expense_vat_transactions(p_expense_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    DELETE FROM public.vat_transactions
+    WHERE source_type = 'expense'
+      AND source_id = p_expense_id;
+
+    INSERT INTO public.vat_transactions (
+        tenant_id,
+        transaction_type,
+        transaction_date,
+        source_type,
+        source_id,
+        vat_type,
+        vat_code_id,
+        vat_percentage,
+        taxable_amount,
+        vat_amount,
+        currency,
+        exchange_rate,
+        fiscal_period_id
+    )
+    SELECT
+        e.tenant_id,
+        'purchases',
+        e.expense_date,
+        'expense',
+        e.id,
+        'input',
+        el.tax_code_id,
+        el.tax_percentage,
+        SUM(el.amount),
+        SUM(el.tax_amount),
+        e.currency,
+        e.exchange_rate,
+        fp.id
+    FROM public.expenses e
+    JOIN public.expense_lines el ON el.expense_id = e.id
+    LEFT JOIN public.fiscal_periods fp
+      ON fp.tenant_id = e.tenant_id
+     AND e.expense_date BETWEEN fp.start_date AND fp.end_date
+    WHERE e.id = p_expense_id
+      AND el.tax_code_id IS NOT NULL
+    GROUP BY e.tenant_id, e.expense_date, e.id, el.tax_code_id, el.tax_percentage,
+             e.currency, e.exchange_rate, fp.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 4. Posting
+-- ============================================================================
+-- Same as in 23_atomic_posting.sql, but an expense must have been submitted
+-- and its input VAT is recorded in the same transaction.
+
+CREATE OR REPLACE FUNCTION public.post_expense_with_journal(
+    p_expense_id UUID,
+    p_tenant_id UUID,
+    p_user_id UUID,
+    p_journal JSONB,
+    p_lines JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+    v_status VARCHAR;
+    v_approval_status VARCHAR;
+    v_journal_id UUID;
+BEGIN
+    SELECT status, approval_status INTO v_status, v_approval_status
+    FROM public.expenses
+    WHERE id = p_expense_id AND tenant_id = p_tenant_id AND deleted_at IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Expense not found';
+    END IF;
+
+    IF v_status IN ('posted', 'paid') THEN
+        RAISE EXCEPTION 'Expense has already been posted';
+    END IF;
+
+    IF v_status <> 'submitted' OR v_approval_status <> 'approved' THEN
+        RAISE EXCEPTION 'Can only post approved expenses';
+    END IF;
+
+    v_journal_id := public.create_journal_with_lines(
+        p_journal || jsonb_build_object(
+            'tenant_id', p_tenant_id,
+            'status', 'posted',
+            'posting_date', p_journal->>'transaction_date',
+            'posted_by', p_user_id,
+            'posted_at', NOW(),
+            'source_module', 'expenses',
+            'source_id', p_expense_id
+        ),
+        p_lines
+    );
+
+    UPDATE public.expenses
+    SET status = 'posted',
+        posted_journal_id = v_journal_id,
+        posted_by = p_user_id,
+        posted_at = NOW()
+    WHERE id = p_expense_id;
+
+    PERFORM public.record_expense_vat_transactions(p_expense_id);
+
+    RETURN v_journal_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,97 @@
+-- Migration: Expense receipt attachments
+-- Date: 2026-10-19
+-- Description: Private storage bucket for expense receipts, kept under a folder per tenant,
+--              row level security for adding and removing expense attachments, and the
+--              tenant policy requiring a receipt to post expenses above an amount
+
+-- ============================================================================
+-- 1. Storage bucket
+-- ============================================================================
+-- Receipts are private and only served through signed URLs. Objects are stored
+-- as <tenant_id>/<expense_id>/<file>.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'expense-receipts',
+    'expense-receipts',
+    FALSE,
+    10485760,
+    ARRAY['application/pdf', 'image/jpeg', 'image/png', 'image/webp', 'image/heic']
+)
+ON CONFLICT (id) DO UPDATE
+SET public = EXCLUDED.public,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+DROP POLICY IF EXISTS "Users can read tenant expense receipts" ON storage.objects;
+CREATE POLICY "Users can read tenant expense receipts"
+ON storage.objects FOR SELECT
+USING (
+    bucket_id = 'expense-receipts'
+    AND (storage.foldername(name))[1] = public.get_current_user_tenant()::TEXT
+    AND public.user_has_permission(auth.uid(), 'expenses', 'view', '*')
+);
+
+DROP POLICY IF EXISTS "Users with permissions can upload expense receipts" ON storage.objects;
+CREATE POLICY "Users with permissions can upload expense receipts"
+ON storage.objects FOR INSERT
+WITH CHECK (
+    bucket_id = 'expense-receipts'
+    AND (storage.foldername(name))[1] = public.get_current_user_tenant()::TEXT
+    AND (
+        public.user_has_permission(auth.uid(), 'expenses', 'create', '*')
+        OR public.user_has_permission(auth.uid(), 'expenses', 'edit', '*')
+    )
+);
+
+DROP POLICY IF EXISTS "Users with permissions can delete expense receipts" ON storage.objects;
+CREATE POLICY "Users with permissions can delete expense receipts"
+ON storage.objects FOR DELETE
+USING (
+    bucket_id = 'expense-receipts'
+    AND (storage.foldername(name))[1] = public.get_current_user_tenant()::TEXT
+    AND public.user_has_permission(auth.uid(), 'expenses', 'edit', '*')
+);
+
+-- ============================================================================
+-- 2. Attachment row level security
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users with permissions can insert expense attachments" ON public.expense_attachments;
+CREATE POLICY "Users with permissions can insert expense attachments"
+ON public.expense_attachments FOR INSERT
+WITH CHECK (
+    tenant_id = public.get_current_user_tenant()
+    AND (
+        public.user_has_permission(auth.uid(), 'expenses', 'create', '*')
+        OR public.user_has_permission(auth.uid(), 'expenses', 'edit', '*')
+    )
+);
+
+DROP POLICY IF EXISTS "Users with permissions can delete expense attachments" ON public.expense_attachments;
+CREATE POLICY "Users with permissions can delete expense attachments"
+ON public.expense_attachments FOR DELETE
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'expenses', 'edit', '*')
+);
+
+-- ============================================================================
+-- 3. Receipt policy
+-- ============================================================================
+-- Kept in settings under the key expense_receipts, e.g.
+-- {"require_receipt_above": 500} in the base currency
+
+DROP POLICY IF EXISTS "Users with permissions can manage the expense receipt policy" ON public.settings;
+CREATE POLICY "Users with permissions can manage the expense receipt policy"
+ON public.settings FOR ALL
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND key = 'expense_receipts'
+    AND public.user_has_permission(auth.uid(), 'settings', 'edit', 'company')
+)
+WITH CHECK (
+    tenant_id = public.get_current_user_tenant()
+    AND key = 'expense_receipts'
+    AND public.user_has_permission(auth.uid(), 'settings', 'edit', 'company')
+);
@@ -0,0 +1,351 @@
+-- Migration: Employee expense claims and reimbursements
+-- Date: 2026-10-19
+-- Description: Expenses claimed by employees, posted to an employee payable account, and
+--              reimbursement runs settling many posted claims with one bank payment
+
+-- ============================================================================
+-- 1. Employee payable account
+-- ============================================================================
+-- Credited instead of accounts payable when an expense claim is posted, and
+-- debited when the claim is reimbursed.
+
+ALTER TABLE public.account_mappings
+ADD COLUMN IF NOT EXISTS employee_payable_account_id UUID REFERENCES public.chart_of_accounts(id);
+
+-- ============================================================================
+-- 2. Reimbursement runs
+-- ============================================================================
+-- A run pays the posted claims it settles from one bank or cash account. It
+-- is created posted, with its journal, in post_expense_reimbursement_with_journal.
+
+CREATE TABLE IF NOT EXISTS public.expense_reimbursements (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    branch_id UUID REFERENCES public.branches(id),
+    reimbursement_number VARCHAR(50) NOT NULL,
+    payment_date DATE NOT NULL,
+    bank_account_id UUID NOT NULL REFERENCES public.chart_of_accounts(id),
+    currency VARCHAR(3) NOT NULL DEFAULT 'QAR',
+    exchange_rate DECIMAL(18,6) NOT NULL DEFAULT 1,
+    total_amount DECIMAL(18,2) NOT NULL,
+    claim_count INTEGER NOT NULL,
+    reference VARCHAR(100),
+    notes TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'posted' CHECK (status IN ('posted')),
+    journal_id UUID REFERENCES public.journals(id),
+    created_by UUID REFERENCES public.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(tenant_id, reimbursement_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_expense_reimbursements_tenant_id ON public.expense_reimbursements(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_expense_reimbursements_payment_date ON public.expense_reimbursements(payment_date);
+
+-- ============================================================================
+-- 3. Claims
+-- ============================================================================
+-- A claim is an expense the employee in employee_id paid and is owed back.
+-- reimbursement_id is set, and the claim marked paid, by its reimbursement run.
+
+ALTER TABLE public.expenses
+ADD COLUMN IF NOT EXISTS is_claim BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE public.expenses
+ADD COLUMN IF NOT EXISTS reimbursement_id UUID REFERENCES public.expense_reimbursements(id);
+
+ALTER TABLE public.expenses
+ADD COLUMN IF NOT EXISTS reimbursed_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.expenses
+DROP CONSTRAINT IF EXISTS expenses_claim_employee_check;
+
+ALTER TABLE public.expenses
+ADD CONSTRAINT expenses_claim_employee_check
+CHECK (NOT is_claim OR (employee_id IS NOT NULL AND vendor_id IS NULL));
+
+CREATE INDEX IF NOT EXISTS idx_expenses_claims_outstanding
+ON public.expenses(tenant_id, employee_id)
+WHERE is_claim AND status = 'posted' AND reimbursement_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_expenses_reimbursement_id ON public.expenses(reimbursement_id);
+
+-- ============================================================================
+-- 4. Permissions
+-- ============================================================================
+-- expenses:claim lets a user create, edit and submit their own claims.
+-- expenses:reimburse lets a user pay posted claims.
+
+INSERT INTO public.permissions (module, action, resource, description) VALUES
+('expenses', 'claim', '*', 'Submit own expense claims'),
+('expenses', 'reimburse', '*', 'Reimburse posted expense claims')
+ON CONFLICT (module, action, resource) DO UPDATE
+SET description = EXCLUDED.description;
+
+DO $$
+BEGIN
+    INSERT INTO public.role_permissions (role_id, permission_id)
+    SELECT r.id, p.id
+    FROM public.roles r
+    CROSS JOIN public.permissions p
+    WHERE r.name IN ('COMPANY_ADMIN', 'FINANCE_MANAGER')
+      AND p.module = 'expenses'
+      AND p.action IN ('claim', 'reimburse')
+    ON CONFLICT (role_id, permission_id) DO NOTHING;
+
+    INSERT INTO public.role_permissions (role_id, permission_id)
+    SELECT r.id, p.id
+    FROM public.roles r
+    CROSS JOIN public.permissions p
+    WHERE r.name IN ('ACCOUNTANT', 'VIEWER')
+      AND p.module = 'expenses'
+      AND p.action = 'claim'
+    ON CONFLICT (role_id, permission_id) DO NOTHING;
+END $$;
+
+-- ============================================================================
+-- 5. Row level security
+-- ============================================================================
+-- Reimbursing claims updates them too. Claimants may add and change their own
+-- draft claims and submit them.
+
+DROP POLICY IF EXISTS "Users with permissions can update expenses" ON public.expenses;
+CREATE POLICY "Users with permissions can update expenses"
+ON public.expenses FOR UPDATE
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND (
+        public.user_has_permission(auth.uid(), 'expenses', 'edit', '*')
+        OR public.user_has_permission(auth.uid(), 'expenses', 'approve', '*')
+        OR public.user_has_permission(auth.uid(), 'expenses', 'post', '*')
+        OR public.user_has_permission(auth.uid(), 'expenses', 'delete', '*')
+        OR public.user_has_permission(auth.uid(), 'expenses', 'reimburse', '*')
+    )
+);
+
+DROP POLICY IF EXISTS "Users can insert their own expense claims" ON public.expenses;
+CREATE POLICY "Users can insert their own expense claims"
+ON public.expenses FOR INSERT
+WITH CHECK (
+    tenant_id = public.get_current_user_tenant()
+    AND is_claim
+    AND employee_id = auth.uid()
+    AND public.user_has_permission(auth.uid(), 'expenses', 'claim', '*')
+);
+
+DROP POLICY IF EXISTS "Users can update their own expenses" ON public.expenses;
+CREATE POLICY "Users can update their own expenses"
+ON public.expenses FOR UPDATE
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND is_claim
+    AND employee_id = auth.uid()
+    AND status = 'draft'
+    AND public.user_has_permission(auth.uid(), 'expenses', 'claim', '*')
+)
+WITH CHECK (
+    tenant_id = public.get_current_user_tenant()
+    AND is_claim
+    AND employee_id = auth.uid()
+    AND status IN ('draft', 'submitted')
+);
+
+DROP POLICY IF EXISTS "Users can change lines of their own expense claims" ON public.expense_lines;
+CREATE POLICY "Users can change lines of their own expense claims"
+ON public.expense_lines FOR ALL
+USING (
+    tenant_id = public.get_current_user_tenant()
+    AND EXISTS (
+        SELECT 1 FROM public.expenses e
+        WHERE e.id = expense_lines.expense_id
+          AND e.is_claim
+          AND e.employee_id = auth.uid()
+          AND e.status = 'draft'
+    )
+)
+WITH CHECK (
+    tenant_id = public.get_current_user_tenant()
+    AND EXISTS (
+        SELECT 1 FROM public.expenses e
+        WHERE e.id = expense_lines.expense_id
+          AND e.is_claim
+          AND e.employee_id = auth.uid()
+          AND e.status = 'draft'
+    )
+);
+
+DROP POLICY IF EXISTS "Users can attach receipts to their own expense claims" ON public.expense_attachments;
+CREATE POLICY "Users can attach receipts to their own expense claims"
+ON public.expense_attachments FOR INSERT
+WITH CHECK (
+    tenant_id = public.get_current_user_tenant()
+    AND EXISTS (
+        SELECT 1 FROM public.expenses e
+        WHERE e.id = expense_attachments.expense_id
+          AND e.is_claim
+          AND e.employee_id = auth.uid()
+    )
+);
+
+DROP POLICY IF EXISTS "Users can upload receipts of their own expense claims" ON storage.objects;
+CREATE POLICY "Users can upload receipts of their own expense claims"
+ON storage.objects FOR INSERT
+WITH CHECK (
+    bucket_id = 'expense-receipts'
+    AND (storage.foldername(name))[1] = public.get_current_user_tenant()::TEXT
+    AND public.user_has_permission(auth.uid(), 'expenses', 'claim', '*')
+);
+
+ALTER TABLE public.expense_reimbursements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read tenant expense reimbursements" ON public.expense_reimbursements;
+CREATE POLICY "Users can read tenant expense reimbursements"
+ON public.expense_reimbursements FOR SELECT
+USING (
+    tenant_id = public.get_current_user_tenant()
+);
+
+DROP POLICY IF EXISTS "Users with permissions can insert expense reimbursements" ON public.expense_reimbursements;
+CREATE POLICY "Users with permissions can insert expense reimbursements"
+ON public.expense_reimbursements FOR INSERT
+WITH CHECK (
+    tenant_id = public.get_current_user_tenant()
+    AND public.user_has_permission(auth.uid(), 'expenses', 'reimburse', '*')
+);
+
+-- ============================================================================
+-- 6. Numbering
+-- ============================================================================
+-- RMB-<year>-<sequence>, with the sequence kept in settings like goods
+-- receipt numbers.
+
+CREATE OR REPLACE FUNCTION public.generate_reimbursement_number(
+    p_tenant_id UUID
+)
+RETURNS VARCHAR AS $$
+DECLARE
+    v_sequence BIGINT;
+    v_year VARCHAR(4);
+BEGIN
+    v_year := EXTRACT(YEAR FROM CURRENT_DATE)::VARCHAR;
+
+    v_sequence := COALESCE(
+        (SELECT (value->>'sequence')::BIGINT FROM public.settings
+         WHERE tenant_id = p_tenant_id AND key = 'reimbursement_sequence'),
+        0
+    ) + 1;
+
+    INSERT INTO public.settings (tenant_id, key, value)
+    VALUES (p_tenant_id, 'reimbursement_sequence', jsonb_build_object('sequence', v_sequence))
+    ON CONFLICT (tenant_id, key)
+    DO UPDATE SET value = jsonb_build_object('sequence', v_sequence), updated_at = NOW();
+
+    RETURN 'RMB-' || v_year || '-' || LPAD(v_sequence::VARCHAR, 6, '0');
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 7. Posting a reimbursement run
+-- ============================================================================
+-- Locks the claims, checks each is a posted claim not yet reimbursed, then
+-- creates the journal and the run and marks the claims paid in one
+-- transaction. Returns the run's id.
+
+CREATE OR REPLACE FUNCTION public.post_expense_reimbursement_with_journal(
+    p_tenant_id UUID,
+    p_user_id UUID,
+    p_reimbursement JSONB,
+    p_expense_ids UUID[],
+    p_journal JSONB,
+    p_lines JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+    v_expense RECORD;
+    v_count INTEGER := 0;
+    v_reimbursement_id UUID := uuid_generate_v4();
+    v_journal_id UUID;
+BEGIN
+    FOR v_expense IN
+        SELECT id, expense_number, is_claim, status, reimbursement_id
+        FROM public.expenses
+        WHERE id = ANY(p_expense_ids)
+          AND tenant_id = p_tenant_id
+          AND deleted_at IS NULL
+        ORDER BY id
+        FOR UPDATE
+    LOOP
+        IF NOT v_expense.is_claim THEN
+            RAISE EXCEPTION 'Expense % is not an expense claim', v_expense.expense_number;
+        END IF;
+
+        IF v_expense.reimbursement_id IS NOT NULL OR v_expense.status = 'paid' THEN
+            RAISE EXCEPTION 'Expense claim % has already been reimbursed', v_expense.expense_number;
+        END IF;
+
+        IF v_expense.status <> 'posted' THEN
+            RAISE EXCEPTION 'Expense claim % must be posted before it is reimbursed', v_expense.expense_number;
+        END IF;
+
+        v_count := v_count + 1;
+    END LOOP;
+
+    IF v_count <> COALESCE(array_length(p_expense_ids, 1), 0) THEN
+        RAISE EXCEPTION 'Expense claim not found';
+    END IF;
+
+    v_journal_id := public.create_journal_with_lines(
+        p_journal || jsonb_build_object(
+            'tenant_id', p_tenant_id,
+            'status', 'posted',
+            'posting_date', p_journal->>'transaction_date',
+            'posted_by', p_user_id,
+            'posted_at', NOW(),
+            'source_module', 'expense_reimbursements',
+            'source_id', v_reimbursement_id
+        ),
+        p_lines
+    );
+
+    INSERT INTO public.expense_reimbursements (
+        id,
+        tenant_id,
+        branch_id,
+        reimbursement_number,
+        payment_date,
+        bank_account_id,
+        currency,
+        exchange_rate,
+        total_amount,
+        claim_count,
+        reference,
+        notes,
+        journal_id,
+        created_by
+    ) VALUES (
+        v_reimbursement_id,
+        p_tenant_id,
+        (p_reimbursement->>'branch_id')::UUID,
+        p_reimbursement->>'reimbursement_number',
+        (p_reimbursement->>'payment_date')::DATE,
+        (p_reimbursement->>'bank_account_id')::UUID,
+        p_reimbursement->>'currency',
+        COALESCE((p_reimbursement->>'exchange_rate')::DECIMAL, 1),
+        (p_reimbursement->>'total_amount')::DECIMAL,
+        v_count,
+        p_reimbursement->>'reference',
+        p_reimbursement->>'notes',
+        v_journal_id,
+        p_user_id
+    );
+
+    UPDATE public.expenses
+    SET status = 'paid',
+        paid_amount = total_amount,
+        reimbursement_id = v_reimbursement_id,
+        reimbursed_at = NOW()
+    WHERE id = ANY(p_expense_ids)
+      AND tenant_id = p_tenant_id;
+
+    RETURN v_reimbursement_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,61 @@
+-- Migration: Applying several credits to an invoice at once
+-- Date: 2026-10-19
+-- Description: Applies unallocated payments and credit notes to an invoice in one transaction,
+--              so an invoice is never left with only some of the requested credits applied
+
+-- ============================================================================
+-- 1. Applying credits
+-- ============================================================================
+-- p_sources is an array of
+--   {"source_type": "payment" | "credit_note", "source_id", "amount", "journal", "lines"}
+-- where journal and lines are only given for a payment posted to customer
+-- advances. Each source is applied with apply_payment_to_invoice or
+-- apply_credit_note, which lock and check it as when it is applied alone; the
+-- allocation triggers refresh the invoice balance before the next source is
+-- checked against it.
+
+CREATE OR REPLACE FUNCTION public.apply_credits_to_invoice(
+    p_tenant_id UUID,
+    p_user_id UUID,
+    p_invoice_id UUID,
+    p_allocation_date DATE,
+    p_sources JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+    v_source JSONB;
+BEGIN
+    IF jsonb_array_length(COALESCE(p_sources, '[]'::JSONB)) = 0 THEN
+        RAISE EXCEPTION 'No credits to apply';
+    END IF;
+
+    FOR v_source IN
+        SELECT s FROM jsonb_array_elements(p_sources) s
+    LOOP
+        IF v_source->>'source_type' = 'payment' THEN
+            PERFORM public.apply_payment_to_invoice(
+                (v_source->>'source_id')::UUID,
+                p_tenant_id,
+                p_user_id,
+                p_invoice_id,
+                (v_source->>'amount')::DECIMAL(18,2),
+                p_allocation_date,
+                NULLIF(v_source->'journal', 'null'::JSONB),
+                NULLIF(v_source->'lines', 'null'::JSONB)
+            );
+        ELSIF v_source->>'source_type' = 'credit_note' THEN
+            PERFORM public.apply_credit_note(
+                (v_source->>'source_id')::UUID,
+                p_tenant_id,
+                p_user_id,
+                jsonb_build_array(jsonb_build_object(
+                    'invoice_id', p_invoice_id,
+                    'amount', (v_source->>'amount')::DECIMAL(18,2)
+                ))
+            );
+        ELSE
+            RAISE EXCEPTION 'Unknown credit source type %', v_source->>'source_type';
+        END IF;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,157 @@
+-- Migration: Opening balance posting
+-- Date: 2026-10-19
+-- Description: Posts the opening journal and creates the opening customer/vendor invoices posted
+--              against it in one transaction
+
+-- ============================================================================
+-- 1. Posting opening balances
+-- ============================================================================
+-- Refuses a second load while an opening journal or opening invoices of an
+-- earlier load are in effect, creates the posted opening journal and inserts
+-- the opening invoices, numbered and posted against it. Any failure rolls
+-- back all of it.
+-- p_invoices is an array of invoice rows in the column names of invoices,
+-- each with a "lines" array in the column names of invoice_lines.
+
+CREATE OR REPLACE FUNCTION public.post_opening_balances_with_journal(
+    p_tenant_id UUID,
+    p_user_id UUID,
+    p_invoices JSONB,
+    p_journal JSONB,
+    p_lines JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+    v_invoice_row JSONB;
+    v_invoice public.invoices;
+    v_invoice_id UUID;
+    v_journal_id UUID;
+BEGIN
+    PERFORM 1
+    FROM public.journals
+    WHERE tenant_id = p_tenant_id
+      AND source_module = 'opening_balances'
+      AND status <> 'reversed'
+      AND deleted_at IS NULL;
+
+    IF FOUND THEN
+        RAISE EXCEPTION 'Opening balances have already been loaded';
+    END IF;
+
+    -- Invoices of an earlier load are only cancelled by reversing its journal
+    PERFORM 1
+    FROM public.invoices
+    WHERE tenant_id = p_tenant_id
+      AND is_opening_balance = true
+      AND status <> 'cancelled';
+
+    IF FOUND THEN
+        RAISE EXCEPTION 'Opening balance invoices of an earlier load are still open';
+    END IF;
+
+    v_journal_id := public.create_journal_with_lines(
+        p_journal || jsonb_build_object(
+            'tenant_id', p_tenant_id,
+            'status', 'posted',
+            'posting_date', p_journal->>'transaction_date',
+            'posted_by', p_user_id,
+            'posted_at', NOW(),
+            'source_module', 'opening_balances'
+        ),
+        p_lines
+    );
+
+    FOR v_invoice_row IN
+        SELECT i FROM jsonb_array_elements(COALESCE(p_invoices, '[]'::JSONB)) i
+    LOOP
+        v_invoice := jsonb_populate_record(NULL::public.invoices, v_invoice_row);
+
+        INSERT INTO public.invoices (
+            tenant_id,
+            branch_id,
+            invoice_number,
+            invoice_type,
+            party_id,
+            party_type,
+            invoice_date,
+            due_date,
+            payment_terms_id,
+            early_payment_discount_percentage,
+            early_payment_discount_date,
+            currency,
+            exchange_rate,
+            subtotal,
+            taxable_amount,
+            total_amount,
+            paid_amount,
+            balance_amount,
+            notes,
+            internal_notes,
+            status,
+            is_opening_balance,
+            posted_journal_id,
+            approved_by,
+            approved_at,
+            posted_by,
+            posted_at,
+            created_by
+        )
+        VALUES (
+            p_tenant_id,
+            v_invoice.branch_id,
+            public.generate_invoice_number(p_tenant_id, v_invoice.invoice_type),
+            v_invoice.invoice_type,
+            v_invoice.party_id,
+            v_invoice.party_type,
+            v_invoice.invoice_date,
+            v_invoice.due_date,
+            v_invoice.payment_terms_id,
+            v_invoice.early_payment_discount_percentage,
+            v_invoice.early_payment_discount_date,
+            COALESCE(v_invoice.currency, 'QAR'),
+            COALESCE(v_invoice.exchange_rate, 1),
+            v_invoice.total_amount,
+            v_invoice.total_amount,
+            v_invoice.total_amount,
+            0,
+            v_invoice.total_amount,
+            v_invoice.notes,
+            v_invoice.internal_notes,
+            'posted',
+            true,
+            v_journal_id,
+            p_user_id,
+            NOW(),
+            p_user_id,
+            NOW(),
+            p_user_id
+        )
+        RETURNING id INTO v_invoice_id;
+
+        INSERT INTO public.invoice_lines (
+            invoice_id,
+            tenant_id,
+            line_number,
+            description_ar,
+            description_en,
+            quantity,
+            unit_price,
+            taxable_amount,
+            line_total
+        )
+        SELECT
+            v_invoice_id,
+            p_tenant_id,
+            l.line_number,
+            l.description_ar,
+            l.description_en,
+            l.quantity,
+            l.unit_price,
+            l.taxable_amount,
+            l.line_total
+        FROM jsonb_populate_recordset(NULL::public.invoice_lines, v_invoice_row->'lines') l;
+    END LOOP;
+
+    RETURN v_journal_id;
+END;
+$$ LANGUAGE plpgsql;
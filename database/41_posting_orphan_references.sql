@@ -0,0 +1,88 @@
+-- Migration: Posting orphan references
+-- Date: 2026-10-19
+-- Description: Lets the posting orphan check recognise journals that documents reference other
+--              than through posted_journal_id, so they are no longer reported as orphans
+
+-- ============================================================================
+-- 1. Orphan detection
+-- ============================================================================
+-- Same checks as in 23_atomic_posting.sql, with these journals recognised:
+--   invoice_cancellations - the reversal journal of a cancelled invoice,
+--                           referenced by invoices.cancellation_journal_id
+--   payments              - the journal applying a customer advance to an invoice,
+--                           referenced by payment_allocations.journal_id
+
+CREATE OR REPLACE FUNCTION public.find_posting_orphans(p_tenant_id UUID DEFAULT NULL)
+RETURNS TABLE(
+    tenant_id UUID,
+    issue VARCHAR,
+    document_type VARCHAR,
+    document_id UUID,
+    document_number VARCHAR,
+    journal_id UUID,
+    journal_number VARCHAR
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT j.tenant_id, 'journal_without_lines'::VARCHAR, 'journal'::VARCHAR,
+           j.id, j.journal_number, j.id, j.journal_number
+    FROM public.journals j
+    WHERE (p_tenant_id IS NULL OR j.tenant_id = p_tenant_id)
+      AND j.deleted_at IS NULL
+      AND NOT EXISTS (SELECT 1 FROM public.journal_lines jl WHERE jl.journal_id = j.id);
+
+    RETURN QUERY
+    SELECT j.tenant_id, 'journal_without_document'::VARCHAR, j.source_module,
+           j.source_id, NULL::VARCHAR, j.id, j.journal_number
+    FROM public.journals j
+    WHERE (p_tenant_id IS NULL OR j.tenant_id = p_tenant_id)
+      AND j.deleted_at IS NULL
+      AND (
+          (j.source_module = 'invoices' AND NOT EXISTS (
+              SELECT 1 FROM public.invoices i WHERE i.posted_journal_id = j.id))
+          OR (j.source_module = 'invoice_cancellations' AND NOT EXISTS (
+              SELECT 1 FROM public.invoices i WHERE i.cancellation_journal_id = j.id))
+          OR (j.source_module = 'payments' AND NOT EXISTS (
+              SELECT 1 FROM public.payments p WHERE p.posted_journal_id = j.id)
+              AND NOT EXISTS (
+              SELECT 1 FROM public.payment_allocations pa WHERE pa.journal_id = j.id))
+          OR (j.source_module = 'expenses' AND NOT EXISTS (
+              SELECT 1 FROM public.expenses e WHERE e.posted_journal_id = j.id))
+          OR (j.source_module = 'depreciation' AND NOT EXISTS (
+              SELECT 1 FROM public.asset_depreciation_runs r WHERE r.journal_id = j.id))
+      );
+
+    RETURN QUERY
+    SELECT i.tenant_id, 'document_without_journal'::VARCHAR, 'invoices'::VARCHAR,
+           i.id, i.invoice_number, i.posted_journal_id, NULL::VARCHAR
+    FROM public.invoices i
+    WHERE (p_tenant_id IS NULL OR i.tenant_id = p_tenant_id)
+      AND i.status IN ('posted', 'partially_paid', 'paid', 'overdue')
+      AND NOT EXISTS (SELECT 1 FROM public.journals j WHERE j.id = i.posted_journal_id);
+
+    RETURN QUERY
+    SELECT p.tenant_id, 'document_without_journal'::VARCHAR, 'payments'::VARCHAR,
+           p.id, p.payment_number, p.posted_journal_id, NULL::VARCHAR
+    FROM public.payments p
+    WHERE (p_tenant_id IS NULL OR p.tenant_id = p_tenant_id)
+      AND p.status = 'posted'
+      AND NOT EXISTS (SELECT 1 FROM public.journals j WHERE j.id = p.posted_journal_id);
+
+    RETURN QUERY
+    SELECT e.tenant_id, 'document_without_journal'::VARCHAR, 'expenses'::VARCHAR,
+           e.id, e.expense_number, e.posted_journal_id, NULL::VARCHAR
+    FROM public.expenses e
+    WHERE (p_tenant_id IS NULL OR e.tenant_id = p_tenant_id)
+      AND e.deleted_at IS NULL
+      AND e.status IN ('posted', 'paid')
+      AND NOT EXISTS (SELECT 1 FROM public.journals j WHERE j.id = e.posted_journal_id);
+
+    RETURN QUERY
+    SELECT r.tenant_id, 'document_without_journal'::VARCHAR, 'depreciation'::VARCHAR,
+           r.id, r.run_number, r.journal_id, NULL::VARCHAR
+    FROM public.asset_depreciation_runs r
+    WHERE (p_tenant_id IS NULL OR r.tenant_id = p_tenant_id)
+      AND r.status = 'posted'
+      AND NOT EXISTS (SELECT 1 FROM public.journals j WHERE j.id = r.journal_id);
+END;
+$$ LANGUAGE plpgsql STABLE;
@@ -0,0 +1,113 @@
+-- Migration: Journal reversal posting
+-- Date: 2026-10-19
+-- Description: Posts the mirror journal of a reversal and marks the original journal reversed
+--              in one transaction
+
+-- ============================================================================
+-- 1. Reversal with mirror journal
+-- ============================================================================
+-- Locks the original journal and rechecks that it is still posted and not
+-- reversed, creates the posted mirror journal, marks the original reversed
+-- and linked to the mirror, and records the reversal in its workflow history.
+-- Reversing the opening journal also cancels its opening invoices. Any
+-- failure rolls back all of it.
+
+CREATE OR REPLACE FUNCTION public.reverse_journal_with_mirror(
+    p_journal_id UUID,
+    p_tenant_id UUID,
+    p_user_id UUID,
+    p_reason TEXT,
+    p_journal JSONB,
+    p_lines JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+    v_journal public.journals;
+    v_reversal_id UUID;
+BEGIN
+    SELECT * INTO v_journal
+    FROM public.journals
+    WHERE id = p_journal_id
+      AND tenant_id = p_tenant_id
+      AND deleted_at IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Journal not found';
+    END IF;
+
+    IF v_journal.status = 'reversed' OR v_journal.reversal_journal_id IS NOT NULL THEN
+        RAISE EXCEPTION 'Journal has already been reversed';
+    END IF;
+
+    IF v_journal.status <> 'posted' THEN
+        RAISE EXCEPTION 'Can only reverse posted journals';
+    END IF;
+
+    -- The opening invoices were loaded with the opening journal and are
+    -- cancelled with it, so the opening balances can be loaded again
+    IF v_journal.source_module = 'opening_balances' AND (
+        EXISTS (
+            SELECT 1
+            FROM public.payment_allocations pa
+            JOIN public.invoices i ON i.id = pa.invoice_id
+            WHERE i.posted_journal_id = p_journal_id
+        ) OR EXISTS (
+            SELECT 1
+            FROM public.credit_note_allocations ca
+            JOIN public.invoices i ON i.id = ca.invoice_id
+            WHERE i.posted_journal_id = p_journal_id
+        )
+    ) THEN
+        RAISE EXCEPTION 'Opening invoices have payments or credits applied; unapply them first';
+    END IF;
+
+    v_reversal_id := public.create_journal_with_lines(
+        p_journal || jsonb_build_object(
+            'tenant_id', p_tenant_id,
+            'status', 'posted',
+            'posting_date', p_journal->>'transaction_date',
+            'posted_by', p_user_id,
+            'posted_at', NOW(),
+            'source_module', 'journals',
+            'source_id', p_journal_id
+        ),
+        p_lines
+    );
+
+    UPDATE public.journals
+    SET status = 'reversed',
+        reversed_by = p_user_id,
+        reversed_at = NOW(),
+        reversal_journal_id = v_reversal_id,
+        reversal_reason = p_reason
+    WHERE id = p_journal_id;
+
+    UPDATE public.invoices
+    SET status = 'cancelled',
+        balance_amount = 0,
+        cancelled_by = p_user_id,
+        cancelled_at = NOW(),
+        cancellation_reason = p_reason,
+        cancellation_journal_id = v_reversal_id
+    WHERE posted_journal_id = p_journal_id
+      AND is_opening_balance = true
+      AND status <> 'cancelled';
+
+    INSERT INTO public.journal_workflow (
+        journal_id, tenant_id, action, from_status, to_status, actioned_by, notes, metadata
+    )
+    VALUES (
+        p_journal_id,
+        p_tenant_id,
+        'reversed',
+        'posted',
+        'reversed',
+        p_user_id,
+        p_reason,
+        jsonb_build_object('reversal_journal_id', v_reversal_id)
+    );
+
+    RETURN v_reversal_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,79 @@
+-- Migration: Journal workflow transitions
+-- Date: 2026-10-19
+-- Description: Changes a journal's workflow status and records the step in journal_workflow in one
+--              transaction, so the history cannot miss a transition
+
+-- ============================================================================
+-- 1. Workflow transition
+-- ============================================================================
+-- p_action is one of submitted, approved, posted or rejected. The journal must
+-- still be in p_from_status; the matching *_by/*_at columns are set (or
+-- cleared on rejection) and the workflow row is written with the change. Any
+-- failure rolls back both.
+
+CREATE OR REPLACE FUNCTION public.transition_journal(
+    p_journal_id UUID,
+    p_tenant_id UUID,
+    p_user_id UUID,
+    p_action VARCHAR,
+    p_from_status VARCHAR,
+    p_to_status VARCHAR,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS public.journals AS $$
+DECLARE
+    v_journal public.journals;
+BEGIN
+    IF p_action NOT IN ('submitted', 'approved', 'posted', 'rejected') THEN
+        RAISE EXCEPTION 'Unknown journal workflow action %', p_action;
+    END IF;
+
+    UPDATE public.journals
+    SET status = p_to_status,
+        submitted_by = CASE p_action
+            WHEN 'submitted' THEN p_user_id
+            WHEN 'rejected' THEN NULL
+            ELSE submitted_by
+        END,
+        submitted_at = CASE p_action
+            WHEN 'submitted' THEN NOW()
+            WHEN 'rejected' THEN NULL
+            ELSE submitted_at
+        END,
+        approved_by = CASE p_action
+            WHEN 'approved' THEN p_user_id
+            WHEN 'rejected' THEN NULL
+            ELSE approved_by
+        END,
+        approved_at = CASE p_action
+            WHEN 'approved' THEN NOW()
+            WHEN 'rejected' THEN NULL
+            ELSE approved_at
+        END,
+        posted_by = CASE WHEN p_action = 'posted' THEN p_user_id ELSE posted_by END,
+        posted_at = CASE WHEN p_action = 'posted' THEN NOW() ELSE posted_at END
+    WHERE id = p_journal_id
+      AND tenant_id = p_tenant_id
+      AND status = p_from_status
+    RETURNING * INTO v_journal;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Journal not found or not in % status', p_from_status;
+    END IF;
+
+    INSERT INTO public.journal_workflow (
+        journal_id, tenant_id, action, from_status, to_status, actioned_by, notes
+    )
+    VALUES (
+        p_journal_id,
+        p_tenant_id,
+        p_action,
+        p_from_status,
+        p_to_status,
+        p_user_id,
+        p_notes
+    );
+
+    RETURN v_journal;
+END;
+$$ LANGUAGE plpgsql;
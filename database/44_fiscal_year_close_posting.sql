@@ -0,0 +1,67 @@
+-- Migration: Fiscal year close posting
+-- Date: 2026-10-19
+-- Description: Posts the closing journal of a fiscal year and marks the year closed
+--              in one transaction
+
+-- ============================================================================
+-- 1. Closing a fiscal year
+-- ============================================================================
+-- Locks the fiscal year and rechecks that it is still open, creates the posted
+-- closing journal when there are revenue and expense balances to close, and
+-- marks the year closed into the retained earnings account. Any failure rolls
+-- back all of it, so no closing journal is left behind an open year.
+
+CREATE OR REPLACE FUNCTION public.close_fiscal_year_with_journal(
+    p_fiscal_year_id UUID,
+    p_tenant_id UUID,
+    p_user_id UUID,
+    p_retained_earnings_account_id UUID,
+    p_journal JSONB DEFAULT NULL,
+    p_lines JSONB DEFAULT NULL
+)
+RETURNS public.fiscal_years AS $$
+DECLARE
+    v_fiscal_year public.fiscal_years;
+    v_journal_id UUID;
+BEGIN
+    SELECT * INTO v_fiscal_year
+    FROM public.fiscal_years
+    WHERE id = p_fiscal_year_id
+      AND tenant_id = p_tenant_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Fiscal year not found';
+    END IF;
+
+    IF v_fiscal_year.is_closed THEN
+        RAISE EXCEPTION 'Fiscal year is already closed';
+    END IF;
+
+    IF p_journal IS NOT NULL THEN
+        v_journal_id := public.create_journal_with_lines(
+            p_journal || jsonb_build_object(
+                'tenant_id', p_tenant_id,
+                'status', 'posted',
+                'posting_date', p_journal->>'transaction_date',
+                'posted_by', p_user_id,
+                'posted_at', NOW(),
+                'source_module', 'fiscal_years',
+                'source_id', p_fiscal_year_id
+            ),
+            p_lines
+        );
+    END IF;
+
+    UPDATE public.fiscal_years
+    SET is_closed = true,
+        closed_by = p_user_id,
+        closed_at = NOW(),
+        closing_journal_id = v_journal_id,
+        retained_earnings_account_id = p_retained_earnings_account_id
+    WHERE id = p_fiscal_year_id
+    RETURNING * INTO v_fiscal_year;
+
+    RETURN v_fiscal_year;
+END;
+$$ LANGUAGE plpgsql;
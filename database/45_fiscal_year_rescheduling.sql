@@ -0,0 +1,76 @@
+-- Migration: Fiscal year rescheduling
+-- Date: 2026-10-19
+-- Description: Changes the dates or number of periods of a fiscal year and regenerates its periods
+--              in one transaction
+
+-- ============================================================================
+-- 1. Rescheduling a fiscal year
+-- ============================================================================
+-- Locks the fiscal year, rechecks that it has no journals, sets its new dates
+-- and period count and replaces its periods. Any failure rolls back all of it,
+-- so a year is never left without periods or with periods of its old dates.
+-- p_periods is an array of period rows in the column names of fiscal_periods.
+
+CREATE OR REPLACE FUNCTION public.reschedule_fiscal_year(
+    p_fiscal_year_id UUID,
+    p_tenant_id UUID,
+    p_start_date DATE,
+    p_end_date DATE,
+    p_period_count INTEGER,
+    p_periods JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+    v_fiscal_year public.fiscal_years;
+BEGIN
+    SELECT * INTO v_fiscal_year
+    FROM public.fiscal_years
+    WHERE id = p_fiscal_year_id
+      AND tenant_id = p_tenant_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Fiscal year not found';
+    END IF;
+
+    PERFORM 1
+    FROM public.journals
+    WHERE tenant_id = p_tenant_id
+      AND transaction_date BETWEEN v_fiscal_year.start_date AND v_fiscal_year.end_date
+      AND deleted_at IS NULL;
+
+    IF FOUND THEN
+        RAISE EXCEPTION 'Cannot change the dates of a fiscal year that has journals';
+    END IF;
+
+    UPDATE public.fiscal_years
+    SET start_date = p_start_date,
+        end_date = p_end_date,
+        period_count = p_period_count
+    WHERE id = p_fiscal_year_id;
+
+    DELETE FROM public.fiscal_periods
+    WHERE fiscal_year_id = p_fiscal_year_id;
+
+    INSERT INTO public.fiscal_periods (
+        fiscal_year_id,
+        tenant_id,
+        name,
+        name_ar,
+        period_number,
+        start_date,
+        end_date,
+        is_locked
+    )
+    SELECT
+        p_fiscal_year_id,
+        p_tenant_id,
+        p.name,
+        p.name_ar,
+        p.period_number,
+        p.start_date,
+        p.end_date,
+        false
+    FROM jsonb_populate_recordset(NULL::public.fiscal_periods, p_periods) p;
+END;
+$$ LANGUAGE plpgsql;
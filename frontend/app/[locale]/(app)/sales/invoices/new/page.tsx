@@ -15,9 +15,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
 import { useRouter } from "next/navigation";
-import { Plus, Minus, Save, X, ArrowLeft } from "lucide-react";
+import { Plus, Minus, Save, X, ArrowLeft, AlertTriangle } from "lucide-react";
 import { invoicesApi, InvoiceCreateDto } from "@/lib/api/invoices";
-import { customersApi } from "@/lib/api/customers";
+import { customersApi, CreditExposure } from "@/lib/api/customers";
 import { vendorsApi } from "@/lib/api/vendors";
 
 interface InvoiceLineForm {
@@ -59,6 +59,7 @@ export default function NewInvoicePage() {
   
   const [customers, setCustomers] = useState<any[]>([]);
   const [vendors, setVendors] = useState<any[]>([]);
+  const [creditExposure, setCreditExposure] = useState<CreditExposure | null>(null);
 
   useEffect(() => {
     fetchParties();
@@ -196,6 +197,29 @@ export default function NewInvoicePage() {
   };
 
   const totals = calculateTotals();
+  const invoiceAmountBase = totals.totalAmount * (parseFloat(formData.exchangeRate) || 1);
+
+  // Customer credit position including this invoice, refreshed as the total changes
+  useEffect(() => {
+    if (formData.invoiceType !== "sales" || formData.partyType !== "customer" || !formData.partyId) {
+      setCreditExposure(null);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const exposure = await customersApi.getCreditExposure(formData.partyId, {
+          invoice_amount: invoiceAmountBase,
+        });
+        setCreditExposure(exposure);
+      } catch (error) {
+        console.error("Error fetching credit exposure:", error);
+        setCreditExposure(null);
+      }
+    }, 400);
+
+    return () => clearTimeout(timer);
+  }, [formData.invoiceType, formData.partyType, formData.partyId, invoiceAmountBase]);
 
   if (loading) {
     return (
@@ -286,6 +310,54 @@ export default function NewInvoicePage() {
                   </Select>
                 </div>
 
+                {creditExposure && (
+                  <div
+                    className={`rounded-md border p-3 text-sm space-y-1 ${
+                      creditExposure.blocked ? "border-red-300 bg-red-50" : "bg-gray-50"
+                    }`}
+                  >
+                    {creditExposure.blocked && (
+                      <div className="flex items-center gap-2 font-medium text-red-700">
+                        <AlertTriangle className="h-4 w-4" />
+                        {creditExposure.credit_hold
+                          ? `Customer is on credit hold${
+                              creditExposure.credit_hold_reason ? `: ${creditExposure.credit_hold_reason}` : ""
+                            }`
+                          : "Credit limit exceeded"}
+                        {" - submitting needs a credit override"}
+                      </div>
+                    )}
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Credit Limit:</span>
+                      <span>
+                        {creditExposure.credit_limit === null
+                          ? "No limit"
+                          : `QAR ${creditExposure.credit_limit.toFixed(2)}`}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Open Balance:</span>
+                      <span>QAR {(creditExposure.open_balance + creditExposure.pending_amount).toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">This Invoice:</span>
+                      <span>QAR {creditExposure.invoice_amount.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between font-medium">
+                      <span>Exposure:</span>
+                      <span>QAR {creditExposure.exposure.toFixed(2)}</span>
+                    </div>
+                    {creditExposure.available_credit !== null && (
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Available Credit:</span>
+                        <span className={creditExposure.available_credit < 0 ? "text-red-700" : ""}>
+                          QAR {creditExposure.available_credit.toFixed(2)}
+                        </span>
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <Label htmlFor="invoiceDate">Invoice Date *</Label>
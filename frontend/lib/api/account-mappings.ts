@@ -0,0 +1,136 @@
+/**
+ * Account Mappings API
+ * Default posting accounts of the tenant and the customer, vendor and VAT code overrides
+ */
+
+import { apiClient } from "./client";
+
+export interface AccountMappings {
+  tenant_id: string;
+  receivable_account_id: string | null;
+  payable_account_id: string | null;
+  output_vat_account_id: string | null;
+  input_vat_account_id: string | null;
+  sales_account_id: string | null;
+  purchases_account_id: string | null;
+  sales_returns_account_id: string | null;
+  purchase_returns_account_id: string | null;
+  sales_discount_account_id: string | null;
+  purchase_discount_account_id: string | null;
+  customer_advances_account_id: string | null;
+  employee_payable_account_id: string | null;
+  bad_debts_account_id: string | null;
+  rounding_account_id: string | null;
+  fx_gain_account_id: string | null;
+  fx_loss_account_id: string | null;
+  retained_earnings_account_id: string | null;
+  // Differences up to this amount left by a payment allocation are written off automatically
+  write_off_tolerance: number;
+  updated_by: string | null;
+  updated_at: string | null;
+}
+
+// Omitted keys are left unchanged, null clears a mapping
+export type UpdateAccountMappingsDto = Partial<
+  Omit<AccountMappings, "tenant_id" | "updated_by" | "updated_at">
+>;
+
+export interface AccountMappingOverrides {
+  customers: Array<{
+    id: string;
+    code: string;
+    name_en: string;
+    name_ar: string;
+    receivable_account_id: string;
+  }>;
+  vendors: Array<{
+    id: string;
+    code: string;
+    name_en: string;
+    name_ar: string;
+    payable_account_id: string;
+  }>;
+  vat_codes: Array<{
+    id: string;
+    code: string;
+    name_en: string;
+    name_ar: string;
+    type: "input" | "output";
+    account_id: string;
+  }>;
+}
+
+function toRequestBody(data: UpdateAccountMappingsDto) {
+  return {
+    receivableAccountId: data.receivable_account_id,
+    payableAccountId: data.payable_account_id,
+    outputVatAccountId: data.output_vat_account_id,
+    inputVatAccountId: data.input_vat_account_id,
+    salesAccountId: data.sales_account_id,
+    purchasesAccountId: data.purchases_account_id,
+    salesReturnsAccountId: data.sales_returns_account_id,
+    purchaseReturnsAccountId: data.purchase_returns_account_id,
+    salesDiscountAccountId: data.sales_discount_account_id,
+    purchaseDiscountAccountId: data.purchase_discount_account_id,
+    customerAdvancesAccountId: data.customer_advances_account_id,
+    employeePayableAccountId: data.employee_payable_account_id,
+    badDebtsAccountId: data.bad_debts_account_id,
+    roundingAccountId: data.rounding_account_id,
+    fxGainAccountId: data.fx_gain_account_id,
+    fxLossAccountId: data.fx_loss_account_id,
+    retainedEarningsAccountId: data.retained_earnings_account_id,
+    writeOffTolerance: data.write_off_tolerance,
+  };
+}
+
+export const accountMappingsApi = {
+  /**
+   * Get the default posting accounts
+   */
+  async get(): Promise<AccountMappings> {
+    const response = await apiClient.get<AccountMappings>("/settings/account-mappings");
+    return response.data as AccountMappings;
+  },
+
+  /**
+   * Update the default posting accounts
+   */
+  async update(data: UpdateAccountMappingsDto): Promise<AccountMappings> {
+    const response = await apiClient.patch<AccountMappings>(
+      "/settings/account-mappings",
+      toRequestBody(data)
+    );
+    return response.data as AccountMappings;
+  },
+
+  /**
+   * List customers, vendors and VAT codes with their own accounts
+   */
+  async getOverrides(): Promise<AccountMappingOverrides> {
+    const response = await apiClient.get<AccountMappingOverrides>(
+      "/settings/account-mappings/overrides"
+    );
+    return response.data as AccountMappingOverrides;
+  },
+
+  /**
+   * Set or clear a customer's receivable account
+   */
+  async setCustomerAccount(customerId: string, accountId: string | null): Promise<void> {
+    await apiClient.patch(`/settings/account-mappings/customers/${customerId}`, { accountId });
+  },
+
+  /**
+   * Set or clear a vendor's payable account
+   */
+  async setVendorAccount(vendorId: string, accountId: string | null): Promise<void> {
+    await apiClient.patch(`/settings/account-mappings/vendors/${vendorId}`, { accountId });
+  },
+
+  /**
+   * Set or clear a VAT code's account
+   */
+  async setVatCodeAccount(vatCodeId: string, accountId: string | null): Promise<void> {
+    await apiClient.patch(`/settings/account-mappings/vat-codes/${vatCodeId}`, { accountId });
+  },
+};
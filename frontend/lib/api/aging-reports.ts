@@ -0,0 +1,119 @@
+/**
+ * Aging Reports API
+ * Receivables and payables outstanding as of a date, per party and age bucket
+ */
+
+import { apiClient } from "./client";
+
+export type AgingBasis = "due_date" | "invoice_date";
+
+export interface AgingBucket {
+  key: string;
+  label: string;
+  from_days: number | null;
+  to_days: number | null;
+}
+
+export interface AgingInvoice {
+  invoice_id: string;
+  invoice_number: string;
+  invoice_type: string;
+  invoice_date: string;
+  due_date: string | null;
+  currency: string;
+  exchange_rate: number;
+  days: number;
+  bucket: string;
+  document_balance: number;
+  balance: number;
+}
+
+export interface AgingParty {
+  party_id: string;
+  code: string;
+  name_en: string;
+  name_ar: string;
+  currencies: string[];
+  balances: Record<string, number>;
+  total: number;
+  invoices?: AgingInvoice[];
+}
+
+export interface AgingReport {
+  party_type: "customer" | "vendor";
+  as_of_date: string;
+  aging_basis: AgingBasis;
+  currency: string;
+  buckets: AgingBucket[];
+  parties: AgingParty[];
+  totals: {
+    balances: Record<string, number>;
+    total: number;
+  };
+}
+
+export interface AgingReportFilters {
+  as_of_date?: string;
+  aging_basis?: AgingBasis;
+  // Ascending bucket boundaries in days, e.g. [30, 60, 90]
+  buckets?: number[];
+  currency?: string;
+  party_id?: string;
+  include_invoices?: boolean;
+}
+
+function toQuery(partyType: "customer" | "vendor", filters?: AgingReportFilters) {
+  const query: Record<string, string | boolean> = {};
+  if (filters?.as_of_date) query.asOfDate = filters.as_of_date;
+  if (filters?.aging_basis) query.agingBasis = filters.aging_basis;
+  if (filters?.buckets?.length) query.buckets = filters.buckets.join(",");
+  if (filters?.currency) query.currency = filters.currency;
+  if (filters?.party_id) query[partyType === "customer" ? "customerId" : "vendorId"] = filters.party_id;
+  if (filters?.include_invoices !== undefined) query.includeInvoices = filters.include_invoices;
+  return query;
+}
+
+async function getReport(
+  path: string,
+  partyType: "customer" | "vendor",
+  filters?: AgingReportFilters
+): Promise<AgingReport> {
+  const params = new URLSearchParams();
+  Object.entries(toQuery(partyType, filters)).forEach(([key, value]) => {
+    params.append(key, String(value));
+  });
+
+  const query = params.toString();
+  const response = await apiClient.get<AgingReport>(query ? `${path}?${query}` : path);
+  return response.data as AgingReport;
+}
+
+export const agingReportsApi = {
+  /**
+   * Get the accounts receivable aging; pass party_id to drill down to one customer's invoices
+   */
+  async getReceivables(filters?: AgingReportFilters): Promise<AgingReport> {
+    return getReport("/reports/ar-aging", "customer", filters);
+  },
+
+  /**
+   * Get the accounts payable aging; pass party_id to drill down to one vendor's invoices
+   */
+  async getPayables(filters?: AgingReportFilters): Promise<AgingReport> {
+    return getReport("/reports/ap-aging", "vendor", filters);
+  },
+
+  /**
+   * Download the accounts receivable aging as Excel or PDF
+   */
+  async exportReceivables(format: "excel" | "pdf", filters?: AgingReportFilters): Promise<void> {
+    return apiClient.download(`/reports/ar-aging/export/${format}`, toQuery("customer", filters));
+  },
+
+  /**
+   * Download the accounts payable aging as Excel or PDF
+   */
+  async exportPayables(format: "excel" | "pdf", filters?: AgingReportFilters): Promise<void> {
+    return apiClient.download(`/reports/ap-aging/export/${format}`, toQuery("vendor", filters));
+  },
+};
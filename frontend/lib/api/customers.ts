@@ -20,6 +20,12 @@ export interface Customer {
   country?: string;
   credit_limit?: number;
   payment_terms_days?: number;
+  payment_terms_id?: string;
+  preferred_language?: "ar" | "en";
+  exclude_from_dunning?: boolean;
+  credit_hold?: boolean;
+  credit_hold_reason?: string;
+  credit_hold_at?: string;
   is_active: boolean;
   notes?: string;
   created_at: string;
@@ -39,10 +45,26 @@ export interface CreateCustomerDto {
   country?: string;
   credit_limit?: number;
   payment_terms_days?: number;
+  payment_terms_id?: string;
   is_active?: boolean;
   notes?: string;
 }
 
+export interface CreditExposure {
+  customer_id: string;
+  // null when the customer has no credit limit
+  credit_limit: number | null;
+  credit_hold: boolean;
+  credit_hold_reason: string | null;
+  open_balance: number;
+  pending_amount: number;
+  invoice_amount: number;
+  exposure: number;
+  available_credit: number | null;
+  exceeds_limit: boolean;
+  blocked: boolean;
+}
+
 // Alias for backward compatibility
 export type CustomerCreateDto = CreateCustomerDto;
 
@@ -58,6 +80,7 @@ export interface UpdateCustomerDto {
   country?: string;
   credit_limit?: number;
   payment_terms_days?: number;
+  payment_terms_id?: string;
   is_active?: boolean;
   notes?: string;
 }
@@ -106,6 +129,7 @@ export const customersApi = {
       country: data.country,
       credit_limit: data.credit_limit,
       payment_terms_days: data.payment_terms_days,
+      payment_terms_id: data.payment_terms_id,
       is_active: data.is_active ?? true,
       notes: data.notes,
     });
@@ -128,6 +152,7 @@ export const customersApi = {
       country: data.country,
       credit_limit: data.credit_limit,
       payment_terms_days: data.payment_terms_days,
+      payment_terms_id: data.payment_terms_id,
       is_active: data.is_active,
       notes: data.notes,
     });
@@ -141,4 +166,38 @@ export const customersApi = {
     const response = await apiClient.delete<{ success: boolean }>(`/customers/${id}`);
     return response.data as { success: boolean };
   },
+
+  /**
+   * Get the customer's credit exposure, with the amount of a new invoice (in base currency) added
+   */
+  async getCreditExposure(
+    id: string,
+    options?: { invoice_amount?: number; exclude_invoice_id?: string }
+  ): Promise<CreditExposure> {
+    const params = new URLSearchParams();
+    if (options?.invoice_amount) params.append("invoiceAmount", String(options.invoice_amount));
+    if (options?.exclude_invoice_id) params.append("excludeInvoiceId", options.exclude_invoice_id);
+
+    const query = params.toString();
+    const response = await apiClient.get<CreditExposure>(
+      query ? `/customers/${id}/credit?${query}` : `/customers/${id}/credit`
+    );
+    return response.data as CreditExposure;
+  },
+
+  /**
+   * Put the customer on credit hold
+   */
+  async placeCreditHold(id: string, reason: string): Promise<Customer> {
+    const response = await apiClient.post<Customer>(`/customers/${id}/credit-hold`, { reason });
+    return response.data as Customer;
+  },
+
+  /**
+   * Release the customer from credit hold
+   */
+  async releaseCreditHold(id: string): Promise<Customer> {
+    const response = await apiClient.delete<Customer>(`/customers/${id}/credit-hold`);
+    return response.data as Customer;
+  },
 };
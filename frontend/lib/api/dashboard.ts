@@ -15,6 +15,12 @@ export interface DashboardStats {
   expenseChange: number;
   profitChange: number;
   balanceChange: number;
+  accountsReceivable: number;
+  overdueReceivables: number;
+  overdueReceivablesCount: number;
+  accountsPayable: number;
+  overduePayables: number;
+  overduePayablesCount: number;
 }
 
 export interface RecentInvoice {
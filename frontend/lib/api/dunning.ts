@@ -0,0 +1,120 @@
+/**
+ * Dunning API
+ * Payment reminder levels relative to the invoice due date and the reminders sent per invoice
+ */
+
+import { apiClient } from "./client";
+
+export interface DunningLevel {
+  id: string;
+  tenant_id: string;
+  name: string;
+  days_offset: number;
+  subject_en: string;
+  subject_ar: string;
+  message_en: string;
+  message_ar: string;
+  attach_pdf: boolean;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InvoiceReminder {
+  id: string;
+  invoice_id: string;
+  dunning_level_id?: string;
+  customer_id: string;
+  days_offset: number;
+  sent_to?: string;
+  language: "ar" | "en";
+  balance_amount: number;
+  status: "sent" | "failed";
+  error_message?: string;
+  sent_at?: string;
+  created_at: string;
+  dunning_levels?: {
+    id: string;
+    name: string;
+    days_offset: number;
+  };
+}
+
+export interface CreateDunningLevelDto {
+  name: string;
+  days_offset: number;
+  subject_en: string;
+  subject_ar: string;
+  message_en: string;
+  message_ar: string;
+  attach_pdf?: boolean;
+  is_active?: boolean;
+}
+
+function toRequestBody(data: Partial<CreateDunningLevelDto>) {
+  return {
+    name: data.name,
+    daysOffset: data.days_offset,
+    subjectEn: data.subject_en,
+    subjectAr: data.subject_ar,
+    messageEn: data.message_en,
+    messageAr: data.message_ar,
+    attachPdf: data.attach_pdf,
+    isActive: data.is_active,
+  };
+}
+
+export const dunningApi = {
+  /**
+   * Get the dunning levels ordered by days from the due date
+   */
+  async getLevels(): Promise<DunningLevel[]> {
+    const response = await apiClient.get<DunningLevel[]>("/dunning/levels");
+    return response.data || [];
+  },
+
+  /**
+   * Create a dunning level
+   */
+  async createLevel(data: CreateDunningLevelDto): Promise<DunningLevel> {
+    const response = await apiClient.post<DunningLevel>("/dunning/levels", toRequestBody(data));
+    return response.data as DunningLevel;
+  },
+
+  /**
+   * Create the default levels (3 days before due, 7 and 30 days overdue)
+   */
+  async createDefaultLevels(): Promise<DunningLevel[]> {
+    const response = await apiClient.post<DunningLevel[]>("/dunning/levels/defaults", {});
+    return response.data || [];
+  },
+
+  /**
+   * Update a dunning level
+   */
+  async updateLevel(id: string, data: Partial<CreateDunningLevelDto>): Promise<DunningLevel> {
+    const response = await apiClient.patch<DunningLevel>(
+      `/dunning/levels/${id}`,
+      toRequestBody(data)
+    );
+    return response.data as DunningLevel;
+  },
+
+  /**
+   * Delete a dunning level
+   */
+  async deleteLevel(id: string): Promise<{ success: boolean }> {
+    const response = await apiClient.delete<{ success: boolean }>(`/dunning/levels/${id}`);
+    return response.data as { success: boolean };
+  },
+
+  /**
+   * Get the reminders sent for an invoice
+   */
+  async getInvoiceReminders(invoiceId: string): Promise<InvoiceReminder[]> {
+    const response = await apiClient.get<InvoiceReminder[]>(
+      `/dunning/invoices/${invoiceId}/reminders`
+    );
+    return response.data || [];
+  },
+};
@@ -0,0 +1,191 @@
+/**
+ * Exchange Rates API
+ * Dated exchange rates to the base currency and period-end FX revaluation
+ */
+
+import { apiClient } from "./client";
+
+export interface ExchangeRate {
+  id: string;
+  tenant_id: string;
+  currency: string;
+  rate_date: string;
+  rate: number;
+  source: "manual" | "import";
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateExchangeRateDto {
+  currency: string;
+  rate_date: string;
+  rate: number;
+}
+
+export interface ExchangeRateFilters {
+  currency?: string;
+  start_date?: string;
+  end_date?: string;
+}
+
+export interface FxRevaluationLine {
+  source_type: "invoice" | "bank_account";
+  source_id: string;
+  source_number: string;
+  account_id: string;
+  currency: string;
+  foreign_amount: number;
+  booked_amount: number;
+  rate: number;
+  revalued_amount: number;
+  difference: number;
+}
+
+export interface FxRevaluationPreview {
+  fiscal_period_id: string;
+  revaluation_date: string;
+  reversal_date: string;
+  base_currency: string;
+  total_gain: number;
+  total_loss: number;
+  lines: FxRevaluationLine[];
+}
+
+export interface FxRevaluationRun {
+  id: string;
+  tenant_id: string;
+  fiscal_period_id: string;
+  revaluation_date: string;
+  reversal_date: string;
+  base_currency: string;
+  total_gain: number;
+  total_loss: number;
+  journal_id: string | null;
+  reversal_journal_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  fiscal_periods?: { id: string; name: string; start_date: string; end_date: string };
+  fx_revaluation_lines?: Array<
+    FxRevaluationLine & {
+      id: string;
+      chart_of_accounts?: { id: string; code: string; name_en: string; name_ar: string };
+    }
+  >;
+}
+
+export const exchangeRatesApi = {
+  /**
+   * Get exchange rates, newest first
+   */
+  async getAll(filters?: ExchangeRateFilters): Promise<ExchangeRate[]> {
+    const params = new URLSearchParams();
+    if (filters?.currency) params.append("currency", filters.currency);
+    if (filters?.start_date) params.append("startDate", filters.start_date);
+    if (filters?.end_date) params.append("endDate", filters.end_date);
+
+    const query = params.toString();
+    const response = await apiClient.get<ExchangeRate[]>(
+      query ? `/settings/exchange-rates?${query}` : "/settings/exchange-rates"
+    );
+    return response.data || [];
+  },
+
+  /**
+   * Get the rate of a currency on a date (latest on or before it)
+   */
+  async getRate(
+    currency: string,
+    date?: string
+  ): Promise<{ currency: string; rate_date: string; rate: number }> {
+    const params = new URLSearchParams({ currency });
+    if (date) params.append("date", date);
+
+    const response = await apiClient.get<{ currency: string; rate_date: string; rate: number }>(
+      `/settings/exchange-rates/rate?${params.toString()}`
+    );
+    return response.data as { currency: string; rate_date: string; rate: number };
+  },
+
+  /**
+   * Enter the rate of a currency for a date
+   */
+  async create(data: CreateExchangeRateDto): Promise<ExchangeRate> {
+    const response = await apiClient.post<ExchangeRate>("/settings/exchange-rates", {
+      currency: data.currency,
+      rateDate: data.rate_date,
+      rate: data.rate,
+    });
+    return response.data as ExchangeRate;
+  },
+
+  /**
+   * Import rates from a CSV file with the columns currency, rate_date, rate
+   */
+  async importCsv(file: File): Promise<{ imported: number }> {
+    const formData = new FormData();
+    formData.append("file", file);
+    const response = await apiClient.post<{ imported: number }>(
+      "/settings/exchange-rates/import",
+      formData
+    );
+    return response.data as { imported: number };
+  },
+
+  /**
+   * Change an exchange rate
+   */
+  async update(id: string, rate: number): Promise<ExchangeRate> {
+    const response = await apiClient.patch<ExchangeRate>(`/settings/exchange-rates/${id}`, {
+      rate,
+    });
+    return response.data as ExchangeRate;
+  },
+
+  /**
+   * Delete an exchange rate
+   */
+  async delete(id: string): Promise<{ success: boolean }> {
+    const response = await apiClient.delete<{ success: boolean }>(`/settings/exchange-rates/${id}`);
+    return response.data as { success: boolean };
+  },
+};
+
+export const fxRevaluationApi = {
+  /**
+   * Get all revaluation runs
+   */
+  async getAll(): Promise<FxRevaluationRun[]> {
+    const response = await apiClient.get<FxRevaluationRun[]>("/fx-revaluations");
+    return response.data || [];
+  },
+
+  /**
+   * Get a revaluation run with its lines
+   */
+  async getById(id: string): Promise<FxRevaluationRun> {
+    const response = await apiClient.get<FxRevaluationRun>(`/fx-revaluations/${id}`);
+    return response.data as FxRevaluationRun;
+  },
+
+  /**
+   * Calculate a fiscal period's revaluation without posting it
+   */
+  async preview(fiscalPeriodId: string): Promise<FxRevaluationPreview> {
+    const response = await apiClient.get<FxRevaluationPreview>(
+      `/fx-revaluations/preview?fiscalPeriodId=${fiscalPeriodId}`
+    );
+    return response.data as FxRevaluationPreview;
+  },
+
+  /**
+   * Post a fiscal period's revaluation and its reversal on the next day
+   */
+  async create(fiscalPeriodId: string, overrideCode?: string): Promise<FxRevaluationRun> {
+    const response = await apiClient.post<FxRevaluationRun>("/fx-revaluations", {
+      fiscalPeriodId,
+      overrideCode,
+    });
+    return response.data as FxRevaluationRun;
+  },
+};
@@ -10,31 +10,48 @@ export interface AccountingPeriod {
   fiscal_year_id: string;
   period_number: number;
   name: string;
+  name_ar?: string;
   start_date: string;
   end_date: string;
-  is_closed: boolean;
+  is_locked: boolean;
+  locked_by?: string;
+  locked_at?: string;
 }
 
 export interface FiscalYear {
   id: string;
   tenant_id: string;
   name: string;
+  name_ar?: string;
+  /** Calendar year in which the fiscal year ends */
   year: number;
   start_date: string;
   end_date: string;
+  period_count: 12 | 13;
+  /** True when every period of the year is locked */
   is_locked: boolean;
   is_current: boolean;
+  is_closed?: boolean;
+  closed_by?: string;
+  closed_at?: string;
+  closing_journal_id?: string;
+  retained_earnings_account_id?: string;
   description?: string;
-  accounting_periods?: AccountingPeriod[];
+  fiscal_periods?: AccountingPeriod[];
   created_at: string;
   updated_at: string;
 }
 
 export interface CreateFiscalYearDto {
   name: string;
-  year: number;
+  name_ar?: string;
+  /** Not sent; the year is derived from the end date */
+  year?: number;
   start_date: string;
-  end_date: string;
+  /** Optional; derived from the start date and period count when omitted */
+  end_date?: string;
+  period_count?: 12 | 13;
+  is_current?: boolean;
   is_locked?: boolean;
   description?: string;
 }
@@ -44,6 +61,19 @@ export interface FiscalYearFilters {
   search?: string;
 }
 
+function toRequestBody(data: Partial<CreateFiscalYearDto>) {
+  return {
+    name: data.name,
+    nameAr: data.name_ar,
+    startDate: data.start_date,
+    endDate: data.end_date,
+    periodCount: data.period_count,
+    isCurrent: data.is_current,
+    isLocked: data.is_locked,
+    description: data.description,
+  };
+}
+
 export const fiscalYearsApi = {
   async getAll(filters?: FiscalYearFilters): Promise<FiscalYear[]> {
     const params = new URLSearchParams();
@@ -63,12 +93,15 @@ export const fiscalYearsApi = {
   },
 
   async create(data: CreateFiscalYearDto): Promise<FiscalYear> {
-    const response = await apiClient.post<FiscalYear>("/settings/fiscal-years", data);
+    const response = await apiClient.post<FiscalYear>("/settings/fiscal-years", toRequestBody(data));
     return response.data as FiscalYear;
   },
 
   async update(id: string, data: Partial<CreateFiscalYearDto>): Promise<FiscalYear> {
-    const response = await apiClient.patch<FiscalYear>(`/settings/fiscal-years/${id}`, data);
+    const response = await apiClient.patch<FiscalYear>(
+      `/settings/fiscal-years/${id}`,
+      toRequestBody(data)
+    );
     return response.data as FiscalYear;
   },
 
@@ -92,6 +125,24 @@ export const fiscalYearsApi = {
     return response.data as FiscalYear;
   },
 
+  async close(
+    id: string,
+    data?: { retained_earnings_account_id?: string; notes?: string }
+  ): Promise<FiscalYear> {
+    const response = await apiClient.post<FiscalYear>(`/fiscal-periods/years/${id}/close`, {
+      retainedEarningsAccountId: data?.retained_earnings_account_id,
+      notes: data?.notes,
+    });
+    return response.data as FiscalYear;
+  },
+
+  async reopen(id: string, reason: string): Promise<FiscalYear> {
+    const response = await apiClient.post<FiscalYear>(`/fiscal-periods/years/${id}/reopen`, {
+      reason,
+    });
+    return response.data as FiscalYear;
+  },
+
   async exportToPDF(id: string): Promise<Blob> {
     const response = await fetch(
       `${process.env.NEXT_PUBLIC_API_URL}/settings/fiscal-years/${id}/export/pdf`,
@@ -38,6 +38,8 @@ export interface Invoice {
   invoice_type: "sales" | "purchase";
   party_id: string;
   party_type: "customer" | "vendor";
+  original_invoice_id?: string;
+  credited_amount?: number;
   party?: {
     id: string;
     name_en: string;
@@ -45,6 +47,9 @@ export interface Invoice {
   };
   invoice_date: string;
   due_date?: string;
+  payment_terms_id?: string;
+  early_payment_discount_percentage?: number;
+  early_payment_discount_date?: string;
   currency: string;
   exchange_rate: number;
   subtotal: number;
@@ -53,7 +58,7 @@ export interface Invoice {
   total_amount: number;
   paid_amount: number;
   outstanding_amount: number;
-  status: "draft" | "submitted" | "approved" | "posted" | "paid" | "partial";
+  status: "draft" | "submitted" | "approved" | "posted" | "paid" | "partial" | "overdue" | "cancelled";
   notes?: string;
   attachment_url?: string;
   submitted_by?: string;
@@ -62,6 +67,13 @@ export interface Invoice {
   approved_at?: string;
   posted_by?: string;
   posted_at?: string;
+  credit_override_by?: string;
+  credit_override_reason?: string;
+  credit_override_at?: string;
+  cancelled_by?: string;
+  cancelled_at?: string;
+  cancellation_reason?: string;
+  cancellation_journal_id?: string;
   created_by: string;
   created_at: string;
   updated_at: string;
@@ -75,6 +87,7 @@ export interface CreateInvoiceDto {
   party_type: "customer" | "vendor";
   invoice_date: Date | string;
   due_date?: Date | string;
+  payment_terms_id?: string;
   currency?: string;
   exchange_rate?: number;
   notes?: string;
@@ -103,6 +116,39 @@ export interface UpdateInvoiceDto {
   attachment_url?: string;
 }
 
+export interface CreateCreditNoteDto {
+  invoiceDate?: Date | string;
+  notes?: string;
+  // Lines of the original invoice to credit; all remaining quantities when omitted
+  lines?: Array<{
+    originalLineId: string;
+    quantity: number;
+    unitPrice?: number;
+    descriptionAr?: string;
+    descriptionEn?: string;
+  }>;
+}
+
+export interface ApplyCreditDto {
+  allocations: Array<{
+    invoiceId: string;
+    amount: number;
+    notes?: string;
+  }>;
+}
+
+export interface CreditAllocation {
+  id: string;
+  credit_note_id: string;
+  invoice_id: string;
+  allocation_date: string;
+  amount: number;
+  notes?: string;
+  credit_note?: { id: string; invoice_number: string; invoice_date: string; total_amount: number };
+  invoice?: { id: string; invoice_number: string; invoice_date: string; total_amount: number };
+  created_at: string;
+}
+
 export interface InvoiceFilters {
   invoice_type?: "sales" | "purchase";
   status?: string;
@@ -146,6 +192,7 @@ export const invoicesApi = {
       party_type: data.party_type,
       invoice_date: typeof data.invoice_date === 'string' ? data.invoice_date : data.invoice_date.toISOString(),
       due_date: data.due_date ? (typeof data.due_date === 'string' ? data.due_date : data.due_date.toISOString()) : undefined,
+      payment_terms_id: data.payment_terms_id,
       currency: data.currency || "QAR",
       exchange_rate: data.exchange_rate || 1,
       notes: data.notes,
@@ -188,18 +235,18 @@ export const invoicesApi = {
   },
 
   /**
-   * Submit invoice for approval
+   * Submit invoice for approval; a reason is needed past the customer's credit limit or hold
    */
-  async submit(id: string): Promise<Invoice> {
-    const response = await apiClient.post<Invoice>(`/invoices/${id}/submit`);
+  async submit(id: string, creditOverrideReason?: string): Promise<Invoice> {
+    const response = await apiClient.post<Invoice>(`/invoices/${id}/submit`, { creditOverrideReason });
     return response.data as Invoice;
   },
 
   /**
-   * Approve invoice
+   * Approve invoice; a reason is needed past the customer's credit limit or hold
    */
-  async approve(id: string): Promise<Invoice> {
-    const response = await apiClient.post<Invoice>(`/invoices/${id}/approve`);
+  async approve(id: string, creditOverrideReason?: string): Promise<Invoice> {
+    const response = await apiClient.post<Invoice>(`/invoices/${id}/approve`, { creditOverrideReason });
     return response.data as Invoice;
   },
 
@@ -210,4 +257,49 @@ export const invoicesApi = {
     const response = await apiClient.post<Invoice>(`/invoices/${id}/post`);
     return response.data as Invoice;
   },
+
+  /**
+   * Cancel a posted, unpaid invoice; its journal is reversed and it keeps its number
+   */
+  async cancel(id: string, reason: string, cancellationDate?: string): Promise<Invoice> {
+    const response = await apiClient.post<Invoice>(`/invoices/${id}/cancel`, { reason, cancellationDate });
+    return response.data as Invoice;
+  },
+
+  /**
+   * Create a draft credit note from a posted invoice
+   */
+  async createCreditNote(id: string, data: CreateCreditNoteDto = {}): Promise<Invoice> {
+    const response = await apiClient.post<Invoice>(`/invoices/${id}/credit-note`, {
+      ...data,
+      invoiceDate: data.invoiceDate
+        ? (typeof data.invoiceDate === 'string' ? data.invoiceDate : data.invoiceDate.toISOString())
+        : undefined,
+    });
+    return response.data as Invoice;
+  },
+
+  /**
+   * Apply a posted credit note to open invoices of the same party
+   */
+  async applyCredit(id: string, data: ApplyCreditDto): Promise<Invoice> {
+    const response = await apiClient.post<Invoice>(`/invoices/${id}/apply-credit`, data);
+    return response.data as Invoice;
+  },
+
+  /**
+   * Get the credit allocations of an invoice or credit note
+   */
+  async getCreditAllocations(id: string): Promise<CreditAllocation[]> {
+    const response = await apiClient.get<CreditAllocation[]>(`/invoices/${id}/credit-allocations`);
+    return response.data || [];
+  },
+
+  /**
+   * Remove a credit allocation
+   */
+  async removeCreditAllocation(allocationId: string): Promise<{ message: string }> {
+    const response = await apiClient.delete<{ message: string }>(`/invoices/credit-allocations/${allocationId}`);
+    return response.data as { message: string };
+  },
 };
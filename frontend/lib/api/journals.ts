@@ -72,6 +72,8 @@ export interface Journal {
   posted_at?: string;
   reversed_by?: string;
   reversed_at?: string;
+  reversal_journal_id?: string;
+  reversal_reason?: string;
   notes?: string;
   attachment_url?: string;
   source_module?: string;
@@ -133,6 +135,33 @@ export interface UpdateJournalDto {
   attachment_url?: string;
 }
 
+export interface JournalWorkflowEntry {
+  id: string;
+  journal_id: string;
+  tenant_id: string;
+  action: "created" | "submitted" | "approved" | "rejected" | "posted" | "reversed";
+  from_status?: string;
+  to_status?: string;
+  actioned_by?: string;
+  actioned_at: string;
+  notes?: string;
+  metadata?: Record<string, unknown>;
+  users?: {
+    id: string;
+    email: string;
+    first_name_ar?: string;
+    last_name_ar?: string;
+    first_name_en?: string;
+    last_name_en?: string;
+  };
+}
+
+export interface ReverseJournalDto {
+  reversal_date?: Date | string;
+  reason?: string;
+  force?: boolean;
+}
+
 export interface JournalFilters {
   status?: string;
   journal_type?: string;
@@ -229,6 +258,14 @@ export const journalsApi = {
     return response.data as Journal;
   },
 
+  /**
+   * Get journal workflow history
+   */
+  async getHistory(id: string): Promise<JournalWorkflowEntry[]> {
+    const response = await apiClient.get<JournalWorkflowEntry[]>(`/journals/${id}/history`);
+    return response.data as JournalWorkflowEntry[];
+  },
+
   /**
    * Submit journal for approval
    */
@@ -245,6 +282,14 @@ export const journalsApi = {
     return response.data as Journal;
   },
 
+  /**
+   * Reject journal back to draft
+   */
+  async reject(id: string, reason: string): Promise<Journal> {
+    const response = await apiClient.post<Journal>(`/journals/${id}/reject`, { reason });
+    return response.data as Journal;
+  },
+
   /**
    * Post journal to ledger
    */
@@ -253,6 +298,18 @@ export const journalsApi = {
     return response.data as Journal;
   },
 
+  /**
+   * Reverse a posted journal (returns the reversal journal)
+   */
+  async reverse(id: string, data: ReverseJournalDto = {}): Promise<Journal> {
+    const response = await apiClient.post<Journal>(`/journals/${id}/reverse`, {
+      reversalDate: data.reversal_date ? (typeof data.reversal_date === 'string' ? data.reversal_date : data.reversal_date.toISOString()) : undefined,
+      reason: data.reason,
+      force: data.force,
+    });
+    return response.data as Journal;
+  },
+
   /**
    * Update journal (draft only)
    */
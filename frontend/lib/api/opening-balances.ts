@@ -0,0 +1,136 @@
+/**
+ * Opening Balances API
+ * Loads trial balance figures and open customer/vendor invoices as of a cut-over date
+ */
+
+import { apiClient } from "./client";
+import type { Journal } from "./journals";
+
+export interface OpeningBalanceAccount {
+  account_id: string;
+  cost_center_id?: string;
+  debit: number;
+  credit: number;
+}
+
+export interface OpeningBalanceInvoice {
+  party_id: string;
+  original_invoice_number?: string;
+  invoice_date: string;
+  due_date?: string;
+  amount: number;
+  currency?: string;
+  exchange_rate?: number;
+  notes?: string;
+}
+
+export interface CreateOpeningBalanceDto {
+  cutover_date: string;
+  suspense_account_id?: string;
+  notes?: string;
+  accounts: OpeningBalanceAccount[];
+  customer_invoices?: OpeningBalanceInvoice[];
+  vendor_invoices?: OpeningBalanceInvoice[];
+}
+
+export interface OpeningBalanceSummary {
+  cutoverDate: string;
+  totalDebit: number;
+  totalCredit: number;
+  difference: number;
+  customerInvoicesTotal: number;
+  customerInvoicesCount: number;
+  vendorInvoicesTotal: number;
+  vendorInvoicesCount: number;
+}
+
+export interface OpeningBalancePreview extends OpeningBalanceSummary {
+  suspenseRequired: boolean;
+  alreadyLoaded: boolean;
+}
+
+export interface OpeningBalanceResult extends OpeningBalanceSummary {
+  journal: Journal;
+  invoicesCreated: number;
+}
+
+export interface OpeningInvoice {
+  id: string;
+  invoice_number: string;
+  invoice_type: "sales" | "purchase";
+  party_id: string;
+  party_type: "customer" | "vendor";
+  invoice_date: string;
+  due_date?: string;
+  currency: string;
+  total_amount: number;
+  balance_amount: number;
+  status: string;
+  notes?: string;
+}
+
+export interface CurrentOpeningBalances {
+  journal: Journal | null;
+  invoices: OpeningInvoice[];
+}
+
+function toInvoiceBody(invoice: OpeningBalanceInvoice) {
+  return {
+    partyId: invoice.party_id,
+    originalInvoiceNumber: invoice.original_invoice_number,
+    invoiceDate: invoice.invoice_date,
+    dueDate: invoice.due_date,
+    amount: invoice.amount,
+    currency: invoice.currency,
+    exchangeRate: invoice.exchange_rate,
+    notes: invoice.notes,
+  };
+}
+
+function toRequestBody(data: CreateOpeningBalanceDto) {
+  return {
+    cutoverDate: data.cutover_date,
+    suspenseAccountId: data.suspense_account_id,
+    notes: data.notes,
+    accounts: data.accounts.map((account) => ({
+      accountId: account.account_id,
+      costCenterId: account.cost_center_id,
+      debit: account.debit,
+      credit: account.credit,
+    })),
+    customerInvoices: data.customer_invoices?.map(toInvoiceBody),
+    vendorInvoices: data.vendor_invoices?.map(toInvoiceBody),
+  };
+}
+
+export const openingBalancesApi = {
+  /**
+   * Get the current opening journal and opening invoices
+   */
+  async getCurrent(): Promise<CurrentOpeningBalances> {
+    const response = await apiClient.get<CurrentOpeningBalances>("/opening-balances");
+    return response.data as CurrentOpeningBalances;
+  },
+
+  /**
+   * Validate opening balances and get totals without saving
+   */
+  async preview(data: CreateOpeningBalanceDto): Promise<OpeningBalancePreview> {
+    const response = await apiClient.post<OpeningBalancePreview>(
+      "/opening-balances/preview",
+      toRequestBody(data)
+    );
+    return response.data as OpeningBalancePreview;
+  },
+
+  /**
+   * Post the opening journal and create the opening invoices
+   */
+  async create(data: CreateOpeningBalanceDto): Promise<OpeningBalanceResult> {
+    const response = await apiClient.post<OpeningBalanceResult>(
+      "/opening-balances",
+      toRequestBody(data)
+    );
+    return response.data as OpeningBalanceResult;
+  },
+};
@@ -0,0 +1,97 @@
+/**
+ * Payment Terms API
+ * Named terms (net N, end of month + N, early-payment discount) used to derive invoice due dates
+ */
+
+import { apiClient } from "./client";
+
+export type PaymentTermType = "net" | "end_of_month";
+
+export interface PaymentTerms {
+  id: string;
+  tenant_id: string;
+  code: string;
+  name_en: string;
+  name_ar: string;
+  term_type: PaymentTermType;
+  days: number;
+  discount_percentage?: number;
+  discount_days?: number;
+  is_default: boolean;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreatePaymentTermsDto {
+  code: string;
+  name_en: string;
+  name_ar: string;
+  term_type?: PaymentTermType;
+  days: number;
+  discount_percentage?: number;
+  discount_days?: number;
+  is_default?: boolean;
+  is_active?: boolean;
+}
+
+function toRequestBody(data: Partial<CreatePaymentTermsDto>) {
+  return {
+    code: data.code,
+    nameEn: data.name_en,
+    nameAr: data.name_ar,
+    termType: data.term_type,
+    days: data.days,
+    discountPercentage: data.discount_percentage,
+    discountDays: data.discount_days,
+    isDefault: data.is_default,
+    isActive: data.is_active,
+  };
+}
+
+export const paymentTermsApi = {
+  /**
+   * Get all payment terms
+   */
+  async getAll(includeInactive = false): Promise<PaymentTerms[]> {
+    const response = await apiClient.get<PaymentTerms[]>(
+      includeInactive ? "/payment-terms?includeInactive=true" : "/payment-terms"
+    );
+    return response.data || [];
+  },
+
+  /**
+   * Get payment terms by ID
+   */
+  async getById(id: string): Promise<PaymentTerms> {
+    const response = await apiClient.get<PaymentTerms>(`/payment-terms/${id}`);
+    return response.data as PaymentTerms;
+  },
+
+  /**
+   * Create payment terms
+   */
+  async create(data: CreatePaymentTermsDto): Promise<PaymentTerms> {
+    const response = await apiClient.post<PaymentTerms>("/payment-terms", toRequestBody(data));
+    return response.data as PaymentTerms;
+  },
+
+  /**
+   * Update payment terms
+   */
+  async update(id: string, data: Partial<CreatePaymentTermsDto>): Promise<PaymentTerms> {
+    const response = await apiClient.patch<PaymentTerms>(
+      `/payment-terms/${id}`,
+      toRequestBody(data)
+    );
+    return response.data as PaymentTerms;
+  },
+
+  /**
+   * Delete payment terms
+   */
+  async delete(id: string): Promise<{ success: boolean }> {
+    const response = await apiClient.delete<{ success: boolean }>(`/payment-terms/${id}`);
+    return response.data as { success: boolean };
+  },
+};
@@ -10,6 +10,8 @@ export interface PaymentAllocation {
   payment_id: string;
   invoice_id: string;
   amount: number;
+  discount_allowed: number;
+  write_off: number;
   invoice?: {
     id: string;
     invoice_number: string;
@@ -33,6 +35,9 @@ export interface Payment {
   exchange_rate: number;
   payment_method: "cash" | "bank_transfer" | "check";
   amount: number;
+  unallocated_amount: number;
+  // Part of a receipt posted to customer advances
+  advance_amount: number;
   bank_account_id?: string;
   reference_number?: string;
   check_number?: string;
@@ -70,10 +75,15 @@ export interface CreatePaymentDto {
   check_date?: Date | string;
   bank_name?: string;
   notes?: string;
-  allocations: Array<{
+  allocations?: Array<{
     invoice_id: string;
     amount: number;
+    // Discount and write-off settle the invoice along with the amount
+    discount_allowed?: number;
+    write_off?: number;
   }>;
+  // Allocate to the party's open invoices instead of giving allocations
+  auto_allocate?: "oldest_due" | "reference";
 }
 
 // Alias for backward compatibility
@@ -93,6 +103,41 @@ export interface UpdatePaymentDto {
   notes?: string;
 }
 
+export interface AvailableCredit {
+  source_type: "payment" | "credit_note";
+  source_id: string;
+  number: string;
+  date: string;
+  currency: string;
+  amount: number;
+}
+
+export interface ApplyCreditRequest {
+  invoice_id: string;
+  // Defaults to the party's available credit, oldest first
+  sources?: Array<{
+    source_type: "payment" | "credit_note";
+    source_id: string;
+    amount?: number;
+  }>;
+  application_date?: string;
+}
+
+export interface ApplyCreditResult {
+  invoice: {
+    id: string;
+    invoice_number: string;
+    balance_amount: number;
+    status: string;
+  };
+  applied: Array<{
+    source_type: "payment" | "credit_note";
+    source_id: string;
+    number: string;
+    amount: number;
+  }>;
+}
+
 export interface PaymentFilters {
   payment_type?: "receipt" | "payment";
   status?: string;
@@ -145,10 +190,13 @@ export const paymentsApi = {
       check_date: data.check_date ? (typeof data.check_date === 'string' ? data.check_date : data.check_date.toISOString()) : undefined,
       bank_name: data.bank_name,
       notes: data.notes,
-      allocations: data.allocations.map((alloc) => ({
+      allocations: data.allocations?.map((alloc) => ({
         invoice_id: alloc.invoice_id,
         amount: alloc.amount,
+        discount_allowed: alloc.discount_allowed,
+        write_off: alloc.write_off,
       })),
+      autoAllocate: data.auto_allocate,
     });
     return response.data as Payment;
   },
@@ -205,6 +253,37 @@ export const paymentsApi = {
     return response.data as Payment;
   },
 
+  /**
+   * Get the unallocated payments and unapplied credit notes of a customer or vendor
+   */
+  async getAvailableCredit(
+    partyType: "customer" | "vendor",
+    partyId: string,
+    currency?: string
+  ): Promise<AvailableCredit[]> {
+    const params = new URLSearchParams({ partyType, partyId });
+    if (currency) params.append("currency", currency);
+
+    const response = await apiClient.get<AvailableCredit[]>(`/payments/available-credit?${params.toString()}`);
+    return response.data || [];
+  },
+
+  /**
+   * Settle an invoice from unallocated payments and credit notes
+   */
+  async applyCredit(data: ApplyCreditRequest): Promise<ApplyCreditResult> {
+    const response = await apiClient.post<ApplyCreditResult>("/payments/apply-credit", {
+      invoiceId: data.invoice_id,
+      sources: data.sources?.map((source) => ({
+        sourceType: source.source_type,
+        sourceId: source.source_id,
+        amount: source.amount,
+      })),
+      applicationDate: data.application_date,
+    });
+    return response.data as ApplyCreditResult;
+  },
+
   /**
    * Cancel payment
    */
@@ -0,0 +1,209 @@
+/**
+ * Recurring Invoices API
+ * Sales invoice profiles billed to a customer on a monthly, quarterly or yearly schedule
+ */
+
+import { apiClient } from "./client";
+import type { RecurrenceFrequency } from "./recurring-journals";
+
+export interface RecurringInvoiceLine {
+  id?: string;
+  line_number: number;
+  item_code?: string;
+  description_ar: string;
+  description_en?: string;
+  quantity: number;
+  unit_of_measure?: string;
+  unit_price: number;
+  discount_percentage?: number;
+  vat_code_id?: string;
+  account_id?: string;
+  cost_center_id?: string;
+}
+
+export interface RecurringInvoiceProfile {
+  id: string;
+  tenant_id: string;
+  branch_id?: string;
+  name: string;
+  customer_id: string;
+  customer?: {
+    id: string;
+    code: string;
+    name_en: string;
+    name_ar: string;
+    email?: string;
+  };
+  currency: string;
+  exchange_rate: number;
+  payment_terms_days?: number;
+  notes?: string;
+  frequency: RecurrenceFrequency;
+  day_of_month: number;
+  start_date: string;
+  end_date?: string;
+  next_run_date?: string;
+  last_run_date?: string;
+  auto_submit: boolean;
+  auto_approve: boolean;
+  auto_post: boolean;
+  auto_email: boolean;
+  email_language: "ar" | "en";
+  is_active: boolean;
+  occurrences_generated: number;
+  created_at: string;
+  updated_at: string;
+  recurring_invoice_profile_lines?: RecurringInvoiceLine[];
+}
+
+export interface RecurringInvoiceRun {
+  id: string;
+  profile_id: string;
+  occurrence_date: string;
+  invoice_id?: string;
+  status: "generated" | "submitted" | "approved" | "posted" | "emailed" | "failed";
+  error_message?: string;
+  emailed_to?: string;
+  emailed_at?: string;
+  created_at: string;
+  invoices?: {
+    id: string;
+    invoice_number: string;
+    status: string;
+    total_amount: number;
+    balance_amount: number;
+  };
+}
+
+export interface RecurringInvoiceOccurrences {
+  upcoming: string[];
+  generated: RecurringInvoiceRun[];
+  failures: RecurringInvoiceRun[];
+}
+
+export interface CreateRecurringInvoiceDto {
+  name: string;
+  branch_id?: string;
+  customer_id: string;
+  currency?: string;
+  exchange_rate?: number;
+  payment_terms_days?: number;
+  notes?: string;
+  frequency: RecurrenceFrequency;
+  day_of_month: number;
+  start_date: string;
+  end_date?: string;
+  auto_submit?: boolean;
+  auto_approve?: boolean;
+  auto_post?: boolean;
+  auto_email?: boolean;
+  email_language?: "ar" | "en";
+  is_active?: boolean;
+  lines: RecurringInvoiceLine[];
+}
+
+function toRequestBody(data: Partial<CreateRecurringInvoiceDto>) {
+  return {
+    name: data.name,
+    branchId: data.branch_id,
+    customerId: data.customer_id,
+    currency: data.currency,
+    exchangeRate: data.exchange_rate,
+    paymentTermsDays: data.payment_terms_days,
+    notes: data.notes,
+    frequency: data.frequency,
+    dayOfMonth: data.day_of_month,
+    startDate: data.start_date,
+    endDate: data.end_date,
+    autoSubmit: data.auto_submit,
+    autoApprove: data.auto_approve,
+    autoPost: data.auto_post,
+    autoEmail: data.auto_email,
+    emailLanguage: data.email_language,
+    isActive: data.is_active,
+    lines: data.lines?.map((line) => ({
+      lineNumber: line.line_number,
+      itemCode: line.item_code,
+      descriptionAr: line.description_ar,
+      descriptionEn: line.description_en,
+      quantity: line.quantity,
+      unitOfMeasure: line.unit_of_measure,
+      unitPrice: line.unit_price,
+      discountPercentage: line.discount_percentage,
+      vatCodeId: line.vat_code_id,
+      accountId: line.account_id,
+      costCenterId: line.cost_center_id,
+    })),
+  };
+}
+
+export const recurringInvoicesApi = {
+  /**
+   * Get all recurring invoice profiles
+   */
+  async getAll(filters?: {
+    is_active?: boolean;
+    customer_id?: string;
+  }): Promise<RecurringInvoiceProfile[]> {
+    const params = new URLSearchParams();
+    if (filters?.is_active !== undefined) params.append("isActive", String(filters.is_active));
+    if (filters?.customer_id) params.append("customerId", filters.customer_id);
+
+    const query = params.toString();
+    const response = await apiClient.get<RecurringInvoiceProfile[]>(
+      query ? `/recurring-invoices?${query}` : "/recurring-invoices"
+    );
+    return response.data || [];
+  },
+
+  /**
+   * Get a single profile with its lines
+   */
+  async getById(id: string): Promise<RecurringInvoiceProfile> {
+    const response = await apiClient.get<RecurringInvoiceProfile>(`/recurring-invoices/${id}`);
+    return response.data as RecurringInvoiceProfile;
+  },
+
+  /**
+   * Get upcoming dates, generation history and failures of a profile
+   */
+  async getOccurrences(id: string): Promise<RecurringInvoiceOccurrences> {
+    const response = await apiClient.get<RecurringInvoiceOccurrences>(
+      `/recurring-invoices/${id}/occurrences`
+    );
+    return response.data as RecurringInvoiceOccurrences;
+  },
+
+  /**
+   * Create a profile
+   */
+  async create(data: CreateRecurringInvoiceDto): Promise<RecurringInvoiceProfile> {
+    const response = await apiClient.post<RecurringInvoiceProfile>(
+      "/recurring-invoices",
+      toRequestBody(data)
+    );
+    return response.data as RecurringInvoiceProfile;
+  },
+
+  /**
+   * Update a profile (lines are replaced when provided)
+   */
+  async update(
+    id: string,
+    data: Partial<CreateRecurringInvoiceDto>
+  ): Promise<RecurringInvoiceProfile> {
+    const response = await apiClient.patch<RecurringInvoiceProfile>(
+      `/recurring-invoices/${id}`,
+      toRequestBody(data)
+    );
+    return response.data as RecurringInvoiceProfile;
+  },
+
+  /**
+   * Delete a profile
+   */
+  async delete(id: string): Promise<{ success: boolean }> {
+    const response = await apiClient.delete<{ success: boolean }>(`/recurring-invoices/${id}`);
+    return response.data as { success: boolean };
+  },
+};
@@ -0,0 +1,182 @@
+/**
+ * Recurring Journals API
+ * Journal templates that are generated on a monthly, quarterly or yearly schedule
+ */
+
+import { apiClient } from "./client";
+
+export type RecurrenceFrequency = "monthly" | "quarterly" | "yearly";
+
+export interface RecurringJournalLine {
+  id?: string;
+  line_number: number;
+  account_id: string;
+  description_ar?: string;
+  description_en?: string;
+  cost_center_id?: string;
+  debit: number;
+  credit: number;
+}
+
+export interface RecurringJournalTemplate {
+  id: string;
+  tenant_id: string;
+  branch_id?: string;
+  name: string;
+  journal_type: string;
+  reference_number?: string;
+  description_ar: string;
+  description_en?: string;
+  currency: string;
+  exchange_rate: number;
+  notes?: string;
+  frequency: RecurrenceFrequency;
+  day_of_month: number;
+  start_date: string;
+  end_date?: string;
+  next_run_date?: string;
+  last_run_date?: string;
+  auto_post: boolean;
+  is_active: boolean;
+  occurrences_generated: number;
+  created_at: string;
+  updated_at: string;
+  recurring_journal_template_lines?: RecurringJournalLine[];
+}
+
+export interface RecurringJournalRun {
+  id: string;
+  template_id: string;
+  occurrence_date: string;
+  journal_id?: string;
+  status: "generated" | "posted" | "failed";
+  error_message?: string;
+  created_at: string;
+  journals?: {
+    id: string;
+    journal_number: string;
+    status: string;
+    total_debit: number;
+    total_credit: number;
+  };
+}
+
+export interface RecurringJournalOccurrences {
+  upcoming: string[];
+  generated: RecurringJournalRun[];
+}
+
+export interface CreateRecurringJournalDto {
+  name: string;
+  branch_id?: string;
+  journal_type?: string;
+  reference_number?: string;
+  description_ar: string;
+  description_en?: string;
+  currency?: string;
+  exchange_rate?: number;
+  notes?: string;
+  frequency: RecurrenceFrequency;
+  day_of_month: number;
+  start_date: string;
+  end_date?: string;
+  auto_post?: boolean;
+  is_active?: boolean;
+  lines: RecurringJournalLine[];
+}
+
+function toRequestBody(data: Partial<CreateRecurringJournalDto>) {
+  return {
+    name: data.name,
+    branchId: data.branch_id,
+    journalType: data.journal_type,
+    referenceNumber: data.reference_number,
+    descriptionAr: data.description_ar,
+    descriptionEn: data.description_en,
+    currency: data.currency,
+    exchangeRate: data.exchange_rate,
+    notes: data.notes,
+    frequency: data.frequency,
+    dayOfMonth: data.day_of_month,
+    startDate: data.start_date,
+    endDate: data.end_date,
+    autoPost: data.auto_post,
+    isActive: data.is_active,
+    lines: data.lines?.map((line) => ({
+      lineNumber: line.line_number,
+      accountId: line.account_id,
+      descriptionAr: line.description_ar,
+      descriptionEn: line.description_en,
+      costCenterId: line.cost_center_id,
+      debit: line.debit,
+      credit: line.credit,
+    })),
+  };
+}
+
+export const recurringJournalsApi = {
+  /**
+   * Get all recurring journal templates
+   */
+  async getAll(filters?: { is_active?: boolean }): Promise<RecurringJournalTemplate[]> {
+    const params = new URLSearchParams();
+    if (filters?.is_active !== undefined) params.append("isActive", String(filters.is_active));
+
+    const query = params.toString();
+    const response = await apiClient.get<RecurringJournalTemplate[]>(
+      query ? `/recurring-journals?${query}` : "/recurring-journals"
+    );
+    return response.data || [];
+  },
+
+  /**
+   * Get a single template with its lines
+   */
+  async getById(id: string): Promise<RecurringJournalTemplate> {
+    const response = await apiClient.get<RecurringJournalTemplate>(`/recurring-journals/${id}`);
+    return response.data as RecurringJournalTemplate;
+  },
+
+  /**
+   * Get upcoming dates and generated journals for a template
+   */
+  async getOccurrences(id: string): Promise<RecurringJournalOccurrences> {
+    const response = await apiClient.get<RecurringJournalOccurrences>(
+      `/recurring-journals/${id}/occurrences`
+    );
+    return response.data as RecurringJournalOccurrences;
+  },
+
+  /**
+   * Create a template
+   */
+  async create(data: CreateRecurringJournalDto): Promise<RecurringJournalTemplate> {
+    const response = await apiClient.post<RecurringJournalTemplate>(
+      "/recurring-journals",
+      toRequestBody(data)
+    );
+    return response.data as RecurringJournalTemplate;
+  },
+
+  /**
+   * Update a template (lines are replaced when provided)
+   */
+  async update(
+    id: string,
+    data: Partial<CreateRecurringJournalDto>
+  ): Promise<RecurringJournalTemplate> {
+    const response = await apiClient.patch<RecurringJournalTemplate>(
+      `/recurring-journals/${id}`,
+      toRequestBody(data)
+    );
+    return response.data as RecurringJournalTemplate;
+  },
+
+  /**
+   * Delete a template
+   */
+  async delete(id: string): Promise<{ success: boolean }> {
+    const response = await apiClient.delete<{ success: boolean }>(`/recurring-journals/${id}`);
+    return response.data as { success: boolean };
+  },
+};
@@ -20,6 +20,7 @@ export interface Vendor {
   country?: string;
   credit_limit?: number;
   payment_terms_days?: number;
+  payment_terms_id?: string;
   bank_name?: string;
   bank_account_number?: string;
   iban?: string;
@@ -43,6 +44,7 @@ export interface CreateVendorDto {
   country?: string;
   credit_limit?: number;
   payment_terms_days?: number;
+  payment_terms_id?: string;
   bank_name?: string;
   bank_account_number?: string;
   iban?: string;
@@ -66,6 +68,7 @@ export interface UpdateVendorDto {
   country?: string;
   credit_limit?: number;
   payment_terms_days?: number;
+  payment_terms_id?: string;
   bank_name?: string;
   bank_account_number?: string;
   iban?: string;
@@ -118,6 +121,7 @@ export const vendorsApi = {
       country: data.country,
       credit_limit: data.credit_limit,
       payment_terms_days: data.payment_terms_days,
+      payment_terms_id: data.payment_terms_id,
       bank_name: data.bank_name,
       bank_account_number: data.bank_account_number,
       iban: data.iban,
@@ -144,6 +148,7 @@ export const vendorsApi = {
       country: data.country,
       credit_limit: data.credit_limit,
       payment_terms_days: data.payment_terms_days,
+      payment_terms_id: data.payment_terms_id,
       bank_name: data.bank_name,
       bank_account_number: data.bank_account_number,
       iban: data.iban,